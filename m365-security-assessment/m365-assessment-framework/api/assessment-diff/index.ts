@@ -0,0 +1,102 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { diffAssessments } from "../shared/assessmentDiff";
+
+// Azure Functions v4 - Tenant changes between two assessments
+app.http('assessment-diff', {
+    methods: ['GET', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'assessments/diff',
+    handler: assessmentDiffHandler
+});
+
+async function assessmentDiffHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log('🔀 Assessment diff API called');
+
+    try {
+        // Initialize data service (PostgreSQL)
+        await initializeDataService(context);
+
+        // Handle preflight OPTIONS request
+        if (request.method === 'OPTIONS') {
+            return {
+                status: 200,
+                headers: corsHeaders
+            };
+        }
+
+        const fromAssessmentId = request.query.get('from');
+        const toAssessmentId = request.query.get('to');
+
+        if (!fromAssessmentId || !toAssessmentId) {
+            return {
+                status: 400,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Bad request',
+                    message: 'from and to assessment IDs are required'
+                })
+            };
+        }
+
+        const [fromAssessment, toAssessment] = await Promise.all([
+            dataService.getAssessmentById(fromAssessmentId),
+            dataService.getAssessmentById(toAssessmentId)
+        ]);
+
+        if (!fromAssessment || !toAssessment) {
+            return {
+                status: 404,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Assessment not found',
+                    message: `Assessment with ID ${!fromAssessment ? fromAssessmentId : toAssessmentId} not found`
+                })
+            };
+        }
+
+        if (fromAssessment.customerId !== toAssessment.customerId) {
+            return {
+                status: 400,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Bad request',
+                    message: 'Both assessments must belong to the same customer'
+                })
+            };
+        }
+
+        const diff = diffAssessments(fromAssessment, toAssessment);
+        context.log('✅ Assessment diff computed:', diff.summary);
+
+        return {
+            status: 200,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: true,
+                data: {
+                    fromAssessmentId,
+                    toAssessmentId,
+                    fromDate: fromAssessment.date,
+                    toDate: toAssessment.date,
+                    ...diff
+                }
+            })
+        };
+
+    } catch (error: any) {
+        context.log('❌ Assessment diff API error:', error);
+        return {
+            status: 500,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: false,
+                error: 'Internal server error',
+                message: error.message
+            })
+        };
+    }
+}
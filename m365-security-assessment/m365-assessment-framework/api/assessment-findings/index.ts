@@ -0,0 +1,86 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { summarizeFindings, isActiveFinding } from "../shared/findings";
+
+// Azure Functions v4 - Findings of a single assessment
+app.http('assessment-findings', {
+    methods: ['GET', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'assessments/{assessmentId}/findings',
+    handler: assessmentFindingsHandler
+});
+
+async function assessmentFindingsHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log('🔎 Assessment findings API called');
+
+    try {
+        // Initialize data service (PostgreSQL)
+        await initializeDataService(context);
+
+        // Handle preflight OPTIONS request
+        if (request.method === 'OPTIONS') {
+            return {
+                status: 200,
+                headers: corsHeaders
+            };
+        }
+
+        const assessmentId = request.params.assessmentId;
+
+        if (!assessmentId) {
+            return {
+                status: 400,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Bad request',
+                    message: 'Assessment ID is required'
+                })
+            };
+        }
+
+        if (request.method !== 'GET') {
+            return {
+                status: 405,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Method not allowed',
+                    message: 'Only GET requests are supported for this endpoint'
+                })
+            };
+        }
+
+        const findings = await dataService.getAssessmentFindings(assessmentId);
+        const severityFilter = request.query.get('severity');
+        const filteredFindings = severityFilter
+            ? findings.filter(finding => finding.severity === severityFilter)
+            : findings;
+
+        context.log(`✅ Retrieved ${filteredFindings.length} findings for assessment ${assessmentId}`);
+
+        return {
+            status: 200,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: true,
+                data: filteredFindings,
+                // Resolved entries record what disappeared since the previous run and are not counted
+                summary: summarizeFindings(findings.filter(isActiveFinding)),
+                count: filteredFindings.length
+            })
+        };
+
+    } catch (error: any) {
+        context.log('❌ Assessment findings API error:', error);
+        return {
+            status: 500,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: false,
+                error: 'Failed to retrieve findings',
+                message: error.message
+            })
+        };
+    }
+}
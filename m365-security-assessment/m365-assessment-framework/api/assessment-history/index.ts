@@ -1,5 +1,7 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { getAuthenticatedUser } from "../shared/auth";
+import { getAssignmentScope } from "../shared/customerAccess";
 
 // Azure Functions v4 - Assessment History endpoint
 app.http('assessment-history', {
@@ -14,10 +16,7 @@ interface AssessmentHistory {
     tenantId: string;
     date: Date;
     overallScore: number;
-    categoryScores: {
-        license: number;
-        secureScore: number;
-    };
+    categoryScores: Record<string, number>;
     metrics?: any;
 }
 
@@ -98,7 +97,7 @@ async function storeAssessmentHistory(request: HttpRequest, context: InvocationC
                 tenantId: rawData.tenantId,
                 date: rawData.createdAt ? new Date(rawData.createdAt) : new Date(),
                 overallScore: rawData.score || 0,
-                categoryScores: {
+                categoryScores: rawData.metrics?.scoring?.categoryScores || {
                     license: rawData.metrics?.score?.license || rawData.metrics?.license?.utilizationRate || 0,
                     secureScore: rawData.metrics?.score?.secureScore || rawData.metrics?.secureScore?.percentage || 0
                 },
@@ -195,7 +194,7 @@ async function getAssessmentHistory(request: HttpRequest, context: InvocationCon
     
     try {
         // Get assessment history from PostgreSQL
-        const history = await dataService.getAssessmentHistory({ tenantId });
+        const history = await dataService.getAssessmentHistory({ tenantId, assignedTo: getAssignmentScope(getAuthenticatedUser(context)) });
         
         context.log(`✅ Retrieved ${history.length} history entries for tenant ${tenantId}`);
         
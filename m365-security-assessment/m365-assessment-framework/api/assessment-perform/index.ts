@@ -1,6 +1,9 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
 import { GraphApiService } from "../shared/graphApiService";
+import { ASSESSMENT_DOCUMENT_VERSION } from "../shared/assessmentDocument";
+import { Assessment, AssessmentMetricsDocument } from "../shared/types";
+import { AuditWriteError, recordAudit } from "../shared/audit";
 
 // Azure Functions v4 - Individual function self-registration for Static Web Apps
 app.http('assessment-perform', {
@@ -137,32 +140,55 @@ async function performSecurityAssessment(request: HttpRequest, context: Invocati
             const recommendations = generateRecommendations(licenseMetrics, secureScoreMetrics, secureScore);
 
             // Create comprehensive assessment data
+            const lastUpdated = new Date().toISOString();
+            const metrics: AssessmentMetricsDocument = {
+                schemaVersion: ASSESSMENT_DOCUMENT_VERSION,
+                assessmentName: requestData.assessmentName,
+                includedCategories: ['license', 'secureScore'],
+                score: {
+                    overall: overallScore,
+                    license: Math.min(licenseMetrics.utilizationRate, 100),
+                    secureScore: secureScoreMetrics.percentage
+                },
+                license: licenseMetrics,
+                secureScore: secureScoreMetrics,
+                lastUpdated,
+                realData: {
+                    dataSource: 'Microsoft Graph API',
+                    lastUpdated,
+                    tenantInfo: {
+                        displayName: orgProfile?.displayName,
+                        tenantId: requestData.tenantId,
+                        domain: orgProfile?.verifiedDomains?.find((d: any) => d.isDefault)?.name || customer.tenantDomain
+                    },
+                    licenseInfo: {
+                        summary: licenseMetrics.summary,
+                        licenses: licenseDetails || [],
+                        utilization: licenseMetrics.utilizationRate,
+                        totalLicenses: licenseMetrics.totalLicenses,
+                        assignedLicenses: licenseMetrics.assignedLicenses,
+                        licenseDetails: licenseMetrics.licenseDetails
+                    },
+                    secureScore: {
+                        ...secureScoreMetrics,
+                        lastUpdated,
+                        totalControlsFound: secureScoreMetrics.controlScores.length,
+                        ...(secureScore ? {} : { unavailable: true })
+                    }
+                }
+            };
             const assessmentData = {
                 customerId: requestData.customerId,
                 tenantId: requestData.tenantId,
                 score: overallScore,
-                metrics: {
-                    license: licenseMetrics,
-                    secureScore: secureScoreMetrics,
-                    realData: {
-                        orgProfile,
-                        licenseDetails,
-                        secureScore,
-                        dataSource: 'Microsoft Graph API',
-                        lastUpdated: new Date().toISOString(),
-                        tenantInfo: {
-                            displayName: orgProfile?.displayName,
-                            tenantId: requestData.tenantId,
-                            verifiedDomains: orgProfile?.verifiedDomains
-                        }
-                    }
-                },
+                metrics,
                 recommendations: recommendations,
                 status: 'completed'
             };
 
             // Store the assessment in the database
             const assessment = await dataService.createAssessment(assessmentData);
+            await auditPerformedAssessment(request, context, assessment, requestData.assessmentName);
             
             context.log(`✅ Security assessment completed successfully: ${assessment.id}`);
             
@@ -183,35 +209,50 @@ async function performSecurityAssessment(request: HttpRequest, context: Invocati
             };
 
         } catch (graphError: any) {
+            if (graphError instanceof AuditWriteError) {
+                throw graphError;
+            }
             context.log('❌ Graph API error during assessment:', graphError);
             
             // If Graph API fails, create a basic assessment with error information
+            const metrics: AssessmentMetricsDocument = {
+                schemaVersion: ASSESSMENT_DOCUMENT_VERSION,
+                assessmentName: requestData.assessmentName,
+                includedCategories: ['license', 'secureScore'],
+                error: graphError.message,
+                score: { overall: 0, license: 0, secureScore: 0 },
+                lastUpdated: new Date().toISOString(),
+                license: {
+                    totalLicenses: 0,
+                    assignedLicenses: 0,
+                    utilizationRate: 0,
+                    licenseDetails: [],
+                    summary: 'Unable to retrieve license data - authentication required'
+                },
+                secureScore: {
+                    percentage: 0,
+                    currentScore: 0,
+                    maxScore: 0,
+                    controlScores: [],
+                    summary: 'Unable to retrieve secure score - authentication required'
+                },
+                realData: {
+                    error: graphError.message,
+                    dataSource: 'Assessment failed',
+                    lastUpdated: new Date().toISOString(),
+                    authenticationRequired: true,
+                    tenantInfo: {
+                        displayName: customer.tenantName,
+                        tenantId: requestData.tenantId,
+                        domain: customer.tenantDomain
+                    }
+                }
+            };
             const fallbackAssessment = {
                 customerId: requestData.customerId,
                 tenantId: requestData.tenantId,
                 score: 0,
-                metrics: {
-                    license: {
-                        totalLicenses: 0,
-                        assignedLicenses: 0,
-                        utilizationRate: 0,
-                        licenseDetails: [],
-                        summary: 'Unable to retrieve license data - authentication required'
-                    },
-                    secureScore: {
-                        percentage: 0,
-                        currentScore: 0,
-                        maxScore: 0,
-                        controlScores: [],
-                        summary: 'Unable to retrieve secure score - authentication required'
-                    },
-                    realData: {
-                        error: graphError.message,
-                        dataSource: 'Assessment failed',
-                        lastUpdated: new Date().toISOString(),
-                        authenticationRequired: true
-                    }
-                },
+                metrics,
                 recommendations: [
                     'Complete admin consent to enable full security assessment',
                     'Ensure proper Microsoft Graph API permissions are granted',
@@ -221,6 +262,7 @@ async function performSecurityAssessment(request: HttpRequest, context: Invocati
             };
 
             const assessment = await dataService.createAssessment(fallbackAssessment);
+            await auditPerformedAssessment(request, context, assessment, requestData.assessmentName);
             
             return {
                 status: 201,
@@ -249,6 +291,21 @@ async function performSecurityAssessment(request: HttpRequest, context: Invocati
     }
 }
 
+function auditPerformedAssessment(request: HttpRequest, context: InvocationContext, assessment: Assessment, assessmentName?: string): Promise<void> {
+    return recordAudit(request, context, {
+        action: 'assessment.perform',
+        targetType: 'assessment',
+        targetId: assessment.id,
+        customerId: assessment.customerId,
+        after: {
+            tenantId: assessment.tenantId,
+            assessmentName,
+            status: assessment.status,
+            score: assessment.score
+        }
+    });
+}
+
 /**
  * Calculate license utilization metrics from Graph API data
  */
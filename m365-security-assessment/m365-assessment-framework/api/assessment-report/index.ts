@@ -0,0 +1,107 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { renderAssessmentReport } from "../shared/reports";
+import { resolveLicensePrices } from "../shared/licensePricing";
+
+// Azure Functions v4 - PDF report of a stored assessment
+app.http('assessment-report', {
+    methods: ['GET', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'assessments/{assessmentId}/report',
+    handler: assessmentReportHandler
+});
+
+async function assessmentReportHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log('📄 Assessment report API called');
+
+    try {
+        // Initialize data service (PostgreSQL)
+        await initializeDataService(context);
+
+        // Handle preflight OPTIONS request
+        if (request.method === 'OPTIONS') {
+            return {
+                status: 200,
+                headers: corsHeaders
+            };
+        }
+
+        const assessmentId = request.params.assessmentId;
+
+        if (!assessmentId) {
+            return {
+                status: 400,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Bad request',
+                    message: 'Assessment ID is required'
+                })
+            };
+        }
+
+        const assessment = await dataService.getAssessmentById(assessmentId);
+        if (!assessment) {
+            return {
+                status: 404,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Assessment not found',
+                    message: `Assessment with ID ${assessmentId} not found`
+                })
+            };
+        }
+
+        const customer = await dataService.getCustomer(assessment.customerId);
+        if (!customer) {
+            return {
+                status: 404,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Customer not found',
+                    message: `Customer with ID ${assessment.customerId} not found`
+                })
+            };
+        }
+
+        const [findings, negotiatedPrices] = await Promise.all([
+            dataService.getAssessmentFindings(assessmentId),
+            dataService.getCustomerLicensePrices(customer.id)
+        ]);
+        const pdf = renderAssessmentReport({
+            assessment,
+            customer,
+            findings,
+            licensePrices: resolveLicensePrices([], negotiatedPrices)
+        });
+        const fileName = `security-assessment-${customer.tenantDomain || customer.id}-${new Date(assessment.date).toISOString().split('T')[0]}.pdf`;
+
+        context.log(`✅ Rendered ${pdf.length} byte report for assessment ${assessmentId}`);
+
+        return {
+            status: 200,
+            headers: {
+                ...corsHeaders,
+                'Content-Type': 'application/pdf',
+                'Content-Disposition': `attachment; filename="${fileName}"`,
+                'Access-Control-Expose-Headers': 'Content-Disposition',
+                'Cache-Control': 'no-store'
+            },
+            body: pdf
+        };
+
+    } catch (error: any) {
+        context.log('❌ Assessment report API error:', error);
+        return {
+            status: 500,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: false,
+                error: 'Internal server error',
+                message: error.message
+            })
+        };
+    }
+}
@@ -0,0 +1,22 @@
+import { app, InvocationContext } from "@azure/functions";
+import { initializeDataService } from "../shared/utils";
+import { runScheduledAssessment, ScheduledAssessmentMessage, SCHEDULED_ASSESSMENT_QUEUE } from "../shared/assessmentSchedule";
+
+// Azure Functions v4 - Runs one scheduled assessment per message queued by the assessment scheduler.
+// Each run gets its own invocation and functionTimeout; host.json takes one message at a time
+// because every run makes many Graph calls against the customer tenant.
+app.storageQueue('assessment-schedule-runner', {
+    queueName: SCHEDULED_ASSESSMENT_QUEUE,
+    connection: 'AzureWebJobsStorage',
+    handler: assessmentScheduleRunnerHandler
+});
+
+async function assessmentScheduleRunnerHandler(queueItem: unknown, context: InvocationContext): Promise<void> {
+    const message = queueItem as ScheduledAssessmentMessage;
+    context.log(`📅 Running queued assessment for schedule ${message.scheduleId}`);
+
+    await initializeDataService(context);
+    // Outcomes, including failed assessments, are stored on the schedule. Errors that escape
+    // (e.g. the database is unreachable) fail the invocation so the message is retried.
+    await runScheduledAssessment(message, context);
+}
@@ -0,0 +1,54 @@
+import { app, InvocationContext, output, Timer } from "@azure/functions";
+import { initializeDataService, dataService } from "../shared/utils";
+import { queueScheduledAssessment, ScheduledAssessmentMessage, SCHEDULED_ASSESSMENT_QUEUE } from "../shared/assessmentSchedule";
+import { failStaleAssessmentJobs } from "../shared/assessmentJob";
+
+const scheduledAssessmentQueue = output.storageQueue({
+    queueName: SCHEDULED_ASSESSMENT_QUEUE,
+    connection: 'AzureWebJobsStorage'
+});
+
+// Azure Functions v4 - Queues due per-customer assessment schedules; assessment-schedule-runner runs them.
+// Timer triggers need the standalone Function App; SWA managed functions only run HTTP triggers.
+app.timer('assessment-scheduler', {
+    schedule: process.env.ASSESSMENT_SCHEDULER_SCHEDULE || '0 */15 * * * *',
+    extraOutputs: [scheduledAssessmentQueue],
+    handler: assessmentSchedulerHandler
+});
+
+async function assessmentSchedulerHandler(timer: Timer, context: InvocationContext): Promise<void> {
+    context.log('⏰ Assessment scheduler triggered');
+
+    try {
+        await initializeDataService(context);
+
+        // Jobs whose worker was recycled never write a result; fail them so they stop showing as running
+        const staleJobs = await failStaleAssessmentJobs(context);
+        if (staleJobs > 0) {
+            context.log(`⌛ Marked ${staleJobs} stale assessment jobs failed`);
+        }
+
+        const dueSchedules = await dataService.getDueAssessmentSchedules(new Date());
+        if (dueSchedules.length === 0) {
+            context.log('✅ No scheduled assessments are due');
+            return;
+        }
+        context.log(`📅 ${dueSchedules.length} scheduled assessments are due`);
+
+        const messages: ScheduledAssessmentMessage[] = [];
+        for (const schedule of dueSchedules) {
+            try {
+                messages.push(await queueScheduledAssessment(schedule));
+            } catch (error: any) {
+                context.log(`❌ Failed to queue schedule ${schedule.id}:`, error.message);
+            }
+        }
+
+        // Messages are sent when the invocation completes
+        context.extraOutputs.set(scheduledAssessmentQueue, messages);
+        context.log(`✅ Queued ${messages.length} scheduled assessments`);
+
+    } catch (error) {
+        context.error('❌ Assessment scheduler failed:', error);
+    }
+}
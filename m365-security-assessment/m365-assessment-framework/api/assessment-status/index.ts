@@ -0,0 +1,125 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { AssessmentProgress } from "../shared/types";
+import { isStaleAssessmentJob, failStaleAssessmentJob } from "../shared/assessmentJob";
+
+// Azure Functions v4 - Assessment job status endpoint
+app.http('assessment-status', {
+    methods: ['GET', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'assessments/{assessmentId}/status',
+    handler: assessmentStatusHandler
+});
+
+// Progress is polled, so responses must never be served from cache
+const statusHeaders = {
+    ...corsHeaders,
+    'Cache-Control': 'no-store'
+};
+
+async function assessmentStatusHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log('⏳ Assessment status API called');
+
+    try {
+        // Initialize data service (PostgreSQL)
+        await initializeDataService(context);
+
+        // Handle preflight OPTIONS request
+        if (request.method === 'OPTIONS') {
+            return {
+                status: 200,
+                headers: corsHeaders
+            };
+        }
+
+        const assessmentId = request.params.assessmentId;
+
+        if (!assessmentId) {
+            return {
+                status: 400,
+                headers: statusHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Bad request',
+                    message: 'Assessment ID is required'
+                })
+            };
+        }
+
+        if (request.method !== 'GET') {
+            return {
+                status: 405,
+                headers: statusHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Method not allowed',
+                    message: 'Only GET requests are supported for this endpoint'
+                })
+            };
+        }
+
+        let assessment = await dataService.getAssessmentById(assessmentId);
+        if (!assessment) {
+            return {
+                status: 404,
+                headers: statusHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Assessment not found',
+                    message: `Assessment with ID ${assessmentId} not found`
+                })
+            };
+        }
+
+        // The worker running the job is gone - report the run as failed instead of polling forever
+        if (isStaleAssessmentJob(assessment)) {
+            assessment = await failStaleAssessmentJob(assessment, context);
+        }
+
+        // Assessments created before jobs existed have no progress - report them as finished
+        const progress: AssessmentProgress | undefined = assessment.metrics?.progress;
+        const categories = progress?.categories || {};
+        const categoryNames = Object.keys(categories);
+        const byStatus = (status: string) => categoryNames.filter(name => categories[name].status === status);
+        const finishedCount = categoryNames.filter(name => categories[name].status !== 'pending' && categories[name].status !== 'running').length;
+
+        return {
+            status: 200,
+            headers: statusHeaders,
+            body: JSON.stringify({
+                success: true,
+                data: {
+                    assessmentId: assessment.id,
+                    customerId: assessment.customerId,
+                    tenantId: assessment.tenantId,
+                    status: assessment.status,
+                    score: assessment.score,
+                    categories,
+                    completedCategories: byStatus('completed'),
+                    runningCategories: byStatus('running'),
+                    pendingCategories: byStatus('pending'),
+                    failedCategories: byStatus('failed'),
+                    percentComplete: assessment.status === 'in-progress' && categoryNames.length > 0
+                        ? Math.round((finishedCount / categoryNames.length) * 100)
+                        : 100,
+                    startedAt: progress?.startedAt || assessment.date,
+                    updatedAt: progress?.updatedAt || assessment.date,
+                    completedAt: progress?.completedAt,
+                    error: progress?.error
+                }
+            })
+        };
+
+    } catch (error: any) {
+        context.log('❌ Assessment status API error:', error);
+        return {
+            status: 500,
+            headers: statusHeaders,
+            body: JSON.stringify({
+                success: false,
+                error: 'Internal server error',
+                message: error.message
+            })
+        };
+    }
+}
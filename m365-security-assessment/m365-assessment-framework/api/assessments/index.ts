@@ -1,6 +1,9 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
-import { MultiTenantGraphService } from "../shared/multiTenantGraphService";
+import { getAuthenticatedUser } from "../shared/auth";
+import { getAssignmentScope } from "../shared/customerAccess";
+import { startAssessmentJob } from "../shared/assessmentJob";
+import { recordAudit } from "../shared/audit";
 
 // Azure Functions v4 - Individual function self-registration for Static Web Apps
 app.http('assessments', {
@@ -65,7 +68,7 @@ async function getAssessments(request: HttpRequest, context: InvocationContext):
     context.log('📖 Getting assessments from PostgreSQL');
     
     try {
-        const result = await dataService.getAssessments();
+        const result = await dataService.getAssessments({ assignedTo: getAssignmentScope(getAuthenticatedUser(context)) });
         
         context.log(`✅ Retrieved ${result.assessments.length} assessments`);
         
@@ -96,7 +99,7 @@ async function getAssessments(request: HttpRequest, context: InvocationContext):
 }
 
 async function createAssessment(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
-    context.log('📝 Creating REAL M365 security assessment');
+    context.log('📝 Starting REAL M365 security assessment');
     
     try {
         const assessmentData = await request.json() as any;
@@ -140,629 +143,51 @@ async function createAssessment(request: HttpRequest, context: InvocationContext
             domain: customer.tenantDomain
         });
 
-        // Perform REAL security assessment using Microsoft Graph API with proper multi-tenant authentication
-        let realAssessmentData;
-        try {
-            context.log('🔍 Initializing MultiTenantGraphService for customer tenant:', assessmentData.tenantId);
-            const graphService = new MultiTenantGraphService(assessmentData.tenantId);
-            
-            // Fetch real data from Microsoft Graph API using the configured enterprise app
-            context.log('📊 Fetching organization profile...');
-            const orgProfile = await graphService.getOrganization();
-            
-            // Check which categories are requested
-            const includedCategories = assessmentData.includedCategories || ['license', 'secureScore', 'identity'];
-            context.log('📊 Collecting data for categories:', includedCategories);
-            
-            // Conditionally fetch license details
-            let licenseDetails = null;
-            if (includedCategories.includes('license')) {
-                context.log('📊 Fetching license details...');
-                licenseDetails = await graphService.getLicenseDetails();
-            } else {
-                context.log('⏭️ Skipping license details (not requested)');
-            }
-            
-            // Conditionally fetch secure score
-            let secureScore = null;
-            if (includedCategories.includes('secureScore')) {
-                context.log('📊 Fetching secure score...');
-                try {
-                    secureScore = await graphService.getSecureScore();
-                    context.log('✅ Secure score data retrieved successfully');
-                } catch (secureScoreError: any) {
-                    context.log('⚠️ Secure score data unavailable:', secureScoreError.message);
-                    secureScore = {
-                        unavailable: true,
-                        error: secureScoreError.message,
-                        currentScore: 0,
-                        maxScore: 100,
-                        percentage: 0
-                    };
-                }
-            } else {
-                context.log('⏭️ Skipping secure score (not requested)');
-                secureScore = {
-                    skipped: true,
-                    currentScore: 0,
-                    maxScore: 100,
-                    percentage: 0
-                };
-            }
-
-            // Conditionally fetch endpoint/device data
-            let endpointMetrics: any = null;
-            if (includedCategories.includes('endpoint')) {
-                context.log('📊 Fetching managed devices for endpoint metrics...');
-                const devices = await graphService.getManagedDevices();
-                const totalDevices = Array.isArray(devices) ? devices.length : 0;
-                const compliantDevices = totalDevices > 0 ? devices.filter((d: any) => (d.complianceState || '').toLowerCase() === 'compliant').length : 0;
-                const nonCompliantDevices = Math.max(0, totalDevices - compliantDevices);
-                const complianceRate = totalDevices > 0 ? Math.round((compliantDevices / totalDevices) * 100) : 0;
-                const platformBreakdown = devices.reduce((acc: any, d: any) => {
-                    const os = (d.operatingSystem || 'Unknown').toLowerCase();
-                    acc[os] = (acc[os] || 0) + 1;
-                    return acc;
-                }, {} as Record<string, number>);
-
-                endpointMetrics = {
-                    totalDevices,
-                    compliantDevices,
-                    nonCompliantDevices,
-                    complianceRate,
-                    platformBreakdown,
-                    sample: devices.slice(0, 10).map((d: any) => ({ id: d.id, name: d.deviceName, os: d.operatingSystem, compliance: d.complianceState, lastSync: d.lastSyncDateTime }))
-                };
-                context.log('✅ Endpoint metrics computed:', endpointMetrics);
-            } else {
-                context.log('⏭️ Skipping endpoint metrics (not requested)');
-            }
-            
-            context.log('✅ Graph API data collection completed successfully');
-            context.log('📊 Data summary:', {
-                orgProfile: orgProfile ? 'Retrieved' : 'Not available',
-                licenseDetails: licenseDetails ? `${Array.isArray(licenseDetails) ? licenseDetails.length : 'N/A'} items` : 'Not available',
-                secureScore: secureScore?.unavailable ? 'Unavailable' : 'Retrieved',
-                endpointDevices: endpointMetrics ? endpointMetrics.totalDevices : 'Not requested'
-            });
-
-            // Calculate metrics from collected data
-            const licenseInfo = licenseDetails && Array.isArray(licenseDetails) ? {
-                summary: `${licenseDetails.length} license types found`,
-                licenses: licenseDetails,
-                utilization: 0, // Will be calculated from license data
-                totalLicenses: licenseDetails.reduce((sum: number, license: any) => {
-                    // Handle Microsoft Graph API license structure
-                    const totalUnits = license.totalUnits || 
-                                     license.prepaidUnits?.enabled || 
-                                     license.prepaidUnits?.total || 
-                                     0;
-                    return sum + totalUnits;
-                }, 0),
-                assignedLicenses: licenseDetails.reduce((sum: number, license: any) => {
-                    // Handle Microsoft Graph API license structure  
-                    const assignedUnits = license.assignedUnits || 
-                                        license.consumedUnits || 
-                                        license.prepaidUnits?.consumed || 
-                                        0;
-                    return sum + assignedUnits;
-                }, 0),
-                licenseDetails: licenseDetails
-            } : {
-                summary: includedCategories.includes('license') 
-                    ? "License data not available due to permissions or API access issue"
-                    : "License assessment not requested",
-                licenses: [],
-                utilization: 0,
-                totalLicenses: 0,
-                assignedLicenses: 0,
-                licenseDetails: []
-            };
-
-            // Process secure score data
-            const secureScoreData = secureScore?.unavailable ? {
-                summary: "Microsoft Secure Score: Data unavailable",
-                maxScore: 100,
-                percentage: 0,
-                lastUpdated: new Date().toISOString(),
-                unavailable: true,
-                currentScore: 0,
-                controlScores: [],
-                totalControlsFound: 0,
-                error: secureScore.error
-            } : secureScore?.skipped ? {
-                summary: "Microsoft Secure Score: Assessment not requested",
-                maxScore: 100,
-                percentage: 0,
-                lastUpdated: new Date().toISOString(),
-                skipped: true,
-                currentScore: 0,
-                controlScores: [],
-                totalControlsFound: 0
-            } : {
-                summary: `Microsoft Secure Score: ${secureScore?.currentScore || 0} / ${secureScore?.maxScore || 100}`,
-                maxScore: secureScore?.maxScore || 100,
-                // Calculate percentage properly: if API doesn't provide it, calculate from currentScore/maxScore
-                percentage: secureScore?.percentage || 
-                          (secureScore?.maxScore > 0 ? 
-                           Math.round((secureScore?.currentScore || 0) / secureScore.maxScore * 100) : 0),
-                lastUpdated: secureScore?.lastUpdated || new Date().toISOString(),
-                unavailable: false,
-                currentScore: secureScore?.currentScore || 0,
-                controlScores: secureScore?.controlScores || [],
-                totalControlsFound: (secureScore?.controlScores || []).length
-            };
-
-            // Calculate overall assessment score from available data
-            const licenseUtilization = licenseInfo.totalLicenses > 0 ? 
-                Math.round((licenseInfo.assignedLicenses / licenseInfo.totalLicenses) * 100) : 0;
-            const secureScorePercentage = secureScoreData.percentage || 0;
-            const deviceComplianceScore = endpointMetrics ? endpointMetrics.complianceRate : 100; // default 100 if not requested
-            
-            // Weighted scoring: 40% secure score, 30% license optimization, 30% baseline security
-            const overallScore = Math.round(
-                (secureScorePercentage * 0.4) +
-                (licenseUtilization * 0.3) +
-                (30 * 0.3) // Baseline 30 points for having data collection working
-            );
-
-            // Create comprehensive assessment data with REAL metrics from Graph API
-            realAssessmentData = {
-                customerId: assessmentData.customerId,
-                tenantId: assessmentData.tenantId,
-                score: overallScore,
-                metrics: {
-                    // Create structured metrics matching the expected format
-                    license: {
-                        totalLicenses: licenseInfo.totalLicenses,
-                        assignedLicenses: licenseInfo.assignedLicenses,
-                        utilizationRate: licenseUtilization,
-                        licenseDetails: licenseInfo.licenseDetails,
-                        summary: licenseInfo.summary
-                    },
-                    secureScore: secureScoreData,
-                    score: {
-                        overall: overallScore,
-                        license: Math.min(licenseUtilization, 100),
-                        secureScore: secureScorePercentage
-                    },
-                    lastUpdated: new Date(),
-                    realData: {
-                        // Structure data the way Reports.tsx expects it
-                        dataSource: 'Microsoft Graph API via ServerGraphService',
-                        tenantInfo: {
-                            domain: orgProfile?.verifiedDomains?.find((d: any) => d.isDefault)?.name || customer.tenantDomain || 'unknown.onmicrosoft.com',
-                            tenantId: assessmentData.tenantId,
-                            displayName: orgProfile?.displayName || customer.tenantName || 'Unknown Organization'
-                        },
-                        lastUpdated: new Date().toISOString(),
-                        licenseInfo: licenseInfo,
-                        secureScore: secureScoreData,
-                        assessmentScope: "Security Metrics (Identity, Device Compliance, Secure Score) + License Analysis",
-                        identityMetrics: includedCategories.includes('identity') 
-                            ? await collectIdentityMetrics(graphService, context)
-                            : {
-                                totalUsers: 0,
-                                mfaEnabledUsers: 0,
-                                mfaCoverage: 0,
-                                adminUsers: 0,
-                                guestUsers: 0,
-                                conditionalAccessPolicies: 0,
-                                skipped: true,
-                                reason: 'Identity assessment not requested'
-                            },
-                        // New: endpoint / device metrics when requested
-                        ...(endpointMetrics ? { endpointMetrics } : {}),
-                        securityMetrics: {
-                            alertsCount: 0,
-                            secureScore: secureScorePercentage,
-                            identityScore: 0,
-                            dataProtectionScore: 0,
-                            recommendationsCount: 0,
-                            deviceComplianceScore: deviceComplianceScore
-                        },
-                        authenticationMethod: "Azure Multi-Tenant App (Customer Tenant Access)"
-                    }
-                }
-            };
-            
-            context.log('🎯 Real assessment data created successfully');
-            
-            // Add recommendations based on collected data
-            realAssessmentData.recommendations = [
-                secureScorePercentage < 50 ? 'Improve Microsoft Secure Score' : 'Maintain good security posture',
-                licenseDetails && Array.isArray(licenseDetails) && licenseDetails.length > 0 ? 'Optimize license utilization' : 'Configure license monitoring',
-                ...(endpointMetrics ? [endpointMetrics.complianceRate < 90 ? 'Increase device compliance by enforcing policies' : 'Maintain device compliance'] : []),
-                'Regular security assessments recommended'
-            ];
-            realAssessmentData.status = 'completed';
-
-            context.log('🎯 Real assessment data created successfully');
-
-        } catch (graphError: any) {
-            context.log('⚠️ Microsoft Graph API assessment failed:', graphError.message);
-            
-            // Create assessment with error information but don't fail completely
-            realAssessmentData = {
-                customerId: assessmentData.customerId,
+        // Collection runs in the background - the client polls GET /assessments/{id}/status for progress.
+        // The audit entry is written before the job starts, so an unaudited job never runs.
+        const assessment = await startAssessmentJob({
+            customerId: assessmentData.customerId,
+            tenantId: assessmentData.tenantId,
+            assessmentName: assessmentData.assessmentName,
+            includedCategories: assessmentData.includedCategories
+        }, customer, context, created => recordAudit(request, context, {
+            action: 'assessment.start',
+            targetType: 'assessment',
+            targetId: created.id,
+            customerId: assessmentData.customerId,
+            after: {
                 tenantId: assessmentData.tenantId,
-                score: 0,
-                metrics: {
-                    license: {
-                        totalLicenses: 0,
-                        assignedLicenses: 0,
-                        utilizationRate: 0,
-                        licenseDetails: [],
-                        summary: 'License data unavailable - authentication required'
-                    },
-                    secureScore: {
-                        percentage: 0,
-                        currentScore: 0,
-                        maxScore: 100,
-                        controlScores: [],
-                        summary: 'Secure score unavailable - authentication or permissions required'
-                    },
-                    score: {
-                        overall: 0,
-                        license: 0,
-                        secureScore: 0
-                    },
-                    lastUpdated: new Date(),
-                    realData: {
-                        // Structure data the way Reports.tsx expects it, even for failed assessments
-                        secureScore: {
-                            currentScore: 0,
-                            maxScore: 100,
-                            percentage: 0,
-                            controlScores: [],
-                            summary: 'Secure score unavailable - authentication or permissions required',
-                            lastUpdated: new Date().toISOString(),
-                            unavailable: true
-                        },
-                        identityMetrics: {
-                            totalUsers: 0,
-                            mfaEnabledUsers: 0,
-                            mfaCoverage: 0,
-                            adminUsers: 0,
-                            guestUsers: 0,
-                            conditionalAccessPolicies: 0,
-                            error: 'Graph API unavailable - authentication required'
-                        },
-                        licenseInfo: {
-                            totalLicenses: 0,
-                            assignedLicenses: 0,
-                            utilization: 0,
-                            licenses: [],
-                            summary: 'License data unavailable - authentication required'
-                        },
-                        error: graphError.message,
-                        dataSource: 'Assessment failed - Microsoft Graph API unavailable',
-                        lastUpdated: new Date().toISOString(),
-                        authenticationRequired: true,
-                        tenantInfo: {
-                            displayName: customer.tenantName,
-                            tenantId: assessmentData.tenantId,
-                            domain: customer.tenantDomain
-                        },
-                        troubleshooting: 'Check Azure AD permissions and Managed Identity configuration'
-                    }
-                },
-                recommendations: [
-                    'Configure Azure AD permissions for Microsoft Graph API access',
-                    'Verify Managed Identity is properly configured',
-                    'Ensure required Graph API permissions are granted',
-                    'Contact administrator to complete security assessment setup'
-                ],
-                status: 'completed_with_errors'
-            };
-        }
-
-        // Store the assessment in PostgreSQL
-        const assessment = await dataService.createAssessment(realAssessmentData);
-        
-        context.log(`✅ Real security assessment stored: ${assessment.id} for customer ${assessmentData.customerId}`);
+                assessmentName: assessmentData.assessmentName,
+                includedCategories: assessmentData.includedCategories,
+                status: created.status
+            }
+        }));
         
         return {
-            status: 201,
+            status: 202,
             headers: corsHeaders,
             body: JSON.stringify({
                 success: true,
                 data: assessment,
-                message: 'Real M365 security assessment completed successfully',
-                assessmentType: 'Microsoft Graph API Security Assessment',
-                dataSource: realAssessmentData.status === 'completed' ? 'Live Microsoft Graph API' : 'Error fallback',
-                stats: {
-                    overallScore: assessment.score,
-                    secureScore: realAssessmentData.metrics.secureScore.percentage,
-                    recommendationsCount: realAssessmentData.recommendations.length,
-                    hasRealData: realAssessmentData.status === 'completed'
-                }
+                jobId: assessment.id,
+                statusUrl: `/api/assessments/${assessment.id}/status`,
+                message: 'M365 security assessment started',
+                assessmentType: 'Microsoft Graph API Security Assessment'
             })
         };
 
     } catch (error: any) {
-        context.log('❌ Error creating real security assessment:', error);
+        context.log('❌ Error starting real security assessment:', error);
         
         return {
             status: 500,
             headers: corsHeaders,
             body: JSON.stringify({
                 success: false,
-                error: 'Failed to create security assessment',
+                error: 'Failed to start security assessment',
                 message: error.message,
                 troubleshooting: 'Check Azure configuration and Microsoft Graph API permissions'
             })
         };
     }
 }
-
-/**
- * Collect comprehensive identity metrics using Microsoft Graph API
- * Implements secure data collection with proper error handling
- */
-async function collectIdentityMetrics(graphService: MultiTenantGraphService, context: InvocationContext): Promise<any> {
-    context.log('🔍 Collecting identity metrics...');
-    
-    try {
-        // Collect data in parallel for better performance
-        const [
-            allUsers,
-            conditionalAccessPolicies,
-            userRegistrationDetails,
-            privilegedUsers
-        ] = await Promise.all([
-            graphService.getAllUsers().catch(error => {
-                context.log('⚠️ Get all users failed, falling back to user count:', error.message);
-                return graphService.getUserCount().then(count => {
-                    // If we only have count, create mock user array for backwards compatibility
-                    return Array(count).fill(null).map((_, index) => ({
-                        id: `user-${index}`,
-                        userPrincipalName: `user${index}@tenant.onmicrosoft.com`,
-                        userType: 'Member',
-                        accountEnabled: true
-                    }));
-                }).catch(() => []);
-            }),
-            graphService.getConditionalAccessPolicies().catch(error => {
-                context.log('⚠️ Conditional access policies failed:', error.message);
-                return [];
-            }),
-            graphService.getUserRegistrationDetails().catch(error => {
-                context.log('⚠️ User registration details failed:', error.message);
-                return [];
-            }),
-            graphService.getPrivilegedUsers().catch(error => {
-                context.log('⚠️ Privileged users failed:', error.message);
-                return [];
-            })
-        ]);
-
-        context.log('📊 Raw data collected:', {
-            allUsersCount: allUsers.length,
-            userRegistrationDetailsCount: userRegistrationDetails.length,
-            privilegedUsersCount: privilegedUsers.length,
-            conditionalAccessPoliciesCount: conditionalAccessPolicies.length
-        });
-
-        // Count different user types from the actual user list
-        const enabledUsers = allUsers.filter(user => user && user.accountEnabled !== false);
-        const totalUsers = enabledUsers.length;
-        
-        // Count guest users from actual user data
-        let guestUsers = enabledUsers.filter(user => 
-            user.userType === 'Guest' || 
-            user.userPrincipalName?.includes('#EXT#') || 
-            user.userPrincipalName?.includes('#ext#')
-        ).length;
-
-        // Count MFA enabled users from registration details
-        let mfaEnabledUsers = 0;
-        if (userRegistrationDetails && userRegistrationDetails.length > 0) {
-            mfaEnabledUsers = userRegistrationDetails.filter((user: any) => {
-                // Check if user has any MFA methods registered
-                const hasMFA = user.isMfaRegistered === true || 
-                             user.methodsRegistered?.some((method: string) => 
-                                method.toLowerCase().includes('microsoftauthenticator') ||
-                                method.toLowerCase().includes('authenticator') ||
-                                method.toLowerCase().includes('phone') ||
-                                method.toLowerCase().includes('sms')
-                             );
-                return hasMFA;
-            }).length;
-            
-            // Also update guest count from registration details if we have more detailed data
-            const guestUsersFromRegistration = userRegistrationDetails.filter((user: any) => {
-                return user.userType === 'Guest' || 
-                       user.userPrincipalName?.includes('#ext#') ||
-                       user.isGuest === true;
-            }).length;
-            
-            // Use the higher guest count (more comprehensive data source)
-            guestUsers = Math.max(guestUsers, guestUsersFromRegistration);
-        }
-
-        // Calculate regular users (non-guest, non-admin)
-        const adminUserCount = privilegedUsers.length;
-        const regularUsers = Math.max(0, totalUsers - guestUsers - adminUserCount);
-        
-        // Calculate MFA coverage percentage
-        const mfaCoverage = totalUsers > 0 ? Math.round((mfaEnabledUsers / totalUsers) * 100) : 0;
-
-        // Enhance user registration details with additional analysis for vulnerability assessment
-        let enhancedUserDetails = [];
-        
-        if (userRegistrationDetails && userRegistrationDetails.length > 0) {
-            // We have detailed registration data - use it for comprehensive analysis
-            enhancedUserDetails = userRegistrationDetails.map((user: any) => {
-                const isPrivileged = privilegedUsers.some((privUser: any) => 
-                    privUser.userPrincipalName === user.userPrincipalName || 
-                    privUser.id === user.id
-                );
-                
-                const isExternalUser = user.userPrincipalName?.includes('#EXT#') || 
-                                      user.userType === 'Guest';
-                
-                const isSyncUser = user.userPrincipalName?.startsWith('Sync_') || 
-                                  user.userPrincipalName?.startsWith('ADToAADSyncServiceAccount');
-                
-                // Classify authentication methods by strength
-                const strongMethods = ['microsoftAuthenticatorPasswordless', 'fido2SecurityKey', 
-                                     'passKeyDeviceBound', 'windowsHelloForBusiness', 'hardwareOneTimePasscode'];
-                const weakMethods = ['sms', 'voiceCall', 'email', 'alternateMobilePhone', 'securityQuestion'];
-                
-                const registeredMethods = user.methodsRegistered || [];
-                const hasStrongMethods = registeredMethods.some((method: string) => 
-                    strongMethods.some(strong => method.toLowerCase().includes(strong.toLowerCase()))
-                );
-                const hasWeakMethods = registeredMethods.some((method: string) => 
-                    weakMethods.some(weak => method.toLowerCase().includes(weak.toLowerCase()))
-                );
-                
-                // Calculate vulnerability level
-                let vulnerabilityLevel = 'Low';
-                let vulnerabilityReason = 'Strong authentication methods configured';
-                
-                if (isPrivileged && !hasStrongMethods) {
-                    vulnerabilityLevel = 'Critical';
-                    vulnerabilityReason = 'Privileged user without strong authentication';
-                } else if (isPrivileged && hasWeakMethods) {
-                    vulnerabilityLevel = 'High';
-                    vulnerabilityReason = 'Privileged user with weak authentication methods';
-                } else if (!user.isMfaRegistered && !user.isMfaCapable) {
-                    vulnerabilityLevel = 'High';
-                    vulnerabilityReason = 'No MFA configured';
-                } else if (hasWeakMethods && !hasStrongMethods) {
-                    vulnerabilityLevel = 'Medium';
-                    vulnerabilityReason = 'Only weak authentication methods';
-                } else if (isExternalUser && !hasStrongMethods) {
-                    vulnerabilityLevel = 'Medium';
-                    vulnerabilityReason = 'External user without strong authentication';
-                }
-                
-                return {
-                    ...user,
-                    isPrivileged,
-                    isExternalUser,
-                    isSyncUser,
-                    hasStrongMethods,
-                    hasWeakMethods,
-                    hasMixedMethods: hasStrongMethods && hasWeakMethods,
-                    vulnerabilityLevel,
-                    vulnerabilityReason,
-                    authMethodsCount: registeredMethods.length,
-                    strongMethodsCount: registeredMethods.filter((method: string) => 
-                        strongMethods.some(strong => method.toLowerCase().includes(strong.toLowerCase()))
-                    ).length,
-                    weakMethodsCount: registeredMethods.filter((method: string) => 
-                        weakMethods.some(weak => method.toLowerCase().includes(weak.toLowerCase()))
-                    ).length
-                };
-            });
-        } else {
-            // Fallback: Create simplified user data from basic user list when registration details aren't available
-            context.log('⚠️ User registration details not available, creating fallback user data');
-            enhancedUserDetails = enabledUsers.slice(0, 50).map((user: any) => {
-                const isPrivileged = privilegedUsers.some((privUser: any) => 
-                    privUser.userPrincipalName === user.userPrincipalName || 
-                    privUser.id === user.id
-                );
-                
-                const isExternalUser = user.userPrincipalName?.includes('#EXT#') || 
-                                      user.userType === 'Guest';
-                
-                const isSyncUser = user.userPrincipalName?.startsWith('Sync_') || 
-                                  user.userPrincipalName?.startsWith('ADToAADSyncServiceAccount');
-                
-                // For fallback data, make reasonable assumptions
-                let vulnerabilityLevel = 'Medium';
-                let vulnerabilityReason = 'Detailed authentication data not available';
-                
-                if (isPrivileged) {
-                    vulnerabilityLevel = 'High';
-                    vulnerabilityReason = 'Privileged user - authentication details need verification';
-                } else if (isExternalUser) {
-                    vulnerabilityLevel = 'Medium';
-                    vulnerabilityReason = 'External user - access should be reviewed';
-                } else if (isSyncUser) {
-                    vulnerabilityLevel = 'Low';
-                    vulnerabilityReason = 'Service account - typically secure';
-                }
-                
-                return {
-                    id: user.id,
-                    userPrincipalName: user.userPrincipalName,
-                    userType: user.userType || 'Member',
-                    isPrivileged,
-                    isExternalUser,
-                    isSyncUser,
-                    vulnerabilityLevel,
-                    vulnerabilityReason,
-                    isMfaCapable: null, // Unknown without registration data
-                    isMfaRegistered: null, // Unknown without registration data
-                    isPasswordlessCapable: null, // Unknown without registration data
-                    methodsRegistered: [],
-                    authMethodsCount: 0,
-                    strongMethodsCount: 0,
-                    weakMethodsCount: 0,
-                    hasStrongMethods: false,
-                    hasWeakMethods: false,
-                    hasMixedMethods: false
-                };
-            });
-        }
-
-        const identityMetrics = {
-            totalUsers: totalUsers,
-            enabledUsers: enabledUsers.length,
-            mfaEnabledUsers: mfaEnabledUsers,
-            mfaCoverage: mfaCoverage,
-            adminUsers: adminUserCount,
-            guestUsers: guestUsers,
-            regularUsers: regularUsers,
-            conditionalAccessPolicies: conditionalAccessPolicies.length,
-            // Add detailed user vulnerability data
-            userDetails: enhancedUserDetails,
-            vulnerabilitySummary: {
-                critical: enhancedUserDetails.filter((u: any) => u.vulnerabilityLevel === 'Critical').length,
-                high: enhancedUserDetails.filter((u: any) => u.vulnerabilityLevel === 'High').length,
-                medium: enhancedUserDetails.filter((u: any) => u.vulnerabilityLevel === 'Medium').length,
-                low: enhancedUserDetails.filter((u: any) => u.vulnerabilityLevel === 'Low').length
-            },
-            // Add source information for transparency
-            dataSource: {
-                usersFromApi: allUsers.length,
-                registrationDetails: userRegistrationDetails.length,
-                privilegedUsersFound: privilegedUsers.length,
-                dataQuality: 'complete' // No estimations needed
-            }
-        };
-
-        context.log('✅ Identity metrics collected successfully:', {
-            totalUsers: identityMetrics.totalUsers,
-            enabledUsers: identityMetrics.enabledUsers,
-            mfaEnabledUsers: identityMetrics.mfaEnabledUsers,
-            mfaCoverage: `${identityMetrics.mfaCoverage}%`,
-            adminUsers: identityMetrics.adminUsers,
-            guestUsers: identityMetrics.guestUsers,
-            regularUsers: identityMetrics.regularUsers,
-            conditionalAccessPolicies: identityMetrics.conditionalAccessPolicies,
-            dataSource: identityMetrics.dataSource
-        });
-
-        return identityMetrics;
-
-    } catch (error: any) {
-        context.log('❌ Failed to collect identity metrics:', error.message);
-        
-        // Return safe defaults on error
-        return {
-            totalUsers: 0,
-            mfaEnabledUsers: 0,
-            mfaCoverage: 0,
-            adminUsers: 0,
-            guestUsers: 0,
-            conditionalAccessPolicies: 0,
-            error: error.message
-        };
-    }
-}
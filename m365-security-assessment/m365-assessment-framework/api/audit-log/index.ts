@@ -0,0 +1,83 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { AuditLogQuery, AuditTargetType } from "../shared/types";
+
+const TARGET_TYPES: AuditTargetType[] = ['customer', 'assessment', 'app-registration', 'consent', 'finding', 'schedule', 'alert-rule'];
+
+// Azure Functions v4 - Audit log of operator actions (admin only, see ROUTE_POLICIES)
+app.http('audit-log', {
+    methods: ['GET', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'audit-log',
+    handler: auditLogHandler
+});
+
+async function auditLogHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log('🧾 Audit log API called');
+
+    try {
+        // Initialize data service (PostgreSQL)
+        await initializeDataService(context);
+
+        // Handle preflight OPTIONS request
+        if (request.method === 'OPTIONS') {
+            return {
+                status: 200,
+                headers: corsHeaders
+            };
+        }
+
+        const targetType = request.query.get('targetType') || undefined;
+        const from = request.query.get('from') ? new Date(request.query.get('from')) : undefined;
+        const to = request.query.get('to') ? new Date(request.query.get('to')) : undefined;
+
+        if ((targetType && !TARGET_TYPES.includes(targetType as AuditTargetType))
+            || (from && isNaN(from.getTime()))
+            || (to && isNaN(to.getTime()))) {
+            return {
+                status: 400,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Invalid query',
+                    message: `targetType must be one of ${TARGET_TYPES.join(', ')}; from and to must be ISO dates`
+                })
+            };
+        }
+
+        const query: AuditLogQuery = {
+            customerId: request.query.get('customerId') || undefined,
+            actor: request.query.get('actor') || undefined,
+            action: request.query.get('action') || undefined,
+            targetType: targetType as AuditTargetType | undefined,
+            from,
+            to,
+            limit: Math.min(Math.max(parseInt(request.query.get('limit') || '100') || 100, 1), 500),
+            offset: Math.max(parseInt(request.query.get('offset') || '0') || 0, 0)
+        };
+
+        const result = await dataService.getAuditLog(query);
+
+        return {
+            status: 200,
+            headers: { ...corsHeaders, 'Cache-Control': 'no-store' },
+            body: JSON.stringify({
+                success: true,
+                data: result.entries,
+                total: result.total
+            })
+        };
+
+    } catch (error: any) {
+        context.log('❌ Audit log API error:', error);
+        return {
+            status: 500,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: false,
+                error: 'Internal server error',
+                message: error.message
+            })
+        };
+    }
+}
@@ -0,0 +1,100 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { corsHeaders, initializeDataService } from "../shared/utils";
+import { storeClientCertificate } from "../shared/tenantCredential";
+import { recordAudit } from "../shared/audit";
+
+// Azure Functions v4 - Upload the certificate our multi-tenant app uses for certificate auth
+app.http('client-certificate', {
+    methods: ['PUT', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'client-certificate',
+    handler: clientCertificateHandler
+});
+
+async function clientCertificateHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log('🔐 Client certificate API called');
+
+    try {
+        // Initialize data service (PostgreSQL) - needed for the audit log
+        await initializeDataService(context);
+
+        // Handle preflight OPTIONS request
+        if (request.method === 'OPTIONS') {
+            return {
+                status: 200,
+                headers: corsHeaders
+            };
+        }
+
+        let body: any;
+        try {
+            body = await request.json();
+        } catch {
+            return {
+                status: 400,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Invalid JSON in request body'
+                })
+            };
+        }
+        if (typeof body?.pem !== 'string' || !body.pem.trim()) {
+            return {
+                status: 400,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Missing certificate',
+                    message: 'pem must contain the certificate and its private key'
+                })
+            };
+        }
+
+        let stored;
+        try {
+            stored = await storeClientCertificate(body.pem);
+        } catch (error: any) {
+            return {
+                status: 400,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Certificate not stored',
+                    message: error.message
+                })
+            };
+        }
+
+        // The private key never goes into the audit log
+        await recordAudit(request, context, {
+            action: 'app-registration.certificate-upload',
+            targetType: 'app-registration',
+            targetId: process.env.AZURE_CLIENT_ID,
+            after: stored
+        });
+        context.log(`✅ Client certificate ${stored.thumbprint} stored in Key Vault as ${stored.certificateName}`);
+
+        return {
+            status: 200,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: true,
+                data: stored,
+                message: 'Client certificate stored in Key Vault'
+            })
+        };
+
+    } catch (error: any) {
+        context.log('❌ Client certificate API error:', error);
+        return {
+            status: 500,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: false,
+                error: 'Internal server error',
+                message: error.message
+            })
+        };
+    }
+}
@@ -1,7 +1,8 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 // Service imports - now enabled for full OAuth functionality
 import { GraphApiService } from "../shared/graphApiService";
-import { PostgreSQLService } from "../shared/postgresqlService";
+import { dataService, initializeDataService } from "../shared/utils";
+import { recordAudit } from "../shared/audit";
 
 // Azure Functions v4 - Individual function self-registration for Static Web Apps
 app.http('consent-callback', {
@@ -170,9 +171,10 @@ async function consentCallbackHandler(request: HttpRequest, context: InvocationC
                 context.log(`🚀 PRODUCTION MODE: Processing customer app registration workflow`);
                 
                 const graphService = new GraphApiService();
-                const postgresService = new PostgreSQLService();
 
                 try {
+                    await initializeDataService(context);
+
                     // DEBUG: Log all the identifiers we have
                     context.log(`🔍 Looking up customer with these identifiers:`);
                     context.log(`   - tenant parameter: ${tenant}`);
@@ -185,7 +187,7 @@ async function consentCallbackHandler(request: HttpRequest, context: InvocationC
                     
                     try {
                         // Try by customer ID first (primary key) - this is what we get from the consent URL
-                        customer = await postgresService.getCustomer(tenantId);
+                        customer = await dataService.getCustomer(tenantId);
                         if (customer) {
                             context.log(`✅ Found customer by ID: ${customer.tenantName} (${customer.tenantDomain})`);
                         }
@@ -196,7 +198,7 @@ async function consentCallbackHandler(request: HttpRequest, context: InvocationC
                     if (!customer) {
                         try {
                             // Try by tenant ID (the Microsoft tenant identifier)
-                            customer = await postgresService.getCustomerByTenantId(tenantId);
+                            customer = await dataService.getCustomerByTenantId(tenantId);
                             if (customer) {
                                 context.log(`✅ Found customer by tenant ID: ${customer.tenantName} (${customer.tenantDomain})`);
                             }
@@ -241,31 +243,41 @@ async function consentCallbackHandler(request: HttpRequest, context: InvocationC
                             context.log(`   - Service Principal ID: ${appRegistration.servicePrincipalId}`);
                             
                             // Update customer record with app registration details
-                            await postgresService.updateCustomer(customer.id, {
-                                appRegistration: {
-                                    applicationId: appRegistration.applicationId,
-                                    clientId: appRegistration.clientId,
-                                    servicePrincipalId: appRegistration.servicePrincipalId,
-                                    permissions: [
-                                        'User.Read.All',                    // Read user profiles
-                                        'Directory.Read.All',               // Read directory data
-                                        'Reports.Read.All',                 // Read usage reports
-                                        'Policy.Read.All',                  // Read security policies - CRITICAL for CA policies
-                                        'SecurityEvents.Read.All',          // Read security events
-                                        'IdentityRiskEvent.Read.All',       // Read identity risk events
-                                        'Agreement.Read.All',               // Read terms of use agreements
-                                        'AuditLog.Read.All',                // Read audit logs
-                                        'Organization.Read.All',            // Read organization info
-                                        'RoleManagement.Read.Directory'     // Read role assignments - CRITICAL for privileged roles
-                                    ],
-                                    consentUrl: appRegistration.consentUrl,
-                                    redirectUri: appRegistration.redirectUri,
-                                    isReal: true,
-                                    setupStatus: 'awaiting-consent',
-                                    createdDate: new Date().toISOString()
-                                },
+                            const appRegistrationRecord = {
+                                applicationId: appRegistration.applicationId,
+                                clientId: appRegistration.clientId,
+                                servicePrincipalId: appRegistration.servicePrincipalId,
+                                permissions: [
+                                    'User.Read.All',                    // Read user profiles
+                                    'Directory.Read.All',               // Read directory data
+                                    'Reports.Read.All',                 // Read usage reports
+                                    'Policy.Read.All',                  // Read security policies - CRITICAL for CA policies
+                                    'SecurityEvents.Read.All',          // Read security events
+                                    'IdentityRiskEvent.Read.All',       // Read identity risk events
+                                    'Agreement.Read.All',               // Read terms of use agreements
+                                    'AuditLog.Read.All',                // Read audit logs
+                                    'Organization.Read.All',            // Read organization info
+                                    'RoleManagement.Read.Directory'     // Read role assignments - CRITICAL for privileged roles
+                                ],
+                                consentUrl: appRegistration.consentUrl,
+                                redirectUri: appRegistration.redirectUri,
+                                isReal: true,
+                                setupStatus: 'awaiting-consent',
+                                createdDate: new Date().toISOString()
+                            };
+                            await dataService.updateCustomer(customer.id, {
+                                appRegistration: appRegistrationRecord,
                                 status: 'active'
                             });
+                            await recordAudit(request, context, {
+                                action: 'app-registration.create',
+                                targetType: 'app-registration',
+                                targetId: appRegistration.clientId,
+                                customerId: customer.id,
+                                before: customer.appRegistration,
+                                after: appRegistrationRecord,
+                                actor: `consent:${customer.tenantId}`
+                            });
                             
                             context.log(`✅ Customer record updated with app registration details`);
                             
@@ -322,15 +334,25 @@ async function consentCallbackHandler(request: HttpRequest, context: InvocationC
                         
                         if (isConsentConfirmation) {
                             // Update customer record to mark consent as completed
-                            await postgresService.updateCustomer(customer.id, {
+                            const consentGrantedDate = new Date().toISOString();
+                            await dataService.updateCustomer(customer.id, {
                                 appRegistration: {
                                     ...customer.appRegistration,
                                     setupStatus: 'completed',
-                                    consentGrantedDate: new Date().toISOString()
+                                    consentGrantedDate
                                 },
                                 lastAssessmentDate: new Date(),
                                 status: 'active'
                             });
+                            await recordAudit(request, context, {
+                                action: 'consent.grant',
+                                targetType: 'consent',
+                                targetId: customer.appRegistration.clientId,
+                                customerId: customer.id,
+                                before: { setupStatus: customer.appRegistration.setupStatus },
+                                after: { setupStatus: 'completed', consentGrantedDate, flow: hasAdminConsent ? 'admin-consent' : 'auth-code' },
+                                actor: `consent:${customer.tenantId}`
+                            });
                             
                             context.log(`✅ PHASE 2 Complete: Consent confirmed and customer record updated`);
                             
@@ -461,6 +483,14 @@ async function consentCallbackHandler(request: HttpRequest, context: InvocationC
                     `response_mode=query&` +
                     `prompt=admin_consent`;
 
+                await recordAudit(request, context, {
+                    action: 'consent.url-generate',
+                    targetType: 'consent',
+                    // May be a tenant ID rather than one of our customer IDs
+                    targetId: customerId,
+                    after: { adminEmail, clientId }
+                });
+
                 return {
                     status: 200,
                     headers: corsHeaders,
@@ -1,6 +1,8 @@
 // v4 compatible imports
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { AssessmentDocumentError } from "../shared/assessmentDocument";
+import { recordAudit } from "../shared/audit";
 
 // Azure Functions v4 - Individual function self-registration for Static Web Apps
 app.http('createAssessment', {
@@ -58,6 +60,18 @@ async function createAssessmentHandler(request: HttpRequest, context: Invocation
             // Create assessment using the data service
             try {
                 const assessment = await dataService.createAssessment(assessmentData);
+                await recordAudit(request, context, {
+                    action: 'assessment.create',
+                    targetType: 'assessment',
+                    targetId: assessment.id,
+                    customerId: assessment.customerId,
+                    after: {
+                        tenantId: assessment.tenantId,
+                        assessmentName: assessmentData.assessmentName,
+                        status: assessment.status,
+                        score: assessment.score
+                    }
+                });
                 
                 return {
                     status: 201,
@@ -69,6 +83,18 @@ async function createAssessmentHandler(request: HttpRequest, context: Invocation
                     }
                 };
             } catch (error) {
+                if (error instanceof AssessmentDocumentError) {
+                    return {
+                        status: 400,
+                        headers: corsHeaders,
+                        jsonBody: {
+                            success: false,
+                            error: "Invalid assessment metrics",
+                            details: error.problems
+                        }
+                    };
+                }
+
                 context.error('Failed to create assessment:', error);
                 return {
                     status: 500,
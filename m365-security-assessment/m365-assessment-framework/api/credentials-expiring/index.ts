@@ -0,0 +1,77 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { getAuthenticatedUser } from "../shared/auth";
+import { getAssignmentScope } from "../shared/customerAccess";
+import { findExpiringCredentials, getSecretExpiryWindowDays } from "../shared/secretRotation";
+
+// Azure Functions v4 - Customer client secrets that expire soon, with the recent rotation history
+app.http('credentials-expiring', {
+    methods: ['GET', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'credentials/expiring',
+    handler: credentialsExpiringHandler
+});
+
+async function credentialsExpiringHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log('🔑 Expiring credentials API called');
+
+    try {
+        // Initialize data service (PostgreSQL)
+        await initializeDataService(context);
+
+        // Handle preflight OPTIONS request
+        if (request.method === 'OPTIONS') {
+            return {
+                status: 200,
+                headers: corsHeaders
+            };
+        }
+
+        const daysParam = request.query.get('days');
+        const windowDays = daysParam ? parseInt(daysParam, 10) : getSecretExpiryWindowDays();
+        if (isNaN(windowDays) || windowDays < 0) {
+            return {
+                status: 400,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Invalid days parameter',
+                    message: 'days must be a non-negative number'
+                })
+            };
+        }
+
+        const assignedTo = getAssignmentScope(getAuthenticatedUser(context));
+        const { customers } = await dataService.getCustomers({ status: 'active', assignedTo });
+        const credentials = findExpiringCredentials(customers, windowDays);
+        const tenantNames = new Map(customers.map(customer => [customer.id, customer.tenantName]));
+        const recentRotations = (await dataService.getSecretRotations({ limit: 20 }))
+            .filter(rotation => !assignedTo || tenantNames.has(rotation.customerId))
+            .map(rotation => ({ ...rotation, tenantName: tenantNames.get(rotation.customerId) }));
+
+        return {
+            status: 200,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: true,
+                data: {
+                    windowDays,
+                    credentials,
+                    recentRotations
+                }
+            })
+        };
+
+    } catch (error: any) {
+        context.log('❌ Expiring credentials API error:', error);
+        return {
+            status: 500,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: false,
+                error: 'Internal server error',
+                message: error.message
+            })
+        };
+    }
+}
@@ -1,6 +1,8 @@
 // v4 compatible import
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { getAuthenticatedUser } from "../shared/auth";
+import { getAssignmentScope } from "../shared/customerAccess";
 
 // Azure Functions v4 - Individual function self-registration for Static Web Apps
 app.http('currentAssessment', {
@@ -62,7 +64,8 @@ async function currentAssessmentHandler(request: HttpRequest, context: Invocatio
             // Get the most recent assessment for the tenant
             const assessments = await dataService.getAssessmentHistory({ 
                 tenantId, 
-                limit: 1 
+                limit: 1,
+                assignedTo: getAssignmentScope(getAuthenticatedUser(context))
             });
             
             if (assessments.length === 0) {
@@ -0,0 +1,64 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+
+// Azure Functions v4 - Delivery log of a customer's alert notifications
+app.http('customer-alert-deliveries', {
+    methods: ['GET', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'customers/{customerId}/alert-deliveries',
+    handler: customerAlertDeliveriesHandler
+});
+
+async function customerAlertDeliveriesHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log('📣 Customer alert deliveries API called');
+
+    try {
+        // Initialize data service (PostgreSQL)
+        await initializeDataService(context);
+
+        // Handle preflight OPTIONS request
+        if (request.method === 'OPTIONS') {
+            return {
+                status: 200,
+                headers: corsHeaders
+            };
+        }
+
+        const customerId = request.params.customerId;
+        const customer = customerId ? await dataService.getCustomer(customerId) : null;
+        if (!customer) {
+            return {
+                status: 404,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Customer not found',
+                    message: `Customer with ID ${customerId} not found`
+                })
+            };
+        }
+
+        const limit = Math.min(Math.max(parseInt(request.query.get('limit') || '50') || 50, 1), 200);
+
+        return {
+            status: 200,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: true,
+                data: await dataService.getAlertDeliveries(customerId, limit)
+            })
+        };
+
+    } catch (error: any) {
+        context.log('❌ Customer alert deliveries API error:', error);
+        return {
+            status: 500,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: false,
+                error: 'Internal server error',
+                message: error.message
+            })
+        };
+    }
+}
@@ -0,0 +1,176 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { authenticationRequired, getAuthenticatedUser } from "../shared/auth";
+import { maskAlertRuleWebhooks, normalizeAlertRuleInput } from "../shared/alerts";
+import { AlertRule } from "../shared/types";
+import { recordAudit } from "../shared/audit";
+
+// Azure Functions v4 - Alert rules evaluated when a customer's assessment completes
+app.http('customer-alert-rules', {
+    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'customers/{customerId}/alert-rules/{ruleId?}',
+    handler: customerAlertRulesHandler
+});
+
+async function customerAlertRulesHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log('🔔 Customer alert rules API called');
+
+    try {
+        // Initialize data service (PostgreSQL)
+        await initializeDataService(context);
+
+        // Handle preflight OPTIONS request
+        if (request.method === 'OPTIONS') {
+            return {
+                status: 200,
+                headers: corsHeaders
+            };
+        }
+
+        const customerId = request.params.customerId;
+        const customer = customerId ? await dataService.getCustomer(customerId) : null;
+        if (!customer) {
+            return {
+                status: 404,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Customer not found',
+                    message: `Customer with ID ${customerId} not found`
+                })
+            };
+        }
+
+        // Webhook URLs carry their secret in the path; only admins get them in full
+        const user = getAuthenticatedUser(context);
+        const present = (rule: AlertRule): AlertRule => user?.role === 'admin' ? rule : maskAlertRuleWebhooks(rule);
+
+        if (request.method === 'GET') {
+            const rules = await dataService.getAlertRules(customerId);
+            return {
+                status: 200,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: true,
+                    data: rules.map(present)
+                })
+            };
+        }
+
+        const ruleId = request.params.ruleId;
+        let existing: AlertRule | null = null;
+        if (request.method !== 'POST') {
+            existing = ruleId ? await dataService.getAlertRule(ruleId) : null;
+            if (!existing || existing.customerId !== customerId) {
+                return {
+                    status: 404,
+                    headers: corsHeaders,
+                    body: JSON.stringify({
+                        success: false,
+                        error: 'Alert rule not found',
+                        message: `Alert rule with ID ${ruleId} not found for customer ${customerId}`
+                    })
+                };
+            }
+
+            if (request.method === 'DELETE') {
+                await dataService.deleteAlertRule(ruleId);
+                await recordAudit(request, context, {
+                    action: 'alert-rule.delete',
+                    targetType: 'alert-rule',
+                    targetId: ruleId,
+                    customerId,
+                    before: auditedRule(existing)
+                });
+                return {
+                    status: 200,
+                    headers: corsHeaders,
+                    body: JSON.stringify({
+                        success: true,
+                        message: 'Alert rule deleted'
+                    })
+                };
+            }
+        }
+
+        const body = await request.json() as any;
+        const { input, errors } = normalizeAlertRuleInput(body, existing?.channels);
+        if (errors.length > 0) {
+            return {
+                status: 400,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Invalid alert rule',
+                    message: errors.join('; ')
+                })
+            };
+        }
+
+        if (request.method === 'POST') {
+            if (!user) {
+                return authenticationRequired();
+            }
+
+            const created = await dataService.createAlertRule(customerId, input, user.name);
+            await recordAudit(request, context, {
+                action: 'alert-rule.create',
+                targetType: 'alert-rule',
+                targetId: created.id,
+                customerId,
+                after: auditedRule(created)
+            });
+            context.log(`✅ Alert rule ${created.id} (${created.type}) created for customer ${customerId}`);
+
+            return {
+                status: 201,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: true,
+                    data: present(created),
+                    message: 'Alert rule created'
+                })
+            };
+        }
+
+        const updated = await dataService.updateAlertRule(ruleId, input);
+        await recordAudit(request, context, {
+            action: 'alert-rule.update',
+            targetType: 'alert-rule',
+            targetId: ruleId,
+            customerId,
+            before: existing ? auditedRule(existing) : null,
+            after: auditedRule(updated)
+        });
+        context.log(`✅ Alert rule ${ruleId} updated`);
+
+        return {
+            status: 200,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: true,
+                data: present(updated),
+                message: 'Alert rule updated'
+            })
+        };
+
+    } catch (error: any) {
+        context.log('❌ Customer alert rules API error:', error);
+        return {
+            status: 500,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: false,
+                error: 'Internal server error',
+                message: error.message
+            })
+        };
+    }
+}
+
+// Webhook URLs are credentials, so the audit log holds them masked
+function auditedRule(rule: AlertRule): Pick<AlertRule, 'type' | 'threshold' | 'channels' | 'enabled'> {
+    const { type, threshold, channels, enabled } = maskAlertRuleWebhooks(rule);
+    return { type, threshold, channels, enabled };
+}
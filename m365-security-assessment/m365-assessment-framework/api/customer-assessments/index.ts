@@ -1,5 +1,7 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { AssessmentDocumentError } from "../shared/assessmentDocument";
+import { recordAudit } from "../shared/audit";
 
 // Azure Functions v4 - Customer Assessments endpoint
 app.http('customer-assessments', {
@@ -127,6 +129,18 @@ async function createCustomerAssessment(request: HttpRequest, customerId: string
 
         // Create assessment in PostgreSQL
         const assessment = await dataService.createAssessment(assessmentData);
+        await recordAudit(request, context, {
+            action: 'assessment.create',
+            targetType: 'assessment',
+            targetId: assessment.id,
+            customerId,
+            after: {
+                tenantId: assessment.tenantId,
+                assessmentName: assessmentData.assessmentName,
+                status: assessment.status,
+                score: assessment.score
+            }
+        });
         
         context.log(`✅ Created assessment: ${assessment.id} for customer ${customerId}`);
         
@@ -141,6 +155,19 @@ async function createCustomerAssessment(request: HttpRequest, customerId: string
         };
 
     } catch (error: any) {
+        if (error instanceof AssessmentDocumentError) {
+            return {
+                status: 400,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Invalid assessment metrics',
+                    message: error.message,
+                    problems: error.problems
+                })
+            };
+        }
+
         context.log('❌ Error creating customer assessment:', error);
         
         return {
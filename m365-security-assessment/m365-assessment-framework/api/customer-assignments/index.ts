@@ -0,0 +1,134 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { getAuthenticatedUser } from "../shared/auth";
+import { recordAudit } from "../shared/audit";
+
+// Azure Functions v4 - Users assigned to a customer (admin only, see ROUTE_POLICIES)
+app.http('customer-assignments', {
+    methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'customers/{customerId}/assignments/{userId?}',
+    handler: customerAssignmentsHandler
+});
+
+async function customerAssignmentsHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log('👥 Customer assignments API called');
+
+    try {
+        // Initialize data service (PostgreSQL)
+        await initializeDataService(context);
+
+        // Handle preflight OPTIONS request
+        if (request.method === 'OPTIONS') {
+            return {
+                status: 200,
+                headers: corsHeaders
+            };
+        }
+
+        const customerId = request.params.customerId;
+        const customer = customerId ? await dataService.getCustomer(customerId) : null;
+        if (!customer) {
+            return {
+                status: 404,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Customer not found',
+                    message: `Customer with ID ${customerId} not found`
+                })
+            };
+        }
+
+        if (request.method === 'GET') {
+            return {
+                status: 200,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: true,
+                    data: await dataService.getCustomerAssignments(customerId)
+                })
+            };
+        }
+
+        if (request.method === 'DELETE') {
+            const userId = request.params.userId;
+            const removed = userId ? await dataService.unassignCustomer(customerId, userId) : false;
+            if (!removed) {
+                return {
+                    status: 404,
+                    headers: corsHeaders,
+                    body: JSON.stringify({
+                        success: false,
+                        error: 'Assignment not found',
+                        message: `User ${userId} is not assigned to customer ${customerId}`
+                    })
+                };
+            }
+
+            await recordAudit(request, context, {
+                action: 'customer.unassign',
+                targetType: 'customer',
+                targetId: customerId,
+                customerId,
+                before: { userId }
+            });
+            context.log(`✅ User ${userId} unassigned from customer ${customerId}`);
+            return {
+                status: 200,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: true,
+                    message: 'Assignment removed'
+                })
+            };
+        }
+
+        const body = await request.json().catch(() => ({})) as any;
+        const userPrincipalName = typeof body.userPrincipalName === 'string' ? body.userPrincipalName.trim() : '';
+        const userId = typeof body.userId === 'string' && body.userId.trim() ? body.userId.trim() : userPrincipalName;
+        if (!userId) {
+            return {
+                status: 400,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Invalid assignment',
+                    message: 'userId (Entra object ID) or userPrincipalName is required'
+                })
+            };
+        }
+
+        const assignment = await dataService.assignCustomer(customerId, userId, userPrincipalName || undefined, getAuthenticatedUser(context)?.name);
+        await recordAudit(request, context, {
+            action: 'customer.assign',
+            targetType: 'customer',
+            targetId: customerId,
+            customerId,
+            after: { userId: assignment.userId, userPrincipalName: assignment.userPrincipalName }
+        });
+        context.log(`✅ User ${userPrincipalName || userId} assigned to customer ${customerId}`);
+
+        return {
+            status: 201,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: true,
+                data: assignment,
+                message: 'User assigned'
+            })
+        };
+
+    } catch (error: any) {
+        context.log('❌ Customer assignments API error:', error);
+        return {
+            status: 500,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: false,
+                error: 'Internal server error',
+                message: error.message
+            })
+        };
+    }
+}
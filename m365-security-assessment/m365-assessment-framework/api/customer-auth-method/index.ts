@@ -0,0 +1,149 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { loadClientCertificate, TENANT_AUTH_METHODS } from "../shared/tenantCredential";
+import { TenantAuthMethod } from "../shared/types";
+import { recordAudit } from "../shared/audit";
+
+// Azure Functions v4 - Choose between client secret and certificate auth for a customer tenant
+app.http('customer-auth-method', {
+    methods: ['GET', 'PUT', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'customers/{customerId}/auth-method',
+    handler: customerAuthMethodHandler
+});
+
+async function certificateStatus(): Promise<{ available: boolean; error?: string }> {
+    try {
+        await loadClientCertificate();
+        return { available: true };
+    } catch (error: any) {
+        return { available: false, error: error.message };
+    }
+}
+
+async function customerAuthMethodHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log('🔐 Customer auth method API called');
+
+    try {
+        // Initialize data service (PostgreSQL)
+        await initializeDataService(context);
+
+        // Handle preflight OPTIONS request
+        if (request.method === 'OPTIONS') {
+            return {
+                status: 200,
+                headers: corsHeaders
+            };
+        }
+
+        const customerId = request.params.customerId;
+        const customer = customerId ? await dataService.getCustomer(customerId) : null;
+        if (!customer) {
+            return {
+                status: 404,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Customer not found',
+                    message: `Customer with ID ${customerId} not found`
+                })
+            };
+        }
+
+        if (request.method === 'GET') {
+            const certificate = await certificateStatus();
+            return {
+                status: 200,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: true,
+                    data: {
+                        customerId,
+                        authMethod: customer.authMethod || 'secret',
+                        availableMethods: TENANT_AUTH_METHODS,
+                        certificateAvailable: certificate.available,
+                        certificateError: certificate.error
+                    }
+                })
+            };
+        }
+
+        let body: any;
+        try {
+            body = await request.json();
+        } catch {
+            return {
+                status: 400,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Invalid JSON in request body'
+                })
+            };
+        }
+        const authMethod = body?.authMethod as TenantAuthMethod;
+        if (!TENANT_AUTH_METHODS.includes(authMethod)) {
+            return {
+                status: 400,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Invalid auth method',
+                    message: `authMethod must be one of: ${TENANT_AUTH_METHODS.join(', ')}`
+                })
+            };
+        }
+
+        // Refuse to switch to a certificate that cannot be loaded - every assessment would fail
+        if (authMethod === 'certificate') {
+            const certificate = await certificateStatus();
+            if (!certificate.available) {
+                return {
+                    status: 400,
+                    headers: corsHeaders,
+                    body: JSON.stringify({
+                        success: false,
+                        error: 'Certificate not available',
+                        message: certificate.error
+                    })
+                };
+            }
+        }
+
+        const updated = await dataService.updateCustomer(customerId, { authMethod });
+        await recordAudit(request, context, {
+            action: 'customer.auth-method-change',
+            targetType: 'customer',
+            targetId: customerId,
+            customerId,
+            before: { authMethod: customer.authMethod || 'secret' },
+            after: { authMethod: updated.authMethod || authMethod }
+        });
+        context.log(`✅ Customer ${customerId} now authenticates with ${authMethod}`);
+
+        return {
+            status: 200,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: true,
+                data: {
+                    customerId,
+                    authMethod: updated.authMethod || authMethod
+                },
+                message: `Customer tenant access now uses ${authMethod} authentication`
+            })
+        };
+
+    } catch (error: any) {
+        context.log('❌ Customer auth method API error:', error);
+        return {
+            status: 500,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: false,
+                error: 'Internal server error',
+                message: error.message
+            })
+        };
+    }
+}
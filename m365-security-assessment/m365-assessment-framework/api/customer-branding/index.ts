@@ -0,0 +1,142 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { normalizeBranding, SUPPORTED_REPORT_LANGUAGES, validateBranding } from "../shared/branding";
+import { DEFAULT_REPORT_BRANDING } from "../shared/reports";
+import { CustomerBranding } from "../shared/types";
+import { recordAudit } from "../shared/audit";
+
+// Azure Functions v4 - Per-customer white-label branding of reports
+app.http('customer-branding', {
+    methods: ['GET', 'PUT', 'DELETE', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'customers/{customerId}/branding',
+    handler: customerBrandingHandler
+});
+
+function brandingResponse(customerId: string, branding: CustomerBranding | null | undefined) {
+    const { textColor, mutedColor, ...defaults } = DEFAULT_REPORT_BRANDING;
+    return {
+        customerId,
+        branding: branding || null,
+        defaults,
+        supportedLanguages: SUPPORTED_REPORT_LANGUAGES
+    };
+}
+
+async function customerBrandingHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log('🎨 Customer branding API called');
+
+    try {
+        // Initialize data service (PostgreSQL)
+        await initializeDataService(context);
+
+        // Handle preflight OPTIONS request
+        if (request.method === 'OPTIONS') {
+            return {
+                status: 200,
+                headers: corsHeaders
+            };
+        }
+
+        const customerId = request.params.customerId;
+        const customer = customerId ? await dataService.getCustomer(customerId) : null;
+        if (!customer) {
+            return {
+                status: 404,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Customer not found',
+                    message: `Customer with ID ${customerId} not found`
+                })
+            };
+        }
+
+        if (request.method === 'GET') {
+            return {
+                status: 200,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: true,
+                    data: brandingResponse(customerId, customer.branding)
+                })
+            };
+        }
+
+        if (request.method === 'DELETE') {
+            await dataService.updateCustomer(customerId, { branding: null });
+            await recordAudit(request, context, {
+                action: 'customer.branding-reset',
+                targetType: 'customer',
+                targetId: customerId,
+                customerId,
+                before: auditedBranding(customer.branding)
+            });
+
+            return {
+                status: 200,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: true,
+                    data: brandingResponse(customerId, null),
+                    message: 'Branding reset to the default report layout'
+                })
+            };
+        }
+
+        const body = await request.json() as any;
+        const validationErrors = validateBranding(body?.branding);
+        if (validationErrors.length > 0) {
+            return {
+                status: 400,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Invalid branding',
+                    message: validationErrors.join('; ')
+                })
+            };
+        }
+
+        const branding = normalizeBranding(body.branding);
+        const updated = await dataService.updateCustomer(customerId, {
+            branding: Object.keys(branding).length > 0 ? branding : null
+        });
+        await recordAudit(request, context, {
+            action: 'customer.branding-update',
+            targetType: 'customer',
+            targetId: customerId,
+            customerId,
+            before: auditedBranding(customer.branding),
+            after: auditedBranding(updated.branding)
+        });
+        context.log(`✅ Branding saved for customer ${customerId}:`, Object.keys(branding));
+
+        return {
+            status: 200,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: true,
+                data: brandingResponse(customerId, updated.branding),
+                message: 'Branding saved - applies to every report downloaded from now on'
+            })
+        };
+
+    } catch (error: any) {
+        context.log('❌ Customer branding API error:', error);
+        return {
+            status: 500,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: false,
+                error: 'Internal server error',
+                message: error.message
+            })
+        };
+    }
+}
+
+// Logos are data URLs of up to several hundred KB - the audit log only notes whether there is one
+function auditedBranding(branding: CustomerBranding | null | undefined): any {
+    return branding ? { ...branding, logo: branding.logo ? '[logo]' : undefined } : null;
+}
@@ -1,5 +1,6 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { recordAudit } from "../shared/audit";
 
 // Azure Functions v4 - Individual Customer endpoint (by ID)
 app.http('customer-by-id', {
@@ -48,7 +49,7 @@ async function customerByIdHandler(request: HttpRequest, context: InvocationCont
         }
 
         if (request.method === 'DELETE') {
-            return await deleteCustomer(customerId, context);
+            return await deleteCustomer(request, customerId, context);
         }
 
         return {
@@ -133,7 +134,16 @@ async function updateCustomer(request: HttpRequest, customerId: string, context:
         context.log('📋 Customer update data received');
 
         // Update customer in PostgreSQL
+        const previousCustomer = await dataService.getCustomer(customerId);
         const updatedCustomer = await dataService.updateCustomer(customerId, customerData);
+        await recordAudit(request, context, {
+            action: 'customer.update',
+            targetType: 'customer',
+            targetId: customerId,
+            customerId,
+            before: previousCustomer,
+            after: updatedCustomer
+        });
         
         context.log(`✅ Updated customer: ${customerId}`);
         
@@ -162,7 +172,7 @@ async function updateCustomer(request: HttpRequest, customerId: string, context:
     }
 }
 
-async function deleteCustomer(customerId: string, context: InvocationContext): Promise<HttpResponseInit> {
+async function deleteCustomer(request: HttpRequest, customerId: string, context: InvocationContext): Promise<HttpResponseInit> {
     context.log(`🗑️ Deleting customer: ${customerId} from PostgreSQL`);
     
     try {
@@ -183,6 +193,13 @@ async function deleteCustomer(customerId: string, context: InvocationContext): P
 
         // Delete customer from PostgreSQL
         await dataService.deleteCustomer(customerId);
+        await recordAudit(request, context, {
+            action: 'customer.delete',
+            targetType: 'customer',
+            targetId: customerId,
+            customerId,
+            before: existingCustomer
+        });
 
         context.log(`✅ Deleted customer: ${customerId}`);
         
@@ -0,0 +1,126 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { resolveLicensePrices, validateLicensePrice } from "../shared/licensePricing";
+import { getAuthenticatedUser } from "../shared/auth";
+import { recordAudit } from "../shared/audit";
+
+// Azure Functions v4 - Negotiated license rates of a customer
+app.http('customer-license-pricing', {
+    methods: ['PUT', 'DELETE', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'customers/{customerId}/license-pricing/{skuPartNumber}',
+    handler: customerLicensePricingHandler
+});
+
+async function customerLicensePricingHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log('💲 Customer license pricing API called');
+
+    try {
+        // Initialize data service (PostgreSQL)
+        await initializeDataService(context);
+
+        // Handle preflight OPTIONS request
+        if (request.method === 'OPTIONS') {
+            return {
+                status: 200,
+                headers: corsHeaders
+            };
+        }
+
+        const customerId = request.params.customerId;
+        const skuPartNumber = request.params.skuPartNumber;
+        const customer = customerId ? await dataService.getCustomer(customerId) : null;
+        if (!customer) {
+            return {
+                status: 404,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Customer not found',
+                    message: `Customer with ID ${customerId} not found`
+                })
+            };
+        }
+
+        const previous = (await dataService.getCustomerLicensePrices(customerId)).find(price => price.skuPartNumber === skuPartNumber);
+        const auditedPrice = (price: typeof previous) => price
+            ? { unitPrice: price.unitPrice, currency: price.currency, billingTerm: price.billingTerm }
+            : null;
+
+        if (request.method === 'DELETE') {
+            await dataService.deleteCustomerLicensePrice(customerId, skuPartNumber);
+            await recordAudit(request, context, {
+                action: 'customer.license-price-reset',
+                targetType: 'customer',
+                targetId: skuPartNumber,
+                customerId,
+                before: auditedPrice(previous)
+            });
+            const negotiated = await dataService.getCustomerLicensePrices(customerId);
+
+            return {
+                status: 200,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: true,
+                    data: resolveLicensePrices([skuPartNumber], negotiated)[skuPartNumber],
+                    message: `${skuPartNumber} reset to the list price`
+                })
+            };
+        }
+
+        const body = await request.json() as any;
+        const validationErrors = validateLicensePrice(body);
+        if (validationErrors.length > 0) {
+            return {
+                status: 400,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Invalid license price',
+                    message: validationErrors.join('; ')
+                })
+            };
+        }
+
+        const saved = await dataService.saveCustomerLicensePrice({
+            customerId,
+            skuPartNumber,
+            unitPrice: body.unitPrice,
+            currency: body.currency,
+            billingTerm: body.billingTerm || 'annual',
+            updatedBy: getAuthenticatedUser(context)?.name
+        });
+        await recordAudit(request, context, {
+            action: 'customer.license-price-update',
+            targetType: 'customer',
+            targetId: skuPartNumber,
+            customerId,
+            before: auditedPrice(previous),
+            after: auditedPrice(saved)
+        });
+        context.log(`✅ Negotiated price saved for ${skuPartNumber} (customer ${customerId}): ${saved.unitPrice} ${saved.currency}`);
+
+        return {
+            status: 200,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: true,
+                data: resolveLicensePrices([skuPartNumber], [saved])[skuPartNumber],
+                message: 'Negotiated price saved'
+            })
+        };
+
+    } catch (error: any) {
+        context.log('❌ Customer license pricing API error:', error);
+        return {
+            status: 500,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: false,
+                error: 'Internal server error',
+                message: error.message
+            })
+        };
+    }
+}
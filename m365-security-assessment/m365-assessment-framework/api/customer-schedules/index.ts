@@ -0,0 +1,176 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { authenticationRequired, getAuthenticatedUser } from "../shared/auth";
+import { computeNextRun, normalizeScheduleInput } from "../shared/assessmentSchedule";
+import { DEFAULT_ASSESSMENT_CATEGORIES } from "../shared/assessmentJob";
+import { recordAudit } from "../shared/audit";
+import { AssessmentSchedule, AssessmentScheduleInput } from "../shared/types";
+
+// Azure Functions v4 - Recurring assessment schedules of a customer
+app.http('customer-schedules', {
+    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'customers/{customerId}/schedules/{scheduleId?}',
+    handler: customerSchedulesHandler
+});
+
+async function customerSchedulesHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log('📅 Customer schedules API called');
+
+    try {
+        // Initialize data service (PostgreSQL)
+        await initializeDataService(context);
+
+        // Handle preflight OPTIONS request
+        if (request.method === 'OPTIONS') {
+            return {
+                status: 200,
+                headers: corsHeaders
+            };
+        }
+
+        const customerId = request.params.customerId;
+        const customer = customerId ? await dataService.getCustomer(customerId) : null;
+        if (!customer) {
+            return {
+                status: 404,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Customer not found',
+                    message: `Customer with ID ${customerId} not found`
+                })
+            };
+        }
+
+        if (request.method === 'GET') {
+            return {
+                status: 200,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: true,
+                    data: await dataService.getAssessmentSchedules(customerId)
+                })
+            };
+        }
+
+        const scheduleId = request.params.scheduleId;
+        let existing: AssessmentSchedule | null = null;
+        if (request.method !== 'POST') {
+            existing = scheduleId ? await dataService.getAssessmentSchedule(scheduleId) : null;
+            if (!existing || existing.customerId !== customerId) {
+                return {
+                    status: 404,
+                    headers: corsHeaders,
+                    body: JSON.stringify({
+                        success: false,
+                        error: 'Schedule not found',
+                        message: `Schedule with ID ${scheduleId} not found for customer ${customerId}`
+                    })
+                };
+            }
+
+            if (request.method === 'DELETE') {
+                await dataService.deleteAssessmentSchedule(scheduleId);
+                await recordAudit(request, context, {
+                    action: 'schedule.delete',
+                    targetType: 'schedule',
+                    targetId: scheduleId,
+                    customerId,
+                    before: scheduleSettings(existing)
+                });
+                return {
+                    status: 200,
+                    headers: corsHeaders,
+                    body: JSON.stringify({
+                        success: true,
+                        message: 'Schedule deleted'
+                    })
+                };
+            }
+        }
+
+        const body = await request.json() as any;
+        const { input, errors } = normalizeScheduleInput(body, DEFAULT_ASSESSMENT_CATEGORIES);
+        if (errors.length > 0) {
+            return {
+                status: 400,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Invalid schedule',
+                    message: errors.join('; ')
+                })
+            };
+        }
+
+        // Changing the timing restarts the schedule from now, including pending retries
+        const nextRunAt = computeNextRun(input, new Date()).toISOString();
+
+        if (request.method === 'POST') {
+            const user = getAuthenticatedUser(context);
+            if (!user) {
+                return authenticationRequired();
+            }
+
+            const created = await dataService.createAssessmentSchedule(customerId, input, nextRunAt, user.name);
+            await recordAudit(request, context, {
+                action: 'schedule.create',
+                targetType: 'schedule',
+                targetId: created.id,
+                customerId,
+                after: scheduleSettings(created)
+            });
+            context.log(`✅ Schedule ${created.id} created for customer ${customerId}, next run ${nextRunAt}`);
+
+            return {
+                status: 201,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: true,
+                    data: created,
+                    message: 'Schedule created'
+                })
+            };
+        }
+
+        const updated = await dataService.updateAssessmentSchedule(scheduleId, { ...input, nextRunAt, retryCount: 0 });
+        await recordAudit(request, context, {
+            action: 'schedule.update',
+            targetType: 'schedule',
+            targetId: scheduleId,
+            customerId,
+            before: existing ? scheduleSettings(existing) : null,
+            after: scheduleSettings(updated)
+        });
+        context.log(`✅ Schedule ${scheduleId} updated, next run ${nextRunAt}`);
+
+        return {
+            status: 200,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: true,
+                data: updated,
+                message: 'Schedule updated'
+            })
+        };
+
+    } catch (error: any) {
+        context.log('❌ Customer schedules API error:', error);
+        return {
+            status: 500,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: false,
+                error: 'Internal server error',
+                message: error.message
+            })
+        };
+    }
+}
+
+// What an operator sets on a schedule, without the run bookkeeping
+function scheduleSettings(schedule: AssessmentScheduleInput): AssessmentScheduleInput {
+    const { frequency, dayOfWeek, dayOfMonth, hour, minute, cronExpression, includedCategories, retryPolicy, enabled } = schedule;
+    return { frequency, dayOfWeek, dayOfMonth, hour, minute, cronExpression, includedCategories, retryPolicy, enabled };
+}
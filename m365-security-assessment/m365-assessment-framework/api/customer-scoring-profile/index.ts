@@ -0,0 +1,159 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { SCORING_MODEL_VERSION, DEFAULT_SCORING_WEIGHTS, resolveScoringWeights, validateScoringWeights } from "../shared/scoring";
+import { ScoringProfile } from "../shared/types";
+import { getAuthenticatedUser, authenticationRequired } from "../shared/auth";
+import { recordAudit } from "../shared/audit";
+
+// Azure Functions v4 - Per-customer scoring weights
+app.http('customer-scoring-profile', {
+    methods: ['GET', 'PUT', 'DELETE', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'customers/{customerId}/scoring-profile',
+    handler: customerScoringProfileHandler
+});
+
+function scoringProfileResponse(customerId: string, profile: ScoringProfile | null) {
+    return {
+        customerId,
+        modelVersion: SCORING_MODEL_VERSION,
+        defaultWeights: DEFAULT_SCORING_WEIGHTS,
+        customWeights: profile ? profile.weights : null,
+        weights: resolveScoringWeights(profile),
+        updatedBy: profile?.updatedBy,
+        updatedAt: profile?.updatedAt
+    };
+}
+
+async function customerScoringProfileHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log('📐 Customer scoring profile API called');
+
+    try {
+        // Initialize data service (PostgreSQL)
+        await initializeDataService(context);
+
+        // Handle preflight OPTIONS request
+        if (request.method === 'OPTIONS') {
+            return {
+                status: 200,
+                headers: corsHeaders
+            };
+        }
+
+        const customerId = request.params.customerId;
+        const customer = customerId ? await dataService.getCustomer(customerId) : null;
+        if (!customer) {
+            return {
+                status: 404,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Customer not found',
+                    message: `Customer with ID ${customerId} not found`
+                })
+            };
+        }
+
+        if (request.method === 'GET') {
+            const profile = await dataService.getScoringProfile(customerId);
+
+            return {
+                status: 200,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: true,
+                    data: scoringProfileResponse(customerId, profile)
+                })
+            };
+        }
+
+        if (request.method === 'DELETE') {
+            const previous = await dataService.getScoringProfile(customerId);
+            await dataService.deleteScoringProfile(customerId);
+            await recordAudit(request, context, {
+                action: 'customer.scoring-profile-reset',
+                targetType: 'customer',
+                targetId: customerId,
+                customerId,
+                before: previous ? { weights: previous.weights } : null
+            });
+
+            return {
+                status: 200,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: true,
+                    data: scoringProfileResponse(customerId, null),
+                    message: 'Scoring profile reset to default weights'
+                })
+            };
+        }
+
+        // Profiles are attributed to the signed-in user, never to a name from the request
+        const user = getAuthenticatedUser(context);
+        if (!user) {
+            return authenticationRequired();
+        }
+
+        let body: any;
+        try {
+            body = await request.json();
+        } catch {
+            return {
+                status: 400,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Invalid JSON in request body'
+                })
+            };
+        }
+
+        const validationErrors = validateScoringWeights(body?.weights);
+        if (validationErrors.length > 0) {
+            return {
+                status: 400,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Invalid scoring weights',
+                    message: validationErrors.join('; ')
+                })
+            };
+        }
+
+        const previous = await dataService.getScoringProfile(customerId);
+        const profile = await dataService.saveScoringProfile(customerId, body.weights, user.name);
+        await recordAudit(request, context, {
+            action: 'customer.scoring-profile-update',
+            targetType: 'customer',
+            targetId: customerId,
+            customerId,
+            before: previous ? { weights: previous.weights } : null,
+            after: { weights: profile.weights }
+        });
+        context.log(`✅ Scoring profile saved for customer ${customerId}:`, profile.weights);
+
+        return {
+            status: 200,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: true,
+                data: scoringProfileResponse(customerId, profile),
+                message: 'Scoring profile saved - applies to assessments run from now on'
+            })
+        };
+
+    } catch (error: any) {
+        context.log('❌ Customer scoring profile API error:', error);
+        return {
+            status: 500,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: false,
+                error: 'Internal server error',
+                message: error.message
+            })
+        };
+    }
+}
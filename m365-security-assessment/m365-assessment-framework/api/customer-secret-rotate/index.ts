@@ -0,0 +1,108 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { getAuthenticatedUser, authenticationRequired } from "../shared/auth";
+import { hasRotatableSecret, rotateCustomerSecret } from "../shared/secretRotation";
+import { recordAudit } from "../shared/audit";
+
+// Azure Functions v4 - Rotate a customer's client secret on demand
+app.http('customer-secret-rotate', {
+    methods: ['POST', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'customers/{customerId}/secret/rotate',
+    handler: customerSecretRotateHandler
+});
+
+async function customerSecretRotateHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log('🔑 Customer secret rotation API called');
+
+    try {
+        // Initialize data service (PostgreSQL)
+        await initializeDataService(context);
+
+        // Handle preflight OPTIONS request
+        if (request.method === 'OPTIONS') {
+            return {
+                status: 200,
+                headers: corsHeaders
+            };
+        }
+
+        const customerId = request.params.customerId;
+        const customer = customerId ? await dataService.getCustomer(customerId) : null;
+        if (!customer) {
+            return {
+                status: 404,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Customer not found',
+                    message: `Customer with ID ${customerId} not found`
+                })
+            };
+        }
+
+        if (!hasRotatableSecret(customer)) {
+            return {
+                status: 400,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Secret cannot be rotated',
+                    message: 'The customer has no dedicated app registration with a client secret'
+                })
+            };
+        }
+
+        // Manual rotations are attributed to the signed-in user, never to a name from the request
+        const user = getAuthenticatedUser(context);
+        if (!user) {
+            return authenticationRequired();
+        }
+
+        const rotation = await rotateCustomerSecret(customer, { trigger: 'manual', performedBy: user.name }, context);
+        // Failed attempts are recorded too - they may have left a new credential behind
+        await recordAudit(request, context, {
+            action: 'app-registration.secret-rotate',
+            targetType: 'app-registration',
+            targetId: rotation.clientId,
+            customerId,
+            before: { secretKeyId: customer.appRegistration?.secretKeyId, secretExpiryDate: rotation.previousExpiry },
+            after: { status: rotation.status, newKeyId: rotation.newKeyId, removedKeyIds: rotation.removedKeyIds, secretExpiryDate: rotation.newExpiry, error: rotation.error }
+        });
+
+        if (rotation.status === 'failed') {
+            return {
+                status: 502,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    data: rotation,
+                    error: 'Secret rotation failed',
+                    message: rotation.error
+                })
+            };
+        }
+
+        return {
+            status: 200,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: true,
+                data: rotation,
+                message: `Client secret rotated, new secret expires ${rotation.newExpiry}`
+            })
+        };
+
+    } catch (error: any) {
+        context.log('❌ Customer secret rotation API error:', error);
+        return {
+            status: 500,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: false,
+                error: 'Internal server error',
+                message: error.message
+            })
+        };
+    }
+}
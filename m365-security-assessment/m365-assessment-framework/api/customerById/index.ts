@@ -1,5 +1,6 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { recordAudit } from "../shared/audit";
 
 // Azure Functions v4 - Individual function self-registration for Static Web Apps
 app.http('customerById', {
@@ -74,7 +75,8 @@ async function customerByIdHandler(request: HttpRequest, context: InvocationCont
                 status: customer.status as 'active' | 'inactive' | 'pending',
                 permissions: appReg.permissions || [],
                 contactEmail: customer.contactEmail,
-                notes: customer.notes
+                notes: customer.notes,
+                branding: customer.branding
             };
 
             return {
@@ -101,7 +103,16 @@ async function customerByIdHandler(request: HttpRequest, context: InvocationCont
                 };
             }
 
+            const previousCustomer = await dataService.getCustomer(customerId);
             const updatedCustomer = await dataService.updateCustomer(customerId, updateData);
+            await recordAudit(request, context, {
+                action: 'customer.update',
+                targetType: 'customer',
+                targetId: customerId,
+                customerId,
+                before: previousCustomer,
+                after: updatedCustomer
+            });
             
             // Transform customer to match frontend interface
             const appReg = (updatedCustomer as any).appRegistration || {};
@@ -119,7 +130,8 @@ async function customerByIdHandler(request: HttpRequest, context: InvocationCont
                 status: updatedCustomer.status as 'active' | 'inactive' | 'pending',
                 permissions: appReg.permissions || [],
                 contactEmail: updatedCustomer.contactEmail,
-                notes: updatedCustomer.notes
+                notes: updatedCustomer.notes,
+                branding: updatedCustomer.branding
             };
 
             return {
@@ -133,7 +145,15 @@ async function customerByIdHandler(request: HttpRequest, context: InvocationCont
         }
 
         if (request.method === 'DELETE') {
+            const previousCustomer = await dataService.getCustomer(customerId);
             await dataService.deleteCustomer(customerId);
+            await recordAudit(request, context, {
+                action: 'customer.delete',
+                targetType: 'customer',
+                targetId: customerId,
+                customerId,
+                before: previousCustomer
+            });
             
             return {
                 status: 200,
@@ -1,5 +1,8 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { getAuthenticatedUser } from "../shared/auth";
+import { getAssignmentScope } from "../shared/customerAccess";
+import { recordAudit } from "../shared/audit";
 import { Customer } from "../shared/types";
 
 // Azure Functions v4 - Individual function self-registration for Static Web Apps
@@ -71,10 +74,21 @@ async function customersHandler(request: HttpRequest, context: InvocationContext
             
             const result = await dataService.getCustomers({
                 status: 'active',
-                limit: limit // Dynamic limit based on request type
+                limit: limit, // Dynamic limit based on request type
+                assignedTo: getAssignmentScope(getAuthenticatedUser(context))
             });
             
             context.log(`Retrieved ${result.customers.length} customers from data service`);
+
+            // Schedules are optional - the list must still load if they cannot be read
+            let nextScheduledRuns: Record<string, string> = {};
+            if (!isQuickRequest) {
+                try {
+                    nextScheduledRuns = await dataService.getNextScheduledRuns();
+                } catch (error: any) {
+                    context.log('⚠️ Failed to load assessment schedules:', error.message);
+                }
+            }
             
             // Transform customers efficiently
             const transformedCustomers = result.customers.map((customer: any) => {
@@ -108,7 +122,10 @@ async function customersHandler(request: HttpRequest, context: InvocationContext
                     status: customer.status as 'active' | 'inactive' | 'pending',
                     permissions: appReg.permissions || [],
                     contactEmail: customer.contactEmail,
-                    notes: customer.notes
+                    notes: customer.notes,
+                    branding: customer.branding,
+                    authMethod: customer.authMethod || 'secret',
+                    nextScheduledRun: nextScheduledRuns[customer.id]
                 };
             });
             
@@ -120,7 +137,7 @@ async function customersHandler(request: HttpRequest, context: InvocationContext
                 status: 200,
                 headers: {
                     ...corsHeaders,
-                    'Cache-Control': `public, max-age=${cacheMaxAge}, s-maxage=${cacheMaxAge}`,
+                    'Cache-Control': `private, max-age=${cacheMaxAge}`,
                     'ETag': etag,
                     'Content-Type': 'application/json',
                     // Remove compression headers - let Azure Static Web Apps handle compression
@@ -131,8 +148,7 @@ async function customersHandler(request: HttpRequest, context: InvocationContext
                     count: transformedCustomers.length,
                     total: result.total,
                     isQuickData: isQuickRequest,
-                    timestamp: new Date().toISOString(),
-                    continuationToken: 'continuationToken' in result ? result.continuationToken : undefined
+                    timestamp: new Date().toISOString()
                 }
             };
         }
@@ -215,6 +231,12 @@ async function customersHandler(request: HttpRequest, context: InvocationContext
             };
 
             const result = await dataService.createCustomer(customerRequest, {});
+
+            // Consultants only see assigned customers - give them the one they just created
+            const creator = getAuthenticatedUser(context);
+            if (getAssignmentScope(creator)) {
+                await dataService.assignCustomer(result.id, creator.objectId || creator.name, creator.name, creator.name);
+            }
             
             // Transform customer response
             const appReg = (result as any).appRegistration || {};
@@ -236,6 +258,14 @@ async function customersHandler(request: HttpRequest, context: InvocationContext
                 notes: result.notes
             };
 
+            await recordAudit(request, context, {
+                action: 'customer.create',
+                targetType: 'customer',
+                targetId: result.id,
+                customerId: result.id,
+                after: result
+            });
+
             return {
                 status: 201,
                 headers: corsHeaders,
@@ -287,6 +317,13 @@ async function customersHandler(request: HttpRequest, context: InvocationContext
 
                 // Delete customer from PostgreSQL
                 await dataService.deleteCustomer(customerId);
+                await recordAudit(request, context, {
+                    action: 'customer.delete',
+                    targetType: 'customer',
+                    targetId: customerId,
+                    customerId,
+                    before: existingCustomer
+                });
 
                 context.log(`✅ Deleted customer: ${customerId}`);
                 
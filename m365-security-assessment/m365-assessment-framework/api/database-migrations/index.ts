@@ -0,0 +1,58 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { MIGRATIONS } from "../shared/migrations";
+
+// Azure Functions v4 - Individual function self-registration for Static Web Apps
+app.http('database-migrations', {
+    methods: ['GET', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'database-migrations',
+    handler: databaseMigrationsHandler
+});
+
+/**
+ * Azure Functions v4 - Schema migration status. Read-only: migrations are applied at
+ * startup or with `npm run migrate`, never over HTTP.
+ */
+async function databaseMigrationsHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log(`🔍 Database Migrations function called - ${request.method} ${request.url}`);
+
+    try {
+        if (request.method === 'OPTIONS') {
+            return {
+                status: 200,
+                headers: corsHeaders
+            };
+        }
+
+        await initializeDataService(context);
+        const migrations = await dataService.getMigrationStatus();
+        const latest = MIGRATIONS[MIGRATIONS.length - 1]?.version;
+
+        return {
+            status: 200,
+            headers: { ...corsHeaders, 'Cache-Control': 'no-store' },
+            jsonBody: {
+                success: true,
+                data: {
+                    latestVersion: latest,
+                    upToDate: migrations.every(m => m.applied && !m.unknown),
+                    migrations
+                }
+            }
+        };
+
+    } catch (error) {
+        context.error('❌ Database Migrations function error:', error);
+
+        return {
+            status: 500,
+            headers: corsHeaders,
+            jsonBody: {
+                success: false,
+                error: 'Internal server error',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            }
+        };
+    }
+}
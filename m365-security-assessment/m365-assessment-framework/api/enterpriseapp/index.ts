@@ -1,5 +1,6 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import { corsHeaders } from "../shared/utils";
+import { recordAudit } from "../shared/audit";
 // Import the GraphApiService class directly
 const { GraphApiService } = require("../shared/graphApiService");
 
@@ -59,6 +60,12 @@ async function handleCreateMultiTenantApp(request: HttpRequest, context: Invocat
         const body = await request.json() as any;
         context.log('📋 Request body (for reference):', body);
 
+        await recordAudit(request, context, {
+            action: 'app-registration.create-rejected',
+            targetType: 'app-registration',
+            after: body
+        });
+
         // Return information about the correct multi-tenant approach
         return {
             status: 200,
@@ -0,0 +1,177 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { getAuthenticatedUser, authenticationRequired } from "../shared/auth";
+import { recordAudit } from "../shared/audit";
+
+// Azure Functions v4 - Acknowledge a finding or accept its risk
+app.http('finding-exception', {
+    methods: ['POST', 'DELETE', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'findings/{findingId}/exception',
+    handler: findingExceptionHandler
+});
+
+const EXCEPTION_TYPES = ['acknowledged', 'risk-accepted'];
+
+async function findingExceptionHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log('🛡️ Finding exception API called');
+
+    try {
+        // Initialize data service (PostgreSQL)
+        await initializeDataService(context);
+
+        // Handle preflight OPTIONS request
+        if (request.method === 'OPTIONS') {
+            return {
+                status: 200,
+                headers: corsHeaders
+            };
+        }
+
+        const findingId = request.params.findingId;
+        const finding = findingId ? await dataService.getFindingById(findingId) : null;
+        if (!finding) {
+            return {
+                status: 404,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Finding not found',
+                    message: `Finding with ID ${findingId} not found`
+                })
+            };
+        }
+
+        if (request.method === 'DELETE') {
+            await dataService.revokeFindingException(finding);
+            await recordAudit(request, context, {
+                action: 'finding.exception-revoke',
+                targetType: 'finding',
+                targetId: finding.findingKey,
+                customerId: finding.customerId,
+                before: finding.exception
+            });
+            context.log(`✅ Exception revoked for finding ${finding.findingKey}`);
+
+            return {
+                status: 200,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: true,
+                    message: 'Finding exception revoked'
+                })
+            };
+        }
+
+        if (request.method !== 'POST') {
+            return {
+                status: 405,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Method not allowed',
+                    message: 'Only POST and DELETE requests are supported for this endpoint'
+                })
+            };
+        }
+
+        if (finding.status === 'resolved') {
+            return {
+                status: 409,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Finding already resolved',
+                    message: 'Resolved findings cannot be acknowledged'
+                })
+            };
+        }
+
+        // Exceptions are attributed to the signed-in user, never to a name from the request
+        const user = getAuthenticatedUser(context);
+        if (!user) {
+            return authenticationRequired();
+        }
+
+        let body: any;
+        try {
+            body = await request.json();
+        } catch {
+            return {
+                status: 400,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Invalid JSON in request body'
+                })
+            };
+        }
+
+        const type = body?.type || 'acknowledged';
+        const justification = typeof body?.justification === 'string' ? body.justification.trim() : '';
+        const expiresAt = body?.expiresAt ? new Date(body.expiresAt) : null;
+
+        // Validate required fields
+        const validationErrors: string[] = [];
+        if (!EXCEPTION_TYPES.includes(type)) {
+            validationErrors.push(`type must be one of: ${EXCEPTION_TYPES.join(', ')}`);
+        }
+        if (!justification) {
+            validationErrors.push('justification is required');
+        }
+        if (!expiresAt || isNaN(expiresAt.getTime())) {
+            validationErrors.push('expiresAt must be a valid date');
+        } else if (expiresAt.getTime() <= Date.now()) {
+            validationErrors.push('expiresAt must be in the future');
+        }
+
+        if (validationErrors.length > 0) {
+            return {
+                status: 400,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Invalid finding exception',
+                    message: validationErrors.join('; ')
+                })
+            };
+        }
+
+        const exception = await dataService.createFindingException(finding, {
+            type,
+            justification,
+            expiresAt,
+            createdBy: user.name
+        });
+        await recordAudit(request, context, {
+            action: 'finding.exception-create',
+            targetType: 'finding',
+            targetId: finding.findingKey,
+            customerId: finding.customerId,
+            before: finding.exception,
+            after: { type, justification, expiresAt }
+        });
+
+        return {
+            status: 201,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: true,
+                data: exception,
+                message: type === 'risk-accepted' ? 'Finding risk accepted' : 'Finding acknowledged'
+            })
+        };
+
+    } catch (error: any) {
+        context.log('❌ Finding exception API error:', error);
+        return {
+            status: 500,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: false,
+                error: 'Internal server error',
+                message: error.message
+            })
+        };
+    }
+}
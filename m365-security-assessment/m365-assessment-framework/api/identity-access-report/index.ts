@@ -99,7 +99,7 @@ async function generateIdentityAccessReport(customerId: string, context: Invocat
         }
 
         // Initialize Microsoft Graph service for customer tenant
-        const graphService = new MultiTenantGraphService(customer.tenantId);
+        const graphService = new MultiTenantGraphService(customer.tenantId, customer.authMethod);
         
         context.log('🚀 Fetching identity & access data from Microsoft Graph API...');
 
@@ -0,0 +1,71 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { CATALOG_CURRENCY, resolveLicensePrices } from "../shared/licensePricing";
+
+// Azure Functions v4 - License prices used for cost and savings figures
+app.http('license-pricing', {
+    methods: ['GET', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'license-pricing',
+    handler: licensePricingHandler
+});
+
+async function licensePricingHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log('💲 License pricing API called');
+
+    try {
+        // Initialize data service (PostgreSQL)
+        await initializeDataService(context);
+
+        // Handle preflight OPTIONS request
+        if (request.method === 'OPTIONS') {
+            return {
+                status: 200,
+                headers: corsHeaders
+            };
+        }
+
+        // Without a customer the catalog list prices are returned
+        const customerId = request.query.get('customerId');
+        const skuPartNumbers = (request.query.get('skus') || '').split(',').map(sku => sku.trim()).filter(Boolean);
+
+        if (customerId && !(await dataService.getCustomer(customerId))) {
+            return {
+                status: 404,
+                headers: corsHeaders,
+                body: JSON.stringify({
+                    success: false,
+                    error: 'Customer not found',
+                    message: `Customer with ID ${customerId} not found`
+                })
+            };
+        }
+
+        const negotiated = customerId ? await dataService.getCustomerLicensePrices(customerId) : [];
+
+        return {
+            status: 200,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: true,
+                data: {
+                    customerId: customerId || null,
+                    catalogCurrency: CATALOG_CURRENCY,
+                    prices: resolveLicensePrices(skuPartNumbers, negotiated)
+                }
+            })
+        };
+
+    } catch (error: any) {
+        context.log('❌ License pricing API error:', error);
+        return {
+            status: 500,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: false,
+                error: 'Internal server error',
+                message: error.message
+            })
+        };
+    }
+}
@@ -0,0 +1,61 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { corsHeaders, initializeDataService, dataService } from "../shared/utils";
+import { getAuthenticatedUser } from "../shared/auth";
+import { getAssignmentScope } from "../shared/customerAccess";
+
+// Azure Functions v4 - Role and customer access of the signed-in user
+app.http('me', {
+    methods: ['GET', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'me',
+    handler: meHandler
+});
+
+async function meHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log('👤 Current user API called');
+
+    try {
+        // Handle preflight OPTIONS request
+        if (request.method === 'OPTIONS') {
+            return {
+                status: 200,
+                headers: corsHeaders
+            };
+        }
+
+        const user = getAuthenticatedUser(context);
+        const scope = getAssignmentScope(user);
+        let customerIds: string[] | null = null;
+        if (scope) {
+            await initializeDataService(context);
+            customerIds = await dataService.getAssignedCustomerIds(scope);
+        }
+
+        return {
+            status: 200,
+            headers: { ...corsHeaders, 'Cache-Control': 'no-store' },
+            body: JSON.stringify({
+                success: true,
+                data: {
+                    id: user.id,
+                    name: user.name,
+                    role: user.role,
+                    // null when the user may access every customer
+                    customerIds
+                }
+            })
+        };
+
+    } catch (error: any) {
+        context.log('❌ Current user API error:', error);
+        return {
+            status: 500,
+            headers: corsHeaders,
+            body: JSON.stringify({
+                success: false,
+                error: 'Internal server error',
+                message: error.message
+            })
+        };
+    }
+}
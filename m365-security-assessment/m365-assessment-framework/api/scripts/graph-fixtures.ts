@@ -0,0 +1,88 @@
+/**
+ * Graph fixture CLI. Fixtures live in GRAPH_FIXTURES_DIR (default api/fixtures/graph).
+ *
+ *   npm run graph-fixtures -- list
+ *   npm run graph-fixtures -- synthesize <scenario> --users <n> --admins <n> [options]
+ *
+ * synthesize options: --mfa <n> (members registered for MFA, default 0), --guests <n>,
+ * --devices <n>, --compliant-devices <n>, --disabled <n>, --inactive <n>, --admin-mfa-policy,
+ * --domain <domain>, --description <text>
+ *
+ * Recorded fixtures come from running the API against a real tenant with GRAPH_FIXTURE_MODE=record.
+ */
+import { buildSyntheticTenant, listGraphFixtures, saveGraphFixture, SyntheticTenantOptions } from '../shared/graphFixtures';
+
+const USAGE = 'Usage: graph-fixtures <list | synthesize <scenario> --users <n> --admins <n> [options]>';
+
+const NUMBER_OPTIONS: Record<string, keyof SyntheticTenantOptions> = {
+    '--users': 'users',
+    '--admins': 'admins',
+    '--mfa': 'mfaRegistered',
+    '--guests': 'guests',
+    '--devices': 'devices',
+    '--compliant-devices': 'compliantDevices',
+    '--disabled': 'disabledUsers',
+    '--inactive': 'inactiveUsers'
+};
+
+function parseSyntheticOptions(args: string[]): SyntheticTenantOptions {
+    const options: Partial<SyntheticTenantOptions> = {};
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (NUMBER_OPTIONS[arg]) {
+            const value = parseInt(args[++i] || '', 10);
+            if (isNaN(value) || value < 0) {
+                throw new Error(`${arg} needs a number of 0 or more`);
+            }
+            (options as any)[NUMBER_OPTIONS[arg]] = value;
+        } else if (arg === '--admin-mfa-policy') {
+            options.adminMfaPolicy = true;
+        } else if (arg === '--domain' || arg === '--description') {
+            const value = args[++i];
+            if (!value) {
+                throw new Error(`${arg} needs a value`);
+            }
+            options[arg === '--domain' ? 'domain' : 'description'] = value;
+        } else {
+            throw new Error(`Unknown option ${arg}\n${USAGE}`);
+        }
+    }
+
+    if (options.users === undefined || options.admins === undefined) {
+        throw new Error(USAGE);
+    }
+    return options as SyntheticTenantOptions;
+}
+
+async function main(args: string[]): Promise<void> {
+    const [command = 'list', ...rest] = args;
+
+    switch (command) {
+        case 'list': {
+            const fixtures = listGraphFixtures();
+            for (const fixture of fixtures) {
+                console.log(`${fixture.scenario.padEnd(28)} ${fixture.source.padEnd(9)} ${String(fixture.responses.length).padStart(4)} responses  ${fixture.description || ''}`);
+            }
+            console.log(`\n${fixtures.length} scenario(s)`);
+            break;
+        }
+        case 'synthesize': {
+            const [scenario, ...options] = rest;
+            if (!scenario || scenario.startsWith('--')) {
+                throw new Error(USAGE);
+            }
+            const file = saveGraphFixture(buildSyntheticTenant(scenario, parseSyntheticOptions(options)));
+            console.log(`Wrote ${file}`);
+            break;
+        }
+        default:
+            throw new Error(USAGE);
+    }
+}
+
+main(process.argv.slice(2))
+    .catch((error: any) => {
+        console.error(`❌ ${error.message}`);
+        process.exit(1);
+    });
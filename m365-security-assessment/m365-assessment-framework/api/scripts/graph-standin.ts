@@ -0,0 +1,82 @@
+/**
+ * Local Microsoft Graph stand-in. Serves a fixture scenario over HTTP so the Functions app
+ * (or anything else speaking Graph) can run against it with GRAPH_BASE_URL=http://localhost:<port>.
+ *
+ *   npm run graph-standin -- <scenario> [--port 7075]
+ *
+ * Answers GET requests under /v1.0 and /beta and JSON $batch calls. Recorded nextLinks still
+ * point at graph.microsoft.com; the API's request layer resolves them against GRAPH_BASE_URL.
+ */
+import * as http from 'http';
+import { GraphFixtureFile, GraphFixtureReply, isGraphBatchUrl, loadGraphFixture, replayGraphBatch, replayGraphRequest } from '../shared/graphFixtures';
+
+const USAGE = 'Usage: graph-standin <scenario> [--port <port>]';
+const DEFAULT_PORT = 7075;
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        request.on('data', chunk => chunks.push(chunk));
+        request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        request.on('error', reject);
+    });
+}
+
+function send(response: http.ServerResponse, reply: GraphFixtureReply): void {
+    const isText = typeof reply.body === 'number' || typeof reply.body === 'string';
+    response.writeHead(reply.status, { 'Content-Type': isText ? 'text/plain' : 'application/json' });
+    response.end(isText ? String(reply.body) : JSON.stringify(reply.body));
+}
+
+function graphError(status: number, code: string, message: string): GraphFixtureReply {
+    return { status, body: { error: { code, message } } };
+}
+
+async function handle(fixture: GraphFixtureFile, request: http.IncomingMessage): Promise<GraphFixtureReply> {
+    const url = request.url || '/';
+    const method = (request.method || 'GET').toUpperCase();
+
+    if (!/^\/(v1\.0|beta)(\/|\?|$)/i.test(url)) {
+        return graphError(400, 'BadRequest', `Invalid version in ${url}: expected /v1.0 or /beta`);
+    }
+    if (method === 'POST' && isGraphBatchUrl(url)) {
+        return replayGraphBatch(fixture, JSON.parse((await readBody(request)) || '{}'));
+    }
+    if (method !== 'GET') {
+        return graphError(405, 'Request_BadRequest', `${method} is not supported by the Graph stand-in`);
+    }
+    return replayGraphRequest(fixture, method, url);
+}
+
+async function main(args: string[]): Promise<void> {
+    const [scenario, ...rest] = args;
+    const portIndex = rest.indexOf('--port');
+    const port = portIndex >= 0 ? parseInt(rest[portIndex + 1] || '', 10) : DEFAULT_PORT;
+    if (!scenario || scenario.startsWith('--') || !(port > 0)) {
+        throw new Error(USAGE);
+    }
+
+    const fixture = loadGraphFixture(scenario);
+
+    const server = http.createServer((request, response) => {
+        handle(fixture, request)
+            .catch((error: any) => graphError(400, 'BadRequest', error.message))
+            .then(reply => {
+                console.log(`${request.method} ${request.url} -> ${reply.status}`);
+                send(response, reply);
+            });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, resolve);
+    });
+    console.log(`✅ Graph stand-in serving '${scenario}' (${fixture.responses.length} responses) on http://localhost:${port}`);
+    console.log(`   Set GRAPH_BASE_URL=http://localhost:${port} for the Functions app`);
+}
+
+main(process.argv.slice(2))
+    .catch((error: any) => {
+        console.error(`❌ ${error.message}`);
+        process.exit(1);
+    });
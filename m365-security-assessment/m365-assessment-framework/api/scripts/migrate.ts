@@ -0,0 +1,59 @@
+/**
+ * Database migration CLI. Connects with the same POSTGRES_* settings as the Functions app.
+ *
+ *   npm run migrate -- up [version]      apply pending migrations, optionally only up to <version>
+ *   npm run migrate -- down [steps]      roll back the last <steps> migrations (default 1)
+ *   npm run migrate -- down --to <ver>   roll back every migration newer than <ver>
+ *   npm run migrate -- status            list applied and pending migrations
+ */
+import { postgresService } from '../shared/postgresqlService';
+import { MIGRATIONS, MigrationStatus, getMigrationStatus, migrateDown, migrateUp } from '../shared/migrations';
+
+const USAGE = 'Usage: migrate <up [version] | down [steps] | down --to <version> | status>';
+
+function printStatus(statuses: MigrationStatus[]): void {
+    for (const status of statuses) {
+        const state = status.unknown ? 'UNKNOWN' : status.applied ? 'applied' : 'pending';
+        const appliedAt = status.appliedAt ? ` ${status.appliedAt.toISOString()}` : '';
+        const warning = status.checksumMismatch ? '  (changed since it was applied)' : '';
+        console.log(`${status.version}  ${state.padEnd(8)} ${status.description}${appliedAt}${warning}`);
+    }
+
+    const pending = statuses.filter(s => !s.applied && !s.unknown).length;
+    console.log(`\n${statuses.length - pending} applied, ${pending} pending`);
+}
+
+async function main(args: string[]): Promise<void> {
+    const [command = 'status', ...rest] = args;
+
+    switch (command) {
+        case 'up': {
+            const applied = await postgresService.withMigrationClient(client => migrateUp(client, MIGRATIONS, { target: rest[0] }));
+            console.log(applied.length ? `Applied ${applied.length} migration(s)` : 'Database is already up to date');
+            break;
+        }
+        case 'down': {
+            const target = rest[0] === '--to' ? rest[1] : undefined;
+            const steps = target === undefined ? parseInt(rest[0] || '1', 10) : undefined;
+            if ((rest[0] === '--to' && !target) || (steps !== undefined && (isNaN(steps) || steps < 1))) {
+                throw new Error(USAGE);
+            }
+            const rolledBack = await postgresService.withMigrationClient(client => migrateDown(client, MIGRATIONS, { steps, target }));
+            console.log(rolledBack.length ? `Rolled back ${rolledBack.length} migration(s)` : 'Nothing to roll back');
+            break;
+        }
+        case 'status':
+            printStatus(await postgresService.withMigrationClient(client => getMigrationStatus(client, MIGRATIONS)));
+            break;
+        default:
+            throw new Error(USAGE);
+    }
+}
+
+main(process.argv.slice(2))
+    .then(() => postgresService.destroy())
+    .catch(async (error: any) => {
+        console.error(`❌ ${error.message}`);
+        await postgresService.destroy().catch(() => undefined);
+        process.exit(1);
+    });
@@ -0,0 +1,44 @@
+import { app, InvocationContext, Timer } from "@azure/functions";
+import { initializeDataService, dataService } from "../shared/utils";
+import { findExpiringCredentials, getSecretExpiryWindowDays, rotateCustomerSecret } from "../shared/secretRotation";
+
+// Azure Functions v4 - Daily scan for client secrets that are about to expire.
+// Timer triggers need the standalone Function App; SWA managed functions only run HTTP triggers,
+// there the rotation can still be started through POST customers/{customerId}/secret/rotate.
+app.timer('secret-expiry-monitor', {
+    schedule: process.env.SECRET_ROTATION_SCHEDULE || '0 0 3 * * *',
+    handler: secretExpiryMonitorHandler
+});
+
+async function secretExpiryMonitorHandler(timer: Timer, context: InvocationContext): Promise<void> {
+    context.log('⏰ Secret expiry monitor triggered');
+
+    try {
+        await initializeDataService(context);
+
+        const windowDays = getSecretExpiryWindowDays();
+        const { customers } = await dataService.getCustomers({ status: 'active' });
+        const expiring = findExpiringCredentials(customers, windowDays);
+
+        if (expiring.length === 0) {
+            context.log(`✅ No client secrets expire within ${windowDays} days`);
+            return;
+        }
+        context.log(`🔑 ${expiring.length} client secrets expire within ${windowDays} days, rotating`);
+
+        // Sequential on purpose: each rotation makes several Graph and Key Vault writes
+        let succeeded = 0;
+        for (const credential of expiring) {
+            const customer = customers.find(c => c.id === credential.customerId)!;
+            const result = await rotateCustomerSecret(customer, { trigger: 'scheduled' }, context);
+            if (result.status === 'succeeded') {
+                succeeded++;
+            }
+        }
+
+        context.log(`✅ Secret rotation finished: ${succeeded} succeeded, ${expiring.length - succeeded} failed`);
+
+    } catch (error) {
+        context.error('❌ Secret expiry monitor failed:', error);
+    }
+}
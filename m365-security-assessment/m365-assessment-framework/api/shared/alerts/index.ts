@@ -0,0 +1,6 @@
+export { ALERT_RULE_TYPES, GLOBAL_ADMIN_ROLE, evaluateAlertRules, maskAlertRuleWebhooks, maskWebhookUrl, normalizeAlertRuleInput } from "./rules";
+export { processAssessmentAlerts } from "./notifier";
+export { buildWebhookPayload, postWebhook } from "./webhook";
+export { getSmtpConfig, sendMail } from "./smtp";
+export type { AlertContent } from "./webhook";
+export type { SmtpConfig, MailMessage } from "./smtp";
@@ -0,0 +1,119 @@
+import { InvocationContext } from "@azure/functions";
+import { dataService } from "../utils";
+import { AlertChannel, AlertDelivery, Assessment, TriggeredAlert } from "../types";
+import { evaluateAlertRules } from "./rules";
+import { buildWebhookPayload, postWebhook } from "./webhook";
+import { getSmtpConfig, sendMail } from "./smtp";
+
+const MAX_DELIVERY_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function describeTarget(channel: AlertChannel): string {
+    if (channel.type === 'email') {
+        return channel.recipients.join(', ');
+    }
+    // Incoming-webhook URLs embed their secret, only the host is logged
+    try {
+        return `${channel.format} webhook (${new URL(channel.url).host})`;
+    } catch {
+        return `${channel.format} webhook`;
+    }
+}
+
+async function sendToChannel(channel: AlertChannel, customerName: string, assessment: Assessment, alert: TriggeredAlert): Promise<void> {
+    if (channel.type === 'webhook') {
+        await postWebhook(channel.url, buildWebhookPayload(channel.format, { customerName, assessmentId: assessment.id, alert }));
+        return;
+    }
+
+    const smtpConfig = getSmtpConfig();
+    if (!smtpConfig) {
+        throw new Error('Email is not configured - set SMTP_HOST and SMTP_FROM');
+    }
+    await sendMail(smtpConfig, {
+        to: channel.recipients,
+        subject: `[M365 Assessment] ${customerName}: ${alert.title}`,
+        text: [
+            alert.message,
+            ...(alert.details.length > 0 ? ['', ...alert.details.map(detail => `- ${detail}`)] : []),
+            '',
+            `Assessment: ${assessment.id}`,
+            `Date: ${new Date(assessment.date).toISOString()}`
+        ].join('\n')
+    });
+}
+
+/**
+ * Deliver one alert to one channel, retrying failed attempts. Every attempt is logged.
+ */
+async function deliverAlert(
+    channel: AlertChannel,
+    customerName: string,
+    assessment: Assessment,
+    alert: TriggeredAlert,
+    context: InvocationContext
+): Promise<AlertDelivery['status']> {
+    const target = describeTarget(channel);
+
+    for (let attempt = 1; attempt <= MAX_DELIVERY_ATTEMPTS; attempt++) {
+        let error: string | undefined;
+        try {
+            await sendToChannel(channel, customerName, assessment, alert);
+        } catch (deliveryError: any) {
+            error = deliveryError.message;
+        }
+
+        await dataService.recordAlertDelivery({
+            customerId: assessment.customerId,
+            ruleId: alert.rule.id,
+            assessmentId: assessment.id,
+            channel: channel.type,
+            target,
+            title: alert.title,
+            status: error ? 'failed' : 'delivered',
+            attempt,
+            error
+        }).catch((logError: any) => context.log('⚠️ Failed to log alert delivery:', logError.message));
+
+        if (!error) {
+            context.log(`📣 Alert "${alert.title}" delivered to ${target}`);
+            return 'delivered';
+        }
+
+        context.log(`⚠️ Alert delivery to ${target} failed (attempt ${attempt}/${MAX_DELIVERY_ATTEMPTS}):`, error);
+        if (attempt < MAX_DELIVERY_ATTEMPTS) {
+            await sleep(RETRY_DELAY_MS * attempt);
+        }
+    }
+
+    return 'failed';
+}
+
+/**
+ * Evaluate the customer's alert rules against a completed assessment and notify every
+ * channel of the rules that fire. Returns the alerts that fired.
+ */
+export async function processAssessmentAlerts(assessment: Assessment, customerName: string, context: InvocationContext): Promise<TriggeredAlert[]> {
+    const rules = await dataService.getAlertRules(assessment.customerId, { enabledOnly: true });
+    if (rules.length === 0) {
+        return [];
+    }
+
+    const previousAssessmentId = await dataService.getPreviousCompletedAssessmentId(
+        assessment.customerId,
+        assessment.id,
+        new Date(assessment.date)
+    );
+    const previous = previousAssessmentId ? await dataService.getAssessmentById(previousAssessmentId) : null;
+
+    const alerts = evaluateAlertRules(rules, assessment, previous);
+    context.log(`🔔 ${alerts.length} of ${rules.length} alert rules fired for assessment ${assessment.id}`);
+
+    for (const alert of alerts) {
+        await Promise.all(alert.rule.channels.map(channel => deliverAlert(channel, customerName, assessment, alert, context)));
+    }
+
+    return alerts;
+}
@@ -0,0 +1,202 @@
+import { AlertChannel, AlertRule, AlertRuleInput, AlertRuleType, Assessment, TriggeredAlert, WebhookFormat } from "../types";
+
+export const GLOBAL_ADMIN_ROLE = 'Global Administrator';
+
+interface AlertRuleDefinition {
+    label: string;
+    /** Unit of the threshold, or null when the rule has none */
+    thresholdUnit: 'points' | 'percent' | null;
+    defaultThreshold?: number;
+}
+
+export const ALERT_RULE_TYPES: Record<AlertRuleType, AlertRuleDefinition> = {
+    'score-drop': { label: 'Overall score drops', thresholdUnit: 'points', defaultThreshold: 5 },
+    'mfa-coverage-below': { label: 'MFA coverage falls below', thresholdUnit: 'percent', defaultThreshold: 90 },
+    'new-global-admin': { label: 'New Global Administrator', thresholdUnit: null },
+    'device-compliance-drop': { label: 'Device compliance drops', thresholdUnit: 'points', defaultThreshold: 10 }
+};
+
+const WEBHOOK_FORMATS: WebhookFormat[] = ['teams', 'slack'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MASKED_URL_PATH = '********';
+
+const isUsable = (data: any): boolean => !!data && !data.skipped && !data.unavailable && !data.error;
+
+function collected(assessment: Assessment | null, key: string): any {
+    const data = assessment?.metrics?.realData?.[key];
+    return isUsable(data) ? data : null;
+}
+
+function globalAdmins(assessment: Assessment | null): Set<string> | null {
+    const identity = collected(assessment, 'identityMetrics');
+    if (!identity?.userDetails) {
+        return null;
+    }
+    // Older assessments did not store role names - they cannot tell who is a Global Administrator
+    if (!identity.userDetails.some((user: any) => Array.isArray(user.privilegedRoles))) {
+        return null;
+    }
+    return new Set(identity.userDetails
+        .filter((user: any) => user.privilegedRoles?.includes(GLOBAL_ADMIN_ROLE))
+        .map((user: any) => user.userPrincipalName));
+}
+
+function evaluateRule(rule: AlertRule, current: Assessment, previous: Assessment | null): Omit<TriggeredAlert, 'rule'> | null {
+    const threshold = rule.threshold ?? ALERT_RULE_TYPES[rule.type].defaultThreshold ?? 0;
+
+    switch (rule.type) {
+        case 'score-drop': {
+            if (!previous) return null;
+            const drop = previous.score - current.score;
+            if (drop <= threshold) return null;
+            return {
+                title: `Security score dropped by ${drop} points`,
+                message: `The overall security score fell from ${previous.score} to ${current.score}, more than the ${threshold} points allowed.`,
+                details: [`Previous assessment: ${new Date(previous.date).toISOString().split('T')[0]}`]
+            };
+        }
+
+        case 'mfa-coverage-below': {
+            const coverage = collected(current, 'identityMetrics')?.mfaCoverage;
+            if (typeof coverage !== 'number' || coverage >= threshold) return null;
+            // Only alert when crossing the threshold, not on every assessment that stays below it
+            const previousCoverage = collected(previous, 'identityMetrics')?.mfaCoverage;
+            if (typeof previousCoverage === 'number' && previousCoverage < threshold) return null;
+            return {
+                title: `MFA coverage fell below ${threshold}%`,
+                message: `MFA coverage is now ${coverage}%${typeof previousCoverage === 'number' ? ` (previously ${previousCoverage}%)` : ''}.`,
+                details: []
+            };
+        }
+
+        case 'new-global-admin': {
+            const currentAdmins = globalAdmins(current);
+            const previousAdmins = globalAdmins(previous);
+            if (!currentAdmins || !previousAdmins) return null;
+            const added = Array.from(currentAdmins).filter(user => !previousAdmins.has(user));
+            if (added.length === 0) return null;
+            return {
+                title: `${added.length} new Global Administrator${added.length > 1 ? 's' : ''}`,
+                message: `The ${GLOBAL_ADMIN_ROLE} role was assigned to accounts that did not hold it in the previous assessment.`,
+                details: added
+            };
+        }
+
+        case 'device-compliance-drop': {
+            const currentRate = collected(current, 'endpointMetrics')?.complianceRate;
+            const previousRate = collected(previous, 'endpointMetrics')?.complianceRate;
+            if (typeof currentRate !== 'number' || typeof previousRate !== 'number') return null;
+            const drop = previousRate - currentRate;
+            if (drop <= threshold) return null;
+            return {
+                title: `Device compliance dropped by ${drop} points`,
+                message: `Device compliance fell from ${previousRate}% to ${currentRate}%.`,
+                details: []
+            };
+        }
+
+        default:
+            return null;
+    }
+}
+
+/**
+ * Rules that match a completed assessment, compared with the customer's previous completed assessment.
+ * Rules whose data is missing from either assessment do not fire.
+ */
+export function evaluateAlertRules(rules: AlertRule[], current: Assessment, previous: Assessment | null): TriggeredAlert[] {
+    return rules
+        .filter(rule => rule.enabled)
+        .map(rule => {
+            const match = evaluateRule(rule, current, previous);
+            return match ? { rule, ...match } : null;
+        })
+        .filter((alert): alert is TriggeredAlert => alert !== null);
+}
+
+/**
+ * Webhook URL with its path, which carries the webhook's secret, replaced - the form
+ * non-admins see. The host is kept so that the target stays recognizable.
+ */
+export function maskWebhookUrl(url: string): string {
+    try {
+        return `${new URL(url).origin}/${MASKED_URL_PATH}`;
+    } catch {
+        return `https://${MASKED_URL_PATH}`;
+    }
+}
+
+export function maskAlertRuleWebhooks(rule: AlertRule): AlertRule {
+    return {
+        ...rule,
+        channels: rule.channels.map(channel => channel.type === 'webhook' ? { ...channel, url: maskWebhookUrl(channel.url) } : channel)
+    };
+}
+
+function validateChannel(channel: any, index: number): string[] {
+    if (channel?.type === 'webhook') {
+        const errors: string[] = [];
+        if (typeof channel.url !== 'string' || !/^https:\/\//i.test(channel.url)) {
+            errors.push(`channels[${index}].url must be an https URL`);
+        }
+        if (!WEBHOOK_FORMATS.includes(channel.format)) {
+            errors.push(`channels[${index}].format must be one of: ${WEBHOOK_FORMATS.join(', ')}`);
+        }
+        return errors;
+    }
+    if (channel?.type === 'email') {
+        const recipients = channel.recipients;
+        if (!Array.isArray(recipients) || recipients.length === 0 || !recipients.every((r: any) => typeof r === 'string' && EMAIL_PATTERN.test(r))) {
+            return [`channels[${index}].recipients must be a non-empty list of email addresses`];
+        }
+        return [];
+    }
+    return [`channels[${index}].type must be webhook or email`];
+}
+
+function unmaskWebhookUrl(url: string, existingChannels: AlertChannel[]): string {
+    const existing = existingChannels.find(channel => channel.type === 'webhook' && maskWebhookUrl(channel.url) === url);
+    return existing?.type === 'webhook' ? existing.url : url;
+}
+
+/**
+ * Validate an alert rule from a request body. Masked webhook URLs sent back unchanged by an
+ * edit form keep the URL of the matching channel in `existingChannels`.
+ */
+export function normalizeAlertRuleInput(body: any, existingChannels: AlertChannel[] = []): { input?: AlertRuleInput; errors: string[] } {
+    const errors: string[] = [];
+    const definition = ALERT_RULE_TYPES[body?.type as AlertRuleType];
+    if (!definition) {
+        return { errors: [`type must be one of: ${Object.keys(ALERT_RULE_TYPES).join(', ')}`] };
+    }
+
+    let threshold: number | undefined;
+    if (definition.thresholdUnit) {
+        threshold = body.threshold ?? definition.defaultThreshold;
+        if (typeof threshold !== 'number' || isNaN(threshold) || threshold < 0 || threshold > 100) {
+            errors.push('threshold must be a number between 0 and 100');
+        }
+    }
+
+    const channels: any[] = Array.isArray(body.channels) ? body.channels : [];
+    if (channels.length === 0) {
+        errors.push('At least one notification channel is required');
+    }
+    channels.forEach((channel, index) => errors.push(...validateChannel(channel, index)));
+
+    if (errors.length > 0) {
+        return { errors };
+    }
+
+    return {
+        errors,
+        input: {
+            type: body.type,
+            threshold,
+            channels: channels.map((channel): AlertChannel => channel.type === 'webhook'
+                ? { type: 'webhook', url: unmaskWebhookUrl(channel.url, existingChannels), format: channel.format }
+                : { type: 'email', recipients: channel.recipients }),
+            enabled: body.enabled !== false
+        }
+    };
+}
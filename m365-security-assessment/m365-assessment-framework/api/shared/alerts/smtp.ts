@@ -0,0 +1,211 @@
+import * as net from 'net';
+import * as tls from 'tls';
+import { hostname } from 'os';
+
+const SMTP_TIMEOUT_MS = 15000;
+
+export interface SmtpConfig {
+    host: string;
+    port: number;
+    /** Implicit TLS (port 465); otherwise STARTTLS is used whenever the server offers it and required for AUTH */
+    secure: boolean;
+    user?: string;
+    password?: string;
+    from: string;
+}
+
+export interface MailMessage {
+    to: string[];
+    subject: string;
+    text: string;
+}
+
+interface SmtpReply {
+    code: number;
+    lines: string[];
+}
+
+/**
+ * SMTP settings from SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD and SMTP_FROM,
+ * or null when email is not configured
+ */
+export function getSmtpConfig(): SmtpConfig | null {
+    const host = process.env.SMTP_HOST;
+    const from = process.env.SMTP_FROM || process.env.SMTP_USER;
+    if (!host || !from) {
+        return null;
+    }
+
+    const secure = process.env.SMTP_SECURE === 'true';
+    return {
+        host,
+        port: parseInt(process.env.SMTP_PORT || (secure ? '465' : '587')),
+        secure,
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+        from
+    };
+}
+
+/**
+ * Minimal line-based SMTP session over a plain or TLS socket
+ */
+class SmtpConnection {
+    private socket: net.Socket;
+    private buffer = '';
+    private pendingLines: string[] = [];
+    private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+    private failure: Error | null = null;
+
+    constructor(private config: SmtpConfig) {}
+
+    async connect(): Promise<void> {
+        const socket = this.config.secure
+            ? tls.connect({ host: this.config.host, port: this.config.port, servername: this.config.host })
+            : net.connect({ host: this.config.host, port: this.config.port });
+        this.attach(socket);
+        await this.expect(220);
+    }
+
+    async upgradeToTls(): Promise<void> {
+        const plain = this.socket;
+        ['data', 'timeout', 'error', 'close'].forEach(event => plain.removeAllListeners(event));
+        plain.setTimeout(0);
+        const secured = tls.connect({ socket: plain, servername: this.config.host });
+        await new Promise<void>((resolve, reject) => {
+            secured.once('secureConnect', resolve);
+            secured.once('error', reject);
+        });
+        this.buffer = '';
+        this.pendingLines = [];
+        this.attach(secured);
+    }
+
+    /**
+     * Send one command and wait for its reply. `step` names the command in errors so that
+     * credentials are never echoed into logs.
+     */
+    async command(line: string, expectedCode: number | number[], step: string = line): Promise<SmtpReply> {
+        this.socket.write(`${line}\r\n`);
+        return this.expect(expectedCode, step);
+    }
+
+    async send(data: string, expectedCode: number): Promise<SmtpReply> {
+        this.socket.write(data);
+        return this.expect(expectedCode, 'message data');
+    }
+
+    close(): void {
+        this.socket.end();
+        this.socket.destroy();
+    }
+
+    private attach(socket: net.Socket): void {
+        this.socket = socket;
+        socket.setTimeout(SMTP_TIMEOUT_MS);
+        socket.on('data', (chunk: Buffer) => this.onData(chunk.toString('utf8')));
+        socket.on('timeout', () => this.fail(new Error('SMTP server timed out')));
+        socket.on('error', (error: Error) => this.fail(error));
+        socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+    }
+
+    private onData(chunk: string): void {
+        this.buffer += chunk;
+        let index: number;
+        while ((index = this.buffer.indexOf('\n')) >= 0) {
+            const line = this.buffer.slice(0, index).replace(/\r$/, '');
+            this.buffer = this.buffer.slice(index + 1);
+            this.pendingLines.push(line);
+            // "250-..." continues a multi-line reply, "250 ..." ends it
+            if (/^\d{3}(?: |$)/.test(line)) {
+                const reply = { code: parseInt(line.slice(0, 3)), lines: this.pendingLines };
+                this.pendingLines = [];
+                const waiting = this.waiting;
+                this.waiting = null;
+                waiting?.resolve(reply);
+            }
+        }
+    }
+
+    private fail(error: Error): void {
+        this.failure = this.failure || error;
+        const waiting = this.waiting;
+        this.waiting = null;
+        waiting?.reject(error);
+    }
+
+    private async expect(expectedCode: number | number[], step: string = 'greeting'): Promise<SmtpReply> {
+        if (this.failure) {
+            throw this.failure;
+        }
+        const reply = await new Promise<SmtpReply>((resolve, reject) => {
+            this.waiting = { resolve, reject };
+        });
+        const expected = Array.isArray(expectedCode) ? expectedCode : [expectedCode];
+        if (!expected.includes(reply.code)) {
+            throw new Error(`SMTP ${step} failed: ${reply.lines.join(' ')}`);
+        }
+        return reply;
+    }
+}
+
+function encodeHeader(value: string): string {
+    // RFC 2047 encoded word for non-ASCII subjects
+    return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function buildMessage(config: SmtpConfig, message: MailMessage): string {
+    const headers = [
+        `From: ${config.from}`,
+        `To: ${message.to.join(', ')}`,
+        `Subject: ${encodeHeader(message.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: 8bit'
+    ];
+    // Dot-stuffing: a line starting with "." must be doubled so it does not end the DATA section
+    const body = message.text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+    return `${headers.join('\r\n')}\r\n\r\n${body}\r\n.\r\n`;
+}
+
+/**
+ * Send a plain-text email. Supports implicit TLS, STARTTLS and AUTH LOGIN - enough for
+ * Office 365, SendGrid and most relays without pulling in a mail library. Credentials are
+ * only sent once the connection is encrypted.
+ */
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+    const connection = new SmtpConnection(config);
+    try {
+        await connection.connect();
+        const ehlo = await connection.command(`EHLO ${hostname() || 'localhost'}`, 250);
+
+        let encrypted = config.secure;
+        if (!config.secure && ehlo.lines.some(line => /^250[ -]STARTTLS/i.test(line))) {
+            await connection.command('STARTTLS', 220);
+            await connection.upgradeToTls();
+            await connection.command(`EHLO ${hostname() || 'localhost'}`, 250);
+            encrypted = true;
+        }
+
+        if (config.user && config.password) {
+            // AUTH LOGIN only base64-encodes the credentials
+            if (!encrypted) {
+                throw new Error(`SMTP server ${config.host} does not offer STARTTLS; refusing to send credentials over an unencrypted connection`);
+            }
+            await connection.command('AUTH LOGIN', 334);
+            await connection.command(Buffer.from(config.user, 'utf8').toString('base64'), 334, 'AUTH LOGIN username');
+            await connection.command(Buffer.from(config.password, 'utf8').toString('base64'), 235, 'AUTH LOGIN password');
+        }
+
+        await connection.command(`MAIL FROM:<${config.from.replace(/^.*<([^>]+)>.*$/, '$1')}>`, 250);
+        for (const recipient of message.to) {
+            await connection.command(`RCPT TO:<${recipient}>`, [250, 251]);
+        }
+        await connection.command('DATA', 354);
+        await connection.send(buildMessage(config, message), 250);
+        await connection.command('QUIT', 221).catch(() => undefined);
+    } finally {
+        connection.close();
+    }
+}
@@ -0,0 +1,74 @@
+import * as https from 'https';
+import { TriggeredAlert, WebhookFormat } from "../types";
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+export interface AlertContent {
+    customerName: string;
+    assessmentId: string;
+    alert: TriggeredAlert;
+}
+
+/**
+ * Incoming-webhook payload: a MessageCard for Teams, plain mrkdwn text for Slack
+ */
+export function buildWebhookPayload(format: WebhookFormat, { customerName, assessmentId, alert }: AlertContent): any {
+    if (format === 'teams') {
+        return {
+            '@type': 'MessageCard',
+            '@context': 'https://schema.org/extensions',
+            summary: `${customerName}: ${alert.title}`,
+            themeColor: 'D83B01',
+            title: `${customerName}: ${alert.title}`,
+            text: alert.message,
+            sections: [{
+                text: alert.details.map(detail => `- ${detail}`).join('\n') || undefined,
+                facts: [{ name: 'Assessment', value: assessmentId }]
+            }]
+        };
+    }
+
+    const lines = [`*${customerName}: ${alert.title}*`, alert.message, ...alert.details.map(detail => `• ${detail}`), `Assessment: ${assessmentId}`];
+    return { text: lines.join('\n') };
+}
+
+/**
+ * POST a JSON payload to an incoming webhook, rejecting on non-2xx responses
+ */
+export function postWebhook(url: string, payload: any): Promise<void> {
+    const body = JSON.stringify(payload);
+
+    return new Promise((resolve, reject) => {
+        const request = https.request(url, {
+            method: 'POST',
+            timeout: WEBHOOK_TIMEOUT_MS,
+            headers: {
+                'Content-Type': 'application/json',
+                'Content-Length': Buffer.byteLength(body)
+            }
+        }, (response) => {
+            let data = '';
+            response.on('data', (chunk) => {
+                data += chunk;
+            });
+            response.on('end', () => {
+                if (response.statusCode && response.statusCode >= 200 && response.statusCode < 300) {
+                    resolve();
+                } else {
+                    reject(new Error(`HTTP ${response.statusCode}: ${data.slice(0, 500)}`));
+                }
+            });
+        });
+
+        request.on('error', (error) => {
+            reject(error);
+        });
+
+        request.on('timeout', () => {
+            request.destroy();
+            reject(new Error('Webhook request timed out'));
+        });
+
+        request.end(body);
+    });
+}
@@ -0,0 +1,204 @@
+import {
+    Assessment,
+    AssessmentDiff,
+    AssessmentDiffSection,
+    DeviceComplianceChange,
+    LicenseSkuChange,
+    PrivilegedRoleChange,
+    SecureScoreControlChange
+} from "./types";
+
+// Secure Score implementation states from worst to best
+const IMPLEMENTATION_STATUS_ORDER = ['Not Implemented', 'Partial', 'Implemented'];
+
+const isUsable = (data: any): boolean => !!data && !data.skipped && !data.unavailable && !data.error;
+
+const realDataOf = (assessment: Assessment): Record<string, any> => assessment.metrics?.realData || {};
+
+function section<T>(from: Assessment, to: Assessment, key: string, select: (data: any) => T | null | undefined): [T, T] | null {
+    const fromData = realDataOf(from)[key];
+    const toData = realDataOf(to)[key];
+    if (!isUsable(fromData) || !isUsable(toData)) {
+        return null;
+    }
+
+    const fromValue = select(fromData);
+    const toValue = select(toData);
+    return fromValue && toValue ? [fromValue, toValue] : null;
+}
+
+function diffLicenses(fromLicenses: any[], toLicenses: any[]): AssessmentDiff['licenses'] {
+    const bySku = (licenses: any[]) => new Map<string, any>(
+        licenses.filter(license => license.skuPartNumber).map(license => [license.skuPartNumber, license])
+    );
+    const units = (license: any): number => license.prepaidUnits?.enabled || license.totalUnits || 0;
+    const consumed = (license: any): number => license.consumedUnits || license.assignedUnits || 0;
+
+    const fromSkus = bySku(fromLicenses);
+    const toSkus = bySku(toLicenses);
+
+    const changed: LicenseSkuChange[] = [];
+    toSkus.forEach((toLicense, skuPartNumber) => {
+        const fromLicense = fromSkus.get(skuPartNumber);
+        if (fromLicense && (units(fromLicense) !== units(toLicense) || consumed(fromLicense) !== consumed(toLicense))) {
+            changed.push({
+                skuPartNumber,
+                fromUnits: units(fromLicense),
+                toUnits: units(toLicense),
+                fromConsumed: consumed(fromLicense),
+                toConsumed: consumed(toLicense)
+            });
+        }
+    });
+
+    return {
+        added: Array.from(toSkus.keys()).filter(sku => !fromSkus.has(sku)),
+        removed: Array.from(fromSkus.keys()).filter(sku => !toSkus.has(sku)),
+        changed
+    };
+}
+
+function diffSecureScoreControls(fromControls: any[], toControls: any[]): SecureScoreControlChange[] {
+    const fromByName = new Map<string, any>(fromControls.map(control => [control.controlName, control]));
+
+    return toControls
+        .map(toControl => {
+            const fromControl = fromByName.get(toControl.controlName);
+            if (!fromControl || fromControl.implementationStatus === toControl.implementationStatus) {
+                return null;
+            }
+
+            const change: SecureScoreControlChange = {
+                controlName: toControl.controlName,
+                title: toControl.title || fromControl.title || toControl.controlName,
+                fromStatus: fromControl.implementationStatus || 'Unknown',
+                toStatus: toControl.implementationStatus || 'Unknown',
+                direction: IMPLEMENTATION_STATUS_ORDER.indexOf(toControl.implementationStatus) >
+                    IMPLEMENTATION_STATUS_ORDER.indexOf(fromControl.implementationStatus) ? 'improved' : 'regressed'
+            };
+            return change;
+        })
+        .filter((change): change is SecureScoreControlChange => change !== null);
+}
+
+/**
+ * Privileged roles per user. Assessments collected before role names were stored
+ * only know whether a user was privileged, so their roles are left empty.
+ */
+function privilegedRolesByUser(userDetails: any[]): Map<string, string[]> {
+    return new Map(userDetails
+        .filter(user => user.userPrincipalName && (user.isPrivileged || user.privilegedRoles?.length > 0))
+        .map(user => [user.userPrincipalName, user.privilegedRoles || []]));
+}
+
+function diffPrivilegedUsers(fromUsers: any[], toUsers: any[]): AssessmentDiff['privilegedUsers'] {
+    const fromRoles = privilegedRolesByUser(fromUsers);
+    const toRoles = privilegedRolesByUser(toUsers);
+
+    const roleChanges: PrivilegedRoleChange[] = [];
+    toRoles.forEach((roles, userPrincipalName) => {
+        const previousRoles = fromRoles.get(userPrincipalName);
+        // Without role names on both sides only gained or lost privilege can be reported
+        if (!previousRoles || previousRoles.length === 0 || roles.length === 0) {
+            return;
+        }
+
+        const addedRoles = roles.filter(role => !previousRoles.includes(role));
+        const removedRoles = previousRoles.filter(role => !roles.includes(role));
+        if (addedRoles.length > 0 || removedRoles.length > 0) {
+            roleChanges.push({ userPrincipalName, addedRoles, removedRoles });
+        }
+    });
+
+    return {
+        gained: Array.from(toRoles.keys()).filter(user => !fromRoles.has(user)),
+        lost: Array.from(fromRoles.keys()).filter(user => !toRoles.has(user)),
+        roleChanges
+    };
+}
+
+function diffMfaRegistration(fromUsers: any[], toUsers: any[]): AssessmentDiff['mfaRegistration'] {
+    // isMfaRegistered is null when registration details were not available for the user
+    const registrationByUser = (users: any[]) => new Map<string, boolean>(users
+        .filter(user => user.userPrincipalName && typeof user.isMfaRegistered === 'boolean')
+        .map(user => [user.userPrincipalName, user.isMfaRegistered]));
+
+    const fromRegistration = registrationByUser(fromUsers);
+    const toRegistration = registrationByUser(toUsers);
+
+    const registered: string[] = [];
+    const unregistered: string[] = [];
+    toRegistration.forEach((isRegistered, userPrincipalName) => {
+        const wasRegistered = fromRegistration.get(userPrincipalName);
+        if (wasRegistered === undefined || wasRegistered === isRegistered) {
+            return;
+        }
+        (isRegistered ? registered : unregistered).push(userPrincipalName);
+    });
+
+    return { registered, unregistered };
+}
+
+function diffDeviceCompliance(fromDevices: any[], toDevices: any[]): AssessmentDiff['deviceCompliance'] {
+    const isCompliant = (device: any): boolean => (device.compliance || '').toLowerCase() === 'compliant';
+    const fromById = new Map<string, any>(fromDevices.map(device => [device.id, device]));
+
+    const becameCompliant: DeviceComplianceChange[] = [];
+    const becameNonCompliant: DeviceComplianceChange[] = [];
+    toDevices.forEach(toDevice => {
+        const fromDevice = fromById.get(toDevice.id);
+        if (!fromDevice || isCompliant(fromDevice) === isCompliant(toDevice)) {
+            return;
+        }
+
+        const change: DeviceComplianceChange = {
+            deviceId: toDevice.id,
+            deviceName: toDevice.name || toDevice.id,
+            fromState: fromDevice.compliance || 'unknown',
+            toState: toDevice.compliance || 'unknown'
+        };
+        (isCompliant(toDevice) ? becameCompliant : becameNonCompliant).push(change);
+    });
+
+    return { becameCompliant, becameNonCompliant };
+}
+
+/**
+ * Structural tenant changes between two assessments: license SKUs, Secure Score control
+ * states, privileged role holders, MFA registration and device compliance.
+ * Sections missing from either assessment are listed in `unavailable` instead of reported as changes.
+ */
+export function diffAssessments(from: Assessment, to: Assessment): AssessmentDiff {
+    const unavailable: AssessmentDiffSection[] = [];
+
+    const licenses = section(from, to, 'licenseInfo', data => data.licenseDetails || data.licenses);
+    const controls = section(from, to, 'secureScore', data => data.controlScores);
+    const users = section(from, to, 'identityMetrics', data => data.userDetails);
+    // Older assessments only stored a sample of the managed devices
+    const devices = section(from, to, 'endpointMetrics', data => data.devices || data.sample);
+
+    if (!licenses) unavailable.push('licenses');
+    if (!controls) unavailable.push('secureScoreControls');
+    if (!users) unavailable.push('privilegedUsers', 'mfaRegistration');
+    if (!devices) unavailable.push('deviceCompliance');
+
+    const diff = {
+        licenses: licenses ? diffLicenses(...licenses) : { added: [], removed: [], changed: [] },
+        secureScoreControls: controls ? diffSecureScoreControls(...controls) : [],
+        privilegedUsers: users ? diffPrivilegedUsers(...users) : { gained: [], lost: [], roleChanges: [] },
+        mfaRegistration: users ? diffMfaRegistration(...users) : { registered: [], unregistered: [] },
+        deviceCompliance: devices ? diffDeviceCompliance(...devices) : { becameCompliant: [], becameNonCompliant: [] }
+    };
+
+    return {
+        ...diff,
+        unavailable,
+        summary: {
+            licenses: diff.licenses.added.length + diff.licenses.removed.length + diff.licenses.changed.length,
+            secureScoreControls: diff.secureScoreControls.length,
+            privilegedUsers: diff.privilegedUsers.gained.length + diff.privilegedUsers.lost.length + diff.privilegedUsers.roleChanges.length,
+            mfaRegistration: diff.mfaRegistration.registered.length + diff.mfaRegistration.unregistered.length,
+            deviceCompliance: diff.deviceCompliance.becameCompliant.length + diff.deviceCompliance.becameNonCompliant.length
+        }
+    };
+}
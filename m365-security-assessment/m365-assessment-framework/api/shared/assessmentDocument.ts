@@ -0,0 +1,200 @@
+import { AssessmentMetricsDocument } from "./types";
+
+/**
+ * Version of the assessment document (assessments.metrics) written by this build.
+ * Bump it together with a new entry in UPGRADERS whenever the shape changes.
+ */
+export const ASSESSMENT_DOCUMENT_VERSION = 2;
+
+export class AssessmentDocumentError extends Error {
+    constructor(message: string, public problems: string[] = []) {
+        super(message);
+        this.name = 'AssessmentDocumentError';
+    }
+}
+
+/** Assessment row fields older documents did not carry themselves */
+export interface AssessmentDocumentContext {
+    score?: number;
+    tenantId?: string;
+    date?: Date | string;
+}
+
+type Upgrader = (document: Record<string, any>, context: AssessmentDocumentContext) => Record<string, any>;
+
+/** Collector results that older writers stored next to realData instead of inside it */
+const MISPLACED_COLLECTED_KEYS = ['licenseInfo', 'identityMetrics', 'endpointMetrics', 'policyConfiguration', 'licenseOptimization'];
+
+/** Names identity data was stored under before it settled on identityMetrics */
+const IDENTITY_ALIASES = ['identityData', 'identityAccessData', 'identity'];
+
+const isObject = (value: any): value is Record<string, any> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const toIsoString = (value: any): string | undefined => {
+    if (!value) {
+        return undefined;
+    }
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+/**
+ * Version 1 is everything written before documents were versioned: the job pipeline,
+ * the one-shot assessment-perform route and whatever clients posted to createAssessment.
+ */
+function upgradeFromV1(document: Record<string, any>, context: AssessmentDocumentContext): Record<string, any> {
+    const upgraded = { ...document };
+    const realData: Record<string, any> = isObject(document.realData) ? { ...document.realData } : {};
+
+    MISPLACED_COLLECTED_KEYS.forEach(key => {
+        if (upgraded[key] !== undefined) {
+            realData[key] = realData[key] ?? upgraded[key];
+            delete upgraded[key];
+        }
+    });
+
+    if (!isObject(realData.identityMetrics)) {
+        const alias = IDENTITY_ALIASES.map(key => realData[key] ?? document[key]).find(isObject);
+        if (alias) {
+            realData.identityMetrics = alias;
+        }
+    }
+    IDENTITY_ALIASES.forEach(key => {
+        delete realData[key];
+        delete upgraded[key];
+    });
+
+    // assessment-perform kept only the computed summaries next to the raw Graph responses
+    if (!isObject(realData.licenseInfo) && isObject(document.license)) {
+        realData.licenseInfo = {
+            summary: document.license.summary || '',
+            licenses: Array.isArray(realData.licenseDetails) ? realData.licenseDetails : [],
+            utilization: document.license.utilizationRate || 0,
+            totalLicenses: document.license.totalLicenses || 0,
+            assignedLicenses: document.license.assignedLicenses || 0,
+            licenseDetails: document.license.licenseDetails || []
+        };
+    }
+    if (!(isObject(realData.secureScore) && typeof realData.secureScore.percentage === 'number')
+        && isObject(document.secureScore) && typeof document.secureScore.percentage === 'number') {
+        realData.secureScore = document.secureScore;
+    }
+
+    const lastUpdated = toIsoString(document.lastUpdated) || toIsoString(realData.lastUpdated) || toIsoString(context.date) || new Date(0).toISOString();
+
+    realData.dataSource = typeof realData.dataSource === 'string' ? realData.dataSource : 'Unknown';
+    realData.lastUpdated = toIsoString(realData.lastUpdated) || lastUpdated;
+    if (!isObject(realData.tenantInfo) && context.tenantId) {
+        realData.tenantInfo = { tenantId: context.tenantId };
+    }
+
+    const score = isObject(document.score) ? document.score : {};
+
+    return {
+        ...upgraded,
+        includedCategories: Array.isArray(document.includedCategories)
+            ? document.includedCategories
+            : Object.keys(isObject(document.collection) ? document.collection : {}),
+        score: {
+            overall: Number(score.overall ?? context.score ?? 0) || 0,
+            license: Number(score.license ?? Math.min(document.license?.utilizationRate || 0, 100)) || 0,
+            secureScore: Number(score.secureScore ?? document.secureScore?.percentage ?? 0) || 0
+        },
+        lastUpdated,
+        realData
+    };
+}
+
+/** Upgraders by the version they upgrade from */
+const UPGRADERS: Record<number, Upgrader> = {
+    1: upgradeFromV1
+};
+
+function versionOf(document: Record<string, any>): number {
+    return Number.isInteger(document.schemaVersion) && document.schemaVersion > 0 ? document.schemaVersion : 1;
+}
+
+/**
+ * Bring a stored document up to the current version. Documents written by a newer build
+ * are returned unchanged.
+ */
+export function upgradeAssessmentDocument(metrics: any, context: AssessmentDocumentContext = {}): AssessmentMetricsDocument {
+    let document: Record<string, any> = isObject(metrics) ? metrics : {};
+    let version = versionOf(document);
+
+    while (version < ASSESSMENT_DOCUMENT_VERSION) {
+        const upgrade = UPGRADERS[version];
+        if (!upgrade) {
+            throw new AssessmentDocumentError(`No upgrader for assessment document version ${version}`);
+        }
+        document = { ...upgrade(document, context), schemaVersion: version + 1 };
+        version++;
+    }
+
+    return document as AssessmentMetricsDocument;
+}
+
+/**
+ * Problems that keep a document from matching the current schema; empty when it is valid
+ */
+export function validateAssessmentDocument(document: any): string[] {
+    const problems: string[] = [];
+    const expect = (condition: boolean, problem: string) => {
+        if (!condition) {
+            problems.push(problem);
+        }
+    };
+    const isNumber = (value: any) => typeof value === 'number' && isFinite(value);
+    const isOptional = (value: any, check: (value: any) => boolean) => value === undefined || check(value);
+
+    if (!isObject(document)) {
+        return ['metrics must be an object'];
+    }
+
+    expect(document.schemaVersion === ASSESSMENT_DOCUMENT_VERSION, `schemaVersion must be ${ASSESSMENT_DOCUMENT_VERSION}`);
+    expect(Array.isArray(document.includedCategories) && document.includedCategories.every((c: any) => typeof c === 'string'),
+        'includedCategories must be an array of category ids');
+    expect(isObject(document.score) && ['overall', 'license', 'secureScore'].every(key => isNumber(document.score[key])),
+        'score must have numeric overall, license and secureScore');
+    expect(typeof document.lastUpdated === 'string' && !!toIsoString(document.lastUpdated), 'lastUpdated must be an ISO timestamp');
+    expect(isOptional(document.assessmentName, value => typeof value === 'string'), 'assessmentName must be a string');
+    expect(isOptional(document.error, value => typeof value === 'string'), 'error must be a string');
+    expect(isOptional(document.progress, value => isObject(value) && isObject(value.categories)), 'progress must have categories');
+    expect(isOptional(document.collection, isObject), 'collection must be an object keyed by category');
+    expect(isOptional(document.license, value => isObject(value) && isNumber(value.totalLicenses) && isNumber(value.assignedLicenses)),
+        'license must have numeric totalLicenses and assignedLicenses');
+    expect(isOptional(document.secureScore, value => isObject(value) && isNumber(value.percentage)),
+        'secureScore must have a numeric percentage');
+
+    if (!isObject(document.realData)) {
+        problems.push('realData must be an object');
+    } else {
+        expect(typeof document.realData.dataSource === 'string', 'realData.dataSource must be a string');
+        expect(typeof document.realData.lastUpdated === 'string', 'realData.lastUpdated must be a string');
+        MISPLACED_COLLECTED_KEYS.forEach(key => {
+            expect(document[key] === undefined, `${key} belongs under realData`);
+            expect(isOptional(document.realData[key], isObject), `realData.${key} must be an object`);
+        });
+    }
+
+    return problems;
+}
+
+/**
+ * Document as it is written: unversioned input from older clients is upgraded first,
+ * then the result must match the current schema.
+ */
+export function prepareAssessmentDocument(metrics: any, context: AssessmentDocumentContext = {}): AssessmentMetricsDocument {
+    if (isObject(metrics) && versionOf(metrics) > ASSESSMENT_DOCUMENT_VERSION) {
+        throw new AssessmentDocumentError(`Assessment document version ${metrics.schemaVersion} is newer than this API supports (${ASSESSMENT_DOCUMENT_VERSION})`);
+    }
+
+    const document = upgradeAssessmentDocument(metrics, context);
+    const problems = validateAssessmentDocument(document);
+    if (problems.length > 0) {
+        throw new AssessmentDocumentError(`Invalid assessment document: ${problems.join('; ')}`, problems);
+    }
+
+    return document;
+}
@@ -0,0 +1,548 @@
+import { InvocationContext } from "@azure/functions";
+import { dataService } from "./utils";
+import { MultiTenantGraphService } from "./multiTenantGraphService";
+import { runCollectors, getRegisteredCollectors, LicenseCollectorResult, SecureScoreCollectorResult, EndpointMetrics, PolicyConfiguration } from "./collectors";
+import { evaluateFindings, summarizeFindings, applyFindingLifecycle, FindingsEvaluation } from "./findings";
+import { calculateScore, getCategoryScores } from "./scoring";
+import { evaluateCisBenchmark } from "./compliance";
+import { analyzeConditionalAccess } from "./conditionalAccess";
+import { analyzeEntitlements } from "./licenseEntitlements";
+import { processAssessmentAlerts } from "./alerts";
+import { Assessment, AssessmentMetricsDocument, AssessmentProgress, AssessmentTenantInfo, Customer } from "./types";
+import { ASSESSMENT_DOCUMENT_VERSION, AssessmentDocumentError } from "./assessmentDocument";
+
+export interface AssessmentJobRequest {
+    customerId: string;
+    tenantId: string;
+    assessmentName?: string;
+    includedCategories?: string[];
+}
+
+export const DEFAULT_ASSESSMENT_CATEGORIES = ['license', 'secureScore', 'identity', 'compliance'];
+
+// In-progress jobs older than this are failed by the stale job sweep
+export const DEFAULT_ASSESSMENT_JOB_TIMEOUT_MINUTES = 30;
+const STALE_JOB_SWEEP_LIMIT = 500;
+
+interface AssessmentJobResult {
+    score: number;
+    metrics: AssessmentMetricsDocument;
+    recommendations: string[];
+    status: string;
+}
+
+/**
+ * Initial progress for a new job: every registered category is either pending or skipped
+ */
+export function createInitialProgress(includedCategories: string[]): AssessmentProgress {
+    const now = new Date().toISOString();
+    const categories: AssessmentProgress['categories'] = {};
+
+    getRegisteredCollectors().forEach(collector => {
+        categories[collector.category] = {
+            status: includedCategories.includes(collector.category) ? 'pending' : 'skipped'
+        };
+    });
+
+    return { categories, startedAt: now, updatedAt: now };
+}
+
+/**
+ * Create the in-progress assessment row a job reports its progress to
+ */
+async function createJobAssessment(request: AssessmentJobRequest): Promise<{
+    assessment: Assessment;
+    progress: AssessmentProgress;
+    includedCategories: string[];
+}> {
+    const includedCategories = request.includedCategories || DEFAULT_ASSESSMENT_CATEGORIES;
+    const progress = createInitialProgress(includedCategories);
+    const now = new Date().toISOString();
+
+    const assessment = await dataService.createAssessment({
+        customerId: request.customerId,
+        tenantId: request.tenantId,
+        status: 'in-progress',
+        score: 0,
+        metrics: {
+            schemaVersion: ASSESSMENT_DOCUMENT_VERSION,
+            assessmentName: request.assessmentName,
+            includedCategories,
+            progress,
+            score: { overall: 0, license: 0, secureScore: 0 },
+            lastUpdated: now,
+            realData: {
+                dataSource: 'Assessment in progress',
+                lastUpdated: now,
+                tenantInfo: { tenantId: request.tenantId }
+            }
+        },
+        recommendations: []
+    });
+
+    return { assessment, progress, includedCategories };
+}
+
+/**
+ * Create an in-progress assessment row and run the collection in the background.
+ * Static Web Apps managed functions only support HTTP triggers, so the job keeps
+ * running in the same worker after the response has been returned and reports
+ * its progress through metrics.progress.
+ *
+ * `beforeStart` runs once the row exists and before any collection, e.g. to write the
+ * audit entry. When it throws, the assessment is failed with its error and the error rethrown.
+ */
+export async function startAssessmentJob(
+    request: AssessmentJobRequest,
+    customer: Customer,
+    context: InvocationContext,
+    beforeStart?: (assessment: Assessment) => Promise<void>
+): Promise<Assessment> {
+    const { assessment, progress, includedCategories } = await createJobAssessment(request);
+
+    if (beforeStart) {
+        try {
+            await beforeStart(assessment);
+        } catch (error: any) {
+            const message = `Assessment was not started: ${error.message}`;
+            context.log(`❌ Assessment job ${assessment.id} was not started:`, error.message);
+            await dataService.updateAssessment(assessment.id, request.customerId, buildFailedAssessmentData({ ...request, includedCategories }, progress, {
+                displayName: customer.tenantName,
+                tenantId: request.tenantId,
+                domain: customer.tenantDomain
+            }, message));
+            throw error;
+        }
+    }
+
+    context.log(`🚀 Assessment job started: ${assessment.id} for customer ${request.customerId}`);
+
+    runAssessmentJob(assessment.id, { ...request, includedCategories }, customer, progress, context)
+        .catch((error: any) => {
+            context.log(`❌ Assessment job ${assessment.id} crashed:`, error.message);
+        });
+
+    return assessment;
+}
+
+/**
+ * Same pipeline as startAssessmentJob, but resolves once the job has finished.
+ * Used by the assessment scheduler, which records the outcome of every run.
+ */
+export async function executeAssessmentJob(
+    request: AssessmentJobRequest,
+    customer: Customer,
+    context: InvocationContext
+): Promise<Assessment> {
+    const { assessment, progress, includedCategories } = await createJobAssessment(request);
+
+    context.log(`🚀 Assessment job started: ${assessment.id} for customer ${request.customerId}`);
+
+    return runAssessmentJob(assessment.id, { ...request, includedCategories }, customer, progress, context);
+}
+
+/**
+ * Collect every category, persisting per-category progress as collectors finish,
+ * then store the final metrics and mark the assessment completed (or failed).
+ */
+export async function runAssessmentJob(
+    assessmentId: string,
+    request: AssessmentJobRequest,
+    customer: Customer,
+    progress: AssessmentProgress,
+    context: InvocationContext
+): Promise<Assessment> {
+    const includedCategories = request.includedCategories || DEFAULT_ASSESSMENT_CATEGORIES;
+
+    // Progress writes are best effort - a failed write must not abort the assessment
+    const saveProgress = async () => {
+        progress.updatedAt = new Date().toISOString();
+        try {
+            await dataService.updateAssessmentProgress(assessmentId, progress);
+        } catch (error: any) {
+            context.log('⚠️ Failed to save assessment progress:', error.message);
+        }
+    };
+
+    let assessmentData: AssessmentJobResult;
+    let evaluation: FindingsEvaluation | null = null;
+    try {
+        context.log('🔍 Initializing MultiTenantGraphService for customer tenant:', request.tenantId);
+        const graphService = new MultiTenantGraphService(request.tenantId, customer.authMethod);
+
+        context.log('📊 Fetching organization profile...');
+        const orgProfile = await graphService.getOrganization();
+
+        context.log('📊 Collecting data for categories:', includedCategories);
+
+        // Run every registered category collector - each one is isolated from the others' failures
+        const outcomes = await runCollectors(graphService, includedCategories, context, {
+            onCollectorStart: async (category) => {
+                progress.categories[category] = { status: 'running', startedAt: new Date().toISOString() };
+                await saveProgress();
+            },
+            onCollectorComplete: async (outcome) => {
+                if (outcome.status === 'skipped') {
+                    return;
+                }
+                progress.categories[outcome.category] = {
+                    ...progress.categories[outcome.category],
+                    status: outcome.status,
+                    completedAt: new Date().toISOString(),
+                    ...(outcome.error ? { error: outcome.error } : {})
+                };
+                await saveProgress();
+            }
+        });
+
+        const collectedData: Record<string, any> = {};
+        outcomes.forEach(outcome => {
+            if (outcome.result !== null) {
+                collectedData[outcome.resultKey] = outcome.result;
+            }
+        });
+
+        const requestStats = graphService.getRequestStats();
+        context.log('✅ Graph API data collection completed successfully');
+        context.log(`📡 Graph requests: ${requestStats.requests} (${requestStats.batchedRequests} batched, ${requestStats.retries} retried, ${requestStats.throttled} throttled), ` +
+            `avg ${requestStats.requests ? Math.round(requestStats.totalLatencyMs / requestStats.requests) : 0}ms, max ${requestStats.maxLatencyMs}ms`);
+        context.log('📊 Data summary:', {
+            orgProfile: orgProfile ? 'Retrieved' : 'Not available',
+            ...Object.fromEntries(outcomes.map(outcome => [outcome.category, outcome.status]))
+        });
+
+        const licenseInfo: LicenseCollectorResult = collectedData.licenseInfo;
+        const secureScoreData: SecureScoreCollectorResult = collectedData.secureScore;
+        const endpointMetrics: EndpointMetrics | undefined = collectedData.endpointMetrics;
+
+        const licenseUtilization = licenseInfo.totalLicenses > 0 ?
+            Math.round((licenseInfo.assignedLicenses / licenseInfo.totalLicenses) * 100) : 0;
+        const secureScorePercentage = secureScoreData.percentage || 0;
+        const deviceComplianceScore = endpointMetrics ? endpointMetrics.complianceRate : 100; // default 100 if not requested
+
+        // Weighted score over the categories that were actually collected, using the customer's weight profile if any
+        const scoringProfile = await dataService.getScoringProfile(request.customerId).catch((error: any) => {
+            context.log('⚠️ Failed to load scoring profile, using default weights:', error.message);
+            return null;
+        });
+        const completedCategories = outcomes
+            .filter(outcome => outcome.status === 'completed')
+            .map(outcome => outcome.category);
+        const scoring = calculateScore(getCategoryScores(collectedData, completedCategories), scoringProfile);
+        const overallScore = scoring.overall;
+        context.log(`📐 Scoring model ${scoring.modelVersion} (${scoring.profile} weights):`, scoring.appliedWeights);
+
+        // Per-policy detail and coverage gaps, only when the policies could be read
+        const policyConfiguration: PolicyConfiguration | undefined = collectedData.policyConfiguration;
+        const conditionalAccess = policyConfiguration && !policyConfiguration.skipped && !policyConfiguration.error
+            ? analyzeConditionalAccess(policyConfiguration.conditionalAccessPolicies)
+            : undefined;
+        if (conditionalAccess) {
+            context.log(`🔐 Conditional Access: ${conditionalAccess.enabledPolicies}/${conditionalAccess.totalPolicies} policies enabled, ${conditionalAccess.gaps.length} coverage gaps`);
+        }
+
+        // Run the findings rules against the collected data; the Conditional Access rules read the analysis above
+        evaluation = evaluateFindings({ ...collectedData, ...(conditionalAccess ? { conditionalAccess } : {}) });
+        context.log(`🔎 Findings engine produced ${evaluation.findings.length} findings`, summarizeFindings(evaluation.findings).bySeverity);
+
+        // Map the policy configuration and Secure Score control states to CIS benchmark controls
+        const compliance = evaluateCisBenchmark(collectedData);
+        context.log(`📋 CIS benchmark: ${compliance.percentage ?? 'n/a'}% (${compliance.passed} pass, ${compliance.failed} fail, ${compliance.manual} manual)`);
+
+        // Security features included in the subscribed SKUs, cross-checked against the other categories
+        const licenseEntitlements = licenseInfo.servicePlans?.length ? analyzeEntitlements(collectedData) : undefined;
+        if (licenseEntitlements) {
+            context.log(`🎟️ License entitlements: ${licenseEntitlements.features.length} security features, ${licenseEntitlements.unusedFeatures} entitled but not configured`);
+        }
+
+        progress.completedAt = new Date().toISOString();
+        progress.updatedAt = progress.completedAt;
+
+        // Create comprehensive assessment data with REAL metrics from Graph API
+        assessmentData = {
+            score: overallScore,
+            metrics: {
+                schemaVersion: ASSESSMENT_DOCUMENT_VERSION,
+                assessmentName: request.assessmentName,
+                includedCategories,
+                progress,
+                // Create structured metrics matching the expected format
+                license: {
+                    totalLicenses: licenseInfo.totalLicenses,
+                    assignedLicenses: licenseInfo.assignedLicenses,
+                    utilizationRate: licenseUtilization,
+                    licenseDetails: licenseInfo.licenseDetails,
+                    summary: licenseInfo.summary
+                },
+                secureScore: secureScoreData,
+                score: {
+                    overall: overallScore,
+                    license: Math.min(licenseUtilization, 100),
+                    secureScore: secureScorePercentage
+                },
+                scoring,
+                compliance,
+                ...(conditionalAccess ? { conditionalAccess } : {}),
+                ...(licenseEntitlements ? { licenseEntitlements } : {}),
+                lastUpdated: new Date().toISOString(),
+                findings: summarizeFindings(evaluation.findings),
+                // Per-category collection status, including the Graph permissions each collector needs
+                collection: Object.fromEntries(outcomes.map(outcome => [outcome.category, {
+                    status: outcome.status,
+                    permissions: outcome.permissions,
+                    durationMs: outcome.durationMs,
+                    graphRequests: outcome.graphRequests,
+                    ...(outcome.error ? { error: outcome.error } : {})
+                }])),
+                realData: {
+                    // Structure data the way Reports.tsx expects it
+                    dataSource: 'Microsoft Graph API via ServerGraphService',
+                    tenantInfo: {
+                        domain: orgProfile?.verifiedDomains?.find((d: any) => d.isDefault)?.name || customer.tenantDomain || 'unknown.onmicrosoft.com',
+                        tenantId: request.tenantId,
+                        displayName: orgProfile?.displayName || customer.tenantName || 'Unknown Organization'
+                    },
+                    lastUpdated: new Date().toISOString(),
+                    assessmentScope: "Security Metrics (Identity, Device Compliance, Secure Score) + License Analysis",
+                    // licenseInfo, secureScore, identityMetrics, endpointMetrics, ... keyed by collector
+                    ...collectedData,
+                    securityMetrics: {
+                        alertsCount: 0,
+                        secureScore: secureScorePercentage,
+                        identityScore: 0,
+                        dataProtectionScore: 0,
+                        recommendationsCount: evaluation.recommendations.length,
+                        deviceComplianceScore: deviceComplianceScore
+                    },
+                    authenticationMethod: "Azure Multi-Tenant App (Customer Tenant Access)"
+                }
+            },
+            // Recommendations follow the findings, most severe first
+            recommendations: [
+                ...evaluation.recommendations.map(recommendation => recommendation.title),
+                'Regular security assessments recommended'
+            ],
+            status: 'completed'
+        };
+
+        context.log('🎯 Real assessment data created successfully');
+
+    } catch (graphError: any) {
+        context.log('⚠️ Microsoft Graph API assessment failed:', graphError.message);
+
+        // Keep the error information on the assessment so the reports can explain what went wrong
+        assessmentData = buildFailedAssessmentData(request, progress, {
+            displayName: customer.tenantName,
+            tenantId: request.tenantId,
+            domain: customer.tenantDomain
+        }, graphError.message);
+    }
+
+    // A failed final write must not leave the row in progress
+    let assessment: Assessment;
+    try {
+        assessment = await dataService.updateAssessment(assessmentId, request.customerId, assessmentData);
+    } catch (writeError: any) {
+        // A result the document validation rejects is a bug in a collector or analyzer; the
+        // problems are kept on the failed assessment so they can be traced without the logs
+        const message = writeError instanceof AssessmentDocumentError && writeError.problems.length > 0
+            ? `Assessment result failed validation: ${writeError.problems.join('; ')}`
+            : `Failed to store assessment result: ${writeError.message}`;
+        context.log(`❌ Failed to store the result of assessment job ${assessmentId}:`, message);
+        assessment = await dataService.updateAssessment(assessmentId, request.customerId, buildFailedAssessmentData(request, progress, {
+            displayName: customer.tenantName,
+            tenantId: request.tenantId,
+            domain: customer.tenantDomain
+        }, message));
+    }
+    context.log(`✅ Assessment job ${assessmentId} finished with status ${assessment.status}`);
+
+    if (assessment.status === 'completed') {
+        try {
+            await storeFindingsWithLifecycle(assessment, evaluation, context);
+        } catch (findingsError: any) {
+            context.log('⚠️ Failed to store findings:', findingsError.message);
+        }
+
+        // Record the completed run for historical comparisons
+        try {
+            await dataService.storeAssessmentHistory({
+                assessmentId: assessment.id,
+                tenantId: assessment.tenantId,
+                customerId: assessment.customerId,
+                date: new Date(assessment.date),
+                overallScore: assessment.score,
+                // Every scored category, so trends cover identity and endpoint as well
+                categoryScores: assessmentData.metrics.scoring?.categoryScores || {
+                    license: assessmentData.metrics.score.license,
+                    secureScore: assessmentData.metrics.score.secureScore
+                }
+            });
+        } catch (historyError: any) {
+            context.log('⚠️ Failed to store assessment history:', historyError.message);
+        }
+
+        // Alerts must never fail the assessment itself
+        try {
+            await processAssessmentAlerts(assessment, customer.tenantName, context);
+        } catch (alertError: any) {
+            context.log('⚠️ Failed to process alert rules:', alertError.message);
+        }
+    }
+
+    return assessment;
+}
+
+/**
+ * Failed assessment document: categories that never finished are failed along with the
+ * job, and the error is kept so the reports can explain what went wrong
+ */
+function buildFailedAssessmentData(
+    request: AssessmentJobRequest,
+    progress: AssessmentProgress,
+    tenantInfo: AssessmentTenantInfo,
+    message: string
+): AssessmentJobResult {
+    Object.values(progress.categories).forEach(category => {
+        if (category.status === 'pending' || category.status === 'running') {
+            category.status = 'failed';
+            category.error = message;
+        }
+    });
+    progress.error = message;
+    progress.completedAt = new Date().toISOString();
+    progress.updatedAt = progress.completedAt;
+
+    return {
+        score: 0,
+        metrics: {
+            schemaVersion: ASSESSMENT_DOCUMENT_VERSION,
+            assessmentName: request.assessmentName,
+            includedCategories: request.includedCategories || DEFAULT_ASSESSMENT_CATEGORIES,
+            progress,
+            error: message,
+            license: {
+                totalLicenses: 0,
+                assignedLicenses: 0,
+                utilizationRate: 0,
+                licenseDetails: [],
+                summary: 'License data unavailable - authentication required'
+            },
+            secureScore: {
+                percentage: 0,
+                currentScore: 0,
+                maxScore: 100,
+                controlScores: [],
+                summary: 'Secure score unavailable - authentication or permissions required'
+            },
+            score: {
+                overall: 0,
+                license: 0,
+                secureScore: 0
+            },
+            lastUpdated: new Date().toISOString(),
+            realData: {
+                error: message,
+                dataSource: 'Assessment failed - Microsoft Graph API unavailable',
+                lastUpdated: new Date().toISOString(),
+                authenticationRequired: true,
+                tenantInfo,
+                troubleshooting: 'Check Azure AD permissions and Managed Identity configuration'
+            }
+        },
+        recommendations: [
+            'Configure Azure AD permissions for Microsoft Graph API access',
+            'Verify Managed Identity is properly configured',
+            'Ensure required Graph API permissions are granted',
+            'Contact administrator to complete security assessment setup'
+        ],
+        status: 'failed'
+    };
+}
+
+/**
+ * Minutes after which an in-progress job is considered dead, from ASSESSMENT_JOB_TIMEOUT_MINUTES
+ */
+export function getAssessmentJobTimeoutMs(): number {
+    const minutes = parseInt(process.env.ASSESSMENT_JOB_TIMEOUT_MINUTES || '', 10);
+    return (minutes > 0 ? minutes : DEFAULT_ASSESSMENT_JOB_TIMEOUT_MINUTES) * 60 * 1000;
+}
+
+/**
+ * True when an in-progress assessment started longer ago than the job timeout - the worker
+ * running it was recycled or timed out without writing a result
+ */
+export function isStaleAssessmentJob(assessment: Assessment, now: Date = new Date()): boolean {
+    if (assessment.status !== 'in-progress') {
+        return false;
+    }
+    const startedAt = new Date(assessment.metrics?.progress?.startedAt || assessment.date).getTime();
+    return now.getTime() - startedAt > getAssessmentJobTimeoutMs();
+}
+
+/**
+ * Mark a stale in-progress assessment failed so pollers and reports see the run ended
+ */
+export async function failStaleAssessmentJob(assessment: Assessment, context: InvocationContext): Promise<Assessment> {
+    const minutes = Math.round(getAssessmentJobTimeoutMs() / 60000);
+    const progress: AssessmentProgress = assessment.metrics?.progress || createInitialProgress(assessment.metrics?.includedCategories || []);
+    const tenantInfo = assessment.metrics?.realData?.tenantInfo || { tenantId: assessment.tenantId };
+
+    context.log(`⌛ Assessment job ${assessment.id} did not finish within ${minutes} minutes, marking it failed`);
+    return dataService.updateAssessment(assessment.id, assessment.customerId, buildFailedAssessmentData({
+        customerId: assessment.customerId,
+        tenantId: assessment.tenantId,
+        assessmentName: assessment.metrics?.assessmentName,
+        includedCategories: assessment.metrics?.includedCategories
+    }, progress, { ...tenantInfo, tenantId: tenantInfo.tenantId || assessment.tenantId }, `Assessment job did not finish within ${minutes} minutes`));
+}
+
+/**
+ * Fail every in-progress assessment older than the job timeout. Returns how many were failed.
+ */
+export async function failStaleAssessmentJobs(context: InvocationContext, now: Date = new Date()): Promise<number> {
+    const { assessments } = await dataService.getAssessments({ status: 'in-progress', limit: STALE_JOB_SWEEP_LIMIT });
+    let failed = 0;
+
+    for (const assessment of assessments.filter(a => isStaleAssessmentJob(a, now))) {
+        try {
+            await failStaleAssessmentJob(assessment, context);
+            failed++;
+        } catch (error: any) {
+            context.log(`⚠️ Failed to mark stale assessment ${assessment.id} failed:`, error.message);
+        }
+    }
+    return failed;
+}
+
+/**
+ * Classify the new findings against the latest record of each finding in the customer's
+ * earlier assessments and store them, including `resolved` entries for findings that disappeared.
+ */
+async function storeFindingsWithLifecycle(
+    assessment: Assessment,
+    evaluation: FindingsEvaluation,
+    context: InvocationContext
+): Promise<void> {
+    const [latest, firstSeen, exceptions] = await Promise.all([
+        dataService.getLatestFindings(assessment.customerId, assessment.id, new Date(assessment.date)),
+        dataService.getFindingFirstSeen(assessment.customerId),
+        dataService.getActiveFindingExceptions(assessment.customerId)
+    ]);
+
+    const findings = applyFindingLifecycle({
+        current: evaluation.findings,
+        latest,
+        firstSeen,
+        evaluatedRules: evaluation.evaluatedRules,
+        exceptions
+    });
+
+    await dataService.storeFindings(assessment, findings);
+
+    const lifecycleCounts = findings.reduce((counts: Record<string, number>, finding) => {
+        counts[finding.lifecycle] = (counts[finding.lifecycle] || 0) + 1;
+        return counts;
+    }, {});
+    context.log(`🔁 Finding lifecycle against ${latest.length} earlier findings:`, lifecycleCounts);
+}
@@ -0,0 +1,120 @@
+import {
+    Assessment,
+    AssessmentHistory,
+    AssessmentHistoryInput,
+    AssessmentProgress,
+    AssessmentSchedule,
+    AssessmentScheduleInput,
+    AlertDelivery,
+    AlertRule,
+    AlertRuleInput,
+    AssignmentScope,
+    AuditLogEntry,
+    AuditLogQuery,
+    Customer,
+    CustomerAssignment,
+    CustomerLicensePrice,
+    FindingException,
+    ScoringProfile,
+    ScoringWeights,
+    SecretRotationRecord,
+    SecurityFinding
+} from './types';
+import { MigrationStatus } from './migrations';
+
+export type AssessmentScheduleUpdate = Partial<Omit<AssessmentSchedule, 'id' | 'customerId' | 'createdBy' | 'createdAt' | 'updatedAt'>>;
+
+export interface FindingExceptionInput {
+    type: FindingException['type'];
+    justification: string;
+    expiresAt: Date;
+    createdBy?: string;
+}
+
+/**
+ * Storage used by every API route and background job. PostgreSQLService is the production
+ * implementation; InMemoryAssessmentRepository backs local runs and tests (DATA_STORE=memory).
+ *
+ * Lookups return null when nothing matches. Updates of a missing customer, assessment,
+ * schedule or alert rule throw.
+ */
+export interface AssessmentRepository {
+    initialize(): Promise<void>;
+
+    // Customers
+    getCustomers(options?: { status?: string; limit?: number; assignedTo?: AssignmentScope }): Promise<{ customers: Customer[]; total: number }>;
+    getCustomer(customerId: string): Promise<Customer | null>;
+    getCustomerByDomain(domain: string): Promise<Customer | null>;
+    getCustomerByTenantId(tenantId: string): Promise<Customer | null>;
+    getCustomerByClientId(clientId: string): Promise<Customer | null>;
+    createCustomer(customerRequest: any, appRegistration: any): Promise<Customer>;
+    updateCustomer(customerId: string, updates: Partial<Customer>): Promise<Customer>;
+    deleteCustomer(customerId: string): Promise<void>;
+
+    // Assessments
+    getAssessments(options?: { customerId?: string; tenantId?: string; status?: string; limit?: number; assignedTo?: AssignmentScope }): Promise<{ assessments: Assessment[]; total: number }>;
+    getCustomerAssessments(customerId: string, options?: { status?: string; limit?: number }): Promise<{ assessments: Assessment[] }>;
+    getAssessmentById(assessmentId: string): Promise<Assessment | null>;
+    getAssessmentCustomerId(assessmentId: string): Promise<string | null>;
+    getPreviousCompletedAssessmentId(customerId: string, excludeAssessmentId: string, before: Date): Promise<string | null>;
+    createAssessment(assessmentData: any): Promise<Assessment>;
+    updateAssessment(assessmentId: string, customerId: string, assessmentData: any): Promise<Assessment>;
+    updateAssessmentProgress(assessmentId: string, progress: AssessmentProgress): Promise<void>;
+
+    // Assessment history
+    getAssessmentHistory(options?: { tenantId?: string; customerId?: string; limit?: number; assignedTo?: AssignmentScope }): Promise<AssessmentHistory[]>;
+    storeAssessmentHistory(historyData: AssessmentHistoryInput): Promise<void>;
+
+    // Findings and exceptions
+    storeFindings(assessment: Pick<Assessment, 'id' | 'customerId' | 'tenantId'>, findings: SecurityFinding[]): Promise<void>;
+    getAssessmentFindings(assessmentId: string): Promise<SecurityFinding[]>;
+    getFindingById(findingId: string): Promise<SecurityFinding | null>;
+    getFindingFirstSeen(customerId: string): Promise<Map<string, Date>>;
+    getLatestFindings(customerId: string, excludeAssessmentId: string, before: Date): Promise<SecurityFinding[]>;
+    getActiveFindingExceptions(customerId: string): Promise<FindingException[]>;
+    createFindingException(finding: SecurityFinding, exception: FindingExceptionInput): Promise<FindingException>;
+    revokeFindingException(finding: SecurityFinding): Promise<void>;
+
+    // Scoring and license pricing
+    getScoringProfile(customerId: string): Promise<ScoringProfile | null>;
+    saveScoringProfile(customerId: string, weights: ScoringWeights, updatedBy?: string): Promise<ScoringProfile>;
+    deleteScoringProfile(customerId: string): Promise<void>;
+    getCustomerLicensePrices(customerId: string): Promise<CustomerLicensePrice[]>;
+    saveCustomerLicensePrice(price: Omit<CustomerLicensePrice, 'updatedAt'>): Promise<CustomerLicensePrice>;
+    deleteCustomerLicensePrice(customerId: string, skuPartNumber: string): Promise<void>;
+
+    // Secret rotation
+    recordSecretRotation(record: Omit<SecretRotationRecord, 'id' | 'createdAt'>): Promise<SecretRotationRecord>;
+    getSecretRotations(options?: { customerId?: string; limit?: number }): Promise<SecretRotationRecord[]>;
+
+    // Assessment schedules
+    getAssessmentSchedules(customerId: string): Promise<AssessmentSchedule[]>;
+    getAssessmentSchedule(scheduleId: string): Promise<AssessmentSchedule | null>;
+    getDueAssessmentSchedules(now: Date, limit?: number): Promise<AssessmentSchedule[]>;
+    getNextScheduledRuns(): Promise<Record<string, string>>;
+    createAssessmentSchedule(customerId: string, input: AssessmentScheduleInput, nextRunAt: string, createdBy?: string): Promise<AssessmentSchedule>;
+    updateAssessmentSchedule(scheduleId: string, updates: AssessmentScheduleUpdate): Promise<AssessmentSchedule>;
+    deleteAssessmentSchedule(scheduleId: string): Promise<void>;
+
+    // Alerts
+    getAlertRules(customerId: string, options?: { enabledOnly?: boolean }): Promise<AlertRule[]>;
+    getAlertRule(ruleId: string): Promise<AlertRule | null>;
+    createAlertRule(customerId: string, input: AlertRuleInput, createdBy?: string): Promise<AlertRule>;
+    updateAlertRule(ruleId: string, input: AlertRuleInput): Promise<AlertRule>;
+    deleteAlertRule(ruleId: string): Promise<void>;
+    recordAlertDelivery(delivery: Omit<AlertDelivery, 'id' | 'createdAt'>): Promise<AlertDelivery>;
+    getAlertDeliveries(customerId: string, limit?: number): Promise<AlertDelivery[]>;
+
+    // Customer assignments
+    getCustomerAssignments(customerId: string): Promise<CustomerAssignment[]>;
+    getAssignedCustomerIds(scope: AssignmentScope): Promise<string[]>;
+    assignCustomer(customerId: string, userId: string, userPrincipalName?: string, assignedBy?: string): Promise<CustomerAssignment>;
+    unassignCustomer(customerId: string, userId: string): Promise<boolean>;
+
+    // Audit log
+    recordAuditEvent(entry: Omit<AuditLogEntry, 'id' | 'occurredAt'>): Promise<AuditLogEntry>;
+    getAuditLog(query?: AuditLogQuery): Promise<{ entries: AuditLogEntry[]; total: number }>;
+
+    // Schema
+    getMigrationStatus(): Promise<MigrationStatus[]>;
+}
@@ -0,0 +1,321 @@
+import { InvocationContext } from "@azure/functions";
+import { dataService } from "./utils";
+import { executeAssessmentJob } from "./assessmentJob";
+import { getRegisteredCollectors } from "./collectors";
+import { AssessmentSchedule, AssessmentScheduleFrequency, AssessmentScheduleInput, ScheduleRetryPolicy } from "./types";
+
+export const SCHEDULE_FREQUENCIES: AssessmentScheduleFrequency[] = ['weekly', 'monthly', 'cron'];
+
+// Storage queue between the scheduler timer and the function that runs the assessments
+export const SCHEDULED_ASSESSMENT_QUEUE = 'scheduled-assessments';
+
+export const DEFAULT_RETRY_POLICY: ScheduleRetryPolicy = {
+    maxRetries: 2,
+    retryDelayMinutes: 60
+};
+
+const MAX_RETRIES = 5;
+const MINUTE_MS = 60 * 1000;
+// Cron expressions are searched four years ahead so that February 29 still matches
+const CRON_SEARCH_DAYS = 4 * 366;
+
+interface CronFields {
+    minutes: number[];
+    hours: number[];
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    dayOfMonthRestricted: boolean;
+    dayOfWeekRestricted: boolean;
+}
+
+function parseCronField(field: string, min: number, max: number, name: string): number[] {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const [range, stepText] = part.split('/');
+        const step = stepText === undefined ? 1 : Number(stepText);
+        if (!Number.isInteger(step) || step < 1) {
+            throw new Error(`Invalid step in cron ${name} field: ${part}`);
+        }
+
+        let start: number;
+        let end: number;
+        if (range === '*') {
+            start = min;
+            end = max;
+        } else if (range.includes('-')) {
+            [start, end] = range.split('-').map(Number);
+        } else {
+            start = Number(range);
+            // "5/15" means every 15 starting at 5
+            end = stepText === undefined ? start : max;
+        }
+
+        if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+            throw new Error(`Invalid value in cron ${name} field: ${part} (allowed ${min}-${max})`);
+        }
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return Array.from(values).sort((a, b) => a - b);
+}
+
+/**
+ * Parse a five-field cron expression: minute hour day-of-month month day-of-week (0 or 7 = Sunday)
+ */
+export function parseCronExpression(expression: string): CronFields {
+    const fields = (expression || '').trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error('Cron expression must have five fields: minute hour day-of-month month day-of-week');
+    }
+
+    const daysOfWeek = parseCronField(fields[4], 0, 7, 'day-of-week').map(day => day % 7);
+    return {
+        minutes: parseCronField(fields[0], 0, 59, 'minute'),
+        hours: parseCronField(fields[1], 0, 23, 'hour'),
+        daysOfMonth: new Set(parseCronField(fields[2], 1, 31, 'day-of-month')),
+        months: new Set(parseCronField(fields[3], 1, 12, 'month')),
+        daysOfWeek: new Set(daysOfWeek),
+        dayOfMonthRestricted: fields[2] !== '*',
+        dayOfWeekRestricted: fields[4] !== '*'
+    };
+}
+
+function cronMatchesDay(cron: CronFields, day: Date): boolean {
+    if (!cron.months.has(day.getUTCMonth() + 1)) {
+        return false;
+    }
+    const dayOfMonth = cron.daysOfMonth.has(day.getUTCDate());
+    const dayOfWeek = cron.daysOfWeek.has(day.getUTCDay());
+
+    // Standard cron: when both day fields are restricted, either one matching is enough
+    if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+        return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+}
+
+function nextCronRun(expression: string, after: Date): Date {
+    const cron = parseCronExpression(expression);
+    const earliest = after.getTime() + MINUTE_MS;
+    const day = new Date(Date.UTC(after.getUTCFullYear(), after.getUTCMonth(), after.getUTCDate()));
+
+    for (let i = 0; i <= CRON_SEARCH_DAYS; i++) {
+        if (cronMatchesDay(cron, day)) {
+            for (const hour of cron.hours) {
+                for (const minute of cron.minutes) {
+                    const candidate = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), hour, minute);
+                    if (candidate >= earliest) {
+                        return new Date(candidate);
+                    }
+                }
+            }
+        }
+        day.setUTCDate(day.getUTCDate() + 1);
+    }
+
+    throw new Error(`Cron expression "${expression}" does not match any time within four years`);
+}
+
+/**
+ * First run of a schedule strictly after `after`
+ */
+export function computeNextRun(schedule: AssessmentScheduleInput, after: Date = new Date()): Date {
+    if (schedule.frequency === 'cron') {
+        return nextCronRun(schedule.cronExpression!, after);
+    }
+
+    if (schedule.frequency === 'weekly') {
+        const candidate = new Date(Date.UTC(after.getUTCFullYear(), after.getUTCMonth(), after.getUTCDate(), schedule.hour, schedule.minute));
+        candidate.setUTCDate(candidate.getUTCDate() + ((schedule.dayOfWeek! - candidate.getUTCDay() + 7) % 7));
+        if (candidate <= after) {
+            candidate.setUTCDate(candidate.getUTCDate() + 7);
+        }
+        return candidate;
+    }
+
+    // Monthly - days are limited to 1-28 so every month has them
+    const candidate = new Date(Date.UTC(after.getUTCFullYear(), after.getUTCMonth(), schedule.dayOfMonth!, schedule.hour, schedule.minute));
+    if (candidate <= after) {
+        candidate.setUTCMonth(candidate.getUTCMonth() + 1);
+    }
+    return candidate;
+}
+
+/**
+ * Validate and normalize a schedule from a request body. Fields that do not apply to the
+ * frequency are cleared, missing categories and retry policy fall back to the defaults.
+ */
+export function normalizeScheduleInput(body: any, defaultCategories: string[]): { input?: AssessmentScheduleInput; errors: string[] } {
+    const errors: string[] = [];
+    const frequency = body?.frequency as AssessmentScheduleFrequency;
+
+    if (!SCHEDULE_FREQUENCIES.includes(frequency)) {
+        errors.push(`frequency must be one of: ${SCHEDULE_FREQUENCIES.join(', ')}`);
+        return { errors };
+    }
+
+    const isInteger = (value: any, min: number, max: number) => Number.isInteger(value) && value >= min && value <= max;
+    const hour = body.hour ?? 0;
+    const minute = body.minute ?? 0;
+
+    if (frequency !== 'cron') {
+        if (!isInteger(hour, 0, 23)) errors.push('hour must be an integer between 0 and 23');
+        if (!isInteger(minute, 0, 59)) errors.push('minute must be an integer between 0 and 59');
+    }
+    if (frequency === 'weekly' && !isInteger(body.dayOfWeek, 0, 6)) {
+        errors.push('dayOfWeek must be an integer between 0 (Sunday) and 6');
+    }
+    if (frequency === 'monthly' && !isInteger(body.dayOfMonth, 1, 28)) {
+        errors.push('dayOfMonth must be an integer between 1 and 28');
+    }
+    if (frequency === 'cron') {
+        try {
+            nextCronRun(body.cronExpression, new Date());
+        } catch (error: any) {
+            errors.push(error.message);
+        }
+    }
+
+    const knownCategories = getRegisteredCollectors().map(collector => collector.category);
+    const includedCategories: string[] = body.includedCategories ?? defaultCategories;
+    if (!Array.isArray(includedCategories) || includedCategories.length === 0) {
+        errors.push('includedCategories must be a non-empty array');
+    } else {
+        const unknown = includedCategories.filter(category => !knownCategories.includes(category));
+        if (unknown.length > 0) {
+            errors.push(`Unknown categories: ${unknown.join(', ')}`);
+        }
+    }
+
+    const retryPolicy: ScheduleRetryPolicy = { ...DEFAULT_RETRY_POLICY, ...(body.retryPolicy || {}) };
+    if (!isInteger(retryPolicy.maxRetries, 0, MAX_RETRIES)) {
+        errors.push(`retryPolicy.maxRetries must be an integer between 0 and ${MAX_RETRIES}`);
+    }
+    if (!isInteger(retryPolicy.retryDelayMinutes, 5, 24 * 60)) {
+        errors.push('retryPolicy.retryDelayMinutes must be an integer between 5 and 1440');
+    }
+
+    if (errors.length > 0) {
+        return { errors };
+    }
+
+    return {
+        errors,
+        input: {
+            frequency,
+            dayOfWeek: frequency === 'weekly' ? body.dayOfWeek : null,
+            dayOfMonth: frequency === 'monthly' ? body.dayOfMonth : null,
+            hour: frequency === 'cron' ? 0 : hour,
+            minute: frequency === 'cron' ? 0 : minute,
+            cronExpression: frequency === 'cron' ? body.cronExpression.trim() : null,
+            includedCategories,
+            retryPolicy: {
+                maxRetries: retryPolicy.maxRetries,
+                retryDelayMinutes: retryPolicy.retryDelayMinutes
+            },
+            enabled: body.enabled !== false
+        }
+    };
+}
+
+export interface ScheduledAssessmentMessage {
+    scheduleId: string;
+    queuedAt: string;
+}
+
+/**
+ * Claim a due schedule for the run queue. The next regular run is stored before the
+ * message is sent, so a run that never finishes is not queued again on every timer tick.
+ */
+export async function queueScheduledAssessment(schedule: AssessmentSchedule): Promise<ScheduledAssessmentMessage> {
+    const queuedAt = new Date();
+
+    await dataService.updateAssessmentSchedule(schedule.id, {
+        nextRunAt: computeNextRun(schedule, queuedAt).toISOString(),
+        lastRunAt: queuedAt.toISOString(),
+        lastRunStatus: 'queued',
+        lastRunError: null
+    });
+
+    return { scheduleId: schedule.id, queuedAt: queuedAt.toISOString() };
+}
+
+/**
+ * Run a queued schedule through the regular assessment pipeline and record the outcome.
+ * Failed runs are retried per the schedule's retry policy. Messages for deleted or disabled
+ * schedules, that a later run has replaced, or that an earlier delivery already started, are
+ * dropped: an assessment can outlast the invocation, and the queue then delivers the message again.
+ */
+export async function runScheduledAssessment(message: ScheduledAssessmentMessage, context: InvocationContext): Promise<AssessmentSchedule | null> {
+    const schedule = await dataService.getAssessmentSchedule(message.scheduleId);
+    const startedAt = new Date(message.queuedAt);
+
+    if (!schedule || !schedule.enabled) {
+        context.log(`ℹ️ Schedule ${message.scheduleId} was deleted or disabled, skipping queued run`);
+        return null;
+    }
+    if (!schedule.lastRunAt || new Date(schedule.lastRunAt).getTime() !== startedAt.getTime()) {
+        context.log(`ℹ️ Schedule ${message.scheduleId} was queued again since ${message.queuedAt}, skipping queued run`);
+        return null;
+    }
+    if (schedule.lastRunStatus !== 'queued') {
+        context.log(`ℹ️ Schedule ${message.scheduleId} run queued at ${message.queuedAt} was already started, skipping redelivered message`);
+        return null;
+    }
+
+    await dataService.updateAssessmentSchedule(schedule.id, { lastRunStatus: 'running' });
+
+    const regularNextRun = computeNextRun(schedule, startedAt);
+
+    let assessmentId: string | undefined;
+    let error: string | undefined;
+    try {
+        const customer = await dataService.getCustomer(schedule.customerId);
+        if (!customer || customer.status !== 'active') {
+            throw new Error('Customer is not active');
+        }
+        if (!customer.tenantId) {
+            throw new Error('Customer has no tenant ID');
+        }
+
+        const assessment = await executeAssessmentJob({
+            customerId: customer.id,
+            tenantId: customer.tenantId,
+            assessmentName: `Scheduled assessment ${startedAt.toISOString().split('T')[0]}`,
+            includedCategories: schedule.includedCategories
+        }, customer, context);
+
+        assessmentId = assessment.id;
+        if (assessment.status !== 'completed') {
+            error = assessment.metrics?.error || `Assessment finished with status ${assessment.status}`;
+        }
+    } catch (runError: any) {
+        error = runError.message;
+    }
+
+    if (!error) {
+        context.log(`✅ Scheduled assessment ${assessmentId} completed for customer ${schedule.customerId}`);
+        return dataService.updateAssessmentSchedule(schedule.id, {
+            retryCount: 0,
+            lastRunStatus: 'succeeded',
+            lastRunError: null,
+            lastAssessmentId: assessmentId
+        });
+    }
+
+    const retryAt = new Date(startedAt.getTime() + schedule.retryPolicy.retryDelayMinutes * MINUTE_MS);
+    const canRetry = schedule.retryCount < schedule.retryPolicy.maxRetries && retryAt < regularNextRun;
+    context.log(`⚠️ Scheduled assessment failed for customer ${schedule.customerId}${canRetry ? `, retrying at ${retryAt.toISOString()}` : ''}:`, error);
+
+    return dataService.updateAssessmentSchedule(schedule.id, {
+        retryCount: canRetry ? schedule.retryCount + 1 : 0,
+        nextRunAt: canRetry ? retryAt.toISOString() : undefined,
+        lastRunStatus: canRetry ? 'retrying' : 'failed',
+        lastRunError: error,
+        lastAssessmentId: assessmentId
+    });
+}
@@ -0,0 +1,82 @@
+import { HttpRequest, InvocationContext } from "@azure/functions";
+import { dataService, initializeDataService } from "./utils";
+import { getAuthenticatedUser } from "./auth";
+import { AuditTargetType } from "./types";
+
+export interface AuditEvent {
+    action: string;
+    targetType: AuditTargetType;
+    targetId?: string;
+    customerId?: string;
+    before?: any;
+    after?: any;
+    /** Who acted when the route is public and there is no signed-in user */
+    actor?: string;
+}
+
+export class AuditWriteError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AuditWriteError';
+    }
+}
+
+const REDACTED_KEY = /secret|password|privatekey|pfx|token/i;
+
+/** Copy of a value with credentials replaced, so the audit log never holds secrets */
+function redact(value: any): any {
+    if (Array.isArray(value)) {
+        return value.map(redact);
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+        return Object.fromEntries(Object.entries(value).map(([key, entry]) => [
+            key,
+            REDACTED_KEY.test(key) && entry ? '[redacted]' : redact(entry)
+        ]));
+    }
+    return value;
+}
+
+/**
+ * Client address as seen by the SWA / Functions front end. Forwarded entries may carry a port.
+ */
+export function getSourceIp(request: HttpRequest): string | undefined {
+    const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0].trim()
+        || request.headers.get('x-azure-clientip')
+        || request.headers.get('x-client-ip');
+    if (!forwarded) {
+        return undefined;
+    }
+    const bracketed = forwarded.match(/^\[([^\]]+)\](?::\d+)?$/);
+    if (bracketed) {
+        return bracketed[1];
+    }
+    // IPv4 with port - bare IPv6 addresses contain several colons and are kept as they are
+    return /^[\d.]+:\d+$/.test(forwarded) ? forwarded.split(':')[0] : forwarded;
+}
+
+/**
+ * Append an operator action to the audit log. Called after the change succeeded; a failed
+ * write is logged and thrown, so the request fails instead of leaving the change unrecorded.
+ */
+export async function recordAudit(request: HttpRequest, context: InvocationContext, event: AuditEvent): Promise<void> {
+    const user = getAuthenticatedUser(context);
+
+    try {
+        await initializeDataService(context);
+        await dataService.recordAuditEvent({
+            actor: user?.name || event.actor || 'anonymous',
+            actorRole: user?.role,
+            action: event.action,
+            targetType: event.targetType,
+            targetId: event.targetId,
+            customerId: event.customerId,
+            before: redact(event.before),
+            after: redact(event.after),
+            sourceIp: getSourceIp(request)
+        });
+    } catch (error: any) {
+        context.error(`❌ Failed to write audit log entry ${event.action} for ${event.targetType} ${event.targetId || ''}:`, error.message);
+        throw new AuditWriteError(`The change was made but could not be written to the audit log: ${error.message}`);
+    }
+}
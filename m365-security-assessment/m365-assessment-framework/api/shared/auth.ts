@@ -0,0 +1,352 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext, PreInvocationContext } from "@azure/functions";
+import { createPublicKey, verify, JsonWebKey as CryptoJsonWebKey } from "crypto";
+import * as https from "https";
+import { AppRole, AuthenticatedUser } from "./types";
+
+/**
+ * What a route needs: `read` for viewing data, `write` for changing customers and running
+ * assessments, `admin` for destructive and maintenance operations. `public` skips authentication.
+ */
+export type RoutePermission = 'public' | 'read' | 'write' | 'admin';
+
+type RoutePolicy = RoutePermission | Partial<Record<string, RoutePermission>>;
+
+const ROLE_RANK: Record<AppRole, number> = {
+    viewer: 1,
+    consultant: 2,
+    admin: 3
+};
+
+const REQUIRED_RANK: Record<Exclude<RoutePermission, 'public'>, number> = {
+    read: ROLE_RANK.viewer,
+    write: ROLE_RANK.consultant,
+    admin: ROLE_RANK.admin
+};
+
+/**
+ * Per-function overrides, keyed by the name passed to app.http. Functions without an entry
+ * need `read` for GET/HEAD and `write` for every other method.
+ */
+const ROUTE_POLICIES: Record<string, RoutePolicy> = {
+    // Microsoft redirects the consenting customer admin here - they have no session with us.
+    // POST generates consent URLs for our own staff.
+    'consent-callback': { GET: 'public', HEAD: 'public', POST: 'write' },
+
+    'customers': { DELETE: 'admin' },
+    'customer-by-id': { DELETE: 'admin' },
+    'customerById': { DELETE: 'admin' },
+    'customer-auth-method': { PUT: 'admin' },
+    'customer-secret-rotate': 'admin',
+    'client-certificate': 'admin',
+    'customer-assignments': 'admin',
+    'audit-log': 'admin',
+    'assessments': { DELETE: 'admin' },
+
+    // Database maintenance and diagnostics
+    'database-schema': 'admin',
+    'database-migrations': 'admin',
+    'diagnostics': 'admin',
+    'simple-test': 'admin',
+    'test-simple': 'admin'
+};
+
+const CLIENT_PRINCIPAL_HEADER = 'x-ms-client-principal';
+const JWKS_CACHE_MS = 6 * 60 * 60 * 1000;
+const JWKS_MIN_REFRESH_MS = 5 * 60 * 1000;
+const CLOCK_SKEW_SECONDS = 300;
+
+const authenticatedUsers = new WeakMap<InvocationContext, AuthenticatedUser>();
+
+export class AuthError extends Error {
+    constructor(message: string, public status: 401 | 403) {
+        super(message);
+        this.name = 'AuthError';
+    }
+}
+
+/**
+ * Permission a request needs, from the route policies and the HTTP method
+ */
+export function getRequiredPermission(functionName: string, method: string): RoutePermission {
+    if (method === 'OPTIONS') {
+        return 'public';
+    }
+
+    const policy = ROUTE_POLICIES[functionName];
+    if (typeof policy === 'string') {
+        return policy;
+    }
+    return policy?.[method] ?? (method === 'GET' || method === 'HEAD' ? 'read' : 'write');
+}
+
+export function hasPermission(user: AuthenticatedUser, permission: RoutePermission): boolean {
+    return permission === 'public' || ROLE_RANK[user.role] >= REQUIRED_RANK[permission];
+}
+
+/**
+ * The user that made an HTTP request, once the authorization hook has accepted it.
+ * Undefined for public routes.
+ */
+export function getAuthenticatedUser(context: InvocationContext): AuthenticatedUser | undefined {
+    return authenticatedUsers.get(context);
+}
+
+function parseUserList(value: string | undefined): string[] {
+    return (value || '').split(/[,;\s]+/).map(entry => entry.trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Highest role from the identity provider roles (SWA role assignments or app roles in the token),
+ * topped up by the AUTH_ADMIN_USERS / AUTH_CONSULTANT_USERS / AUTH_VIEWER_USERS lists.
+ * AUTH_DEFAULT_ROLE applies to signed-in users matched by neither.
+ */
+export function resolveRole(name: string, providerRoles: string[]): AppRole | null {
+    const candidates = new Set<string>(providerRoles.map(role => role.toLowerCase()));
+    const user = name.toLowerCase();
+
+    if (parseUserList(process.env.AUTH_ADMIN_USERS).includes(user)) candidates.add('admin');
+    if (parseUserList(process.env.AUTH_CONSULTANT_USERS).includes(user)) candidates.add('consultant');
+    if (parseUserList(process.env.AUTH_VIEWER_USERS).includes(user)) candidates.add('viewer');
+
+    const roles = (Object.keys(ROLE_RANK) as AppRole[]).filter(role => candidates.has(role));
+    if (roles.length === 0) {
+        const defaultRole = process.env.AUTH_DEFAULT_ROLE as AppRole;
+        return ROLE_RANK[defaultRole] ? defaultRole : null;
+    }
+    return roles.reduce((best, role) => (ROLE_RANK[role] > ROLE_RANK[best] ? role : best));
+}
+
+function decodeBase64Url(value: string): Buffer {
+    return Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+}
+
+/**
+ * The client principal Static Web Apps injects for signed-in users. The header can only be
+ * trusted because SWA strips it from incoming requests and the Function App is not exposed directly.
+ */
+function readClientPrincipal(request: HttpRequest): AuthenticatedUser | null {
+    const header = request.headers.get(CLIENT_PRINCIPAL_HEADER);
+    if (!header) {
+        return null;
+    }
+
+    let principal: any;
+    try {
+        principal = JSON.parse(Buffer.from(header, 'base64').toString('utf8'));
+    } catch {
+        throw new AuthError('Malformed client principal', 401);
+    }
+    if (!principal?.userId || !principal.userDetails) {
+        return null;
+    }
+
+    const role = resolveRole(principal.userDetails, principal.userRoles || []);
+    if (!role) {
+        throw new AuthError(`${principal.userDetails} has no role in this application`, 403);
+    }
+    // Claims are only present when SWA forwards them; the object ID is preferred for assignments
+    const objectId = (principal.claims || []).find((claim: any) =>
+        claim.typ === 'oid' || claim.typ === 'http://schemas.microsoft.com/identity/claims/objectidentifier')?.val;
+    return {
+        id: principal.userId,
+        name: principal.userDetails,
+        role,
+        source: 'static-web-apps',
+        objectId
+    };
+}
+
+interface JwksCache {
+    keys: Map<string, CryptoJsonWebKey>;
+    fetchedAt: number;
+}
+
+let jwksCache: JwksCache | null = null;
+
+function fetchJson(url: string): Promise<any> {
+    return new Promise((resolve, reject) => {
+        const request = https.get(url, { timeout: 10000 }, (response) => {
+            let data = '';
+            response.on('data', (chunk) => {
+                data += chunk;
+            });
+            response.on('end', () => {
+                if (response.statusCode !== 200) {
+                    reject(new Error(`HTTP ${response.statusCode} from ${url}`));
+                    return;
+                }
+                try {
+                    resolve(JSON.parse(data));
+                } catch (error) {
+                    reject(new Error(`Invalid JSON from ${url}`));
+                }
+            });
+        });
+        request.on('error', reject);
+        request.on('timeout', () => {
+            request.destroy();
+            reject(new Error(`Request to ${url} timed out`));
+        });
+    });
+}
+
+async function getSigningKey(tenantId: string, keyId: string): Promise<CryptoJsonWebKey | undefined> {
+    const age = jwksCache ? Date.now() - jwksCache.fetchedAt : Infinity;
+    // Unknown key ids trigger a refresh so that key rollover is picked up, at most every few minutes
+    if (age > JWKS_CACHE_MS || (!jwksCache.keys.has(keyId) && age > JWKS_MIN_REFRESH_MS)) {
+        const jwks = await fetchJson(`https://login.microsoftonline.com/${tenantId}/discovery/v2.0/keys`);
+        jwksCache = {
+            keys: new Map((jwks.keys || []).map((key: any) => [key.kid, key])),
+            fetchedAt: Date.now()
+        };
+    }
+    return jwksCache.keys.get(keyId);
+}
+
+/**
+ * Validate an Entra ID access token issued to this API: RS256 signature against the tenant's
+ * signing keys, issuer, audience and lifetime. Roles come from the token's app roles.
+ */
+async function readBearerToken(request: HttpRequest): Promise<AuthenticatedUser | null> {
+    const authorization = request.headers.get('authorization');
+    if (!authorization?.toLowerCase().startsWith('bearer ')) {
+        return null;
+    }
+
+    const tenantId = process.env.AUTH_TENANT_ID || process.env.AZURE_TENANT_ID;
+    const audiences = [process.env.AUTH_AUDIENCE, process.env.AZURE_CLIENT_ID].filter(Boolean);
+    if (!tenantId || audiences.length === 0) {
+        throw new AuthError('Bearer tokens are not accepted - AUTH_TENANT_ID and AUTH_AUDIENCE are not configured', 401);
+    }
+
+    const token = authorization.slice('bearer '.length).trim();
+    const [encodedHeader, encodedPayload, signature] = token.split('.');
+    let header: any;
+    let claims: any;
+    try {
+        header = JSON.parse(decodeBase64Url(encodedHeader).toString('utf8'));
+        claims = JSON.parse(decodeBase64Url(encodedPayload).toString('utf8'));
+    } catch {
+        throw new AuthError('Malformed bearer token', 401);
+    }
+    if (header.alg !== 'RS256' || !header.kid || !signature) {
+        throw new AuthError('Unsupported bearer token', 401);
+    }
+
+    const jwk = await getSigningKey(tenantId, header.kid);
+    const validSignature = !!jwk && verify(
+        'RSA-SHA256',
+        Buffer.from(`${encodedHeader}.${encodedPayload}`),
+        createPublicKey({ key: jwk, format: 'jwk' }),
+        decodeBase64Url(signature)
+    );
+    if (!validSignature) {
+        throw new AuthError('Invalid bearer token signature', 401);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const validIssuers = [`https://login.microsoftonline.com/${tenantId}/v2.0`, `https://sts.windows.net/${tenantId}/`];
+    if (!validIssuers.includes(claims.iss)) {
+        throw new AuthError('Bearer token was issued by another tenant', 401);
+    }
+    if (!audiences.some(audience => claims.aud === audience || claims.aud === `api://${audience}`)) {
+        throw new AuthError('Bearer token was issued for another audience', 401);
+    }
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now || (claims.nbf && claims.nbf - CLOCK_SKEW_SECONDS > now)) {
+        throw new AuthError('Bearer token has expired', 401);
+    }
+
+    const name = claims.preferred_username || claims.upn || claims.appid || claims.azp || claims.oid;
+    const role = resolveRole(name, claims.roles || []);
+    if (!role) {
+        throw new AuthError(`${name} has no role in this application`, 403);
+    }
+    return {
+        id: claims.oid || claims.sub,
+        name,
+        role,
+        source: 'bearer',
+        objectId: claims.oid
+    };
+}
+
+/**
+ * Identify the caller from the SWA client principal or a bearer token
+ */
+export async function authenticateRequest(request: HttpRequest): Promise<AuthenticatedUser> {
+    // Local development only: `func start` has no SWA in front of it
+    if (process.env.AUTH_DISABLED === 'true' && process.env.AZURE_FUNCTIONS_ENVIRONMENT === 'Development') {
+        return { id: 'local-development', name: 'local-development', role: 'admin', source: 'development' };
+    }
+
+    const user = readClientPrincipal(request) || await readBearerToken(request);
+    if (!user) {
+        throw new AuthError('Authentication required', 401);
+    }
+    return user;
+}
+
+function denied(error: AuthError): HttpResponseInit {
+    return {
+        status: error.status,
+        headers: {
+            ...(process.env.CORS_ALLOWED_ORIGIN ? { 'Access-Control-Allow-Origin': process.env.CORS_ALLOWED_ORIGIN } : {}),
+            'Content-Type': 'application/json',
+            ...(error.status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {})
+        },
+        body: JSON.stringify({
+            success: false,
+            error: error.status === 401 ? 'Unauthorized' : 'Forbidden',
+            message: error.message
+        })
+    };
+}
+
+/**
+ * 401 response for handlers that attribute a change to the caller when there is no
+ * authenticated user - the change must never fall back to a name from the request body
+ */
+export function authenticationRequired(): HttpResponseInit {
+    return denied(new AuthError('Authentication required', 401));
+}
+
+/**
+ * Runs before every function: HTTP invocations are authenticated and checked against the
+ * route policy before the handler runs, other triggers are left alone.
+ */
+async function authorizeInvocation(hookContext: PreInvocationContext): Promise<void> {
+    const context = hookContext.invocationContext;
+    if (context.options.trigger.type !== 'httpTrigger') {
+        return;
+    }
+
+    const request = hookContext.inputs[0] as HttpRequest;
+    const permission = getRequiredPermission(context.functionName, request.method);
+    if (permission === 'public') {
+        return;
+    }
+
+    try {
+        const user = await authenticateRequest(request);
+        if (!hasPermission(user, permission)) {
+            throw new AuthError(`${user.name} (${user.role}) is not allowed to ${request.method} ${context.functionName}`, 403);
+        }
+        // Loaded on demand - customerAccess depends on the data service, which loads this module
+        const { isRequestInAssignmentScope } = await import("./customerAccess");
+        const inScope = await isRequestInAssignmentScope(user, context.functionName, request, context).catch((scopeError: any) => {
+            context.log('❌ Failed to check customer assignments:', scopeError.message);
+            // Fail closed when assignments cannot be read
+            throw new AuthError('Customer access could not be verified', 403);
+        });
+        if (!inScope) {
+            throw new AuthError(`${user.name} is not assigned to this customer`, 403);
+        }
+        authenticatedUsers.set(context, user);
+    } catch (error: any) {
+        const authError = error instanceof AuthError ? error : new AuthError(`Authentication failed: ${error.message}`, 401);
+        context.log(`🔒 ${request.method} ${context.functionName} denied (${authError.status}):`, authError.message);
+        hookContext.functionHandler = async () => denied(authError);
+    }
+}
+
+app.hook.preInvocation(authorizeInvocation);
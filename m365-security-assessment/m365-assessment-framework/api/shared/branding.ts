@@ -0,0 +1,64 @@
+import { CustomerBranding, ReportLanguage } from "./types";
+
+export const SUPPORTED_REPORT_LANGUAGES: ReportLanguage[] = ['en', 'de', 'fr', 'es', 'nl'];
+
+// Logos are stored inline with the customer, keep them small enough for the customer list
+export const MAX_LOGO_BYTES = 256 * 1024;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const LOGO_DATA_URL = /^data:image\/(png|jpeg);base64,([a-z0-9+/=]+)$/i;
+
+/**
+ * Branding fields that fail validation; an empty list means the branding can be saved
+ */
+export function validateBranding(branding: any): string[] {
+    if (!branding || typeof branding !== 'object' || Array.isArray(branding)) {
+        return ['branding must be an object'];
+    }
+
+    const errors: string[] = [];
+    const { companyName, logo, primaryColor, accentColor, disclaimer, language } = branding as CustomerBranding;
+
+    if (companyName !== undefined && (typeof companyName !== 'string' || companyName.length > 200)) {
+        errors.push('companyName must be a string of at most 200 characters');
+    }
+    if (disclaimer !== undefined && (typeof disclaimer !== 'string' || disclaimer.length > 2000)) {
+        errors.push('disclaimer must be a string of at most 2000 characters');
+    }
+    [['primaryColor', primaryColor], ['accentColor', accentColor]].forEach(([field, color]) => {
+        if (color !== undefined && (typeof color !== 'string' || !HEX_COLOR.test(color))) {
+            errors.push(`${field} must be a hex color like #0078d4`);
+        }
+    });
+    if (language !== undefined && !SUPPORTED_REPORT_LANGUAGES.includes(language)) {
+        errors.push(`language must be one of ${SUPPORTED_REPORT_LANGUAGES.join(', ')}`);
+    }
+    if (logo !== undefined) {
+        const match = typeof logo === 'string' ? logo.match(LOGO_DATA_URL) : null;
+        if (!match) {
+            errors.push('logo must be a PNG or JPEG data URL');
+        } else if (Buffer.byteLength(match[2], 'base64') > MAX_LOGO_BYTES) {
+            errors.push(`logo must not be larger than ${MAX_LOGO_BYTES / 1024} KB`);
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Keep only the known branding fields and drop empty values
+ */
+export function normalizeBranding(branding: CustomerBranding): CustomerBranding {
+    const fields: Array<keyof CustomerBranding> = ['companyName', 'logo', 'primaryColor', 'accentColor', 'disclaimer', 'language'];
+    return Object.fromEntries(fields
+        .map(field => [field, typeof branding[field] === 'string' ? (branding[field] as string).trim() : undefined])
+        .filter(([, value]) => value)) as CustomerBranding;
+}
+
+/**
+ * Raw image bytes of a logo data URL
+ */
+export function decodeLogo(logo: string): { format: 'png' | 'jpeg'; data: Buffer } | null {
+    const match = logo.match(LOGO_DATA_URL);
+    return match ? { format: match[1].toLowerCase() as 'png' | 'jpeg', data: Buffer.from(match[2], 'base64') } : null;
+}
@@ -0,0 +1,66 @@
+import { AssessmentCollector } from "./types";
+
+export interface EndpointMetrics {
+    totalDevices: number;
+    compliantDevices: number;
+    nonCompliantDevices: number;
+    complianceRate: number;
+    platformBreakdown: Record<string, number>;
+    sample: Array<{ id: string; name: string; os: string; compliance: string; lastSync: string }>;
+    devices?: Array<{ id: string; name: string; compliance: string }>;
+    error?: string;
+}
+
+/**
+ * Intune managed device compliance
+ */
+export const endpointCollector: AssessmentCollector<EndpointMetrics> = {
+    category: 'endpoint',
+    displayName: 'managed devices for endpoint metrics',
+    permissions: ['DeviceManagementManagedDevices.Read.All'],
+    resultKey: 'endpointMetrics',
+
+    async collect(graphService, context) {
+        const devices = await graphService.getManagedDevices();
+        const totalDevices = Array.isArray(devices) ? devices.length : 0;
+        const compliantDevices = totalDevices > 0 ? devices.filter((d: any) => (d.complianceState || '').toLowerCase() === 'compliant').length : 0;
+        const nonCompliantDevices = Math.max(0, totalDevices - compliantDevices);
+        const complianceRate = totalDevices > 0 ? Math.round((compliantDevices / totalDevices) * 100) : 0;
+        const platformBreakdown = devices.reduce((acc: Record<string, number>, d: any) => {
+            const os = (d.operatingSystem || 'Unknown').toLowerCase();
+            acc[os] = (acc[os] || 0) + 1;
+            return acc;
+        }, {} as Record<string, number>);
+
+        const endpointMetrics: EndpointMetrics = {
+            totalDevices,
+            compliantDevices,
+            nonCompliantDevices,
+            complianceRate,
+            platformBreakdown,
+            sample: devices.slice(0, 10).map((d: any) => ({ id: d.id, name: d.deviceName, os: d.operatingSystem, compliance: d.complianceState, lastSync: d.lastSyncDateTime })),
+            // Compliance state of every device so compliance flips can be compared between assessments
+            devices: devices.map((d: any) => ({ id: d.id, name: d.deviceName, compliance: d.complianceState }))
+        };
+        // Counts only - the device list holds names of every managed device in the tenant
+        context.log(`✅ Endpoint metrics computed: ${totalDevices} devices, ${compliantDevices} compliant (${complianceRate}%)`, platformBreakdown);
+        return endpointMetrics;
+    },
+
+    fallback(status, reason) {
+        // Endpoint metrics are only stored when the category was requested
+        if (status === 'skipped') {
+            return null;
+        }
+
+        return {
+            totalDevices: 0,
+            compliantDevices: 0,
+            nonCompliantDevices: 0,
+            complianceRate: 0,
+            platformBreakdown: {},
+            sample: [],
+            error: reason
+        };
+    }
+};
@@ -0,0 +1,23 @@
+import { registerCollector } from "./registry";
+import { licenseCollector } from "./licenseCollector";
+import { licenseOptimizationCollector } from "./licenseOptimizationCollector";
+import { secureScoreCollector } from "./secureScoreCollector";
+import { identityCollector } from "./identityCollector";
+import { endpointCollector } from "./endpointCollector";
+import { policyCollector } from "./policyCollector";
+
+// Built-in assessment categories - new categories only need a collector module and a line here
+registerCollector(licenseCollector);
+registerCollector(secureScoreCollector);
+registerCollector(identityCollector);
+registerCollector(endpointCollector);
+registerCollector(policyCollector);
+registerCollector(licenseOptimizationCollector);
+
+export { registerCollector, getCollector, getRegisteredCollectors, getRequiredPermissions, runCollectors } from "./registry";
+export type { AssessmentCollector, CollectorOutcome, CollectorStatus, CollectorRunHooks } from "./types";
+export type { LicenseCollectorResult } from "./licenseCollector";
+export type { SecureScoreCollectorResult } from "./secureScoreCollector";
+export type { IdentityMetrics } from "./identityCollector";
+export type { EndpointMetrics } from "./endpointCollector";
+export type { PolicyConfiguration } from "./policyCollector";
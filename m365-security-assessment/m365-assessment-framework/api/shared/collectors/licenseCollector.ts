@@ -0,0 +1,76 @@
+import { AssessmentCollector } from "./types";
+import { SkuServicePlans } from "../types";
+
+export interface LicenseCollectorResult {
+    summary: string;
+    licenses: any[];
+    utilization: number;
+    totalLicenses: number;
+    assignedLicenses: number;
+    licenseDetails: any[];
+    /** Service plans included in each SKU, used to work out the entitled security features */
+    servicePlans?: SkuServicePlans[];
+    error?: string;
+}
+
+/**
+ * License inventory from /subscribedSkus
+ */
+export const licenseCollector: AssessmentCollector<LicenseCollectorResult> = {
+    category: 'license',
+    displayName: 'license details',
+    permissions: ['Organization.Read.All'],
+    resultKey: 'licenseInfo',
+
+    async collect(graphService) {
+        const licenseDetails = await graphService.getLicenseDetails();
+        const licenses = Array.isArray(licenseDetails) ? licenseDetails : [];
+
+        return {
+            summary: `${licenses.length} license types found`,
+            licenses,
+            utilization: 0, // Will be calculated from license data
+            totalLicenses: licenses.reduce((sum: number, license: any) => {
+                // Handle Microsoft Graph API license structure
+                const totalUnits = license.totalUnits ||
+                                 license.prepaidUnits?.enabled ||
+                                 license.prepaidUnits?.total ||
+                                 0;
+                return sum + totalUnits;
+            }, 0),
+            assignedLicenses: licenses.reduce((sum: number, license: any) => {
+                // Handle Microsoft Graph API license structure
+                const assignedUnits = license.assignedUnits ||
+                                    license.consumedUnits ||
+                                    license.prepaidUnits?.consumed ||
+                                    0;
+                return sum + assignedUnits;
+            }, 0),
+            licenseDetails: licenses,
+            servicePlans: licenses.map((license: any) => ({
+                skuPartNumber: license.skuPartNumber || license.skuId,
+                servicePlans: (license.servicePlans || []).map((plan: any) => ({
+                    servicePlanId: plan.servicePlanId,
+                    servicePlanName: plan.servicePlanName,
+                    provisioningStatus: plan.provisioningStatus || 'Success',
+                    appliesTo: plan.appliesTo || 'User'
+                }))
+            }))
+        };
+    },
+
+    fallback(status, reason) {
+        return {
+            summary: status === 'skipped'
+                ? "License assessment not requested"
+                : "License data not available due to permissions or API access issue",
+            licenses: [],
+            utilization: 0,
+            totalLicenses: 0,
+            assignedLicenses: 0,
+            licenseDetails: [],
+            servicePlans: [],
+            ...(reason ? { error: reason } : {})
+        };
+    }
+};
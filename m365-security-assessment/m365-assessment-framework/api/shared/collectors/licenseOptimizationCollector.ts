@@ -0,0 +1,48 @@
+import { AssessmentCollector } from "./types";
+import { analyzeLicenseAssignments, DEFAULT_INACTIVE_THRESHOLD_DAYS } from "../licenseOptimization";
+import { LicenseOptimizationAnalysis } from "../types";
+
+/**
+ * Per-user license waste: /subscribedSkus joined with each licensed user's
+ * assignedLicenses and signInActivity
+ */
+export const licenseOptimizationCollector: AssessmentCollector<LicenseOptimizationAnalysis> = {
+    category: 'licenseOptimization',
+    displayName: 'per-user license assignments and sign-in activity',
+    permissions: ['Organization.Read.All', 'User.Read.All', 'AuditLog.Read.All'],
+    resultKey: 'licenseOptimization',
+
+    async collect(graphService, context) {
+        const skus = await graphService.getLicenseDetails();
+
+        // Without sign-in activity only disabled accounts and overlapping SKUs can be detected
+        let signInActivityAvailable = true;
+        const users = await graphService.getLicensedUsers(true).catch(error => {
+            context.log('⚠️ Sign-in activity not available, analyzing assignments only:', error.message);
+            signInActivityAvailable = false;
+            return graphService.getLicensedUsers(false);
+        });
+
+        const analysis = analyzeLicenseAssignments({ skus, users, signInActivityAvailable });
+        context.log(`✅ License optimization: ${analysis.candidates.length} of ${analysis.licensedUsers} licensed users have reclaimable licenses`, analysis.byReason);
+        return analysis;
+    },
+
+    fallback(status, reason) {
+        // Only stored when the category was requested
+        if (status === 'skipped') {
+            return null;
+        }
+
+        return {
+            licensedUsers: 0,
+            inactiveThresholdDays: DEFAULT_INACTIVE_THRESHOLD_DAYS,
+            signInActivityAvailable: false,
+            candidates: [],
+            reclaimableBySku: {},
+            byReason: { 'disabled': 0, 'never-signed-in': 0, 'inactive': 0, 'overlapping': 0 },
+            analyzedAt: new Date().toISOString(),
+            error: reason
+        };
+    }
+};
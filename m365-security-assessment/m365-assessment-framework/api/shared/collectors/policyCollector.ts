@@ -0,0 +1,45 @@
+import { ConditionalAccessPolicy } from "@microsoft/microsoft-graph-types";
+import { AssessmentCollector } from "./types";
+
+export interface PolicyConfiguration {
+    conditionalAccessPolicies: ConditionalAccessPolicy[];
+    /** Authentication methods policy, one entry per method configuration */
+    authenticationMethods: Array<{ type: string; displayName: string; state: string; includeTargets: string[] }>;
+    skipped?: boolean;
+    error?: string;
+}
+
+/**
+ * Tenant policy configuration evaluated by the compliance benchmarks:
+ * Conditional Access policies and the authentication methods policy
+ */
+export const policyCollector: AssessmentCollector<PolicyConfiguration> = {
+    category: 'compliance',
+    displayName: 'policy configuration for compliance benchmarks',
+    permissions: ['Policy.Read.All'],
+    resultKey: 'policyConfiguration',
+
+    async collect(graphService, context) {
+        const [conditionalAccessPolicies, authenticationMethods] = await Promise.all([
+            graphService.getConditionalAccessPolicies(),
+            graphService.getAuthenticationMethodPolicies()
+        ]);
+
+        context.log(`✅ Policy configuration collected: ${conditionalAccessPolicies.length} conditional access policies, ${authenticationMethods.length} authentication methods`);
+
+        return {
+            conditionalAccessPolicies,
+            authenticationMethods
+        };
+    },
+
+    fallback(status, reason) {
+        return {
+            conditionalAccessPolicies: [],
+            authenticationMethods: [],
+            ...(status === 'skipped'
+                ? { skipped: true }
+                : { error: reason })
+        };
+    }
+};
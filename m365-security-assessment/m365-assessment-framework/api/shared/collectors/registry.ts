@@ -0,0 +1,108 @@
+import { InvocationContext } from "@azure/functions";
+import { MultiTenantGraphService } from "../multiTenantGraphService";
+import { AssessmentCollector, CollectorOutcome, CollectorRunHooks } from "./types";
+
+const collectors = new Map<string, AssessmentCollector>();
+
+/**
+ * Register a collector for an assessment category.
+ * Collectors run in registration order.
+ */
+export function registerCollector(collector: AssessmentCollector): void {
+    if (collectors.has(collector.category)) {
+        throw new Error(`Collector for category '${collector.category}' is already registered`);
+    }
+    collectors.set(collector.category, collector);
+}
+
+export function getCollector(category: string): AssessmentCollector | undefined {
+    return collectors.get(category);
+}
+
+export function getRegisteredCollectors(): AssessmentCollector[] {
+    return Array.from(collectors.values());
+}
+
+/**
+ * Union of the Graph permissions required by the given categories
+ */
+export function getRequiredPermissions(categories: string[]): string[] {
+    const permissions = new Set<string>();
+    categories.forEach(category => {
+        collectors.get(category)?.permissions.forEach(permission => permissions.add(permission));
+    });
+    return Array.from(permissions).sort();
+}
+
+/**
+ * Run every registered collector against the customer tenant.
+ * Categories that were not requested get their `skipped` fallback, and a failing
+ * collector is isolated so the remaining categories are still collected.
+ */
+export async function runCollectors(
+    graphService: MultiTenantGraphService,
+    includedCategories: string[],
+    context: InvocationContext,
+    hooks: CollectorRunHooks = {}
+): Promise<CollectorOutcome[]> {
+    const unknownCategories = includedCategories.filter(category => !collectors.has(category));
+    if (unknownCategories.length > 0) {
+        context.log('⚠️ No collector registered for categories:', unknownCategories);
+    }
+
+    const outcomes: CollectorOutcome[] = [];
+
+    for (const collector of collectors.values()) {
+        const startTime = Date.now();
+        let outcome: CollectorOutcome;
+
+        if (!includedCategories.includes(collector.category)) {
+            context.log(`⏭️ Skipping ${collector.displayName} (not requested)`);
+            outcome = {
+                category: collector.category,
+                resultKey: collector.resultKey,
+                status: 'skipped',
+                result: collector.fallback('skipped'),
+                permissions: collector.permissions,
+                durationMs: 0,
+                graphRequests: 0
+            };
+        } else {
+            await hooks.onCollectorStart?.(collector.category);
+            // Collectors run one at a time, so the difference is this collector's requests
+            const requestsBefore = graphService.getRequestStats().requests;
+
+            try {
+                context.log(`📊 Collecting ${collector.displayName}...`);
+                const result = await collector.collect(graphService, context);
+                outcome = {
+                    category: collector.category,
+                    resultKey: collector.resultKey,
+                    status: 'completed',
+                    result,
+                    permissions: collector.permissions,
+                    durationMs: Date.now() - startTime,
+                    graphRequests: graphService.getRequestStats().requests - requestsBefore
+                };
+                context.log(`✅ ${collector.displayName} collected in ${Date.now() - startTime}ms`);
+            } catch (error: any) {
+                context.log(`⚠️ ${collector.displayName} collection failed:`, error.message);
+                outcome = {
+                    category: collector.category,
+                    resultKey: collector.resultKey,
+                    status: 'failed',
+                    result: collector.fallback('failed', error.message),
+                    permissions: collector.permissions,
+                    durationMs: Date.now() - startTime,
+                    graphRequests: graphService.getRequestStats().requests - requestsBefore,
+                    error: error.message
+                };
+            }
+        }
+
+        outcomes.push(outcome);
+        await hooks.onCollectorComplete?.(outcome);
+    }
+
+    return outcomes;
+}
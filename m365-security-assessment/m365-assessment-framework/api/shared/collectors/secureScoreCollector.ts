@@ -0,0 +1,69 @@
+import { AssessmentCollector } from "./types";
+
+export interface SecureScoreCollectorResult {
+    summary: string;
+    currentScore: number;
+    maxScore: number;
+    percentage: number;
+    lastUpdated: string;
+    controlScores: any[];
+    totalControlsFound: number;
+    unavailable?: boolean;
+    skipped?: boolean;
+    error?: string;
+}
+
+/**
+ * Microsoft Secure Score with control profiles merged into the control scores
+ */
+export const secureScoreCollector: AssessmentCollector<SecureScoreCollectorResult> = {
+    category: 'secureScore',
+    displayName: 'secure score',
+    permissions: ['SecurityEvents.Read.All'],
+    resultKey: 'secureScore',
+
+    async collect(graphService) {
+        const secureScore = await graphService.getSecureScore();
+
+        return {
+            summary: `Microsoft Secure Score: ${secureScore?.currentScore || 0} / ${secureScore?.maxScore || 100}`,
+            maxScore: secureScore?.maxScore || 100,
+            // Calculate percentage properly: if API doesn't provide it, calculate from currentScore/maxScore
+            percentage: secureScore?.percentage ||
+                      (secureScore?.maxScore > 0 ?
+                       Math.round((secureScore?.currentScore || 0) / secureScore.maxScore * 100) : 0),
+            lastUpdated: secureScore?.lastUpdated || new Date().toISOString(),
+            unavailable: false,
+            currentScore: secureScore?.currentScore || 0,
+            controlScores: secureScore?.controlScores || [],
+            totalControlsFound: (secureScore?.controlScores || []).length
+        };
+    },
+
+    fallback(status, reason) {
+        if (status === 'skipped') {
+            return {
+                summary: "Microsoft Secure Score: Assessment not requested",
+                maxScore: 100,
+                percentage: 0,
+                lastUpdated: new Date().toISOString(),
+                skipped: true,
+                currentScore: 0,
+                controlScores: [],
+                totalControlsFound: 0
+            };
+        }
+
+        return {
+            summary: "Microsoft Secure Score: Data unavailable",
+            maxScore: 100,
+            percentage: 0,
+            lastUpdated: new Date().toISOString(),
+            unavailable: true,
+            currentScore: 0,
+            controlScores: [],
+            totalControlsFound: 0,
+            error: reason
+        };
+    }
+};
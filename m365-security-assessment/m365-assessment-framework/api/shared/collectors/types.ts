@@ -0,0 +1,44 @@
+import { InvocationContext } from "@azure/functions";
+import { MultiTenantGraphService } from "../multiTenantGraphService";
+
+export type CollectorStatus = 'completed' | 'failed' | 'skipped';
+
+/**
+ * A single assessment category that knows how to collect its own data
+ * from the customer tenant through Microsoft Graph.
+ */
+export interface AssessmentCollector<TResult = any> {
+    /** Category id as sent by the frontend in `includedCategories` */
+    category: string;
+    displayName: string;
+    /** Microsoft Graph application permissions the collector relies on */
+    permissions: string[];
+    /** Property under `metrics.realData` the result is stored in */
+    resultKey: string;
+    collect(graphService: MultiTenantGraphService, context: InvocationContext): Promise<TResult>;
+    /**
+     * Result stored when the category was not requested or collection failed.
+     * Returning null leaves the category out of the stored metrics.
+     */
+    fallback(status: 'skipped' | 'failed', reason?: string): TResult | null;
+}
+
+export interface CollectorOutcome<TResult = any> {
+    category: string;
+    resultKey: string;
+    status: CollectorStatus;
+    result: TResult | null;
+    permissions: string[];
+    durationMs: number;
+    /** Microsoft Graph requests the collector made, retries included */
+    graphRequests: number;
+    error?: string;
+}
+
+/**
+ * Optional callbacks invoked while collectors run, used to report job progress
+ */
+export interface CollectorRunHooks {
+    onCollectorStart?(category: string): Promise<void> | void;
+    onCollectorComplete?(outcome: CollectorOutcome): Promise<void> | void;
+}
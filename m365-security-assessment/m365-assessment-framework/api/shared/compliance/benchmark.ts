@@ -0,0 +1,60 @@
+import { BenchmarkResult, ComplianceControlEvaluation } from "../types";
+import { Benchmark, BenchmarkInputs } from "./types";
+
+const isUsable = (data: any): boolean => !!data && !data.skipped && !data.unavailable && !data.error;
+
+/**
+ * Benchmark inputs from the collected `metrics.realData`. Categories that were
+ * skipped or failed are passed as null so their controls fall back to manual.
+ */
+export function getBenchmarkInputs(realData: Record<string, any>): BenchmarkInputs {
+    const policyConfiguration = isUsable(realData.policyConfiguration) ? realData.policyConfiguration : null;
+    const secureScore = isUsable(realData.secureScore) ? realData.secureScore : null;
+
+    return {
+        conditionalAccessPolicies: policyConfiguration ? policyConfiguration.conditionalAccessPolicies : null,
+        authenticationMethods: policyConfiguration ? policyConfiguration.authenticationMethods : null,
+        secureScoreControls: secureScore ? secureScore.controlScores || [] : null
+    };
+}
+
+/**
+ * Evaluate every control of a benchmark. The percentage only counts controls
+ * that could be evaluated automatically - manual controls are reported separately.
+ */
+export function evaluateBenchmark(benchmark: Benchmark, realData: Record<string, any>): BenchmarkResult {
+    const inputs = getBenchmarkInputs(realData);
+
+    const controls: ComplianceControlEvaluation[] = benchmark.controls.map(control => {
+        let check;
+        try {
+            check = control.evaluate(inputs);
+        } catch (error: any) {
+            console.warn(`⚠️ Benchmark control ${control.id} failed:`, error.message);
+            check = { result: 'manual' as const, details: `Automatic evaluation failed: ${error.message}` };
+        }
+
+        return {
+            controlId: control.id,
+            title: control.title,
+            section: control.section,
+            level: control.level,
+            ...check
+        };
+    });
+
+    const passed = controls.filter(control => control.result === 'pass').length;
+    const failed = controls.filter(control => control.result === 'fail').length;
+
+    return {
+        benchmarkId: benchmark.id,
+        name: benchmark.name,
+        version: benchmark.version,
+        percentage: passed + failed > 0 ? Math.round((passed / (passed + failed)) * 100) : null,
+        passed,
+        failed,
+        manual: controls.length - passed - failed,
+        controls,
+        evaluatedAt: new Date().toISOString()
+    };
+}
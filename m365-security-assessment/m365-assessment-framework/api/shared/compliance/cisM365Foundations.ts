@@ -0,0 +1,265 @@
+import { ConditionalAccessPolicySummary } from "../types";
+import { GLOBAL_ADMINISTRATOR_ROLE, coversRole, summarizePolicy } from "../conditionalAccess";
+import { Benchmark, BenchmarkControl, BenchmarkInputs, ControlCheck } from "./types";
+
+const WEAK_AUTHENTICATION_METHODS = ['sms', 'voice', 'email'];
+
+const targetsAllUsers = (policy: ConditionalAccessPolicySummary): boolean => policy.users.includesAllUsers;
+const targetsGlobalAdmins = (policy: ConditionalAccessPolicySummary): boolean => coversRole(policy, GLOBAL_ADMINISTRATOR_ROLE);
+const targetsAllApps = (policy: ConditionalAccessPolicySummary): boolean => policy.applications.includesAllApplications;
+
+/**
+ * Control satisfied by at least one enabled Conditional Access policy matching `matches`.
+ * Report-only policies are listed in the details but do not pass the control.
+ */
+function conditionalAccessCheck(requirement: string, matches: (policy: ConditionalAccessPolicySummary) => boolean) {
+    return (inputs: BenchmarkInputs): ControlCheck => {
+        if (!inputs.conditionalAccessPolicies) {
+            return { result: 'manual', details: 'Conditional Access policies were not collected in this assessment' };
+        }
+
+        const matching = inputs.conditionalAccessPolicies.map(summarizePolicy).filter(matches);
+        const enforced = matching.filter(policy => policy.state === 'enabled');
+        const reportOnly = matching.filter(policy => policy.state === 'reportOnly');
+
+        if (enforced.length > 0) {
+            return {
+                result: 'pass',
+                details: `${requirement}: enforced by ${enforced.map(policy => policy.displayName).join(', ')}`,
+                evidence: { policies: enforced.map(policy => policy.displayName) }
+            };
+        }
+
+        return {
+            result: 'fail',
+            details: reportOnly.length > 0
+                ? `${requirement}: only report-only policies found (${reportOnly.map(policy => policy.displayName).join(', ')})`
+                : `${requirement}: no enabled Conditional Access policy found`,
+            evidence: { reportOnlyPolicies: reportOnly.map(policy => policy.displayName) }
+        };
+    };
+}
+
+/**
+ * Control mapped to Microsoft Secure Score controls. Control names differ between
+ * tenants and licences, so any of the listed names can report the state.
+ */
+function secureScoreCheck(controlNames: string[]) {
+    const names = controlNames.map(name => name.toLowerCase());
+
+    return (inputs: BenchmarkInputs): ControlCheck => {
+        if (!inputs.secureScoreControls) {
+            return { result: 'manual', details: 'Secure Score was not collected in this assessment' };
+        }
+
+        const control = inputs.secureScoreControls.find(score => names.includes((score.controlName || '').toLowerCase()));
+        if (!control) {
+            return { result: 'manual', details: `Secure Score does not report ${controlNames[0]} for this tenant - verify manually` };
+        }
+
+        const evidence = {
+            secureScoreControl: control.controlName,
+            currentScore: control.currentScore,
+            maxScore: control.maxScore
+        };
+
+        return control.implementationStatus === 'Implemented'
+            ? { result: 'pass', details: `Secure Score control ${control.controlName} is implemented`, evidence }
+            : { result: 'fail', details: `Secure Score control ${control.controlName} is ${(control.implementationStatus || 'not implemented').toLowerCase()}`, evidence };
+    };
+}
+
+function authenticationMethodsCheck(evaluate: (methods: NonNullable<BenchmarkInputs['authenticationMethods']>) => ControlCheck) {
+    return (inputs: BenchmarkInputs): ControlCheck => {
+        if (!inputs.authenticationMethods) {
+            return { result: 'manual', details: 'The authentication methods policy was not collected in this assessment' };
+        }
+        return evaluate(inputs.authenticationMethods);
+    };
+}
+
+const methodMatches = (method: { type: string; displayName: string }, name: string): boolean =>
+    `${method.type} ${method.displayName}`.toLowerCase().includes(name);
+
+const controls: BenchmarkControl[] = [
+    {
+        id: '1.1.1',
+        section: 'Microsoft 365 admin center',
+        level: 1,
+        title: 'Ensure administrative accounts are cloud-only',
+        evaluate: secureScoreCheck(['aad_admin_accounts_separate_unassigned_cloud_only'])
+    },
+    {
+        id: '1.1.3',
+        section: 'Microsoft 365 admin center',
+        level: 1,
+        title: 'Ensure that between two and four global admins are designated',
+        evaluate: secureScoreCheck(['OneAdmin'])
+    },
+    {
+        id: '1.3.1',
+        section: 'Microsoft 365 admin center',
+        level: 1,
+        title: "Ensure the 'Password expiration policy' is set to never expire",
+        evaluate: secureScoreCheck(['PWAgePolicyNew'])
+    },
+    {
+        id: '1.3.6',
+        section: 'Microsoft 365 admin center',
+        level: 2,
+        title: 'Ensure the customer lockbox feature is enabled',
+        evaluate: secureScoreCheck(['CustomerLockBoxEnabled'])
+    },
+    {
+        id: '2.1.1',
+        section: 'Microsoft 365 Defender',
+        level: 2,
+        title: 'Ensure Safe Links for Office Applications is enabled',
+        evaluate: secureScoreCheck(['mdo_safelinksforOfficeApps', 'mdo_safelinksforemail'])
+    },
+    {
+        id: '2.1.4',
+        section: 'Microsoft 365 Defender',
+        level: 2,
+        title: 'Ensure Safe Attachments policy is enabled',
+        evaluate: secureScoreCheck(['mdo_safeattachments', 'mdo_safeattachmentpolicy'])
+    },
+    {
+        id: '2.1.7',
+        section: 'Microsoft 365 Defender',
+        level: 2,
+        title: 'Ensure that an anti-phishing policy has been created',
+        evaluate: secureScoreCheck(['mdo_antiphishingpolicies', 'mdo_phishthresholdlevel'])
+    },
+    {
+        id: '5.1.2.2',
+        section: 'Microsoft Entra admin center',
+        level: 2,
+        title: 'Ensure third party integrated applications are not allowed',
+        evaluate: secureScoreCheck(['IntegratedApps'])
+    },
+    {
+        id: '5.2.2.1',
+        section: 'Conditional Access',
+        level: 1,
+        title: 'Ensure multifactor authentication is enabled for all users in administrative roles',
+        evaluate: conditionalAccessCheck(
+            'MFA for administrative roles',
+            policy => targetsGlobalAdmins(policy) && targetsAllApps(policy) && policy.requiresMfa
+        )
+    },
+    {
+        id: '5.2.2.2',
+        section: 'Conditional Access',
+        level: 1,
+        title: 'Ensure multifactor authentication is enabled for all users',
+        evaluate: conditionalAccessCheck(
+            'MFA for all users',
+            policy => targetsAllUsers(policy) && targetsAllApps(policy) && policy.requiresMfa
+        )
+    },
+    {
+        id: '5.2.2.3',
+        section: 'Conditional Access',
+        level: 1,
+        title: 'Enable Conditional Access policies to block legacy authentication',
+        evaluate: conditionalAccessCheck(
+            'Legacy authentication block',
+            policy => targetsAllUsers(policy) && policy.blocksLegacyAuthentication
+        )
+    },
+    {
+        id: '5.2.2.4',
+        section: 'Conditional Access',
+        level: 1,
+        title: 'Ensure sign-in frequency is enabled and browser sessions are not persistent for administrative users',
+        evaluate: conditionalAccessCheck(
+            'Admin sign-in frequency',
+            policy => targetsGlobalAdmins(policy) &&
+                policy.sessionControls.includes('signInFrequency') &&
+                policy.persistentBrowserMode === 'never'
+        )
+    },
+    {
+        id: '5.2.2.6',
+        section: 'Conditional Access',
+        level: 1,
+        title: 'Enable Identity Protection user risk policies',
+        evaluate: conditionalAccessCheck(
+            'High user risk policy',
+            policy => targetsAllUsers(policy) && policy.userRiskLevels.includes('high') &&
+                (policy.blocksAccess || policy.grant.controls.includes('passwordChange'))
+        )
+    },
+    {
+        id: '5.2.2.7',
+        section: 'Conditional Access',
+        level: 1,
+        title: 'Enable Identity Protection sign-in risk policies',
+        evaluate: conditionalAccessCheck(
+            'High sign-in risk policy',
+            policy => targetsAllUsers(policy) && policy.signInRiskLevels.includes('high') &&
+                (policy.blocksAccess || policy.requiresMfa)
+        )
+    },
+    {
+        id: '5.2.3.1',
+        section: 'Authentication methods',
+        level: 1,
+        title: 'Ensure Microsoft Authenticator is configured to protect against MFA fatigue',
+        evaluate: authenticationMethodsCheck(methods => {
+            const authenticator = methods.find(method => methodMatches(method, 'authenticator'));
+            if (!authenticator || authenticator.state !== 'Enabled') {
+                return { result: 'fail', details: 'Microsoft Authenticator is not enabled in the authentication methods policy' };
+            }
+            // Number matching is enforced for all Authenticator push notifications, the remaining settings are not exposed
+            return {
+                result: 'manual',
+                details: 'Microsoft Authenticator is enabled - verify that application name and location are shown in push notifications'
+            };
+        })
+    },
+    {
+        id: '5.2.3.5',
+        section: 'Authentication methods',
+        level: 1,
+        title: 'Ensure weak authentication methods are disabled',
+        evaluate: authenticationMethodsCheck(methods => {
+            const enabledWeakMethods = methods.filter(method =>
+                method.state === 'Enabled' && WEAK_AUTHENTICATION_METHODS.some(name => methodMatches(method, name))
+            );
+            return enabledWeakMethods.length === 0
+                ? { result: 'pass', details: 'SMS, voice call and email one-time passcode are disabled' }
+                : {
+                    result: 'fail',
+                    details: `Weak authentication methods enabled: ${enabledWeakMethods.map(method => method.displayName).join(', ')}`,
+                    evidence: { enabledMethods: enabledWeakMethods.map(method => method.displayName) }
+                };
+        })
+    },
+    {
+        id: '5.2.4.1',
+        section: 'Password reset',
+        level: 1,
+        title: "Ensure 'Self service password reset enabled' is set to 'All'",
+        evaluate: secureScoreCheck(['SelfServicePasswordReset'])
+    },
+    {
+        id: '6.1.1',
+        section: 'Exchange admin center',
+        level: 1,
+        title: "Ensure 'AuditDisabled' organizationally is set to 'False'",
+        evaluate: secureScoreCheck(['exo_mailboxaudit', 'mailboxauditingenabled'])
+    }
+];
+
+/**
+ * The subset of CIS Microsoft 365 Foundations recommendations that can be derived
+ * from Conditional Access, the authentication methods policy and Secure Score
+ */
+export const cisM365Foundations: Benchmark = {
+    id: 'cis-m365-foundations',
+    name: 'CIS Microsoft 365 Foundations Benchmark',
+    version: '3.1.0',
+    controls
+};
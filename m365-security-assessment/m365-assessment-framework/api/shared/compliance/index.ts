@@ -0,0 +1,13 @@
+import { evaluateBenchmark } from "./benchmark";
+import { cisM365Foundations } from "./cisM365Foundations";
+
+/**
+ * CIS Microsoft 365 Foundations results for the collected `metrics.realData`
+ */
+export function evaluateCisBenchmark(realData: Record<string, any>) {
+    return evaluateBenchmark(cisM365Foundations, realData);
+}
+
+export { evaluateBenchmark, getBenchmarkInputs } from "./benchmark";
+export { cisM365Foundations } from "./cisM365Foundations";
+export type { Benchmark, BenchmarkControl, BenchmarkInputs, ControlCheck } from "./types";
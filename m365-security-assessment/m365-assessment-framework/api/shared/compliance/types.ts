@@ -0,0 +1,35 @@
+import { ComplianceControlResult } from "../types";
+
+/**
+ * Collected data a benchmark control can look at. A null input was not
+ * collected in this assessment, so controls relying on it need a manual check.
+ */
+export interface BenchmarkInputs {
+    conditionalAccessPolicies: any[] | null;
+    authenticationMethods: Array<{ type: string; displayName: string; state: string }> | null;
+    /** Secure Score control scores, including their implementation status */
+    secureScoreControls: any[] | null;
+}
+
+export interface ControlCheck {
+    result: ComplianceControlResult;
+    details: string;
+    evidence?: Record<string, any>;
+}
+
+export interface BenchmarkControl {
+    /** Recommendation number in the benchmark document, e.g. 5.2.2.1 */
+    id: string;
+    title: string;
+    section: string;
+    /** Benchmark profile level */
+    level: 1 | 2;
+    evaluate(inputs: BenchmarkInputs): ControlCheck;
+}
+
+export interface Benchmark {
+    id: string;
+    name: string;
+    version: string;
+    controls: BenchmarkControl[];
+}
@@ -0,0 +1,91 @@
+import { ConditionalAccessPolicy } from "@microsoft/microsoft-graph-types";
+import { ConditionalAccessAnalysis, ConditionalAccessGap, ConditionalAccessPolicySummary } from "../types";
+import { ADMIN_ROLES, GLOBAL_ADMINISTRATOR_ROLE, coversRole, hasBroadExclusions, summarizePolicy } from "./policy";
+
+const policyNames = (policies: ConditionalAccessPolicySummary[]): string[] =>
+    policies.map(policy => policy.displayName);
+
+/**
+ * Parse every Conditional Access policy and detect common coverage gaps.
+ * Only enabled policies count as coverage - report-only policies are reported as a gap of their own.
+ */
+export function analyzeConditionalAccess(rawPolicies: ConditionalAccessPolicy[]): ConditionalAccessAnalysis {
+    const policies = rawPolicies.map(summarizePolicy);
+    const enabled = policies.filter(policy => policy.state === 'enabled');
+    const reportOnly = policies.filter(policy => policy.state === 'reportOnly');
+
+    const gaps: ConditionalAccessGap[] = [];
+
+    const legacyAuthBlocks = enabled.filter(policy =>
+        policy.blocksLegacyAuthentication && policy.users.includesAllUsers && policy.applications.includesAllApplications
+    );
+    if (legacyAuthBlocks.length === 0) {
+        const partial = enabled.filter(policy => policy.blocksLegacyAuthentication);
+        gaps.push({
+            type: 'no-legacy-auth-block',
+            severity: 'high',
+            title: 'Legacy authentication is not blocked',
+            description: partial.length > 0
+                ? 'Legacy authentication is only blocked for some users or applications. Legacy protocols cannot perform MFA.'
+                : 'No enabled policy blocks legacy authentication clients (Exchange ActiveSync and other clients), which cannot perform MFA.',
+            affected: policyNames(partial)
+        });
+    }
+
+    const mfaPolicies = enabled.filter(policy => policy.requiresMfa && policy.applications.includesAllApplications);
+    const uncoveredAdminRoles = Object.entries(ADMIN_ROLES)
+        .filter(([roleTemplateId]) => !mfaPolicies.some(policy => coversRole(policy, roleTemplateId)))
+        .map(([, roleName]) => roleName);
+    if (uncoveredAdminRoles.length > 0) {
+        gaps.push({
+            type: 'admins-without-mfa',
+            severity: uncoveredAdminRoles.includes(ADMIN_ROLES[GLOBAL_ADMINISTRATOR_ROLE]) ? 'critical' : 'high',
+            title: 'Admin roles not covered by an MFA policy',
+            description: `${uncoveredAdminRoles.length} of ${Object.keys(ADMIN_ROLES).length} admin roles are not targeted by an enabled policy requiring MFA for all cloud apps.`,
+            affected: uncoveredAdminRoles
+        });
+    }
+
+    const broadExclusions = enabled.filter(hasBroadExclusions);
+    if (broadExclusions.length > 0) {
+        gaps.push({
+            type: 'broad-exclusions',
+            severity: 'medium',
+            title: 'Policies with broad user or group exclusions',
+            description: 'Excluded groups, roles or more than a handful of users can silently remove large parts of the tenant from a policy. Limit exclusions to emergency access accounts.',
+            affected: policyNames(broadExclusions)
+        });
+    }
+
+    if (reportOnly.length > 0) {
+        gaps.push({
+            type: 'report-only-policies',
+            severity: 'low',
+            title: 'Report-only policies left in place',
+            description: `${reportOnly.length} policies are in report-only mode and do not enforce anything. Enable them after reviewing the sign-in impact or remove them.`,
+            affected: policyNames(reportOnly)
+        });
+    }
+
+    const signInRiskPolicies = enabled.filter(policy => policy.signInRiskLevels.length > 0);
+    if (signInRiskPolicies.length === 0) {
+        gaps.push({
+            type: 'no-sign-in-risk-policy',
+            severity: 'medium',
+            title: 'No sign-in risk policy',
+            description: 'No enabled policy reacts to Identity Protection sign-in risk. Risky sign-ins are neither challenged with MFA nor blocked.',
+            affected: []
+        });
+    }
+
+    return {
+        totalPolicies: policies.length,
+        enabledPolicies: enabled.length,
+        reportOnlyPolicies: reportOnly.length,
+        disabledPolicies: policies.length - enabled.length - reportOnly.length,
+        uncoveredAdminRoles,
+        policies,
+        gaps,
+        analyzedAt: new Date().toISOString()
+    };
+}
@@ -0,0 +1,2 @@
+export { analyzeConditionalAccess } from "./analyzer";
+export { summarizePolicy, coversRole, hasBroadExclusions, ADMIN_ROLES, GLOBAL_ADMINISTRATOR_ROLE, BROAD_USER_EXCLUSION_THRESHOLD } from "./policy";
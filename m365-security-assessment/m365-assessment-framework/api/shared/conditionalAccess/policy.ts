@@ -0,0 +1,131 @@
+import { ConditionalAccessPolicy } from "@microsoft/microsoft-graph-types";
+import { ConditionalAccessPolicyState, ConditionalAccessPolicySummary } from "../types";
+
+/**
+ * Admin roles that should always be covered by MFA (role template id -> name),
+ * matching the roles of Microsoft's "Require MFA for administrators" template
+ */
+export const ADMIN_ROLES: Record<string, string> = {
+    '62e90394-69f5-4237-9190-012177145e10': 'Global Administrator',
+    'e8611ab8-c189-46e8-94e1-60213ab1f814': 'Privileged Role Administrator',
+    '7be44c8a-adaf-4e2a-84d6-ab2649e08a13': 'Privileged Authentication Administrator',
+    '194ae4cb-b126-40b2-bd5b-6091b380977d': 'Security Administrator',
+    'b1be1c3e-b65d-4f19-8427-f6fa0d97feb9': 'Conditional Access Administrator',
+    'c4e39bd9-1100-46d3-8c65-fb160da0071f': 'Authentication Administrator',
+    '29232cdf-9323-42fd-ade2-1d097af3e4de': 'Exchange Administrator',
+    'f28a1f50-f6e7-4571-818b-6a12f2af6b6c': 'SharePoint Administrator',
+    'fe930be7-5e62-47db-91af-98c3a49a38b1': 'User Administrator',
+    '729827e3-9c14-49f7-bb1b-9608f156bbb8': 'Helpdesk Administrator',
+    'b0f54661-2d74-4c50-afa3-1ec803f12efe': 'Billing Administrator',
+    '9b895d92-2cd3-44c7-9d02-a6ac2d5ea5c3': 'Application Administrator',
+    '158c047a-c907-4556-b7ef-446551a6b5f7': 'Cloud Application Administrator',
+    '3a2c62db-5318-420d-8d74-23affee5d9d5': 'Intune Administrator'
+};
+
+export const GLOBAL_ADMINISTRATOR_ROLE = '62e90394-69f5-4237-9190-012177145e10';
+
+const LEGACY_CLIENT_APP_TYPES = ['exchangeActiveSync', 'other'];
+
+// Break-glass accounts are expected to be excluded - more excluded users than this is a broad exclusion
+export const BROAD_USER_EXCLUSION_THRESHOLD = 5;
+
+// excludeUsers can also hold the GuestsOrExternalUsers keyword
+const excludedUsers = (excludeUsers: string[]): string[] =>
+    excludeUsers.filter(user => user !== 'GuestsOrExternalUsers');
+
+function policyState(state: string): ConditionalAccessPolicyState {
+    if (state === 'enabled') return 'enabled';
+    if (state === 'enabledForReportingButNotEnforced') return 'reportOnly';
+    return 'disabled';
+}
+
+/**
+ * Reduce a Graph conditionalAccessPolicy to its conditions, grant controls and exclusions
+ */
+export function summarizePolicy(policy: ConditionalAccessPolicy): ConditionalAccessPolicySummary {
+    const users = policy.conditions?.users || {};
+    const applications = policy.conditions?.applications || {};
+    const clientAppTypes: string[] = policy.conditions?.clientAppTypes || [];
+    const controls: string[] = policy.grantControls?.builtInControls || [];
+    const authenticationStrength = policy.grantControls?.authenticationStrength?.displayName;
+
+    const includeUsers: string[] = users.includeUsers || [];
+    const excludeUsers: string[] = users.excludeUsers || [];
+    const excludeGroups: string[] = users.excludeGroups || [];
+    const excludeRoles: string[] = users.excludeRoles || [];
+    const excludesGuests = !!users.excludeGuestsOrExternalUsers || excludeUsers.includes('GuestsOrExternalUsers');
+    const excludedUserCount = excludedUsers(excludeUsers).length;
+
+    const requiresMfa = controls.includes('mfa') || !!policy.grantControls?.authenticationStrength;
+    const blocksAccess = controls.includes('block');
+
+    const issues: string[] = [];
+    if (excludeGroups.length > 0) {
+        issues.push(`Excludes ${excludeGroups.length} group(s)`);
+    }
+    if (excludedUserCount > BROAD_USER_EXCLUSION_THRESHOLD) {
+        issues.push(`Excludes ${excludedUserCount} users`);
+    }
+    if (excludeRoles.length > 0) {
+        issues.push(`Excludes ${excludeRoles.length} directory role(s)`);
+    }
+    if (excludesGuests) {
+        issues.push('Excludes guest and external users');
+    }
+    if (policyState(policy.state) === 'reportOnly') {
+        issues.push('Report-only - the policy is evaluated but not enforced');
+    }
+
+    return {
+        id: policy.id,
+        displayName: policy.displayName || policy.id,
+        state: policyState(policy.state),
+        users: {
+            includesAllUsers: includeUsers.includes('All'),
+            includeUsers,
+            includeGroups: users.includeGroups || [],
+            includeRoles: users.includeRoles || [],
+            excludeUsers,
+            excludeGroups,
+            excludeRoles,
+            excludesGuests
+        },
+        applications: {
+            includesAllApplications: (applications.includeApplications || []).includes('All'),
+            includeApplications: applications.includeApplications || [],
+            excludeApplications: applications.excludeApplications || []
+        },
+        clientAppTypes,
+        userRiskLevels: (policy.conditions?.userRiskLevels || []).map((level: string) => level.toLowerCase()),
+        signInRiskLevels: (policy.conditions?.signInRiskLevels || []).map((level: string) => level.toLowerCase()),
+        grant: {
+            operator: policy.grantControls?.operator || 'OR',
+            controls,
+            ...(authenticationStrength ? { authenticationStrength } : {})
+        },
+        sessionControls: Object.entries(policy.sessionControls || {})
+            .filter(([, control]: [string, any]) => control && control.isEnabled !== false)
+            .map(([name]) => name),
+        ...(policy.sessionControls?.persistentBrowser?.isEnabled ? { persistentBrowserMode: policy.sessionControls.persistentBrowser.mode } : {}),
+        requiresMfa,
+        blocksAccess,
+        blocksLegacyAuthentication: blocksAccess && LEGACY_CLIENT_APP_TYPES.every(type => clientAppTypes.includes(type)),
+        issues
+    };
+}
+
+/**
+ * Whether the policy applies to holders of a directory role
+ */
+export function coversRole(policy: ConditionalAccessPolicySummary, roleTemplateId: string): boolean {
+    if (policy.users.excludeRoles.includes(roleTemplateId)) {
+        return false;
+    }
+    return policy.users.includesAllUsers || policy.users.includeRoles.includes(roleTemplateId);
+}
+
+export function hasBroadExclusions(policy: ConditionalAccessPolicySummary): boolean {
+    return policy.users.excludeGroups.length > 0 ||
+        policy.users.excludeRoles.length > 0 ||
+        excludedUsers(policy.users.excludeUsers).length > BROAD_USER_EXCLUSION_THRESHOLD;
+}
@@ -0,0 +1,102 @@
+import { HttpRequest, InvocationContext } from "@azure/functions";
+import { dataService, initializeDataService } from "./utils";
+import { AssignmentScope, AuthenticatedUser } from "./types";
+
+/**
+ * Assignment scope for customer, assessment and history queries, or undefined when the
+ * user may see every customer (admins and local development).
+ */
+export function getAssignmentScope(user: AuthenticatedUser | undefined): AssignmentScope | undefined {
+    if (!user || user.role === 'admin' || user.source === 'development') {
+        return undefined;
+    }
+    return {
+        objectId: user.objectId,
+        userPrincipalName: user.name
+    };
+}
+
+async function customerOfAssessment(assessmentId: string | null): Promise<string | null> {
+    if (!assessmentId) {
+        return null;
+    }
+    // Malformed IDs are left to the handler, which answers 400 or 404
+    return dataService.getAssessmentCustomerId(assessmentId).catch(() => null);
+}
+
+async function customerOfTenant(tenantId: unknown): Promise<string | null> {
+    if (typeof tenantId !== 'string' || !tenantId) {
+        return null;
+    }
+    const customer = await dataService.getCustomerByTenantId(tenantId).catch(() => null);
+    return customer?.id || null;
+}
+
+async function customerOfFinding(findingId: string | null): Promise<string | null> {
+    if (!findingId) {
+        return null;
+    }
+    const finding = await dataService.getFindingById(findingId).catch(() => null);
+    return finding?.customerId || null;
+}
+
+/**
+ * Functions whose POST body names the customer, by customerId or by tenantId or assessmentId
+ */
+const BODY_SCOPED_FUNCTIONS = ['assessments', 'assessment-perform', 'createAssessment', 'assessment-history'];
+
+/**
+ * Customers a request refers to, from route parameters, the query string and - for requests
+ * that create assessments or history entries - the JSON body
+ */
+async function getRequestCustomerIds(functionName: string, request: HttpRequest): Promise<string[]> {
+    const ids: (string | null)[] = [
+        request.params.customerId,
+        request.query.get('customerId'),
+        functionName === 'customerById' ? request.params.id : null
+    ];
+
+    ids.push(
+        await customerOfAssessment(request.params.assessmentId),
+        await customerOfAssessment(request.query.get('from')),
+        await customerOfAssessment(request.query.get('to')),
+        await customerOfFinding(request.params.findingId)
+    );
+
+    if (request.method === 'POST' && BODY_SCOPED_FUNCTIONS.includes(functionName)) {
+        // Read a clone so that the handler still gets the body
+        const body = await request.clone().json().catch(() => null) as any;
+        ids.push(
+            typeof body?.customerId === 'string' ? body.customerId : null,
+            await customerOfTenant(body?.tenantId),
+            typeof body?.assessmentId === 'string' ? await customerOfAssessment(body.assessmentId) : null
+        );
+    }
+
+    return Array.from(new Set(ids.filter((id): id is string => !!id)));
+}
+
+/**
+ * Whether a non-admin user is assigned every customer the request touches. Requests that
+ * do not name a customer pass - list endpoints filter by the assignment scope instead.
+ */
+export async function isRequestInAssignmentScope(
+    user: AuthenticatedUser,
+    functionName: string,
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<boolean> {
+    const scope = getAssignmentScope(user);
+    if (!scope) {
+        return true;
+    }
+
+    await initializeDataService(context);
+    const customerIds = await getRequestCustomerIds(functionName, request);
+    if (customerIds.length === 0) {
+        return true;
+    }
+
+    const assigned = new Set(await dataService.getAssignedCustomerIds(scope));
+    return customerIds.every(customerId => assigned.has(customerId));
+}
@@ -0,0 +1,186 @@
+import { hasBroadExclusions } from "../conditionalAccess";
+import { ConditionalAccessAnalysis, ConditionalAccessGap, ConditionalAccessGapType } from "../types";
+import { FindingRule, RuleMatch } from "./types";
+
+// The rules read the analysis the assessment job runs once over the collected policies
+const findGap = (analysis: ConditionalAccessAnalysis, type: ConditionalAccessGapType): ConditionalAccessGap | undefined =>
+    analysis.gaps.find(gap => gap.type === type);
+
+const tenantMatch = (gap: ConditionalAccessGap | undefined): RuleMatch | null => gap
+    ? { description: gap.description, affectedResources: gap.affected, severity: gap.severity }
+    : null;
+
+/**
+ * Legacy protocols cannot do MFA, so they bypass every other sign-in control
+ */
+export const legacyAuthenticationRule: FindingRule<ConditionalAccessAnalysis> = {
+    id: 'conditionalAccess.legacy-auth-not-blocked',
+    category: 'conditionalAccess',
+    severity: 'high',
+    title: 'Legacy authentication is not blocked',
+    remediation: 'Create a Conditional Access policy for all users and all cloud apps that blocks the Exchange ActiveSync and Other clients client app types.',
+    resultKey: 'conditionalAccess',
+    recommendation: {
+        title: 'Block legacy authentication',
+        description: 'Legacy authentication protocols cannot perform MFA and are the main target of password spray attacks.',
+        priority: 'high',
+        effort: 'low',
+        impact: 'Removes the most common way around MFA',
+        implementationSteps: [
+            'Review legacy authentication sign-ins in the sign-in logs',
+            'Create a report-only policy blocking Exchange ActiveSync and other clients',
+            'Enable the policy once remaining legacy clients are migrated'
+        ],
+        microsoftDocUrl: 'https://learn.microsoft.com/entra/identity/conditional-access/policy-block-legacy-authentication'
+    },
+
+    evaluate(data) {
+        return tenantMatch(findGap(data, 'no-legacy-auth-block'));
+    }
+};
+
+/**
+ * Admin roles outside every enabled MFA policy
+ */
+export const adminMfaCoverageRule: FindingRule<ConditionalAccessAnalysis> = {
+    id: 'conditionalAccess.admins-without-mfa',
+    category: 'conditionalAccess',
+    severity: 'critical',
+    title: 'Admin roles not covered by an MFA policy',
+    remediation: 'Require MFA for all cloud apps for every admin role with a Conditional Access policy, excluding only emergency access accounts.',
+    resultKey: 'conditionalAccess',
+    recommendation: {
+        title: 'Require MFA for all admin roles',
+        description: 'Administrators outside an MFA policy can sign in with a password alone.',
+        priority: 'high',
+        effort: 'low',
+        impact: 'Protects the accounts with the highest privileges against credential theft',
+        implementationSteps: [
+            'Create a policy from the "Require multifactor authentication for admins" template',
+            'Include every admin role listed in the finding',
+            'Exclude only the emergency access accounts'
+        ],
+        microsoftDocUrl: 'https://learn.microsoft.com/entra/identity/conditional-access/policy-old-require-mfa-admin'
+    },
+
+    evaluate(data) {
+        return tenantMatch(findGap(data, 'admins-without-mfa'));
+    }
+};
+
+/**
+ * Enabled policies that exclude groups, roles or many users
+ */
+export const broadExclusionsRule: FindingRule<ConditionalAccessAnalysis> = {
+    id: 'conditionalAccess.broad-exclusions',
+    category: 'conditionalAccess',
+    severity: 'medium',
+    title: 'Conditional Access policy with broad exclusions',
+    remediation: 'Review the excluded groups, roles and users of the policy and limit exclusions to emergency access accounts.',
+    resultKey: 'conditionalAccess',
+    recommendation: {
+        title: 'Reduce Conditional Access exclusions',
+        description: 'Excluded groups grow over time and silently remove users from policy coverage.',
+        priority: 'medium',
+        effort: 'medium',
+        impact: 'Keeps policy coverage predictable as group memberships change',
+        implementationSteps: [
+            'List the members of every excluded group',
+            'Replace group exclusions with named emergency access accounts',
+            'Review remaining exclusions with access reviews'
+        ],
+        microsoftDocUrl: 'https://learn.microsoft.com/entra/identity/conditional-access/concept-conditional-access-users-groups'
+    },
+
+    evaluate(data) {
+        const exclusionIssues = (issues: string[]) => issues.filter(issue => issue.startsWith('Excludes'));
+
+        // One finding per policy so each exclusion can be reviewed and acknowledged separately
+        return data.policies
+            .filter(policy => policy.state === 'enabled' && hasBroadExclusions(policy))
+            .map(policy => ({
+                resource: policy.displayName,
+                description: `Policy "${policy.displayName}": ${exclusionIssues(policy.issues).join(', ')}.`,
+                affectedResources: [policy.displayName],
+                evidence: {
+                    excludedUsers: policy.users.excludeUsers.length,
+                    excludedGroups: policy.users.excludeGroups.length,
+                    excludedRoles: policy.users.excludeRoles.length
+                }
+            }));
+    }
+};
+
+/**
+ * Policies that were created in report-only mode and never switched on
+ */
+export const reportOnlyPoliciesRule: FindingRule<ConditionalAccessAnalysis> = {
+    id: 'conditionalAccess.report-only',
+    category: 'conditionalAccess',
+    severity: 'low',
+    title: 'Conditional Access policy left in report-only mode',
+    remediation: 'Review the report-only results in the sign-in logs, then switch the policy on or delete it.',
+    resultKey: 'conditionalAccess',
+    recommendation: {
+        title: 'Enable or remove report-only policies',
+        description: 'Report-only policies look like protection in the policy list but do not enforce anything.',
+        priority: 'low',
+        effort: 'low',
+        impact: 'Turns intended protection into enforced protection',
+        implementationSteps: [
+            'Check the report-only impact in the Conditional Access insights workbook',
+            'Switch the policy to On or delete it'
+        ],
+        microsoftDocUrl: 'https://learn.microsoft.com/entra/identity/conditional-access/concept-conditional-access-report-only'
+    },
+
+    evaluate(data) {
+        const gap = findGap(data, 'report-only-policies');
+        if (!gap) {
+            return null;
+        }
+
+        return gap.affected.map(policyName => ({
+            resource: policyName,
+            description: `Policy "${policyName}" is in report-only mode and is not enforced.`,
+            affectedResources: [policyName]
+        }));
+    }
+};
+
+/**
+ * Identity Protection sign-in risk is not acted upon
+ */
+export const signInRiskPolicyRule: FindingRule<ConditionalAccessAnalysis> = {
+    id: 'conditionalAccess.no-sign-in-risk-policy',
+    category: 'conditionalAccess',
+    severity: 'medium',
+    title: 'No sign-in risk policy',
+    remediation: 'Create a Conditional Access policy for all users that requires MFA (or blocks) for medium and high sign-in risk. Requires Entra ID P2.',
+    resultKey: 'conditionalAccess',
+    recommendation: {
+        title: 'Challenge risky sign-ins',
+        description: 'Identity Protection detects anonymous IPs, impossible travel and leaked credentials, but only policies act on it.',
+        priority: 'medium',
+        effort: 'low',
+        impact: 'Stops sign-ins that Microsoft has flagged as likely compromised',
+        implementationSteps: [
+            'Confirm Entra ID P2 licences are available',
+            'Create a policy requiring MFA for medium and high sign-in risk',
+            'Monitor risky sign-ins after enabling the policy'
+        ],
+        microsoftDocUrl: 'https://learn.microsoft.com/entra/id-protection/howto-identity-protection-configure-risk-policies'
+    },
+
+    evaluate(data) {
+        return tenantMatch(findGap(data, 'no-sign-in-risk-policy'));
+    }
+};
+
+export const conditionalAccessRules = [
+    legacyAuthenticationRule,
+    adminMfaCoverageRule,
+    broadExclusionsRule,
+    reportOnlyPoliciesRule,
+    signInRiskPolicyRule
+];
@@ -0,0 +1,53 @@
+import { EndpointMetrics } from "../collectors";
+import { FindingRule } from "./types";
+
+const COMPLIANCE_TARGET = 90;
+
+/**
+ * Intune managed devices that are not compliant with their policies
+ */
+export const deviceComplianceRule: FindingRule<EndpointMetrics> = {
+    id: 'endpoint.device-compliance',
+    category: 'endpoint',
+    severity: 'medium',
+    title: 'Managed devices not compliant',
+    remediation: 'Review the non-compliant devices in Intune, fix the failing compliance settings and require a compliant device for access to company data through Conditional Access.',
+    resultKey: 'endpointMetrics',
+    recommendation: {
+        title: 'Increase device compliance',
+        description: 'Non-compliant devices may be missing encryption, updates or endpoint protection.',
+        priority: 'medium',
+        effort: 'medium',
+        impact: 'Reduces the risk of data access from unmanaged or vulnerable devices',
+        implementationSteps: [
+            'Review compliance failures per policy in the Intune admin center',
+            'Remediate or retire stale devices',
+            'Require compliant devices in Conditional Access'
+        ],
+        microsoftDocUrl: 'https://learn.microsoft.com/mem/intune/protect/device-compliance-get-started'
+    },
+
+    evaluate(endpoint) {
+        if (!endpoint.totalDevices || endpoint.complianceRate >= COMPLIANCE_TARGET) {
+            return null;
+        }
+
+        // The collector only keeps a device sample, so affected resources are the non-compliant devices in it
+        const nonCompliantSample = (endpoint.sample || [])
+            .filter(device => (device.compliance || '').toLowerCase() !== 'compliant')
+            .map(device => device.name || device.id);
+
+        return {
+            description: `${endpoint.nonCompliantDevices} of ${endpoint.totalDevices} managed devices are not compliant (${endpoint.complianceRate}% compliance, target ${COMPLIANCE_TARGET}%).`,
+            affectedResources: nonCompliantSample,
+            severity: endpoint.complianceRate < 70 ? 'high' : 'medium',
+            evidence: {
+                complianceRate: endpoint.complianceRate,
+                totalDevices: endpoint.totalDevices,
+                nonCompliantDevices: endpoint.nonCompliantDevices
+            }
+        };
+    }
+};
+
+export const endpointRules = [deviceComplianceRule];
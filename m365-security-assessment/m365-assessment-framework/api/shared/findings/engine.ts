@@ -0,0 +1,112 @@
+import { randomUUID } from "crypto";
+import { FindingSeverity, Recommendation, SecurityFinding } from "../types";
+import { FindingRule } from "./types";
+
+const rules = new Map<string, FindingRule>();
+
+const SEVERITY_ORDER: Record<FindingSeverity, number> = {
+    critical: 0,
+    high: 1,
+    medium: 2,
+    low: 3
+};
+
+/**
+ * Register a findings rule. Rule ids must be unique and stable.
+ */
+export function registerRule(rule: FindingRule): void {
+    if (rules.has(rule.id)) {
+        throw new Error(`Findings rule '${rule.id}' is already registered`);
+    }
+    rules.set(rule.id, rule);
+}
+
+export function getRule(ruleId: string): FindingRule | undefined {
+    return rules.get(ruleId);
+}
+
+export function getRegisteredRules(): FindingRule[] {
+    return Array.from(rules.values());
+}
+
+export function getFindingKey(ruleId: string, resource?: string): string {
+    return `${ruleId}:${resource || 'tenant'}`;
+}
+
+export interface FindingsEvaluation {
+    findings: SecurityFinding[];
+    recommendations: Recommendation[];
+    /** Rules that could not run because their category was skipped or failed */
+    skippedRules: string[];
+    evaluatedRules: string[];
+}
+
+/**
+ * Evaluate every registered rule against the collected `metrics.realData`.
+ * Rules whose collector result is missing, skipped or failed are not evaluated,
+ * so a category that could not be collected never produces findings.
+ */
+export function evaluateFindings(realData: Record<string, any>): FindingsEvaluation {
+    const findings: SecurityFinding[] = [];
+    const recommendations: Recommendation[] = [];
+    const skippedRules: string[] = [];
+    const evaluatedRules: string[] = [];
+
+    for (const rule of rules.values()) {
+        const data = realData?.[rule.resultKey];
+        if (!data || data.skipped || data.unavailable || data.error) {
+            skippedRules.push(rule.id);
+            continue;
+        }
+
+        let result;
+        try {
+            result = rule.evaluate(data);
+        } catch (error: any) {
+            console.warn(`⚠️ Findings rule ${rule.id} failed:`, error.message);
+            skippedRules.push(rule.id);
+            continue;
+        }
+        evaluatedRules.push(rule.id);
+
+        const matches = result ? (Array.isArray(result) ? result : [result]) : [];
+        if (matches.length === 0) {
+            continue;
+        }
+
+        matches.forEach(match => {
+            findings.push({
+                id: randomUUID(),
+                ruleId: rule.id,
+                findingKey: getFindingKey(rule.id, match.resource),
+                category: rule.category,
+                severity: match.severity || rule.severity,
+                title: rule.title,
+                description: match.description,
+                affectedResources: match.affectedResources,
+                remediation: rule.remediation,
+                evidence: match.evidence || {},
+                status: 'open'
+            });
+        });
+
+        recommendations.push({
+            id: rule.id,
+            category: rule.category,
+            ...rule.recommendation
+        });
+    }
+
+    findings.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+    return { findings, recommendations, skippedRules, evaluatedRules };
+}
+
+/**
+ * Count findings per severity, stored on the assessment for quick display
+ */
+export function summarizeFindings(findings: SecurityFinding[]): { total: number; bySeverity: Record<FindingSeverity, number> } {
+    const bySeverity: Record<FindingSeverity, number> = { critical: 0, high: 0, medium: 0, low: 0 };
+    findings.forEach(finding => bySeverity[finding.severity]++);
+    return { total: findings.length, bySeverity };
+}
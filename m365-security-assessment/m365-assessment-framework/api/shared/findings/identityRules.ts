@@ -0,0 +1,137 @@
+import { IdentityMetrics } from "../collectors";
+import { FindingRule } from "./types";
+
+// Keep stored findings bounded for very large tenants
+const MAX_AFFECTED_RESOURCES = 100;
+
+const userNames = (users: any[]): string[] =>
+    users.slice(0, MAX_AFFECTED_RESOURCES).map(user => user.userPrincipalName || user.displayName || user.id);
+
+/**
+ * Enabled users that have not registered any MFA method
+ */
+export const mfaCoverageRule: FindingRule<IdentityMetrics> = {
+    id: 'identity.mfa-coverage',
+    category: 'identity',
+    severity: 'high',
+    title: 'Users without multi-factor authentication',
+    remediation: 'Require MFA registration for all users with a Conditional Access policy (or security defaults) and follow up with users who have not registered a method.',
+    resultKey: 'identityMetrics',
+    recommendation: {
+        title: 'Enforce multi-factor authentication for all users',
+        description: 'Accounts without MFA are the most common entry point for account takeover.',
+        priority: 'high',
+        effort: 'medium',
+        impact: 'Blocks the majority of password spray and phishing based sign-ins',
+        implementationSteps: [
+            'Create a Conditional Access policy requiring MFA for all users',
+            'Exclude only break-glass accounts from the policy',
+            'Run an MFA registration campaign for users without a registered method'
+        ],
+        microsoftDocUrl: 'https://learn.microsoft.com/entra/identity/conditional-access/howto-conditional-access-policy-all-users-mfa'
+    },
+
+    evaluate(identity) {
+        if (!identity.totalUsers || identity.mfaCoverage >= 95) {
+            return null;
+        }
+
+        // Only registration details carry isMfaRegistered - the fallback user list cannot tell
+        const usersWithoutMfa = (identity.userDetails || []).filter((user: any) => user.isMfaRegistered === false);
+
+        return {
+            description: `MFA coverage is ${identity.mfaCoverage}% (${identity.mfaEnabledUsers} of ${identity.totalUsers} users have a registered MFA method).`,
+            affectedResources: userNames(usersWithoutMfa),
+            severity: identity.mfaCoverage < 50 ? 'critical' : identity.mfaCoverage < 80 ? 'high' : 'medium',
+            evidence: {
+                mfaCoverage: identity.mfaCoverage,
+                mfaEnabledUsers: identity.mfaEnabledUsers,
+                totalUsers: identity.totalUsers,
+                usersWithoutMfa: usersWithoutMfa.length
+            }
+        };
+    }
+};
+
+/**
+ * Privileged role holders that only use passwords or weak second factors
+ */
+export const privilegedStrongAuthRule: FindingRule<IdentityMetrics> = {
+    id: 'identity.privileged-strong-auth',
+    category: 'identity',
+    severity: 'critical',
+    title: 'Privileged users without strong authentication',
+    remediation: 'Require phishing-resistant authentication (FIDO2, Windows Hello for Business or passwordless Authenticator) for every directory role through an authentication strength policy.',
+    resultKey: 'identityMetrics',
+    recommendation: {
+        title: 'Require phishing-resistant MFA for administrators',
+        description: 'Compromised administrator accounts give an attacker control over the whole tenant.',
+        priority: 'high',
+        effort: 'medium',
+        impact: 'Protects the accounts with the highest blast radius against phishing and token theft',
+        implementationSteps: [
+            'Register FIDO2 keys or passwordless Authenticator for every administrator',
+            'Create a Conditional Access policy for directory roles using the phishing-resistant authentication strength',
+            'Review standing role assignments and move them to PIM eligible assignments'
+        ],
+        microsoftDocUrl: 'https://learn.microsoft.com/entra/identity/conditional-access/how-to-policy-phish-resistant-admin-mfa'
+    },
+
+    evaluate(identity) {
+        const weakPrivilegedUsers = (identity.userDetails || []).filter((user: any) =>
+            user.isPrivileged === true && user.hasStrongMethods === false
+        );
+
+        // One finding per administrator so each account can be tracked and acknowledged separately
+        return userNames(weakPrivilegedUsers).map(userName => ({
+            resource: userName,
+            description: `Privileged user ${userName} has no phishing-resistant authentication method registered.`,
+            affectedResources: [userName],
+            evidence: {
+                privilegedUsers: identity.adminUsers,
+                privilegedUsersWithoutStrongAuth: weakPrivilegedUsers.length
+            }
+        }));
+    }
+};
+
+/**
+ * Tenants that rely on per-user settings only
+ */
+export const conditionalAccessRule: FindingRule<IdentityMetrics> = {
+    id: 'identity.no-conditional-access',
+    category: 'identity',
+    severity: 'high',
+    title: 'No Conditional Access policies configured',
+    remediation: 'Deploy a baseline set of Conditional Access policies: MFA for all users, block legacy authentication and protect administrator sign-ins.',
+    resultKey: 'identityMetrics',
+    recommendation: {
+        title: 'Deploy baseline Conditional Access policies',
+        description: 'Without Conditional Access, sign-in requirements cannot be enforced centrally.',
+        priority: 'high',
+        effort: 'medium',
+        impact: 'Centrally enforces MFA and blocks legacy authentication protocols',
+        implementationSteps: [
+            'Create policies in report-only mode first',
+            'Require MFA for all users and block legacy authentication',
+            'Switch the policies to On after reviewing the sign-in impact'
+        ],
+        microsoftDocUrl: 'https://learn.microsoft.com/entra/identity/conditional-access/plan-conditional-access'
+    },
+
+    evaluate(identity) {
+        if (!identity.totalUsers || identity.conditionalAccessPolicies > 0) {
+            return null;
+        }
+
+        return {
+            description: 'The tenant has no Conditional Access policies, so sign-in requirements are not enforced centrally.',
+            affectedResources: [],
+            evidence: {
+                conditionalAccessPolicies: identity.conditionalAccessPolicies
+            }
+        };
+    }
+};
+
+export const identityRules = [mfaCoverageRule, privilegedStrongAuthRule, conditionalAccessRule];
@@ -0,0 +1,15 @@
+import { registerRule } from "./engine";
+import { identityRules } from "./identityRules";
+import { endpointRules } from "./endpointRules";
+import { licenseRules } from "./licenseRules";
+import { secureScoreRules } from "./secureScoreRules";
+import { conditionalAccessRules } from "./conditionalAccessRules";
+
+// Built-in rules - new checks only need a rule definition and registration here
+[...identityRules, ...endpointRules, ...licenseRules, ...secureScoreRules, ...conditionalAccessRules].forEach(registerRule);
+
+export { registerRule, getRule, getRegisteredRules, getFindingKey, evaluateFindings, summarizeFindings } from "./engine";
+export { applyFindingLifecycle, compareFindings, isActiveFinding, isExceptionActive } from "./lifecycle";
+export type { FindingsEvaluation } from "./engine";
+export type { FindingLifecycleInput, FindingChurn } from "./lifecycle";
+export type { FindingRule, RuleMatch } from "./types";
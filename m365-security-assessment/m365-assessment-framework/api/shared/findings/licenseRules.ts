@@ -0,0 +1,111 @@
+import { LicenseCollectorResult } from "../collectors";
+import { LicenseOptimizationAnalysis, LicenseReclaimReason } from "../types";
+import { FindingRule } from "./types";
+
+// Free and viral SKUs (e.g. FLOW_FREE) come with 10000+ units that are never meant to be assigned
+const FREE_SKU_UNIT_THRESHOLD = 10000;
+
+/**
+ * Paid subscriptions with purchased units that are not assigned to anyone
+ */
+export const unassignedLicensesRule: FindingRule<LicenseCollectorResult> = {
+    id: 'license.unassigned-licenses',
+    category: 'license',
+    severity: 'low',
+    title: 'Unassigned paid licenses',
+    remediation: 'Reduce the subscription quantity at the next renewal or assign the licenses to users who need them.',
+    resultKey: 'licenseInfo',
+    recommendation: {
+        title: 'Optimize license utilization',
+        description: 'Unassigned licenses are paid for without providing any value.',
+        priority: 'medium',
+        effort: 'low',
+        impact: 'Reduces recurring license cost',
+        implementationSteps: [
+            'Review unassigned units per subscription',
+            'Lower the quantity at the next renewal date or reassign licenses'
+        ],
+        microsoftDocUrl: 'https://learn.microsoft.com/microsoft-365/commerce/licenses/buy-licenses'
+    },
+
+    evaluate(licenseInfo) {
+        const unassignedSkus = (licenseInfo.licenses || [])
+            .filter((license: any) => (license.capabilityStatus || 'Enabled') === 'Enabled')
+            .map((license: any) => {
+                const totalUnits = license.prepaidUnits?.enabled ?? license.totalUnits ?? 0;
+                const consumedUnits = license.consumedUnits ?? license.assignedUnits ?? 0;
+                return { skuPartNumber: license.skuPartNumber || license.skuId, totalUnits, unassigned: totalUnits - consumedUnits };
+            })
+            .filter(sku => sku.unassigned > 0 && sku.totalUnits < FREE_SKU_UNIT_THRESHOLD);
+
+        // One finding per subscription
+        return unassignedSkus.map(sku => {
+            const unassignedShare = Math.round((sku.unassigned / sku.totalUnits) * 100);
+            return {
+                resource: sku.skuPartNumber,
+                description: `${sku.unassigned} of ${sku.totalUnits} ${sku.skuPartNumber} licenses are not assigned (${unassignedShare}%).`,
+                affectedResources: [sku.skuPartNumber],
+                severity: unassignedShare >= 20 ? 'medium' : 'low',
+                evidence: {
+                    totalUnits: sku.totalUnits,
+                    unassignedUnits: sku.unassigned,
+                    unassignedShare
+                }
+            };
+        });
+    }
+};
+
+const RECLAIM_REASON_DESCRIPTIONS: Record<LicenseReclaimReason, (count: number, analysis: LicenseOptimizationAnalysis) => string> = {
+    'disabled': count => `${count} disabled accounts still hold paid licenses.`,
+    'never-signed-in': count => `${count} licensed users have never signed in.`,
+    'inactive': (count, analysis) => `${count} licensed users have not signed in for more than ${analysis.inactiveThresholdDays} days.`,
+    'overlapping': count => `${count} users hold licenses that are already included in another license assigned to them.`
+};
+
+/**
+ * Paid licenses assigned to users who do not use them, one finding per reason
+ */
+export const reclaimableLicensesRule: FindingRule<LicenseOptimizationAnalysis> = {
+    id: 'license.reclaimable-assignments',
+    category: 'license',
+    severity: 'low',
+    title: 'Paid licenses assigned to unused or overlapping accounts',
+    remediation: 'Remove the licenses from the listed users, or the included SKU for overlapping assignments, and lower the subscription quantity.',
+    resultKey: 'licenseOptimization',
+    recommendation: {
+        title: 'Reclaim licenses from inactive and disabled users',
+        description: 'Licenses of disabled or inactive accounts and duplicated SKUs are paid for without being used.',
+        priority: 'medium',
+        effort: 'low',
+        impact: 'Reduces recurring license cost',
+        implementationSteps: [
+            'Review the reclaim list on the License tab',
+            'Remove licenses from disabled and inactive accounts, or delete the accounts',
+            'Remove SKUs that are included in another SKU assigned to the same user',
+            'Lower the subscription quantity at the next renewal'
+        ],
+        microsoftDocUrl: 'https://learn.microsoft.com/entra/identity/monitoring-health/howto-manage-inactive-user-accounts'
+    },
+
+    evaluate(analysis) {
+        const reasons = Object.keys(RECLAIM_REASON_DESCRIPTIONS) as LicenseReclaimReason[];
+
+        return reasons
+            .map(reason => ({ reason, candidates: analysis.candidates.filter(candidate => candidate.reason === reason) }))
+            .filter(group => group.candidates.length > 0)
+            .map(group => ({
+                resource: group.reason,
+                description: RECLAIM_REASON_DESCRIPTIONS[group.reason](group.candidates.length, analysis),
+                affectedResources: group.candidates.map(candidate => candidate.userPrincipalName),
+                // Disabled accounts are pure waste and carry no risk of interrupting anyone
+                severity: group.reason === 'disabled' && group.candidates.length >= 10 ? 'medium' : 'low',
+                evidence: {
+                    users: group.candidates.length,
+                    reclaimableAssignments: group.candidates.reduce((sum, candidate) => sum + candidate.reclaimableSkus.length, 0)
+                }
+            }));
+    }
+};
+
+export const licenseRules = [unassignedLicensesRule, reclaimableLicensesRule];
@@ -0,0 +1,121 @@
+import { randomUUID } from "crypto";
+import { FindingException, SecurityFinding } from "../types";
+
+export interface FindingLifecycleInput {
+    /** Findings the rules produced for the new assessment */
+    current: SecurityFinding[];
+    /**
+     * Latest stored record of each finding key in the customer's earlier completed assessments -
+     * an active finding, or the `resolved` marker of the run it disappeared in
+     */
+    latest: SecurityFinding[];
+    /** First time each finding key was seen for the customer, across all assessments */
+    firstSeen: Map<string, Date>;
+    /** Rules that ran in the new assessment - findings of other rules are neither resolved nor persisting */
+    evaluatedRules: string[];
+    /** Active acknowledgements and risk acceptances of the customer */
+    exceptions: FindingException[];
+    now?: Date;
+}
+
+export interface FindingChurn {
+    new: SecurityFinding[];
+    regressed: SecurityFinding[];
+    persisting: SecurityFinding[];
+    resolved: SecurityFinding[];
+    summary: {
+        new: number;
+        regressed: number;
+        persisting: number;
+        resolved: number;
+    };
+}
+
+/**
+ * Findings that are present in an assessment, as opposed to the `resolved` markers
+ * recorded for findings that disappeared since the previous run.
+ */
+export function isActiveFinding(finding: SecurityFinding): boolean {
+    return finding.lifecycle !== 'resolved' && finding.status !== 'resolved';
+}
+
+export function isExceptionActive(exception: FindingException, now: Date = new Date()): boolean {
+    return !exception.revokedAt && new Date(exception.expiresAt).getTime() > now.getTime();
+}
+
+/**
+ * Classify the findings of a new assessment against the latest record of each finding key:
+ * - new: never seen for this customer before
+ * - persisting: still open when last recorded, including by an older assessment when the
+ *   rule was skipped in the ones since
+ * - regressed: recorded as resolved, back now
+ * - resolved: open when last recorded, gone now although its rule ran (returned as extra `resolved` findings)
+ *
+ * Findings covered by an active exception are marked acknowledged.
+ */
+export function applyFindingLifecycle(input: FindingLifecycleInput): SecurityFinding[] {
+    const now = input.now || new Date();
+    const latestByKey = new Map(input.latest.map(finding => [finding.findingKey, finding] as [string, SecurityFinding]));
+    const currentKeys = new Set(input.current.map(finding => finding.findingKey));
+    const exceptionsByKey = new Map(
+        input.exceptions
+            .filter(exception => isExceptionActive(exception, now))
+            .map(exception => [exception.findingKey, exception] as [string, FindingException])
+    );
+
+    const classified: SecurityFinding[] = input.current.map(finding => {
+        const latest = latestByKey.get(finding.findingKey);
+        const lifecycle = !latest ? 'new' : isActiveFinding(latest) ? 'persisting' : 'regressed';
+        const exception = exceptionsByKey.get(finding.findingKey);
+
+        return {
+            ...finding,
+            lifecycle,
+            firstSeenAt: input.firstSeen.get(finding.findingKey) || now,
+            status: exception ? 'acknowledged' : 'open',
+            ...(exception ? { exception } : {})
+        };
+    });
+
+    const resolved: SecurityFinding[] = input.latest
+        .filter(finding => isActiveFinding(finding)
+            && !currentKeys.has(finding.findingKey)
+            && input.evaluatedRules.includes(finding.ruleId))
+        .map(finding => ({
+            ...finding,
+            id: randomUUID(),
+            lifecycle: 'resolved',
+            status: 'resolved',
+            exception: undefined
+        }));
+
+    return [...classified, ...resolved];
+}
+
+/**
+ * Compare the findings of two assessments by finding key
+ */
+export function compareFindings(from: SecurityFinding[], to: SecurityFinding[]): FindingChurn {
+    const fromActive = from.filter(isActiveFinding);
+    const toActive = to.filter(isActiveFinding);
+    const fromKeys = new Set(fromActive.map(finding => finding.findingKey));
+    const toKeys = new Set(toActive.map(finding => finding.findingKey));
+
+    const added = toActive.filter(finding => !fromKeys.has(finding.findingKey));
+    const churn = {
+        new: added.filter(finding => finding.lifecycle !== 'regressed'),
+        regressed: added.filter(finding => finding.lifecycle === 'regressed'),
+        persisting: toActive.filter(finding => fromKeys.has(finding.findingKey)),
+        resolved: fromActive.filter(finding => !toKeys.has(finding.findingKey))
+    };
+
+    return {
+        ...churn,
+        summary: {
+            new: churn.new.length,
+            regressed: churn.regressed.length,
+            persisting: churn.persisting.length,
+            resolved: churn.resolved.length
+        }
+    };
+}
@@ -0,0 +1,50 @@
+import { SecureScoreCollectorResult } from "../collectors";
+import { FindingRule } from "./types";
+
+/**
+ * Microsoft Secure Score below the recommended baseline
+ */
+export const lowSecureScoreRule: FindingRule<SecureScoreCollectorResult> = {
+    id: 'secureScore.low-score',
+    category: 'secureScore',
+    severity: 'medium',
+    title: 'Microsoft Secure Score below baseline',
+    remediation: 'Work through the highest impact improvement actions in the Microsoft Defender portal, starting with identity controls.',
+    resultKey: 'secureScore',
+    recommendation: {
+        title: 'Improve Microsoft Secure Score',
+        description: 'A low Secure Score indicates that many recommended security controls are not implemented.',
+        priority: 'medium',
+        effort: 'medium',
+        impact: 'Raises the overall security baseline of the tenant',
+        implementationSteps: [
+            'Sort the improvement actions by score impact',
+            'Implement or document a risk acceptance for each action'
+        ],
+        microsoftDocUrl: 'https://learn.microsoft.com/defender-xdr/microsoft-secure-score-improvement-actions'
+    },
+
+    evaluate(secureScore) {
+        if (secureScore.percentage >= 60) {
+            return null;
+        }
+
+        const notImplemented = (secureScore.controlScores || [])
+            .filter((control: any) => control.implementationStatus === 'Not Implemented')
+            .map((control: any) => control.controlName);
+
+        return {
+            description: `Microsoft Secure Score is ${secureScore.percentage}% (${secureScore.currentScore} of ${secureScore.maxScore} points).`,
+            affectedResources: notImplemented.slice(0, 25),
+            severity: secureScore.percentage < 40 ? 'high' : 'medium',
+            evidence: {
+                percentage: secureScore.percentage,
+                currentScore: secureScore.currentScore,
+                maxScore: secureScore.maxScore,
+                controlsNotImplemented: notImplemented.length
+            }
+        };
+    }
+};
+
+export const secureScoreRules = [lowSecureScoreRule];
@@ -0,0 +1,35 @@
+import { FindingSeverity, Recommendation } from "../types";
+
+/**
+ * Result of a rule that matched the collected data
+ */
+export interface RuleMatch {
+    /**
+     * Resource the match is about (user, SKU, ...). Together with the rule id it forms the
+     * finding key used to follow a finding across assessments. Tenant-wide matches omit it.
+     */
+    resource?: string;
+    description: string;
+    affectedResources: string[];
+    /** Overrides the rule's default severity, e.g. when a threshold is badly missed */
+    severity?: FindingSeverity;
+    evidence?: Record<string, any>;
+}
+
+/**
+ * A declarative check evaluated against `metrics.realData` after collection.
+ * Rules only read the result of a single collector, identified by `resultKey`.
+ */
+export interface FindingRule<TData = any> {
+    /** Stable id - findings are tracked across assessments by this id */
+    id: string;
+    category: string;
+    severity: FindingSeverity;
+    title: string;
+    remediation: string;
+    /** Property under `metrics.realData` the rule evaluates */
+    resultKey: string;
+    recommendation: Omit<Recommendation, 'id' | 'category'>;
+    /** Returns null when the data passes the check, or one match per affected resource */
+    evaluate(data: TData): RuleMatch | RuleMatch[] | null;
+}
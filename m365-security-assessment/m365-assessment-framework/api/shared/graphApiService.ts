@@ -1,6 +1,9 @@
 import { Client } from "@microsoft/microsoft-graph-client";
-import { DefaultAzureCredential, ClientSecretCredential } from "@azure/identity";
+import { DefaultAzureCredential, ClientSecretCredential, TokenCredential } from "@azure/identity";
 import { Application, ServicePrincipal } from "@microsoft/microsoft-graph-types";
+import { createTenantCredential } from "./tenantCredential";
+import { createGraphClient, isOfflineGraph } from "./graphFixtures";
+import { TenantAuthMethod } from "./types";
 import * as https from 'https';
 
 /**
@@ -63,14 +66,16 @@ export class GraphApiService {
             .filter(([, value]) => !value)
             .map(([key]) => key);
 
-        if (missingVars.length > 0) {
+        // Fixture replay and the local Graph stand-in need no service principal
+        const offline = isOfflineGraph();
+        if (missingVars.length > 0 && !offline) {
             const errorMsg = `Missing required environment variables: ${missingVars.join(', ')}. Please configure these in your Azure Static Web App settings or local.settings.json for local development.`;
             console.error('❌ GraphApiService:', errorMsg);
             throw new Error(errorMsg);
         }
 
-        // Use service principal credentials for authentication
-        const credential = new ClientSecretCredential(
+        // Use service principal credentials for authentication - never asked for a token when offline
+        const credential = offline ? null : new ClientSecretCredential(
             process.env.AZURE_TENANT_ID!,
             process.env.AZURE_CLIENT_ID!,
             process.env.AZURE_CLIENT_SECRET!
@@ -81,7 +86,7 @@ export class GraphApiService {
         console.log('🔧 GraphApiService: Client ID:', process.env.AZURE_CLIENT_ID?.substring(0, 8) + '...');
         
         // Initialize Microsoft Graph client with proper authentication
-        this.graphClient = Client.initWithMiddleware({
+        this.graphClient = createGraphClient({
             authProvider: {
                 getAccessToken: async () => {
                     try {
@@ -303,6 +308,56 @@ export class GraphApiService {
         }];
     }
 
+    /**
+     * Add a client secret to an app registration in our tenant, addressed by its appId (client id)
+     */
+    async addApplicationPassword(appId: string, displayName: string, endDateTime: Date): Promise<{ keyId: string; secretText: string; endDateTime: string }> {
+        try {
+            console.log('🔑 GraphApiService: Adding client secret to application:', appId);
+            const credential = await this.graphClient.api(`/applications(appId='${appId}')/addPassword`).post({
+                passwordCredential: {
+                    displayName,
+                    endDateTime: endDateTime.toISOString()
+                }
+            });
+            console.log('✅ GraphApiService: Client secret added:', credential.keyId);
+            return {
+                keyId: credential.keyId,
+                secretText: credential.secretText,
+                endDateTime: credential.endDateTime
+            };
+        } catch (error: any) {
+            console.error('❌ GraphApiService: Failed to add client secret:', error);
+            throw new Error(`Failed to add client secret: ${error.message}`);
+        }
+    }
+
+    /**
+     * Client secrets of an app registration, without their values
+     */
+    async getApplicationPasswords(appId: string): Promise<Array<{ keyId: string; displayName?: string; endDateTime: string; hint?: string }>> {
+        try {
+            const application = await this.graphClient.api(`/applications(appId='${appId}')`).select('passwordCredentials').get();
+            return application.passwordCredentials || [];
+        } catch (error: any) {
+            console.error('❌ GraphApiService: Failed to get client secrets:', error);
+            throw new Error(`Failed to get client secrets: ${error.message}`);
+        }
+    }
+
+    /**
+     * Remove a client secret from an app registration
+     */
+    async removeApplicationPassword(appId: string, keyId: string): Promise<void> {
+        try {
+            console.log('🗑️ GraphApiService: Removing client secret from application:', appId, keyId);
+            await this.graphClient.api(`/applications(appId='${appId}')/removePassword`).post({ keyId });
+        } catch (error: any) {
+            console.error('❌ GraphApiService: Failed to remove client secret:', error);
+            throw new Error(`Failed to remove client secret: ${error.message}`);
+        }
+    }
+
     /**
      * Get organization information
      */
@@ -845,11 +900,13 @@ export class GraphApiService {
      * Get a Graph client for the customer's tenant
      * This requires appropriate cross-tenant permissions
      */
-    async getCustomerTenantGraphClient(targetTenantId: string): Promise<any> {
+    async getCustomerTenantGraphClient(targetTenantId: string, authMethod: TenantAuthMethod = 'secret'): Promise<any> {
         try {
             // Use your app's credentials to get access to the customer's tenant
             // This requires the customer to have previously consented to your management app
-            const credential = new DefaultAzureCredential();
+            const credential: TokenCredential = authMethod === 'certificate'
+                ? await createTenantCredential(targetTenantId, 'certificate')
+                : new DefaultAzureCredential();
             
             // Get token for the specific customer tenant
             const tokenResponse = await credential.getToken([
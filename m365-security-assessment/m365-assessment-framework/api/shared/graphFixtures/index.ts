@@ -0,0 +1,72 @@
+import { AuthenticationProvider, Client, MiddlewareFactory } from "@microsoft/microsoft-graph-client";
+import { GraphFixtureRecordHandler, GraphFixtureReplayHandler } from "./middleware";
+import { GraphFixtureMode } from "./types";
+
+export { GraphFixtureRecordHandler, GraphFixtureReplayHandler } from "./middleware";
+export { GraphFixtureSanitizer } from "./sanitizer";
+export { buildSyntheticTenant } from "./synthetic";
+export { findGraphFixtureResponse, isGraphBatchUrl, normalizeGraphUrl, replayGraphBatch, replayGraphRequest } from "./replay";
+export { getGraphFixturesDir, graphFixtureExists, listGraphFixtures, loadGraphFixture, saveGraphFixture } from "./store";
+export type { SyntheticTenantOptions } from "./synthetic";
+export type { GraphFixtureFile, GraphFixtureMode, GraphFixtureReply, GraphFixtureResponse } from "./types";
+
+const GRAPH_FIXTURE_MODES: GraphFixtureMode[] = ['record', 'replay'];
+
+export interface GraphFixtureSettings {
+    mode?: GraphFixtureMode;
+    scenario?: string;
+    /** Graph endpoint other than graph.microsoft.com, e.g. the local stand-in */
+    baseUrl?: string;
+}
+
+/**
+ * Fixture mode from GRAPH_FIXTURE_MODE and GRAPH_FIXTURE_SCENARIO, and the Graph
+ * endpoint from GRAPH_BASE_URL
+ */
+export function getGraphFixtureSettings(): GraphFixtureSettings {
+    const mode = process.env.GRAPH_FIXTURE_MODE?.trim().toLowerCase() || undefined;
+    const scenario = process.env.GRAPH_FIXTURE_SCENARIO?.trim() || undefined;
+    const baseUrl = process.env.GRAPH_BASE_URL?.trim().replace(/\/+$/, '') || undefined;
+
+    if (mode && !GRAPH_FIXTURE_MODES.includes(mode as GraphFixtureMode)) {
+        throw new Error(`Invalid GRAPH_FIXTURE_MODE '${mode}': expected ${GRAPH_FIXTURE_MODES.join(' or ')}`);
+    }
+    if (mode && !scenario) {
+        throw new Error('GRAPH_FIXTURE_SCENARIO is required when GRAPH_FIXTURE_MODE is set');
+    }
+
+    return { mode: mode as GraphFixtureMode | undefined, scenario, baseUrl };
+}
+
+/**
+ * True when Graph requests are answered from fixtures or by a stand-in, so no app
+ * credentials or tokens are needed
+ */
+export function isOfflineGraph(): boolean {
+    const settings = getGraphFixtureSettings();
+    return settings.mode === 'replay' || !!settings.baseUrl;
+}
+
+/**
+ * Graph client for the services: talks to Microsoft Graph (or GRAPH_BASE_URL), records
+ * sanitized responses as it goes, or replays a fixture file, depending on the settings
+ */
+export function createGraphClient({ authProvider }: { authProvider: AuthenticationProvider }): Client {
+    const { mode, scenario, baseUrl } = getGraphFixtureSettings();
+    const endpoint = baseUrl ? { baseUrl } : {};
+
+    if (mode === 'replay') {
+        console.log(`🎞️ Graph: Replaying fixture scenario '${scenario}'`);
+        return Client.initWithMiddleware({ ...endpoint, middleware: new GraphFixtureReplayHandler(scenario) });
+    }
+
+    if (mode === 'record') {
+        console.log(`🎞️ Graph: Recording responses to fixture scenario '${scenario}'`);
+        // Inserted just before the HTTP handler, so it sees each response as Graph sent it
+        const middleware = MiddlewareFactory.getDefaultMiddlewareChain(authProvider);
+        middleware.splice(middleware.length - 1, 0, new GraphFixtureRecordHandler(scenario));
+        return Client.initWithMiddleware({ ...endpoint, middleware });
+    }
+
+    return Client.initWithMiddleware({ ...endpoint, authProvider });
+}
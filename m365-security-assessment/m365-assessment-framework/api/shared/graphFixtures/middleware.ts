@@ -0,0 +1,143 @@
+import { Context, Middleware } from "@microsoft/microsoft-graph-client";
+import { GraphFixtureSanitizer } from './sanitizer';
+import { isGraphBatchUrl, normalizeGraphUrl, replayGraphBatch, replayGraphRequest } from './replay';
+import { loadGraphFixture, saveGraphFixture } from './store';
+import { GraphFixtureFile, GraphFixtureReply } from './types';
+
+function requestUrl(context: Context): string {
+    return typeof context.request === 'string' ? context.request : context.request.url;
+}
+
+function parseJson(body: any): any {
+    if (typeof body !== 'string') {
+        return body;
+    }
+    try {
+        return JSON.parse(body);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Last handler of the Graph client's middleware chain in replay mode: answers every
+ * request from the scenario's fixture file instead of sending it to Graph
+ */
+export class GraphFixtureReplayHandler implements Middleware {
+    constructor(private scenario: string) {}
+
+    async execute(context: Context): Promise<void> {
+        const fixture = loadGraphFixture(this.scenario);
+        const method = (context.options?.method || 'GET').toUpperCase();
+        const url = requestUrl(context);
+
+        const reply: GraphFixtureReply = method === 'POST' && isGraphBatchUrl(url)
+            ? replayGraphBatch(fixture, parseJson(context.options?.body))
+            : replayGraphRequest(fixture, method, url);
+
+        // /$count and similar endpoints return plain text
+        const isText = typeof reply.body === 'number' || typeof reply.body === 'string';
+        context.response = new Response(isText ? String(reply.body) : JSON.stringify(reply.body), {
+            status: reply.status,
+            headers: { 'Content-Type': isText ? 'text/plain' : 'application/json' }
+        });
+    }
+}
+
+/**
+ * Responses recorded for one scenario in this process. Each response is sanitized
+ * before it is kept, and the file is rewritten after every response so an interrupted
+ * run still leaves usable fixtures.
+ */
+class GraphFixtureRecorder {
+    private sanitizer = new GraphFixtureSanitizer();
+    private fixture: GraphFixtureFile;
+
+    constructor(scenario: string) {
+        this.fixture = {
+            scenario,
+            description: 'Recorded from a live tenant',
+            source: 'recorded',
+            createdAt: new Date().toISOString(),
+            responses: []
+        };
+    }
+
+    record(method: string, url: string, status: number, body: any): void {
+        const entry = {
+            method,
+            url: normalizeGraphUrl(this.sanitizer.sanitizeUrl(url)),
+            status,
+            body: this.sanitizer.sanitize(body)
+        };
+
+        const existing = this.fixture.responses.findIndex(response => response.method === method && response.url === entry.url);
+        if (existing >= 0) {
+            this.fixture.responses[existing] = entry;
+        } else {
+            this.fixture.responses.push(entry);
+        }
+        saveGraphFixture(this.fixture);
+    }
+}
+
+const recorders = new Map<string, GraphFixtureRecorder>();
+
+function getRecorder(scenario: string): GraphFixtureRecorder {
+    let recorder = recorders.get(scenario);
+    if (!recorder) {
+        recorder = new GraphFixtureRecorder(scenario);
+        recorders.set(scenario, recorder);
+    }
+    return recorder;
+}
+
+/**
+ * Passes requests on to Graph and records the sanitized responses of reads and of the
+ * reads inside $batch calls. Throttled and failed-server responses are not recorded.
+ */
+export class GraphFixtureRecordHandler implements Middleware {
+    private nextMiddleware: Middleware;
+
+    constructor(private scenario: string) {}
+
+    setNext(next: Middleware): void {
+        this.nextMiddleware = next;
+    }
+
+    async execute(context: Context): Promise<void> {
+        await this.nextMiddleware.execute(context);
+
+        const response = context.response;
+        const method = (context.options?.method || 'GET').toUpperCase();
+        const url = requestUrl(context);
+        if (!response || !this.isRecordable(response.status)) {
+            return;
+        }
+
+        try {
+            const text = await response.clone().text();
+            const body = (response.headers.get('Content-Type') || '').includes('json') ? parseJson(text) : text;
+            const recorder = getRecorder(this.scenario);
+
+            if (method === 'GET') {
+                recorder.record('GET', url, response.status, body);
+            } else if (method === 'POST' && isGraphBatchUrl(url)) {
+                const requests: any[] = parseJson(context.options?.body)?.requests || [];
+                (body?.responses || []).forEach((subResponse: any) => {
+                    const request = requests.find(r => r.id === subResponse.id);
+                    if (request && (request.method || 'GET').toUpperCase() === 'GET' && this.isRecordable(subResponse.status)) {
+                        recorder.record('GET', request.url, subResponse.status, subResponse.body);
+                    }
+                });
+            }
+        } catch (error: any) {
+            // Recording must never break the request it observes
+            console.warn(`⚠️ GraphFixtureRecordHandler: Could not record ${method} ${normalizeGraphUrl(url)}:`, error.message);
+        }
+    }
+
+    private isRecordable(status: number): boolean {
+        return status !== 429 && status < 500;
+    }
+}
@@ -0,0 +1,107 @@
+import { GraphFixtureFile, GraphFixtureReply, GraphFixtureResponse } from './types';
+
+// Query options that shape or size the response but do not change which records match
+const PROJECTION_PARAMS = ['$select', '$top', '$count', '$orderby'];
+
+/**
+ * Fixture key of a Graph URL: host and API version removed, query string decoded
+ * and its options sorted, e.g. https://graph.microsoft.com/v1.0/users?$top=999&$select=id
+ * becomes /users?$select=id&$top=999
+ */
+export function normalizeGraphUrl(url: string): string {
+    const relative = url
+        .replace(/^[a-z]+:\/\/[^/]+/i, '')
+        .replace(/^\/(v1\.0|beta)(?=\/|\?|$)/i, '');
+    const [path, query] = relative.split(/\?(.*)/s);
+    const normalizedPath = '/' + path.replace(/^\/+|\/+$/g, '');
+
+    if (!query) {
+        return normalizedPath;
+    }
+
+    const params = query
+        .split('&')
+        .filter(param => param.length > 0)
+        .map(param => {
+            try {
+                return decodeURIComponent(param.replace(/\+/g, ' '));
+            } catch {
+                return param;
+            }
+        })
+        .sort();
+    return `${normalizedPath}?${params.join('&')}`;
+}
+
+function withoutProjection(normalizedUrl: string): string {
+    const [path, query] = normalizedUrl.split(/\?(.*)/s);
+    const params = (query || '')
+        .split('&')
+        .filter(param => param && !PROJECTION_PARAMS.includes(param.split('=')[0].toLowerCase()));
+    return params.length > 0 ? `${path}?${params.join('&')}` : path;
+}
+
+/**
+ * Recorded response for a request: an exact URL match first, otherwise one that
+ * differs only in $select, $top, $count or $orderby
+ */
+export function findGraphFixtureResponse(fixture: GraphFixtureFile, method: string, url: string): GraphFixtureResponse | undefined {
+    const verb = method.toUpperCase();
+    const key = normalizeGraphUrl(url);
+    const candidates = fixture.responses.filter(response => response.method.toUpperCase() === verb);
+
+    const exact = candidates.find(response => normalizeGraphUrl(response.url) === key);
+    if (exact) {
+        return exact;
+    }
+
+    const loose = withoutProjection(key);
+    return candidates.find(response => withoutProjection(normalizeGraphUrl(response.url)) === loose);
+}
+
+/**
+ * Answer a request from the fixture, with the 404 Graph returns for unknown resources
+ * when nothing was recorded for it
+ */
+export function replayGraphRequest(fixture: GraphFixtureFile, method: string, url: string): GraphFixtureReply {
+    const response = findGraphFixtureResponse(fixture, method, url);
+    if (response) {
+        return { status: response.status, body: response.body };
+    }
+
+    return {
+        status: 404,
+        body: {
+            error: {
+                code: 'Request_ResourceNotFound',
+                message: `No response recorded for ${method.toUpperCase()} ${normalizeGraphUrl(url)} in Graph fixture '${fixture.scenario}'`
+            }
+        }
+    };
+}
+
+/**
+ * Answer a JSON $batch request by replaying each of its requests
+ */
+export function replayGraphBatch(fixture: GraphFixtureFile, batch: any): GraphFixtureReply {
+    const requests: any[] = Array.isArray(batch?.requests) ? batch.requests : [];
+
+    return {
+        status: 200,
+        body: {
+            responses: requests.map(request => {
+                const reply = replayGraphRequest(fixture, request.method || 'GET', request.url || '');
+                return {
+                    id: request.id,
+                    status: reply.status,
+                    headers: { 'Content-Type': 'application/json' },
+                    body: reply.body
+                };
+            })
+        }
+    };
+}
+
+export function isGraphBatchUrl(url: string): boolean {
+    return normalizeGraphUrl(url) === '/$batch';
+}
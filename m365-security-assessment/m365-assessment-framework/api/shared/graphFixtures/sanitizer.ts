@@ -0,0 +1,200 @@
+const GUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+const EMAIL_PATTERN = /([A-Za-z0-9._%+'-]+)(#EXT#)?@([A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,})/gi;
+const TENANT_DOMAIN_PATTERN = /\b[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.onmicrosoft\.com\b/gi;
+
+/**
+ * Identifiers that are the same in every tenant (SKUs, service plans, role templates,
+ * first-party apps). The analysis depends on them, so they are kept as recorded.
+ */
+const WELL_KNOWN_ID_KEYS = [
+    'skuId', 'servicePlanId', 'roleTemplateId', 'roleDefinitionId', 'templateId',
+    'includeRoles', 'excludeRoles', 'includeApplications', 'excludeApplications'
+];
+
+const SECRET_KEYS = ['secretText', 'clientSecret', 'password', 'accessToken', 'refreshToken', 'key', 'hint'];
+
+const CONTACT_KEYS = [
+    'businessPhones', 'mobilePhone', 'faxNumber', 'telephoneNumber', 'streetAddress', 'city',
+    'postalCode', 'street', 'officeLocation', 'phoneNumber', 'imei', 'serialNumber'
+];
+
+const PROFILE_KEYS = ['jobTitle', 'department', 'companyName', 'employeeId', 'employeeType', 'costCenter', 'division'];
+
+/** Sign-in, device and named location addresses */
+const IP_ADDRESS_KEYS = ['ipAddress', 'ipAddresses', 'cidrAddress', 'publicIpAddress', 'lastKnownIpAddress', 'ipv4Address', 'ipv6Address'];
+
+const PERSON_NAME_KEYS = ['givenName', 'surname', 'userDisplayName', 'principalDisplayName'];
+
+const REDACTED = '[redacted]';
+
+/**
+ * Replaces tenant-identifying data in recorded Graph responses: object ids, domains,
+ * user principal names, e-mail addresses, object names, job and contact details and
+ * IP addresses. Replacements are
+ * consistent for the life of the sanitizer, so ids and UPNs still join across responses
+ * (a role member's id matches the user's id, a nextLink matches the recorded page).
+ */
+export class GraphFixtureSanitizer {
+    private guids = new Map<string, string>();
+    private domains = new Map<string, string>();
+    private replacementDomains = new Set<string>();
+    private mailboxes = new Map<string, string>();
+    private aliases = new Map<string, Map<string, string>>();
+
+    sanitizeUrl(url: string): string {
+        return this.sanitizeString(url);
+    }
+
+    sanitize<T = any>(value: T): T {
+        return this.sanitizeValue(value, undefined, undefined);
+    }
+
+    private sanitizeValue(value: any, key: string | undefined, owner: any): any {
+        if (Array.isArray(value)) {
+            return value.map(item => this.sanitizeValue(item, key, owner));
+        }
+        if (value && typeof value === 'object') {
+            return Object.fromEntries(Object.entries(value).map(([childKey, childValue]) => [
+                childKey,
+                key === 'verifiedDomains' && childKey === 'name' && typeof childValue === 'string'
+                    ? this.domain(childValue)
+                    : this.sanitizeValue(childValue, childKey, value)
+            ]));
+        }
+        if (typeof value !== 'string' || !key) {
+            return typeof value === 'string' ? this.sanitizeString(value) : value;
+        }
+
+        if (SECRET_KEYS.includes(key) || CONTACT_KEYS.includes(key) || PROFILE_KEYS.includes(key) || IP_ADDRESS_KEYS.includes(key)) {
+            return REDACTED;
+        }
+        if (WELL_KNOWN_ID_KEYS.includes(key)) {
+            return value;
+        }
+        if (PERSON_NAME_KEYS.includes(key)) {
+            return this.alias('User', value);
+        }
+        if (key === 'displayName') {
+            return this.displayName(value, owner);
+        }
+        if (key === 'deviceName') {
+            return this.alias('Device', value);
+        }
+        return this.sanitizeString(value);
+    }
+
+    /**
+     * Built-in roles keep their names, which the privileged user analysis reports. Every other
+     * object is named by what it is: policy, group and app names often name the customer.
+     */
+    private displayName(value: string, owner: any): string {
+        if (owner?.roleTemplateId || owner?.isBuiltIn === true) {
+            return value;
+        }
+        return this.alias(this.objectKind(owner), value);
+    }
+
+    private objectKind(owner: any): string {
+        const type = String(owner?.['@odata.type'] || '').replace('#microsoft.graph.', '');
+
+        if (this.isPerson(owner)) {
+            return 'User';
+        }
+        if (Array.isArray(owner?.verifiedDomains)) {
+            return 'Organization';
+        }
+        if (type === 'conditionalAccessPolicy' || (owner?.conditions && owner?.grantControls !== undefined)) {
+            return 'Policy';
+        }
+        if (type === 'group' || Array.isArray(owner?.groupTypes)) {
+            return 'Group';
+        }
+        if (type === 'device' || owner?.deviceId || owner?.operatingSystem) {
+            return 'Device';
+        }
+        if (type === 'servicePrincipal' || type === 'application' || owner?.appId) {
+            return 'Application';
+        }
+        if (type.endsWith('NamedLocation') || Array.isArray(owner?.ipRanges) || Array.isArray(owner?.countriesAndRegions)) {
+            return 'Location';
+        }
+        return 'Object';
+    }
+
+    private isPerson(owner: any): boolean {
+        return Boolean(owner?.userPrincipalName) || owner?.['@odata.type'] === '#microsoft.graph.user';
+    }
+
+    private sanitizeString(value: string): string {
+        let result = value.replace(EMAIL_PATTERN, (_match, local: string, external: string | undefined, domain: string) =>
+            `${this.mailbox(local, Boolean(external))}@${this.domain(domain)}`);
+
+        result = result.replace(TENANT_DOMAIN_PATTERN, domain => this.domain(domain));
+        this.domains.forEach((replacement, domain) => {
+            result = result.replace(new RegExp(`\\b${domain.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'gi'), replacement);
+        });
+
+        return result.replace(GUID_PATTERN, guid => this.guid(guid));
+    }
+
+    private guid(value: string): string {
+        const key = value.toLowerCase();
+        let replacement = this.guids.get(key);
+        if (!replacement) {
+            replacement = `00000000-0000-4000-8000-${(this.guids.size + 1).toString(16).padStart(12, '0')}`;
+            this.guids.set(key, replacement);
+        }
+        return replacement;
+    }
+
+    private domain(value: string): string {
+        const key = value.toLowerCase();
+        // A domain replaced earlier in the same string, e.g. by the e-mail pass
+        if (this.replacementDomains.has(key)) {
+            return key;
+        }
+        let replacement = this.domains.get(key);
+        if (!replacement) {
+            const suffix = key.endsWith('.onmicrosoft.com') ? 'onmicrosoft.com' : 'example.com';
+            replacement = `tenant${this.domains.size + 1}.${suffix}`;
+            this.domains.set(key, replacement);
+            this.replacementDomains.add(replacement);
+        }
+        return replacement;
+    }
+
+    /**
+     * Guests keep their #EXT# marker and directory sync accounts their Sync_ prefix,
+     * since the identity analysis classifies users by them
+     */
+    private mailbox(local: string, external: boolean): string {
+        const key = `${local.toLowerCase()}${external ? '#ext#' : ''}`;
+        let replacement = this.mailboxes.get(key);
+        if (!replacement) {
+            const number = this.mailboxes.size + 1;
+            if (external) {
+                replacement = `guest${number}#EXT#`;
+            } else if (/^(Sync_|ADToAADSyncServiceAccount)/i.test(local)) {
+                replacement = `Sync_user${number}`;
+            } else {
+                replacement = `user${number}`;
+            }
+            this.mailboxes.set(key, replacement);
+        }
+        return replacement;
+    }
+
+    private alias(kind: string, value: string): string {
+        let names = this.aliases.get(kind);
+        if (!names) {
+            names = new Map<string, string>();
+            this.aliases.set(kind, names);
+        }
+        let replacement = names.get(value);
+        if (!replacement) {
+            replacement = `${kind} ${names.size + 1}`;
+            names.set(value, replacement);
+        }
+        return replacement;
+    }
+}
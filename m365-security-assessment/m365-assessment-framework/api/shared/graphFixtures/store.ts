@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GraphFixtureFile } from './types';
+
+const SCENARIO_NAME = /^[a-z0-9][a-z0-9-]*$/i;
+
+const loadedFixtures = new Map<string, GraphFixtureFile>();
+
+/**
+ * Directory holding the fixture files, from GRAPH_FIXTURES_DIR (default api/fixtures/graph)
+ */
+export function getGraphFixturesDir(): string {
+    return process.env.GRAPH_FIXTURES_DIR || path.resolve(__dirname, '../../fixtures/graph');
+}
+
+function fixturePath(scenario: string): string {
+    if (!SCENARIO_NAME.test(scenario)) {
+        throw new Error(`Invalid Graph fixture scenario '${scenario}': use letters, digits and dashes`);
+    }
+    return path.join(getGraphFixturesDir(), `${scenario}.json`);
+}
+
+export function graphFixtureExists(scenario: string): boolean {
+    return fs.existsSync(fixturePath(scenario));
+}
+
+/**
+ * Read a scenario's fixture file. Files are cached for the life of the process.
+ */
+export function loadGraphFixture(scenario: string): GraphFixtureFile {
+    const cached = loadedFixtures.get(scenario);
+    if (cached) {
+        return cached;
+    }
+
+    const file = fixturePath(scenario);
+    if (!fs.existsSync(file)) {
+        throw new Error(`No Graph fixtures for scenario '${scenario}' (${file}). Record them with GRAPH_FIXTURE_MODE=record or create them with 'npm run graph-fixtures'.`);
+    }
+
+    const fixture: GraphFixtureFile = JSON.parse(fs.readFileSync(file, 'utf8'));
+    loadedFixtures.set(scenario, fixture);
+    return fixture;
+}
+
+export function saveGraphFixture(fixture: GraphFixtureFile): string {
+    const file = fixturePath(fixture.scenario);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + '\n');
+    loadedFixtures.set(fixture.scenario, fixture);
+    return file;
+}
+
+export function listGraphFixtures(): GraphFixtureFile[] {
+    const dir = getGraphFixturesDir();
+    if (!fs.existsSync(dir)) {
+        return [];
+    }
+    return fs.readdirSync(dir)
+        .filter(name => name.endsWith('.json'))
+        .sort()
+        .map(name => loadGraphFixture(name.replace(/\.json$/, '')));
+}
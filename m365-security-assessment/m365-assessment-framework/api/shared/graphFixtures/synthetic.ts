@@ -0,0 +1,217 @@
+import { GLOBAL_ADMINISTRATOR_ROLE } from '../conditionalAccess';
+import { GraphFixtureFile, GraphFixtureResponse } from './types';
+
+export interface SyntheticTenantOptions {
+    /** Member accounts, admins included; every member gets a Business Premium license */
+    users: number;
+    /** Members assigned the Global Administrator role */
+    admins: number;
+    guests?: number;
+    /** Members registered for MFA, admins first */
+    mfaRegistered?: number;
+    /** Members whose account is disabled, taken from the end of the list */
+    disabledUsers?: number;
+    /** Members that have not signed in for more than 90 days, taken before the disabled ones */
+    inactiveUsers?: number;
+    devices?: number;
+    compliantDevices?: number;
+    /** Adds an enabled "Require MFA for administrators" Conditional Access policy */
+    adminMfaPolicy?: boolean;
+    domain?: string;
+    description?: string;
+}
+
+const BUSINESS_PREMIUM_SKU = {
+    skuId: 'cbdc14ab-d96c-4c30-b9f4-6ada7cdc1d46',
+    skuPartNumber: 'SPB',
+    servicePlans: [
+        { servicePlanId: '9aaf7827-d63c-4b61-89c3-182f06f82e5c', servicePlanName: 'EXCHANGE_S_STANDARD' },
+        { servicePlanId: '41781fb2-bc02-4b7c-bd55-b576c07bb09d', servicePlanName: 'AAD_PREMIUM' },
+        { servicePlanId: 'c1ec4a95-1f05-45b3-a911-aa3fa01094f5', servicePlanName: 'INTUNE_A' },
+        { servicePlanId: 'f20fedf3-f3c3-43c3-8267-2bfdd51c0939', servicePlanName: 'ATP_ENTERPRISE' }
+    ]
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PIM_SCHEDULE_URLS = [
+    '/roleManagement/directory/roleEligibilitySchedules',
+    '/roleManagement/directory/roleEligibilitySchedules?$expand=principal,roleDefinition',
+    '/roleManagement/directory/roleAssignmentSchedules?$expand=principal,roleDefinition'
+];
+
+const PIM_LICENSE_REQUIRED = {
+    error: { code: 'AadPremiumLicenseRequired', message: 'The tenant needs an AAD Premium 2 license.' }
+};
+
+/**
+ * Fixture file for a made-up tenant, answering every read the assessment collectors make.
+ * The tenant has no Entra ID P2, so the PIM schedule reads get the error Graph returns
+ * for them and privileged users come from the directory role members.
+ */
+export function buildSyntheticTenant(scenario: string, options: SyntheticTenantOptions): GraphFixtureFile {
+    const domain = options.domain || 'tenant1.onmicrosoft.com';
+    const guests = options.guests || 0;
+    const admins = Math.min(options.admins, options.users);
+    const mfaRegistered = Math.min(options.mfaRegistered || 0, options.users);
+    const disabledUsers = Math.min(options.disabledUsers || 0, options.users - admins);
+    const inactiveUsers = Math.min(options.inactiveUsers || 0, options.users - admins - disabledUsers);
+    const devices = options.devices || 0;
+    const compliantDevices = Math.min(options.compliantDevices ?? Math.ceil(devices / 2), devices);
+    const now = Date.now();
+
+    let nextId = 0;
+    const newId = () => `00000000-0000-4000-8000-${(++nextId).toString(16).padStart(12, '0')}`;
+    const tenantId = newId();
+    const daysAgo = (days: number) => new Date(now - days * DAY_MS).toISOString();
+
+    const members = Array.from({ length: options.users }, (_, index) => {
+        const number = index + 1;
+        const isAdmin = index < admins;
+        const isDisabled = index >= options.users - disabledUsers;
+        const isInactive = !isDisabled && index >= options.users - disabledUsers - inactiveUsers;
+        return {
+            id: newId(),
+            userPrincipalName: isAdmin ? `admin${number}@${domain}` : `user${number}@${domain}`,
+            displayName: isAdmin ? `Admin ${number}` : `User ${number}`,
+            userType: 'Member',
+            accountEnabled: !isDisabled,
+            createdDateTime: daysAgo(365),
+            assignedLicenses: [{ skuId: BUSINESS_PREMIUM_SKU.skuId, disabledPlans: [] }],
+            signInActivity: { lastSignInDateTime: daysAgo(isInactive ? 120 : (index % 7) + 1) },
+            isAdmin,
+            isMfaRegistered: index < mfaRegistered
+        };
+    });
+
+    const guestUsers = Array.from({ length: guests }, (_, index) => ({
+        id: newId(),
+        userPrincipalName: `guest${index + 1}_example.com#EXT#@${domain}`,
+        displayName: `Guest ${index + 1}`,
+        userType: 'Guest',
+        accountEnabled: true,
+        createdDateTime: daysAgo(90),
+        assignedLicenses: [],
+        signInActivity: { lastSignInDateTime: daysAgo(30) },
+        isAdmin: false,
+        isMfaRegistered: false
+    }));
+
+    const allUsers = [...members, ...guestUsers];
+    const toUser = ({ isAdmin, isMfaRegistered, ...user }: typeof allUsers[number]) => user;
+
+    const globalAdministrators = { id: newId(), displayName: 'Global Administrator', roleTemplateId: GLOBAL_ADMINISTRATOR_ROLE };
+    const userAdministrators = { id: newId(), displayName: 'User Administrator', roleTemplateId: 'fe930be7-5e62-47db-91af-98c3a49a38b1' };
+
+    const platforms = ['Windows', 'iOS', 'Android', 'macOS'];
+    const managedDevices = Array.from({ length: devices }, (_, index) => ({
+        id: newId(),
+        deviceName: `DEVICE-${String(index + 1).padStart(3, '0')}`,
+        complianceState: index < compliantDevices ? 'compliant' : 'noncompliant',
+        operatingSystem: platforms[index % platforms.length],
+        lastSyncDateTime: daysAgo(index % 3)
+    }));
+
+    const conditionalAccessPolicies = options.adminMfaPolicy ? [{
+        id: newId(),
+        displayName: 'Require MFA for administrators',
+        state: 'enabled',
+        conditions: {
+            users: { includeUsers: [], excludeUsers: [], includeGroups: [], excludeGroups: [], includeRoles: [GLOBAL_ADMINISTRATOR_ROLE], excludeRoles: [] },
+            applications: { includeApplications: ['All'], excludeApplications: [] },
+            clientAppTypes: ['all']
+        },
+        grantControls: { operator: 'OR', builtInControls: ['mfa'] }
+    }] : [];
+
+    const adminMfaScore = admins > 0 && members.slice(0, admins).every(user => user.isMfaRegistered) ? 10 : 0;
+    const userMfaScore = Math.round((mfaRegistered / Math.max(options.users, 1)) * 9);
+    const controlScores = [
+        { controlName: 'AdminMFAV2', controlCategory: 'Identity', score: adminMfaScore, description: 'Ensure multifactor authentication is enabled for all users in administrative roles' },
+        { controlName: 'MFARegistrationV2', controlCategory: 'Identity', score: userMfaScore, description: 'Ensure all users can complete multifactor authentication' },
+        { controlName: 'BlockLegacyAuthentication', controlCategory: 'Identity', score: 0, description: 'Enable policy to block legacy authentication' },
+        { controlName: 'OneAdmin', controlCategory: 'Identity', score: admins > 1 ? 1 : 0, description: 'Designate more than one global admin' }
+    ];
+    const controlProfiles = [
+        { id: 'AdminMFAV2', title: 'Ensure multifactor authentication is enabled for all users in administrative roles', maxScore: 10, controlCategory: 'Identity', implementationCost: 'Low', userImpact: 'Low', tier: 'Core', service: 'AzureAD' },
+        { id: 'MFARegistrationV2', title: 'Ensure all users can complete multifactor authentication', maxScore: 9, controlCategory: 'Identity', implementationCost: 'Moderate', userImpact: 'Moderate', tier: 'Core', service: 'AzureAD' },
+        { id: 'BlockLegacyAuthentication', title: 'Enable policy to block legacy authentication', maxScore: 8, controlCategory: 'Identity', implementationCost: 'Moderate', userImpact: 'Moderate', tier: 'Core', service: 'AzureAD' },
+        { id: 'OneAdmin', title: 'Designate more than one global admin', maxScore: 1, controlCategory: 'Identity', implementationCost: 'Low', userImpact: 'Low', tier: 'Core', service: 'AzureAD' }
+    ];
+    const currentScore = controlScores.reduce((sum, control) => sum + control.score, 0);
+    const maxScore = controlProfiles.reduce((sum, profile) => sum + profile.maxScore, 0);
+
+    const collection = (value: any[]) => ({ value });
+    const get = (url: string, body: any, status: number = 200): GraphFixtureResponse => ({ method: 'GET', url, status, body });
+
+    return {
+        scenario,
+        description: options.description,
+        source: 'synthetic',
+        createdAt: new Date(now).toISOString(),
+        responses: [
+            get('/organization', collection([{
+                id: tenantId,
+                displayName: 'Organization 1',
+                tenantType: 'AAD',
+                verifiedDomains: [{ name: domain, isDefault: true, isInitial: true, type: 'Managed', capabilities: 'Email, OfficeCommunicationsOnline' }]
+            }])),
+            get('/security/secureScores', collection([{
+                id: `${tenantId}_${new Date(now).toISOString().slice(0, 10)}`,
+                azureTenantId: tenantId,
+                createdDateTime: new Date(now).toISOString(),
+                currentScore,
+                maxScore,
+                activeUserCount: options.users - disabledUsers,
+                licensedUserCount: options.users,
+                controlScores
+            }])),
+            get('/security/secureScoreControlProfiles', collection(controlProfiles)),
+            get('/subscribedSkus', collection([{
+                id: `${tenantId}_${BUSINESS_PREMIUM_SKU.skuId}`,
+                skuId: BUSINESS_PREMIUM_SKU.skuId,
+                skuPartNumber: BUSINESS_PREMIUM_SKU.skuPartNumber,
+                appliesTo: 'User',
+                capabilityStatus: 'Enabled',
+                consumedUnits: options.users,
+                prepaidUnits: { enabled: options.users + 5, suspended: 0, warning: 0 },
+                servicePlans: BUSINESS_PREMIUM_SKU.servicePlans.map(plan => ({ ...plan, provisioningStatus: 'Success', appliesTo: 'User' }))
+            }])),
+            get('/users', collection(allUsers.map(toUser))),
+            get('/users?$filter=assignedLicenses/$count ne 0', collection(members.map(toUser))),
+            get('/users/$count', allUsers.length),
+            get('/directoryRoles', collection([globalAdministrators, userAdministrators])),
+            get(`/directoryRoles/${globalAdministrators.id}/members`, collection(members.slice(0, admins).map(user => ({
+                '@odata.type': '#microsoft.graph.user',
+                id: user.id,
+                displayName: user.displayName,
+                userPrincipalName: user.userPrincipalName
+            })))),
+            get(`/directoryRoles/${userAdministrators.id}/members`, collection([])),
+            get('/identity/conditionalAccess/policies', collection(conditionalAccessPolicies)),
+            get('/reports/authenticationMethods/userRegistrationDetails', collection(allUsers.map(user => ({
+                id: user.id,
+                userPrincipalName: user.userPrincipalName,
+                userDisplayName: user.displayName,
+                userType: user.userType.toLowerCase(),
+                isAdmin: user.isAdmin,
+                isMfaRegistered: user.isMfaRegistered,
+                isMfaCapable: user.isMfaRegistered,
+                isPasswordlessCapable: false,
+                isSsprRegistered: user.isMfaRegistered,
+                methodsRegistered: user.isMfaRegistered ? ['microsoftAuthenticatorPush'] : []
+            })))),
+            get('/policies/authenticationMethodsPolicy', {
+                id: 'authenticationMethodsPolicy',
+                displayName: 'Authentication Methods Policy',
+                authenticationMethodConfigurations: [
+                    { '@odata.type': '#microsoft.graph.microsoftAuthenticatorAuthenticationMethodConfiguration', id: 'MicrosoftAuthenticator', state: 'enabled', includeTargets: [{ targetType: 'group', id: 'all_users' }] },
+                    { '@odata.type': '#microsoft.graph.smsAuthenticationMethodConfiguration', id: 'Sms', state: 'disabled', includeTargets: [] },
+                    { '@odata.type': '#microsoft.graph.fido2AuthenticationMethodConfiguration', id: 'Fido2', state: 'disabled', includeTargets: [] }
+                ]
+            }),
+            get('/deviceManagement/managedDevices', collection(managedDevices)),
+            ...PIM_SCHEDULE_URLS.map(url => get(url, PIM_LICENSE_REQUIRED, 400))
+        ]
+    };
+}
@@ -0,0 +1,27 @@
+export type GraphFixtureMode = 'record' | 'replay';
+
+/** One recorded Graph response, matched on method and URL when replayed */
+export interface GraphFixtureResponse {
+    method: string;
+    /** Relative URL without the API version, e.g. /users?$top=999 */
+    url: string;
+    status: number;
+    body: any;
+}
+
+/**
+ * Sanitized Graph responses of one tenant, stored as fixtures/graph/<scenario>.json
+ */
+export interface GraphFixtureFile {
+    scenario: string;
+    description?: string;
+    source: 'recorded' | 'synthetic';
+    createdAt: string;
+    responses: GraphFixtureResponse[];
+}
+
+/** Response produced from a fixture file, for the replay handler and the stand-in server */
+export interface GraphFixtureReply {
+    status: number;
+    body: any;
+}
@@ -0,0 +1,371 @@
+import { Client, RetryHandlerOptions } from "@microsoft/microsoft-graph-client";
+
+export const DEFAULT_GRAPH_MAX_CONCURRENCY = 4;
+export const DEFAULT_GRAPH_MAX_RETRIES = 5;
+
+// Graph accepts at most 20 requests in one JSON batch
+const GRAPH_BATCH_LIMIT = 20;
+const RETRYABLE_STATUS_CODES = [429, 503, 504];
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+const DEFAULT_MAX_PAGED_ITEMS = 50000;
+
+export interface GraphRequestOptions {
+    headers?: Record<string, string>;
+}
+
+export interface GraphPagingOptions extends GraphRequestOptions {
+    /** Stop following @odata.nextLink once this many items have been read */
+    maxItems?: number;
+}
+
+export interface GraphBatchRequest {
+    /** Unique within the call; responses are keyed by it */
+    id: string;
+    /** Relative URL without the API version, e.g. /directoryRoles/{id}/members */
+    url: string;
+    headers?: Record<string, string>;
+}
+
+export interface GraphBatchResponse<T = any> {
+    id: string;
+    status: number;
+    body: T;
+}
+
+export interface GraphEndpointStats {
+    requests: number;
+    totalLatencyMs: number;
+    maxLatencyMs: number;
+}
+
+export interface GraphRequestStats extends GraphEndpointStats {
+    /** Requests sent inside $batch calls; each batch also counts as one request */
+    batchedRequests: number;
+    retries: number;
+    throttled: number;
+    failed: number;
+    byEndpoint: Record<string, GraphEndpointStats>;
+}
+
+/**
+ * Bounds the number of requests in flight. Shared by every client of the same tenant and
+ * concurrency setting, since Graph throttles per app and tenant.
+ */
+class ConcurrencyLimiter {
+    private active = 0;
+    private waiting: Array<() => void> = [];
+
+    constructor(private limit: number) {}
+
+    get idle(): boolean {
+        return this.active === 0 && this.waiting.length === 0;
+    }
+
+    async run<T>(task: () => Promise<T>): Promise<T> {
+        await this.acquire();
+        try {
+            return await task();
+        } finally {
+            this.release();
+        }
+    }
+
+    private acquire(): Promise<void> {
+        if (this.active < this.limit) {
+            this.active++;
+            return Promise.resolve();
+        }
+        return new Promise(resolve => this.waiting.push(resolve));
+    }
+
+    private release(): void {
+        // Hand the slot straight to the next waiter
+        const next = this.waiting.shift();
+        if (next) {
+            next();
+        } else {
+            this.active--;
+        }
+    }
+}
+
+// Keyed by tenant and concurrency limit; a limiter is dropped as soon as it has nothing in flight
+const tenantLimiters = new Map<string, ConcurrencyLimiter>();
+
+async function runForTenant<T>(tenantId: string, maxConcurrency: number, task: () => Promise<T>): Promise<T> {
+    const key = `${tenantId}:${maxConcurrency}`;
+    let limiter = tenantLimiters.get(key);
+    if (!limiter) {
+        limiter = new ConcurrencyLimiter(maxConcurrency);
+        tenantLimiters.set(key, limiter);
+    }
+
+    try {
+        return await limiter.run(task);
+    } finally {
+        if (limiter.idle && tenantLimiters.get(key) === limiter) {
+            tenantLimiters.delete(key);
+        }
+    }
+}
+
+/**
+ * Number of tenant limiters with requests in flight or waiting
+ */
+export function getActiveGraphLimiterCount(): number {
+    return tenantLimiters.size;
+}
+
+/**
+ * Requests allowed in flight per tenant, from GRAPH_MAX_CONCURRENCY
+ */
+export function getGraphMaxConcurrency(): number {
+    const limit = parseInt(process.env.GRAPH_MAX_CONCURRENCY || '', 10);
+    return limit > 0 ? limit : DEFAULT_GRAPH_MAX_CONCURRENCY;
+}
+
+/**
+ * Retries of a throttled or unavailable request, from GRAPH_MAX_RETRIES
+ */
+export function getGraphMaxRetries(): number {
+    const retries = parseInt(process.env.GRAPH_MAX_RETRIES || '', 10);
+    return retries >= 0 ? retries : DEFAULT_GRAPH_MAX_RETRIES;
+}
+
+function getHeader(headers: any, name: string): string | undefined {
+    if (!headers) {
+        return undefined;
+    }
+    if (typeof headers.get === 'function') {
+        return headers.get(name) ?? undefined;
+    }
+    const key = Object.keys(headers).find(header => header.toLowerCase() === name.toLowerCase());
+    return key ? String(headers[key]) : undefined;
+}
+
+/**
+ * Delay before the next attempt: Retry-After (seconds or an HTTP date) when Graph sent one,
+ * otherwise exponential backoff with jitter
+ */
+export function getRetryDelayMs(retryAfter: string | undefined, attempt: number): number {
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        const delay = isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+        if (!isNaN(delay)) {
+            return Math.min(Math.max(delay, 0), MAX_RETRY_DELAY_MS);
+        }
+    }
+    const backoff = BASE_RETRY_DELAY_MS * Math.pow(2, attempt);
+    return Math.min(backoff + Math.random() * BASE_RETRY_DELAY_MS, MAX_RETRY_DELAY_MS);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Graph returns absolute nextLinks; the client resolves paths against its own base URL
+ */
+function toRelativeUrl(url: string): string {
+    return url.replace(/^https:\/\/graph\.microsoft\.com\/(v1\.0|beta)/i, '');
+}
+
+/**
+ * Stats key for a request: the path without query string, with ids collapsed
+ */
+function endpointOf(url: string): string {
+    return toRelativeUrl(url)
+        .split('?')[0]
+        .replace(/\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}(?=\/|$)/gi, '/{id}');
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+}
+
+/**
+ * Request layer for one tenant's Microsoft Graph client: retries 429/503/504 responses
+ * honouring Retry-After, caps concurrent requests per tenant, follows @odata.nextLink and
+ * groups fan-out reads into JSON $batch calls. Every request is counted and timed.
+ */
+export class GraphRequestClient {
+    private maxConcurrency: number;
+    private maxRetries: number;
+    private stats: GraphRequestStats = {
+        requests: 0,
+        totalLatencyMs: 0,
+        maxLatencyMs: 0,
+        batchedRequests: 0,
+        retries: 0,
+        throttled: 0,
+        failed: 0,
+        byEndpoint: {}
+    };
+
+    constructor(
+        private client: Client,
+        private tenantId: string,
+        options: { maxConcurrency?: number; maxRetries?: number } = {}
+    ) {
+        this.maxConcurrency = options.maxConcurrency ?? getGraphMaxConcurrency();
+        this.maxRetries = options.maxRetries ?? getGraphMaxRetries();
+    }
+
+    async get<T = any>(url: string, options: GraphRequestOptions = {}): Promise<T> {
+        const path = toRelativeUrl(url);
+        return this.send(path, () => this.client
+            .api(path)
+            .headers(options.headers || {})
+            // Retries are handled here, so the SDK's own retry handler must not stack on top
+            .middlewareOptions([new RetryHandlerOptions(0, 0)])
+            .get());
+    }
+
+    /**
+     * Read every page of a collection
+     */
+    async getAll<T = any>(url: string, options: GraphPagingOptions = {}): Promise<T[]> {
+        const maxItems = options.maxItems ?? DEFAULT_MAX_PAGED_ITEMS;
+        const items: T[] = [];
+        let nextLink: string | undefined = url;
+
+        while (nextLink) {
+            const page: any = await this.get(nextLink, options);
+            items.push(...(page?.value || []));
+
+            if (items.length >= maxItems) {
+                console.log(`⚠️ GraphRequestClient: Reached limit of ${maxItems} items for ${endpointOf(url)}, stopping pagination`);
+                break;
+            }
+            nextLink = page?.['@odata.nextLink'];
+        }
+
+        return items;
+    }
+
+    /**
+     * Send GET requests as JSON batches of up to 20. Throttled requests inside a batch, and
+     * requests the batch response left out, are retried; any other status is returned to the
+     * caller as is. Requests still left out once the retries are used up fail the call.
+     */
+    async batch<T = any>(requests: GraphBatchRequest[]): Promise<Map<string, GraphBatchResponse<T>>> {
+        const responses = new Map<string, GraphBatchResponse<T>>();
+
+        await Promise.all(chunk(requests, GRAPH_BATCH_LIMIT).map(async batchRequests => {
+            let pending = batchRequests;
+
+            for (let attempt = 0; pending.length > 0; attempt++) {
+                this.stats.batchedRequests += pending.length;
+                const result: any = await this.send('/$batch', () => this.client
+                    .api('/$batch')
+                    .middlewareOptions([new RetryHandlerOptions(0, 0)])
+                    .post({
+                        requests: pending.map(request => ({
+                            id: request.id,
+                            method: 'GET',
+                            url: toRelativeUrl(request.url),
+                            ...(request.headers ? { headers: request.headers } : {})
+                        }))
+                    }));
+
+                const retry: GraphBatchRequest[] = [];
+                let retryAfter: string | undefined;
+                const answered = new Set<string>();
+
+                (result?.responses || []).forEach((response: any) => {
+                    const request = pending.find(r => r.id === response.id);
+                    if (!request) {
+                        return;
+                    }
+                    answered.add(request.id);
+                    if (RETRYABLE_STATUS_CODES.includes(response.status) && attempt < this.maxRetries) {
+                        retry.push(request);
+                        retryAfter = getHeader(response.headers, 'Retry-After') ?? retryAfter;
+                        this.stats.retries++;
+                        if (response.status === 429) {
+                            this.stats.throttled++;
+                        }
+                    } else {
+                        responses.set(response.id, { id: response.id, status: response.status, body: response.body });
+                    }
+                });
+
+                const missing = pending.filter(request => !answered.has(request.id));
+                if (missing.length > 0) {
+                    if (attempt >= this.maxRetries) {
+                        this.stats.failed += missing.length;
+                        throw new Error(`Graph $batch returned no response for ${missing.map(request => request.url).join(', ')} after ${attempt + 1} attempts`);
+                    }
+                    retry.push(...missing);
+                    this.stats.retries += missing.length;
+                }
+
+                if (retry.length > 0) {
+                    const delay = getRetryDelayMs(retryAfter, attempt);
+                    console.warn(`⏳ GraphRequestClient: ${retry.length} batched requests throttled or unanswered for tenant ${this.tenantId}, retrying in ${Math.round(delay)}ms`);
+                    await sleep(delay);
+                }
+                pending = retry;
+            }
+        }));
+
+        return responses;
+    }
+
+    /**
+     * Requests, retries and latency since the client was created
+     */
+    getStats(): GraphRequestStats {
+        return {
+            ...this.stats,
+            byEndpoint: Object.fromEntries(Object.entries(this.stats.byEndpoint).map(([endpoint, stats]) => [endpoint, { ...stats }]))
+        };
+    }
+
+    /**
+     * Each attempt holds a concurrency slot; the wait before a retry does not, so one throttled
+     * request does not hold up the tenant's other requests
+     */
+    private async send<T>(url: string, request: () => Promise<T>): Promise<T> {
+        const endpoint = endpointOf(url);
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await runForTenant(this.tenantId, this.maxConcurrency, async () => {
+                    const startTime = Date.now();
+                    try {
+                        return await request();
+                    } finally {
+                        this.record(endpoint, Date.now() - startTime);
+                    }
+                });
+            } catch (error: any) {
+                const status = error?.statusCode;
+                if (!RETRYABLE_STATUS_CODES.includes(status) || attempt >= this.maxRetries) {
+                    this.stats.failed++;
+                    throw error;
+                }
+
+                this.stats.retries++;
+                if (status === 429) {
+                    this.stats.throttled++;
+                }
+                const delay = getRetryDelayMs(getHeader(error.headers, 'Retry-After'), attempt);
+                console.warn(`⏳ GraphRequestClient: ${status} from ${endpoint} for tenant ${this.tenantId}, retry ${attempt + 1}/${this.maxRetries} in ${Math.round(delay)}ms`);
+                await sleep(delay);
+            }
+        }
+    }
+
+    private record(endpoint: string, latencyMs: number): void {
+        const endpointStats = this.stats.byEndpoint[endpoint] ||= { requests: 0, totalLatencyMs: 0, maxLatencyMs: 0 };
+        [this.stats, endpointStats].forEach(stats => {
+            stats.requests++;
+            stats.totalLatencyMs += latencyMs;
+            stats.maxLatencyMs = Math.max(stats.maxLatencyMs, latencyMs);
+        });
+    }
+}
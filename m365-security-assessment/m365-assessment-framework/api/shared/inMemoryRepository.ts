@@ -0,0 +1,673 @@
+import { randomUUID } from 'crypto';
+import { AssessmentRepository, AssessmentScheduleUpdate, FindingExceptionInput } from './assessmentRepository';
+import { prepareAssessmentDocument } from './assessmentDocument';
+import { MIGRATIONS, MigrationStatus } from './migrations';
+import {
+    Assessment,
+    AssessmentHistory,
+    AssessmentHistoryInput,
+    AssessmentProgress,
+    AssessmentSchedule,
+    AssessmentScheduleInput,
+    AlertDelivery,
+    AlertRule,
+    AlertRuleInput,
+    AssignmentScope,
+    AuditLogEntry,
+    AuditLogQuery,
+    Customer,
+    CustomerAssignment,
+    CustomerLicensePrice,
+    FindingException,
+    ScoringProfile,
+    ScoringWeights,
+    SecretRotationRecord,
+    SecurityFinding
+} from './types';
+
+const SEVERITY_ORDER: Record<string, number> = { critical: 0, high: 1, medium: 2 };
+
+/** Copy in and out so callers can never mutate stored records, as with a real database */
+const copy = <T>(value: T): T => structuredClone(value);
+
+const newestFirst = <T>(dateOf: (item: T) => Date | string) =>
+    (a: T, b: T) => new Date(dateOf(b)).getTime() - new Date(dateOf(a)).getTime();
+
+const oldestFirst = <T>(dateOf: (item: T) => Date | string) =>
+    (a: T, b: T) => new Date(dateOf(a)).getTime() - new Date(dateOf(b)).getTime();
+
+/**
+ * Process-local implementation of the repository, selected with DATA_STORE=memory. Mirrors the
+ * PostgreSQL behaviour the routes rely on - ordering, defaults, cascading customer deletes -
+ * so every route can run end to end without a database. Data is lost on restart.
+ */
+export class InMemoryAssessmentRepository implements AssessmentRepository {
+    private customers = new Map<string, Customer>();
+    private assessments = new Map<string, Assessment>();
+    private history: AssessmentHistory[] = [];
+    private findings: SecurityFinding[] = [];
+    private findingExceptions: FindingException[] = [];
+    private scoringProfiles = new Map<string, ScoringProfile>();
+    private licensePrices: CustomerLicensePrice[] = [];
+    private secretRotations: SecretRotationRecord[] = [];
+    private schedules = new Map<string, AssessmentSchedule>();
+    private alertRules = new Map<string, AlertRule>();
+    private alertDeliveries: AlertDelivery[] = [];
+    private assignments: CustomerAssignment[] = [];
+    private auditLog: AuditLogEntry[] = [];
+
+    async initialize(): Promise<void> {
+        // Nothing to connect to
+    }
+
+    /** Drop all data, e.g. between tests */
+    reset(): void {
+        this.customers.clear();
+        this.assessments.clear();
+        this.history = [];
+        this.findings = [];
+        this.findingExceptions = [];
+        this.scoringProfiles.clear();
+        this.licensePrices = [];
+        this.secretRotations = [];
+        this.schedules.clear();
+        this.alertRules.clear();
+        this.alertDeliveries = [];
+        this.assignments = [];
+        this.auditLog = [];
+    }
+
+    /**
+     * Customers
+     */
+    async getCustomers(options?: { status?: string; limit?: number; assignedTo?: AssignmentScope }): Promise<{ customers: Customer[]; total: number }> {
+        const assigned = options?.assignedTo && this.assignedCustomerIds(options.assignedTo);
+        const matching = [...this.customers.values()]
+            .filter(customer => !options?.status || customer.status === options.status)
+            .filter(customer => !assigned || assigned.has(customer.id))
+            .sort(newestFirst(customer => customer.createdDate));
+
+        return {
+            customers: copy(options?.limit ? matching.slice(0, options.limit) : matching),
+            total: matching.length
+        };
+    }
+
+    async getCustomer(customerId: string): Promise<Customer | null> {
+        const customer = this.customers.get(customerId);
+        return customer ? copy(customer) : null;
+    }
+
+    async getCustomerByDomain(domain: string): Promise<Customer | null> {
+        return this.findCustomer(customer => customer.tenantDomain === domain);
+    }
+
+    async getCustomerByTenantId(tenantId: string): Promise<Customer | null> {
+        return this.findCustomer(customer => customer.tenantId === tenantId);
+    }
+
+    async getCustomerByClientId(clientId: string): Promise<Customer | null> {
+        return this.findCustomer(customer => customer.appRegistration?.clientId === clientId);
+    }
+
+    async createCustomer(customerRequest: any, appRegistration: any): Promise<Customer> {
+        const customer: Customer = {
+            id: randomUUID(),
+            tenantId: customerRequest.tenantId || '',
+            tenantName: customerRequest.tenantName,
+            tenantDomain: customerRequest.tenantDomain,
+            contactEmail: customerRequest.contactEmail || '',
+            notes: customerRequest.notes || '',
+            status: 'active',
+            createdDate: new Date(),
+            totalAssessments: 0,
+            appRegistration: appRegistration,
+            authMethod: 'secret'
+        };
+
+        this.customers.set(customer.id, copy(customer));
+        return customer;
+    }
+
+    async updateCustomer(customerId: string, updates: Partial<Customer>): Promise<Customer> {
+        const customer = this.customers.get(customerId);
+        if (!customer) {
+            throw new Error('Customer not found');
+        }
+
+        const { id, createdDate, ...editable } = updates;
+        const defined = Object.fromEntries(Object.entries(editable).filter(([, value]) => value !== undefined));
+        if (Object.keys(defined).length === 0) {
+            throw new Error('No valid fields to update');
+        }
+
+        const updated: Customer = { ...customer, ...copy(defined) };
+        if (!updated.branding) {
+            // Setting branding to null clears it
+            delete updated.branding;
+        }
+        this.customers.set(customerId, updated);
+        return copy(updated);
+    }
+
+    async deleteCustomer(customerId: string): Promise<void> {
+        if (!this.customers.delete(customerId)) {
+            throw new Error('Customer not found');
+        }
+
+        // Same as ON DELETE CASCADE on every customer_id column; the audit log is kept
+        const otherCustomer = <T extends { customerId?: string }>(item: T) => item.customerId !== customerId;
+        [...this.assessments.values()].filter(a => a.customerId === customerId).forEach(a => this.assessments.delete(a.id));
+        [...this.schedules.values()].filter(s => s.customerId === customerId).forEach(s => this.schedules.delete(s.id));
+        [...this.alertRules.values()].filter(r => r.customerId === customerId).forEach(r => this.alertRules.delete(r.id));
+        this.scoringProfiles.delete(customerId);
+        this.history = this.history.filter(otherCustomer);
+        this.findings = this.findings.filter(otherCustomer);
+        this.findingExceptions = this.findingExceptions.filter(otherCustomer);
+        this.licensePrices = this.licensePrices.filter(otherCustomer);
+        this.secretRotations = this.secretRotations.filter(otherCustomer);
+        this.alertDeliveries = this.alertDeliveries.filter(otherCustomer);
+        this.assignments = this.assignments.filter(otherCustomer);
+    }
+
+    /**
+     * Assessments
+     */
+    async getAssessments(options?: {
+        customerId?: string;
+        tenantId?: string;
+        status?: string;
+        limit?: number;
+        assignedTo?: AssignmentScope;
+    }): Promise<{ assessments: Assessment[]; total: number }> {
+        const assigned = options?.assignedTo && this.assignedCustomerIds(options.assignedTo);
+        const matching = [...this.assessments.values()]
+            .filter(a => !options?.customerId || a.customerId === options.customerId)
+            .filter(a => !options?.tenantId || a.tenantId === options.tenantId)
+            .filter(a => !options?.status || a.status === options.status)
+            .filter(a => !assigned || assigned.has(a.customerId))
+            .sort(newestFirst(a => a.date));
+
+        return {
+            assessments: copy(options?.limit ? matching.slice(0, options.limit) : matching),
+            total: matching.length
+        };
+    }
+
+    async getCustomerAssessments(customerId: string, options?: { status?: string; limit?: number }): Promise<{ assessments: Assessment[] }> {
+        const { assessments } = await this.getAssessments({ customerId, status: options?.status, limit: options?.limit });
+        return { assessments };
+    }
+
+    async getAssessmentById(assessmentId: string): Promise<Assessment | null> {
+        const assessment = this.assessments.get(assessmentId);
+        return assessment ? copy(assessment) : null;
+    }
+
+    async getAssessmentCustomerId(assessmentId: string): Promise<string | null> {
+        return this.assessments.get(assessmentId)?.customerId || null;
+    }
+
+    async getPreviousCompletedAssessmentId(customerId: string, excludeAssessmentId: string, before: Date): Promise<string | null> {
+        const previous = [...this.assessments.values()]
+            .filter(a => a.customerId === customerId && a.id !== excludeAssessmentId && a.status === 'completed')
+            .filter(a => new Date(a.date).getTime() <= new Date(before).getTime())
+            .sort(newestFirst(a => a.date))[0];
+        return previous?.id || null;
+    }
+
+    async createAssessment(assessmentData: any): Promise<Assessment> {
+        const metrics = prepareAssessmentDocument(assessmentData.metrics, { score: assessmentData.score, tenantId: assessmentData.tenantId });
+        const customer = this.customers.get(assessmentData.customerId);
+        if (!customer) {
+            throw new Error('Failed to create assessment: customer does not exist');
+        }
+
+        const assessment: Assessment = {
+            id: randomUUID(),
+            customerId: assessmentData.customerId,
+            tenantId: assessmentData.tenantId,
+            date: new Date(),
+            status: assessmentData.status || 'completed',
+            score: assessmentData.score || 0,
+            metrics: copy(metrics),
+            recommendations: copy(assessmentData.recommendations || [])
+        };
+
+        this.assessments.set(assessment.id, assessment);
+        customer.totalAssessments = (customer.totalAssessments || 0) + 1;
+        customer.lastAssessmentDate = new Date();
+        return copy(assessment);
+    }
+
+    async updateAssessment(assessmentId: string, customerId: string, assessmentData: any): Promise<Assessment> {
+        const metrics = prepareAssessmentDocument(assessmentData.metrics, { score: assessmentData.score, tenantId: assessmentData.tenantId });
+        const assessment = this.assessments.get(assessmentId);
+        if (!assessment || assessment.customerId !== customerId) {
+            throw new Error('Assessment not found');
+        }
+
+        assessment.status = assessmentData.status || 'completed';
+        assessment.score = assessmentData.score || 0;
+        assessment.metrics = copy(metrics);
+        assessment.recommendations = copy(assessmentData.recommendations || []);
+        return copy(assessment);
+    }
+
+    async updateAssessmentProgress(assessmentId: string, progress: AssessmentProgress): Promise<void> {
+        const assessment = this.assessments.get(assessmentId);
+        if (assessment) {
+            assessment.metrics = { ...(assessment.metrics || {}), progress: copy(progress) };
+        }
+    }
+
+    /**
+     * Assessment history
+     */
+    async getAssessmentHistory(options?: { tenantId?: string; customerId?: string; limit?: number; assignedTo?: AssignmentScope }): Promise<AssessmentHistory[]> {
+        const assigned = options?.assignedTo && this.assignedCustomerIds(options.assignedTo);
+        const matching = this.history
+            .filter(h => !options?.tenantId || h.tenantId === options.tenantId)
+            .filter(h => !options?.customerId || h.customerId === options.customerId)
+            .filter(h => !assigned || assigned.has(h.customerId))
+            .sort(newestFirst(h => h.date));
+        return copy(options?.limit ? matching.slice(0, options.limit) : matching);
+    }
+
+    async storeAssessmentHistory(historyData: AssessmentHistoryInput): Promise<void> {
+        this.history.push(copy({
+            ...historyData,
+            id: historyData.id || randomUUID(),
+            categoryScores: historyData.categoryScores || {}
+        }));
+    }
+
+    /**
+     * Findings and exceptions
+     */
+    async storeFindings(assessment: Pick<Assessment, 'id' | 'customerId' | 'tenantId'>, findings: SecurityFinding[]): Promise<void> {
+        // Re-running the rules for an assessment replaces its previous findings
+        this.findings = this.findings.filter(f => f.assessmentId !== assessment.id);
+
+        const now = new Date();
+        findings.forEach(finding => {
+            const { exception, ...stored } = copy(finding);
+            this.findings.push({
+                ...stored,
+                id: finding.id || randomUUID(),
+                assessmentId: assessment.id,
+                customerId: assessment.customerId,
+                tenantId: assessment.tenantId,
+                findingKey: finding.findingKey || `${finding.ruleId}:tenant`,
+                lifecycle: finding.lifecycle || 'new',
+                firstSeenAt: finding.firstSeenAt || now,
+                affectedResources: stored.affectedResources || [],
+                evidence: stored.evidence || {},
+                status: finding.status || 'open',
+                createdAt: now
+            });
+        });
+    }
+
+    async getAssessmentFindings(assessmentId: string): Promise<SecurityFinding[]> {
+        const now = Date.now();
+
+        return this.findings
+            .filter(f => f.assessmentId === assessmentId)
+            .sort((a, b) => (SEVERITY_ORDER[a.severity] ?? 3) - (SEVERITY_ORDER[b.severity] ?? 3)
+                || new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+            .map(finding => {
+                const exception = this.findingExceptions
+                    .filter(e => e.customerId === finding.customerId && e.findingKey === finding.findingKey)
+                    .filter(e => !e.revokedAt && new Date(e.expiresAt).getTime() > now)
+                    .sort(newestFirst(e => e.createdAt))[0];
+                return copy(exception ? { ...finding, exception } : finding);
+            });
+    }
+
+    async getFindingById(findingId: string): Promise<SecurityFinding | null> {
+        const finding = this.findings.find(f => f.id === findingId);
+        return finding ? copy(finding) : null;
+    }
+
+    async getFindingFirstSeen(customerId: string): Promise<Map<string, Date>> {
+        const firstSeen = new Map<string, Date>();
+        this.findings
+            .filter(f => f.customerId === customerId && f.lifecycle !== 'resolved')
+            .forEach(f => {
+                const seen = firstSeen.get(f.findingKey);
+                if (!seen || new Date(f.firstSeenAt).getTime() < seen.getTime()) {
+                    firstSeen.set(f.findingKey, new Date(f.firstSeenAt));
+                }
+            });
+        return firstSeen;
+    }
+
+    async getLatestFindings(customerId: string, excludeAssessmentId: string, before: Date): Promise<SecurityFinding[]> {
+        const earlier = [...this.assessments.values()]
+            .filter(a => a.customerId === customerId && a.id !== excludeAssessmentId && a.status === 'completed')
+            .filter(a => new Date(a.date).getTime() <= new Date(before).getTime())
+            .sort(newestFirst(a => a.date));
+
+        const latest = new Map<string, SecurityFinding>();
+        earlier.forEach(assessment => {
+            this.findings
+                .filter(f => f.assessmentId === assessment.id && !latest.has(f.findingKey))
+                .forEach(f => latest.set(f.findingKey, copy(f)));
+        });
+        return [...latest.values()];
+    }
+
+    async getActiveFindingExceptions(customerId: string): Promise<FindingException[]> {
+        const now = Date.now();
+        return copy(this.findingExceptions
+            .filter(e => e.customerId === customerId && !e.revokedAt && new Date(e.expiresAt).getTime() > now)
+            .sort(newestFirst(e => e.createdAt)));
+    }
+
+    async createFindingException(finding: SecurityFinding, exception: FindingExceptionInput): Promise<FindingException> {
+        this.revokeExceptions(finding);
+
+        const created: FindingException = {
+            id: randomUUID(),
+            customerId: finding.customerId,
+            findingKey: finding.findingKey,
+            type: exception.type,
+            justification: exception.justification,
+            expiresAt: exception.expiresAt,
+            createdBy: exception.createdBy,
+            createdAt: new Date()
+        };
+        this.findingExceptions.push(copy(created));
+
+        const stored = this.findings.find(f => f.id === finding.id);
+        if (stored) {
+            stored.status = 'acknowledged';
+        }
+        return created;
+    }
+
+    async revokeFindingException(finding: SecurityFinding): Promise<void> {
+        this.revokeExceptions(finding);
+
+        const stored = this.findings.find(f => f.id === finding.id);
+        if (stored?.status === 'acknowledged') {
+            stored.status = 'open';
+        }
+    }
+
+    /**
+     * Scoring and license pricing
+     */
+    async getScoringProfile(customerId: string): Promise<ScoringProfile | null> {
+        const profile = this.scoringProfiles.get(customerId);
+        return profile ? copy(profile) : null;
+    }
+
+    async saveScoringProfile(customerId: string, weights: ScoringWeights, updatedBy?: string): Promise<ScoringProfile> {
+        const profile: ScoringProfile = { customerId, weights: copy(weights), updatedBy, updatedAt: new Date() };
+        this.scoringProfiles.set(customerId, profile);
+        return copy(profile);
+    }
+
+    async deleteScoringProfile(customerId: string): Promise<void> {
+        this.scoringProfiles.delete(customerId);
+    }
+
+    async getCustomerLicensePrices(customerId: string): Promise<CustomerLicensePrice[]> {
+        return copy(this.licensePrices
+            .filter(p => p.customerId === customerId)
+            .sort((a, b) => a.skuPartNumber.localeCompare(b.skuPartNumber)));
+    }
+
+    async saveCustomerLicensePrice(price: Omit<CustomerLicensePrice, 'updatedAt'>): Promise<CustomerLicensePrice> {
+        const saved: CustomerLicensePrice = { ...price, updatedAt: new Date() };
+        this.licensePrices = this.licensePrices
+            .filter(p => p.customerId !== price.customerId || p.skuPartNumber !== price.skuPartNumber)
+            .concat(copy(saved));
+        return saved;
+    }
+
+    async deleteCustomerLicensePrice(customerId: string, skuPartNumber: string): Promise<void> {
+        this.licensePrices = this.licensePrices.filter(p => p.customerId !== customerId || p.skuPartNumber !== skuPartNumber);
+    }
+
+    /**
+     * Secret rotation
+     */
+    async recordSecretRotation(record: Omit<SecretRotationRecord, 'id' | 'createdAt'>): Promise<SecretRotationRecord> {
+        const saved: SecretRotationRecord = { ...copy(record), id: randomUUID(), createdAt: new Date() };
+        this.secretRotations.push(saved);
+        return copy(saved);
+    }
+
+    async getSecretRotations(options?: { customerId?: string; limit?: number }): Promise<SecretRotationRecord[]> {
+        return copy(this.secretRotations
+            .filter(r => !options?.customerId || r.customerId === options.customerId)
+            .sort(newestFirst(r => r.createdAt))
+            .slice(0, options?.limit || 50));
+    }
+
+    /**
+     * Assessment schedules
+     */
+    async getAssessmentSchedules(customerId: string): Promise<AssessmentSchedule[]> {
+        return copy([...this.schedules.values()]
+            .filter(s => s.customerId === customerId)
+            .sort(oldestFirst(s => s.createdAt)));
+    }
+
+    async getAssessmentSchedule(scheduleId: string): Promise<AssessmentSchedule | null> {
+        const schedule = this.schedules.get(scheduleId);
+        return schedule ? copy(schedule) : null;
+    }
+
+    async getDueAssessmentSchedules(now: Date, limit: number = 20): Promise<AssessmentSchedule[]> {
+        return copy([...this.schedules.values()]
+            .filter(s => s.enabled && new Date(s.nextRunAt).getTime() <= now.getTime())
+            .sort(oldestFirst(s => s.nextRunAt))
+            .slice(0, limit));
+    }
+
+    async getNextScheduledRuns(): Promise<Record<string, string>> {
+        const nextRuns: Record<string, string> = {};
+        [...this.schedules.values()]
+            .filter(s => s.enabled)
+            .forEach(s => {
+                if (!nextRuns[s.customerId] || s.nextRunAt < nextRuns[s.customerId]) {
+                    nextRuns[s.customerId] = new Date(s.nextRunAt).toISOString();
+                }
+            });
+        return nextRuns;
+    }
+
+    async createAssessmentSchedule(
+        customerId: string,
+        input: AssessmentScheduleInput,
+        nextRunAt: string,
+        createdBy?: string
+    ): Promise<AssessmentSchedule> {
+        const now = new Date();
+        const schedule: AssessmentSchedule = {
+            ...copy(input),
+            id: randomUUID(),
+            customerId,
+            nextRunAt: new Date(nextRunAt).toISOString(),
+            retryCount: 0,
+            createdBy,
+            createdAt: now,
+            updatedAt: now
+        };
+        this.schedules.set(schedule.id, schedule);
+        return copy(schedule);
+    }
+
+    async updateAssessmentSchedule(scheduleId: string, updates: AssessmentScheduleUpdate): Promise<AssessmentSchedule> {
+        const schedule = this.schedules.get(scheduleId);
+        if (!schedule) {
+            throw new Error('Assessment schedule not found');
+        }
+
+        // Fields explicitly set to undefined by the caller are left untouched, null clears them
+        const defined = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+        if (Object.keys(defined).length === 0) {
+            throw new Error('No valid fields to update');
+        }
+
+        const updated: AssessmentSchedule = { ...schedule, ...copy(defined), updatedAt: new Date() };
+        Object.keys(updated).forEach(key => {
+            if ((updated as any)[key] === null) {
+                delete (updated as any)[key];
+            }
+        });
+        this.schedules.set(scheduleId, updated);
+        return copy(updated);
+    }
+
+    async deleteAssessmentSchedule(scheduleId: string): Promise<void> {
+        this.schedules.delete(scheduleId);
+    }
+
+    /**
+     * Alerts
+     */
+    async getAlertRules(customerId: string, options?: { enabledOnly?: boolean }): Promise<AlertRule[]> {
+        return copy([...this.alertRules.values()]
+            .filter(r => r.customerId === customerId && (!options?.enabledOnly || r.enabled))
+            .sort(oldestFirst(r => r.createdAt)));
+    }
+
+    async getAlertRule(ruleId: string): Promise<AlertRule | null> {
+        const rule = this.alertRules.get(ruleId);
+        return rule ? copy(rule) : null;
+    }
+
+    async createAlertRule(customerId: string, input: AlertRuleInput, createdBy?: string): Promise<AlertRule> {
+        const now = new Date();
+        const rule: AlertRule = { ...copy(input), id: randomUUID(), customerId, createdBy, createdAt: now, updatedAt: now };
+        this.alertRules.set(rule.id, rule);
+        return copy(rule);
+    }
+
+    async updateAlertRule(ruleId: string, input: AlertRuleInput): Promise<AlertRule> {
+        const rule = this.alertRules.get(ruleId);
+        if (!rule) {
+            throw new Error('Alert rule not found');
+        }
+
+        const updated: AlertRule = {
+            ...rule,
+            type: input.type,
+            threshold: input.threshold ?? undefined,
+            channels: copy(input.channels),
+            enabled: input.enabled,
+            updatedAt: new Date()
+        };
+        this.alertRules.set(ruleId, updated);
+        return copy(updated);
+    }
+
+    async deleteAlertRule(ruleId: string): Promise<void> {
+        this.alertRules.delete(ruleId);
+    }
+
+    async recordAlertDelivery(delivery: Omit<AlertDelivery, 'id' | 'createdAt'>): Promise<AlertDelivery> {
+        const saved: AlertDelivery = { ...copy(delivery), id: randomUUID(), createdAt: new Date() };
+        this.alertDeliveries.push(saved);
+        return copy(saved);
+    }
+
+    async getAlertDeliveries(customerId: string, limit: number = 50): Promise<AlertDelivery[]> {
+        return copy(this.alertDeliveries
+            .filter(d => d.customerId === customerId)
+            .sort(newestFirst(d => d.createdAt))
+            .slice(0, limit));
+    }
+
+    /**
+     * Customer assignments
+     */
+    async getCustomerAssignments(customerId: string): Promise<CustomerAssignment[]> {
+        return copy(this.assignments
+            .filter(a => a.customerId === customerId)
+            .sort(oldestFirst(a => a.assignedAt)));
+    }
+
+    async getAssignedCustomerIds(scope: AssignmentScope): Promise<string[]> {
+        return [...this.assignedCustomerIds(scope)];
+    }
+
+    async assignCustomer(customerId: string, userId: string, userPrincipalName?: string, assignedBy?: string): Promise<CustomerAssignment> {
+        if (!this.customers.has(customerId)) {
+            throw new Error(`Customer ${customerId} does not exist`);
+        }
+
+        const assignment: CustomerAssignment = { customerId, userId, userPrincipalName, assignedBy, assignedAt: new Date() };
+        this.assignments = this.assignments
+            .filter(a => a.customerId !== customerId || a.userId !== userId)
+            .concat(assignment);
+        return copy(assignment);
+    }
+
+    async unassignCustomer(customerId: string, userId: string): Promise<boolean> {
+        const before = this.assignments.length;
+        this.assignments = this.assignments.filter(a => a.customerId !== customerId || a.userId !== userId);
+        return this.assignments.length < before;
+    }
+
+    /**
+     * Audit log
+     */
+    async recordAuditEvent(entry: Omit<AuditLogEntry, 'id' | 'occurredAt'>): Promise<AuditLogEntry> {
+        const saved: AuditLogEntry = { ...copy(entry), id: randomUUID(), occurredAt: new Date() };
+        this.auditLog.push(saved);
+        return copy(saved);
+    }
+
+    async getAuditLog(query: AuditLogQuery = {}): Promise<{ entries: AuditLogEntry[]; total: number }> {
+        const matching = this.auditLog
+            .filter(e => !query.customerId || e.customerId === query.customerId)
+            .filter(e => !query.actor || e.actor.toLowerCase() === query.actor.toLowerCase())
+            .filter(e => !query.action || e.action === query.action)
+            .filter(e => !query.targetType || e.targetType === query.targetType)
+            .filter(e => !query.from || e.occurredAt >= new Date(query.from))
+            .filter(e => !query.to || e.occurredAt <= new Date(query.to))
+            .sort(newestFirst(e => e.occurredAt));
+
+        const offset = query.offset || 0;
+        return {
+            entries: copy(matching.slice(offset, offset + (query.limit || 100))),
+            total: matching.length
+        };
+    }
+
+    // There is no schema to migrate - the store always has the shape of this build
+    async getMigrationStatus(): Promise<MigrationStatus[]> {
+        return MIGRATIONS.map(migration => ({
+            version: migration.version,
+            description: migration.description,
+            applied: true,
+            checksumMismatch: false,
+            unknown: false
+        }));
+    }
+
+    private findCustomer(predicate: (customer: Customer) => boolean): Customer | null {
+        const customer = [...this.customers.values()].find(predicate);
+        return customer ? copy(customer) : null;
+    }
+
+    private assignedCustomerIds(scope: AssignmentScope): Set<string> {
+        const upn = scope.userPrincipalName?.toLowerCase();
+        return new Set(this.assignments
+            .filter(a => (scope.objectId && a.userId === scope.objectId) || (upn && a.userPrincipalName?.toLowerCase() === upn))
+            .map(a => a.customerId));
+    }
+
+    private revokeExceptions(finding: SecurityFinding): void {
+        const now = new Date();
+        this.findingExceptions
+            .filter(e => e.customerId === finding.customerId && e.findingKey === finding.findingKey && !e.revokedAt)
+            .forEach(e => { e.revokedAt = now; });
+    }
+}
@@ -119,6 +119,49 @@ export class KeyVaultService {
         }
     }
 
+    /**
+     * Store a PEM certificate (private key + certificate) used for certificate authentication
+     * Kept as a PEM secret so getCertificate reads it back the same way
+     */
+    async storeCertificate(certificateName: string, pem: string, metadata?: Record<string, string>): Promise<void> {
+        try {
+            await this.client.setSecret(certificateName, pem, {
+                contentType: 'application/x-pem-file',
+                tags: {
+                    type: 'client-certificate',
+                    createdBy: 'M365AssessmentFramework',
+                    ...metadata
+                }
+            });
+        } catch (error) {
+            throw new Error(`Failed to store certificate: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Retrieve a PEM certificate including its private key
+     * Used to authenticate to customer tenants with certificate credentials
+     */
+    async getCertificate(certificateName: string): Promise<string> {
+        try {
+            const secretResponse = await this.client.getSecret(certificateName);
+
+            if (!secretResponse.value) {
+                throw new Error(`No certificate value found for ${certificateName}`);
+            }
+            if (secretResponse.properties.contentType === 'application/x-pkcs12') {
+                throw new Error(`Certificate ${certificateName} is stored as PFX - import it with the PEM content type`);
+            }
+
+            return secretResponse.value;
+        } catch (error) {
+            if ((error as any).code === 'SecretNotFound') {
+                throw new Error(`Certificate not found: ${certificateName}`);
+            }
+            throw new Error(`Failed to retrieve certificate: ${(error as Error).message}`);
+        }
+    }
+
     /**
      * Store assessment API configuration
      * Used for storing external API keys and configuration
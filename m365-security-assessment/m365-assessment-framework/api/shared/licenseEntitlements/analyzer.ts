@@ -0,0 +1,46 @@
+import { LicenseCollectorResult } from "../collectors";
+import { LicenseEntitlementAnalysis, SecurityFeatureEntitlement } from "../types";
+import { SECURITY_FEATURES } from "./features";
+
+/**
+ * Security features the subscribed SKUs include, each cross-checked against the collected
+ * data for evidence that it is actually used. Service plans that are disabled on a SKU
+ * do not count as an entitlement.
+ */
+export function analyzeEntitlements(realData: Record<string, any>): LicenseEntitlementAnalysis {
+    const licenseInfo: LicenseCollectorResult | undefined = realData.licenseInfo;
+    const skuServicePlans = licenseInfo?.servicePlans || [];
+
+    const features: SecurityFeatureEntitlement[] = [];
+
+    SECURITY_FEATURES.forEach(feature => {
+        const entitledBy = skuServicePlans
+            .filter(sku => sku.servicePlans.some(plan =>
+                feature.servicePlans.includes(plan.servicePlanName) && plan.provisioningStatus !== 'Disabled'
+            ))
+            .map(sku => sku.skuPartNumber);
+
+        if (entitledBy.length === 0) {
+            return;
+        }
+
+        const result = feature.check
+            ? feature.check(realData)
+            : { status: 'not-checked' as const, evidence: 'Usage cannot be verified through Microsoft Graph - review it in the admin portal' };
+
+        features.push({
+            featureId: feature.id,
+            name: feature.name,
+            entitledBy,
+            servicePlans: feature.servicePlans,
+            status: result.status,
+            evidence: result.evidence
+        });
+    });
+
+    return {
+        features,
+        unusedFeatures: features.filter(feature => feature.status === 'not-configured').length,
+        evaluatedAt: new Date().toISOString()
+    };
+}
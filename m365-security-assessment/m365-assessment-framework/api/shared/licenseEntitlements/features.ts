@@ -0,0 +1,157 @@
+import { EndpointMetrics, IdentityMetrics, PolicyConfiguration, SecureScoreCollectorResult } from "../collectors";
+import { summarizePolicy } from "../conditionalAccess";
+import { SecurityFeatureStatus } from "../types";
+
+export interface FeatureCheckResult {
+    status: SecurityFeatureStatus;
+    evidence: string;
+}
+
+/**
+ * A security capability and the service plans that entitle a tenant to it.
+ * `check` looks for evidence of use in the collected `metrics.realData`.
+ */
+export interface SecurityFeature {
+    id: string;
+    name: string;
+    servicePlans: string[];
+    check?(realData: Record<string, any>): FeatureCheckResult;
+}
+
+// A collector result that is missing, skipped or failed cannot confirm anything
+const isCollected = (data: any): boolean =>
+    !!data && !data.skipped && !data.unavailable && !data.error;
+
+const notCollected = (category: string): FeatureCheckResult => ({
+    status: 'unknown',
+    evidence: `The ${category} category was not collected`
+});
+
+const enabledPolicies = (realData: Record<string, any>) => {
+    const policyConfiguration: PolicyConfiguration | undefined = realData.policyConfiguration;
+    return isCollected(policyConfiguration)
+        ? policyConfiguration.conditionalAccessPolicies.map(summarizePolicy).filter(policy => policy.state === 'enabled')
+        : null;
+};
+
+// Secure Score prefixes the Defender for Office 365 controls with mdo_
+const DEFENDER_FOR_OFFICE_CONTROL_PREFIX = 'mdo_';
+
+const checkDefenderForOffice = (realData: Record<string, any>): FeatureCheckResult => {
+    const secureScore: SecureScoreCollectorResult | undefined = realData.secureScore;
+    if (!isCollected(secureScore)) {
+        return notCollected('Secure Score');
+    }
+
+    const controls = secureScore.controlScores.filter((control: any) =>
+        String(control.controlName || '').toLowerCase().startsWith(DEFENDER_FOR_OFFICE_CONTROL_PREFIX)
+    );
+    if (controls.length === 0) {
+        return { status: 'unknown', evidence: 'Secure Score reports no Defender for Office 365 controls' };
+    }
+
+    const implemented = controls.filter((control: any) => (control.currentScore ?? control.score ?? 0) > 0);
+    return {
+        status: implemented.length > 0 ? 'configured' : 'not-configured',
+        evidence: `${implemented.length} of ${controls.length} Defender for Office 365 Secure Score controls implemented`
+    };
+};
+
+export const SECURITY_FEATURES: SecurityFeature[] = [
+    {
+        id: 'intune',
+        name: 'Microsoft Intune device management',
+        servicePlans: ['INTUNE_A', 'INTUNE_A_VL', 'INTUNE_SMBIZ', 'INTUNE_EDU'],
+        check(realData) {
+            const endpointMetrics: EndpointMetrics | undefined = realData.endpointMetrics;
+            if (!isCollected(endpointMetrics)) {
+                return notCollected('endpoint');
+            }
+            return {
+                status: endpointMetrics.totalDevices > 0 ? 'configured' : 'not-configured',
+                evidence: `${endpointMetrics.totalDevices} devices managed by Intune`
+            };
+        }
+    },
+    {
+        id: 'conditionalAccess',
+        name: 'Entra ID P1 Conditional Access',
+        servicePlans: ['AAD_PREMIUM'],
+        check(realData) {
+            const policies = enabledPolicies(realData);
+            if (!policies) {
+                return notCollected('compliance');
+            }
+            return {
+                status: policies.length > 0 ? 'configured' : 'not-configured',
+                evidence: `${policies.length} enabled Conditional Access policies`
+            };
+        }
+    },
+    {
+        id: 'identityProtection',
+        name: 'Entra ID Protection risk-based policies',
+        servicePlans: ['AAD_PREMIUM_P2'],
+        check(realData) {
+            const policies = enabledPolicies(realData);
+            if (!policies) {
+                return notCollected('compliance');
+            }
+            const riskPolicies = policies.filter(policy => policy.userRiskLevels.length > 0 || policy.signInRiskLevels.length > 0);
+            return {
+                status: riskPolicies.length > 0 ? 'configured' : 'not-configured',
+                evidence: `${riskPolicies.length} enabled Conditional Access policies use user or sign-in risk`
+            };
+        }
+    },
+    {
+        id: 'pim',
+        name: 'Privileged Identity Management',
+        servicePlans: ['AAD_PREMIUM_P2'],
+        check(realData) {
+            const identityMetrics: IdentityMetrics | undefined = realData.identityMetrics;
+            if (!isCollected(identityMetrics)) {
+                return notCollected('identity');
+            }
+            if (identityMetrics.pimEligibleAssignments === null || identityMetrics.pimEligibleAssignments === undefined) {
+                return { status: 'unknown', evidence: 'PIM role eligibility could not be read' };
+            }
+            return {
+                status: identityMetrics.pimEligibleAssignments > 0 ? 'configured' : 'not-configured',
+                evidence: `${identityMetrics.pimEligibleAssignments} eligible (just-in-time) role assignments`
+            };
+        }
+    },
+    {
+        id: 'defenderForOfficeP1',
+        name: 'Defender for Office 365 Plan 1',
+        servicePlans: ['ATP_ENTERPRISE'],
+        check: checkDefenderForOffice
+    },
+    {
+        id: 'defenderForOfficeP2',
+        name: 'Defender for Office 365 Plan 2',
+        servicePlans: ['THREAT_INTELLIGENCE'],
+        check: checkDefenderForOffice
+    },
+    {
+        id: 'defenderForEndpoint',
+        name: 'Defender for Endpoint',
+        servicePlans: ['WINDEFATP', 'MDE_LITE', 'MDE_SMB']
+    },
+    {
+        id: 'defenderForIdentity',
+        name: 'Defender for Identity',
+        servicePlans: ['ATA']
+    },
+    {
+        id: 'defenderForCloudApps',
+        name: 'Defender for Cloud Apps',
+        servicePlans: ['ADALLOM_S_STANDALONE', 'ADALLOM_S_O365']
+    },
+    {
+        id: 'informationProtection',
+        name: 'Purview Information Protection',
+        servicePlans: ['MIP_S_CLP1', 'MIP_S_CLP2', 'RMS_S_PREMIUM', 'RMS_S_PREMIUM2']
+    }
+];
@@ -0,0 +1,3 @@
+export { analyzeEntitlements } from "./analyzer";
+export { SECURITY_FEATURES } from "./features";
+export type { SecurityFeature, FeatureCheckResult } from "./features";
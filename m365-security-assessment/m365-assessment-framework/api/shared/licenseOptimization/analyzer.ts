@@ -0,0 +1,159 @@
+import { LicenseOptimizationAnalysis, LicenseReclaimCandidate, LicenseReclaimReason } from "../types";
+import { findOverlappingSkus, isPaidSku } from "./overlaps";
+
+// Microsoft's own inactive-user guidance uses 90 days
+export const DEFAULT_INACTIVE_THRESHOLD_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const REASON_ORDER: LicenseReclaimReason[] = ['disabled', 'never-signed-in', 'inactive', 'overlapping'];
+
+export interface LicenseAssignmentInput {
+    /** /subscribedSkus, used to resolve the skuIds of the assignments */
+    skus: any[];
+    /** /users with assignedLicenses and, when available, signInActivity */
+    users: any[];
+    signInActivityAvailable: boolean;
+    inactiveThresholdDays?: number;
+    now?: Date;
+}
+
+/**
+ * Latest interactive, non-interactive or successful sign-in of a user
+ */
+export function getLastSignIn(user: any): string | null {
+    const activity = user.signInActivity || {};
+    const signIns = [
+        activity.lastSignInDateTime,
+        activity.lastNonInteractiveSignInDateTime,
+        activity.lastSuccessfulSignInDateTime
+    ].filter((value): value is string => !!value && !isNaN(Date.parse(value)));
+
+    if (signIns.length === 0) {
+        return null;
+    }
+    return signIns.reduce((latest, value) => Date.parse(value) > Date.parse(latest) ? value : latest);
+}
+
+const formatDate = (value: string): string => value.substring(0, 10);
+
+/**
+ * Find licensed users whose paid licenses can be reclaimed: disabled accounts, users without
+ * a sign-in within the threshold and SKUs that are already included in another assigned SKU.
+ * Each user is listed once, under the first matching reason of REASON_ORDER.
+ */
+export function analyzeLicenseAssignments(input: LicenseAssignmentInput): LicenseOptimizationAnalysis {
+    const now = input.now || new Date();
+    const inactiveThresholdDays = input.inactiveThresholdDays || DEFAULT_INACTIVE_THRESHOLD_DAYS;
+    const cutoff = now.getTime() - inactiveThresholdDays * DAY_MS;
+
+    const skuPartNumbers = new Map<string, string>(
+        input.skus.map((sku: any) => [sku.skuId, sku.skuPartNumber || sku.skuId])
+    );
+
+    const candidates: LicenseReclaimCandidate[] = [];
+    let licensedUsers = 0;
+
+    input.users.forEach(user => {
+        const assigned: string[] = (user.assignedLicenses || [])
+            .map((license: any) => skuPartNumbers.get(license.skuId) || license.skuId)
+            .filter(Boolean);
+        if (assigned.length === 0) {
+            return;
+        }
+        licensedUsers++;
+
+        const paidSkus = assigned.filter(isPaidSku);
+        if (paidSkus.length === 0) {
+            return;
+        }
+
+        const lastSignInDateTime = getLastSignIn(user);
+        const candidate = {
+            userId: user.id,
+            userPrincipalName: user.userPrincipalName,
+            displayName: user.displayName,
+            accountEnabled: user.accountEnabled !== false,
+            lastSignInDateTime
+        };
+
+        if (user.accountEnabled === false) {
+            candidates.push({
+                ...candidate,
+                reason: 'disabled',
+                reclaimableSkus: paidSkus,
+                detail: `Account is disabled but still holds ${paidSkus.length} paid license${paidSkus.length === 1 ? '' : 's'}`
+            });
+            return;
+        }
+
+        if (input.signInActivityAvailable) {
+            const createdAt = user.createdDateTime ? Date.parse(user.createdDateTime) : NaN;
+
+            // Accounts created within the threshold may simply not have been used yet
+            if (!lastSignInDateTime && (isNaN(createdAt) || createdAt < cutoff)) {
+                candidates.push({
+                    ...candidate,
+                    reason: 'never-signed-in',
+                    reclaimableSkus: paidSkus,
+                    detail: user.createdDateTime
+                        ? `Never signed in since the account was created on ${formatDate(user.createdDateTime)}`
+                        : 'No recorded sign-in'
+                });
+                return;
+            }
+
+            if (lastSignInDateTime && Date.parse(lastSignInDateTime) < cutoff) {
+                candidates.push({
+                    ...candidate,
+                    reason: 'inactive',
+                    reclaimableSkus: paidSkus,
+                    detail: `No sign-in for more than ${inactiveThresholdDays} days (last sign-in ${formatDate(lastSignInDateTime)})`
+                });
+                return;
+            }
+        }
+
+        const overlaps = findOverlappingSkus(paidSkus);
+        if (overlaps.length > 0) {
+            // Name only the SKUs the user keeps, e.g. E5 rather than an E3 that is reclaimed as well
+            const reclaimed = new Set(overlaps.map(overlap => overlap.skuPartNumber));
+            const supersededBy = Array.from(new Set(overlaps.flatMap(overlap => overlap.supersededBy)))
+                .filter(sku => !reclaimed.has(sku));
+            candidates.push({
+                ...candidate,
+                reason: 'overlapping',
+                reclaimableSkus: overlaps.map(overlap => overlap.skuPartNumber),
+                supersededBy,
+                detail: overlaps
+                    .map(overlap => `${overlap.skuPartNumber} is included in ${overlap.supersededBy.join(', ')}`)
+                    .join('; ')
+            });
+        }
+    });
+
+    candidates.sort((a, b) =>
+        REASON_ORDER.indexOf(a.reason) - REASON_ORDER.indexOf(b.reason) ||
+        String(a.userPrincipalName).localeCompare(String(b.userPrincipalName))
+    );
+
+    const reclaimableBySku: Record<string, number> = {};
+    candidates.forEach(candidate => candidate.reclaimableSkus.forEach(sku => {
+        reclaimableBySku[sku] = (reclaimableBySku[sku] || 0) + 1;
+    }));
+
+    const byReason = Object.fromEntries(REASON_ORDER.map(reason => [
+        reason,
+        candidates.filter(candidate => candidate.reason === reason).length
+    ])) as Record<LicenseReclaimReason, number>;
+
+    return {
+        licensedUsers,
+        inactiveThresholdDays,
+        signInActivityAvailable: input.signInActivityAvailable,
+        candidates,
+        reclaimableBySku,
+        byReason,
+        analyzedAt: now.toISOString()
+    };
+}
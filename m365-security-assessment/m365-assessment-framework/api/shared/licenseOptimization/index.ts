@@ -0,0 +1,3 @@
+export { analyzeLicenseAssignments, getLastSignIn, DEFAULT_INACTIVE_THRESHOLD_DAYS } from "./analyzer";
+export { findOverlappingSkus, isPaidSku, SUPERSEDING_SKUS } from "./overlaps";
+export type { LicenseAssignmentInput } from "./analyzer";
@@ -0,0 +1,60 @@
+import { estimateListPrice, getCatalogEntry } from "../licensePricing";
+
+/**
+ * SKUs whose service plans are fully included in other SKUs (skuPartNumber -> including SKUs).
+ * A user holding both only needs the including one.
+ */
+export const SUPERSEDING_SKUS: Record<string, string[]> = {
+    // Suites
+    'SPE_E3': ['SPE_E5'],
+    'ENTERPRISEPREMIUM': ['SPE_E5'],
+    'ENTERPRISEPACK': ['SPE_E3', 'SPE_E5', 'ENTERPRISEPREMIUM'],
+    'STANDARDPACK': ['ENTERPRISEPACK', 'ENTERPRISEPREMIUM', 'SPE_E3', 'SPE_E5'],
+    'OFFICESUBSCRIPTION': ['SPE_E3', 'SPE_E5', 'ENTERPRISEPACK', 'ENTERPRISEPREMIUM'],
+    'O365_BUSINESS': ['O365_BUSINESS_PREMIUM', 'SPB', 'OFFICESUBSCRIPTION'],
+    'O365_BUSINESS_ESSENTIALS': ['O365_BUSINESS_PREMIUM', 'SPB'],
+    'O365_BUSINESS_PREMIUM': ['SPB'],
+
+    // Exchange
+    'EXCHANGESTANDARD': ['EXCHANGEENTERPRISE', 'STANDARDPACK', 'ENTERPRISEPACK', 'ENTERPRISEPREMIUM', 'SPE_E3', 'SPE_E5', 'O365_BUSINESS_ESSENTIALS', 'O365_BUSINESS_PREMIUM', 'SPB'],
+    'EXCHANGEENTERPRISE': ['ENTERPRISEPACK', 'ENTERPRISEPREMIUM', 'SPE_E3', 'SPE_E5'],
+    'EXCHANGEARCHIVE_ADDON': ['ENTERPRISEPACK', 'ENTERPRISEPREMIUM', 'SPE_E3', 'SPE_E5', 'SPB'],
+
+    // Identity and security
+    'AAD_PREMIUM': ['AAD_PREMIUM_P2', 'EMS', 'EMSPREMIUM', 'SPE_E3', 'SPE_E5', 'SPB'],
+    'AAD_PREMIUM_P2': ['EMSPREMIUM', 'SPE_E5'],
+    'EMS': ['EMSPREMIUM', 'SPE_E3', 'SPE_E5'],
+    'EMSPREMIUM': ['SPE_E5'],
+    'INTUNE_A': ['EMS', 'EMSPREMIUM', 'SPE_E3', 'SPE_E5', 'SPB'],
+    'ATP_ENTERPRISE': ['THREAT_INTELLIGENCE', 'ENTERPRISEPREMIUM', 'SPE_E5', 'SPB'],
+    'THREAT_INTELLIGENCE': ['ENTERPRISEPREMIUM', 'SPE_E5'],
+    'IDENTITY_THREAT_PROTECTION': ['SPE_E5'],
+    'INFORMATION_PROTECTION_COMPLIANCE': ['SPE_E5'],
+
+    // Teams voice and Power BI
+    'MCOEV': ['ENTERPRISEPREMIUM', 'SPE_E5'],
+    'MCOMEETADV': ['ENTERPRISEPREMIUM', 'SPE_E5'],
+    'POWER_BI_PRO': ['PBI_PREMIUM_PER_USER', 'ENTERPRISEPREMIUM', 'SPE_E5']
+};
+
+/**
+ * Free, trial and viral SKUs cost nothing, so removing them saves nothing
+ */
+export function isPaidSku(skuPartNumber: string): boolean {
+    const catalogEntry = getCatalogEntry(skuPartNumber);
+    return (catalogEntry ? catalogEntry.listPrice : estimateListPrice(skuPartNumber)) > 0;
+}
+
+/**
+ * SKUs of an assignment that are already included in another SKU of the same assignment
+ */
+export function findOverlappingSkus(skuPartNumbers: string[]): Array<{ skuPartNumber: string; supersededBy: string[] }> {
+    const assigned = new Set(skuPartNumbers.map(sku => sku.toUpperCase()));
+
+    return skuPartNumbers
+        .map(skuPartNumber => ({
+            skuPartNumber,
+            supersededBy: (SUPERSEDING_SKUS[skuPartNumber.toUpperCase()] || []).filter(sku => assigned.has(sku))
+        }))
+        .filter(overlap => overlap.supersededBy.length > 0);
+}
@@ -0,0 +1,173 @@
+import { CustomerLicensePrice, EffectiveLicensePrice, LicenseBillingTerm, LicenseCatalogEntry } from "./types";
+
+export const CATALOG_CURRENCY = 'USD';
+
+const entry = (skuPartNumber: string, displayName: string, listPrice: number, billingTerm: LicenseBillingTerm = 'annual'): LicenseCatalogEntry =>
+    ({ skuPartNumber, displayName, listPrice, currency: CATALOG_CURRENCY, billingTerm });
+
+/**
+ * Microsoft list prices per user and month, keyed by the skuPartNumber reported by /subscribedSkus.
+ * Customers with negotiated rates override these in customer_license_prices.
+ */
+export const LICENSE_CATALOG: LicenseCatalogEntry[] = [
+    // Microsoft 365
+    entry('SPE_E5', 'Microsoft 365 E5', 57),
+    entry('SPE_E3', 'Microsoft 365 E3', 36),
+    entry('SPE_F1', 'Microsoft 365 F3', 8),
+    entry('M365_F1', 'Microsoft 365 F1', 2.25),
+    entry('SPB', 'Microsoft 365 Business Premium', 22),
+    entry('O365_BUSINESS_PREMIUM', 'Microsoft 365 Business Standard', 12.5),
+    entry('O365_BUSINESS_ESSENTIALS', 'Microsoft 365 Business Basic', 6),
+    entry('O365_BUSINESS', 'Microsoft 365 Apps for Business', 8.25),
+    entry('OFFICESUBSCRIPTION', 'Microsoft 365 Apps for Enterprise', 12),
+
+    // Office 365
+    entry('ENTERPRISEPREMIUM', 'Office 365 E5', 35),
+    entry('ENTERPRISEPACK', 'Office 365 E3', 23),
+    entry('STANDARDPACK', 'Office 365 E1', 10),
+    entry('DESKLESSPACK', 'Office 365 F3', 4),
+
+    // Exchange
+    entry('EXCHANGEENTERPRISE', 'Exchange Online (Plan 2)', 8),
+    entry('EXCHANGESTANDARD', 'Exchange Online (Plan 1)', 4),
+    entry('EXCHANGEDESKLESS', 'Exchange Online Kiosk', 2),
+    entry('EXCHANGEARCHIVE_ADDON', 'Exchange Online Archiving', 3),
+
+    // Teams and voice
+    entry('MCOEV', 'Microsoft Teams Phone Standard', 8),
+    entry('MCOMEETADV', 'Microsoft Teams Audio Conferencing', 4),
+    entry('MCOPSTNC', 'Communications Credits', 0, 'monthly'),
+    entry('TEAMS_EXPLORATORY', 'Microsoft Teams Exploratory', 0, 'monthly'),
+    entry('TEAMS_FREE', 'Microsoft Teams (free)', 0, 'monthly'),
+
+    // Identity and security
+    entry('AAD_PREMIUM', 'Microsoft Entra ID P1', 6),
+    entry('AAD_PREMIUM_P2', 'Microsoft Entra ID P2', 9),
+    entry('EMS', 'Enterprise Mobility + Security E3', 10.6),
+    entry('EMSPREMIUM', 'Enterprise Mobility + Security E5', 16.4),
+    entry('INTUNE_A', 'Microsoft Intune Plan 1', 8),
+    entry('ATP_ENTERPRISE', 'Microsoft Defender for Office 365 (Plan 1)', 2),
+    entry('THREAT_INTELLIGENCE', 'Microsoft Defender for Office 365 (Plan 2)', 5),
+    entry('IDENTITY_THREAT_PROTECTION', 'Microsoft 365 E5 Security', 12),
+    entry('INFORMATION_PROTECTION_COMPLIANCE', 'Microsoft 365 E5 Compliance', 12),
+
+    // Power Platform
+    entry('POWER_BI_PRO', 'Power BI Pro', 10),
+    entry('PBI_PREMIUM_PER_USER', 'Power BI Premium Per User', 20),
+    entry('POWER_BI_STANDARD', 'Power BI (free)', 0, 'monthly'),
+    entry('POWERAPPS_PER_USER', 'Power Apps Premium', 20),
+    entry('FLOW_PER_USER', 'Power Automate Premium', 15),
+    entry('FLOW_FREE', 'Power Automate (free)', 0, 'monthly'),
+    entry('POWERAPPS_VIRAL', 'Power Apps (trial)', 0, 'monthly'),
+    entry('POWER_VIRTUAL_AGENTS_VIRAL', 'Power Virtual Agents (trial)', 0, 'monthly'),
+
+    // Project and Visio
+    entry('PROJECTPREMIUM', 'Project Plan 5', 55),
+    entry('PROJECTPROFESSIONAL', 'Project Plan 3', 30),
+    entry('PROJECT_P1', 'Project Plan 1', 10),
+    entry('PROJECTESSENTIALS', 'Project Online Essentials', 7),
+    entry('VISIOCLIENT', 'Visio Plan 2', 15),
+    entry('VISIOONLINE_PLAN1', 'Visio Plan 1', 5),
+
+    // Storage and other
+    entry('SHAREPOINTSTANDARD', 'SharePoint Online (Plan 1)', 5),
+    entry('WACONEDRIVESTANDARD', 'OneDrive for Business (Plan 1)', 5),
+    entry('STREAM', 'Microsoft Stream (trial)', 0, 'monthly'),
+    entry('WINDOWS_STORE', 'Windows Store for Business', 0, 'monthly'),
+    entry('MICROSOFT_BUSINESS_CENTER', 'Microsoft Business Center', 0, 'monthly'),
+    entry('DEVELOPERPACK_E5', 'Microsoft 365 E5 Developer', 0, 'monthly')
+];
+
+const CATALOG_BY_SKU = new Map(LICENSE_CATALOG.map(item => [item.skuPartNumber.toUpperCase(), item]));
+
+export function getCatalogEntry(skuPartNumber: string): LicenseCatalogEntry | undefined {
+    return CATALOG_BY_SKU.get(String(skuPartNumber || '').toUpperCase());
+}
+
+/**
+ * Rough monthly price for SKUs that are not in the catalog, from the plan tier in the SKU name
+ */
+export function estimateListPrice(skuPartNumber: string): number {
+    const sku = String(skuPartNumber || '').toLowerCase();
+
+    if (sku.includes('free') || sku.includes('trial') || sku.includes('viral') || sku.includes('developer')) return 0;
+    if (sku.includes('e5')) return 50;
+    if (sku.includes('e3')) return 30;
+    if (sku.includes('f3')) return 8;
+    if (sku.includes('f1')) return 4;
+    if (sku.includes('premium')) return 20;
+    if (sku.includes('pro')) return 15;
+    if (sku.includes('standard')) return 12;
+    if (sku.includes('basic')) return 6;
+    if (sku.includes('essentials')) return 8;
+
+    // Default fallback for unknown licenses
+    return 10;
+}
+
+/**
+ * Prices used for a customer: negotiated rates first, then the catalog, then an estimate.
+ * Covers the whole catalog plus every SKU in `skuPartNumbers`.
+ */
+export function resolveLicensePrices(skuPartNumbers: string[], negotiated: CustomerLicensePrice[] = []): Record<string, EffectiveLicensePrice> {
+    const negotiatedBySku = new Map(negotiated.map(price => [price.skuPartNumber.toUpperCase(), price]));
+    const skus = new Set([
+        ...LICENSE_CATALOG.map(item => item.skuPartNumber),
+        ...negotiated.map(price => price.skuPartNumber),
+        ...skuPartNumbers.filter(Boolean)
+    ]);
+
+    const prices: Record<string, EffectiveLicensePrice> = {};
+    skus.forEach(skuPartNumber => {
+        const catalogEntry = getCatalogEntry(skuPartNumber);
+        const listPrice = catalogEntry ? catalogEntry.listPrice : estimateListPrice(skuPartNumber);
+        const listCurrency = catalogEntry?.currency || CATALOG_CURRENCY;
+        const override = negotiatedBySku.get(skuPartNumber.toUpperCase());
+
+        prices[skuPartNumber] = {
+            skuPartNumber,
+            displayName: catalogEntry?.displayName || skuPartNumber.replace(/_/g, ' '),
+            unitPrice: override ? override.unitPrice : listPrice,
+            currency: override ? override.currency : listCurrency,
+            billingTerm: override ? override.billingTerm : catalogEntry?.billingTerm || 'annual',
+            source: override ? 'negotiated' : catalogEntry ? 'catalog' : 'estimate',
+            listPrice,
+            listCurrency
+        };
+    });
+    return prices;
+}
+
+/**
+ * Price of a SKU from resolved prices, estimating SKUs that were not resolved
+ */
+export function getLicensePrice(prices: Record<string, EffectiveLicensePrice>, skuPartNumber: string): EffectiveLicensePrice {
+    return prices[skuPartNumber] || resolveLicensePrices([skuPartNumber])[skuPartNumber];
+}
+
+/**
+ * Add up amounts per currency; prices in different currencies are never converted
+ */
+export function sumByCurrency(amounts: Array<{ amount: number; currency: string }>): Record<string, number> {
+    return amounts.reduce<Record<string, number>>((totals, { amount, currency }) => {
+        totals[currency] = (totals[currency] || 0) + amount;
+        return totals;
+    }, {});
+}
+
+/**
+ * Validation errors of a negotiated price request body; an empty list means it can be saved
+ */
+export function validateLicensePrice(body: any): string[] {
+    const errors: string[] = [];
+    if (typeof body?.unitPrice !== 'number' || !isFinite(body.unitPrice) || body.unitPrice < 0) {
+        errors.push('unitPrice must be a number of at least 0');
+    }
+    if (typeof body?.currency !== 'string' || !/^[A-Z]{3}$/.test(body.currency)) {
+        errors.push('currency must be an ISO 4217 code like USD or EUR');
+    }
+    if (body?.billingTerm !== undefined && body.billingTerm !== 'monthly' && body.billingTerm !== 'annual') {
+        errors.push("billingTerm must be 'monthly' or 'annual'");
+    }
+    return errors;
+}
@@ -0,0 +1,122 @@
+import { Migration } from './runner';
+
+/**
+ * Customers, assessments and score history. Written with IF NOT EXISTS so that databases
+ * created before migrations existed are adopted as they are.
+ */
+export const migration: Migration = {
+    version: '0001',
+    description: 'core tables',
+    up: `
+        -- Optional extensions - not every server allows them
+        DO $$
+        BEGIN
+            CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+        EXCEPTION WHEN OTHERS THEN
+            RAISE NOTICE 'uuid-ossp extension not available';
+        END $$;
+
+        DO $$
+        BEGIN
+            CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+        EXCEPTION WHEN OTHERS THEN
+            RAISE NOTICE 'pg_trgm extension not available';
+        END $$;
+
+        CREATE TABLE IF NOT EXISTS customers (
+            id UUID PRIMARY KEY,
+            tenant_id VARCHAR(255) NOT NULL,
+            tenant_name VARCHAR(255) NOT NULL,
+            tenant_domain VARCHAR(255) NOT NULL,
+            contact_email VARCHAR(255),
+            notes TEXT,
+            status VARCHAR(50) DEFAULT 'active',
+            created_date TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+            last_assessment_date TIMESTAMPTZ,
+            total_assessments INTEGER DEFAULT 0,
+            app_registration JSONB,
+            branding JSONB,
+            auth_method VARCHAR(20) DEFAULT 'secret',
+            
+            CONSTRAINT valid_status CHECK (status IN ('active', 'inactive', 'deleted'))
+        );
+
+        -- Columns added after the first deployments
+        ALTER TABLE customers ADD COLUMN IF NOT EXISTS branding JSONB;
+        ALTER TABLE customers ADD COLUMN IF NOT EXISTS auth_method VARCHAR(20) DEFAULT 'secret';
+
+        CREATE INDEX IF NOT EXISTS idx_customers_status_created_date ON customers(status, created_date DESC);
+        CREATE INDEX IF NOT EXISTS idx_customers_tenant_id ON customers(tenant_id);
+        CREATE INDEX IF NOT EXISTS idx_customers_domain ON customers(tenant_domain);
+        CREATE INDEX IF NOT EXISTS idx_customers_app_registration ON customers USING gin(app_registration);
+        CREATE INDEX IF NOT EXISTS idx_customers_covering
+            ON customers(status, created_date DESC)
+            INCLUDE (tenant_name, tenant_domain, total_assessments, last_assessment_date);
+
+        CREATE TABLE IF NOT EXISTS assessments (
+            id UUID PRIMARY KEY,
+            customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+            tenant_id VARCHAR(255) NOT NULL,
+            date TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+            status VARCHAR(50) DEFAULT 'completed',
+            score DECIMAL(5,2) DEFAULT 0,
+            metrics JSONB NOT NULL DEFAULT '{}',
+            recommendations JSONB NOT NULL DEFAULT '[]',
+            created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+            
+            CONSTRAINT valid_score CHECK (score >= 0 AND score <= 100),
+            CONSTRAINT valid_status CHECK (status IN ('draft', 'in-progress', 'completed', 'failed', 'archived'))
+        );
+
+        ALTER TABLE assessments ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP;
+
+        CREATE INDEX IF NOT EXISTS idx_assessments_customer_id ON assessments(customer_id);
+        CREATE INDEX IF NOT EXISTS idx_assessments_tenant_id ON assessments(tenant_id);
+        CREATE INDEX IF NOT EXISTS idx_assessments_date ON assessments(date);
+        CREATE INDEX IF NOT EXISTS idx_assessments_status ON assessments(status);
+        CREATE INDEX IF NOT EXISTS idx_assessments_score ON assessments(score);
+        CREATE INDEX IF NOT EXISTS idx_assessments_metrics ON assessments USING gin(metrics);
+        CREATE INDEX IF NOT EXISTS idx_assessments_recommendations ON assessments USING gin(recommendations);
+        CREATE INDEX IF NOT EXISTS idx_assessments_customer_date ON assessments(customer_id, date DESC);
+        CREATE INDEX IF NOT EXISTS idx_assessments_tenant_date ON assessments(tenant_id, date DESC);
+
+        -- updated_at triggers from early deployments broke inserts; the service sets updated_at itself
+        DROP TRIGGER IF EXISTS update_assessments_updated_at ON assessments;
+        DROP TRIGGER IF EXISTS update_assessments_timestamp ON assessments;
+        DROP TRIGGER IF EXISTS update_updated_at_trigger ON assessments;
+        DROP TRIGGER IF EXISTS assessments_update_trigger ON assessments;
+        DROP TRIGGER IF EXISTS tr_assessments_updated_at ON assessments;
+        DROP FUNCTION IF EXISTS update_updated_at_column() CASCADE;
+        DROP FUNCTION IF EXISTS update_updated_at() CASCADE;
+        DROP FUNCTION IF EXISTS update_timestamp() CASCADE;
+        DROP FUNCTION IF EXISTS set_updated_at() CASCADE;
+
+        CREATE TABLE IF NOT EXISTS assessment_history (
+            id UUID PRIMARY KEY,
+            assessment_id UUID NOT NULL REFERENCES assessments(id) ON DELETE CASCADE,
+            tenant_id VARCHAR(255) NOT NULL,
+            customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+            date TIMESTAMPTZ NOT NULL,
+            overall_score DECIMAL(5,2) NOT NULL,
+            category_scores JSONB NOT NULL DEFAULT '{}',
+            created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+            
+            CONSTRAINT valid_overall_score CHECK (overall_score >= 0 AND overall_score <= 100)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_history_assessment_id ON assessment_history(assessment_id);
+        CREATE INDEX IF NOT EXISTS idx_history_tenant_id ON assessment_history(tenant_id);
+        CREATE INDEX IF NOT EXISTS idx_history_customer_id ON assessment_history(customer_id);
+        CREATE INDEX IF NOT EXISTS idx_history_date ON assessment_history(date);
+        CREATE INDEX IF NOT EXISTS idx_history_overall_score ON assessment_history(overall_score);
+        CREATE INDEX IF NOT EXISTS idx_history_category_scores ON assessment_history USING gin(category_scores);
+        CREATE INDEX IF NOT EXISTS idx_history_tenant_date ON assessment_history(tenant_id, date DESC);
+        CREATE INDEX IF NOT EXISTS idx_history_customer_date ON assessment_history(customer_id, date DESC);
+    `,
+    down: `
+        DROP TABLE IF EXISTS assessment_history;
+        DROP TABLE IF EXISTS assessments;
+        DROP TABLE IF EXISTS customers;
+    `
+};
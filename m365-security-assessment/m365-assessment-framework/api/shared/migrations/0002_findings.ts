@@ -0,0 +1,64 @@
+import { Migration } from './runner';
+
+/**
+ * Rule engine findings and the exceptions that carry over between assessments
+ */
+export const migration: Migration = {
+    version: '0002',
+    description: 'findings and finding exceptions',
+    up: `
+        CREATE TABLE IF NOT EXISTS findings (
+            id UUID PRIMARY KEY,
+            assessment_id UUID NOT NULL REFERENCES assessments(id) ON DELETE CASCADE,
+            customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+            tenant_id VARCHAR(255) NOT NULL,
+            rule_id VARCHAR(100) NOT NULL,
+            finding_key VARCHAR(300),
+            lifecycle VARCHAR(20) DEFAULT 'new',
+            first_seen_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+            category VARCHAR(50) NOT NULL,
+            severity VARCHAR(20) NOT NULL,
+            title VARCHAR(500) NOT NULL,
+            description TEXT,
+            affected_resources JSONB NOT NULL DEFAULT '[]',
+            remediation TEXT,
+            evidence JSONB NOT NULL DEFAULT '{}',
+            status VARCHAR(20) DEFAULT 'open',
+            created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+            
+            CONSTRAINT valid_finding_severity CHECK (severity IN ('critical', 'high', 'medium', 'low')),
+            CONSTRAINT valid_finding_status CHECK (status IN ('open', 'resolved', 'acknowledged'))
+        );
+
+        -- Lifecycle tracking was added after findings were first stored
+        ALTER TABLE findings ADD COLUMN IF NOT EXISTS finding_key VARCHAR(300);
+        ALTER TABLE findings ADD COLUMN IF NOT EXISTS lifecycle VARCHAR(20) DEFAULT 'new';
+        ALTER TABLE findings ADD COLUMN IF NOT EXISTS first_seen_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP;
+        UPDATE findings SET finding_key = rule_id || ':tenant' WHERE finding_key IS NULL;
+
+        CREATE INDEX IF NOT EXISTS idx_findings_assessment_id ON findings(assessment_id);
+        CREATE INDEX IF NOT EXISTS idx_findings_customer_rule ON findings(customer_id, rule_id);
+        CREATE INDEX IF NOT EXISTS idx_findings_severity ON findings(severity);
+        CREATE INDEX IF NOT EXISTS idx_findings_customer_key ON findings(customer_id, finding_key);
+
+        CREATE TABLE IF NOT EXISTS finding_exceptions (
+            id UUID PRIMARY KEY,
+            customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+            finding_key VARCHAR(300) NOT NULL,
+            exception_type VARCHAR(20) NOT NULL,
+            justification TEXT NOT NULL,
+            expires_at TIMESTAMPTZ NOT NULL,
+            created_by VARCHAR(255),
+            created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+            revoked_at TIMESTAMPTZ,
+            
+            CONSTRAINT valid_exception_type CHECK (exception_type IN ('acknowledged', 'risk-accepted'))
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_finding_exceptions_customer_key ON finding_exceptions(customer_id, finding_key);
+    `,
+    down: `
+        DROP TABLE IF EXISTS finding_exceptions;
+        DROP TABLE IF EXISTS findings;
+    `
+};
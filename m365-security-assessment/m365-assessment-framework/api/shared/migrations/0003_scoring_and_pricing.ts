@@ -0,0 +1,32 @@
+import { Migration } from './runner';
+
+/**
+ * Per-customer category weights and negotiated license prices
+ */
+export const migration: Migration = {
+    version: '0003',
+    description: 'scoring profiles and customer license prices',
+    up: `
+        CREATE TABLE IF NOT EXISTS scoring_profiles (
+            customer_id UUID PRIMARY KEY REFERENCES customers(id) ON DELETE CASCADE,
+            weights JSONB NOT NULL,
+            updated_by VARCHAR(255),
+            updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS customer_license_prices (
+            customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+            sku_part_number VARCHAR(100) NOT NULL,
+            unit_price NUMERIC(12, 2) NOT NULL,
+            currency VARCHAR(3) NOT NULL,
+            billing_term VARCHAR(20) NOT NULL DEFAULT 'annual',
+            updated_by VARCHAR(255),
+            updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+            PRIMARY KEY (customer_id, sku_part_number)
+        );
+    `,
+    down: `
+        DROP TABLE IF EXISTS customer_license_prices;
+        DROP TABLE IF EXISTS scoring_profiles;
+    `
+};
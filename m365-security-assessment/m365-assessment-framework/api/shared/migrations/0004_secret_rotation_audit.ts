@@ -0,0 +1,32 @@
+import { Migration } from './runner';
+
+/**
+ * One row per client secret rotation attempt, successful or not
+ */
+export const migration: Migration = {
+    version: '0004',
+    description: 'secret rotation audit',
+    up: `
+        CREATE TABLE IF NOT EXISTS secret_rotation_audit (
+            id UUID PRIMARY KEY,
+            customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+            client_id VARCHAR(255) NOT NULL,
+            trigger VARCHAR(20) NOT NULL,
+            status VARCHAR(20) NOT NULL,
+            new_key_id VARCHAR(255),
+            removed_key_ids JSONB DEFAULT '[]'::jsonb,
+            previous_expiry TIMESTAMPTZ,
+            new_expiry TIMESTAMPTZ,
+            error TEXT,
+            performed_by VARCHAR(255),
+            created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+            
+            CONSTRAINT valid_rotation_status CHECK (status IN ('succeeded', 'failed'))
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_secret_rotation_audit_created ON secret_rotation_audit(created_at DESC);
+    `,
+    down: `
+        DROP TABLE IF EXISTS secret_rotation_audit;
+    `
+};
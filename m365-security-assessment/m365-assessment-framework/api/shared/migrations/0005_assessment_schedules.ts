@@ -0,0 +1,42 @@
+import { Migration } from './runner';
+
+/**
+ * Recurring assessments, picked up by the assessment-scheduler timer once next_run_at has passed
+ */
+export const migration: Migration = {
+    version: '0005',
+    description: 'assessment schedules',
+    up: `
+        CREATE TABLE IF NOT EXISTS assessment_schedules (
+            id UUID PRIMARY KEY,
+            customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+            frequency VARCHAR(20) NOT NULL,
+            day_of_week INTEGER,
+            day_of_month INTEGER,
+            hour INTEGER NOT NULL DEFAULT 0,
+            minute INTEGER NOT NULL DEFAULT 0,
+            cron_expression VARCHAR(100),
+            included_categories JSONB NOT NULL DEFAULT '[]'::jsonb,
+            max_retries INTEGER NOT NULL DEFAULT 0,
+            retry_delay_minutes INTEGER NOT NULL DEFAULT 60,
+            enabled BOOLEAN NOT NULL DEFAULT true,
+            next_run_at TIMESTAMPTZ NOT NULL,
+            retry_count INTEGER NOT NULL DEFAULT 0,
+            last_run_at TIMESTAMPTZ,
+            last_run_status VARCHAR(20),
+            last_run_error TEXT,
+            last_assessment_id UUID,
+            created_by VARCHAR(255),
+            created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+            
+            CONSTRAINT valid_schedule_frequency CHECK (frequency IN ('weekly', 'monthly', 'cron'))
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_assessment_schedules_due ON assessment_schedules(next_run_at) WHERE enabled;
+        CREATE INDEX IF NOT EXISTS idx_assessment_schedules_customer ON assessment_schedules(customer_id);
+    `,
+    down: `
+        DROP TABLE IF EXISTS assessment_schedules;
+    `
+};
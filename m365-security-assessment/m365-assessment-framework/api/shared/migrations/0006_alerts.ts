@@ -0,0 +1,46 @@
+import { Migration } from './runner';
+
+/**
+ * Alert rules evaluated when an assessment completes, and every attempt to deliver their notifications
+ */
+export const migration: Migration = {
+    version: '0006',
+    description: 'alert rules and deliveries',
+    up: `
+        CREATE TABLE IF NOT EXISTS alert_rules (
+            id UUID PRIMARY KEY,
+            customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+            rule_type VARCHAR(50) NOT NULL,
+            threshold NUMERIC(6, 2),
+            channels JSONB NOT NULL DEFAULT '[]'::jsonb,
+            enabled BOOLEAN NOT NULL DEFAULT true,
+            created_by VARCHAR(255),
+            created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_alert_rules_customer ON alert_rules(customer_id);
+
+        CREATE TABLE IF NOT EXISTS alert_deliveries (
+            id UUID PRIMARY KEY,
+            customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+            rule_id UUID NOT NULL,
+            assessment_id UUID NOT NULL,
+            channel VARCHAR(20) NOT NULL,
+            target TEXT NOT NULL,
+            title TEXT NOT NULL,
+            status VARCHAR(20) NOT NULL,
+            attempt INTEGER NOT NULL DEFAULT 1,
+            error TEXT,
+            created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+            
+            CONSTRAINT valid_delivery_status CHECK (status IN ('delivered', 'failed'))
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_alert_deliveries_customer_created ON alert_deliveries(customer_id, created_at DESC);
+    `,
+    down: `
+        DROP TABLE IF EXISTS alert_deliveries;
+        DROP TABLE IF EXISTS alert_rules;
+    `
+};
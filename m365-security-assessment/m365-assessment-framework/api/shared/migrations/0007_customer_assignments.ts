@@ -0,0 +1,26 @@
+import { Migration } from './runner';
+
+/**
+ * Customers a non-admin user may access - admins are never restricted
+ */
+export const migration: Migration = {
+    version: '0007',
+    description: 'customer assignments',
+    up: `
+        CREATE TABLE IF NOT EXISTS customer_assignments (
+            customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+            user_id VARCHAR(255) NOT NULL,
+            user_principal_name VARCHAR(255),
+            assigned_by VARCHAR(255),
+            assigned_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+            
+            PRIMARY KEY (customer_id, user_id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_customer_assignments_user ON customer_assignments(user_id);
+        CREATE INDEX IF NOT EXISTS idx_customer_assignments_upn ON customer_assignments(LOWER(user_principal_name));
+    `,
+    down: `
+        DROP TABLE IF EXISTS customer_assignments;
+    `
+};
@@ -0,0 +1,47 @@
+import { Migration } from './runner';
+
+/**
+ * Operator actions - append-only, so no foreign keys and rows outlive the customers they describe.
+ * There is no down: rolling back would drop the audit trail.
+ */
+export const migration: Migration = {
+    version: '0008',
+    description: 'audit log',
+    up: `
+        CREATE TABLE IF NOT EXISTS audit_log (
+            id UUID PRIMARY KEY,
+            occurred_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            actor VARCHAR(255) NOT NULL,
+            actor_role VARCHAR(20),
+            action VARCHAR(100) NOT NULL,
+            target_type VARCHAR(50) NOT NULL,
+            target_id VARCHAR(255),
+            customer_id UUID,
+            before_state JSONB,
+            after_state JSONB,
+            source_ip VARCHAR(64)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_audit_log_occurred ON audit_log(occurred_at DESC);
+        CREATE INDEX IF NOT EXISTS idx_audit_log_customer ON audit_log(customer_id, occurred_at DESC);
+
+        CREATE OR REPLACE FUNCTION prevent_audit_log_change()
+        RETURNS TRIGGER AS $$
+        BEGIN
+            RAISE EXCEPTION 'audit_log is append-only';
+        END;
+        $$ LANGUAGE plpgsql;
+
+        DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log;
+        CREATE TRIGGER audit_log_append_only
+            BEFORE UPDATE OR DELETE ON audit_log
+            FOR EACH ROW
+            EXECUTE FUNCTION prevent_audit_log_change();
+
+        DROP TRIGGER IF EXISTS audit_log_no_truncate ON audit_log;
+        CREATE TRIGGER audit_log_no_truncate
+            BEFORE TRUNCATE ON audit_log
+            FOR EACH STATEMENT
+            EXECUTE FUNCTION prevent_audit_log_change();
+    `
+};
@@ -0,0 +1,26 @@
+import { Migration } from './runner';
+import { migration as coreTables } from './0001_core_tables';
+import { migration as findings } from './0002_findings';
+import { migration as scoringAndPricing } from './0003_scoring_and_pricing';
+import { migration as secretRotationAudit } from './0004_secret_rotation_audit';
+import { migration as assessmentSchedules } from './0005_assessment_schedules';
+import { migration as alerts } from './0006_alerts';
+import { migration as customerAssignments } from './0007_customer_assignments';
+import { migration as auditLog } from './0008_audit_log';
+
+export * from './runner';
+
+/**
+ * Every schema migration, oldest first. Add new migrations at the end with the next
+ * version number - never edit one that has shipped.
+ */
+export const MIGRATIONS: Migration[] = [
+    coreTables,
+    findings,
+    scoringAndPricing,
+    secretRotationAudit,
+    assessmentSchedules,
+    alerts,
+    customerAssignments,
+    auditLog
+];
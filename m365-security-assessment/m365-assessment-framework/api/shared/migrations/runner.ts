@@ -0,0 +1,247 @@
+import { PoolClient } from 'pg';
+import { createHash } from 'crypto';
+
+/**
+ * One schema change. `up` and `down` are plain SQL and each runs in its own transaction,
+ * together with the schema_migrations bookkeeping row.
+ */
+export interface Migration {
+    /** Zero-padded sequence number, e.g. '0007' - migrations apply in ascending order */
+    version: string;
+    description: string;
+    up: string;
+    /** Omitted for changes that cannot be reversed */
+    down?: string;
+}
+
+export interface MigrationStatus {
+    version: string;
+    description: string;
+    applied: boolean;
+    appliedAt?: Date;
+    /** The migration was edited after it was applied */
+    checksumMismatch: boolean;
+    /** Applied to the database but not known to this build */
+    unknown: boolean;
+}
+
+export class MigrationError extends Error {
+    constructor(message: string, public version?: string) {
+        super(message);
+        this.name = 'MigrationError';
+    }
+}
+
+type MigrationLog = (message: string) => void;
+
+// Arbitrary application-wide key so only one worker migrates at a time
+const MIGRATION_LOCK_KEY = 72451903;
+const LOCK_ATTEMPTS = 60;
+const LOCK_RETRY_MS = 1000;
+
+interface AppliedMigration {
+    version: string;
+    description: string;
+    checksum: string;
+    appliedAt: Date;
+}
+
+function checksum(migration: Migration): string {
+    return createHash('sha256').update(migration.up).digest('hex');
+}
+
+function assertOrdered(migrations: Migration[]): void {
+    migrations.forEach((migration, index) => {
+        if (!/^\d{4}$/.test(migration.version)) {
+            throw new MigrationError(`Migration version '${migration.version}' must be four digits`, migration.version);
+        }
+        if (index > 0 && migration.version <= migrations[index - 1].version) {
+            throw new MigrationError(`Migration ${migration.version} is out of order or duplicated`, migration.version);
+        }
+    });
+}
+
+async function ensureMigrationsTable(client: PoolClient): Promise<void> {
+    await client.query(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+            version VARCHAR(20) PRIMARY KEY,
+            description TEXT NOT NULL,
+            checksum VARCHAR(64) NOT NULL,
+            applied_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            execution_ms INTEGER
+        );
+    `);
+}
+
+async function getAppliedMigrations(client: PoolClient): Promise<AppliedMigration[]> {
+    const result = await client.query('SELECT version, description, checksum, applied_at FROM schema_migrations ORDER BY version');
+    return result.rows.map(row => ({
+        version: row.version,
+        description: row.description,
+        checksum: row.checksum,
+        appliedAt: row.applied_at
+    }));
+}
+
+/**
+ * Holds the migration advisory lock while `work` runs. Session-level, so it must be
+ * released on the same connection.
+ */
+async function withMigrationLock<T>(client: PoolClient, log: MigrationLog, work: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        const result = await client.query('SELECT pg_try_advisory_lock($1) AS locked', [MIGRATION_LOCK_KEY]);
+        if (result.rows[0].locked) {
+            break;
+        }
+        if (attempt >= LOCK_ATTEMPTS) {
+            throw new MigrationError('Timed out waiting for another process to finish migrating');
+        }
+        if (attempt === 1) {
+            log('⏳ Migrations: waiting for another process to finish migrating...');
+        }
+        await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+
+    try {
+        await ensureMigrationsTable(client);
+        return await work();
+    } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+    }
+}
+
+async function runInTransaction(client: PoolClient, migration: Migration, work: () => Promise<void>): Promise<void> {
+    await client.query('BEGIN');
+    try {
+        // Schema changes may outlast the pool's statement timeout
+        await client.query('SET LOCAL statement_timeout = 0');
+        await work();
+        await client.query('COMMIT');
+    } catch (error: any) {
+        await client.query('ROLLBACK').catch(() => undefined);
+        throw new MigrationError(`Migration ${migration.version} (${migration.description}) failed: ${error.message}`, migration.version);
+    }
+}
+
+/**
+ * Apply pending migrations in order, up to and including `target` when given.
+ * Returns the versions applied.
+ */
+export async function migrateUp(
+    client: PoolClient,
+    migrations: Migration[],
+    options: { target?: string; log?: MigrationLog } = {}
+): Promise<string[]> {
+    assertOrdered(migrations);
+    const log = options.log || console.log;
+
+    return withMigrationLock(client, log, async () => {
+        const applied = new Map((await getAppliedMigrations(client)).map(m => [m.version, m]));
+        const appliedVersions: string[] = [];
+
+        for (const migration of migrations) {
+            if (options.target && migration.version > options.target) {
+                break;
+            }
+
+            const existing = applied.get(migration.version);
+            if (existing) {
+                if (existing.checksum !== checksum(migration)) {
+                    log(`⚠️ Migrations: ${migration.version} was changed after it was applied - add a new migration instead`);
+                }
+                continue;
+            }
+
+            const started = Date.now();
+            await runInTransaction(client, migration, async () => {
+                await client.query(migration.up);
+                await client.query(
+                    'INSERT INTO schema_migrations (version, description, checksum, execution_ms) VALUES ($1, $2, $3, $4)',
+                    [migration.version, migration.description, checksum(migration), Date.now() - started]
+                );
+            });
+            log(`✅ Migrations: applied ${migration.version} ${migration.description} (${Date.now() - started}ms)`);
+            appliedVersions.push(migration.version);
+        }
+
+        return appliedVersions;
+    });
+}
+
+/**
+ * Roll back the most recent migrations: `steps` of them (default 1), or every migration
+ * newer than `target`. Returns the versions rolled back.
+ */
+export async function migrateDown(
+    client: PoolClient,
+    migrations: Migration[],
+    options: { steps?: number; target?: string; log?: MigrationLog } = {}
+): Promise<string[]> {
+    assertOrdered(migrations);
+    const log = options.log || console.log;
+    const known = new Map(migrations.map(m => [m.version, m]));
+
+    return withMigrationLock(client, log, async () => {
+        const applied = (await getAppliedMigrations(client)).reverse();
+        const toRollBack = options.target !== undefined
+            ? applied.filter(m => m.version > options.target)
+            : applied.slice(0, options.steps ?? 1);
+        const rolledBack: string[] = [];
+
+        for (const appliedMigration of toRollBack) {
+            const migration = known.get(appliedMigration.version);
+            if (!migration) {
+                throw new MigrationError(`Migration ${appliedMigration.version} is applied but unknown to this build`, appliedMigration.version);
+            }
+            if (!migration.down) {
+                throw new MigrationError(`Migration ${migration.version} (${migration.description}) cannot be rolled back`, migration.version);
+            }
+
+            await runInTransaction(client, migration, async () => {
+                await client.query(migration.down);
+                await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+            });
+            log(`↩️ Migrations: rolled back ${migration.version} ${migration.description}`);
+            rolledBack.push(migration.version);
+        }
+
+        return rolledBack;
+    });
+}
+
+/**
+ * Every known migration plus any applied migration this build does not know, in version order
+ */
+export async function getMigrationStatus(client: PoolClient, migrations: Migration[]): Promise<MigrationStatus[]> {
+    assertOrdered(migrations);
+    await ensureMigrationsTable(client);
+    const applied = new Map((await getAppliedMigrations(client)).map(m => [m.version, m]));
+
+    const statuses: MigrationStatus[] = migrations.map(migration => {
+        const existing = applied.get(migration.version);
+        return {
+            version: migration.version,
+            description: migration.description,
+            applied: !!existing,
+            appliedAt: existing?.appliedAt,
+            checksumMismatch: !!existing && existing.checksum !== checksum(migration),
+            unknown: false
+        };
+    });
+
+    const knownVersions = new Set(migrations.map(m => m.version));
+    for (const existing of applied.values()) {
+        if (!knownVersions.has(existing.version)) {
+            statuses.push({
+                version: existing.version,
+                description: existing.description,
+                applied: true,
+                appliedAt: existing.appliedAt,
+                checksumMismatch: false,
+                unknown: true
+            });
+        }
+    }
+
+    return statuses.sort((a, b) => a.version.localeCompare(b.version));
+}
@@ -1,30 +1,42 @@
 import { Client } from "@microsoft/microsoft-graph-client";
-import { ClientSecretCredential } from "@azure/identity";
+import { TokenCredential } from "@azure/identity";
+import { createTenantCredential } from "./tenantCredential";
+import { TenantAuthMethod } from "./types";
+import { GraphBatchRequest, GraphRequestClient, GraphRequestStats } from "./graphRequestClient";
+import { createGraphClient, isOfflineGraph } from "./graphFixtures";
 
 /**
  * Multi-Tenant Microsoft Graph API Service
  * Designed for accessing customer tenant data using our multi-tenant app registration
- * Uses customer's tenant ID for authentication while using our app credentials
+ * Uses customer's tenant ID for authentication while using our app credentials.
+ * All requests go through GraphRequestClient (throttling retries, paging, $batch).
  */
 export class MultiTenantGraphService {
     private graphClient: Client;
+    private requests: GraphRequestClient;
     private targetTenantId: string;
+    private authMethod: TenantAuthMethod;
+    private credentialPromise: Promise<TokenCredential> | null = null;
 
-    constructor(targetTenantId: string) {
+    constructor(targetTenantId: string, authMethod: TenantAuthMethod = 'secret') {
         this.targetTenantId = targetTenantId;
+        this.authMethod = authMethod;
         
-        // Check for required environment variables
-        const requiredEnvVars = {
+        // Check for required environment variables - certificates come from Key Vault or a PEM file instead of the secret
+        const requiredEnvVars: Record<string, string | undefined> = {
             AZURE_CLIENT_ID: process.env.AZURE_CLIENT_ID,
-            AZURE_CLIENT_SECRET: process.env.AZURE_CLIENT_SECRET,
             AZURE_TENANT_ID: process.env.AZURE_TENANT_ID // Our tenant ID for app registration
         };
+        if (authMethod === 'secret') {
+            requiredEnvVars.AZURE_CLIENT_SECRET = process.env.AZURE_CLIENT_SECRET;
+        }
 
         const missingVars = Object.entries(requiredEnvVars)
             .filter(([, value]) => !value)
             .map(([key]) => key);
 
-        if (missingVars.length > 0) {
+        // Fixture replay and the local Graph stand-in need no app credentials
+        if (missingVars.length > 0 && !isOfflineGraph()) {
             const errorMsg = `Missing required environment variables: ${missingVars.join(', ')}. Please configure these in your Azure Static Web App settings.`;
             console.error('❌ MultiTenantGraphService:', errorMsg);
             throw new Error(errorMsg);
@@ -37,25 +49,30 @@ export class MultiTenantGraphService {
         console.log('🏢 MultiTenantGraphService: Initializing for customer tenant:', targetTenantId);
         console.log('🔧 MultiTenantGraphService: Using app from tenant:', process.env.AZURE_TENANT_ID);
         console.log('🔧 MultiTenantGraphService: Client ID:', process.env.AZURE_CLIENT_ID?.substring(0, 8) + '...');
+        console.log('🔧 MultiTenantGraphService: Auth method:', authMethod);
         
         this.initializeGraphClient();
     }
 
+    private getCredential(): Promise<TokenCredential> {
+        // Created on first use - loading the certificate is asynchronous
+        if (!this.credentialPromise) {
+            this.credentialPromise = createTenantCredential(this.targetTenantId, this.authMethod).catch(error => {
+                this.credentialPromise = null;
+                throw error;
+            });
+        }
+        return this.credentialPromise;
+    }
+
     private initializeGraphClient(): void {
-        // For multi-tenant applications, we use the CUSTOMER's tenant ID in the authority URL
-        // but still use OUR app's client ID and secret
-        const authority = `https://login.microsoftonline.com/${this.targetTenantId}`;
-        
-        const credential = new ClientSecretCredential(
-            this.targetTenantId, // Customer's tenant ID
-            process.env.AZURE_CLIENT_ID!, // Our app's client ID
-            process.env.AZURE_CLIENT_SECRET! // Our app's client secret
-        );
-        
-        this.graphClient = Client.initWithMiddleware({
+        // For multi-tenant applications, we use the CUSTOMER's tenant ID in the authority
+        // but still use OUR app's client ID with its secret or certificate
+        this.graphClient = createGraphClient({
             authProvider: {
                 getAccessToken: async () => {
                     try {
+                        const credential = await this.getCredential();
                         const tokenResponse = await credential.getToken(
                             "https://graph.microsoft.com/.default"
                         );
@@ -74,6 +91,8 @@ export class MultiTenantGraphService {
                             throw new Error(`Invalid client or client credentials. Check app registration configuration. Error: ${error.message}`);
                         } else if (error.message?.includes('AADSTS70002') || error.message?.includes('AADSTS70008')) {
                             throw new Error(`Invalid client secret. Check AZURE_CLIENT_SECRET configuration. Error: ${error.message}`);
+                        } else if (error.message?.includes('AADSTS700027')) {
+                            throw new Error(`Certificate is not registered on the application or has expired. Check the app's certificate credentials. Error: ${error.message}`);
                         } else {
                             throw new Error(`Authentication failed for tenant ${this.targetTenantId}: ${error.message}. Ensure customer has consented to the application.`);
                         }
@@ -81,6 +100,14 @@ export class MultiTenantGraphService {
                 }
             }
         });
+        this.requests = new GraphRequestClient(this.graphClient, this.targetTenantId);
+    }
+
+    /**
+     * Graph request count and latency for this service instance
+     */
+    getRequestStats(): GraphRequestStats {
+        return this.requests.getStats();
     }
 
     /**
@@ -89,7 +116,7 @@ export class MultiTenantGraphService {
     async getOrganization(): Promise<any> {
         try {
             console.log('🏢 MultiTenantGraphService: Fetching organization for tenant:', this.targetTenantId);
-            const response = await this.graphClient.api('/organization').get();
+            const response = await this.requests.get('/organization');
             console.log('✅ MultiTenantGraphService: Organization retrieved successfully');
             return response.value && response.value.length > 0 ? response.value[0] : null;
         } catch (error: any) {
@@ -107,7 +134,7 @@ export class MultiTenantGraphService {
             
             // Fetch both secure score and control profiles for complete data
             const [secureScoreResponse, controlProfilesResponse] = await Promise.all([
-                this.graphClient.api('/security/secureScores').top(1).get(),
+                this.requests.get('/security/secureScores?$top=1'),
                 this.getSecureScoreControlProfiles()
             ]);
             
@@ -141,9 +168,9 @@ export class MultiTenantGraphService {
     async getSecureScoreControlProfiles(): Promise<any[]> {
         try {
             console.log('🔒 MultiTenantGraphService: Fetching secure score control profiles for tenant:', this.targetTenantId);
-            const response = await this.graphClient.api('/security/secureScoreControlProfiles').get();
+            const controlProfiles = await this.requests.getAll('/security/secureScoreControlProfiles');
             console.log('✅ MultiTenantGraphService: Control profiles retrieved successfully');
-            return response.value || [];
+            return controlProfiles;
         } catch (error: any) {
             console.error('❌ MultiTenantGraphService: Failed to get control profiles:', error);
             // Don't throw here - we can still work with basic secure score data
@@ -286,9 +313,9 @@ export class MultiTenantGraphService {
     async getLicenseDetails(): Promise<any> {
         try {
             console.log('📋 MultiTenantGraphService: Fetching license details for tenant:', this.targetTenantId);
-            const licenses = await this.graphClient.api('/subscribedSkus').get();
+            const licenses = await this.requests.getAll('/subscribedSkus');
             console.log('✅ MultiTenantGraphService: License details retrieved successfully');
-            return licenses.value || [];
+            return licenses;
         } catch (error: any) {
             console.error('❌ MultiTenantGraphService: Failed to get license details:', error);
             throw new Error(`Failed to get license details: ${error.message}`);
@@ -302,26 +329,10 @@ export class MultiTenantGraphService {
     async getAllUsers(): Promise<any[]> {
         try {
             console.log('👥 MultiTenantGraphService: Fetching all users for tenant:', this.targetTenantId);
-            const users: any[] = [];
-            let nextLink = '/users?$select=id,userPrincipalName,userType,accountEnabled,displayName&$top=999';
-            
-            while (nextLink) {
-                const response = await this.graphClient.api(nextLink).get();
-                const pageUsers = response.value || [];
-                users.push(...pageUsers);
-                
-                nextLink = response['@odata.nextLink'] ? 
-                    response['@odata.nextLink'].replace('https://graph.microsoft.com/v1.0', '') : 
-                    null;
-                
-                console.log(`📄 Fetched ${pageUsers.length} users (total: ${users.length})`);
-                
+            const users = await this.requests.getAll('/users?$select=id,userPrincipalName,userType,accountEnabled,displayName&$top=999', {
                 // Safety limit to prevent excessive API calls
-                if (users.length > 50000) {
-                    console.log('⚠️ Reached safety limit of 50,000 users, stopping pagination');
-                    break;
-                }
-            }
+                maxItems: 50000
+            });
             
             console.log(`✅ MultiTenantGraphService: Retrieved ${users.length} users successfully`);
             return users;
@@ -331,6 +342,34 @@ export class MultiTenantGraphService {
         }
     }
 
+    /**
+     * Get every user with at least one license assigned, with their assignments.
+     * signInActivity needs AuditLog.Read.All and an Entra ID P1 tenant - without it
+     * Graph rejects the whole request, so callers can leave it out and retry.
+     */
+    async getLicensedUsers(includeSignInActivity: boolean = true): Promise<any[]> {
+        try {
+            console.log('🎫 MultiTenantGraphService: Fetching licensed users for tenant:', this.targetTenantId);
+            const select = ['id', 'userPrincipalName', 'displayName', 'userType', 'accountEnabled', 'createdDateTime', 'assignedLicenses'];
+            if (includeSignInActivity) {
+                select.push('signInActivity');
+            }
+
+            // $filter on a collection count is an advanced query and needs ConsistencyLevel: eventual
+            const users = await this.requests.getAll(`/users?$select=${select.join(',')}&$filter=assignedLicenses/$count ne 0&$count=true&$top=999`, {
+                headers: { ConsistencyLevel: 'eventual' },
+                // Same safety limit as getAllUsers
+                maxItems: 50000
+            });
+
+            console.log(`✅ MultiTenantGraphService: Retrieved ${users.length} licensed users successfully`);
+            return users;
+        } catch (error: any) {
+            console.error('❌ MultiTenantGraphService: Failed to get licensed users:', error);
+            throw new Error(`Failed to get licensed users: ${error.message}`);
+        }
+    }
+
     /**
      * Get user count from the customer tenant
      * @deprecated Use getAllUsers() for more reliable results
@@ -338,7 +377,7 @@ export class MultiTenantGraphService {
     async getUserCount(): Promise<number> {
         try {
             console.log('👥 MultiTenantGraphService: Fetching user count for tenant:', this.targetTenantId);
-            const response = await this.graphClient.api('/users/$count').get();
+            const response = await this.requests.get('/users/$count');
             console.log('✅ MultiTenantGraphService: User count retrieved successfully');
             return typeof response === 'number' ? response : 0;
         } catch (error: any) {
@@ -354,9 +393,9 @@ export class MultiTenantGraphService {
     async getDirectoryRoles(): Promise<any> {
         try {
             console.log('👥 MultiTenantGraphService: Fetching directory roles for tenant:', this.targetTenantId);
-            const roles = await this.graphClient.api('/directoryRoles').get();
+            const roles = await this.requests.getAll('/directoryRoles');
             console.log('✅ MultiTenantGraphService: Directory roles retrieved successfully');
-            return roles.value || [];
+            return roles;
         } catch (error: any) {
             console.error('❌ MultiTenantGraphService: Failed to get directory roles:', error);
             throw new Error(`Failed to get directory roles: ${error.message}`);
@@ -369,9 +408,9 @@ export class MultiTenantGraphService {
     async getConditionalAccessPolicies(): Promise<any> {
         try {
             console.log('🔐 MultiTenantGraphService: Fetching conditional access policies for tenant:', this.targetTenantId);
-            const policies = await this.graphClient.api('/identity/conditionalAccess/policies').get();
+            const policies = await this.requests.getAll('/identity/conditionalAccess/policies');
             console.log('✅ MultiTenantGraphService: Conditional access policies retrieved successfully');
-            return policies.value || [];
+            return policies;
         } catch (error: any) {
             console.error('❌ MultiTenantGraphService: Failed to get conditional access policies:', error);
             throw new Error(`Failed to get conditional access policies: ${error.message}`);
@@ -384,9 +423,9 @@ export class MultiTenantGraphService {
     async getUserRegistrationDetails(): Promise<any[]> {
         try {
             console.log('🔐 MultiTenantGraphService: Fetching user registration details for tenant:', this.targetTenantId);
-            const response = await this.graphClient.api('/reports/authenticationMethods/userRegistrationDetails').get();
+            const registrationDetails = await this.requests.getAll('/reports/authenticationMethods/userRegistrationDetails');
             console.log('✅ MultiTenantGraphService: User registration details retrieved successfully');
-            return response.value || [];
+            return registrationDetails;
         } catch (error: any) {
             console.error('❌ MultiTenantGraphService: Failed to get user registration details:', error);
             throw new Error(`Failed to get user registration details: ${error.message}`);
@@ -399,7 +438,7 @@ export class MultiTenantGraphService {
     async getAuthenticationMethodPolicies(): Promise<any[]> {
         try {
             console.log('🔐 MultiTenantGraphService: Fetching authentication method policies for tenant:', this.targetTenantId);
-            const response = await this.graphClient.api('/policies/authenticationMethodsPolicy').get();
+            const response = await this.requests.get('/policies/authenticationMethodsPolicy');
             
             const policies: any[] = [];
             const config = response.authenticationMethodConfigurations || [];
@@ -425,75 +464,93 @@ export class MultiTenantGraphService {
      * Get privileged users (directory role members and PIM assignments)
      */
     async getPrivilegedUsers(): Promise<string[]> {
+        const assignments = await this.getPrivilegedRoleAssignments();
+        return Array.from(new Set(assignments.map(assignment => assignment.userPrincipalName)));
+    }
+
+    /**
+     * Get directory role assignments of users, including PIM eligible assignments
+     */
+    async getPrivilegedRoleAssignments(): Promise<Array<{ userPrincipalName: string; roleName: string }>> {
         try {
-            console.log('👑 MultiTenantGraphService: Fetching privileged users for tenant:', this.targetTenantId);
-            const privilegedUsers: string[] = [];
+            console.log('👑 MultiTenantGraphService: Fetching privileged role assignments for tenant:', this.targetTenantId);
+            const assignments: Array<{ userPrincipalName: string; roleName: string }> = [];
+            const addAssignment = (userPrincipalName: string | undefined, roleName: string | undefined) => {
+                if (userPrincipalName && !assignments.some(a => a.userPrincipalName === userPrincipalName && a.roleName === roleName)) {
+                    assignments.push({ userPrincipalName, roleName: roleName || 'Unknown role' });
+                }
+            };
 
             try {
                 // Try PIM first (for P2 licenses)
                 const [eligiblePIM, assignedPIM] = await Promise.all([
-                    this.graphClient.api('/roleManagement/directory/roleEligibilitySchedules').expand('principal,roleDefinition').get(),
-                    this.graphClient.api('/roleManagement/directory/roleAssignmentSchedules').expand('principal,roleDefinition').get()
+                    this.requests.getAll('/roleManagement/directory/roleEligibilitySchedules?$expand=principal,roleDefinition'),
+                    this.requests.getAll('/roleManagement/directory/roleAssignmentSchedules?$expand=principal,roleDefinition')
                 ]);
 
-                // Process eligible PIM roles
-                eligiblePIM.value?.forEach((assignment: any) => {
-                    const userPrincipalName = assignment.principal?.userPrincipalName;
-                    if (userPrincipalName && !privilegedUsers.includes(userPrincipalName)) {
-                        privilegedUsers.push(userPrincipalName);
-                    }
-                });
-
-                // Process active PIM roles
-                assignedPIM.value?.forEach((assignment: any) => {
-                    const userPrincipalName = assignment.principal?.userPrincipalName;
-                    if (userPrincipalName && !privilegedUsers.includes(userPrincipalName)) {
-                        privilegedUsers.push(userPrincipalName);
-                    }
+                // Process eligible and active PIM roles
+                [...eligiblePIM, ...assignedPIM].forEach((assignment: any) => {
+                    addAssignment(assignment.principal?.userPrincipalName, assignment.roleDefinition?.displayName);
                 });
 
             } catch (pimError) {
                 console.log('⚠️ PIM API not available, falling back to directory roles');
                 
-                // Fallback to directory roles
-                const directoryRoles = await this.graphClient.api('/directoryRoles').get();
-                
-                if (directoryRoles.value) {
-                    for (const role of directoryRoles.value) {
-                        try {
-                            const members = await this.graphClient.api(`/directoryRoles/${role.id}/members`).get();
-                            members.value?.forEach((member: any) => {
-                                const userPrincipalName = member.userPrincipalName;
-                                if (userPrincipalName && !privilegedUsers.includes(userPrincipalName)) {
-                                    privilegedUsers.push(userPrincipalName);
-                                }
-                            });
-                        } catch (memberError) {
-                            console.log(`⚠️ Error fetching members for role ${role.displayName}:`, memberError);
-                        }
+                // Fallback to directory roles, with the members of every role read in $batch calls
+                const directoryRoles = await this.requests.getAll('/directoryRoles');
+                const memberRequests: GraphBatchRequest[] = directoryRoles.map((role: any) => ({
+                    id: role.id,
+                    url: `/directoryRoles/${role.id}/members`
+                }));
+                const memberResponses = await this.requests.batch(memberRequests);
+
+                for (const role of directoryRoles) {
+                    const response = memberResponses.get(role.id);
+                    if (!response || response.status !== 200) {
+                        console.log(`⚠️ Error fetching members for role ${role.displayName}:`, response?.body?.error?.message || 'no response');
+                        continue;
                     }
+
+                    const members = [...(response.body.value || [])];
+                    if (response.body['@odata.nextLink']) {
+                        members.push(...await this.requests.getAll(response.body['@odata.nextLink']));
+                    }
+                    members.forEach((member: any) => {
+                        addAssignment(member.userPrincipalName, role.displayName);
+                    });
                 }
             }
 
-            console.log('✅ MultiTenantGraphService: Privileged users retrieved successfully');
-            return privilegedUsers;
+            console.log('✅ MultiTenantGraphService: Privileged role assignments retrieved successfully');
+            return assignments;
         } catch (error: any) {
             console.error('❌ MultiTenantGraphService: Failed to get privileged users:', error);
             throw new Error(`Failed to get privileged users: ${error.message}`);
         }
     }
 
+    /**
+     * Get PIM eligible directory role assignments. Only available in Entra ID P2 tenants.
+     */
+    async getRoleEligibilitySchedules(): Promise<any[]> {
+        try {
+            console.log('👑 MultiTenantGraphService: Fetching PIM role eligibility schedules for tenant:', this.targetTenantId);
+            const schedules = await this.requests.getAll('/roleManagement/directory/roleEligibilitySchedules');
+            console.log('✅ MultiTenantGraphService: Role eligibility schedules retrieved successfully');
+            return schedules;
+        } catch (error: any) {
+            console.error('❌ MultiTenantGraphService: Failed to get role eligibility schedules:', error);
+            throw new Error(`Failed to get role eligibility schedules: ${error.message}`);
+        }
+    }
+
     // === Endpoint / Device compliance ===
     async getManagedDevices(): Promise<any[]> {
         try {
             console.log('💻 MultiTenantGraphService: Fetching managed devices for tenant:', this.targetTenantId);
-            const response = await this.graphClient
-                .api('/deviceManagement/managedDevices')
-                .select('id,deviceName,complianceState,operatingSystem,lastSyncDateTime')
-                .top(999)
-                .get();
+            const devices = await this.requests.getAll('/deviceManagement/managedDevices?$select=id,deviceName,complianceState,operatingSystem,lastSyncDateTime&$top=999');
             console.log('✅ MultiTenantGraphService: Managed devices retrieved successfully');
-            return response.value || [];
+            return devices;
         } catch (error: any) {
             console.error('❌ MultiTenantGraphService: Failed to get managed devices:', error);
             // Do not throw to avoid failing whole assessment; return empty to indicate unavailable
@@ -1,8 +1,11 @@
 import { Pool, PoolClient, PoolConfig } from 'pg';
 import { DefaultAzureCredential } from '@azure/identity';
-import { Assessment, Customer, AssessmentHistory, AssessmentHistoryInput } from './types';
+import { Assessment, Customer, AssessmentHistory, AssessmentHistoryInput, AssessmentProgress, SecurityFinding, FindingException, ScoringProfile, ScoringWeights, CustomerLicensePrice, SecretRotationRecord, AssessmentSchedule, AssessmentScheduleInput, AlertRule, AlertRuleInput, AlertDelivery, CustomerAssignment, AssignmentScope, AuditLogEntry, AuditLogQuery } from './types';
 import { getKeyVaultService } from './keyVaultService';
 import { randomUUID } from 'crypto';
+import { MIGRATIONS, MigrationStatus, getMigrationStatus, migrateUp } from './migrations';
+import { AssessmentRepository, AssessmentScheduleUpdate, FindingExceptionInput } from './assessmentRepository';
+import { prepareAssessmentDocument, upgradeAssessmentDocument } from './assessmentDocument';
 
 /**
  * Generate a UUID for database records
@@ -63,7 +66,7 @@ function validateAppRegistration(appRegData: any): any | undefined {
  * - Comprehensive error handling
  * - SQL-based querying for better performance
  */
-export class PostgreSQLService {
+export class PostgreSQLService implements AssessmentRepository {
     private pool!: Pool;
     private initialized = false;
     private credential: DefaultAzureCredential;
@@ -107,26 +110,13 @@ export class PostgreSQLService {
             // Initialize connection pool with proper authentication
             await this.initializePoolAsync();
             
-            // Skip heavy schema creation in production to speed up cold starts
-            const isProduction = process.env.NODE_ENV === 'production' || 
-                               process.env.AZURE_CLIENT_ID !== undefined ||
-                               process.env.WEBSITE_SITE_NAME !== undefined;
-            
-            if (!isProduction) {
-                console.log('🔧 PostgreSQL: Initializing database schema...');
-                
-                const client = await this.pool.connect();
-                
-                try {
-                    // Create tables with proper indexes and constraints
-                    await this.createTables(client);
-                    
-                    console.log('✅ PostgreSQL: Database schema initialized successfully');
-                } finally {
-                    client.release();
-                }
+            // Bring the schema up to date - a no-op apart from one query once it is current
+            if (process.env.DB_MIGRATIONS_ON_STARTUP !== 'false') {
+                console.log('🔧 PostgreSQL: Applying pending schema migrations...');
+                const applied = await this.withMigrationClient(client => migrateUp(client, MIGRATIONS));
+                console.log(`✅ PostgreSQL: Schema is current (${applied.length} migration(s) applied)`);
             } else {
-                console.log('⚡ PostgreSQL: Skipping schema creation in production for faster startup');
+                console.log('⚡ PostgreSQL: Startup migrations disabled (DB_MIGRATIONS_ON_STARTUP=false)');
             }
             
             this.initialized = true;
@@ -214,204 +204,30 @@ export class PostgreSQLService {
     }
 
     /**
-     * Create all required tables with optimized schema
+     * Run work on a pooled connection without going through initialize(), so the migration
+     * CLI can roll back or report status without first applying everything pending.
      */
-    private async createTables(client: PoolClient): Promise<void> {
-        // Use a transaction to ensure all schema changes are committed together
-        console.log('🔧 PostgreSQL: Starting schema creation without explicit transaction...');
-        
-        try {
-            // Try to enable required extensions (may fail if not allowed, but continue anyway)
-            try {
-                await client.query(`CREATE EXTENSION IF NOT EXISTS "uuid-ossp";`);
-                console.log('✅ PostgreSQL: uuid-ossp extension enabled');
-            } catch (error) {
-                console.warn('⚠️ PostgreSQL: uuid-ossp extension not available, using alternative UUID generation');
-            }
-        
-        try {
-            await client.query(`CREATE EXTENSION IF NOT EXISTS "pg_trgm";`);
-            console.log('✅ PostgreSQL: pg_trgm extension enabled');
-        } catch (error) {
-            console.warn('⚠️ PostgreSQL: pg_trgm extension not available, full-text search may be limited');
-        }
-
-        // Create tables only if they don't exist - preserve existing data
-        console.log('� PostgreSQL: Ensuring clean database schema...');
-        
-        // REMOVED: Drop table statements to preserve data across restarts
-        // await client.query('DROP TABLE IF EXISTS assessment_history CASCADE;');
-        // await client.query('DROP TABLE IF EXISTS assessments CASCADE;');
-        // Create customers table if it doesn't exist  
-        console.log('🔧 PostgreSQL: Creating customers table with complete schema...');
-        await client.query(`
-            CREATE TABLE IF NOT EXISTS customers (
-                    id UUID PRIMARY KEY,
-                    tenant_id VARCHAR(255) NOT NULL,
-                    tenant_name VARCHAR(255) NOT NULL,
-                    tenant_domain VARCHAR(255) NOT NULL,
-                    contact_email VARCHAR(255),
-                    notes TEXT,
-                    status VARCHAR(50) DEFAULT 'active',
-                    created_date TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
-                    last_assessment_date TIMESTAMPTZ,
-                    total_assessments INTEGER DEFAULT 0,
-                    app_registration JSONB,
-                    
-                    CONSTRAINT valid_status CHECK (status IN ('active', 'inactive', 'deleted'))
-                );
-            `);
-        console.log('✅ PostgreSQL: Created customers table with all required columns');
+    async withMigrationClient<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+        if (!this.pool) {
+            await this.initializePoolAsync();
+        }
 
-        // Create indexes (safe to run multiple times)
+        const client = await this.pool.connect();
         try {
-            await client.query(`
-                -- Performance indexes for customers table (optimized for loading speed)
-                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_customers_status_created_date ON customers(status, created_date DESC);
-                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_customers_tenant_id ON customers(tenant_id);
-                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_customers_domain ON customers(tenant_domain);
-                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_customers_app_registration ON customers USING gin(app_registration);
-                
-                -- Covering index for frequent customer queries (includes all commonly accessed columns)
-                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_customers_covering 
-                ON customers(status, created_date DESC) 
-                INCLUDE (tenant_name, tenant_domain, total_assessments, last_assessment_date);
-            `);
-            console.log('✅ PostgreSQL: Created indexes');
-        } catch (indexError) {
-            console.warn('⚠️ PostgreSQL: Index creation warning:', indexError);
-        }            // Assessments table with unlimited JSONB storage
-            await client.query(`
-                CREATE TABLE IF NOT EXISTS assessments (
-                    id UUID PRIMARY KEY,
-                    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
-                    tenant_id VARCHAR(255) NOT NULL,
-                    date TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
-                    status VARCHAR(50) DEFAULT 'completed',
-                    score DECIMAL(5,2) DEFAULT 0,
-                    metrics JSONB NOT NULL DEFAULT '{}',
-                    recommendations JSONB NOT NULL DEFAULT '[]',
-                    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
-                    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
-                    
-                    CONSTRAINT valid_score CHECK (score >= 0 AND score <= 100),
-                    CONSTRAINT valid_status CHECK (status IN ('draft', 'in-progress', 'completed', 'failed', 'archived'))
-                );
-                
-                -- Performance indexes for assessments
-                CREATE INDEX IF NOT EXISTS idx_assessments_customer_id ON assessments(customer_id);
-                CREATE INDEX IF NOT EXISTS idx_assessments_tenant_id ON assessments(tenant_id);
-                CREATE INDEX IF NOT EXISTS idx_assessments_date ON assessments(date);
-                CREATE INDEX IF NOT EXISTS idx_assessments_status ON assessments(status);
-                CREATE INDEX IF NOT EXISTS idx_assessments_score ON assessments(score);
-                
-                -- GIN indexes for JSONB searches
-                CREATE INDEX IF NOT EXISTS idx_assessments_metrics ON assessments USING gin(metrics);
-                CREATE INDEX IF NOT EXISTS idx_assessments_recommendations ON assessments USING gin(recommendations);
-                
-                -- Composite index for common queries
-                CREATE INDEX IF NOT EXISTS idx_assessments_customer_date ON assessments(customer_id, date DESC);
-                CREATE INDEX IF NOT EXISTS idx_assessments_tenant_date ON assessments(tenant_id, date DESC);
-            `);
-
-            // Assessment history table for tracking trends
-            await client.query(`
-                CREATE TABLE IF NOT EXISTS assessment_history (
-                    id UUID PRIMARY KEY,
-                    assessment_id UUID NOT NULL REFERENCES assessments(id) ON DELETE CASCADE,
-                    tenant_id VARCHAR(255) NOT NULL,
-                    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
-                    date TIMESTAMPTZ NOT NULL,
-                    overall_score DECIMAL(5,2) NOT NULL,
-                    category_scores JSONB NOT NULL DEFAULT '{}',
-                    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
-                    
-                    CONSTRAINT valid_overall_score CHECK (overall_score >= 0 AND overall_score <= 100)
-                );
-                
-                -- Performance indexes for history
-                CREATE INDEX IF NOT EXISTS idx_history_assessment_id ON assessment_history(assessment_id);
-                CREATE INDEX IF NOT EXISTS idx_history_tenant_id ON assessment_history(tenant_id);
-                CREATE INDEX IF NOT EXISTS idx_history_customer_id ON assessment_history(customer_id);
-                CREATE INDEX IF NOT EXISTS idx_history_date ON assessment_history(date);
-                CREATE INDEX IF NOT EXISTS idx_history_overall_score ON assessment_history(overall_score);
-                
-                -- GIN index for category scores
-                CREATE INDEX IF NOT EXISTS idx_history_category_scores ON assessment_history USING gin(category_scores);
-                
-                -- Composite indexes for common queries
-                CREATE INDEX IF NOT EXISTS idx_history_tenant_date ON assessment_history(tenant_id, date DESC);
-                CREATE INDEX IF NOT EXISTS idx_history_customer_date ON assessment_history(customer_id, date DESC);
-            `);
-
-            // Add missing columns to existing tables (migrations)
-            try {
-                await client.query(`
-                    ALTER TABLE assessments ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP;
-                `);
-                console.log('✅ PostgreSQL: Added updated_at column to assessments table');
-            } catch (error) {
-                console.log('ℹ️ PostgreSQL: updated_at column may already exist or add failed:', error);
-            }
-
-        // Create updated_at trigger for assessments - temporarily disabled due to schema issues
-        // TODO: Re-enable after fixing trigger schema mismatch
-        /*
-        await client.query(`
-            CREATE OR REPLACE FUNCTION update_updated_at_column()
-            RETURNS TRIGGER AS $$
-            BEGIN
-                NEW.updated_at = CURRENT_TIMESTAMP;
-                RETURN NEW;
-            END;
-            $$ language 'plpgsql';
-            
-            DROP TRIGGER IF EXISTS update_assessments_updated_at ON assessments;
-            CREATE TRIGGER update_assessments_updated_at
-                BEFORE UPDATE ON assessments
-                FOR EACH ROW
-                EXECUTE FUNCTION update_updated_at_column();
-        `);
-        */
-        
-        // Drop any existing problematic triggers for now
-        try {
-            console.log('🧹 PostgreSQL: Cleaning up all existing triggers...');
-            
-            // Drop all triggers on assessments table 
-            await client.query(`
-                DROP TRIGGER IF EXISTS update_assessments_updated_at ON assessments;
-                DROP TRIGGER IF EXISTS update_assessments_timestamp ON assessments;
-                DROP TRIGGER IF EXISTS update_updated_at_trigger ON assessments;
-                DROP TRIGGER IF EXISTS assessments_update_trigger ON assessments;
-                DROP TRIGGER IF EXISTS tr_assessments_updated_at ON assessments;
-            `);
-            
-            // Drop all related functions
-            await client.query(`
-                DROP FUNCTION IF EXISTS update_updated_at_column();
-                DROP FUNCTION IF EXISTS update_updated_at();
-                DROP FUNCTION IF EXISTS update_timestamp();
-                DROP FUNCTION IF EXISTS set_updated_at();
-            `);
-            
-            console.log('✅ PostgreSQL: Cleaned up all existing triggers and functions');
-        } catch (error) {
-            console.warn('⚠️ PostgreSQL: Error cleaning triggers:', error);
+            return await work(client);
+        } finally {
+            client.release();
         }
+    }
 
-        console.log('📊 PostgreSQL: All tables created successfully');
-        
-        } catch (error) {
-            console.error('❌ PostgreSQL: Schema creation failed:', error);
-            throw error;
-        }
+    async getMigrationStatus(): Promise<MigrationStatus[]> {
+        return this.withMigrationClient(client => getMigrationStatus(client, MIGRATIONS));
     }
 
     /**
      * Customer operations
      */
-    async getCustomers(options?: { status?: string; limit?: number }): Promise<{ customers: Customer[]; total: number }> {
+    async getCustomers(options?: { status?: string; limit?: number; assignedTo?: AssignmentScope }): Promise<{ customers: Customer[]; total: number }> {
         await this.initialize();
         
         const client = await this.pool.connect();
@@ -425,6 +241,10 @@ export class PostgreSQLService {
                 params.push(options.status);
             }
             
+            if (options?.assignedTo) {
+                conditions.push(this.assignmentCondition('id', options.assignedTo, params));
+            }
+            
             // Build WHERE clause
             const whereClause = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
             
@@ -442,6 +262,8 @@ export class PostgreSQLService {
                     last_assessment_date,
                     total_assessments,
                     app_registration,
+                    branding,
+                    auth_method,
                     COUNT(*) OVER() as total_count
                 FROM customers
                 ${whereClause}
@@ -466,7 +288,9 @@ export class PostgreSQLService {
                 createdDate: row.created_date,
                 lastAssessmentDate: row.last_assessment_date,
                 totalAssessments: row.total_assessments || 0,
-                appRegistration: validateAppRegistration(row.app_registration)
+                appRegistration: validateAppRegistration(row.app_registration),
+                branding: row.branding || undefined,
+                authMethod: row.auth_method || 'secret'
             }));
             
             const totalCount = result.rows.length > 0 ? parseInt(result.rows[0].total_count) : 0;
@@ -498,7 +322,9 @@ export class PostgreSQLService {
                     created_date,
                     last_assessment_date,
                     total_assessments,
-                    app_registration
+                    app_registration,
+                    branding,
+                    auth_method
                 FROM customers
                 WHERE tenant_domain = $1
                 LIMIT 1
@@ -522,7 +348,9 @@ export class PostgreSQLService {
                 createdDate: row.created_date,
                 lastAssessmentDate: row.last_assessment_date,
                 totalAssessments: row.total_assessments || 0,
-                appRegistration: validateAppRegistration(row.app_registration)
+                appRegistration: validateAppRegistration(row.app_registration),
+                branding: row.branding || undefined,
+                authMethod: row.auth_method || 'secret'
             };
             
         } finally {
@@ -547,7 +375,9 @@ export class PostgreSQLService {
                     created_date,
                     last_assessment_date,
                     total_assessments,
-                    app_registration
+                    app_registration,
+                    branding,
+                    auth_method
                 FROM customers
                 WHERE tenant_id = $1
                 LIMIT 1
@@ -571,7 +401,9 @@ export class PostgreSQLService {
                 createdDate: row.created_date,
                 lastAssessmentDate: row.last_assessment_date,
                 totalAssessments: row.total_assessments || 0,
-                appRegistration: validateAppRegistration(row.app_registration)
+                appRegistration: validateAppRegistration(row.app_registration),
+                branding: row.branding || undefined,
+                authMethod: row.auth_method || 'secret'
             };
             
         } finally {
@@ -666,7 +498,9 @@ export class PostgreSQLService {
                     created_date,
                     last_assessment_date,
                     total_assessments,
-                    app_registration
+                    app_registration,
+                    branding,
+                    auth_method
                 FROM customers
                 WHERE id = $1
             `;
@@ -689,7 +523,9 @@ export class PostgreSQLService {
                 createdDate: row.created_date,
                 lastAssessmentDate: row.last_assessment_date,
                 totalAssessments: row.total_assessments || 0,
-                appRegistration: validateAppRegistration(row.app_registration)
+                appRegistration: validateAppRegistration(row.app_registration),
+                branding: row.branding || undefined,
+                authMethod: row.auth_method || 'secret'
             };
             
         } finally {
@@ -754,6 +590,16 @@ export class PostgreSQLService {
                 values.push(JSON.stringify(updates.appRegistration));
             }
             
+            if (updates.branding !== undefined) {
+                setClauses.push(`branding = $${paramIndex++}`);
+                values.push(updates.branding ? JSON.stringify(updates.branding) : null);
+            }
+            
+            if (updates.authMethod !== undefined) {
+                setClauses.push(`auth_method = $${paramIndex++}`);
+                values.push(updates.authMethod);
+            }
+            
             if (setClauses.length === 0) {
                 throw new Error('No valid fields to update');
             }
@@ -787,7 +633,9 @@ export class PostgreSQLService {
                 createdDate: row.created_date,
                 lastAssessmentDate: row.last_assessment_date,
                 totalAssessments: row.total_assessments || 0,
-                appRegistration: validateAppRegistration(row.app_registration)
+                appRegistration: validateAppRegistration(row.app_registration),
+                branding: row.branding || undefined,
+                authMethod: row.auth_method || 'secret'
             };
             
             console.log('✅ PostgreSQL: Customer updated successfully:', customer.id);
@@ -846,7 +694,9 @@ export class PostgreSQLService {
                     created_date,
                     last_assessment_date,
                     total_assessments,
-                    app_registration
+                    app_registration,
+                    branding,
+                    auth_method
                 FROM customers
                 WHERE app_registration->>'clientId' = $1
                 LIMIT 1
@@ -870,7 +720,9 @@ export class PostgreSQLService {
                 createdDate: row.created_date,
                 lastAssessmentDate: row.last_assessment_date,
                 totalAssessments: row.total_assessments || 0,
-                appRegistration: validateAppRegistration(row.app_registration)
+                appRegistration: validateAppRegistration(row.app_registration),
+                branding: row.branding || undefined,
+                authMethod: row.auth_method || 'secret'
             };
             
         } finally {
@@ -916,16 +768,7 @@ export class PostgreSQLService {
             
             const result = await client.query(query, params);
             
-            const assessments: Assessment[] = result.rows.map((row: any) => ({
-                id: row.id,
-                customerId: row.customer_id,
-                tenantId: row.tenant_id,
-                date: row.date,
-                status: row.status,
-                score: parseFloat(row.score) || 0,
-                metrics: row.metrics || {},
-                recommendations: row.recommendations || []
-            }));
+            const assessments: Assessment[] = result.rows.map((row: any) => this.mapAssessmentRow(row));
             
             return { assessments };
             
@@ -935,6 +778,7 @@ export class PostgreSQLService {
     }
 
     async createAssessment(assessmentData: any): Promise<Assessment> {
+        const metrics = prepareAssessmentDocument(assessmentData.metrics, { score: assessmentData.score, tenantId: assessmentData.tenantId });
         await this.initialize();
         
         const client = await this.pool.connect();
@@ -964,9 +808,9 @@ export class PostgreSQLService {
                 assessmentData.customerId,
                 assessmentData.tenantId,
                 now,
-                'completed',
+                assessmentData.status || 'completed',
                 assessmentData.score || 0,
-                JSON.stringify(assessmentData.metrics || {}),
+                JSON.stringify(metrics),
                 JSON.stringify(assessmentData.recommendations || []),
                 now,
                 now  // Add updated_at value
@@ -986,16 +830,7 @@ export class PostgreSQLService {
             await client.query('COMMIT');
             
             const row = result.rows[0];
-            const assessment: Assessment = {
-                id: row.id,
-                customerId: row.customer_id,
-                tenantId: row.tenant_id,
-                date: row.date,
-                status: row.status,
-                score: parseFloat(row.score) || 0,
-                metrics: row.metrics || {},
-                recommendations: row.recommendations || []
-            };
+            const assessment = this.mapAssessmentRow(row);
             
             console.log('✅ PostgreSQL: Assessment created successfully:', assessment.id);
             return assessment;
@@ -1010,6 +845,7 @@ export class PostgreSQLService {
     }
 
     async updateAssessment(assessmentId: string, customerId: string, assessmentData: any): Promise<Assessment> {
+        const metrics = prepareAssessmentDocument(assessmentData.metrics, { score: assessmentData.score, tenantId: assessmentData.tenantId });
         await this.initialize();
         
         const client = await this.pool.connect();
@@ -1030,7 +866,7 @@ export class PostgreSQLService {
             const values = [
                 assessmentData.status || 'completed',
                 assessmentData.score || 0,
-                JSON.stringify(assessmentData.metrics || {}),
+                JSON.stringify(metrics),
                 JSON.stringify(assessmentData.recommendations || []),
                 assessmentId,
                 customerId
@@ -1045,16 +881,7 @@ export class PostgreSQLService {
             await client.query('COMMIT');
             
             const row = result.rows[0];
-            const assessment: Assessment = {
-                id: row.id,
-                customerId: row.customer_id,
-                tenantId: row.tenant_id,
-                date: row.date,
-                status: row.status,
-                score: parseFloat(row.score) || 0,
-                metrics: row.metrics || {},
-                recommendations: row.recommendations || []
-            };
+            const assessment = this.mapAssessmentRow(row);
             
             console.log('✅ PostgreSQL: Assessment updated successfully:', assessment.id);
             return assessment;
@@ -1068,11 +895,36 @@ export class PostgreSQLService {
         }
     }
 
+    /**
+     * Replace metrics.progress of a running assessment without touching the rest of the metrics
+     */
+    async updateAssessmentProgress(assessmentId: string, progress: AssessmentProgress): Promise<void> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            await client.query(`
+                UPDATE assessments
+                SET 
+                    metrics = jsonb_set(COALESCE(metrics, '{}'::jsonb), '{progress}', $1::jsonb),
+                    updated_at = CURRENT_TIMESTAMP
+                WHERE id = $2
+            `, [JSON.stringify(progress), assessmentId]);
+            
+        } catch (error) {
+            console.error('❌ PostgreSQL: Failed to update assessment progress:', error);
+            throw error;
+        } finally {
+            client.release();
+        }
+    }
+
     async getAssessments(options?: { 
         customerId?: string; 
         tenantId?: string; 
         status?: string; 
-        limit?: number 
+        limit?: number;
+        assignedTo?: AssignmentScope;
     }): Promise<{ assessments: Assessment[]; total: number }> {
         await this.initialize();
         
@@ -1109,6 +961,10 @@ export class PostgreSQLService {
                 params.push(options.status);
             }
             
+            if (options?.assignedTo) {
+                conditions.push(this.assignmentCondition('customer_id', options.assignedTo, params));
+            }
+            
             if (conditions.length > 0) {
                 query += ` WHERE ${conditions.join(' AND ')}`;
             }
@@ -1130,16 +986,7 @@ export class PostgreSQLService {
             
             const countResult = await client.query(countQuery, params.slice(0, -1)); // Remove limit param
             
-            const assessments: Assessment[] = result.rows.map((row: any) => ({
-                id: row.id,
-                customerId: row.customer_id,
-                tenantId: row.tenant_id,
-                date: row.date,
-                status: row.status,
-                score: parseFloat(row.score) || 0,
-                metrics: row.metrics || {},
-                recommendations: row.recommendations || []
-            }));
+            const assessments: Assessment[] = result.rows.map((row: any) => this.mapAssessmentRow(row));
             
             return {
                 assessments,
@@ -1154,7 +1001,7 @@ export class PostgreSQLService {
     /**
      * Assessment history operations
      */
-    async getAssessmentHistory(options?: { tenantId?: string; customerId?: string; limit?: number }): Promise<AssessmentHistory[]> {
+    async getAssessmentHistory(options?: { tenantId?: string; customerId?: string; limit?: number; assignedTo?: AssignmentScope }): Promise<AssessmentHistory[]> {
         await this.initialize();
         
         const client = await this.pool.connect();
@@ -1184,6 +1031,10 @@ export class PostgreSQLService {
                 params.push(options.customerId);
             }
             
+            if (options?.assignedTo) {
+                conditions.push(this.assignmentCondition('customer_id', options.assignedTo, params));
+            }
+            
             if (conditions.length > 0) {
                 query += ` WHERE ${conditions.join(' AND ')}`;
             }
@@ -1258,75 +1109,117 @@ export class PostgreSQLService {
         }
     }
 
-    async getAllAssessmentHistory(): Promise<AssessmentHistory[]> {
+    /**
+     * Findings operations
+     */
+    async storeFindings(assessment: Pick<Assessment, 'id' | 'customerId' | 'tenantId'>, findings: SecurityFinding[]): Promise<void> {
         await this.initialize();
         
         const client = await this.pool.connect();
         try {
-            const query = `
-                SELECT 
-                    id,
-                    assessment_id,
-                    tenant_id,
-                    customer_id,
-                    date,
-                    overall_score,
-                    category_scores
-                FROM assessment_history
-                ORDER BY date DESC
-            `;
+            await client.query('BEGIN');
             
-            const result = await client.query(query);
+            // Re-running the rules for an assessment replaces its previous findings
+            await client.query('DELETE FROM findings WHERE assessment_id = $1', [assessment.id]);
             
-            const history: AssessmentHistory[] = result.rows.map((row: any) => ({
-                id: row.id,
-                assessmentId: row.assessment_id,
-                tenantId: row.tenant_id,
-                customerId: row.customer_id,
-                date: row.date,
-                overallScore: parseFloat(row.overall_score) || 0,
-                categoryScores: row.category_scores || {}
-            }));
+            for (const finding of findings) {
+                await client.query(`
+                    INSERT INTO findings (
+                        id,
+                        assessment_id,
+                        customer_id,
+                        tenant_id,
+                        rule_id,
+                        finding_key,
+                        lifecycle,
+                        first_seen_at,
+                        category,
+                        severity,
+                        title,
+                        description,
+                        affected_resources,
+                        remediation,
+                        evidence,
+                        status
+                    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+                `, [
+                    finding.id || generateUUID(),
+                    assessment.id,
+                    assessment.customerId,
+                    assessment.tenantId,
+                    finding.ruleId,
+                    finding.findingKey || `${finding.ruleId}:tenant`,
+                    finding.lifecycle || 'new',
+                    finding.firstSeenAt || new Date(),
+                    finding.category,
+                    finding.severity,
+                    finding.title,
+                    finding.description,
+                    JSON.stringify(finding.affectedResources || []),
+                    finding.remediation,
+                    JSON.stringify(finding.evidence || {}),
+                    finding.status || 'open'
+                ]);
+            }
             
-            return history;
+            await client.query('COMMIT');
+            console.log(`✅ PostgreSQL: Stored ${findings.length} findings for assessment ${assessment.id}`);
             
+        } catch (error) {
+            await client.query('ROLLBACK');
+            console.error('❌ PostgreSQL: Failed to store findings:', error);
+            throw error;
         } finally {
             client.release();
         }
     }
 
-    async getCustomerAssessmentHistory(customerId: string): Promise<AssessmentHistory[]> {
+    async getAssessmentFindings(assessmentId: string): Promise<SecurityFinding[]> {
         await this.initialize();
         
         const client = await this.pool.connect();
         try {
-            const query = `
+            // Attach the exception that is currently active for each finding key
+            const result = await client.query(`
                 SELECT 
-                    id,
-                    assessment_id,
-                    tenant_id,
-                    customer_id,
-                    date,
-                    overall_score,
-                    category_scores
-                FROM assessment_history
-                WHERE customer_id = $1
-                ORDER BY date DESC
-            `;
-            
-            const result = await client.query(query, [customerId]);
-            
-            const history: AssessmentHistory[] = result.rows.map((row: any) => ({
-                id: row.id,
-                assessmentId: row.assessment_id,
-                tenantId: row.tenant_id,
-                customerId: row.customer_id,
-                date: row.date,
-                overallScore: parseFloat(row.overall_score) || 0,
-                categoryScores: row.category_scores || {}
-            }));
+                    f.*,
+                    e.id AS exception_id,
+                    e.exception_type,
+                    e.justification,
+                    e.expires_at,
+                    e.created_by AS exception_created_by,
+                    e.created_at AS exception_created_at
+                FROM findings f
+                LEFT JOIN LATERAL (
+                    SELECT *
+                    FROM finding_exceptions fe
+                    WHERE fe.customer_id = f.customer_id
+                        AND fe.finding_key = f.finding_key
+                        AND fe.revoked_at IS NULL
+                        AND fe.expires_at > NOW()
+                    ORDER BY fe.created_at DESC
+                    LIMIT 1
+                ) e ON TRUE
+                WHERE f.assessment_id = $1
+                ORDER BY 
+                    CASE f.severity WHEN 'critical' THEN 0 WHEN 'high' THEN 1 WHEN 'medium' THEN 2 ELSE 3 END,
+                    f.created_at
+            `, [assessmentId]);
+            
+            return result.rows.map((row: any) => this.mapFindingRow(row));
             
-            return history;
+        } finally {
+            client.release();
+        }
+    }
+
+    async getFindingById(findingId: string): Promise<SecurityFinding | null> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const result = await client.query('SELECT * FROM findings WHERE id = $1', [findingId]);
+            return result.rows.length > 0 ? this.mapFindingRow(result.rows[0]) : null;
             
         } finally {
             client.release();
@@ -1334,82 +1227,1169 @@ export class PostgreSQLService {
     }
 
     /**
-     * Health check and monitoring
+     * Most recent completed assessment of a customer before the given date
      */
-    async healthCheck(): Promise<{ healthy: boolean; details: any }> {
+    async getPreviousCompletedAssessmentId(customerId: string, excludeAssessmentId: string, before: Date): Promise<string | null> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
         try {
-            const client = await this.pool.connect();
-            const result = await client.query('SELECT NOW() as current_time, version() as version');
-            client.release();
+            const result = await client.query(`
+                SELECT id
+                FROM assessments
+                WHERE customer_id = $1 AND id <> $2 AND status = 'completed' AND date <= $3
+                ORDER BY date DESC
+                LIMIT 1
+            `, [customerId, excludeAssessmentId, before]);
             
-            return {
-                healthy: true,
-                details: {
-                    timestamp: result.rows[0].current_time,
-                    version: result.rows[0].version,
-                    poolSize: this.pool.totalCount,
-                    idleConnections: this.pool.idleCount,
-                    waitingClients: this.pool.waitingCount
-                }
-            };
-        } catch (error) {
-            return {
-                healthy: false,
-                details: {
-                    error: error instanceof Error ? error.message : 'Unknown error',
-                    timestamp: new Date().toISOString()
-                }
-            };
+            return result.rows.length > 0 ? result.rows[0].id : null;
+            
+        } finally {
+            client.release();
         }
     }
 
     /**
-     * Test database connection for health checks
+     * First time each finding key was seen for a customer
      */
-    async testConnection(): Promise<{ connected: boolean; host: string; database: string; version: string }> {
+    async getFindingFirstSeen(customerId: string): Promise<Map<string, Date>> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
         try {
-            const client = await this.pool.connect();
-            try {
-                const result = await client.query('SELECT version(), current_database()');
-                return {
-                    connected: true,
-                    host: process.env.POSTGRES_HOST || 'localhost',
-                    database: result.rows[0].current_database,
-                    version: result.rows[0].version
-                };
-            } finally {
-                client.release();
-            }
-        } catch (error) {
-            return {
-                connected: false,
-                host: process.env.POSTGRES_HOST || 'localhost',
-                database: process.env.POSTGRES_DATABASE || 'm365_assessment',
-                version: 'unknown'
-            };
+            const result = await client.query(`
+                SELECT finding_key, MIN(first_seen_at) AS first_seen_at
+                FROM findings
+                WHERE customer_id = $1 AND lifecycle <> 'resolved'
+                GROUP BY finding_key
+            `, [customerId]);
+            
+            return new Map(result.rows.map((row: any) => [row.finding_key, row.first_seen_at] as [string, Date]));
+            
+        } finally {
+            client.release();
         }
     }
 
     /**
-     * Get database statistics for monitoring
+     * Latest record of each finding key across a customer's completed assessments before the given date
      */
-    async getDatabaseStats(): Promise<{ tables: any[]; totalRecords: number }> {
+    async getLatestFindings(customerId: string, excludeAssessmentId: string, before: Date): Promise<SecurityFinding[]> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
         try {
-            const client = await this.pool.connect();
-            try {
-                // Get table information
-                const tableQuery = `
-                    SELECT 
-                        schemaname,
-                        tablename,
-                        n_tup_ins as inserts,
-                        n_tup_upd as updates,
-                        n_tup_del as deletes,
-                        n_live_tup as live_tuples,
-                        n_dead_tup as dead_tuples
-                    FROM pg_stat_user_tables
-                    WHERE schemaname = 'public'
-                    ORDER BY tablename;
+            const result = await client.query(`
+                SELECT DISTINCT ON (f.finding_key) f.*
+                FROM findings f
+                JOIN assessments a ON a.id = f.assessment_id
+                WHERE f.customer_id = $1 AND a.id <> $2 AND a.status = 'completed' AND a.date <= $3
+                ORDER BY f.finding_key, a.date DESC, f.created_at DESC
+            `, [customerId, excludeAssessmentId, before]);
+            
+            return result.rows.map((row: any) => this.mapFindingRow(row));
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async getActiveFindingExceptions(customerId: string): Promise<FindingException[]> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const result = await client.query(`
+                SELECT *
+                FROM finding_exceptions
+                WHERE customer_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+                ORDER BY created_at DESC
+            `, [customerId]);
+            
+            return result.rows.map((row: any) => this.mapFindingExceptionRow(row));
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    /**
+     * Acknowledge a finding or accept its risk. Replaces any active exception for the
+     * same finding key and marks the finding acknowledged.
+     */
+    async createFindingException(finding: SecurityFinding, exception: FindingExceptionInput): Promise<FindingException> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            await client.query('BEGIN');
+            
+            await client.query(`
+                UPDATE finding_exceptions
+                SET revoked_at = CURRENT_TIMESTAMP
+                WHERE customer_id = $1 AND finding_key = $2 AND revoked_at IS NULL
+            `, [finding.customerId, finding.findingKey]);
+            
+            const result = await client.query(`
+                INSERT INTO finding_exceptions (
+                    id,
+                    customer_id,
+                    finding_key,
+                    exception_type,
+                    justification,
+                    expires_at,
+                    created_by
+                ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+                RETURNING *
+            `, [
+                generateUUID(),
+                finding.customerId,
+                finding.findingKey,
+                exception.type,
+                exception.justification,
+                exception.expiresAt,
+                exception.createdBy || null
+            ]);
+            
+            await client.query(`UPDATE findings SET status = 'acknowledged' WHERE id = $1`, [finding.id]);
+            
+            await client.query('COMMIT');
+            console.log(`✅ PostgreSQL: Finding ${finding.findingKey} ${exception.type} until ${exception.expiresAt.toISOString()}`);
+            
+            return this.mapFindingExceptionRow(result.rows[0]);
+            
+        } catch (error) {
+            await client.query('ROLLBACK');
+            console.error('❌ PostgreSQL: Failed to create finding exception:', error);
+            throw error;
+        } finally {
+            client.release();
+        }
+    }
+
+    async revokeFindingException(finding: SecurityFinding): Promise<void> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            await client.query('BEGIN');
+            
+            await client.query(`
+                UPDATE finding_exceptions
+                SET revoked_at = CURRENT_TIMESTAMP
+                WHERE customer_id = $1 AND finding_key = $2 AND revoked_at IS NULL
+            `, [finding.customerId, finding.findingKey]);
+            
+            await client.query(`UPDATE findings SET status = 'open' WHERE id = $1 AND status = 'acknowledged'`, [finding.id]);
+            
+            await client.query('COMMIT');
+            
+        } catch (error) {
+            await client.query('ROLLBACK');
+            console.error('❌ PostgreSQL: Failed to revoke finding exception:', error);
+            throw error;
+        } finally {
+            client.release();
+        }
+    }
+
+    async getScoringProfile(customerId: string): Promise<ScoringProfile | null> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const result = await client.query('SELECT * FROM scoring_profiles WHERE customer_id = $1', [customerId]);
+            
+            if (result.rows.length === 0) {
+                return null;
+            }
+            
+            return this.mapScoringProfileRow(result.rows[0]);
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async saveScoringProfile(customerId: string, weights: ScoringWeights, updatedBy?: string): Promise<ScoringProfile> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const result = await client.query(`
+                INSERT INTO scoring_profiles (customer_id, weights, updated_by, updated_at)
+                VALUES ($1, $2, $3, CURRENT_TIMESTAMP)
+                ON CONFLICT (customer_id) DO UPDATE
+                SET weights = EXCLUDED.weights, updated_by = EXCLUDED.updated_by, updated_at = CURRENT_TIMESTAMP
+                RETURNING *
+            `, [customerId, JSON.stringify(weights), updatedBy || null]);
+            
+            console.log(`✅ PostgreSQL: Scoring profile saved for customer ${customerId}`);
+            
+            return this.mapScoringProfileRow(result.rows[0]);
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async deleteScoringProfile(customerId: string): Promise<void> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            await client.query('DELETE FROM scoring_profiles WHERE customer_id = $1', [customerId]);
+            console.log(`✅ PostgreSQL: Scoring profile removed for customer ${customerId}`);
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async getCustomerLicensePrices(customerId: string): Promise<CustomerLicensePrice[]> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const result = await client.query(
+                'SELECT * FROM customer_license_prices WHERE customer_id = $1 ORDER BY sku_part_number',
+                [customerId]
+            );
+            return result.rows.map(row => this.mapCustomerLicensePriceRow(row));
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async saveCustomerLicensePrice(price: Omit<CustomerLicensePrice, 'updatedAt'>): Promise<CustomerLicensePrice> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const result = await client.query(`
+                INSERT INTO customer_license_prices (customer_id, sku_part_number, unit_price, currency, billing_term, updated_by, updated_at)
+                VALUES ($1, $2, $3, $4, $5, $6, CURRENT_TIMESTAMP)
+                ON CONFLICT (customer_id, sku_part_number) DO UPDATE
+                SET unit_price = EXCLUDED.unit_price, currency = EXCLUDED.currency, billing_term = EXCLUDED.billing_term,
+                    updated_by = EXCLUDED.updated_by, updated_at = CURRENT_TIMESTAMP
+                RETURNING *
+            `, [price.customerId, price.skuPartNumber, price.unitPrice, price.currency, price.billingTerm, price.updatedBy || null]);
+            
+            console.log(`✅ PostgreSQL: License price for ${price.skuPartNumber} saved for customer ${price.customerId}`);
+            
+            return this.mapCustomerLicensePriceRow(result.rows[0]);
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async deleteCustomerLicensePrice(customerId: string, skuPartNumber: string): Promise<void> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            await client.query(
+                'DELETE FROM customer_license_prices WHERE customer_id = $1 AND sku_part_number = $2',
+                [customerId, skuPartNumber]
+            );
+            console.log(`✅ PostgreSQL: License price for ${skuPartNumber} removed for customer ${customerId}`);
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async recordSecretRotation(record: Omit<SecretRotationRecord, 'id' | 'createdAt'>): Promise<SecretRotationRecord> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const result = await client.query(`
+                INSERT INTO secret_rotation_audit (
+                    id, customer_id, client_id, trigger, status, new_key_id, removed_key_ids,
+                    previous_expiry, new_expiry, error, performed_by
+                )
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+                RETURNING *
+            `, [
+                randomUUID(),
+                record.customerId,
+                record.clientId,
+                record.trigger,
+                record.status,
+                record.newKeyId || null,
+                JSON.stringify(record.removedKeyIds),
+                record.previousExpiry || null,
+                record.newExpiry || null,
+                record.error || null,
+                record.performedBy || null
+            ]);
+            
+            return this.mapSecretRotationRow(result.rows[0]);
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async getSecretRotations(options?: { customerId?: string; limit?: number }): Promise<SecretRotationRecord[]> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const params: any[] = [];
+            let query = 'SELECT * FROM secret_rotation_audit';
+            
+            if (options?.customerId) {
+                params.push(options.customerId);
+                query += ` WHERE customer_id = $${params.length}`;
+            }
+            
+            params.push(options?.limit || 50);
+            query += ` ORDER BY created_at DESC LIMIT $${params.length}`;
+            
+            const result = await client.query(query, params);
+            return result.rows.map(row => this.mapSecretRotationRow(row));
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async getAssessmentSchedules(customerId: string): Promise<AssessmentSchedule[]> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const result = await client.query(
+                'SELECT * FROM assessment_schedules WHERE customer_id = $1 ORDER BY created_at',
+                [customerId]
+            );
+            return result.rows.map(row => this.mapAssessmentScheduleRow(row));
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async getAssessmentSchedule(scheduleId: string): Promise<AssessmentSchedule | null> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const result = await client.query('SELECT * FROM assessment_schedules WHERE id = $1', [scheduleId]);
+            return result.rows.length > 0 ? this.mapAssessmentScheduleRow(result.rows[0]) : null;
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    /**
+     * Enabled schedules whose next run is due, oldest first
+     */
+    async getDueAssessmentSchedules(now: Date, limit: number = 20): Promise<AssessmentSchedule[]> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const result = await client.query(
+                'SELECT * FROM assessment_schedules WHERE enabled AND next_run_at <= $1 ORDER BY next_run_at LIMIT $2',
+                [now, limit]
+            );
+            return result.rows.map(row => this.mapAssessmentScheduleRow(row));
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    /**
+     * Earliest upcoming run of every customer with an enabled schedule
+     */
+    async getNextScheduledRuns(): Promise<Record<string, string>> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const result = await client.query(`
+                SELECT customer_id, MIN(next_run_at) AS next_run_at
+                FROM assessment_schedules
+                WHERE enabled
+                GROUP BY customer_id
+            `);
+            
+            const nextRuns: Record<string, string> = {};
+            result.rows.forEach(row => {
+                nextRuns[row.customer_id] = new Date(row.next_run_at).toISOString();
+            });
+            return nextRuns;
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async createAssessmentSchedule(
+        customerId: string,
+        input: AssessmentScheduleInput,
+        nextRunAt: string,
+        createdBy?: string
+    ): Promise<AssessmentSchedule> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const result = await client.query(`
+                INSERT INTO assessment_schedules (
+                    id, customer_id, frequency, day_of_week, day_of_month, hour, minute, cron_expression,
+                    included_categories, max_retries, retry_delay_minutes, enabled, next_run_at, created_by
+                )
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+                RETURNING *
+            `, [
+                randomUUID(),
+                customerId,
+                input.frequency,
+                input.dayOfWeek ?? null,
+                input.dayOfMonth ?? null,
+                input.hour,
+                input.minute,
+                input.cronExpression || null,
+                JSON.stringify(input.includedCategories),
+                input.retryPolicy.maxRetries,
+                input.retryPolicy.retryDelayMinutes,
+                input.enabled,
+                nextRunAt,
+                createdBy || null
+            ]);
+            
+            console.log(`✅ PostgreSQL: Assessment schedule created for customer ${customerId}`);
+            return this.mapAssessmentScheduleRow(result.rows[0]);
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async updateAssessmentSchedule(
+        scheduleId: string,
+        updates: AssessmentScheduleUpdate
+    ): Promise<AssessmentSchedule> {
+        await this.initialize();
+        
+        const columns: Record<string, any> = {
+            frequency: updates.frequency,
+            day_of_week: updates.dayOfWeek,
+            day_of_month: updates.dayOfMonth,
+            hour: updates.hour,
+            minute: updates.minute,
+            cron_expression: updates.cronExpression,
+            included_categories: updates.includedCategories && JSON.stringify(updates.includedCategories),
+            max_retries: updates.retryPolicy?.maxRetries,
+            retry_delay_minutes: updates.retryPolicy?.retryDelayMinutes,
+            enabled: updates.enabled,
+            next_run_at: updates.nextRunAt,
+            retry_count: updates.retryCount,
+            last_run_at: updates.lastRunAt,
+            last_run_status: updates.lastRunStatus,
+            last_run_error: updates.lastRunError,
+            last_assessment_id: updates.lastAssessmentId
+        };
+        
+        // Fields explicitly set to undefined by the caller are left untouched, null clears them
+        const setClauses: string[] = [];
+        const values: any[] = [];
+        Object.entries(columns).forEach(([column, value]) => {
+            if (value !== undefined) {
+                values.push(value);
+                setClauses.push(`${column} = $${values.length}`);
+            }
+        });
+        
+        if (setClauses.length === 0) {
+            throw new Error('No valid fields to update');
+        }
+        
+        const client = await this.pool.connect();
+        try {
+            values.push(scheduleId);
+            const result = await client.query(`
+                UPDATE assessment_schedules
+                SET ${setClauses.join(', ')}, updated_at = CURRENT_TIMESTAMP
+                WHERE id = $${values.length}
+                RETURNING *
+            `, values);
+            
+            if (result.rows.length === 0) {
+                throw new Error('Assessment schedule not found');
+            }
+            return this.mapAssessmentScheduleRow(result.rows[0]);
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async deleteAssessmentSchedule(scheduleId: string): Promise<void> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            await client.query('DELETE FROM assessment_schedules WHERE id = $1', [scheduleId]);
+            console.log(`✅ PostgreSQL: Assessment schedule ${scheduleId} deleted`);
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async getAlertRules(customerId: string, options?: { enabledOnly?: boolean }): Promise<AlertRule[]> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const result = await client.query(
+                `SELECT * FROM alert_rules WHERE customer_id = $1${options?.enabledOnly ? ' AND enabled' : ''} ORDER BY created_at`,
+                [customerId]
+            );
+            return result.rows.map(row => this.mapAlertRuleRow(row));
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async getAlertRule(ruleId: string): Promise<AlertRule | null> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const result = await client.query('SELECT * FROM alert_rules WHERE id = $1', [ruleId]);
+            return result.rows.length > 0 ? this.mapAlertRuleRow(result.rows[0]) : null;
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async createAlertRule(customerId: string, input: AlertRuleInput, createdBy?: string): Promise<AlertRule> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const result = await client.query(`
+                INSERT INTO alert_rules (id, customer_id, rule_type, threshold, channels, enabled, created_by)
+                VALUES ($1, $2, $3, $4, $5, $6, $7)
+                RETURNING *
+            `, [
+                randomUUID(),
+                customerId,
+                input.type,
+                input.threshold ?? null,
+                JSON.stringify(input.channels),
+                input.enabled,
+                createdBy || null
+            ]);
+            
+            console.log(`✅ PostgreSQL: Alert rule ${input.type} created for customer ${customerId}`);
+            return this.mapAlertRuleRow(result.rows[0]);
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async updateAlertRule(ruleId: string, input: AlertRuleInput): Promise<AlertRule> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const result = await client.query(`
+                UPDATE alert_rules
+                SET rule_type = $1, threshold = $2, channels = $3, enabled = $4, updated_at = CURRENT_TIMESTAMP
+                WHERE id = $5
+                RETURNING *
+            `, [input.type, input.threshold ?? null, JSON.stringify(input.channels), input.enabled, ruleId]);
+            
+            if (result.rows.length === 0) {
+                throw new Error('Alert rule not found');
+            }
+            return this.mapAlertRuleRow(result.rows[0]);
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async deleteAlertRule(ruleId: string): Promise<void> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            await client.query('DELETE FROM alert_rules WHERE id = $1', [ruleId]);
+            console.log(`✅ PostgreSQL: Alert rule ${ruleId} deleted`);
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async recordAlertDelivery(delivery: Omit<AlertDelivery, 'id' | 'createdAt'>): Promise<AlertDelivery> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const result = await client.query(`
+                INSERT INTO alert_deliveries (id, customer_id, rule_id, assessment_id, channel, target, title, status, attempt, error)
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+                RETURNING *
+            `, [
+                randomUUID(),
+                delivery.customerId,
+                delivery.ruleId,
+                delivery.assessmentId,
+                delivery.channel,
+                delivery.target,
+                delivery.title,
+                delivery.status,
+                delivery.attempt,
+                delivery.error || null
+            ]);
+            
+            return this.mapAlertDeliveryRow(result.rows[0]);
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async getAlertDeliveries(customerId: string, limit: number = 50): Promise<AlertDelivery[]> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const result = await client.query(
+                'SELECT * FROM alert_deliveries WHERE customer_id = $1 ORDER BY created_at DESC LIMIT $2',
+                [customerId, limit]
+            );
+            return result.rows.map(row => this.mapAlertDeliveryRow(row));
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    /**
+     * SQL condition limiting `column` to the customers assigned to a user; appends its parameters
+     */
+    private assignmentCondition(column: string, scope: AssignmentScope, params: any[]): string {
+        params.push(scope.objectId || null, scope.userPrincipalName);
+        const objectIdParam = `$${params.length - 1}`;
+        const upnParam = `$${params.length}`;
+        return `${column} IN (SELECT customer_id FROM customer_assignments WHERE user_id = ${objectIdParam} OR LOWER(user_principal_name) = LOWER(${upnParam}))`;
+    }
+
+    async getCustomerAssignments(customerId: string): Promise<CustomerAssignment[]> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const result = await client.query(
+                'SELECT * FROM customer_assignments WHERE customer_id = $1 ORDER BY assigned_at',
+                [customerId]
+            );
+            return result.rows.map(row => this.mapCustomerAssignmentRow(row));
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async getAssignedCustomerIds(scope: AssignmentScope): Promise<string[]> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const params: any[] = [];
+            const result = await client.query(
+                `SELECT id FROM customers WHERE ${this.assignmentCondition('id', scope, params)}`,
+                params
+            );
+            return result.rows.map(row => row.id);
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async assignCustomer(customerId: string, userId: string, userPrincipalName?: string, assignedBy?: string): Promise<CustomerAssignment> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const result = await client.query(`
+                INSERT INTO customer_assignments (customer_id, user_id, user_principal_name, assigned_by)
+                VALUES ($1, $2, $3, $4)
+                ON CONFLICT (customer_id, user_id) DO UPDATE SET
+                    user_principal_name = EXCLUDED.user_principal_name,
+                    assigned_by = EXCLUDED.assigned_by,
+                    assigned_at = CURRENT_TIMESTAMP
+                RETURNING *
+            `, [customerId, userId, userPrincipalName || null, assignedBy || null]);
+            
+            console.log(`✅ PostgreSQL: Customer ${customerId} assigned to ${userPrincipalName || userId}`);
+            return this.mapCustomerAssignmentRow(result.rows[0]);
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async unassignCustomer(customerId: string, userId: string): Promise<boolean> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const result = await client.query(
+                'DELETE FROM customer_assignments WHERE customer_id = $1 AND user_id = $2',
+                [customerId, userId]
+            );
+            return (result.rowCount || 0) > 0;
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    /**
+     * Customer of an assessment without loading its metrics
+     */
+    async getAssessmentCustomerId(assessmentId: string): Promise<string | null> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const result = await client.query('SELECT customer_id FROM assessments WHERE id = $1', [assessmentId]);
+            return result.rows[0]?.customer_id || null;
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async recordAuditEvent(entry: Omit<AuditLogEntry, 'id' | 'occurredAt'>): Promise<AuditLogEntry> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const result = await client.query(`
+                INSERT INTO audit_log (id, actor, actor_role, action, target_type, target_id, customer_id, before_state, after_state, source_ip)
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+                RETURNING *
+            `, [
+                randomUUID(),
+                entry.actor,
+                entry.actorRole || null,
+                entry.action,
+                entry.targetType,
+                entry.targetId || null,
+                entry.customerId || null,
+                entry.before === undefined ? null : JSON.stringify(entry.before),
+                entry.after === undefined ? null : JSON.stringify(entry.after),
+                entry.sourceIp || null
+            ]);
+            
+            return this.mapAuditLogRow(result.rows[0]);
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async getAuditLog(query: AuditLogQuery = {}): Promise<{ entries: AuditLogEntry[]; total: number }> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const conditions: string[] = [];
+            const params: any[] = [];
+            const addCondition = (sql: string, value: any) => {
+                params.push(value);
+                conditions.push(sql.replace('?', `$${params.length}`));
+            };
+
+            if (query.customerId) addCondition('customer_id = ?', query.customerId);
+            if (query.actor) addCondition('LOWER(actor) = LOWER(?)', query.actor);
+            if (query.action) addCondition('action = ?', query.action);
+            if (query.targetType) addCondition('target_type = ?', query.targetType);
+            if (query.from) addCondition('occurred_at >= ?', query.from);
+            if (query.to) addCondition('occurred_at <= ?', query.to);
+
+            const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+            params.push(query.limit || 100, query.offset || 0);
+
+            const result = await client.query(`
+                SELECT *, COUNT(*) OVER() AS total_count
+                FROM audit_log
+                ${where}
+                ORDER BY occurred_at DESC
+                LIMIT $${params.length - 1} OFFSET $${params.length}
+            `, params);
+            
+            return {
+                entries: result.rows.map(row => this.mapAuditLogRow(row)),
+                total: result.rows.length > 0 ? parseInt(result.rows[0].total_count) : 0
+            };
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    /**
+     * Stored metrics are upgraded to the current document version on the way out, so
+     * callers never see the shapes older writers left behind
+     */
+    private mapAssessmentRow(row: any): Assessment {
+        const score = parseFloat(row.score) || 0;
+        return {
+            id: row.id,
+            customerId: row.customer_id,
+            tenantId: row.tenant_id,
+            date: row.date,
+            status: row.status,
+            score,
+            metrics: upgradeAssessmentDocument(row.metrics, { score, tenantId: row.tenant_id, date: row.date }),
+            recommendations: row.recommendations || []
+        };
+    }
+
+    private mapCustomerAssignmentRow(row: any): CustomerAssignment {
+        return {
+            customerId: row.customer_id,
+            userId: row.user_id,
+            userPrincipalName: row.user_principal_name || undefined,
+            assignedBy: row.assigned_by || undefined,
+            assignedAt: row.assigned_at
+        };
+    }
+
+    private mapFindingExceptionRow(row: any): FindingException {
+        return {
+            id: row.id,
+            customerId: row.customer_id,
+            findingKey: row.finding_key,
+            type: row.exception_type,
+            justification: row.justification,
+            expiresAt: row.expires_at,
+            createdBy: row.created_by || undefined,
+            createdAt: row.created_at,
+            revokedAt: row.revoked_at || undefined
+        };
+    }
+
+    private mapScoringProfileRow(row: any): ScoringProfile {
+        return {
+            customerId: row.customer_id,
+            weights: row.weights,
+            updatedBy: row.updated_by || undefined,
+            updatedAt: row.updated_at
+        };
+    }
+
+    private mapSecretRotationRow(row: any): SecretRotationRecord {
+        return {
+            id: row.id,
+            customerId: row.customer_id,
+            clientId: row.client_id,
+            trigger: row.trigger,
+            status: row.status,
+            newKeyId: row.new_key_id || undefined,
+            removedKeyIds: row.removed_key_ids || [],
+            previousExpiry: row.previous_expiry ? new Date(row.previous_expiry).toISOString() : undefined,
+            newExpiry: row.new_expiry ? new Date(row.new_expiry).toISOString() : undefined,
+            error: row.error || undefined,
+            performedBy: row.performed_by || undefined,
+            createdAt: row.created_at
+        };
+    }
+
+    private mapAssessmentScheduleRow(row: any): AssessmentSchedule {
+        return {
+            id: row.id,
+            customerId: row.customer_id,
+            frequency: row.frequency,
+            dayOfWeek: row.day_of_week ?? undefined,
+            dayOfMonth: row.day_of_month ?? undefined,
+            hour: row.hour,
+            minute: row.minute,
+            cronExpression: row.cron_expression || undefined,
+            includedCategories: row.included_categories || [],
+            retryPolicy: {
+                maxRetries: row.max_retries,
+                retryDelayMinutes: row.retry_delay_minutes
+            },
+            enabled: row.enabled,
+            nextRunAt: new Date(row.next_run_at).toISOString(),
+            retryCount: row.retry_count || 0,
+            lastRunAt: row.last_run_at ? new Date(row.last_run_at).toISOString() : undefined,
+            lastRunStatus: row.last_run_status || undefined,
+            lastRunError: row.last_run_error || undefined,
+            lastAssessmentId: row.last_assessment_id || undefined,
+            createdBy: row.created_by || undefined,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at
+        };
+    }
+
+    private mapAlertRuleRow(row: any): AlertRule {
+        return {
+            id: row.id,
+            customerId: row.customer_id,
+            type: row.rule_type,
+            threshold: row.threshold !== null && row.threshold !== undefined ? parseFloat(row.threshold) : undefined,
+            channels: row.channels || [],
+            enabled: row.enabled,
+            createdBy: row.created_by || undefined,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at
+        };
+    }
+
+    private mapAuditLogRow(row: any): AuditLogEntry {
+        return {
+            id: row.id,
+            occurredAt: row.occurred_at,
+            actor: row.actor,
+            actorRole: row.actor_role || undefined,
+            action: row.action,
+            targetType: row.target_type,
+            targetId: row.target_id || undefined,
+            customerId: row.customer_id || undefined,
+            before: row.before_state ?? undefined,
+            after: row.after_state ?? undefined,
+            sourceIp: row.source_ip || undefined
+        };
+    }
+
+    private mapAlertDeliveryRow(row: any): AlertDelivery {
+        return {
+            id: row.id,
+            customerId: row.customer_id,
+            ruleId: row.rule_id,
+            assessmentId: row.assessment_id,
+            channel: row.channel,
+            target: row.target,
+            title: row.title,
+            status: row.status,
+            attempt: row.attempt,
+            error: row.error || undefined,
+            createdAt: row.created_at
+        };
+    }
+
+    private mapCustomerLicensePriceRow(row: any): CustomerLicensePrice {
+        return {
+            customerId: row.customer_id,
+            skuPartNumber: row.sku_part_number,
+            // NUMERIC columns come back as strings
+            unitPrice: Number(row.unit_price),
+            currency: row.currency,
+            billingTerm: row.billing_term,
+            updatedBy: row.updated_by || undefined,
+            updatedAt: row.updated_at
+        };
+    }
+
+    private mapFindingRow(row: any): SecurityFinding {
+        return {
+            id: row.id,
+            ruleId: row.rule_id,
+            findingKey: row.finding_key,
+            lifecycle: row.lifecycle,
+            firstSeenAt: row.first_seen_at,
+            assessmentId: row.assessment_id,
+            customerId: row.customer_id,
+            tenantId: row.tenant_id,
+            category: row.category,
+            severity: row.severity,
+            title: row.title,
+            description: row.description,
+            affectedResources: row.affected_resources || [],
+            remediation: row.remediation,
+            evidence: row.evidence || {},
+            status: row.status,
+            createdAt: row.created_at,
+            ...(row.exception_id ? {
+                exception: {
+                    id: row.exception_id,
+                    customerId: row.customer_id,
+                    findingKey: row.finding_key,
+                    type: row.exception_type,
+                    justification: row.justification,
+                    expiresAt: row.expires_at,
+                    createdBy: row.exception_created_by || undefined,
+                    createdAt: row.exception_created_at
+                }
+            } : {})
+        };
+    }
+
+    async getAllAssessmentHistory(): Promise<AssessmentHistory[]> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const query = `
+                SELECT 
+                    id,
+                    assessment_id,
+                    tenant_id,
+                    customer_id,
+                    date,
+                    overall_score,
+                    category_scores
+                FROM assessment_history
+                ORDER BY date DESC
+            `;
+            
+            const result = await client.query(query);
+            
+            const history: AssessmentHistory[] = result.rows.map((row: any) => ({
+                id: row.id,
+                assessmentId: row.assessment_id,
+                tenantId: row.tenant_id,
+                customerId: row.customer_id,
+                date: row.date,
+                overallScore: parseFloat(row.overall_score) || 0,
+                categoryScores: row.category_scores || {}
+            }));
+            
+            return history;
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    async getCustomerAssessmentHistory(customerId: string): Promise<AssessmentHistory[]> {
+        await this.initialize();
+        
+        const client = await this.pool.connect();
+        try {
+            const query = `
+                SELECT 
+                    id,
+                    assessment_id,
+                    tenant_id,
+                    customer_id,
+                    date,
+                    overall_score,
+                    category_scores
+                FROM assessment_history
+                WHERE customer_id = $1
+                ORDER BY date DESC
+            `;
+            
+            const result = await client.query(query, [customerId]);
+            
+            const history: AssessmentHistory[] = result.rows.map((row: any) => ({
+                id: row.id,
+                assessmentId: row.assessment_id,
+                tenantId: row.tenant_id,
+                customerId: row.customer_id,
+                date: row.date,
+                overallScore: parseFloat(row.overall_score) || 0,
+                categoryScores: row.category_scores || {}
+            }));
+            
+            return history;
+            
+        } finally {
+            client.release();
+        }
+    }
+
+    /**
+     * Health check and monitoring
+     */
+    async healthCheck(): Promise<{ healthy: boolean; details: any }> {
+        try {
+            const client = await this.pool.connect();
+            const result = await client.query('SELECT NOW() as current_time, version() as version');
+            client.release();
+            
+            return {
+                healthy: true,
+                details: {
+                    timestamp: result.rows[0].current_time,
+                    version: result.rows[0].version,
+                    poolSize: this.pool.totalCount,
+                    idleConnections: this.pool.idleCount,
+                    waitingClients: this.pool.waitingCount
+                }
+            };
+        } catch (error) {
+            return {
+                healthy: false,
+                details: {
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                    timestamp: new Date().toISOString()
+                }
+            };
+        }
+    }
+
+    /**
+     * Test database connection for health checks
+     */
+    async testConnection(): Promise<{ connected: boolean; host: string; database: string; version: string }> {
+        try {
+            const client = await this.pool.connect();
+            try {
+                const result = await client.query('SELECT version(), current_database()');
+                return {
+                    connected: true,
+                    host: process.env.POSTGRES_HOST || 'localhost',
+                    database: result.rows[0].current_database,
+                    version: result.rows[0].version
+                };
+            } finally {
+                client.release();
+            }
+        } catch (error) {
+            return {
+                connected: false,
+                host: process.env.POSTGRES_HOST || 'localhost',
+                database: process.env.POSTGRES_DATABASE || 'm365_assessment',
+                version: 'unknown'
+            };
+        }
+    }
+
+    /**
+     * Get database statistics for monitoring
+     */
+    async getDatabaseStats(): Promise<{ tables: any[]; totalRecords: number }> {
+        try {
+            const client = await this.pool.connect();
+            try {
+                // Get table information
+                const tableQuery = `
+                    SELECT 
+                        schemaname,
+                        tablename,
+                        n_tup_ins as inserts,
+                        n_tup_upd as updates,
+                        n_tup_del as deletes,
+                        n_live_tup as live_tuples,
+                        n_dead_tup as dead_tuples
+                    FROM pg_stat_user_tables
+                    WHERE schemaname = 'public'
+                    ORDER BY tablename;
                 `;
                 
                 const tableResult = await client.query(tableQuery);
@@ -1480,17 +2460,7 @@ export class PostgreSQLService {
                 return null;
             }
             
-            const row = result.rows[0];
-            return {
-                id: row.id,
-                customerId: row.customer_id,
-                tenantId: row.tenant_id,
-                date: row.date,
-                status: row.status,
-                score: row.score,
-                metrics: row.metrics,
-                recommendations: row.recommendations
-            };
+            return this.mapAssessmentRow(result.rows[0]);
             
         } finally {
             client.release();
@@ -1501,7 +2471,7 @@ export class PostgreSQLService {
      * Browse table data for debugging/monitoring
      */
     async browseTable(tableName: string, limit: number = 10): Promise<any[]> {
-        const validTables = ['customers', 'assessments', 'assessment_history'];
+        const validTables = ['customers', 'assessments', 'assessment_history', 'findings', 'finding_exceptions', 'scoring_profiles', 'customer_license_prices', 'secret_rotation_audit', 'assessment_schedules', 'alert_rules', 'alert_deliveries', 'customer_assignments', 'audit_log'];
         if (!validTables.includes(tableName)) {
             throw new Error(`Invalid table name. Valid tables: ${validTables.join(', ')}`);
         }
@@ -0,0 +1,382 @@
+import { Assessment, Customer, CustomerBranding, EffectiveLicensePrice, FindingSeverity, ReportLanguage, SecurityFinding } from "../types";
+import { CATALOG_CURRENCY, getLicensePrice, sumByCurrency } from "../licensePricing";
+import { getRule, isActiveFinding } from "../findings";
+import { decodeLogo, normalizeBranding } from "../branding";
+import { PdfImage, parseJpeg, parsePng } from "./images";
+import { ReportLayout, ReportTheme } from "./reportLayout";
+import { getReportStrings, ReportStrings } from "./strings";
+
+export interface ReportBranding extends ReportTheme {
+    /** Company delivering the report, shown in the header and on the cover */
+    companyName: string;
+    disclaimer: string;
+    language: ReportLanguage;
+    /** PNG or JPEG data URL */
+    logo?: string;
+}
+
+export const DEFAULT_REPORT_BRANDING: ReportBranding = {
+    companyName: 'M365 Security Assessment',
+    primaryColor: '#0078d4',
+    accentColor: '#ffb900',
+    textColor: '#323130',
+    mutedColor: '#605e5c',
+    disclaimer: getReportStrings('en').disclaimer,
+    language: 'en'
+};
+
+export interface AssessmentReportInput {
+    assessment: Assessment;
+    customer: Customer;
+    findings: SecurityFinding[];
+    /** Resolved prices including the customer's negotiated rates; catalog prices when omitted */
+    licensePrices?: Record<string, EffectiveLicensePrice>;
+}
+
+const TOP_RECOMMENDATIONS = 10;
+const MAX_VULNERABLE_USERS = 50;
+
+const SEVERITY_ORDER: Record<FindingSeverity, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+const SEVERITY_COLORS: Record<string, string> = {
+    critical: '#a80000',
+    high: '#d83b01',
+    medium: '#9d5d00',
+    low: '#605e5c'
+};
+
+const STATUS_COLORS: Record<string, string> = {
+    'Implemented': '#107c10',
+    'Partial': '#9d5d00',
+    'Not Implemented': '#a80000'
+};
+
+const isUsable = (data: any): boolean => !!data && !data.skipped && !data.unavailable && !data.error;
+
+const currency = (value: number, code: string, strings: ReportStrings, fractionDigits = 0): string =>
+    value.toLocaleString(strings.locale, { style: 'currency', currency: code, minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits });
+
+// Totals in different currencies are listed side by side rather than converted
+const currencyTotals = (totals: Record<string, number>, strings: ReportStrings): string => {
+    const entries = Object.entries(totals);
+    return entries.length > 0
+        ? entries.map(([code, value]) => currency(value, code, strings)).join(' + ')
+        : currency(0, CATALOG_CURRENCY, strings);
+};
+
+const scoreColor = (score: number): string => score >= 80 ? '#107c10' : score >= 60 ? '#9d5d00' : '#a80000';
+
+/**
+ * Customer branding on top of the defaults; fields the customer left empty keep the default
+ */
+export function resolveReportBranding(branding?: CustomerBranding): ReportBranding {
+    const custom = branding ? normalizeBranding(branding) : {};
+    const language = custom.language || DEFAULT_REPORT_BRANDING.language;
+    return {
+        ...DEFAULT_REPORT_BRANDING,
+        ...custom,
+        language,
+        disclaimer: custom.disclaimer || getReportStrings(language).disclaimer
+    };
+}
+
+function loadLogo(logo?: string): PdfImage | undefined {
+    const decoded = logo ? decodeLogo(logo) : null;
+    if (!decoded) {
+        return undefined;
+    }
+    // Unsupported PNG variants (16-bit, interlaced) are left out rather than failing the report
+    return (decoded.format === 'png' ? parsePng(decoded.data) : parseJpeg(decoded.data)) || undefined;
+}
+
+function renderExecutiveSummary(layout: ReportLayout, strings: ReportStrings, assessment: Assessment, findings: SecurityFinding[]): void {
+    const metrics = assessment.metrics || {};
+    const realData = metrics.realData || {};
+    const overall = Math.round(metrics.score?.overall ?? assessment.score ?? 0);
+    const openFindings = findings.filter(isActiveFinding);
+    const bySeverity = (severity: FindingSeverity) => openFindings.filter(finding => finding.severity === severity).length;
+
+    layout.heading(strings.executiveSummary);
+    layout.metrics([
+        { label: strings.overallScore, value: `${overall}%`, color: scoreColor(overall) },
+        { label: strings.secureScore, value: `${Math.round(metrics.secureScore?.percentage ?? 0)}%` },
+        { label: strings.mfaCoverage, value: isUsable(realData.identityMetrics) ? `${realData.identityMetrics.mfaCoverage}%` : strings.notAvailable },
+        { label: strings.deviceCompliance, value: isUsable(realData.endpointMetrics) ? `${realData.endpointMetrics.complianceRate}%` : strings.notAvailable }
+    ]);
+
+    const summary = [
+        strings.summaryScore(realData.tenantInfo?.displayName || strings.theTenant, overall),
+        openFindings.length > 0
+            ? strings.summaryIssues(openFindings.length, bySeverity('critical'), bySeverity('high'), bySeverity('medium'), bySeverity('low'))
+            : strings.noIssues
+    ];
+    if (metrics.compliance?.percentage !== null && metrics.compliance?.percentage !== undefined) {
+        summary.push(strings.summaryBenchmark(
+            metrics.compliance.passed,
+            metrics.compliance.passed + metrics.compliance.failed,
+            metrics.compliance.name,
+            metrics.compliance.percentage
+        ));
+    }
+    layout.paragraph(summary.join(' '));
+
+    const categoryScores: Record<string, number> = metrics.scoring?.categoryScores || {};
+    if (Object.keys(categoryScores).length > 0) {
+        layout.subheading(strings.scoreBreakdown);
+        layout.table(
+            [
+                { header: strings.category, width: 0.5 },
+                { header: strings.score, width: 0.25, align: 'right' },
+                { header: strings.weight, width: 0.25, align: 'right' }
+            ],
+            Object.entries(categoryScores).map(([category, score]) => [
+                strings.categories[category] || category,
+                { text: `${Math.round(score)}%`, color: scoreColor(score) },
+                `${Math.round((metrics.scoring.appliedWeights?.[category] || 0) * 100)}%`
+            ])
+        );
+    }
+}
+
+function renderLicenseCosts(layout: ReportLayout, strings: ReportStrings, assessment: Assessment,
+    licensePrices: Record<string, EffectiveLicensePrice>): void {
+    const realData = assessment.metrics?.realData || {};
+    const licenseInfo = isUsable(realData.licenseInfo) ? realData.licenseInfo : assessment.metrics?.license;
+    const licenses: any[] = (licenseInfo?.licenseDetails || []).filter((license: any) => license.skuPartNumber);
+
+    layout.heading(strings.licenseHeading);
+    if (licenses.length === 0) {
+        layout.paragraph(strings.licenseNotCollected, { color: '#605e5c' });
+        return;
+    }
+
+    const rows = licenses
+        .map(license => {
+            const total = Number(license.totalUnits) || Number(license.prepaidUnits?.enabled) || 0;
+            const assigned = Number(license.assignedUnits) || Number(license.consumedUnits) || 0;
+            const price = getLicensePrice(licensePrices, license.skuPartNumber);
+            return { price, total, assigned, unused: Math.max(0, total - assigned), unitCost: price.unitPrice };
+        })
+        .filter(license => license.total > 0)
+        .sort((a, b) => b.unused * b.unitCost - a.unused * a.unitCost);
+
+    const monthlyCost = sumByCurrency(rows.map(row => ({ amount: row.assigned * row.unitCost, currency: row.price.currency })));
+    const wastedCost = sumByCurrency(rows.map(row => ({ amount: row.unused * row.unitCost, currency: row.price.currency })));
+    const annualSavings = Object.fromEntries(Object.entries(wastedCost).map(([code, value]) => [code, value * 12]));
+    const hasWaste = Object.values(wastedCost).some(value => value > 0);
+
+    layout.metrics([
+        { label: strings.estimatedMonthlyCost, value: currencyTotals(monthlyCost, strings) },
+        { label: strings.unusedPerMonthTotal, value: currencyTotals(wastedCost, strings), color: hasWaste ? '#d83b01' : '#107c10' },
+        { label: strings.potentialAnnualSavings, value: currencyTotals(annualSavings, strings) }
+    ]);
+
+    layout.table(
+        [
+            { header: strings.license, width: 0.34 },
+            { header: strings.assigned, width: 0.12, align: 'right' },
+            { header: strings.total, width: 0.1, align: 'right' },
+            { header: strings.unused, width: 0.1, align: 'right' },
+            { header: strings.unitPerMonth, width: 0.14, align: 'right' },
+            { header: strings.unusedPerMonth, width: 0.2, align: 'right' }
+        ],
+        rows.map(row => [
+            `${row.price.displayName}${row.price.source === 'negotiated' ? ' *' : ''}`,
+            String(row.assigned),
+            String(row.total),
+            { text: String(row.unused), color: row.unused > 0 ? '#d83b01' : undefined },
+            currency(row.unitCost, row.price.currency, strings, 2),
+            currency(row.unused * row.unitCost, row.price.currency, strings)
+        ])
+    );
+    layout.paragraph(strings.pricingNote, { size: 8, color: '#605e5c' });
+}
+
+function renderSecureScore(layout: ReportLayout, strings: ReportStrings, assessment: Assessment): void {
+    const secureScore = assessment.metrics?.secureScore;
+    const controls: any[] = secureScore?.controlScores || [];
+
+    layout.heading(strings.secureScoreHeading);
+    if (controls.length === 0) {
+        layout.paragraph(strings.secureScoreNotCollected, { color: '#605e5c' });
+        return;
+    }
+
+    layout.paragraph(strings.secureScoreSummary(
+        Math.round(secureScore.currentScore || 0),
+        Math.round(secureScore.maxScore || 0),
+        Math.round(secureScore.percentage || 0)
+    ));
+
+    const controlRows = (list: any[]) => list.map(control => [
+        control.title || control.controlName,
+        control.category || 'General',
+        {
+            text: strings.controlStatuses[control.implementationStatus] || control.implementationStatus || 'Unknown',
+            color: STATUS_COLORS[control.implementationStatus]
+        },
+        `${Math.round(control.currentScore || 0)} / ${Math.round(control.maxScore || 0)}`
+    ]);
+    const columns = [
+        { header: strings.control, width: 0.5 },
+        { header: strings.category, width: 0.16 },
+        { header: strings.status, width: 0.18 },
+        { header: strings.points, width: 0.16, align: 'right' as const }
+    ];
+
+    const openControls = controls
+        .filter(control => control.implementationStatus !== 'Implemented')
+        .sort((a, b) => (b.scoreGap || 0) - (a.scoreGap || 0));
+    const implemented = controls.filter(control => control.implementationStatus === 'Implemented');
+
+    layout.subheading(strings.controlsToImprove(openControls.length));
+    layout.table(columns, controlRows(openControls));
+
+    if (implemented.length > 0) {
+        layout.subheading(strings.implementedControls(implemented.length));
+        layout.table(columns, controlRows(implemented));
+    }
+}
+
+function renderIdentity(layout: ReportLayout, strings: ReportStrings, assessment: Assessment): void {
+    const identity = assessment.metrics?.realData?.identityMetrics;
+
+    layout.heading(strings.identityHeading);
+    if (!isUsable(identity)) {
+        layout.paragraph(strings.identityNotCollected, { color: '#605e5c' });
+        return;
+    }
+
+    const users: any[] = identity.userDetails || [];
+    const summary = identity.vulnerabilitySummary || { critical: 0, high: 0, medium: 0, low: 0 };
+
+    layout.metrics([
+        { label: strings.users, value: String(identity.totalUsers) },
+        { label: strings.mfaCoverage, value: `${identity.mfaCoverage}%`, color: scoreColor(identity.mfaCoverage) },
+        { label: strings.privilegedUsers, value: String(identity.adminUsers) },
+        { label: strings.guestUsers, value: String(identity.guestUsers) }
+    ]);
+
+    layout.subheading(strings.vulnerabilityBreakdown);
+    layout.table(
+        [
+            { header: strings.level, width: 0.3 },
+            { header: strings.allUsers, width: 0.23, align: 'right' },
+            { header: strings.privileged, width: 0.23, align: 'right' },
+            { header: strings.external, width: 0.24, align: 'right' }
+        ],
+        (['Critical', 'High', 'Medium', 'Low'] as const).map(level => {
+            const atLevel = users.filter(user => user.vulnerabilityLevel === level);
+            return [
+                { text: strings.levels[level], color: SEVERITY_COLORS[level.toLowerCase()], font: 'bold' as const },
+                String(summary[level.toLowerCase()] ?? atLevel.length),
+                String(atLevel.filter(user => user.isPrivileged).length),
+                String(atLevel.filter(user => user.isExternalUser).length)
+            ];
+        })
+    );
+
+    const vulnerableUsers = users
+        .filter(user => user.vulnerabilityLevel === 'Critical' || user.vulnerabilityLevel === 'High')
+        .sort((a, b) => (a.vulnerabilityLevel === b.vulnerabilityLevel ? 0 : a.vulnerabilityLevel === 'Critical' ? -1 : 1) ||
+            Number(!!b.isPrivileged) - Number(!!a.isPrivileged));
+
+    if (vulnerableUsers.length > 0) {
+        layout.subheading(strings.riskyUsers(vulnerableUsers.length));
+        layout.table(
+            [
+                { header: strings.user, width: 0.36 },
+                { header: strings.level, width: 0.12 },
+                { header: strings.privileged, width: 0.14 },
+                { header: strings.reason, width: 0.38 }
+            ],
+            vulnerableUsers.slice(0, MAX_VULNERABLE_USERS).map(user => [
+                user.userPrincipalName || user.id,
+                {
+                    text: strings.levels[user.vulnerabilityLevel] || user.vulnerabilityLevel,
+                    color: SEVERITY_COLORS[String(user.vulnerabilityLevel).toLowerCase()]
+                },
+                user.isPrivileged ? (user.privilegedRoles || []).join(', ') || strings.yes : strings.no,
+                user.vulnerabilityReason || ''
+            ])
+        );
+        if (vulnerableUsers.length > MAX_VULNERABLE_USERS) {
+            layout.paragraph(strings.moreUsers(vulnerableUsers.length - MAX_VULNERABLE_USERS), { size: 8, color: '#605e5c' });
+        }
+    }
+}
+
+function renderRecommendations(layout: ReportLayout, strings: ReportStrings, assessment: Assessment, findings: SecurityFinding[]): void {
+    layout.heading(strings.recommendationsHeading);
+
+    // One recommendation per rule, ordered by the most severe open finding of the rule
+    const byRule = new Map<string, SecurityFinding[]>();
+    findings
+        .filter(finding => isActiveFinding(finding) && !finding.exception)
+        .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity])
+        .forEach(finding => {
+            const key = finding.ruleId || finding.title;
+            byRule.set(key, [...(byRule.get(key) || []), finding]);
+        });
+
+    if (byRule.size === 0) {
+        const recommendations = (assessment.recommendations || []).filter(item => typeof item === 'string');
+        if (recommendations.length === 0) {
+            layout.paragraph(strings.noRecommendations);
+            return;
+        }
+        layout.bullets(recommendations.slice(0, TOP_RECOMMENDATIONS));
+        return;
+    }
+
+    Array.from(byRule.values()).slice(0, TOP_RECOMMENDATIONS).forEach((ruleFindings, index) => {
+        const finding = ruleFindings[0];
+        const recommendation = finding.ruleId ? getRule(finding.ruleId)?.recommendation : undefined;
+        const affected = Array.from(new Set(ruleFindings.flatMap(item => item.affectedResources)));
+
+        layout.subheading(`${index + 1}. ${recommendation?.title || finding.title}`);
+        const severity = (strings.severities[finding.severity] || finding.severity).toUpperCase();
+        layout.paragraph(`${strings.severity}: ${severity}${recommendation ? `   ${strings.effort}: ${recommendation.effort}` : ''}`, {
+            size: 8,
+            font: 'bold',
+            color: SEVERITY_COLORS[finding.severity]
+        });
+        layout.paragraph(recommendation?.description || finding.description);
+        if (affected.length > 0) {
+            layout.paragraph(strings.affected(affected.slice(0, 8).join(', '), affected.length - 8), { size: 8, color: '#605e5c' });
+        }
+        layout.bullets(recommendation?.implementationSteps || [finding.remediation]);
+    });
+}
+
+/**
+ * Render a stored assessment into a PDF deliverable, branded for the customer
+ */
+export function renderAssessmentReport(input: AssessmentReportInput): Buffer {
+    const { assessment, customer, findings, licensePrices = {} } = input;
+    const branding = resolveReportBranding(customer.branding);
+    const strings = getReportStrings(branding.language);
+    const tenantName = assessment.metrics?.realData?.tenantInfo?.displayName || customer.tenantName;
+    const assessmentDate = new Date(assessment.date).toLocaleDateString(strings.locale, { year: 'numeric', month: 'long', day: 'numeric' });
+
+    const layout = new ReportLayout(
+        `${strings.title} - ${tenantName}`,
+        `${branding.companyName}  |  ${tenantName}`,
+        branding.disclaimer,
+        branding,
+        { logo: loadLogo(branding.logo), pageLabel: strings.page }
+    );
+
+    layout.title(strings.title, `${tenantName} (${customer.tenantDomain})  -  ${assessmentDate}`);
+    if (assessment.metrics?.assessmentName) {
+        layout.paragraph(assessment.metrics.assessmentName, { font: 'bold' });
+    }
+
+    renderExecutiveSummary(layout, strings, assessment, findings);
+    renderLicenseCosts(layout, strings, assessment, licensePrices);
+    renderSecureScore(layout, strings, assessment);
+    renderIdentity(layout, strings, assessment);
+    renderRecommendations(layout, strings, assessment, findings);
+
+    return layout.finish();
+}
@@ -0,0 +1,168 @@
+import { deflateSync, inflateSync } from "zlib";
+
+/**
+ * Image data ready to be embedded as a PDF image XObject
+ */
+export interface PdfImage {
+    width: number;
+    height: number;
+    colorSpace: 'DeviceRGB' | 'DeviceGray' | 'DeviceCMYK';
+    filter: 'DCTDecode' | 'FlateDecode';
+    data: Buffer;
+    /** Deflated 8-bit alpha channel */
+    alpha?: Buffer;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * JPEG files can be embedded as they are, only the frame size and components are needed
+ */
+export function parseJpeg(data: Buffer): PdfImage | null {
+    if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) {
+        return null;
+    }
+
+    let offset = 2;
+    while (offset + 9 < data.length) {
+        if (data[offset] !== 0xff) {
+            return null;
+        }
+        const marker = data[offset + 1];
+        const length = data.readUInt16BE(offset + 2);
+
+        // Start of frame markers, except the DHT, JPG and DAC markers sharing the range
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            const components = data[offset + 9];
+            return {
+                height: data.readUInt16BE(offset + 5),
+                width: data.readUInt16BE(offset + 7),
+                colorSpace: components === 1 ? 'DeviceGray' : components === 4 ? 'DeviceCMYK' : 'DeviceRGB',
+                filter: 'DCTDecode',
+                data
+            };
+        }
+        offset += 2 + length;
+    }
+    return null;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+    const estimate = left + up - upLeft;
+    const distanceLeft = Math.abs(estimate - left);
+    const distanceUp = Math.abs(estimate - up);
+    const distanceUpLeft = Math.abs(estimate - upLeft);
+    if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+    return distanceUp <= distanceUpLeft ? up : upLeft;
+}
+
+/**
+ * Decode an 8-bit, non-interlaced PNG (gray, RGB, palette, with or without alpha)
+ * into separate color and alpha planes. Other PNG variants return null.
+ */
+export function parsePng(data: Buffer): PdfImage | null {
+    if (data.length < 8 || !data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+        return null;
+    }
+
+    let width = 0;
+    let height = 0;
+    let bitDepth = 0;
+    let colorType = 0;
+    let interlace = 0;
+    let palette: Buffer | null = null;
+    let transparency: Buffer | null = null;
+    const idat: Buffer[] = [];
+
+    let offset = 8;
+    while (offset + 8 <= data.length) {
+        const length = data.readUInt32BE(offset);
+        const type = data.toString('ascii', offset + 4, offset + 8);
+        const chunk = data.subarray(offset + 8, offset + 8 + length);
+
+        if (type === 'IHDR') {
+            width = chunk.readUInt32BE(0);
+            height = chunk.readUInt32BE(4);
+            bitDepth = chunk[8];
+            colorType = chunk[9];
+            interlace = chunk[12];
+        } else if (type === 'PLTE') {
+            palette = chunk;
+        } else if (type === 'tRNS') {
+            transparency = chunk;
+        } else if (type === 'IDAT') {
+            idat.push(chunk);
+        } else if (type === 'IEND') {
+            break;
+        }
+        offset += 12 + length;
+    }
+
+    const channelsByColorType: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+    const channels = channelsByColorType[colorType];
+    if (!width || !height || bitDepth !== 8 || interlace !== 0 || !channels || (colorType === 3 && !palette)) {
+        return null;
+    }
+
+    const raw = inflateSync(Buffer.concat(idat));
+    const stride = width * channels;
+    const pixels = Buffer.alloc(stride * height);
+
+    // Undo the per-scanline filters
+    for (let row = 0; row < height; row++) {
+        const filter = raw[row * (stride + 1)];
+        const source = row * (stride + 1) + 1;
+        const target = row * stride;
+        for (let i = 0; i < stride; i++) {
+            const value = raw[source + i];
+            const left = i >= channels ? pixels[target + i - channels] : 0;
+            const up = row > 0 ? pixels[target - stride + i] : 0;
+            const upLeft = row > 0 && i >= channels ? pixels[target - stride + i - channels] : 0;
+            let decoded = value;
+            if (filter === 1) decoded = value + left;
+            else if (filter === 2) decoded = value + up;
+            else if (filter === 3) decoded = value + Math.floor((left + up) / 2);
+            else if (filter === 4) decoded = value + paeth(left, up, upLeft);
+            pixels[target + i] = decoded & 0xff;
+        }
+    }
+
+    const pixelCount = width * height;
+    const isGray = colorType === 0 || colorType === 4;
+    const color = Buffer.alloc(pixelCount * (isGray ? 1 : 3));
+    const alpha = Buffer.alloc(pixelCount, 0xff);
+    let hasAlpha = false;
+
+    for (let pixel = 0; pixel < pixelCount; pixel++) {
+        const source = pixel * channels;
+        if (colorType === 3) {
+            const index = pixels[source];
+            palette!.copy(color, pixel * 3, index * 3, index * 3 + 3);
+            if (transparency && index < transparency.length) {
+                alpha[pixel] = transparency[index];
+                hasAlpha = true;
+            }
+        } else if (isGray) {
+            color[pixel] = pixels[source];
+            if (colorType === 4) {
+                alpha[pixel] = pixels[source + 1];
+                hasAlpha = true;
+            }
+        } else {
+            pixels.copy(color, pixel * 3, source, source + 3);
+            if (colorType === 6) {
+                alpha[pixel] = pixels[source + 3];
+                hasAlpha = true;
+            }
+        }
+    }
+
+    return {
+        width,
+        height,
+        colorSpace: isGray ? 'DeviceGray' : 'DeviceRGB',
+        filter: 'FlateDecode',
+        data: deflateSync(color),
+        ...(hasAlpha ? { alpha: deflateSync(alpha) } : {})
+    };
+}
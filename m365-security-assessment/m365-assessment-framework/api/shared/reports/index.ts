@@ -0,0 +1,9 @@
+export { renderAssessmentReport, resolveReportBranding, DEFAULT_REPORT_BRANDING } from "./assessmentReport";
+export { getReportStrings, REPORT_STRINGS } from "./strings";
+export { parseJpeg, parsePng } from "./images";
+export { PdfDocument } from "./pdfDocument";
+export { ReportLayout } from "./reportLayout";
+export type { AssessmentReportInput, ReportBranding } from "./assessmentReport";
+export type { ReportTheme, ReportLayoutOptions, TableColumn, TableCell } from "./reportLayout";
+export type { ReportStrings } from "./strings";
+export type { PdfImage } from "./images";
@@ -0,0 +1,295 @@
+import { PdfImage } from "./images";
+
+/**
+ * Minimal PDF 1.4 writer for server-side reports. Uses the standard Helvetica
+ * fonts that every PDF viewer ships with, so no fonts, browser or native
+ * modules are needed on the Functions host.
+ */
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface PdfTextOptions {
+    size?: number;
+    font?: PdfFont;
+    color?: string;
+}
+
+// A4 in points
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+    regular: { name: 'F1', baseFont: 'Helvetica' },
+    bold: { name: 'F2', baseFont: 'Helvetica-Bold' }
+};
+
+// Glyph widths (1/1000 em) of the printable ASCII characters 32-126 from the Adobe font metrics
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+const DEFAULT_GLYPH_WIDTH = 556;
+
+/**
+ * WinAnsiEncoding places these characters at 128-159, where Latin-1 has control codes:
+ * character, code, and the Helvetica and Helvetica-Bold glyph widths
+ */
+const WIN_ANSI_EXTRAS: Array<[string, number, number, number]> = [
+    ['€', 0x80, 556, 556], ['‚', 0x82, 222, 278], ['ƒ', 0x83, 556, 556], ['„', 0x84, 333, 500],
+    ['…', 0x85, 1000, 1000], ['†', 0x86, 556, 556], ['‡', 0x87, 556, 556], ['ˆ', 0x88, 333, 333],
+    ['‰', 0x89, 1000, 1000], ['Š', 0x8a, 667, 667], ['‹', 0x8b, 333, 333], ['Œ', 0x8c, 1000, 1000],
+    ['Ž', 0x8e, 611, 611], ['‘', 0x91, 222, 278], ['’', 0x92, 222, 278], ['“', 0x93, 333, 500],
+    ['”', 0x94, 333, 500], ['•', 0x95, 350, 350], ['–', 0x96, 556, 556], ['—', 0x97, 1000, 1000],
+    ['˜', 0x98, 333, 333], ['™', 0x99, 1000, 1000], ['š', 0x9a, 500, 556], ['›', 0x9b, 333, 333],
+    ['œ', 0x9c, 944, 944], ['ž', 0x9e, 500, 500], ['Ÿ', 0x9f, 667, 667]
+];
+
+const WIN_ANSI_CODES = new Map(WIN_ANSI_EXTRAS.map(([char, code]) => [char, String.fromCharCode(code)]));
+const WIN_ANSI_WIDTHS = new Map(WIN_ANSI_EXTRAS.map(([, code, width, boldWidth]) => [code, { regular: width, bold: boldWidth }]));
+
+// Characters without a WinAnsi glyph that have a close stand-in. Number formatting
+// uses narrow and thin spaces as group separators in several locales.
+const SUBSTITUTIONS: Record<string, string> = {
+    '→': '->',
+    '\u202f': '\u00a0',
+    '\u2009': ' ',
+    '\u2007': ' '
+};
+
+/**
+ * Encode text for the WinAnsi encoded standard fonts: Latin-1 is kept as is, the
+ * WinAnsi additions (€, dashes, curly quotes, ...) are mapped to their codes and
+ * anything else (emoji, CJK, ...) is replaced.
+ */
+export function toPdfText(text: string): string {
+    return Array.from(String(text ?? ''))
+        .map(char => {
+            const winAnsi = WIN_ANSI_CODES.get(char);
+            if (winAnsi) return winAnsi;
+            if (SUBSTITUTIONS[char]) return SUBSTITUTIONS[char];
+            const code = char.charCodeAt(0);
+            if (code < 32) return ' ';
+            return code <= 126 || (code >= 160 && code <= 255) ? char : '?';
+        })
+        .join('');
+}
+
+function escapeText(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+}
+
+function colorOperands(hex: string): string {
+    const value = hex.replace('#', '');
+    const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value.padEnd(6, '0');
+    return [0, 2, 4]
+        .map(offset => (parseInt(full.substring(offset, offset + 2), 16) / 255 || 0).toFixed(3))
+        .join(' ');
+}
+
+const format = (value: number): string => Number(value.toFixed(2)).toString();
+
+export class PdfDocument {
+    private pages: string[][] = [];
+    private images: PdfImage[] = [];
+    private title: string;
+
+    constructor(title: string) {
+        this.title = title;
+    }
+
+    get pageCount(): number {
+        return this.pages.length;
+    }
+
+    addPage(): number {
+        this.pages.push([]);
+        return this.pages.length - 1;
+    }
+
+    /**
+     * Width of a text run in points
+     */
+    measure(text: string, size: number, font: PdfFont = 'regular'): number {
+        const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+        let total = 0;
+        for (const char of toPdfText(text)) {
+            const code = char.charCodeAt(0);
+            if (code >= 32 && code <= 126) {
+                total += widths[code - 32];
+            } else {
+                total += WIN_ANSI_WIDTHS.get(code)?.[font] ?? DEFAULT_GLYPH_WIDTH;
+            }
+        }
+        return (total * size) / 1000;
+    }
+
+    /**
+     * Break text into lines no wider than maxWidth, splitting long words if needed.
+     * Lines stay unencoded - text() encodes them when they are drawn.
+     */
+    wrap(text: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string[] {
+        const lines: string[] = [];
+        let line = '';
+
+        for (const word of String(text ?? '').replace(/[\x00-\x1f]/g, ' ').split(' ').filter(Boolean)) {
+            const candidate = line ? `${line} ${word}` : word;
+            if (this.measure(candidate, size, font) <= maxWidth) {
+                line = candidate;
+                continue;
+            }
+
+            if (line) {
+                lines.push(line);
+            }
+            line = word;
+            while (this.measure(line, size, font) > maxWidth && line.length > 1) {
+                let cut = line.length - 1;
+                while (cut > 1 && this.measure(line.substring(0, cut), size, font) > maxWidth) {
+                    cut--;
+                }
+                lines.push(line.substring(0, cut));
+                line = line.substring(cut);
+            }
+        }
+
+        if (line || lines.length === 0) {
+            lines.push(line);
+        }
+        return lines;
+    }
+
+    /**
+     * Draw a single line of text. y is the baseline, measured from the top of the page.
+     */
+    text(page: number, x: number, y: number, text: string, options: PdfTextOptions = {}): void {
+        const { size = 10, font = 'regular', color = '#000000' } = options;
+        this.pages[page].push(
+            'BT',
+            `${colorOperands(color)} rg`,
+            `/${FONT_RESOURCES[font].name} ${format(size)} Tf`,
+            `${format(x)} ${format(PAGE_HEIGHT - y)} Td`,
+            `(${escapeText(toPdfText(text))}) Tj`,
+            'ET'
+        );
+    }
+
+    /**
+     * Filled rectangle. x/y is the top left corner, measured from the top of the page.
+     */
+    rect(page: number, x: number, y: number, width: number, height: number, color: string): void {
+        this.pages[page].push(
+            `${colorOperands(color)} rg`,
+            `${format(x)} ${format(PAGE_HEIGHT - y - height)} ${format(width)} ${format(height)} re f`
+        );
+    }
+
+    /**
+     * Register an image once; returns the handle to draw it with
+     */
+    addImage(image: PdfImage): number {
+        this.images.push(image);
+        return this.images.length - 1;
+    }
+
+    /**
+     * Draw a registered image. x/y is the top left corner, measured from the top of the page.
+     */
+    image(page: number, image: number, x: number, y: number, width: number, height: number): void {
+        this.pages[page].push(
+            'q',
+            `${format(width)} 0 0 ${format(height)} ${format(x)} ${format(PAGE_HEIGHT - y - height)} cm`,
+            `/Im${image + 1} Do`,
+            'Q'
+        );
+    }
+
+    line(page: number, x1: number, y1: number, x2: number, y2: number, color = '#cccccc', width = 0.5): void {
+        this.pages[page].push(
+            `${colorOperands(color)} RG`,
+            `${format(width)} w`,
+            `${format(x1)} ${format(PAGE_HEIGHT - y1)} m ${format(x2)} ${format(PAGE_HEIGHT - y2)} l S`
+        );
+    }
+
+    /**
+     * Serialize the document with its cross-reference table
+     */
+    toBuffer(): Buffer {
+        const objects: string[] = [];
+        const pageCount = Math.max(this.pages.length, 1);
+        const pages = this.pages.length > 0 ? this.pages : [[]];
+
+        // 1 catalog, 2 page tree, 3-4 fonts, 5 info, a page and a content stream per page, then the images
+        const firstPageObject = 6;
+        const pageObjectIds = pages.map((_, index) => firstPageObject + index * 2);
+        const firstImageObject = firstPageObject + pages.length * 2;
+        // An image with transparency takes two objects, the color data and its soft mask
+        const imageObjectIds: number[] = [];
+        this.images.reduce((next, image) => {
+            imageObjectIds.push(next);
+            return next + (image.alpha ? 2 : 1);
+        }, firstImageObject);
+        const xObjects = imageObjectIds.length > 0
+            ? ` /XObject << ${imageObjectIds.map((id, index) => `/Im${index + 1} ${id} 0 R`).join(' ')} >>`
+            : '';
+
+        objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+        objects.push(`<< /Type /Pages /Kids [${pageObjectIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageCount} >>`);
+        objects.push(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_RESOURCES.regular.baseFont} /Encoding /WinAnsiEncoding >>`);
+        objects.push(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_RESOURCES.bold.baseFont} /Encoding /WinAnsiEncoding >>`);
+        objects.push(`<< /Title (${escapeText(toPdfText(this.title))}) /Producer (M365 Security Assessment) >>`);
+
+        pages.forEach((operations, index) => {
+            const content = operations.join('\n');
+            objects.push(
+                `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${format(PAGE_WIDTH)} ${format(PAGE_HEIGHT)}] ` +
+                `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects} >> /Contents ${pageObjectIds[index] + 1} 0 R >>`
+            );
+            objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+        });
+
+        this.images.forEach((image, index) => {
+            const softMask = image.alpha ? ` /SMask ${imageObjectIds[index] + 1} 0 R` : '';
+            objects.push(
+                `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /${image.colorSpace} ` +
+                `/BitsPerComponent 8 /Filter /${image.filter}${softMask} /Length ${image.data.length} >>\n` +
+                `stream\n${image.data.toString('latin1')}\nendstream`
+            );
+            if (image.alpha) {
+                objects.push(
+                    `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceGray ` +
+                    `/BitsPerComponent 8 /Filter /FlateDecode /Length ${image.alpha.length} >>\n` +
+                    `stream\n${image.alpha.toString('latin1')}\nendstream`
+                );
+            }
+        });
+
+        let output = '%PDF-1.4\n';
+        const offsets: number[] = [];
+        objects.forEach((object, index) => {
+            offsets.push(Buffer.byteLength(output, 'latin1'));
+            output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+        });
+
+        const xrefOffset = Buffer.byteLength(output, 'latin1');
+        output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+        output += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+        output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+        return Buffer.from(output, 'latin1');
+    }
+}
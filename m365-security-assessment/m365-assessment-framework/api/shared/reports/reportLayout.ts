@@ -0,0 +1,250 @@
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument, PdfFont } from "./pdfDocument";
+import { PdfImage } from "./images";
+
+export interface ReportTheme {
+    primaryColor: string;
+    accentColor: string;
+    textColor: string;
+    mutedColor: string;
+}
+
+export interface TableColumn {
+    header: string;
+    /** Share of the content width */
+    width: number;
+    align?: 'left' | 'right';
+}
+
+export interface ReportLayoutOptions {
+    /** Drawn at the right of the header on every page */
+    logo?: PdfImage;
+    pageLabel?: (page: number, total: number) => string;
+}
+
+export interface TableCell {
+    text: string;
+    color?: string;
+    font?: PdfFont;
+}
+
+const MARGIN = 50;
+const HEADER_HEIGHT = 36;
+const FOOTER_HEIGHT = 30;
+const CONTENT_TOP = MARGIN + HEADER_HEIGHT;
+const CONTENT_BOTTOM = PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const CELL_PADDING = 4;
+const BODY_SIZE = 10;
+const TABLE_SIZE = 8.5;
+const LOGO_MAX_HEIGHT = 24;
+const LOGO_MAX_WIDTH = 120;
+
+/**
+ * Flowing layout on top of PdfDocument: keeps a cursor, breaks pages and
+ * repeats table headers, and stamps the branded header and footer on every page.
+ */
+export class ReportLayout {
+    readonly document: PdfDocument;
+    private theme: ReportTheme;
+    private headerText: string;
+    private footerText: string;
+    private pageLabel: (page: number, total: number) => string;
+    private logo: { image: number; width: number; height: number } | null = null;
+    private page = -1;
+    private y = 0;
+
+    constructor(title: string, headerText: string, footerText: string, theme: ReportTheme, options: ReportLayoutOptions = {}) {
+        this.document = new PdfDocument(title);
+        this.theme = theme;
+        this.headerText = headerText;
+        this.footerText = footerText;
+        this.pageLabel = options.pageLabel || ((page, total) => `Page ${page} of ${total}`);
+
+        if (options.logo) {
+            // Fit the logo into the header while keeping its aspect ratio
+            const scale = Math.min(LOGO_MAX_HEIGHT / options.logo.height, LOGO_MAX_WIDTH / options.logo.width);
+            this.logo = {
+                image: this.document.addImage(options.logo),
+                width: options.logo.width * scale,
+                height: options.logo.height * scale
+            };
+        }
+    }
+
+    newPage(): void {
+        this.page = this.document.addPage();
+        this.y = CONTENT_TOP;
+
+        this.document.rect(this.page, 0, 0, PAGE_WIDTH, 6, this.theme.primaryColor);
+        this.document.text(this.page, MARGIN, MARGIN, this.headerText, { size: 9, font: 'bold', color: this.theme.primaryColor });
+        if (this.logo) {
+            const { image, width, height } = this.logo;
+            this.document.image(this.page, image, PAGE_WIDTH - MARGIN - width, MARGIN + 4 - height, width, height);
+        }
+        this.document.line(this.page, MARGIN, MARGIN + 8, PAGE_WIDTH - MARGIN, MARGIN + 8, this.theme.primaryColor, 0.75);
+    }
+
+    /**
+     * Make sure `height` points fit on the current page, otherwise continue on a new one
+     */
+    ensureSpace(height: number): void {
+        if (this.page < 0 || this.y + height > CONTENT_BOTTOM) {
+            this.newPage();
+        }
+    }
+
+    space(height: number): void {
+        this.y += height;
+    }
+
+    title(text: string, subtitle?: string): void {
+        this.ensureSpace(80);
+        this.document.text(this.page, MARGIN, this.y + 24, text, { size: 22, font: 'bold', color: this.theme.primaryColor });
+        this.y += 34;
+        if (subtitle) {
+            this.document.text(this.page, MARGIN, this.y + 12, subtitle, { size: 12, color: this.theme.mutedColor });
+            this.y += 22;
+        }
+        this.y += 10;
+    }
+
+    heading(text: string): void {
+        // Keep a heading together with at least a few lines of its section
+        this.ensureSpace(70);
+        this.y += 8;
+        this.document.text(this.page, MARGIN, this.y + 14, text, { size: 14, font: 'bold', color: this.theme.primaryColor });
+        this.y += 20;
+        this.document.line(this.page, MARGIN, this.y, MARGIN + 60, this.y, this.theme.accentColor, 2);
+        this.y += 10;
+    }
+
+    subheading(text: string): void {
+        this.ensureSpace(50);
+        this.document.text(this.page, MARGIN, this.y + 11, text, { size: 11, font: 'bold', color: this.theme.textColor });
+        this.y += 18;
+    }
+
+    paragraph(text: string, options: { color?: string; font?: PdfFont; size?: number; indent?: number } = {}): void {
+        const size = options.size || BODY_SIZE;
+        const indent = options.indent || 0;
+        const lineHeight = size * 1.35;
+
+        this.document.wrap(text, CONTENT_WIDTH - indent, size, options.font).forEach(line => {
+            this.ensureSpace(lineHeight);
+            this.document.text(this.page, MARGIN + indent, this.y + size, line, {
+                size,
+                font: options.font,
+                color: options.color || this.theme.textColor
+            });
+            this.y += lineHeight;
+        });
+        this.y += 4;
+    }
+
+    bullets(items: string[], color?: string): void {
+        items.forEach(item => {
+            this.ensureSpace(BODY_SIZE * 1.35);
+            this.document.text(this.page, MARGIN + 6, this.y + BODY_SIZE, '-', { size: BODY_SIZE, color: this.theme.accentColor });
+            this.paragraph(item, { indent: 16, color });
+            this.y -= 2;
+        });
+        this.y += 4;
+    }
+
+    /**
+     * Row of large figures, e.g. the headline metrics of the executive summary
+     */
+    metrics(items: Array<{ label: string; value: string; color?: string }>): void {
+        const height = 54;
+        const gap = 8;
+        const width = (CONTENT_WIDTH - gap * (items.length - 1)) / items.length;
+        this.ensureSpace(height + 10);
+
+        items.forEach((item, index) => {
+            const x = MARGIN + index * (width + gap);
+            this.document.rect(this.page, x, this.y, width, height, '#f5f5f5');
+            this.document.rect(this.page, x, this.y, 3, height, item.color || this.theme.accentColor);
+            this.document.text(this.page, x + 10, this.y + 26, item.value, { size: 18, font: 'bold', color: item.color || this.theme.textColor });
+            this.document.text(this.page, x + 10, this.y + 43, item.label, { size: 8, color: this.theme.mutedColor });
+        });
+        this.y += height + 12;
+    }
+
+    table(columns: TableColumn[], rows: Array<Array<string | TableCell>>): void {
+        const widths = columns.map(column => column.width * CONTENT_WIDTH);
+        const lineHeight = TABLE_SIZE * 1.3;
+
+        const drawHeader = () => {
+            const height = lineHeight + CELL_PADDING * 2;
+            this.document.rect(this.page, MARGIN, this.y, CONTENT_WIDTH, height, this.theme.primaryColor);
+            let x = MARGIN;
+            columns.forEach((column, index) => {
+                this.drawCell(x, widths[index], column.header, column.align, { size: TABLE_SIZE, font: 'bold', color: '#ffffff' });
+                x += widths[index];
+            });
+            this.y += height;
+        };
+
+        this.ensureSpace(lineHeight * 3 + CELL_PADDING * 4);
+        drawHeader();
+
+        rows.forEach((row, rowIndex) => {
+            const cells = row.map(cell => typeof cell === 'string' ? { text: cell } : cell);
+            const wrapped = cells.map((cell, index) =>
+                this.document.wrap(cell.text, widths[index] - CELL_PADDING * 2, TABLE_SIZE, cell.font)
+            );
+            const height = Math.max(...wrapped.map(lines => lines.length)) * lineHeight + CELL_PADDING * 2;
+
+            if (this.y + height > CONTENT_BOTTOM) {
+                this.newPage();
+                drawHeader();
+            }
+
+            if (rowIndex % 2 === 1) {
+                this.document.rect(this.page, MARGIN, this.y, CONTENT_WIDTH, height, '#f7f7f7');
+            }
+
+            let x = MARGIN;
+            cells.forEach((cell, index) => {
+                wrapped[index].forEach((line, lineIndex) => {
+                    this.drawCell(x, widths[index], line, columns[index].align, {
+                        size: TABLE_SIZE,
+                        font: cell.font,
+                        color: cell.color || this.theme.textColor
+                    }, lineIndex * lineHeight);
+                });
+                x += widths[index];
+            });
+
+            this.y += height;
+            this.document.line(this.page, MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y, '#e0e0e0', 0.5);
+        });
+
+        this.y += 12;
+    }
+
+    /**
+     * Stamp page numbers and the footer text once the page count is known
+     */
+    finish(): Buffer {
+        const pageCount = this.document.pageCount;
+        for (let page = 0; page < pageCount; page++) {
+            const y = PAGE_HEIGHT - MARGIN;
+            this.document.line(page, MARGIN, y - 14, PAGE_WIDTH - MARGIN, y - 14, '#e0e0e0', 0.5);
+            this.document.wrap(this.footerText, CONTENT_WIDTH - 80, 7).slice(0, 2).forEach((line, index) => {
+                this.document.text(page, MARGIN, y + index * 9, line, { size: 7, color: this.theme.mutedColor });
+            });
+            const pageLabel = this.pageLabel(page + 1, pageCount);
+            this.document.text(page, PAGE_WIDTH - MARGIN - this.document.measure(pageLabel, 8), y, pageLabel, { size: 8, color: this.theme.mutedColor });
+        }
+        return this.document.toBuffer();
+    }
+
+    private drawCell(x: number, width: number, text: string, align: 'left' | 'right' | undefined,
+        options: { size: number; font?: PdfFont; color: string }, offset = 0): void {
+        const textX = align === 'right'
+            ? x + width - CELL_PADDING - this.document.measure(text, options.size, options.font)
+            : x + CELL_PADDING;
+        this.document.text(this.page, textX, this.y + CELL_PADDING + options.size + offset, text, options);
+    }
+}
@@ -0,0 +1,423 @@
+import { ReportLanguage } from "../types";
+
+/**
+ * Headings and labels of the PDF report. Finding and recommendation texts come
+ * from the findings rules and are not translated.
+ */
+export interface ReportStrings {
+    locale: string;
+    title: string;
+    disclaimer: string;
+    theTenant: string;
+    notAvailable: string;
+    yes: string;
+    no: string;
+    executiveSummary: string;
+    overallScore: string;
+    secureScore: string;
+    mfaCoverage: string;
+    deviceCompliance: string;
+    summaryScore: (tenant: string, score: number) => string;
+    summaryIssues: (total: number, critical: number, high: number, medium: number, low: number) => string;
+    noIssues: string;
+    summaryBenchmark: (passed: number, evaluated: number, benchmark: string, percentage: number) => string;
+    scoreBreakdown: string;
+    category: string;
+    score: string;
+    weight: string;
+    categories: Record<string, string>;
+    licenseHeading: string;
+    licenseNotCollected: string;
+    estimatedMonthlyCost: string;
+    unusedPerMonthTotal: string;
+    potentialAnnualSavings: string;
+    license: string;
+    assigned: string;
+    total: string;
+    unused: string;
+    unitPerMonth: string;
+    unusedPerMonth: string;
+    pricingNote: string;
+    secureScoreHeading: string;
+    secureScoreNotCollected: string;
+    secureScoreSummary: (current: number, max: number, percentage: number) => string;
+    control: string;
+    status: string;
+    points: string;
+    controlStatuses: Record<string, string>;
+    controlsToImprove: (count: number) => string;
+    implementedControls: (count: number) => string;
+    identityHeading: string;
+    identityNotCollected: string;
+    users: string;
+    privilegedUsers: string;
+    guestUsers: string;
+    vulnerabilityBreakdown: string;
+    level: string;
+    allUsers: string;
+    privileged: string;
+    external: string;
+    levels: Record<string, string>;
+    riskyUsers: (count: number) => string;
+    user: string;
+    reason: string;
+    moreUsers: (count: number) => string;
+    recommendationsHeading: string;
+    noRecommendations: string;
+    severity: string;
+    effort: string;
+    severities: Record<string, string>;
+    affected: (resources: string, more: number) => string;
+    page: (page: number, total: number) => string;
+}
+
+const en: ReportStrings = {
+    locale: 'en-US',
+    title: 'Microsoft 365 Security Assessment',
+    disclaimer: 'This report reflects the tenant configuration at the time of the assessment and is provided for information purposes only.',
+    theTenant: 'the tenant',
+    notAvailable: 'n/a',
+    yes: 'Yes',
+    no: 'No',
+    executiveSummary: 'Executive Summary',
+    overallScore: 'Overall security score',
+    secureScore: 'Microsoft Secure Score',
+    mfaCoverage: 'MFA coverage',
+    deviceCompliance: 'Device compliance',
+    summaryScore: (tenant, score) => `This assessment of ${tenant} scored ${score}% overall.`,
+    summaryIssues: (total, critical, high, medium, low) =>
+        `It found ${total} open issues: ${critical} critical, ${high} high, ${medium} medium and ${low} low severity.`,
+    noIssues: 'No open issues were found.',
+    summaryBenchmark: (passed, evaluated, benchmark, percentage) =>
+        `${passed} of ${evaluated} automatically evaluated ${benchmark} controls pass (${percentage}%).`,
+    scoreBreakdown: 'Score breakdown',
+    category: 'Category',
+    score: 'Score',
+    weight: 'Weight',
+    categories: { license: 'License utilization', secureScore: 'Secure Score', identity: 'Identity', endpoint: 'Endpoint' },
+    licenseHeading: 'License Utilization and Cost',
+    licenseNotCollected: 'License data was not collected in this assessment.',
+    estimatedMonthlyCost: 'Estimated monthly cost',
+    unusedPerMonthTotal: 'Unused licenses per month',
+    potentialAnnualSavings: 'Potential annual savings',
+    license: 'License',
+    assigned: 'Assigned',
+    total: 'Total',
+    unused: 'Unused',
+    unitPerMonth: 'Unit / month',
+    unusedPerMonth: 'Unused / month',
+    pricingNote: 'Unit costs are Microsoft list prices; licenses marked * use the rate negotiated for this customer.',
+    secureScoreHeading: 'Microsoft Secure Score',
+    secureScoreNotCollected: 'Secure Score was not collected in this assessment.',
+    secureScoreSummary: (current, max, percentage) => `Current score ${current} of ${max} points (${percentage}%).`,
+    control: 'Control',
+    status: 'Status',
+    points: 'Points',
+    controlStatuses: { 'Implemented': 'Implemented', 'Partial': 'Partial', 'Not Implemented': 'Not implemented' },
+    controlsToImprove: count => `Controls to improve (${count})`,
+    implementedControls: count => `Implemented controls (${count})`,
+    identityHeading: 'Identity Vulnerabilities',
+    identityNotCollected: 'Identity data was not collected in this assessment.',
+    users: 'Users',
+    privilegedUsers: 'Privileged users',
+    guestUsers: 'Guest users',
+    vulnerabilityBreakdown: 'Vulnerability breakdown',
+    level: 'Level',
+    allUsers: 'All users',
+    privileged: 'Privileged',
+    external: 'External',
+    levels: { Critical: 'Critical', High: 'High', Medium: 'Medium', Low: 'Low' },
+    riskyUsers: count => `Critical and high risk users (${count})`,
+    user: 'User',
+    reason: 'Reason',
+    moreUsers: count => `${count} further users are listed in the online report.`,
+    recommendationsHeading: 'Top Recommendations',
+    noRecommendations: 'No open recommendations.',
+    severity: 'Severity',
+    effort: 'Effort',
+    severities: { critical: 'Critical', high: 'High', medium: 'Medium', low: 'Low' },
+    affected: (resources, more) => `Affected: ${resources}${more > 0 ? ` and ${more} more` : ''}`,
+    page: (page, total) => `Page ${page} of ${total}`
+};
+
+const de: ReportStrings = {
+    locale: 'de-DE',
+    title: 'Microsoft 365 Sicherheitsbewertung',
+    disclaimer: 'Dieser Bericht gibt die Konfiguration des Mandanten zum Zeitpunkt der Bewertung wieder und dient ausschließlich zu Informationszwecken.',
+    theTenant: 'den Mandanten',
+    notAvailable: 'k. A.',
+    yes: 'Ja',
+    no: 'Nein',
+    executiveSummary: 'Zusammenfassung',
+    overallScore: 'Gesamtbewertung Sicherheit',
+    secureScore: 'Microsoft Secure Score',
+    mfaCoverage: 'MFA-Abdeckung',
+    deviceCompliance: 'Gerätekonformität',
+    summaryScore: (tenant, score) => `Die Bewertung für ${tenant} ergab insgesamt ${score}%.`,
+    summaryIssues: (total, critical, high, medium, low) =>
+        `Es wurden ${total} offene Probleme gefunden: ${critical} kritisch, ${high} hoch, ${medium} mittel und ${low} niedrig.`,
+    noIssues: 'Es wurden keine offenen Probleme gefunden.',
+    summaryBenchmark: (passed, evaluated, benchmark, percentage) =>
+        `${passed} von ${evaluated} automatisch geprüften Kontrollen des ${benchmark} sind erfüllt (${percentage}%).`,
+    scoreBreakdown: 'Zusammensetzung der Bewertung',
+    category: 'Kategorie',
+    score: 'Bewertung',
+    weight: 'Gewichtung',
+    categories: { license: 'Lizenznutzung', secureScore: 'Secure Score', identity: 'Identität', endpoint: 'Endgeräte' },
+    licenseHeading: 'Lizenznutzung und Kosten',
+    licenseNotCollected: 'Lizenzdaten wurden in dieser Bewertung nicht erfasst.',
+    estimatedMonthlyCost: 'Geschätzte monatliche Kosten',
+    unusedPerMonthTotal: 'Ungenutzte Lizenzen pro Monat',
+    potentialAnnualSavings: 'Mögliche jährliche Einsparung',
+    license: 'Lizenz',
+    assigned: 'Zugewiesen',
+    total: 'Gesamt',
+    unused: 'Ungenutzt',
+    unitPerMonth: 'Preis / Monat',
+    unusedPerMonth: 'Ungenutzt / Monat',
+    pricingNote: 'Die Preise sind Microsoft-Listenpreise; mit * markierte Lizenzen verwenden den für diesen Kunden ausgehandelten Preis.',
+    secureScoreHeading: 'Microsoft Secure Score',
+    secureScoreNotCollected: 'Der Secure Score wurde in dieser Bewertung nicht erfasst.',
+    secureScoreSummary: (current, max, percentage) => `Aktuelle Bewertung ${current} von ${max} Punkten (${percentage}%).`,
+    control: 'Kontrolle',
+    status: 'Status',
+    points: 'Punkte',
+    controlStatuses: { 'Implemented': 'Umgesetzt', 'Partial': 'Teilweise', 'Not Implemented': 'Nicht umgesetzt' },
+    controlsToImprove: count => `Zu verbessernde Kontrollen (${count})`,
+    implementedControls: count => `Umgesetzte Kontrollen (${count})`,
+    identityHeading: 'Schwachstellen bei Identitäten',
+    identityNotCollected: 'Identitätsdaten wurden in dieser Bewertung nicht erfasst.',
+    users: 'Benutzer',
+    privilegedUsers: 'Privilegierte Benutzer',
+    guestUsers: 'Gastbenutzer',
+    vulnerabilityBreakdown: 'Schwachstellen nach Stufe',
+    level: 'Stufe',
+    allUsers: 'Alle Benutzer',
+    privileged: 'Privilegiert',
+    external: 'Extern',
+    levels: { Critical: 'Kritisch', High: 'Hoch', Medium: 'Mittel', Low: 'Niedrig' },
+    riskyUsers: count => `Benutzer mit kritischem und hohem Risiko (${count})`,
+    user: 'Benutzer',
+    reason: 'Grund',
+    moreUsers: count => `${count} weitere Benutzer sind im Online-Bericht aufgeführt.`,
+    recommendationsHeading: 'Wichtigste Empfehlungen',
+    noRecommendations: 'Keine offenen Empfehlungen.',
+    severity: 'Schweregrad',
+    effort: 'Aufwand',
+    severities: { critical: 'Kritisch', high: 'Hoch', medium: 'Mittel', low: 'Niedrig' },
+    affected: (resources, more) => `Betroffen: ${resources}${more > 0 ? ` und ${more} weitere` : ''}`,
+    page: (page, total) => `Seite ${page} von ${total}`
+};
+
+const fr: ReportStrings = {
+    locale: 'fr-FR',
+    title: 'Évaluation de la sécurité Microsoft 365',
+    disclaimer: "Ce rapport reflète la configuration du locataire au moment de l'évaluation et est fourni à titre informatif uniquement.",
+    theTenant: 'le locataire',
+    notAvailable: 'n/d',
+    yes: 'Oui',
+    no: 'Non',
+    executiveSummary: 'Synthèse',
+    overallScore: 'Score de sécurité global',
+    secureScore: 'Microsoft Secure Score',
+    mfaCoverage: 'Couverture MFA',
+    deviceCompliance: 'Conformité des appareils',
+    summaryScore: (tenant, score) => `L'évaluation de ${tenant} obtient un score global de ${score}%.`,
+    summaryIssues: (total, critical, high, medium, low) =>
+        `${total} problèmes ouverts ont été identifiés : ${critical} critiques, ${high} élevés, ${medium} moyens et ${low} faibles.`,
+    noIssues: "Aucun problème ouvert n'a été identifié.",
+    summaryBenchmark: (passed, evaluated, benchmark, percentage) =>
+        `${passed} des ${evaluated} contrôles du ${benchmark} évalués automatiquement sont conformes (${percentage}%).`,
+    scoreBreakdown: 'Détail du score',
+    category: 'Catégorie',
+    score: 'Score',
+    weight: 'Pondération',
+    categories: { license: 'Utilisation des licences', secureScore: 'Secure Score', identity: 'Identité', endpoint: 'Appareils' },
+    licenseHeading: 'Utilisation et coût des licences',
+    licenseNotCollected: "Les données de licence n'ont pas été collectées lors de cette évaluation.",
+    estimatedMonthlyCost: 'Coût mensuel estimé',
+    unusedPerMonthTotal: 'Licences inutilisées par mois',
+    potentialAnnualSavings: 'Économies annuelles possibles',
+    license: 'Licence',
+    assigned: 'Attribuées',
+    total: 'Total',
+    unused: 'Inutilisées',
+    unitPerMonth: 'Prix / mois',
+    unusedPerMonth: 'Inutilisé / mois',
+    pricingNote: 'Les prix unitaires sont les prix catalogue Microsoft ; les licences marquées * utilisent le tarif négocié pour ce client.',
+    secureScoreHeading: 'Microsoft Secure Score',
+    secureScoreNotCollected: "Le Secure Score n'a pas été collecté lors de cette évaluation.",
+    secureScoreSummary: (current, max, percentage) => `Score actuel ${current} sur ${max} points (${percentage}%).`,
+    control: 'Contrôle',
+    status: 'Statut',
+    points: 'Points',
+    controlStatuses: { 'Implemented': 'Mis en place', 'Partial': 'Partiel', 'Not Implemented': 'Non mis en place' },
+    controlsToImprove: count => `Contrôles à améliorer (${count})`,
+    implementedControls: count => `Contrôles mis en place (${count})`,
+    identityHeading: 'Vulnérabilités des identités',
+    identityNotCollected: "Les données d'identité n'ont pas été collectées lors de cette évaluation.",
+    users: 'Utilisateurs',
+    privilegedUsers: 'Utilisateurs privilégiés',
+    guestUsers: 'Utilisateurs invités',
+    vulnerabilityBreakdown: 'Répartition des vulnérabilités',
+    level: 'Niveau',
+    allUsers: 'Tous les utilisateurs',
+    privileged: 'Privilégiés',
+    external: 'Externes',
+    levels: { Critical: 'Critique', High: 'Élevé', Medium: 'Moyen', Low: 'Faible' },
+    riskyUsers: count => `Utilisateurs à risque critique ou élevé (${count})`,
+    user: 'Utilisateur',
+    reason: 'Raison',
+    moreUsers: count => `${count} autres utilisateurs figurent dans le rapport en ligne.`,
+    recommendationsHeading: 'Principales recommandations',
+    noRecommendations: 'Aucune recommandation ouverte.',
+    severity: 'Gravité',
+    effort: 'Effort',
+    severities: { critical: 'Critique', high: 'Élevée', medium: 'Moyenne', low: 'Faible' },
+    affected: (resources, more) => `Concernés : ${resources}${more > 0 ? ` et ${more} autres` : ''}`,
+    page: (page, total) => `Page ${page} sur ${total}`
+};
+
+const es: ReportStrings = {
+    locale: 'es-ES',
+    title: 'Evaluación de seguridad de Microsoft 365',
+    disclaimer: 'Este informe refleja la configuración del inquilino en el momento de la evaluación y se proporciona únicamente con fines informativos.',
+    theTenant: 'el inquilino',
+    notAvailable: 'n/d',
+    yes: 'Sí',
+    no: 'No',
+    executiveSummary: 'Resumen ejecutivo',
+    overallScore: 'Puntuación de seguridad global',
+    secureScore: 'Microsoft Secure Score',
+    mfaCoverage: 'Cobertura de MFA',
+    deviceCompliance: 'Cumplimiento de dispositivos',
+    summaryScore: (tenant, score) => `La evaluación de ${tenant} obtuvo una puntuación global del ${score}%.`,
+    summaryIssues: (total, critical, high, medium, low) =>
+        `Se encontraron ${total} problemas abiertos: ${critical} críticos, ${high} altos, ${medium} medios y ${low} bajos.`,
+    noIssues: 'No se encontraron problemas abiertos.',
+    summaryBenchmark: (passed, evaluated, benchmark, percentage) =>
+        `${passed} de ${evaluated} controles de ${benchmark} evaluados automáticamente se cumplen (${percentage}%).`,
+    scoreBreakdown: 'Desglose de la puntuación',
+    category: 'Categoría',
+    score: 'Puntuación',
+    weight: 'Peso',
+    categories: { license: 'Uso de licencias', secureScore: 'Secure Score', identity: 'Identidad', endpoint: 'Dispositivos' },
+    licenseHeading: 'Uso y coste de licencias',
+    licenseNotCollected: 'No se recopilaron datos de licencias en esta evaluación.',
+    estimatedMonthlyCost: 'Coste mensual estimado',
+    unusedPerMonthTotal: 'Licencias sin usar al mes',
+    potentialAnnualSavings: 'Ahorro anual potencial',
+    license: 'Licencia',
+    assigned: 'Asignadas',
+    total: 'Total',
+    unused: 'Sin usar',
+    unitPerMonth: 'Precio / mes',
+    unusedPerMonth: 'Sin usar / mes',
+    pricingNote: 'Los precios unitarios son precios de lista de Microsoft; las licencias marcadas con * usan la tarifa negociada para este cliente.',
+    secureScoreHeading: 'Microsoft Secure Score',
+    secureScoreNotCollected: 'No se recopiló el Secure Score en esta evaluación.',
+    secureScoreSummary: (current, max, percentage) => `Puntuación actual ${current} de ${max} puntos (${percentage}%).`,
+    control: 'Control',
+    status: 'Estado',
+    points: 'Puntos',
+    controlStatuses: { 'Implemented': 'Implementado', 'Partial': 'Parcial', 'Not Implemented': 'No implementado' },
+    controlsToImprove: count => `Controles a mejorar (${count})`,
+    implementedControls: count => `Controles implementados (${count})`,
+    identityHeading: 'Vulnerabilidades de identidad',
+    identityNotCollected: 'No se recopilaron datos de identidad en esta evaluación.',
+    users: 'Usuarios',
+    privilegedUsers: 'Usuarios con privilegios',
+    guestUsers: 'Usuarios invitados',
+    vulnerabilityBreakdown: 'Desglose de vulnerabilidades',
+    level: 'Nivel',
+    allUsers: 'Todos los usuarios',
+    privileged: 'Con privilegios',
+    external: 'Externos',
+    levels: { Critical: 'Crítico', High: 'Alto', Medium: 'Medio', Low: 'Bajo' },
+    riskyUsers: count => `Usuarios con riesgo crítico o alto (${count})`,
+    user: 'Usuario',
+    reason: 'Motivo',
+    moreUsers: count => `Otros ${count} usuarios aparecen en el informe en línea.`,
+    recommendationsHeading: 'Recomendaciones principales',
+    noRecommendations: 'No hay recomendaciones abiertas.',
+    severity: 'Gravedad',
+    effort: 'Esfuerzo',
+    severities: { critical: 'Crítica', high: 'Alta', medium: 'Media', low: 'Baja' },
+    affected: (resources, more) => `Afectados: ${resources}${more > 0 ? ` y ${more} más` : ''}`,
+    page: (page, total) => `Página ${page} de ${total}`
+};
+
+const nl: ReportStrings = {
+    locale: 'nl-NL',
+    title: 'Microsoft 365 Beveiligingsbeoordeling',
+    disclaimer: 'Dit rapport geeft de configuratie van de tenant weer op het moment van de beoordeling en is uitsluitend bedoeld ter informatie.',
+    theTenant: 'de tenant',
+    notAvailable: 'n.v.t.',
+    yes: 'Ja',
+    no: 'Nee',
+    executiveSummary: 'Managementsamenvatting',
+    overallScore: 'Totale beveiligingsscore',
+    secureScore: 'Microsoft Secure Score',
+    mfaCoverage: 'MFA-dekking',
+    deviceCompliance: 'Apparaatnaleving',
+    summaryScore: (tenant, score) => `De beoordeling van ${tenant} scoorde in totaal ${score}%.`,
+    summaryIssues: (total, critical, high, medium, low) =>
+        `Er zijn ${total} openstaande problemen gevonden: ${critical} kritiek, ${high} hoog, ${medium} gemiddeld en ${low} laag.`,
+    noIssues: 'Er zijn geen openstaande problemen gevonden.',
+    summaryBenchmark: (passed, evaluated, benchmark, percentage) =>
+        `${passed} van ${evaluated} automatisch beoordeelde controles van de ${benchmark} voldoen (${percentage}%).`,
+    scoreBreakdown: 'Opbouw van de score',
+    category: 'Categorie',
+    score: 'Score',
+    weight: 'Gewicht',
+    categories: { license: 'Licentiegebruik', secureScore: 'Secure Score', identity: 'Identiteit', endpoint: 'Apparaten' },
+    licenseHeading: 'Licentiegebruik en kosten',
+    licenseNotCollected: 'Licentiegegevens zijn in deze beoordeling niet verzameld.',
+    estimatedMonthlyCost: 'Geschatte maandelijkse kosten',
+    unusedPerMonthTotal: 'Ongebruikte licenties per maand',
+    potentialAnnualSavings: 'Mogelijke jaarlijkse besparing',
+    license: 'Licentie',
+    assigned: 'Toegewezen',
+    total: 'Totaal',
+    unused: 'Ongebruikt',
+    unitPerMonth: 'Prijs / maand',
+    unusedPerMonth: 'Ongebruikt / maand',
+    pricingNote: 'De prijzen zijn Microsoft-catalogusprijzen; licenties gemarkeerd met * gebruiken het voor deze klant onderhandelde tarief.',
+    secureScoreHeading: 'Microsoft Secure Score',
+    secureScoreNotCollected: 'De Secure Score is in deze beoordeling niet verzameld.',
+    secureScoreSummary: (current, max, percentage) => `Huidige score ${current} van ${max} punten (${percentage}%).`,
+    control: 'Maatregel',
+    status: 'Status',
+    points: 'Punten',
+    controlStatuses: { 'Implemented': 'Geïmplementeerd', 'Partial': 'Gedeeltelijk', 'Not Implemented': 'Niet geïmplementeerd' },
+    controlsToImprove: count => `Te verbeteren maatregelen (${count})`,
+    implementedControls: count => `Geïmplementeerde maatregelen (${count})`,
+    identityHeading: 'Kwetsbaarheden van identiteiten',
+    identityNotCollected: 'Identiteitsgegevens zijn in deze beoordeling niet verzameld.',
+    users: 'Gebruikers',
+    privilegedUsers: 'Bevoorrechte gebruikers',
+    guestUsers: 'Gastgebruikers',
+    vulnerabilityBreakdown: 'Kwetsbaarheden per niveau',
+    level: 'Niveau',
+    allUsers: 'Alle gebruikers',
+    privileged: 'Bevoorrecht',
+    external: 'Extern',
+    levels: { Critical: 'Kritiek', High: 'Hoog', Medium: 'Gemiddeld', Low: 'Laag' },
+    riskyUsers: count => `Gebruikers met kritiek en hoog risico (${count})`,
+    user: 'Gebruiker',
+    reason: 'Reden',
+    moreUsers: count => `${count} andere gebruikers staan in het online rapport.`,
+    recommendationsHeading: 'Belangrijkste aanbevelingen',
+    noRecommendations: 'Geen openstaande aanbevelingen.',
+    severity: 'Ernst',
+    effort: 'Inspanning',
+    severities: { critical: 'Kritiek', high: 'Hoog', medium: 'Gemiddeld', low: 'Laag' },
+    affected: (resources, more) => `Betreft: ${resources}${more > 0 ? ` en ${more} andere` : ''}`,
+    page: (page, total) => `Pagina ${page} van ${total}`
+};
+
+export const REPORT_STRINGS: Record<ReportLanguage, ReportStrings> = { en, de, fr, es, nl };
+
+export function getReportStrings(language?: ReportLanguage): ReportStrings {
+    return REPORT_STRINGS[language || 'en'] || en;
+}
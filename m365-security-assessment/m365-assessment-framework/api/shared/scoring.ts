@@ -0,0 +1,145 @@
+import { ScoreBreakdown, ScoringProfile, ScoringWeights } from "./types";
+
+/**
+ * Version of the scoring model, stored with every scored assessment.
+ * Bump it whenever category scores or the weighting change so historical
+ * scores can be told apart from scores produced by the current model.
+ * 1.0 was the fixed 40% secure score / 30% license / 30% baseline formula.
+ */
+export const SCORING_MODEL_VERSION = '2.0';
+
+/**
+ * Default relative weight of each category. Weights are normalized across the
+ * categories that were actually collected, so they do not need to sum to 1.
+ * The frontend reads them from the scoring profile endpoint and never re-weights scores.
+ */
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+    license: 0.3,
+    secureScore: 0.4,
+    identity: 0.2,
+    endpoint: 0.1
+};
+
+interface CategoryScorer {
+    category: string;
+    /** Key of the collector result in the collected data */
+    resultKey: string;
+    /** 0-100 score for the category, or null when the data cannot be scored */
+    score(data: any): number | null;
+}
+
+const CATEGORY_SCORERS: CategoryScorer[] = [
+    {
+        category: 'license',
+        resultKey: 'licenseInfo',
+        score: data => data.totalLicenses > 0
+            ? Math.min(Math.round((data.assignedLicenses / data.totalLicenses) * 100), 100)
+            : null
+    },
+    {
+        category: 'secureScore',
+        resultKey: 'secureScore',
+        score: data => typeof data.percentage === 'number' ? data.percentage : null
+    },
+    {
+        category: 'identity',
+        resultKey: 'identityMetrics',
+        score: data => data.totalUsers > 0 ? data.mfaCoverage : null
+    },
+    {
+        category: 'endpoint',
+        resultKey: 'endpointMetrics',
+        score: data => data.totalDevices > 0 ? data.complianceRate : null
+    }
+];
+
+export function getScoredCategories(): string[] {
+    return CATEGORY_SCORERS.map(scorer => scorer.category);
+}
+
+/**
+ * Per-category scores for the categories whose collectors completed.
+ * Categories that were skipped, failed or returned nothing to score are left out.
+ */
+export function getCategoryScores(collectedData: Record<string, any>, completedCategories: string[]): Record<string, number> {
+    const categoryScores: Record<string, number> = {};
+
+    CATEGORY_SCORERS.forEach(scorer => {
+        const data = collectedData[scorer.resultKey];
+        if (!completedCategories.includes(scorer.category) || !data) {
+            return;
+        }
+
+        const score = scorer.score(data);
+        if (score !== null && Number.isFinite(score)) {
+            categoryScores[scorer.category] = Math.max(0, Math.min(Math.round(score), 100));
+        }
+    });
+
+    return categoryScores;
+}
+
+/**
+ * Weights of the scored categories, scaled to sum to 1.
+ * Returns an empty object when none of the categories carries any weight.
+ */
+export function normalizeWeights(weights: ScoringWeights, categories: string[]): Record<string, number> {
+    const applicable = categories.filter(category => (weights[category] || 0) > 0);
+    const total = applicable.reduce((sum, category) => sum + weights[category], 0);
+
+    if (total <= 0) {
+        return {};
+    }
+
+    return Object.fromEntries(applicable.map(category => [category, weights[category] / total]));
+}
+
+/**
+ * Effective weights for a customer: the profile's weights over the defaults
+ */
+export function resolveScoringWeights(profile?: ScoringProfile | null): ScoringWeights {
+    return { ...DEFAULT_SCORING_WEIGHTS, ...(profile?.weights || {}) };
+}
+
+export function calculateScore(categoryScores: Record<string, number>, profile?: ScoringProfile | null): ScoreBreakdown {
+    const appliedWeights = normalizeWeights(resolveScoringWeights(profile), Object.keys(categoryScores));
+    const overall = Object.entries(appliedWeights).reduce(
+        (total, [category, weight]) => total + categoryScores[category] * weight,
+        0
+    );
+
+    return {
+        modelVersion: SCORING_MODEL_VERSION,
+        profile: profile ? profile.customerId : 'default',
+        overall: Math.round(overall),
+        categoryScores,
+        appliedWeights
+    };
+}
+
+/**
+ * Validation errors for a custom weight profile; empty when the weights are usable
+ */
+export function validateScoringWeights(weights: any): string[] {
+    if (!weights || typeof weights !== 'object' || Array.isArray(weights)) {
+        return ['weights must be an object keyed by category'];
+    }
+
+    const errors: string[] = [];
+    const categories = getScoredCategories();
+
+    Object.entries(weights).forEach(([category, weight]) => {
+        if (!categories.includes(category)) {
+            errors.push(`Unknown category '${category}' - expected one of: ${categories.join(', ')}`);
+        } else if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+            errors.push(`Weight for '${category}' must be a non-negative number`);
+        }
+    });
+
+    const merged: ScoringWeights = { ...DEFAULT_SCORING_WEIGHTS, ...weights };
+    if (errors.length === 0 && !categories.some(category => merged[category] > 0)) {
+        errors.push('At least one category must have a weight greater than 0');
+    }
+
+    return errors;
+}
@@ -0,0 +1,214 @@
+import { InvocationContext } from "@azure/functions";
+import { dataService, graphApiService, keyVaultService } from "./utils";
+import { Customer, ExpiringCredential, SecretRotationRecord, SecretRotationTrigger } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_SECRET_EXPIRY_WINDOW_DAYS = 30;
+
+// Same lifetime as the secrets created with the app registration (and the Key Vault secret expiry)
+export const SECRET_LIFETIME_DAYS = 365;
+
+/**
+ * Days before expiry a secret is rotated, from SECRET_EXPIRY_WINDOW_DAYS
+ */
+export function getSecretExpiryWindowDays(): number {
+    const days = parseInt(process.env.SECRET_EXPIRY_WINDOW_DAYS || '', 10);
+    return days > 0 ? days : DEFAULT_SECRET_EXPIRY_WINDOW_DAYS;
+}
+
+/**
+ * Only customers with their own app registration can be rotated. Customers consented to the
+ * shared multi-tenant app use our AZURE_CLIENT_SECRET, which is managed outside the app.
+ */
+export function hasRotatableSecret(customer: Customer): boolean {
+    const appRegistration = customer.appRegistration;
+    return !!appRegistration?.clientId &&
+        !!appRegistration.secretExpiryDate &&
+        appRegistration.clientId !== process.env.AZURE_CLIENT_ID;
+}
+
+/**
+ * Customers whose client secret has expired or expires within `windowDays`, soonest first
+ */
+export function findExpiringCredentials(customers: Customer[], windowDays: number, now: Date = new Date()): ExpiringCredential[] {
+    return customers
+        .filter(customer => customer.status !== 'deleted' && hasRotatableSecret(customer))
+        .map(customer => {
+            const appRegistration = customer.appRegistration!;
+            const daysRemaining = Math.floor((Date.parse(appRegistration.secretExpiryDate!) - now.getTime()) / DAY_MS);
+            return {
+                customerId: customer.id,
+                tenantName: customer.tenantName,
+                tenantDomain: customer.tenantDomain,
+                clientId: appRegistration.clientId,
+                secretExpiryDate: appRegistration.secretExpiryDate!,
+                daysRemaining,
+                status: daysRemaining < 0 ? 'expired' as const : 'expiring' as const,
+                ...(appRegistration.lastSecretRotation ? { lastSecretRotation: appRegistration.lastSecretRotation } : {})
+            };
+        })
+        .filter(credential => !isNaN(credential.daysRemaining) && credential.daysRemaining <= windowDays)
+        .sort((a, b) => a.daysRemaining - b.daysRemaining);
+}
+
+interface StoredPasswordCredential {
+    keyId: string;
+    endDateTime: string;
+    hint?: string;
+}
+
+/**
+ * The credential the customer's stored secret belongs to. Rotations store its key id; secrets
+ * created with the app registration predate that, so they are matched on the stored expiry date
+ * (to the day) and, when several credentials expire that day, on the hint - the first three
+ * characters of the secret. Undefined when no single credential matches.
+ */
+export function findPreviousCredential(
+    appRegistration: Pick<NonNullable<Customer['appRegistration']>, 'secretKeyId' | 'secretExpiryDate'>,
+    credentials: StoredPasswordCredential[],
+    previousSecret?: string
+): StoredPasswordCredential | undefined {
+    if (appRegistration.secretKeyId) {
+        return credentials.find(credential => credential.keyId === appRegistration.secretKeyId);
+    }
+
+    const expiry = Date.parse(appRegistration.secretExpiryDate || '');
+    let candidates = credentials.filter(credential => Math.abs(Date.parse(credential.endDateTime) - expiry) < DAY_MS);
+    if (candidates.length > 1 && previousSecret) {
+        candidates = candidates.filter(credential => credential.hint === previousSecret.slice(0, 3));
+    }
+    return candidates.length === 1 ? candidates[0] : undefined;
+}
+
+/**
+ * Replace a customer's client secret: add a new password credential to the app registration,
+ * store it in Key Vault, point the customer at it and then remove the credential of the
+ * previous secret. A failed step rolls the new credential back.
+ * Every attempt is written to the rotation audit; failures are returned, not thrown.
+ */
+export async function rotateCustomerSecret(
+    customer: Customer,
+    options: { trigger: SecretRotationTrigger; performedBy?: string },
+    context: InvocationContext
+): Promise<SecretRotationRecord> {
+    const appRegistration = customer.appRegistration;
+    const clientId = appRegistration?.clientId || '';
+    const audit = {
+        customerId: customer.id,
+        clientId,
+        trigger: options.trigger,
+        performedBy: options.performedBy,
+        previousExpiry: appRegistration?.secretExpiryDate
+    };
+
+    let newKeyId: string | undefined;
+    try {
+        if (!hasRotatableSecret(customer)) {
+            throw new Error('Customer has no dedicated app registration with a client secret');
+        }
+        if (!graphApiService) {
+            throw new Error('GraphApiService is not available - check AZURE_CLIENT_ID, AZURE_CLIENT_SECRET and AZURE_TENANT_ID');
+        }
+        if (!keyVaultService) {
+            throw new Error('Key Vault is not configured - set KEY_VAULT_URL to rotate client secrets');
+        }
+
+        const previousCredentials = await graphApiService.getApplicationPasswords(clientId);
+        // Value to put back in Key Vault if the rotation has to be rolled back
+        const previousSecret = await keyVaultService.getClientSecret(customer.id).catch(() => undefined);
+
+        const now = new Date();
+        const credential = await graphApiService.addApplicationPassword(
+            clientId,
+            `Assessment Key - ${now.toISOString().split('T')[0]} (rotated)`,
+            new Date(now.getTime() + SECRET_LIFETIME_DAYS * DAY_MS)
+        );
+        newKeyId = credential.keyId;
+
+        // Without the stored value or the customer record the new credential is useless - do not leave it behind.
+        // If it cannot be removed, its key id stays on the failed rotation record for cleanup.
+        const removeNewCredential = async () => {
+            try {
+                await graphApiService.removeApplicationPassword(clientId, credential.keyId);
+                newKeyId = undefined;
+            } catch (removeError: any) {
+                context.log(`⚠️ New client secret ${credential.keyId} of customer ${customer.id} could not be removed:`, removeError.message);
+            }
+        };
+
+        try {
+            await keyVaultService.rotateClientSecret(customer.id, customer.tenantDomain, credential.secretText);
+        } catch (error) {
+            await removeNewCredential();
+            throw error;
+        }
+
+        // The secret now lives in Key Vault only
+        try {
+            await dataService.updateCustomer(customer.id, {
+                appRegistration: {
+                    ...appRegistration!,
+                    clientSecret: undefined,
+                    secretExpiryDate: credential.endDateTime,
+                    secretKeyId: credential.keyId,
+                    lastSecretRotation: now.toISOString()
+                }
+            });
+        } catch (error) {
+            // Roll back so Key Vault, the app registration and the customer record keep agreeing
+            await removeNewCredential();
+            if (previousSecret) {
+                await keyVaultService.rotateClientSecret(customer.id, customer.tenantDomain, previousSecret).catch((restoreError: any) => {
+                    context.log(`⚠️ Previous client secret of customer ${customer.id} could not be restored in Key Vault:`, restoreError.message);
+                });
+            }
+            throw error;
+        }
+
+        // Only the credential of the previous secret is ours to remove - other credentials on
+        // the app registration may have been added by the customer's administrators
+        const removedKeyIds: string[] = [];
+        const removalErrors: string[] = [];
+        const previousCredential = findPreviousCredential(
+            appRegistration!,
+            previousCredentials.filter(previous => previous.keyId !== credential.keyId),
+            previousSecret
+        );
+        if (!previousCredential && appRegistration!.secretKeyId) {
+            context.log(`ℹ️ Previous client secret ${appRegistration!.secretKeyId} of customer ${customer.id} was already removed`);
+        } else if (!previousCredential) {
+            removalErrors.push(`previous secret left in place, no single credential matches its expiry date ${appRegistration!.secretExpiryDate}`);
+        } else {
+            try {
+                await graphApiService.removeApplicationPassword(clientId, previousCredential.keyId);
+                removedKeyIds.push(previousCredential.keyId);
+            } catch (error: any) {
+                removalErrors.push(`${previousCredential.keyId}: ${error.message}`);
+            }
+        }
+        if (removalErrors.length > 0) {
+            context.log(`⚠️ Old client secret of customer ${customer.id} could not be removed:`, removalErrors);
+        }
+
+        context.log(`🔑 Client secret of customer ${customer.id} rotated, new secret expires ${credential.endDateTime}`);
+        return await dataService.recordSecretRotation({
+            ...audit,
+            status: 'succeeded',
+            newKeyId: credential.keyId,
+            removedKeyIds,
+            newExpiry: credential.endDateTime,
+            ...(removalErrors.length > 0 ? { error: `Old credentials not removed: ${removalErrors.join('; ')}` } : {})
+        });
+
+    } catch (error: any) {
+        context.log(`❌ Client secret rotation failed for customer ${customer.id}:`, error.message);
+        return await dataService.recordSecretRotation({
+            ...audit,
+            status: 'failed',
+            newKeyId,
+            removedKeyIds: [],
+            error: error.message
+        });
+    }
+}
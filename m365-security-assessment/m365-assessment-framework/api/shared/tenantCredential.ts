@@ -0,0 +1,115 @@
+import { readFile } from "fs/promises";
+import { createPrivateKey, X509Certificate } from "crypto";
+import { ClientCertificateCredential, ClientSecretCredential, TokenCredential } from "@azure/identity";
+import { getKeyVaultService } from "./keyVaultService";
+import { TenantAuthMethod } from "./types";
+
+export const TENANT_AUTH_METHODS: TenantAuthMethod[] = ['secret', 'certificate'];
+
+export const DEFAULT_CLIENT_CERTIFICATE_NAME = 'assessment-app-certificate';
+
+let certificatePromise: Promise<string> | null = null;
+
+/**
+ * Load the PEM certificate (with private key) of our multi-tenant app.
+ * AZURE_CLIENT_CERTIFICATE_PATH switches to a local PEM file for testing, otherwise the
+ * certificate named AZURE_CLIENT_CERTIFICATE_NAME is read from Key Vault.
+ */
+export function loadClientCertificate(): Promise<string> {
+    if (!certificatePromise) {
+        certificatePromise = readClientCertificate().catch(error => {
+            // Allow a retry once the certificate has been uploaded
+            certificatePromise = null;
+            throw error;
+        });
+    }
+    return certificatePromise;
+}
+
+async function readClientCertificate(): Promise<string> {
+    let pem: string;
+    const certificatePath = process.env.AZURE_CLIENT_CERTIFICATE_PATH;
+
+    if (certificatePath) {
+        console.log('🔐 TenantCredential: Loading client certificate from local PEM file:', certificatePath);
+        try {
+            pem = await readFile(certificatePath, 'utf8');
+        } catch (error: any) {
+            throw new Error(`Failed to read client certificate from ${certificatePath}: ${error.message}`);
+        }
+    } else {
+        if (!process.env.KEY_VAULT_URL) {
+            throw new Error('Certificate authentication requires KEY_VAULT_URL, or AZURE_CLIENT_CERTIFICATE_PATH for local testing');
+        }
+        const certificateName = process.env.AZURE_CLIENT_CERTIFICATE_NAME || DEFAULT_CLIENT_CERTIFICATE_NAME;
+        console.log('🔐 TenantCredential: Loading client certificate from Key Vault:', certificateName);
+        pem = await getKeyVaultService().getCertificate(certificateName);
+    }
+
+    if (!pem.includes('PRIVATE KEY-----') || !pem.includes('BEGIN CERTIFICATE-----')) {
+        throw new Error('Client certificate must be a PEM file containing both the certificate and its private key');
+    }
+    return pem;
+}
+
+export interface StoredClientCertificate {
+    certificateName: string;
+    /** SHA-1 thumbprint, as shown for the certificate credential of the app registration */
+    thumbprint: string;
+    expiresOn: string;
+}
+
+/**
+ * Store the PEM certificate (with private key) of our multi-tenant app in Key Vault under
+ * AZURE_CLIENT_CERTIFICATE_NAME. The certificate must already be registered on the app.
+ */
+export async function storeClientCertificate(pem: string): Promise<StoredClientCertificate> {
+    if (process.env.AZURE_CLIENT_CERTIFICATE_PATH) {
+        throw new Error('AZURE_CLIENT_CERTIFICATE_PATH is set - the certificate is read from that PEM file, not Key Vault');
+    }
+    if (!process.env.KEY_VAULT_URL) {
+        throw new Error('Storing the client certificate requires KEY_VAULT_URL');
+    }
+
+    let certificate: X509Certificate;
+    try {
+        certificate = new X509Certificate(pem);
+        if (!certificate.checkPrivateKey(createPrivateKey(pem))) {
+            throw new Error('the private key does not belong to the certificate');
+        }
+    } catch (error: any) {
+        throw new Error(`Client certificate must be a PEM file containing both the certificate and its private key: ${error.message}`);
+    }
+
+    const certificateName = process.env.AZURE_CLIENT_CERTIFICATE_NAME || DEFAULT_CLIENT_CERTIFICATE_NAME;
+    const stored: StoredClientCertificate = {
+        certificateName,
+        thumbprint: certificate.fingerprint.replace(/:/g, ''),
+        expiresOn: new Date(certificate.validTo).toISOString()
+    };
+    await getKeyVaultService().storeCertificate(certificateName, pem, { thumbprint: stored.thumbprint, expiresOn: stored.expiresOn });
+
+    // The next credential loads the new certificate
+    certificatePromise = null;
+    return stored;
+}
+
+/**
+ * Credential of our multi-tenant app for a customer tenant, using the customer's chosen auth method
+ */
+export async function createTenantCredential(tenantId: string, authMethod: TenantAuthMethod = 'secret'): Promise<TokenCredential> {
+    const clientId = process.env.AZURE_CLIENT_ID;
+    if (!clientId) {
+        throw new Error('AZURE_CLIENT_ID is required for customer tenant access');
+    }
+
+    if (authMethod === 'certificate') {
+        const certificate = await loadClientCertificate();
+        return new ClientCertificateCredential(tenantId, clientId, { certificate });
+    }
+
+    if (!process.env.AZURE_CLIENT_SECRET) {
+        throw new Error('AZURE_CLIENT_SECRET is required for secret authentication - configure it or switch the customer to certificate authentication');
+    }
+    return new ClientSecretCredential(tenantId, clientId, process.env.AZURE_CLIENT_SECRET);
+}
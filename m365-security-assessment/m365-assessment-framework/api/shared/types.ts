@@ -1,4 +1,5 @@
 // filepath: /m365-assessment-framework/m365-assessment-framework/api/shared/types.ts
+import type { LicenseCollectorResult, SecureScoreCollectorResult, IdentityMetrics, EndpointMetrics, PolicyConfiguration } from './collectors';
 
 export interface AssessmentHistory {
     id: string;
@@ -31,6 +32,24 @@ export interface Assessment {
     recommendations: any[];
 }
 
+export type CategoryProgressStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface CategoryProgress {
+    status: CategoryProgressStatus;
+    startedAt?: string;
+    completedAt?: string;
+    error?: string;
+}
+
+// Progress of an asynchronous assessment job, stored under metrics.progress
+export interface AssessmentProgress {
+    categories: Record<string, CategoryProgress>;
+    startedAt: string;
+    updatedAt: string;
+    completedAt?: string;
+    error?: string;
+}
+
 export interface Metrics {
     securityBaseline: number;
     complianceScore: number;
@@ -46,6 +65,20 @@ export interface Tenant {
     assessments: Assessment[];
 }
 
+export type ReportLanguage = 'en' | 'de' | 'fr' | 'es' | 'nl';
+
+/** White-label branding of the Reports page and exported reports, stored per customer */
+export interface CustomerBranding {
+    /** Consultant or partner company the report is delivered by */
+    companyName?: string;
+    /** PNG or JPEG data URL */
+    logo?: string;
+    primaryColor?: string;
+    accentColor?: string;
+    disclaimer?: string;
+    language?: ReportLanguage;
+}
+
 // Customer management interfaces
 export interface Customer {
     id: string;
@@ -58,6 +91,9 @@ export interface Customer {
     lastAssessmentDate?: Date;
     totalAssessments: number;
     status: 'active' | 'inactive' | 'deleted';
+    branding?: CustomerBranding;
+    /** How we authenticate to the customer tenant, 'secret' unless chosen otherwise */
+    authMethod?: TenantAuthMethod;
     appRegistration?: {
         applicationId: string;
         clientId: string;
@@ -72,6 +108,9 @@ export interface Customer {
         setupStatus?: string;
         createdDate?: string;
         secretExpiryDate?: string;
+        /** keyId of the password credential the stored secret belongs to */
+        secretKeyId?: string;
+        lastSecretRotation?: string;
         error?: string;
         errorCode?: string;
         errorTimestamp?: string;
@@ -79,6 +118,193 @@ export interface Customer {
     };
 }
 
+export type TenantAuthMethod = 'secret' | 'certificate';
+
+export type AppRole = 'admin' | 'consultant' | 'viewer';
+
+/**
+ * Caller of an HTTP function, as accepted by the authorization hook
+ */
+export interface AuthenticatedUser {
+    id: string;
+    /** UPN or email for users, client ID for applications */
+    name: string;
+    role: AppRole;
+    source: 'static-web-apps' | 'bearer' | 'development';
+    /** Entra object ID, when the identity provider supplies it */
+    objectId?: string;
+}
+
+/**
+ * A non-admin user's access to one customer. Users are matched by object ID or, when the
+ * identity provider does not supply one, by user principal name.
+ */
+export interface CustomerAssignment {
+    customerId: string;
+    userId: string;
+    userPrincipalName?: string;
+    assignedBy?: string;
+    assignedAt: Date;
+}
+
+/**
+ * Restricts customer, assessment and history queries to the customers assigned to a user
+ */
+export interface AssignmentScope {
+    objectId?: string;
+    userPrincipalName: string;
+}
+
+export type AuditTargetType = 'customer' | 'assessment' | 'app-registration' | 'consent' | 'finding' | 'schedule' | 'alert-rule';
+
+/** One operator action, as written to the append-only audit log */
+export interface AuditLogEntry {
+    id: string;
+    occurredAt: Date;
+    /** User principal name or client ID of the caller, 'anonymous' for unauthenticated routes */
+    actor: string;
+    actorRole?: AppRole;
+    /** Dotted verb such as `customer.update` */
+    action: string;
+    targetType: AuditTargetType;
+    targetId?: string;
+    customerId?: string;
+    before?: any;
+    after?: any;
+    sourceIp?: string;
+}
+
+export interface AuditLogQuery {
+    customerId?: string;
+    actor?: string;
+    action?: string;
+    targetType?: AuditTargetType;
+    from?: Date;
+    to?: Date;
+    limit?: number;
+    offset?: number;
+}
+
+export type SecretRotationTrigger = 'scheduled' | 'manual';
+
+/** Audit record of one client secret rotation attempt */
+export interface SecretRotationRecord {
+    id: string;
+    customerId: string;
+    clientId: string;
+    trigger: SecretRotationTrigger;
+    status: 'succeeded' | 'failed';
+    newKeyId?: string;
+    removedKeyIds: string[];
+    previousExpiry?: string;
+    newExpiry?: string;
+    error?: string;
+    performedBy?: string;
+    createdAt: Date;
+}
+
+/** A customer app registration whose client secret expires within the monitoring window */
+export interface ExpiringCredential {
+    customerId: string;
+    tenantName: string;
+    tenantDomain: string;
+    clientId: string;
+    secretExpiryDate: string;
+    /** Negative once the secret has expired */
+    daysRemaining: number;
+    status: 'expired' | 'expiring';
+    lastSecretRotation?: string;
+}
+
+export type AssessmentScheduleFrequency = 'weekly' | 'monthly' | 'cron';
+
+export type ScheduleRunStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'retrying';
+
+export interface ScheduleRetryPolicy {
+    /** Extra attempts after a failed run before waiting for the next regular run */
+    maxRetries: number;
+    retryDelayMinutes: number;
+}
+
+/** A recurring assessment of one customer. All times are UTC. */
+export interface AssessmentSchedule {
+    id: string;
+    customerId: string;
+    frequency: AssessmentScheduleFrequency;
+    /** 0 = Sunday, weekly schedules only */
+    dayOfWeek?: number;
+    /** 1-28, monthly schedules only */
+    dayOfMonth?: number;
+    hour: number;
+    minute: number;
+    /** Five-field cron expression (minute hour day-of-month month day-of-week), cron schedules only */
+    cronExpression?: string;
+    includedCategories: string[];
+    retryPolicy: ScheduleRetryPolicy;
+    enabled: boolean;
+    nextRunAt: string;
+    retryCount: number;
+    lastRunAt?: string;
+    lastRunStatus?: ScheduleRunStatus;
+    lastRunError?: string;
+    lastAssessmentId?: string;
+    createdBy?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export type AssessmentScheduleInput = Pick<AssessmentSchedule,
+    'frequency' | 'dayOfWeek' | 'dayOfMonth' | 'hour' | 'minute' | 'cronExpression' | 'includedCategories' | 'retryPolicy' | 'enabled'>;
+
+export type AlertRuleType = 'score-drop' | 'mfa-coverage-below' | 'new-global-admin' | 'device-compliance-drop';
+
+export type WebhookFormat = 'teams' | 'slack';
+
+export type AlertChannel =
+    | { type: 'webhook'; url: string; format: WebhookFormat }
+    | { type: 'email'; recipients: string[] };
+
+/**
+ * Condition checked whenever an assessment of the customer completes.
+ * `threshold` is in points for the drop rules and a percentage for mfa-coverage-below.
+ */
+export interface AlertRule {
+    id: string;
+    customerId: string;
+    type: AlertRuleType;
+    threshold?: number;
+    channels: AlertChannel[];
+    enabled: boolean;
+    createdBy?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export type AlertRuleInput = Pick<AlertRule, 'type' | 'threshold' | 'channels' | 'enabled'>;
+
+/** A rule that matched a completed assessment */
+export interface TriggeredAlert {
+    rule: AlertRule;
+    title: string;
+    message: string;
+    details: string[];
+}
+
+/** One attempt to deliver a triggered alert through one channel */
+export interface AlertDelivery {
+    id: string;
+    customerId: string;
+    ruleId: string;
+    assessmentId: string;
+    channel: AlertChannel['type'];
+    target: string;
+    title: string;
+    status: 'delivered' | 'failed';
+    attempt: number;
+    error?: string;
+    createdAt: Date;
+}
+
 export interface CreateCustomerRequest {
     tenantName: string;
     tenantDomain: string;
@@ -126,15 +352,46 @@ export interface SecurityScores {
     apps: number;
 }
 
+export type FindingSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+/** How a finding changed compared to the previous assessment of the same customer */
+export type FindingLifecycle = 'new' | 'persisting' | 'regressed' | 'resolved';
+
+export interface FindingException {
+    id: string;
+    customerId: string;
+    findingKey: string;
+    type: 'acknowledged' | 'risk-accepted';
+    justification: string;
+    expiresAt: Date;
+    createdBy?: string;
+    createdAt: Date;
+    revokedAt?: Date;
+}
+
 export interface SecurityFinding {
     id: string;
+    /** Id of the findings rule that produced the finding */
+    ruleId?: string;
+    /** `<ruleId>:<resource>` - stable across assessments */
+    findingKey?: string;
+    lifecycle?: FindingLifecycle;
+    firstSeenAt?: Date;
+    /** Active acknowledgement or risk acceptance for the finding key */
+    exception?: FindingException;
+    assessmentId?: string;
+    customerId?: string;
+    tenantId?: string;
     category: string;
-    severity: 'critical' | 'high' | 'medium' | 'low';
+    severity: FindingSeverity;
     title: string;
     description: string;
     affectedResources: string[];
     remediation: string;
+    /** Metric values the rule evaluated, kept for reporting */
+    evidence?: Record<string, any>;
     status: 'open' | 'resolved' | 'acknowledged';
+    createdAt?: Date;
 }
 
 export interface Recommendation {
@@ -161,4 +418,379 @@ export interface AssessmentMetadata {
         infrastructure: boolean;
         apps: boolean;
     };
-}
\ No newline at end of file
+}
+/** Relative weight of each scored category; only categories that were collected take part */
+export type ScoringWeights = Record<string, number>;
+
+export interface ScoringProfile {
+    customerId: string;
+    weights: ScoringWeights;
+    updatedBy?: string;
+    updatedAt: Date;
+}
+
+export type LicenseBillingTerm = 'monthly' | 'annual';
+
+/** List price of a license SKU, per user and month */
+export interface LicenseCatalogEntry {
+    skuPartNumber: string;
+    displayName: string;
+    listPrice: number;
+    /** ISO 4217 code */
+    currency: string;
+    /** Commitment the price applies to; annual commitments are billed at the monthly rate shown */
+    billingTerm: LicenseBillingTerm;
+}
+
+/** Negotiated per-customer rate that replaces the list price of a SKU */
+export interface CustomerLicensePrice {
+    customerId: string;
+    skuPartNumber: string;
+    unitPrice: number;
+    currency: string;
+    billingTerm: LicenseBillingTerm;
+    updatedBy?: string;
+    updatedAt: Date;
+}
+
+/** Price used for cost and savings figures, with where it came from */
+export interface EffectiveLicensePrice {
+    skuPartNumber: string;
+    displayName: string;
+    unitPrice: number;
+    currency: string;
+    billingTerm: LicenseBillingTerm;
+    /** 'estimate' for SKUs missing from the catalog */
+    source: 'negotiated' | 'catalog' | 'estimate';
+    listPrice: number;
+    listCurrency: string;
+}
+
+/** A service plan included in a subscribed SKU */
+export interface ServicePlanInfo {
+    servicePlanId: string;
+    servicePlanName: string;
+    /** 'Success', 'Disabled', 'PendingInput', ... */
+    provisioningStatus: string;
+    appliesTo: string;
+}
+
+export interface SkuServicePlans {
+    skuPartNumber: string;
+    servicePlans: ServicePlanInfo[];
+}
+
+/**
+ * configured: the feature is in use; not-configured: entitled but unused;
+ * unknown: the category holding the evidence was not collected;
+ * not-checked: no automated check exists
+ */
+export type SecurityFeatureStatus = 'configured' | 'not-configured' | 'unknown' | 'not-checked';
+
+export interface SecurityFeatureEntitlement {
+    featureId: string;
+    name: string;
+    /** SKUs that include one of the feature's service plans */
+    entitledBy: string[];
+    servicePlans: string[];
+    status: SecurityFeatureStatus;
+    evidence: string;
+}
+
+/** Security features the tenant pays for and whether they are used, stored under metrics.licenseEntitlements */
+export interface LicenseEntitlementAnalysis {
+    features: SecurityFeatureEntitlement[];
+    /** Entitled features that are confirmed unused */
+    unusedFeatures: number;
+    evaluatedAt: string;
+}
+
+/** Why a user's licenses can be reclaimed, in order of precedence */
+export type LicenseReclaimReason = 'disabled' | 'never-signed-in' | 'inactive' | 'overlapping';
+
+/** A licensed user whose paid licenses, or some of them, can be removed */
+export interface LicenseReclaimCandidate {
+    userId: string;
+    userPrincipalName: string;
+    displayName?: string;
+    accountEnabled: boolean;
+    /** Most recent interactive or non-interactive sign-in; null when unknown or never */
+    lastSignInDateTime: string | null;
+    reason: LicenseReclaimReason;
+    /** Paid SKUs that can be removed from the user */
+    reclaimableSkus: string[];
+    /** For overlapping assignments, the SKUs that already include the reclaimable ones */
+    supersededBy?: string[];
+    detail: string;
+}
+
+/** Per-user license waste, stored under metrics.realData.licenseOptimization */
+export interface LicenseOptimizationAnalysis {
+    licensedUsers: number;
+    inactiveThresholdDays: number;
+    /** False when sign-in activity could not be read (needs Entra ID P1 and AuditLog.Read.All) */
+    signInActivityAvailable: boolean;
+    candidates: LicenseReclaimCandidate[];
+    /** Number of SKU assignments that can be removed, per SKU */
+    reclaimableBySku: Record<string, number>;
+    byReason: Record<LicenseReclaimReason, number>;
+    analyzedAt: string;
+    skipped?: boolean;
+    error?: string;
+}
+
+/** How an assessment's overall score was produced, stored with the assessment metrics */
+export interface ScoreBreakdown {
+    modelVersion: string;
+    /** 'default' or the customer whose weight profile was used */
+    profile: string;
+    overall: number;
+    categoryScores: Record<string, number>;
+    /** Weights after normalizing across the collected categories, summing to 1 */
+    appliedWeights: Record<string, number>;
+}
+
+export type ComplianceControlResult = 'pass' | 'fail' | 'manual';
+
+export interface ComplianceControlEvaluation {
+    controlId: string;
+    title: string;
+    section: string;
+    level: 1 | 2;
+    result: ComplianceControlResult;
+    details: string;
+    evidence?: Record<string, any>;
+}
+
+/** Benchmark results stored with the assessment under metrics.compliance */
+export interface BenchmarkResult {
+    benchmarkId: string;
+    name: string;
+    version: string;
+    /** Share of automatically evaluated controls that pass; null when none could be evaluated */
+    percentage: number | null;
+    passed: number;
+    failed: number;
+    manual: number;
+    controls: ComplianceControlEvaluation[];
+    evaluatedAt: string;
+}
+
+export type ConditionalAccessPolicyState = 'enabled' | 'reportOnly' | 'disabled';
+
+/** A Conditional Access policy reduced to what the analyzer evaluates */
+export interface ConditionalAccessPolicySummary {
+    id: string;
+    displayName: string;
+    state: ConditionalAccessPolicyState;
+    users: {
+        includesAllUsers: boolean;
+        includeUsers: string[];
+        includeGroups: string[];
+        includeRoles: string[];
+        excludeUsers: string[];
+        excludeGroups: string[];
+        excludeRoles: string[];
+        excludesGuests: boolean;
+    };
+    applications: {
+        includesAllApplications: boolean;
+        includeApplications: string[];
+        excludeApplications: string[];
+    };
+    clientAppTypes: string[];
+    userRiskLevels: string[];
+    signInRiskLevels: string[];
+    grant: {
+        operator: string;
+        controls: string[];
+        authenticationStrength?: string;
+    };
+    sessionControls: string[];
+    /** 'never' keeps browser sessions from persisting after the browser is closed */
+    persistentBrowserMode?: string;
+    requiresMfa: boolean;
+    blocksAccess: boolean;
+    blocksLegacyAuthentication: boolean;
+    /** Policy specific observations, e.g. broad exclusions */
+    issues: string[];
+}
+
+export type ConditionalAccessGapType =
+    | 'no-legacy-auth-block'
+    | 'admins-without-mfa'
+    | 'broad-exclusions'
+    | 'report-only-policies'
+    | 'no-sign-in-risk-policy';
+
+export interface ConditionalAccessGap {
+    type: ConditionalAccessGapType;
+    severity: FindingSeverity;
+    title: string;
+    description: string;
+    /** Policies or admin roles the gap is about */
+    affected: string[];
+}
+
+/** Conditional Access analysis stored with the assessment under metrics.conditionalAccess */
+export interface ConditionalAccessAnalysis {
+    totalPolicies: number;
+    enabledPolicies: number;
+    reportOnlyPolicies: number;
+    disabledPolicies: number;
+    /** Admin roles not covered by an enabled MFA policy */
+    uncoveredAdminRoles: string[];
+    policies: ConditionalAccessPolicySummary[];
+    gaps: ConditionalAccessGap[];
+    analyzedAt: string;
+}
+
+export type AssessmentDiffSection = 'licenses' | 'secureScoreControls' | 'privilegedUsers' | 'mfaRegistration' | 'deviceCompliance';
+
+export interface LicenseSkuChange {
+    skuPartNumber: string;
+    fromUnits: number;
+    toUnits: number;
+    fromConsumed: number;
+    toConsumed: number;
+}
+
+export interface SecureScoreControlChange {
+    controlName: string;
+    title: string;
+    fromStatus: string;
+    toStatus: string;
+    direction: 'improved' | 'regressed';
+}
+
+export interface PrivilegedRoleChange {
+    userPrincipalName: string;
+    addedRoles: string[];
+    removedRoles: string[];
+}
+
+export interface DeviceComplianceChange {
+    deviceId: string;
+    deviceName: string;
+    fromState: string;
+    toState: string;
+}
+
+/** Structural tenant changes between two assessments of the same customer */
+export interface AssessmentDiff {
+    licenses: {
+        added: string[];
+        removed: string[];
+        changed: LicenseSkuChange[];
+    };
+    secureScoreControls: SecureScoreControlChange[];
+    privilegedUsers: {
+        gained: string[];
+        lost: string[];
+        roleChanges: PrivilegedRoleChange[];
+    };
+    mfaRegistration: {
+        registered: string[];
+        unregistered: string[];
+    };
+    deviceCompliance: {
+        becameCompliant: DeviceComplianceChange[];
+        becameNonCompliant: DeviceComplianceChange[];
+    };
+    /** Sections that could not be compared because one of the assessments lacks the data */
+    unavailable: AssessmentDiffSection[];
+    summary: Record<AssessmentDiffSection, number>;
+}
+
+export type AssessmentCategoryCollectionStatus = 'completed' | 'failed' | 'skipped';
+
+/** Result of one collector run, stored under metrics.collection */
+export interface AssessmentCategoryCollection {
+    status: AssessmentCategoryCollectionStatus;
+    /** Microsoft Graph permissions the collector needs */
+    permissions: string[];
+    durationMs: number;
+    /** Microsoft Graph requests made by the collector; absent on older assessments */
+    graphRequests?: number;
+    error?: string;
+}
+
+export interface AssessmentTenantInfo {
+    tenantId: string;
+    displayName?: string;
+    domain?: string;
+}
+
+/**
+ * Microsoft Graph data collected for an assessment, stored under metrics.realData.
+ * Collector results are keyed by the collector's resultKey.
+ */
+export interface AssessmentCollectedData {
+    dataSource: string;
+    lastUpdated: string;
+    tenantInfo?: AssessmentTenantInfo;
+    assessmentScope?: string;
+    authenticationMethod?: string;
+    licenseInfo?: LicenseCollectorResult;
+    secureScore?: SecureScoreCollectorResult;
+    identityMetrics?: IdentityMetrics;
+    endpointMetrics?: EndpointMetrics;
+    policyConfiguration?: PolicyConfiguration;
+    licenseOptimization?: LicenseOptimizationAnalysis;
+    securityMetrics?: {
+        alertsCount: number;
+        secureScore: number;
+        identityScore: number;
+        dataProtectionScore: number;
+        recommendationsCount: number;
+        deviceComplianceScore: number;
+    };
+    /** Set when collection failed as a whole */
+    error?: string;
+    authenticationRequired?: boolean;
+    troubleshooting?: string;
+}
+
+export interface AssessmentLicenseSummary {
+    totalLicenses: number;
+    assignedLicenses: number;
+    utilizationRate: number;
+    licenseDetails: any[];
+    summary: string;
+}
+
+export type AssessmentSecureScoreSummary = Pick<SecureScoreCollectorResult, 'percentage' | 'currentScore' | 'maxScore' | 'controlScores' | 'summary'>
+    & Partial<SecureScoreCollectorResult>;
+
+/**
+ * The assessment payload stored in assessments.metrics. Documents written by older versions
+ * are upgraded to the current schemaVersion when read - see assessmentDocument.ts.
+ */
+export interface AssessmentMetricsDocument {
+    schemaVersion: number;
+    assessmentName?: string;
+    includedCategories: string[];
+    /** Job progress, present on assessments run as background jobs */
+    progress?: AssessmentProgress;
+    /** Why the assessment failed */
+    error?: string;
+    score: {
+        overall: number;
+        license: number;
+        secureScore: number;
+    };
+    license?: AssessmentLicenseSummary;
+    secureScore?: AssessmentSecureScoreSummary;
+    scoring?: ScoreBreakdown;
+    compliance?: BenchmarkResult;
+    conditionalAccess?: ConditionalAccessAnalysis;
+    licenseEntitlements?: LicenseEntitlementAnalysis;
+    findings?: {
+        total: number;
+        bySeverity: Record<FindingSeverity, number>;
+    };
+    collection?: Record<string, AssessmentCategoryCollection>;
+    /** ISO timestamp of the last write */
+    lastUpdated: string;
+    realData: AssessmentCollectedData;
+}
@@ -1,7 +1,11 @@
 // v3 compatible imports
 import { PostgreSQLService } from "../shared/postgresqlService";
+import { AssessmentRepository } from "./assessmentRepository";
+import { InMemoryAssessmentRepository } from "./inMemoryRepository";
 import { GraphApiService } from "../shared/graphApiService";
 import { getKeyVaultService, KeyVaultService } from "../shared/keyVaultService";
+// Registers the authorization hook that guards every HTTP function
+import "./auth";
 
 // CORS headers optimized for better performance
 export const corsHeaders = process.env.NODE_ENV === 'development' ? {
@@ -10,21 +14,21 @@ export const corsHeaders = process.env.NODE_ENV === 'development' ? {
     'Access-Control-Allow-Headers': 'Content-Type, Authorization, Cache-Control',
     'Access-Control-Max-Age': '86400', // Cache preflight for 24 hours
     'Content-Type': 'application/json',
-    'Cache-Control': 'public, max-age=60, s-maxage=60' // Cache responses for 1 minute
+    'Cache-Control': 'private, max-age=60' // Cache responses for 1 minute, per caller
 } : {
-    'Access-Control-Allow-Origin': '*',
+    // Same-origin under Static Web Apps; other origins must be configured explicitly
+    ...(process.env.CORS_ALLOWED_ORIGIN ? { 'Access-Control-Allow-Origin': process.env.CORS_ALLOWED_ORIGIN } : {}),
     'Access-Control-Allow-Methods': 'GET, POST, OPTIONS, PUT, DELETE',
     'Access-Control-Allow-Headers': 'Content-Type, Authorization, Cache-Control',
     'Access-Control-Max-Age': '86400',
     'Content-Type': 'application/json',
-    'Cache-Control': 'public, max-age=60, s-maxage=60' // Cache responses for 1 minute
+    'Cache-Control': 'private, max-age=60' // Cache responses for 1 minute, per caller
 };
 
 // Initialize data services with connection pooling
-let postgresqlService: PostgreSQLService;
 let graphApiService: GraphApiService | null = null;
 let keyVaultService: KeyVaultService | null = null;
-let dataService: PostgreSQLService;
+let dataService: AssessmentRepository;
 let isDataServiceInitialized = false;
 let initializationPromise: Promise<void> | null = null;
 
@@ -44,22 +48,31 @@ export async function initializeDataService(context: any): Promise<void> {
             const startTime = Date.now();
             context.log('🚀 Initializing data services...');
             
-            // Check if PostgreSQL is configured
-            const hasPostgresConfig = process.env.POSTGRES_HOST && process.env.POSTGRES_DATABASE;
-            if (!hasPostgresConfig) {
-                throw new Error('PostgreSQL configuration missing: POSTGRES_HOST and/or POSTGRES_DATABASE not set.');
-            }
-            
-            try {
-                // Initialize PostgreSQL service
-                context.log('🐘 Attempting to initialize PostgreSQL service...');
-                postgresqlService = new PostgreSQLService();
-                await postgresqlService.initialize();
-                dataService = postgresqlService;
-                context.log('✅ PostgreSQL service initialized successfully - unlimited data storage enabled!');
-            } catch (error) {
-                context.error('❌ PostgreSQL initialization failed:', error);
-                throw new Error('PostgreSQL initialization failed: ' + (error instanceof Error ? error.message : error));
+            // DATA_STORE=memory keeps everything in process - local runs and tests without a database
+            const dataStore = (process.env.DATA_STORE || 'postgres').toLowerCase();
+            if (dataStore === 'memory') {
+                dataService = new InMemoryAssessmentRepository();
+                await dataService.initialize();
+                context.log('🧪 In-memory data store initialized - data is lost on restart');
+            } else if (dataStore === 'postgres') {
+                // Check if PostgreSQL is configured
+                const hasPostgresConfig = process.env.POSTGRES_HOST && process.env.POSTGRES_DATABASE;
+                if (!hasPostgresConfig) {
+                    throw new Error('PostgreSQL configuration missing: POSTGRES_HOST and/or POSTGRES_DATABASE not set.');
+                }
+                
+                try {
+                    context.log('🐘 Attempting to initialize PostgreSQL service...');
+                    const postgresqlService = new PostgreSQLService();
+                    await postgresqlService.initialize();
+                    dataService = postgresqlService;
+                    context.log('✅ PostgreSQL service initialized successfully - unlimited data storage enabled!');
+                } catch (error) {
+                    context.error('❌ PostgreSQL initialization failed:', error);
+                    throw new Error('PostgreSQL initialization failed: ' + (error instanceof Error ? error.message : error));
+                }
+            } else {
+                throw new Error(`Unknown DATA_STORE '${process.env.DATA_STORE}' - use 'postgres' or 'memory'.`);
             }
             
             // Initialize Graph API service with better error handling
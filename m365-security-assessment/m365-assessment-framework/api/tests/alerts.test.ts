@@ -0,0 +1,76 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as net from "net";
+import { AddressInfo } from "net";
+import { maskAlertRuleWebhooks, maskWebhookUrl, normalizeAlertRuleInput, sendMail } from "../shared/alerts";
+import { AlertRule } from "../shared/types";
+
+const webhookUrl = 'https://contoso.webhook.office.com/webhookb2/secret-token/IncomingWebhook/abc';
+
+const rule: AlertRule = {
+    id: 'rule-1',
+    customerId: 'customer-1',
+    type: 'score-drop',
+    threshold: 5,
+    channels: [
+        { type: 'webhook', url: webhookUrl, format: 'teams' },
+        { type: 'email', recipients: ['soc@contoso.com'] }
+    ],
+    enabled: true,
+    createdAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01')
+};
+
+describe('webhook URL masking', () => {
+    it('keeps the host and hides the path', () => {
+        assert.equal(maskWebhookUrl(webhookUrl), 'https://contoso.webhook.office.com/********');
+        assert.deepEqual(maskAlertRuleWebhooks(rule).channels, [
+            { type: 'webhook', url: 'https://contoso.webhook.office.com/********', format: 'teams' },
+            { type: 'email', recipients: ['soc@contoso.com'] }
+        ]);
+    });
+
+    it('keeps the stored URL when an edit sends the masked one back', () => {
+        const { input } = normalizeAlertRuleInput({ ...maskAlertRuleWebhooks(rule), threshold: 10 }, rule.channels);
+        assert.deepEqual(input?.channels[0], { type: 'webhook', url: webhookUrl, format: 'teams' });
+        assert.equal(input?.threshold, 10);
+    });
+
+    it('takes a new URL as sent', () => {
+        const channels = [{ type: 'webhook', url: 'https://hooks.slack.com/services/new', format: 'slack' }];
+        const { input } = normalizeAlertRuleInput({ type: 'score-drop', channels }, rule.channels);
+        assert.deepEqual(input?.channels, channels);
+    });
+});
+
+describe('sendMail', () => {
+    it('does not send credentials when the server offers no STARTTLS', async () => {
+        const received: string[] = [];
+        const server = net.createServer(socket => {
+            socket.write('220 relay.test ESMTP\r\n');
+            socket.on('data', chunk => {
+                const line = chunk.toString('utf8').trim();
+                received.push(line);
+                socket.write(line.startsWith('EHLO') ? '250-relay.test\r\n250 AUTH LOGIN\r\n' : '502 Not expected\r\n');
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+        try {
+            await assert.rejects(
+                sendMail({
+                    host: '127.0.0.1',
+                    port: (server.address() as AddressInfo).port,
+                    secure: false,
+                    user: 'alerts@contoso.com',
+                    password: 'secret',
+                    from: 'alerts@contoso.com'
+                }, { to: ['soc@contoso.com'], subject: 'Test', text: 'Test' }),
+                /refusing to send credentials/
+            );
+            assert.deepEqual(received.map(line => line.split(' ')[0]), ['EHLO']);
+        } finally {
+            server.close();
+        }
+    });
+});
@@ -0,0 +1,108 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { diffAssessments } from "../shared/assessmentDiff";
+import { Assessment } from "../shared/types";
+
+function assessment(id: string, realData: Record<string, any>): Assessment {
+    return {
+        id,
+        customerId: 'customer-1',
+        tenantId: 'tenant-1',
+        date: new Date('2026-10-01T00:00:00Z'),
+        status: 'completed',
+        score: 0,
+        metrics: { realData },
+        recommendations: []
+    };
+}
+
+describe('diffAssessments', () => {
+    it('reports added, removed and resized license SKUs', () => {
+        const diff = diffAssessments(
+            assessment('from', { licenseInfo: { licenseDetails: [
+                { skuPartNumber: 'SPE_E3', prepaidUnits: { enabled: 100 }, consumedUnits: 90 },
+                { skuPartNumber: 'EMS', prepaidUnits: { enabled: 50 }, consumedUnits: 10 }
+            ] } }),
+            assessment('to', { licenseInfo: { licenseDetails: [
+                { skuPartNumber: 'SPE_E3', prepaidUnits: { enabled: 120 }, consumedUnits: 95 },
+                { skuPartNumber: 'SPE_E5', prepaidUnits: { enabled: 10 }, consumedUnits: 2 }
+            ] } })
+        );
+
+        assert.deepEqual(diff.licenses, {
+            added: ['SPE_E5'],
+            removed: ['EMS'],
+            changed: [{ skuPartNumber: 'SPE_E3', fromUnits: 100, toUnits: 120, fromConsumed: 90, toConsumed: 95 }]
+        });
+        assert.equal(diff.summary.licenses, 3);
+    });
+
+    it('tells improved Secure Score controls from regressed ones', () => {
+        const diff = diffAssessments(
+            assessment('from', { secureScore: { controlScores: [
+                { controlName: 'MFARegistrationV2', implementationStatus: 'Partial' },
+                { controlName: 'OneAdmin', implementationStatus: 'Implemented' },
+                { controlName: 'PWAgePolicyNew', implementationStatus: 'Implemented' }
+            ] } }),
+            assessment('to', { secureScore: { controlScores: [
+                { controlName: 'MFARegistrationV2', implementationStatus: 'Implemented' },
+                { controlName: 'OneAdmin', implementationStatus: 'Not Implemented' },
+                { controlName: 'PWAgePolicyNew', implementationStatus: 'Implemented' }
+            ] } })
+        );
+
+        assert.deepEqual(diff.secureScoreControls.map(change => [change.controlName, change.direction]), [
+            ['MFARegistrationV2', 'improved'],
+            ['OneAdmin', 'regressed']
+        ]);
+    });
+
+    it('reports privileged role and MFA registration changes per user', () => {
+        const diff = diffAssessments(
+            assessment('from', { identityMetrics: { userDetails: [
+                { userPrincipalName: 'adele@contoso.example', privilegedRoles: ['Global Administrator'], isMfaRegistered: true },
+                { userPrincipalName: 'lee@contoso.example', privilegedRoles: ['User Administrator'], isMfaRegistered: false },
+                { userPrincipalName: 'megan@contoso.example', isMfaRegistered: null }
+            ] } }),
+            assessment('to', { identityMetrics: { userDetails: [
+                { userPrincipalName: 'adele@contoso.example', privilegedRoles: ['Global Administrator', 'Exchange Administrator'], isMfaRegistered: false },
+                { userPrincipalName: 'lee@contoso.example', isMfaRegistered: true },
+                { userPrincipalName: 'megan@contoso.example', isPrivileged: true, isMfaRegistered: true }
+            ] } })
+        );
+
+        assert.deepEqual(diff.privilegedUsers, {
+            gained: ['megan@contoso.example'],
+            lost: ['lee@contoso.example'],
+            roleChanges: [{ userPrincipalName: 'adele@contoso.example', addedRoles: ['Exchange Administrator'], removedRoles: [] }]
+        });
+        // Megan's registration was unknown before, so it is not reported as a change
+        assert.deepEqual(diff.mfaRegistration, { registered: ['lee@contoso.example'], unregistered: ['adele@contoso.example'] });
+    });
+
+    it('reports devices whose compliance changed, reading the older device sample', () => {
+        const diff = diffAssessments(
+            assessment('from', { endpointMetrics: { sample: [
+                { id: 'd1', name: 'LAPTOP-1', compliance: 'compliant' },
+                { id: 'd2', name: 'LAPTOP-2', compliance: 'noncompliant' }
+            ] } }),
+            assessment('to', { endpointMetrics: { devices: [
+                { id: 'd1', name: 'LAPTOP-1', compliance: 'noncompliant' },
+                { id: 'd2', name: 'LAPTOP-2', compliance: 'Compliant' }
+            ] } })
+        );
+
+        assert.deepEqual(diff.deviceCompliance.becameNonCompliant, [{ deviceId: 'd1', deviceName: 'LAPTOP-1', fromState: 'compliant', toState: 'noncompliant' }]);
+        assert.deepEqual(diff.deviceCompliance.becameCompliant.map(change => change.deviceId), ['d2']);
+    });
+
+    it('lists sections missing or failed in either assessment as unavailable', () => {
+        const diff = diffAssessments(
+            assessment('from', { licenseInfo: { licenseDetails: [] }, identityMetrics: { error: 'Forbidden' } }),
+            assessment('to', { licenseInfo: { licenseDetails: [] }, identityMetrics: { userDetails: [] }, secureScore: { controlScores: [] } })
+        );
+
+        assert.deepEqual(diff.unavailable, ['secureScoreControls', 'privilegedUsers', 'mfaRegistration', 'deviceCompliance']);
+        assert.deepEqual(diff.summary, { licenses: 0, secureScoreControls: 0, privilegedUsers: 0, mfaRegistration: 0, deviceCompliance: 0 });
+    });
+});
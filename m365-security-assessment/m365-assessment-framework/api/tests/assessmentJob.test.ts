@@ -0,0 +1,54 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as path from "path";
+import { InvocationContext } from "@azure/functions";
+import { executeAssessmentJob } from "../shared/assessmentJob";
+import { AssessmentDocumentError } from "../shared/assessmentDocument";
+import { dataService, initializeDataService } from "../shared/utils";
+import { Customer } from "../shared/types";
+
+process.env.DATA_STORE = 'memory';
+process.env.GRAPH_FIXTURE_MODE = 'replay';
+process.env.GRAPH_FIXTURE_SCENARIO = 'mfa-enforced';
+process.env.GRAPH_FIXTURES_DIR = path.resolve(__dirname, '../../fixtures/graph');
+
+const context = new InvocationContext({ logHandler: () => undefined });
+
+describe('executeAssessmentJob', () => {
+    let customer: Customer;
+
+    before(async () => {
+        await initializeDataService(context);
+        customer = await dataService.createCustomer({ tenantName: 'Contoso', tenantDomain: 'contoso.example', tenantId: 'tenant-1' }, null);
+    });
+
+    it('completes an assessment from the replayed Graph responses', async () => {
+        const assessment = await executeAssessmentJob({ customerId: customer.id, tenantId: customer.tenantId, includedCategories: ['license', 'identity'] }, customer, context);
+
+        assert.equal(assessment.status, 'completed');
+        assert.equal((await dataService.getAssessmentById(assessment.id))?.status, 'completed');
+    });
+
+    it('stores a failed assessment with the validation problems when the result is rejected', async () => {
+        const original = dataService.updateAssessment;
+        let rejected = false;
+        dataService.updateAssessment = async (...args) => {
+            if (!rejected) {
+                rejected = true;
+                throw new AssessmentDocumentError('Invalid assessment document: license.totalLicenses must be a number', ['license.totalLicenses must be a number']);
+            }
+            return original.apply(dataService, args);
+        };
+
+        try {
+            const assessment = await executeAssessmentJob({ customerId: customer.id, tenantId: customer.tenantId, includedCategories: ['license'] }, customer, context);
+            const stored = await dataService.getAssessmentById(assessment.id);
+
+            assert.equal(stored?.status, 'failed');
+            assert.equal(stored?.metrics.error, 'Assessment result failed validation: license.totalLicenses must be a number');
+            assert.equal(stored?.metrics.progress.error, stored?.metrics.error);
+        } finally {
+            dataService.updateAssessment = original;
+        }
+    });
+});
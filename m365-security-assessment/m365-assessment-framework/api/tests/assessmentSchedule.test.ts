@@ -0,0 +1,150 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as path from "path";
+import { InvocationContext } from "@azure/functions";
+import {
+    computeNextRun,
+    DEFAULT_RETRY_POLICY,
+    normalizeScheduleInput,
+    parseCronExpression,
+    queueScheduledAssessment,
+    runScheduledAssessment
+} from "../shared/assessmentSchedule";
+import { dataService, initializeDataService } from "../shared/utils";
+import { AssessmentScheduleInput, Customer } from "../shared/types";
+
+process.env.DATA_STORE = 'memory';
+process.env.GRAPH_FIXTURE_MODE = 'replay';
+process.env.GRAPH_FIXTURE_SCENARIO = 'mfa-enforced';
+process.env.GRAPH_FIXTURES_DIR = path.resolve(__dirname, '../../fixtures/graph');
+
+const context = new InvocationContext({ logHandler: () => undefined });
+
+function schedule(fields: Partial<AssessmentScheduleInput>): AssessmentScheduleInput {
+    return { frequency: 'cron', hour: 0, minute: 0, includedCategories: ['license'], retryPolicy: DEFAULT_RETRY_POLICY, enabled: true, ...fields };
+}
+
+function nextCron(cronExpression: string, after: string): string {
+    return computeNextRun(schedule({ cronExpression }), new Date(after)).toISOString();
+}
+
+describe('parseCronExpression', () => {
+    it('expands lists, ranges and steps', () => {
+        const cron = parseCronExpression('5/20 9-17/4 1,15 */6 1-5');
+
+        assert.deepEqual(cron.minutes, [5, 25, 45]);
+        assert.deepEqual(cron.hours, [9, 13, 17]);
+        assert.deepEqual([...cron.daysOfMonth], [1, 15]);
+        assert.deepEqual([...cron.months], [1, 7]);
+        assert.deepEqual([...cron.daysOfWeek], [1, 2, 3, 4, 5]);
+    });
+
+    it('treats 7 as Sunday', () => {
+        assert.deepEqual([...parseCronExpression('0 0 * * 5-7').daysOfWeek], [5, 6, 0]);
+    });
+
+    it('rejects malformed expressions', () => {
+        assert.throws(() => parseCronExpression('* * *'), /five fields/);
+        assert.throws(() => parseCronExpression('60 * * * *'), /minute field/);
+        assert.throws(() => parseCronExpression('5-1 * * * *'), /minute field/);
+        assert.throws(() => parseCronExpression('*/0 * * * *'), /Invalid step/);
+        assert.throws(() => parseCronExpression('0 0 0 * *'), /day-of-month field/);
+    });
+});
+
+describe('computeNextRun', () => {
+    it('runs cron schedules at the next matching minute, strictly after the given time', () => {
+        assert.equal(nextCron('*/15 * * * *', '2026-03-10T10:07:00Z'), '2026-03-10T10:15:00.000Z');
+        assert.equal(nextCron('*/15 * * * *', '2026-03-10T10:15:00Z'), '2026-03-10T10:30:00.000Z');
+        assert.equal(nextCron('5/20 * * * *', '2026-03-10T10:30:00Z'), '2026-03-10T10:45:00.000Z');
+    });
+
+    it('moves to the next weekday once the last hour of the day has passed', () => {
+        // Friday 17:30 - next is Monday 09:00
+        assert.equal(nextCron('0 9-17/4 * * 1-5', '2026-10-16T17:30:00Z'), '2026-10-19T09:00:00.000Z');
+    });
+
+    it('runs on either day field when both are restricted', () => {
+        // The 13th or any Friday
+        assert.equal(nextCron('0 0 13 * 5', '2026-10-10T12:00:00Z'), '2026-10-13T00:00:00.000Z');
+        assert.equal(nextCron('0 0 13 * 5', '2026-10-13T00:00:00Z'), '2026-10-16T00:00:00.000Z');
+    });
+
+    it('needs both day fields to match when only one is restricted', () => {
+        assert.equal(nextCron('0 0 * * 0', '2026-10-13T00:00:00Z'), '2026-10-18T00:00:00.000Z');
+        assert.equal(nextCron('0 0 * * 7', '2026-10-13T00:00:00Z'), '2026-10-18T00:00:00.000Z');
+        assert.equal(nextCron('0 0 20 * *', '2026-10-13T00:00:00Z'), '2026-10-20T00:00:00.000Z');
+    });
+
+    it('crosses month and year boundaries', () => {
+        // April has no 31st
+        assert.equal(nextCron('30 23 31 * *', '2026-04-15T00:00:00Z'), '2026-05-31T23:30:00.000Z');
+        assert.equal(nextCron('0 0 1 1 *', '2026-12-31T23:59:00Z'), '2027-01-01T00:00:00.000Z');
+        assert.equal(nextCron('0 0 1 1 *', '2027-01-01T00:00:00Z'), '2028-01-01T00:00:00.000Z');
+        assert.equal(nextCron('0 12 29 2 *', '2026-03-01T00:00:00Z'), '2028-02-29T12:00:00.000Z');
+    });
+
+    it('rejects cron expressions that never match', () => {
+        assert.throws(() => nextCron('0 0 30 2 *', '2026-03-01T00:00:00Z'), /does not match any time/);
+    });
+
+    it('runs weekly schedules on the next matching day', () => {
+        const weekly = schedule({ frequency: 'weekly', dayOfWeek: 1, hour: 6, minute: 30 });
+
+        assert.equal(computeNextRun(weekly, new Date('2026-10-18T23:00:00Z')).toISOString(), '2026-10-19T06:30:00.000Z');
+        assert.equal(computeNextRun(weekly, new Date('2026-10-19T06:30:00Z')).toISOString(), '2026-10-26T06:30:00.000Z');
+        assert.equal(computeNextRun(weekly, new Date('2026-12-29T00:00:00Z')).toISOString(), '2027-01-04T06:30:00.000Z');
+    });
+
+    it('runs monthly schedules in the next month once the day has passed', () => {
+        const monthly = schedule({ frequency: 'monthly', dayOfMonth: 28, hour: 0, minute: 0 });
+
+        assert.equal(computeNextRun(monthly, new Date('2026-01-31T00:00:00Z')).toISOString(), '2026-02-28T00:00:00.000Z');
+        assert.equal(computeNextRun(monthly, new Date('2026-12-28T00:00:00Z')).toISOString(), '2027-01-28T00:00:00.000Z');
+    });
+});
+
+describe('normalizeScheduleInput', () => {
+    it('reports invalid cron expressions', () => {
+        const { input, errors } = normalizeScheduleInput({ frequency: 'cron', cronExpression: '0 25 * * *' }, ['license']);
+
+        assert.equal(input, undefined);
+        assert.match(errors[0], /hour field/);
+    });
+});
+
+describe('runScheduledAssessment', () => {
+    let customer: Customer;
+
+    before(async () => {
+        await initializeDataService(context);
+        customer = await dataService.createCustomer({ tenantName: 'Contoso', tenantDomain: 'contoso.example', tenantId: 'tenant-1' }, null);
+    });
+
+    async function queuedSchedule() {
+        const created = await dataService.createAssessmentSchedule(customer.id, schedule({ frequency: 'weekly', dayOfWeek: 1 }), new Date().toISOString());
+        return queueScheduledAssessment(created);
+    }
+
+    it('runs a queued schedule once when the message is delivered again', async () => {
+        const message = await queuedSchedule();
+
+        const first = await runScheduledAssessment(message, context);
+        const second = await runScheduledAssessment(message, context);
+
+        assert.equal(first?.lastRunStatus, 'succeeded');
+        assert.equal(second, null);
+        const { assessments } = await dataService.getAssessments({ customerId: customer.id });
+        assert.deepEqual(assessments.map(assessment => assessment.id), [first?.lastAssessmentId]);
+    });
+
+    it('skips a redelivered message while the first delivery is still running', async () => {
+        const message = await queuedSchedule();
+        const { total } = await dataService.getAssessments({ customerId: customer.id });
+        await dataService.updateAssessmentSchedule(message.scheduleId, { lastRunStatus: 'running' });
+
+        assert.equal(await runScheduledAssessment(message, context), null);
+        assert.equal((await dataService.getAssessments({ customerId: customer.id })).total, total);
+        assert.equal((await dataService.getAssessmentSchedule(message.scheduleId))?.lastRunStatus, 'running');
+    });
+});
@@ -0,0 +1,52 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { HttpRequest, InvocationContext } from "@azure/functions";
+import { AuditWriteError, recordAudit } from "../shared/audit";
+import { dataService, initializeDataService } from "../shared/utils";
+
+process.env.DATA_STORE = 'memory';
+
+const context = new InvocationContext({ functionName: 'customer-branding' });
+
+const request = new HttpRequest({
+    method: 'PUT',
+    url: 'http://localhost/api/customers/customer-1/branding',
+    headers: { 'x-forwarded-for': '203.0.113.7:51234' }
+});
+
+describe('recordAudit', () => {
+    before(async () => {
+        await initializeDataService(context);
+    });
+
+    it('writes the event with credentials redacted', async () => {
+        await recordAudit(request, context, {
+            action: 'customer.update',
+            targetType: 'customer',
+            targetId: 'customer-1',
+            customerId: 'customer-1',
+            before: { appRegistration: { clientId: 'app-1', clientSecret: 'old-secret' } },
+            after: { appRegistration: { clientId: 'app-1', clientSecret: 'new-secret' } },
+            actor: 'consent:tenant-1'
+        });
+
+        const { entries } = await dataService.getAuditLog({ action: 'customer.update' });
+        assert.equal(entries.length, 1);
+        assert.equal(entries[0].actor, 'consent:tenant-1');
+        assert.equal(entries[0].sourceIp, '203.0.113.7');
+        assert.deepEqual(entries[0].after, { appRegistration: { clientId: 'app-1', clientSecret: '[redacted]' } });
+    });
+
+    it('fails when the entry cannot be written', async () => {
+        const original = dataService.recordAuditEvent;
+        dataService.recordAuditEvent = async () => { throw new Error('database unavailable'); };
+        try {
+            await assert.rejects(
+                recordAudit(request, context, { action: 'customer.update', targetType: 'customer', targetId: 'customer-1' }),
+                (error: any) => error instanceof AuditWriteError && /database unavailable/.test(error.message)
+            );
+        } finally {
+            dataService.recordAuditEvent = original;
+        }
+    });
+});
@@ -0,0 +1,127 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ConditionalAccessPolicy } from "@microsoft/microsoft-graph-types";
+import { evaluateBenchmark, evaluateCisBenchmark, getBenchmarkInputs } from "../shared/compliance";
+import { Benchmark } from "../shared/compliance/types";
+
+function policy(displayName: string, overrides: Partial<ConditionalAccessPolicy> = {}): ConditionalAccessPolicy {
+    return {
+        id: displayName.toLowerCase().replace(/\s+/g, '-'),
+        displayName,
+        state: 'enabled',
+        conditions: {
+            users: { includeUsers: ['All'], excludeUsers: [], excludeGroups: [], excludeRoles: [] },
+            applications: { includeApplications: ['All'] },
+            clientAppTypes: ['all']
+        },
+        grantControls: { operator: 'OR', builtInControls: ['mfa'] },
+        ...overrides
+    };
+}
+
+const controlOf = (result: ReturnType<typeof evaluateCisBenchmark>, controlId: string) =>
+    result.controls.find(control => control.controlId === controlId)!;
+
+describe('evaluateCisBenchmark', () => {
+    it('passes Conditional Access controls only for enabled policies', () => {
+        const result = evaluateCisBenchmark({
+            policyConfiguration: {
+                conditionalAccessPolicies: [
+                    policy('Require MFA for all users'),
+                    policy('Block legacy authentication', {
+                        state: 'enabledForReportingButNotEnforced',
+                        conditions: {
+                            users: { includeUsers: ['All'] },
+                            applications: { includeApplications: ['All'] },
+                            clientAppTypes: ['exchangeActiveSync', 'other']
+                        },
+                        grantControls: { operator: 'OR', builtInControls: ['block'] }
+                    })
+                ],
+                authenticationMethods: []
+            }
+        });
+
+        assert.equal(controlOf(result, '5.2.2.2').result, 'pass');
+        // Includes all users, so Global Administrators are covered too
+        assert.equal(controlOf(result, '5.2.2.1').result, 'pass');
+        assert.equal(controlOf(result, '5.2.2.3').result, 'fail');
+        assert.match(controlOf(result, '5.2.2.3').details, /only report-only policies found \(Block legacy authentication\)/);
+    });
+
+    it('maps Secure Score control states to pass and fail', () => {
+        const result = evaluateCisBenchmark({
+            secureScore: {
+                controlScores: [
+                    { controlName: 'OneAdmin', implementationStatus: 'Implemented', currentScore: 1, maxScore: 1 },
+                    { controlName: 'mdo_safelinksforemail', implementationStatus: 'Partial', currentScore: 3, maxScore: 9 }
+                ]
+            }
+        });
+
+        assert.equal(controlOf(result, '1.1.3').result, 'pass');
+        // Any of the listed Secure Score names can report the state
+        assert.equal(controlOf(result, '2.1.1').result, 'fail');
+        assert.deepEqual(controlOf(result, '2.1.1').evidence, { secureScoreControl: 'mdo_safelinksforemail', currentScore: 3, maxScore: 9 });
+        assert.equal(controlOf(result, '1.3.6').result, 'manual');
+    });
+
+    it('fails the weak authentication methods control while SMS is enabled', () => {
+        const result = evaluateCisBenchmark({
+            policyConfiguration: {
+                conditionalAccessPolicies: [],
+                authenticationMethods: [
+                    { type: 'sms', displayName: 'SMS', state: 'Enabled' },
+                    { type: 'microsoftAuthenticator', displayName: 'Microsoft Authenticator', state: 'Enabled' }
+                ]
+            }
+        });
+
+        assert.equal(controlOf(result, '5.2.3.5').result, 'fail');
+        assert.deepEqual(controlOf(result, '5.2.3.5').evidence, { enabledMethods: ['SMS'] });
+        assert.equal(controlOf(result, '5.2.3.1').result, 'manual');
+    });
+
+    it('falls back to manual checks for categories that were not collected', () => {
+        const result = evaluateCisBenchmark({ policyConfiguration: { error: 'Forbidden' }, secureScore: { skipped: true } });
+
+        assert.equal(result.passed + result.failed, 0);
+        assert.equal(result.manual, result.controls.length);
+        assert.equal(result.percentage, null);
+    });
+});
+
+describe('evaluateBenchmark', () => {
+    it('counts only automatically evaluated controls in the percentage', () => {
+        const benchmark: Benchmark = {
+            id: 'test',
+            name: 'Test benchmark',
+            version: '1.0',
+            controls: [
+                { id: '1', title: 'Passes', section: 'A', level: 1, evaluate: () => ({ result: 'pass', details: '' }) },
+                { id: '2', title: 'Passes too', section: 'A', level: 1, evaluate: () => ({ result: 'pass', details: '' }) },
+                { id: '3', title: 'Fails', section: 'A', level: 2, evaluate: () => ({ result: 'fail', details: '' }) },
+                { id: '4', title: 'Manual', section: 'B', level: 1, evaluate: () => ({ result: 'manual', details: '' }) },
+                {
+                    id: '5', title: 'Throws', section: 'B', level: 1, evaluate: () => {
+                        throw new Error('unexpected shape');
+                    }
+                }
+            ]
+        };
+
+        const result = evaluateBenchmark(benchmark, {});
+
+        assert.deepEqual([result.passed, result.failed, result.manual, result.percentage], [2, 1, 2, 67]);
+        assert.match(result.controls[4].details, /Automatic evaluation failed: unexpected shape/);
+    });
+});
+
+describe('getBenchmarkInputs', () => {
+    it('passes usable collector results through and the rest as null', () => {
+        const inputs = getBenchmarkInputs({ policyConfiguration: { conditionalAccessPolicies: [], authenticationMethods: [] }, secureScore: {} });
+
+        assert.deepEqual(inputs, { conditionalAccessPolicies: [], authenticationMethods: [], secureScoreControls: [] });
+        assert.deepEqual(getBenchmarkInputs({}), { conditionalAccessPolicies: null, authenticationMethods: null, secureScoreControls: null });
+    });
+});
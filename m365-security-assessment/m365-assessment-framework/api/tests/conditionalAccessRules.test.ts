@@ -0,0 +1,147 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ConditionalAccessPolicy } from "@microsoft/microsoft-graph-types";
+import { ADMIN_ROLES, analyzeConditionalAccess } from "../shared/conditionalAccess";
+import {
+    adminMfaCoverageRule,
+    broadExclusionsRule,
+    legacyAuthenticationRule,
+    reportOnlyPoliciesRule,
+    signInRiskPolicyRule
+} from "../shared/findings/conditionalAccessRules";
+import { RuleMatch } from "../shared/findings/types";
+
+function policy(displayName: string, overrides: Partial<ConditionalAccessPolicy> = {}): ConditionalAccessPolicy {
+    return {
+        id: displayName.toLowerCase().replace(/\s+/g, '-'),
+        displayName,
+        state: 'enabled',
+        conditions: {
+            users: { includeUsers: ['All'], excludeUsers: [], includeGroups: [], excludeGroups: [], includeRoles: [], excludeRoles: [] },
+            applications: { includeApplications: ['All'], excludeApplications: [] },
+            clientAppTypes: ['all']
+        },
+        grantControls: { operator: 'OR', builtInControls: ['mfa'] },
+        ...overrides
+    };
+}
+
+const blockLegacyAuthentication = policy('Block legacy authentication', {
+    conditions: {
+        users: { includeUsers: ['All'], excludeUsers: [], excludeGroups: [], excludeRoles: [] },
+        applications: { includeApplications: ['All'] },
+        clientAppTypes: ['exchangeActiveSync', 'other']
+    },
+    grantControls: { operator: 'OR', builtInControls: ['block'] }
+});
+
+const requireMfaForAdmins = policy('Require MFA for administrators', {
+    conditions: {
+        users: { includeUsers: [], includeRoles: Object.keys(ADMIN_ROLES), excludeUsers: [], excludeGroups: [], excludeRoles: [] },
+        applications: { includeApplications: ['All'] },
+        clientAppTypes: ['all']
+    }
+});
+
+const signInRisk = policy('MFA for risky sign-ins', {
+    conditions: {
+        users: { includeUsers: ['All'], excludeUsers: [], excludeGroups: [], excludeRoles: [] },
+        applications: { includeApplications: ['All'] },
+        clientAppTypes: ['all'],
+        signInRiskLevels: ['high', 'medium']
+    }
+});
+
+const asArray = (result: RuleMatch | RuleMatch[] | null): RuleMatch[] =>
+    result ? (Array.isArray(result) ? result : [result]) : [];
+
+describe('Conditional Access finding rules', () => {
+    it('reports every tenant-wide gap when there are no policies', () => {
+        const analysis = analyzeConditionalAccess([]);
+
+        assert.ok(legacyAuthenticationRule.evaluate(analysis));
+        assert.equal(asArray(adminMfaCoverageRule.evaluate(analysis))[0].severity, 'critical');
+        assert.ok(signInRiskPolicyRule.evaluate(analysis));
+        assert.deepEqual(asArray(broadExclusionsRule.evaluate(analysis)), []);
+        assert.equal(reportOnlyPoliciesRule.evaluate(analysis), null);
+    });
+
+    it('finds nothing for a tenant that blocks legacy auth, requires admin MFA and acts on sign-in risk', () => {
+        const analysis = analyzeConditionalAccess([blockLegacyAuthentication, requireMfaForAdmins, signInRisk]);
+
+        assert.equal(legacyAuthenticationRule.evaluate(analysis), null);
+        assert.equal(adminMfaCoverageRule.evaluate(analysis), null);
+        assert.equal(signInRiskPolicyRule.evaluate(analysis), null);
+        assert.deepEqual(asArray(broadExclusionsRule.evaluate(analysis)), []);
+        assert.equal(reportOnlyPoliciesRule.evaluate(analysis), null);
+    });
+
+    it('lists the admin roles an MFA policy leaves out', () => {
+        const [globalAdministrator, ...otherRoles] = Object.keys(ADMIN_ROLES);
+        const analysis = analyzeConditionalAccess([policy('Require MFA for some admins', {
+            conditions: {
+                users: { includeRoles: otherRoles, excludeRoles: [] },
+                applications: { includeApplications: ['All'] },
+                clientAppTypes: ['all']
+            }
+        })]);
+
+        const [match] = asArray(adminMfaCoverageRule.evaluate(analysis));
+        assert.deepEqual(match.affectedResources, [ADMIN_ROLES[globalAdministrator]]);
+        assert.equal(match.severity, 'critical');
+    });
+
+    it('does not count a legacy auth block that only covers some users', () => {
+        const analysis = analyzeConditionalAccess([policy('Block legacy authentication for pilot', {
+            conditions: {
+                users: { includeUsers: [], includeGroups: ['pilot-group'] },
+                applications: { includeApplications: ['All'] },
+                clientAppTypes: ['exchangeActiveSync', 'other']
+            },
+            grantControls: { operator: 'OR', builtInControls: ['block'] }
+        })]);
+
+        const [match] = asArray(legacyAuthenticationRule.evaluate(analysis));
+        assert.deepEqual(match.affectedResources, ['Block legacy authentication for pilot']);
+        assert.match(match.description, /only blocked for some users/);
+    });
+
+    it('reports one finding per enabled policy with broad exclusions', () => {
+        const analysis = analyzeConditionalAccess([
+            policy('All users MFA', {
+                conditions: {
+                    users: { includeUsers: ['All'], excludeGroups: ['group-1', 'group-2'], excludeUsers: [], excludeRoles: [] },
+                    applications: { includeApplications: ['All'] },
+                    clientAppTypes: ['all']
+                }
+            }),
+            policy('Disabled with exclusions', {
+                state: 'disabled',
+                conditions: {
+                    users: { includeUsers: ['All'], excludeGroups: ['group-3'] },
+                    applications: { includeApplications: ['All'] }
+                }
+            }),
+            policy('Break-glass only', {
+                conditions: {
+                    users: { includeUsers: ['All'], excludeUsers: ['break-glass-1', 'break-glass-2'] },
+                    applications: { includeApplications: ['All'] }
+                }
+            })
+        ]);
+
+        const matches = asArray(broadExclusionsRule.evaluate(analysis));
+        assert.deepEqual(matches.map(match => match.resource), ['All users MFA']);
+        assert.equal(matches[0].evidence?.excludedGroups, 2);
+    });
+
+    it('reports report-only policies by name', () => {
+        const analysis = analyzeConditionalAccess([
+            policy('Block legacy authentication (pilot)', { state: 'enabledForReportingButNotEnforced' }),
+            signInRisk
+        ]);
+
+        const matches = asArray(reportOnlyPoliciesRule.evaluate(analysis));
+        assert.deepEqual(matches.map(match => match.resource), ['Block legacy authentication (pilot)']);
+    });
+});
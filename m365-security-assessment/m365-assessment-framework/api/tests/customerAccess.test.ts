@@ -0,0 +1,64 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { HttpRequest, InvocationContext } from "@azure/functions";
+import { isRequestInAssignmentScope } from "../shared/customerAccess";
+import { dataService, initializeDataService } from "../shared/utils";
+import { AuthenticatedUser, Customer } from "../shared/types";
+
+process.env.DATA_STORE = 'memory';
+
+const consultant: AuthenticatedUser = {
+    id: 'consultant-1',
+    name: 'consultant@contoso.com',
+    role: 'consultant',
+    source: 'static-web-apps',
+    objectId: 'consultant-object-id'
+};
+
+const context = new InvocationContext({ functionName: 'assessment-history' });
+
+const postHistory = (body: any) => new HttpRequest({
+    method: 'POST',
+    url: 'http://localhost/api/assessment-history',
+    body: { string: JSON.stringify(body) }
+});
+
+describe('assignment scope of assessment-history POST', () => {
+    let assigned: Customer;
+    let other: Customer;
+    let otherAssessmentId: string;
+
+    before(async () => {
+        await initializeDataService(context);
+        assigned = await dataService.createCustomer({ tenantName: 'Assigned', tenantDomain: 'assigned.example', tenantId: 'tenant-assigned' }, null);
+        other = await dataService.createCustomer({ tenantName: 'Other', tenantDomain: 'other.example', tenantId: 'tenant-other' }, null);
+        await dataService.assignCustomer(assigned.id, consultant.objectId!, consultant.name, 'admin@contoso.com');
+        otherAssessmentId = (await dataService.createAssessment({ customerId: other.id, tenantId: other.tenantId, score: 50, metrics: {} })).id;
+    });
+
+    it('allows history of an assigned customer', async () => {
+        const request = postHistory({ assessmentId: 'a-1', customerId: assigned.id, tenantId: assigned.tenantId });
+        assert.equal(await isRequestInAssignmentScope(consultant, 'assessment-history', request, context), true);
+    });
+
+    it('rejects history naming another customer', async () => {
+        const request = postHistory({ assessmentId: 'a-1', customerId: other.id, tenantId: other.tenantId });
+        assert.equal(await isRequestInAssignmentScope(consultant, 'assessment-history', request, context), false);
+    });
+
+    it('rejects history that names only the tenant of another customer', async () => {
+        const request = postHistory({ assessmentId: 'a-1', tenantId: other.tenantId });
+        assert.equal(await isRequestInAssignmentScope(consultant, 'assessment-history', request, context), false);
+    });
+
+    it('rejects history for an assessment of another customer', async () => {
+        const request = postHistory({ assessmentId: otherAssessmentId, customerId: assigned.id, tenantId: assigned.tenantId });
+        assert.equal(await isRequestInAssignmentScope(consultant, 'assessment-history', request, context), false);
+    });
+
+    it('leaves the body readable for the handler', async () => {
+        const request = postHistory({ assessmentId: 'a-1', customerId: assigned.id, tenantId: assigned.tenantId });
+        await isRequestInAssignmentScope(consultant, 'assessment-history', request, context);
+        assert.equal((await request.json() as any).customerId, assigned.id);
+    });
+});
@@ -0,0 +1,88 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { evaluateFindings, getFindingKey, registerRule, summarizeFindings } from "../shared/findings/engine";
+import { FindingRule } from "../shared/findings/types";
+
+function rule(id: string, resultKey: string, evaluate: FindingRule['evaluate'], fields: Partial<FindingRule> = {}): FindingRule {
+    return {
+        id,
+        category: 'identity',
+        severity: 'medium',
+        title: id,
+        remediation: `Fix ${id}`,
+        resultKey,
+        recommendation: { title: id, description: id, priority: 'medium', effort: 'low', impact: 'Medium', implementationSteps: [] },
+        evaluate,
+        ...fields
+    };
+}
+
+describe('evaluateFindings', () => {
+    before(() => {
+        registerRule(rule('low-mfa', 'identityMetrics', data => data.mfaCoverage < 90
+            ? { description: `${data.mfaCoverage}% MFA coverage`, affectedResources: [], severity: data.mfaCoverage < 50 ? 'critical' : undefined }
+            : null));
+        registerRule(rule('stale-devices', 'endpointMetrics', data => data.stale.map((device: string) => ({
+            resource: device,
+            description: `${device} has not checked in`,
+            affectedResources: [device]
+        })), { category: 'endpoint', severity: 'low' }));
+        registerRule(rule('broken', 'secureScore', () => {
+            throw new Error('unexpected shape');
+        }));
+    });
+
+    it('rejects rule ids that are already registered', () => {
+        assert.throws(() => registerRule(rule('low-mfa', 'identityMetrics', () => null)), /already registered/);
+    });
+
+    it('produces one finding per match, keyed by rule and resource, sorted by severity', () => {
+        const evaluation = evaluateFindings({
+            identityMetrics: { mfaCoverage: 40 },
+            endpointMetrics: { stale: ['laptop-1', 'laptop-2'] },
+            secureScore: { percentage: 50 }
+        });
+
+        assert.deepEqual(evaluation.findings.map(f => [f.findingKey, f.severity]), [
+            ['low-mfa:tenant', 'critical'],
+            ['stale-devices:laptop-1', 'low'],
+            ['stale-devices:laptop-2', 'low']
+        ]);
+        assert.deepEqual(evaluation.findings[1].affectedResources, ['laptop-1']);
+        assert.deepEqual(evaluation.recommendations.map(r => [r.id, r.category]), [['low-mfa', 'identity'], ['stale-devices', 'endpoint']]);
+        assert.deepEqual(evaluation.evaluatedRules, ['low-mfa', 'stale-devices']);
+        assert.deepEqual(evaluation.skippedRules, ['broken']);
+    });
+
+    it('counts rules that pass as evaluated without findings or recommendations', () => {
+        const evaluation = evaluateFindings({ identityMetrics: { mfaCoverage: 95 }, endpointMetrics: { stale: [] } });
+
+        assert.deepEqual(evaluation.findings, []);
+        assert.deepEqual(evaluation.recommendations, []);
+        assert.deepEqual(evaluation.evaluatedRules, ['low-mfa', 'stale-devices']);
+    });
+
+    it('skips rules whose collector result is missing, skipped, unavailable or failed', () => {
+        for (const identityMetrics of [undefined, { skipped: true }, { unavailable: true }, { error: 'Forbidden', mfaCoverage: 0 }]) {
+            const evaluation = evaluateFindings({ identityMetrics, endpointMetrics: { stale: ['laptop-1'] } });
+
+            assert.deepEqual(evaluation.skippedRules, ['low-mfa', 'broken']);
+            assert.deepEqual(evaluation.findings.map(f => f.ruleId), ['stale-devices']);
+        }
+    });
+});
+
+describe('summarizeFindings', () => {
+    it('counts findings per severity', () => {
+        const { findings } = evaluateFindings({ identityMetrics: { mfaCoverage: 70 }, endpointMetrics: { stale: ['a', 'b'] } });
+
+        assert.deepEqual(summarizeFindings(findings), { total: 3, bySeverity: { critical: 0, high: 0, medium: 1, low: 2 } });
+    });
+});
+
+describe('getFindingKey', () => {
+    it('keys tenant-wide findings by the rule id', () => {
+        assert.equal(getFindingKey('low-mfa'), 'low-mfa:tenant');
+        assert.equal(getFindingKey('stale-devices', 'laptop-1'), 'stale-devices:laptop-1');
+    });
+});
@@ -0,0 +1,200 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { InvocationContext } from "@azure/functions";
+import { applyFindingLifecycle, compareFindings } from "../shared/findings/lifecycle";
+import { dataService, initializeDataService } from "../shared/utils";
+import { FindingException, SecurityFinding } from "../shared/types";
+
+process.env.DATA_STORE = 'memory';
+
+const context = new InvocationContext({ logHandler: () => undefined });
+const now = new Date('2026-10-18T12:00:00Z');
+
+function finding(ruleId: string, resource = 'tenant', fields: Partial<SecurityFinding> = {}): SecurityFinding {
+    return {
+        id: `${ruleId}-${resource}`,
+        ruleId,
+        findingKey: `${ruleId}:${resource}`,
+        category: 'identity',
+        severity: 'high',
+        title: ruleId,
+        description: `${ruleId} on ${resource}`,
+        affectedResources: [resource],
+        remediation: '',
+        evidence: {},
+        status: 'open',
+        ...fields
+    };
+}
+
+const resolvedMarker = (ruleId: string, resource?: string): SecurityFinding =>
+    finding(ruleId, resource, { lifecycle: 'resolved', status: 'resolved' });
+
+function lifecycleOf(findings: SecurityFinding[]): Record<string, string | undefined> {
+    return Object.fromEntries(findings.map(f => [f.findingKey as string, f.lifecycle]));
+}
+
+describe('applyFindingLifecycle', () => {
+    it('reports every finding of the first assessment as new', () => {
+        const findings = applyFindingLifecycle({
+            current: [finding('mfa-coverage'), finding('stale-guest', 'guest@contoso.example')],
+            latest: [],
+            firstSeen: new Map(),
+            evaluatedRules: ['mfa-coverage', 'stale-guest'],
+            exceptions: [],
+            now
+        });
+
+        assert.deepEqual(lifecycleOf(findings), { 'mfa-coverage:tenant': 'new', 'stale-guest:guest@contoso.example': 'new' });
+        assert.ok(findings.every(f => f.status === 'open' && f.firstSeenAt === now));
+    });
+
+    it('keeps the first-seen date of persisting findings', () => {
+        const firstSeenAt = new Date('2026-01-05T00:00:00Z');
+        const [persisting] = applyFindingLifecycle({
+            current: [finding('mfa-coverage')],
+            latest: [finding('mfa-coverage', 'tenant', { lifecycle: 'new' })],
+            firstSeen: new Map([['mfa-coverage:tenant', firstSeenAt]]),
+            evaluatedRules: ['mfa-coverage'],
+            exceptions: [],
+            now
+        });
+
+        assert.equal(persisting.lifecycle, 'persisting');
+        assert.equal(persisting.firstSeenAt, firstSeenAt);
+    });
+
+    it('adds resolved markers only for findings whose rule ran', () => {
+        const findings = applyFindingLifecycle({
+            current: [],
+            latest: [finding('mfa-coverage'), finding('secure-score-low')],
+            firstSeen: new Map(),
+            evaluatedRules: ['mfa-coverage'],
+            exceptions: [],
+            now
+        });
+
+        assert.equal(findings.length, 1);
+        assert.equal(findings[0].findingKey, 'mfa-coverage:tenant');
+        assert.equal(findings[0].lifecycle, 'resolved');
+        assert.equal(findings[0].status, 'resolved');
+        assert.notEqual(findings[0].id, 'mfa-coverage-tenant');
+    });
+
+    it('does not resolve a finding again once it is resolved', () => {
+        const findings = applyFindingLifecycle({
+            current: [],
+            latest: [resolvedMarker('mfa-coverage')],
+            firstSeen: new Map(),
+            evaluatedRules: ['mfa-coverage'],
+            exceptions: [],
+            now
+        });
+
+        assert.deepEqual(findings, []);
+    });
+
+    it('reports findings that come back after being resolved as regressed', () => {
+        const findings = applyFindingLifecycle({
+            current: [finding('mfa-coverage')],
+            latest: [resolvedMarker('mfa-coverage')],
+            firstSeen: new Map([['mfa-coverage:tenant', new Date('2026-01-05T00:00:00Z')]]),
+            evaluatedRules: ['mfa-coverage'],
+            exceptions: [],
+            now
+        });
+
+        assert.deepEqual(lifecycleOf(findings), { 'mfa-coverage:tenant': 'regressed' });
+    });
+
+    it('keeps findings of a rule skipped in the previous run persisting', () => {
+        // Recorded by an older assessment - the identity collector failed in the previous one
+        const findings = applyFindingLifecycle({
+            current: [finding('mfa-coverage')],
+            latest: [finding('mfa-coverage', 'tenant', { lifecycle: 'new' })],
+            firstSeen: new Map([['mfa-coverage:tenant', new Date('2026-01-05T00:00:00Z')]]),
+            evaluatedRules: ['mfa-coverage'],
+            exceptions: [],
+            now
+        });
+
+        assert.deepEqual(lifecycleOf(findings), { 'mfa-coverage:tenant': 'persisting' });
+    });
+
+    it('marks findings with an active exception acknowledged', () => {
+        const exception = (findingKey: string, fields: Partial<FindingException> = {}): FindingException => ({
+            id: `exception-${findingKey}`,
+            customerId: 'customer-1',
+            findingKey,
+            type: 'risk-accepted',
+            justification: 'Break-glass account',
+            expiresAt: new Date('2027-01-01T00:00:00Z'),
+            createdBy: 'admin@contoso.example',
+            createdAt: new Date('2026-10-01T00:00:00Z'),
+            ...fields
+        });
+
+        const findings = applyFindingLifecycle({
+            current: [finding('admin-mfa', 'a'), finding('admin-mfa', 'b'), finding('admin-mfa', 'c')],
+            latest: [],
+            firstSeen: new Map(),
+            evaluatedRules: ['admin-mfa'],
+            exceptions: [
+                exception('admin-mfa:a'),
+                exception('admin-mfa:b', { expiresAt: new Date('2026-10-01T00:00:00Z') }),
+                exception('admin-mfa:c', { revokedAt: new Date('2026-10-10T00:00:00Z') })
+            ],
+            now
+        });
+
+        assert.deepEqual(findings.map(f => f.status), ['acknowledged', 'open', 'open']);
+        assert.equal(findings[0].exception?.id, 'exception-admin-mfa:a');
+    });
+});
+
+describe('compareFindings', () => {
+    it('splits the churn between two assessments by finding key', () => {
+        const from = [finding('mfa-coverage'), finding('stale-guest', 'a'), resolvedMarker('secure-score-low')];
+        const to = [
+            finding('mfa-coverage', 'tenant', { lifecycle: 'persisting' }),
+            finding('stale-guest', 'b', { lifecycle: 'new' }),
+            finding('secure-score-low', 'tenant', { lifecycle: 'regressed' }),
+            resolvedMarker('stale-guest', 'a')
+        ];
+
+        const churn = compareFindings(from, to);
+
+        assert.deepEqual(churn.summary, { new: 1, regressed: 1, persisting: 1, resolved: 1 });
+        assert.equal(churn.new[0].findingKey, 'stale-guest:b');
+        assert.equal(churn.regressed[0].findingKey, 'secure-score-low:tenant');
+        assert.equal(churn.persisting[0].findingKey, 'mfa-coverage:tenant');
+        assert.equal(churn.resolved[0].findingKey, 'stale-guest:a');
+    });
+});
+
+describe('getLatestFindings', () => {
+    before(async () => {
+        await initializeDataService(context);
+    });
+
+    it('returns the latest record of each key across earlier completed assessments', async () => {
+        const customer = await dataService.createCustomer({ tenantName: 'Contoso', tenantDomain: 'contoso.example', tenantId: 'tenant-1' }, null);
+        const assess = async (findings: SecurityFinding[], status = 'completed') => {
+            // Assessments are ordered by creation time
+            await new Promise(resolve => setTimeout(resolve, 5));
+            const assessment = await dataService.createAssessment({ customerId: customer.id, tenantId: customer.tenantId, status, metrics: {} });
+            await dataService.storeFindings(assessment, findings);
+            return assessment;
+        };
+
+        await assess([finding('mfa-coverage', 'tenant', { lifecycle: 'new' }), finding('stale-guest', 'a', { lifecycle: 'new' })]);
+        // The identity rules were skipped, only the guest finding was resolved
+        await assess([resolvedMarker('stale-guest', 'a')]);
+        await assess([finding('stale-guest', 'a', { lifecycle: 'regressed' })], 'failed');
+        const current = await assess([]);
+
+        const latest = await dataService.getLatestFindings(customer.id, current.id, new Date());
+
+        assert.deepEqual(lifecycleOf(latest), { 'mfa-coverage:tenant': 'new', 'stale-guest:a': 'resolved' });
+    });
+});
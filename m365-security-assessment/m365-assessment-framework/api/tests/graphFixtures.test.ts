@@ -0,0 +1,58 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildSyntheticTenant, GraphFixtureSanitizer, replayGraphRequest } from "../shared/graphFixtures";
+
+describe('GraphFixtureSanitizer', () => {
+    it('redacts job details and IP addresses', () => {
+        const sanitized = new GraphFixtureSanitizer().sanitize({
+            value: [{
+                id: '6f1c2a4e-8d3b-4c1f-9a7e-2b5d8c0e4f13',
+                userPrincipalName: 'jane.doe@contoso.com',
+                displayName: 'Jane Doe',
+                jobTitle: 'Chief Financial Officer',
+                department: 'Finance',
+                signInActivity: { ipAddress: '198.51.100.23' }
+            }]
+        });
+
+        const [user] = sanitized.value;
+        assert.equal(user.displayName, 'User 1');
+        assert.equal(user.jobTitle, '[redacted]');
+        assert.equal(user.department, '[redacted]');
+        assert.equal(user.signInActivity.ipAddress, '[redacted]');
+    });
+
+    it('names policies, groups and locations by their kind', () => {
+        const sanitizer = new GraphFixtureSanitizer();
+        const [policy] = sanitizer.sanitize([{ displayName: 'Contoso - block Fabrikam contractors', state: 'enabled', conditions: {}, grantControls: null }]);
+        const [group] = sanitizer.sanitize([{ displayName: 'Contoso Finance', groupTypes: [], securityEnabled: true }]);
+        const [location] = sanitizer.sanitize([{
+            '@odata.type': '#microsoft.graph.ipNamedLocation',
+            displayName: 'Contoso HQ',
+            ipRanges: [{ '@odata.type': '#microsoft.graph.iPv4CidrRange', cidrAddress: '203.0.113.0/24' }]
+        }]);
+
+        assert.equal(policy.displayName, 'Policy 1');
+        assert.equal(group.displayName, 'Group 1');
+        assert.equal(location.displayName, 'Location 1');
+        assert.equal(location.ipRanges[0].cidrAddress, '[redacted]');
+    });
+
+    it('keeps the names of built-in roles', () => {
+        const [role] = new GraphFixtureSanitizer().sanitize([{
+            displayName: 'Global Administrator',
+            roleTemplateId: '62e90394-69f5-4237-9190-012177145e10'
+        }]);
+        assert.equal(role.displayName, 'Global Administrator');
+    });
+});
+
+describe('buildSyntheticTenant', () => {
+    it('answers the PIM schedule reads as a tenant without Entra ID P2', () => {
+        const fixture = buildSyntheticTenant('pim', { users: 5, admins: 1 });
+        const reply = replayGraphRequest(fixture, 'GET', 'https://graph.microsoft.com/v1.0/roleManagement/directory/roleAssignmentSchedules?$expand=principal,roleDefinition');
+
+        assert.equal(reply.status, 400);
+        assert.equal(reply.body.error.code, 'AadPremiumLicenseRequired');
+    });
+});
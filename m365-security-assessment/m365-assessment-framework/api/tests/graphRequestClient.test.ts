@@ -0,0 +1,173 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Client, Context, Middleware } from "@microsoft/microsoft-graph-client";
+import { getActiveGraphLimiterCount, getRetryDelayMs, GraphRequestClient } from "../shared/graphRequestClient";
+
+interface StubReply {
+    status?: number;
+    body?: any;
+    headers?: Record<string, string>;
+}
+
+interface StubRequest {
+    method: string;
+    /** Path and query without the API version, e.g. /users?$top=999 */
+    url: string;
+    body?: any;
+}
+
+/**
+ * Stands in for fetch at the end of the Graph client's middleware chain
+ */
+class StubFetch implements Middleware {
+    requests: StubRequest[] = [];
+
+    constructor(private reply: (request: StubRequest) => StubReply | Promise<StubReply>) {}
+
+    async execute(context: Context): Promise<void> {
+        const url = typeof context.request === 'string' ? context.request : context.request.url;
+        const body = typeof context.options?.body === 'string' ? JSON.parse(context.options.body) : undefined;
+        const request = { method: (context.options?.method || 'GET').toUpperCase(), url: url.replace(/^https:\/\/graph\.microsoft\.com\/v1\.0/, ''), body };
+        this.requests.push(request);
+
+        const reply = await this.reply(request);
+        context.response = new Response(JSON.stringify(reply.body ?? {}), {
+            status: reply.status ?? 200,
+            headers: { 'Content-Type': 'application/json', ...(reply.headers || {}) }
+        });
+    }
+}
+
+function graphClient(fetch: StubFetch, options: { maxConcurrency?: number; maxRetries?: number } = {}): GraphRequestClient {
+    return new GraphRequestClient(Client.initWithMiddleware({ middleware: fetch }), 'tenant-1', { maxRetries: 3, ...options });
+}
+
+const throttled: StubReply = { status: 429, body: { error: { code: 'TooManyRequests' } }, headers: { 'Retry-After': '0' } };
+
+describe('getRetryDelayMs', () => {
+    const random = Math.random;
+    afterEach(() => {
+        Math.random = random;
+    });
+
+    it('waits as long as Retry-After asks, in seconds or until an HTTP date', () => {
+        assert.equal(getRetryDelayMs('3', 0), 3000);
+        const delay = getRetryDelayMs(new Date(Date.now() + 5000).toUTCString(), 0);
+        assert.ok(delay > 3000 && delay <= 5000, `unexpected delay ${delay}`);
+        assert.equal(getRetryDelayMs(new Date(Date.now() - 5000).toUTCString(), 0), 0);
+    });
+
+    it('backs off exponentially without Retry-After and caps every delay at a minute', () => {
+        Math.random = () => 0;
+
+        assert.equal(getRetryDelayMs(undefined, 0), 1000);
+        assert.equal(getRetryDelayMs(undefined, 1), 2000);
+        assert.equal(getRetryDelayMs(undefined, 3), 8000);
+        assert.equal(getRetryDelayMs(undefined, 10), 60000);
+        assert.equal(getRetryDelayMs('3600', 0), 60000);
+        assert.equal(getRetryDelayMs('soon', 2), 4000);
+    });
+});
+
+describe('GraphRequestClient', () => {
+    it('retries throttled requests and counts them', async () => {
+        let calls = 0;
+        const fetch = new StubFetch(() => (++calls < 3 ? throttled : { body: { id: 'org-1' } }));
+        const client = graphClient(fetch);
+
+        assert.deepEqual(await client.get('/organization'), { id: 'org-1' });
+        const stats = client.getStats();
+        assert.equal(stats.requests, 3);
+        assert.equal(stats.retries, 2);
+        assert.equal(stats.throttled, 2);
+        assert.equal(stats.failed, 0);
+    });
+
+    it('gives up after the configured retries and does not retry other errors', async () => {
+        const throttledFetch = new StubFetch(() => throttled);
+        await assert.rejects(graphClient(throttledFetch, { maxRetries: 2 }).get('/users'), (error: any) => error.statusCode === 429);
+        assert.equal(throttledFetch.requests.length, 3);
+
+        const forbiddenFetch = new StubFetch(() => ({ status: 403, body: { error: { code: 'Authorization_RequestDenied' } } }));
+        await assert.rejects(graphClient(forbiddenFetch).get('/users'), (error: any) => error.statusCode === 403);
+        assert.equal(forbiddenFetch.requests.length, 1);
+    });
+
+    it('does not hold the tenant slot while waiting to retry', async () => {
+        const completed: string[] = [];
+        let throttledOnce = false;
+        const fetch = new StubFetch(request => {
+            if (request.url === '/slow' && !throttledOnce) {
+                throttledOnce = true;
+                return { ...throttled, headers: { 'Retry-After': '1' } };
+            }
+            return { body: { url: request.url } };
+        });
+        const client = graphClient(fetch, { maxConcurrency: 1 });
+
+        const slow = client.get('/slow').then(() => completed.push('/slow'));
+        await new Promise(resolve => setTimeout(resolve, 50));
+        await client.get('/fast').then(() => completed.push('/fast'));
+        await slow;
+
+        assert.deepEqual(completed, ['/fast', '/slow']);
+        assert.equal(getActiveGraphLimiterCount(), 0);
+    });
+
+    it('follows @odata.nextLink until the last page or the item limit', async () => {
+        const pages: Record<string, any> = {
+            '/users': { value: [{ id: 1 }, { id: 2 }], '@odata.nextLink': 'https://graph.microsoft.com/v1.0/users?$skiptoken=page2' },
+            '/users?$skiptoken=page2': { value: [{ id: 3 }, { id: 4 }], '@odata.nextLink': 'https://graph.microsoft.com/v1.0/users?$skiptoken=page3' },
+            '/users?$skiptoken=page3': { value: [{ id: 5 }] }
+        };
+        const fetch = new StubFetch(request => ({ body: pages[request.url] }));
+        const client = graphClient(fetch);
+
+        assert.deepEqual((await client.getAll('/users')).map(user => user.id), [1, 2, 3, 4, 5]);
+        assert.deepEqual((await client.getAll('/users', { maxItems: 3 })).map(user => user.id), [1, 2, 3, 4]);
+        assert.deepEqual(fetch.requests.slice(3).map(request => request.url), ['/users', '/users?$skiptoken=page2']);
+    });
+
+    it('retries throttled and unanswered requests of a batch', async () => {
+        let batches = 0;
+        const fetch = new StubFetch(request => {
+            batches++;
+            const ids: string[] = request.body.requests.map((sub: any) => sub.id);
+            return {
+                body: {
+                    responses: ids
+                        // The first batch throttles "a" and leaves "c" out
+                        .filter(id => batches > 1 || id !== 'c')
+                        .map(id => batches === 1 && id === 'a'
+                            ? { id, status: 429, headers: { 'Retry-After': '0' }, body: {} }
+                            : { id, status: 200, body: { value: [id] } })
+                }
+            };
+        });
+        const client = graphClient(fetch);
+
+        const responses = await client.batch([
+            { id: 'a', url: '/directoryRoles/a/members' },
+            { id: 'b', url: '/directoryRoles/b/members' },
+            { id: 'c', url: '/directoryRoles/c/members' }
+        ]);
+
+        assert.deepEqual([...responses.keys()].sort(), ['a', 'b', 'c']);
+        assert.deepEqual(responses.get('c')?.body, { value: ['c'] });
+        assert.deepEqual(fetch.requests[1].body.requests.map((sub: any) => sub.id).sort(), ['a', 'c']);
+        assert.equal(client.getStats().batchedRequests, 5);
+    });
+
+    it('fails the batch when a request stays unanswered', async () => {
+        const fetch = new StubFetch(request => ({
+            body: { responses: request.body.requests.filter((sub: any) => sub.id !== 'b').map((sub: any) => ({ id: sub.id, status: 200, body: {} })) }
+        }));
+        const client = graphClient(fetch, { maxRetries: 1 });
+
+        await assert.rejects(
+            client.batch([{ id: 'a', url: '/users/a' }, { id: 'b', url: '/users/b' }]),
+            /no response for \/users\/b after 2 attempts/
+        );
+        assert.equal(fetch.requests.length, 2);
+    });
+});
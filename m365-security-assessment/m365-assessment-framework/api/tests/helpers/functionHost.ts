@@ -0,0 +1,99 @@
+import {
+    app,
+    Disposable,
+    HttpFunctionOptions,
+    HttpRequest,
+    HttpResponseInit,
+    InvocationContext,
+    PreInvocationContext,
+    PreInvocationHandler
+} from "@azure/functions";
+import { AppRole } from "../../shared/types";
+
+/**
+ * Minimal stand-in for the Functions host. HTTP registrations and pre-invocation hooks are
+ * captured when the function modules load, and invokeHttp() runs a request through the hooks
+ * and the handler the way the host does. Import this module before any function module.
+ */
+
+const httpFunctions = new Map<string, HttpFunctionOptions>();
+const preInvocationHooks: PreInvocationHandler[] = [];
+
+app.http = (name: string, options: HttpFunctionOptions) => {
+    httpFunctions.set(name, options);
+};
+app.hook.preInvocation = (handler: PreInvocationHandler) => {
+    preInvocationHooks.push(handler);
+    return new Disposable(() => preInvocationHooks.splice(preInvocationHooks.indexOf(handler), 1));
+};
+
+export interface TestUser {
+    name: string;
+    role: AppRole;
+    objectId?: string;
+}
+
+export interface HttpCall {
+    method: string;
+    params?: Record<string, string>;
+    query?: Record<string, string>;
+    body?: unknown;
+    /** Signed-in user, sent as the Static Web Apps client principal */
+    user?: TestUser;
+}
+
+export interface HttpResult {
+    status: number;
+    body: any;
+    headers: Record<string, string>;
+}
+
+function clientPrincipal(user: TestUser): string {
+    return Buffer.from(JSON.stringify({
+        identityProvider: 'aad',
+        userId: user.objectId || user.name,
+        userDetails: user.name,
+        userRoles: ['anonymous', 'authenticated', user.role],
+        claims: user.objectId ? [{ typ: 'oid', val: user.objectId }] : []
+    })).toString('base64');
+}
+
+export async function invokeHttp(functionName: string, call: HttpCall): Promise<HttpResult> {
+    const registration = httpFunctions.get(functionName);
+    if (!registration) {
+        throw new Error(`Function '${functionName}' is not registered - import its module first`);
+    }
+
+    const url = new URL(`http://localhost/api/${registration.route || functionName}`);
+    Object.entries(call.query || {}).forEach(([key, value]) => url.searchParams.set(key, value));
+
+    const request = new HttpRequest({
+        method: call.method,
+        url: url.toString(),
+        params: call.params || {},
+        headers: call.user ? { 'x-ms-client-principal': clientPrincipal(call.user) } : {},
+        body: call.body === undefined ? undefined : { string: JSON.stringify(call.body) }
+    });
+    const context = new InvocationContext({
+        functionName,
+        options: { trigger: { type: 'httpTrigger', name: 'request' } },
+        logHandler: () => undefined
+    });
+
+    const hookContext = new PreInvocationContext({
+        invocationContext: context,
+        inputs: [request],
+        functionCallback: registration.handler as any
+    });
+    for (const hook of preInvocationHooks) {
+        await hook(hookContext);
+    }
+
+    const response: HttpResponseInit = await hookContext.functionHandler(hookContext.inputs[0], context);
+    const text = typeof response.body === 'string' ? response.body : undefined;
+    return {
+        status: response.status || 200,
+        body: response.jsonBody ?? (text ? JSON.parse(text) : undefined),
+        headers: (response.headers || {}) as Record<string, string>
+    };
+}
@@ -0,0 +1,111 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PdfDocument, renderAssessmentReport } from "../shared/reports";
+import { toPdfText } from "../shared/reports/pdfDocument";
+import { Assessment, Customer, EffectiveLicensePrice } from "../shared/types";
+
+const customer = {
+    id: 'customer-1',
+    tenantId: '00000000-0000-4000-8000-000000000001',
+    tenantName: 'Contoso GmbH',
+    tenantDomain: 'contoso.onmicrosoft.com',
+    createdDate: new Date('2026-01-01'),
+    totalAssessments: 1,
+    status: 'active',
+    branding: { language: 'de' }
+} as Customer;
+
+const assessment = {
+    id: 'assessment-1',
+    customerId: customer.id,
+    tenantId: customer.tenantId,
+    date: new Date('2026-10-01T10:00:00Z'),
+    status: 'completed',
+    score: 72,
+    metrics: {
+        assessmentName: 'Quartalsprüfung – Q3 „Sicherheit“',
+        score: { overall: 72, license: 83, secureScore: 64 },
+        license: {
+            totalLicenses: 30,
+            assignedLicenses: 25,
+            utilizationRate: 83,
+            licenseDetails: [{ skuPartNumber: 'SPB', totalUnits: 30, assignedUnits: 25 }]
+        },
+        secureScore: { percentage: 64, currentScore: 32, maxScore: 50, controlScores: [] },
+        realData: { tenantInfo: { tenantId: customer.tenantId, displayName: 'Contoso GmbH' } }
+    },
+    recommendations: []
+} as unknown as Assessment;
+
+const licensePrices: Record<string, EffectiveLicensePrice> = {
+    SPB: {
+        skuPartNumber: 'SPB',
+        displayName: 'Microsoft 365 Business Premium',
+        unitPrice: 20.6,
+        currency: 'EUR',
+        billingTerm: 'annual',
+        source: 'negotiated',
+        listPrice: 22,
+        listCurrency: 'USD'
+    }
+};
+
+// The writer emits uncompressed content streams, so the text runs can be read back directly
+const textRuns = (pdf: string): string[] =>
+    Array.from(pdf.matchAll(/\(((?:[^()\\]|\\.)*)\) Tj/g), match => match[1]);
+
+describe('toPdfText', () => {
+    it('maps the WinAnsi characters outside Latin-1 to their codes', () => {
+        assert.equal(toPdfText('€ – — ‘a’ “b” … • ™'), '\x80 \x96 \x97 \x91a\x92 \x93b\x94 \x85 \x95 \x99');
+    });
+
+    it('keeps Latin-1 and replaces characters the standard fonts cannot show', () => {
+        assert.equal(toPdfText('Café Größe'), 'Café Größe');
+        assert.equal(toPdfText('Score 😀 漢'), 'Score ? ?');
+        assert.equal(toPdfText('a → b'), 'a -> b');
+    });
+
+    it('turns the narrow spaces used as group separators into no-break spaces', () => {
+        assert.equal(toPdfText('1\u202f234\u00a0€'), '1\xa0234\xa0\x80');
+    });
+
+    it('measures the WinAnsi additions with their own glyph widths', () => {
+        const pdf = new PdfDocument('Widths');
+        assert.equal(pdf.measure('—', 10), 10);
+        assert.equal(pdf.measure('€', 10), 5.56);
+        assert.equal(pdf.measure('“', 10, 'bold'), 5);
+    });
+});
+
+describe('renderAssessmentReport', () => {
+    const pdf = renderAssessmentReport({ assessment, customer, findings: [], licensePrices }).toString('latin1');
+
+    it('produces a PDF with a consistent cross-reference table', () => {
+        assert.ok(pdf.startsWith('%PDF-1.4\n'));
+        assert.ok(pdf.endsWith('%%EOF\n'));
+
+        const xrefOffset = Number(pdf.match(/startxref\n(\d+)\n/)?.[1]);
+        assert.equal(pdf.substring(xrefOffset, xrefOffset + 4), 'xref');
+
+        const offsets = Array.from(pdf.substring(xrefOffset).matchAll(/^(\d{10}) 00000 n $/gm), match => Number(match[1]));
+        assert.ok(offsets.length > 5);
+        offsets.forEach((offset, index) => {
+            assert.ok(pdf.startsWith(`${index + 1} 0 obj\n`, offset), `object ${index + 1} starts at its xref offset`);
+        });
+    });
+
+    it('writes euro prices with the WinAnsi euro sign', () => {
+        const euroRuns = textRuns(pdf).filter(run => run.includes('\x80'));
+        assert.ok(euroRuns.length > 0, 'at least one text run contains the euro sign');
+        assert.ok(euroRuns.some(run => run.includes('20,60\xa0\x80')), 'the unit price is rendered as 20,60 €');
+        assert.ok(!textRuns(pdf).some(run => /\d\s?\?$/.test(run)), 'no price ends in a replacement character');
+    });
+
+    it('keeps dashes and quotes of customer text', () => {
+        assert.ok(textRuns(pdf).includes('Quartalsprüfung \x96 Q3 \x84Sicherheit\x93'));
+    });
+
+    it('declares WinAnsiEncoding for both fonts', () => {
+        assert.equal(pdf.match(/\/Encoding \/WinAnsiEncoding/g)?.length, 2);
+    });
+});
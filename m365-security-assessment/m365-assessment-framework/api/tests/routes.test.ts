@@ -0,0 +1,202 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { invokeHttp, TestUser } from "./helpers/functionHost";
+import "../customer-schedules";
+import "../customer-alert-rules";
+import "../database-migrations";
+import "../consent-callback";
+import "../assessments";
+import "../client-certificate";
+import { MIGRATIONS } from "../shared/migrations";
+import { dataService, initializeDataService } from "../shared/utils";
+import { Customer } from "../shared/types";
+import { InvocationContext } from "@azure/functions";
+
+process.env.DATA_STORE = 'memory';
+
+const admin: TestUser = { name: 'admin@contoso.com', role: 'admin', objectId: 'admin-object-id' };
+const consultant: TestUser = { name: 'consultant@contoso.com', role: 'consultant', objectId: 'consultant-object-id' };
+const viewer: TestUser = { name: 'viewer@contoso.com', role: 'viewer', objectId: 'viewer-object-id' };
+
+const weeklySchedule = { frequency: 'weekly', dayOfWeek: 1, hour: 6, minute: 30, includedCategories: ['license'] };
+const webhookUrl = 'https://contoso.webhook.office.com/webhookb2/secret-token';
+
+let assigned: Customer;
+let unassigned: Customer;
+
+before(async () => {
+    await initializeDataService(new InvocationContext());
+    assigned = await dataService.createCustomer({ tenantName: 'Assigned', tenantDomain: 'assigned.example', tenantId: 'tenant-assigned' }, null);
+    unassigned = await dataService.createCustomer({ tenantName: 'Unassigned', tenantDomain: 'unassigned.example', tenantId: 'tenant-unassigned' }, null);
+    for (const user of [consultant, viewer]) {
+        await dataService.assignCustomer(assigned.id, user.objectId!, user.name, admin.name);
+    }
+});
+
+describe('customer-schedules', () => {
+    it('creates a schedule attributed to the signed-in user and audits it', async () => {
+        const response = await invokeHttp('customer-schedules', {
+            method: 'POST',
+            params: { customerId: assigned.id },
+            body: { ...weeklySchedule, createdBy: 'someone-else@contoso.com' },
+            user: consultant
+        });
+
+        assert.equal(response.status, 201);
+        assert.equal(response.body.data.createdBy, consultant.name);
+        assert.ok(new Date(response.body.data.nextRunAt).getTime() > Date.now());
+
+        const { entries } = await dataService.getAuditLog({ action: 'schedule.create' });
+        assert.equal(entries.length, 1);
+        assert.equal(entries[0].actor, consultant.name);
+        assert.equal(entries[0].targetId, response.body.data.id);
+    });
+
+    it('rejects requests without a signed-in user', async () => {
+        const response = await invokeHttp('customer-schedules', { method: 'POST', params: { customerId: assigned.id }, body: weeklySchedule });
+        assert.equal(response.status, 401);
+    });
+
+    it('does not let viewers change schedules', async () => {
+        const response = await invokeHttp('customer-schedules', { method: 'POST', params: { customerId: assigned.id }, body: weeklySchedule, user: viewer });
+        assert.equal(response.status, 403);
+    });
+
+    it('does not let consultants change schedules of customers they are not assigned', async () => {
+        const response = await invokeHttp('customer-schedules', { method: 'POST', params: { customerId: unassigned.id }, body: weeklySchedule, user: consultant });
+        assert.equal(response.status, 403);
+        assert.deepEqual(await dataService.getAssessmentSchedules(unassigned.id), []);
+    });
+
+    it('answers 400 for an invalid schedule', async () => {
+        const response = await invokeHttp('customer-schedules', {
+            method: 'POST',
+            params: { customerId: assigned.id },
+            body: { ...weeklySchedule, dayOfWeek: 9 },
+            user: consultant
+        });
+        assert.equal(response.status, 400);
+        assert.match(response.body.message, /dayOfWeek/);
+    });
+});
+
+describe('customer-alert-rules', () => {
+    let ruleId: string;
+
+    before(async () => {
+        const response = await invokeHttp('customer-alert-rules', {
+            method: 'POST',
+            params: { customerId: assigned.id },
+            body: { type: 'score-drop', threshold: 5, channels: [{ type: 'webhook', url: webhookUrl, format: 'teams' }] },
+            user: admin
+        });
+        assert.equal(response.status, 201);
+        ruleId = response.body.data.id;
+    });
+
+    it('shows webhook URLs to admins only', async () => {
+        const asAdmin = await invokeHttp('customer-alert-rules', { method: 'GET', params: { customerId: assigned.id }, user: admin });
+        const asViewer = await invokeHttp('customer-alert-rules', { method: 'GET', params: { customerId: assigned.id }, user: viewer });
+
+        assert.equal(asAdmin.body.data[0].channels[0].url, webhookUrl);
+        assert.equal(asViewer.body.data[0].channels[0].url, 'https://contoso.webhook.office.com/********');
+    });
+
+    it('keeps the stored webhook URL when a consultant saves the masked rule', async () => {
+        const [masked] = (await invokeHttp('customer-alert-rules', { method: 'GET', params: { customerId: assigned.id }, user: consultant })).body.data;
+        const response = await invokeHttp('customer-alert-rules', {
+            method: 'PUT',
+            params: { customerId: assigned.id, ruleId },
+            body: { ...masked, threshold: 10 },
+            user: consultant
+        });
+
+        assert.equal(response.status, 200);
+        const stored = await dataService.getAlertRule(ruleId);
+        assert.equal(stored?.threshold, 10);
+        assert.deepEqual(stored?.channels, [{ type: 'webhook', url: webhookUrl, format: 'teams' }]);
+    });
+});
+
+describe('database-migrations', () => {
+    it('reports the schema of the configured store', async () => {
+        const response = await invokeHttp('database-migrations', { method: 'GET', user: admin });
+
+        assert.equal(response.status, 200);
+        assert.equal(response.body.data.latestVersion, MIGRATIONS[MIGRATIONS.length - 1].version);
+        assert.equal(response.body.data.upToDate, true);
+    });
+
+    it('is limited to admins', async () => {
+        const response = await invokeHttp('database-migrations', { method: 'GET', user: consultant });
+        assert.equal(response.status, 403);
+    });
+});
+
+describe('consent-callback', () => {
+    const consentRequest = { customerId: 'tenant-assigned', adminEmail: 'admin@assigned.example' };
+
+    it('does not generate consent URLs for anonymous callers', async () => {
+        const response = await invokeHttp('consent-callback', { method: 'POST', body: consentRequest });
+
+        assert.equal(response.status, 401);
+        const { entries } = await dataService.getAuditLog({ action: 'consent.url-generate' });
+        assert.equal(entries.length, 0);
+    });
+
+    it('does not let viewers generate consent URLs', async () => {
+        const response = await invokeHttp('consent-callback', { method: 'POST', body: consentRequest, user: viewer });
+        assert.equal(response.status, 403);
+    });
+
+    it('generates consent URLs for consultants', async () => {
+        const response = await invokeHttp('consent-callback', { method: 'POST', body: consentRequest, user: consultant });
+
+        assert.equal(response.status, 200);
+        assert.match(response.body.consentUrl, /prompt=admin_consent/);
+        const { entries } = await dataService.getAuditLog({ action: 'consent.url-generate' });
+        assert.equal(entries[0].actor, consultant.name);
+    });
+});
+
+describe('assessments', () => {
+    it('fails the assessment without starting it when the audit entry cannot be written', async () => {
+        const original = dataService.recordAuditEvent;
+        dataService.recordAuditEvent = async () => { throw new Error('database unavailable'); };
+        let response;
+        try {
+            response = await invokeHttp('assessments', {
+                method: 'POST',
+                body: { customerId: assigned.id, tenantId: assigned.tenantId, includedCategories: ['license'] },
+                user: consultant
+            });
+        } finally {
+            dataService.recordAuditEvent = original;
+        }
+
+        assert.equal(response.status, 500);
+        const { assessments } = await dataService.getAssessments({ customerId: assigned.id });
+        assert.equal(assessments.length, 1);
+        assert.equal(assessments[0].status, 'failed');
+        assert.match(assessments[0].metrics.error || '', /database unavailable/);
+    });
+});
+
+describe('client-certificate', () => {
+    it('is limited to admins', async () => {
+        const response = await invokeHttp('client-certificate', { method: 'PUT', body: { pem: 'not a certificate' }, user: consultant });
+        assert.equal(response.status, 403);
+    });
+
+    it('rejects a PEM without certificate and private key before anything is stored', async () => {
+        process.env.KEY_VAULT_URL = 'https://assessment-test.vault.azure.net';
+        try {
+            const response = await invokeHttp('client-certificate', { method: 'PUT', body: { pem: 'not a certificate' }, user: admin });
+
+            assert.equal(response.status, 400);
+            assert.match(response.body.message, /certificate and its private key/);
+        } finally {
+            delete process.env.KEY_VAULT_URL;
+        }
+    });
+});
@@ -0,0 +1,110 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+    calculateScore,
+    DEFAULT_SCORING_WEIGHTS,
+    getCategoryScores,
+    normalizeWeights,
+    SCORING_MODEL_VERSION,
+    validateScoringWeights
+} from "../shared/scoring";
+import { ScoringProfile } from "../shared/types";
+
+const collectedData = {
+    licenseInfo: { totalLicenses: 200, assignedLicenses: 150 },
+    secureScore: { percentage: 62.4 },
+    identityMetrics: { totalUsers: 120, mfaCoverage: 88 },
+    endpointMetrics: { totalDevices: 40, complianceRate: 95 }
+};
+
+function profile(weights: ScoringProfile['weights']): ScoringProfile {
+    return { customerId: 'customer-1', weights, updatedAt: new Date('2026-10-01T00:00:00Z') };
+}
+
+describe('getCategoryScores', () => {
+    it('scores every completed category from its collector result', () => {
+        assert.deepEqual(
+            getCategoryScores(collectedData, ['license', 'secureScore', 'identity', 'endpoint']),
+            { license: 75, secureScore: 62, identity: 88, endpoint: 95 }
+        );
+    });
+
+    it('leaves out categories that did not complete or have nothing to score', () => {
+        const scores = getCategoryScores(
+            { ...collectedData, identityMetrics: { totalUsers: 0, mfaCoverage: 0 }, secureScore: { error: 'Forbidden' } },
+            ['license', 'secureScore', 'identity']
+        );
+
+        assert.deepEqual(scores, { license: 75 });
+    });
+
+    it('caps license usage at 100', () => {
+        assert.deepEqual(getCategoryScores({ licenseInfo: { totalLicenses: 10, assignedLicenses: 12 } }, ['license']), { license: 100 });
+    });
+});
+
+describe('normalizeWeights', () => {
+    it('scales the weights of the scored categories to sum to 1', () => {
+        const weights = normalizeWeights(DEFAULT_SCORING_WEIGHTS, ['license', 'identity']);
+
+        assert.equal(weights.license, 0.6);
+        assert.ok(Math.abs(weights.identity - 0.4) < 1e-9);
+        assert.equal(weights.secureScore, undefined);
+    });
+
+    it('drops zero-weighted categories and returns nothing when no weight is left', () => {
+        assert.deepEqual(normalizeWeights({ ...DEFAULT_SCORING_WEIGHTS, endpoint: 0 }, ['endpoint', 'license']), { license: 1 });
+        assert.deepEqual(normalizeWeights({ ...DEFAULT_SCORING_WEIGHTS, endpoint: 0 }, ['endpoint']), {});
+    });
+});
+
+describe('calculateScore', () => {
+    it('weights the category scores with the default weights', () => {
+        // 0.3 * 75 + 0.4 * 62 + 0.2 * 88 + 0.1 * 95 = 74.4
+        const score = calculateScore({ license: 75, secureScore: 62, identity: 88, endpoint: 95 });
+
+        assert.equal(score.overall, 74);
+        assert.equal(score.profile, 'default');
+        assert.equal(score.modelVersion, SCORING_MODEL_VERSION);
+    });
+
+    it('re-weights across the categories that were collected', () => {
+        // 0.4 / 0.6 * 62 + 0.2 / 0.6 * 88 = 70.67
+        const score = calculateScore({ secureScore: 62, identity: 88 });
+
+        assert.equal(score.overall, 71);
+        assert.deepEqual(Object.keys(score.appliedWeights).sort(), ['identity', 'secureScore']);
+    });
+
+    it("applies the customer's profile over the default weights", () => {
+        // Identity only: license and secure score weigh 0, endpoint keeps its default
+        const score = calculateScore(
+            { license: 75, secureScore: 62, identity: 88, endpoint: 95 },
+            profile({ license: 0, secureScore: 0, identity: 0.9 })
+        );
+
+        assert.equal(score.profile, 'customer-1');
+        assert.deepEqual(score.appliedWeights, { identity: 0.9, endpoint: 0.1 });
+        assert.equal(score.overall, 89);
+    });
+
+    it('scores 0 when nothing was collected', () => {
+        const score = calculateScore({});
+
+        assert.equal(score.overall, 0);
+        assert.deepEqual(score.appliedWeights, {});
+    });
+});
+
+describe('validateScoringWeights', () => {
+    it('accepts partial weights for known categories', () => {
+        assert.deepEqual(validateScoringWeights({ identity: 0.5, endpoint: 0 }), []);
+    });
+
+    it('rejects unknown categories, negative weights and all-zero profiles', () => {
+        assert.match(validateScoringWeights([])[0], /must be an object/);
+        assert.match(validateScoringWeights({ compliance: 1 })[0], /Unknown category 'compliance'/);
+        assert.match(validateScoringWeights({ identity: -1 })[0], /non-negative number/);
+        assert.match(validateScoringWeights({ license: 0, secureScore: 0, identity: 0, endpoint: 0 })[0], /At least one category/);
+    });
+});
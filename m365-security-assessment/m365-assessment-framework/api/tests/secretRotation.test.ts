@@ -0,0 +1,40 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { findPreviousCredential } from "../shared/secretRotation";
+
+const appRegistration = { secretExpiryDate: '2026-11-01T10:00:00.000Z' };
+
+describe('findPreviousCredential', () => {
+    it('uses the key id stored by an earlier rotation', () => {
+        const credentials = [
+            { keyId: 'rotated', endDateTime: '2027-05-01T00:00:00Z' },
+            { keyId: 'same-expiry', endDateTime: '2026-11-01T10:00:00Z' }
+        ];
+
+        assert.equal(findPreviousCredential({ ...appRegistration, secretKeyId: 'rotated' }, credentials)?.keyId, 'rotated');
+        assert.equal(findPreviousCredential({ ...appRegistration, secretKeyId: 'removed' }, credentials), undefined);
+    });
+
+    it('matches the secret created with the app registration on its expiry date', () => {
+        const credentials = [
+            { keyId: 'original', endDateTime: '2026-11-01T10:00:03.512Z' },
+            { keyId: 'customer-added', endDateTime: '2027-03-15T00:00:00Z' }
+        ];
+
+        assert.equal(findPreviousCredential(appRegistration, credentials)?.keyId, 'original');
+    });
+
+    it('tells credentials expiring the same day apart by the secret hint', () => {
+        const credentials = [
+            { keyId: 'original', endDateTime: '2026-11-01T10:00:00Z', hint: 'abc' },
+            { keyId: 'customer-added', endDateTime: '2026-11-01T12:00:00Z', hint: 'xyz' }
+        ];
+
+        assert.equal(findPreviousCredential(appRegistration, credentials, 'abcdef-secret')?.keyId, 'original');
+        assert.equal(findPreviousCredential(appRegistration, credentials), undefined);
+    });
+
+    it('finds nothing when no credential expires on the stored date', () => {
+        assert.equal(findPreviousCredential(appRegistration, [{ keyId: 'other', endDateTime: '2027-03-15T00:00:00Z' }]), undefined);
+    });
+});
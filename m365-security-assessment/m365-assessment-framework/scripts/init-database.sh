@@ -33,30 +33,27 @@ echo "📊 Database host: $POSTGRES_HOST"
 echo "👤 Database user: $POSTGRES_USER"
 echo "🗄️ Database name: $POSTGRES_DATABASE"
 
-# Check if psql is available
-if ! command -v psql &> /dev/null; then
-    echo "❌ psql command not found. Please install PostgreSQL client"
-    echo "On macOS: brew install postgresql"
-    echo "On Ubuntu/Debian: sudo apt-get install postgresql-client"
+# Check if node is available
+if ! command -v node &> /dev/null; then
+    echo "❌ node command not found. Please install Node.js 18 or later"
     exit 1
 fi
 
-# Set the password for psql
-export PGPASSWORD="$POSTGRES_ADMIN_PASSWORD"
+# The migration CLI reads the same settings as the Functions app
+export POSTGRES_PASSWORD="$POSTGRES_ADMIN_PASSWORD"
+export NODE_ENV=production
 
-# Test connection
-echo "🔗 Testing database connection..."
-if ! psql -h "$POSTGRES_HOST" -U "$POSTGRES_USER" -d "$POSTGRES_DATABASE" -c "SELECT 1;" > /dev/null 2>&1; then
-    echo "❌ Could not connect to database. Please check your credentials and firewall rules."
-    echo "Make sure your IP address is allowed to connect to the PostgreSQL server."
-    exit 1
-fi
+cd "$(dirname "$0")/../api"
 
-echo "✅ Database connection successful!"
+if [ ! -f scripts/migrate.js ]; then
+    echo "🔨 Building API..."
+    npm run build
+fi
 
-# Run the initialization script
-echo "🚀 Running database initialization script..."
-psql -h "$POSTGRES_HOST" -U "$POSTGRES_USER" -d "$POSTGRES_DATABASE" -f scripts/init-database.sql
+# Apply every pending schema migration
+echo "🚀 Running database migrations..."
+npm run --silent migrate -- up
+npm run --silent migrate -- status
 
 echo "✅ Database schema initialized successfully!"
 echo ""
@@ -9,6 +9,7 @@ import Reports from './pages/Reports';
 import Login from './pages/Login';
 import History from './pages/History';
 import Settings from './pages/Settings';
+import Audit from './pages/Audit';
 import AuthCallback from './pages/AuthCallback';
 import { AssessmentResults } from './components/AssessmentResults';
 import ConsentResult from './components/ConsentResult';
@@ -26,9 +27,9 @@ function App() {
 function AppContent() {
   const { isAuthenticated, loading, user, logout } = useAuth();
 
-  // Check if we're on the admin consent success page - bypass ALL auth logic
+  // Check if we're on the admin consent success or error page - bypass ALL auth logic
   const currentPath = window.location.pathname;
-  if (currentPath === '/admin-consent-success') {
+  if (currentPath === '/admin-consent-success' || currentPath === '/admin-consent-error') {
     return <AdminConsentSuccess />;
   }
 
@@ -112,6 +113,16 @@ function AppContent() {
               </div>
             </CustomerProvider>
           } />
+          <Route path="/audit" element={
+            <CustomerProvider>
+              <div className="app-layout">
+                <Navigation userName={user?.email} onLogout={logout} />
+                <main className="main-content">
+                  <Audit />
+                </main>
+              </div>
+            </CustomerProvider>
+          } />
           <Route path="/consent-result" element={
             <CustomerProvider>
               <div className="app-layout">
@@ -0,0 +1,469 @@
+import React, { useEffect, useState } from 'react';
+import { CustomerService } from '../../services/customerService';
+import { AlertChannel, AlertDelivery, AlertRule, AlertRuleInput, AlertRuleType, WebhookFormat } from '../../models/AlertRule';
+
+interface AlertRulesEditorProps {
+  customerId: string;
+}
+
+interface AlertRuleForm {
+  type: AlertRuleType;
+  threshold: number;
+  webhookUrl: string;
+  webhookFormat: WebhookFormat;
+  emailRecipients: string;
+  enabled: boolean;
+}
+
+// Mirrors ALERT_RULE_TYPES in the API
+const RULE_TYPES: Record<AlertRuleType, { label: string; unit: string | null; defaultThreshold: number }> = {
+  'score-drop': { label: 'Overall score drops by more than', unit: 'points', defaultThreshold: 5 },
+  'mfa-coverage-below': { label: 'MFA coverage falls below', unit: '%', defaultThreshold: 90 },
+  'new-global-admin': { label: 'A new Global Administrator appears', unit: null, defaultThreshold: 0 },
+  'device-compliance-drop': { label: 'Device compliance drops by more than', unit: 'points', defaultThreshold: 10 }
+};
+
+const EMPTY_FORM: AlertRuleForm = {
+  type: 'score-drop',
+  threshold: RULE_TYPES['score-drop'].defaultThreshold,
+  webhookUrl: '',
+  webhookFormat: 'teams',
+  emailRecipients: '',
+  enabled: true
+};
+
+const describeRule = (rule: AlertRule): string => {
+  const definition = RULE_TYPES[rule.type];
+  return definition.unit ? `${definition.label} ${rule.threshold ?? definition.defaultThreshold} ${definition.unit}` : definition.label;
+};
+
+const describeChannel = (channel: AlertChannel): string =>
+  channel.type === 'webhook' ? `${channel.format === 'teams' ? 'Teams' : 'Slack'} webhook` : `Email ${channel.recipients.join(', ')}`;
+
+const toInput = (form: AlertRuleForm): AlertRuleInput => {
+  const channels: AlertChannel[] = [];
+  if (form.webhookUrl.trim()) {
+    channels.push({ type: 'webhook', url: form.webhookUrl.trim(), format: form.webhookFormat });
+  }
+  const recipients = form.emailRecipients.split(/[,;\s]+/).filter(Boolean);
+  if (recipients.length > 0) {
+    channels.push({ type: 'email', recipients });
+  }
+  return {
+    type: form.type,
+    threshold: RULE_TYPES[form.type].unit ? form.threshold : undefined,
+    channels,
+    enabled: form.enabled
+  };
+};
+
+const AlertRulesEditor: React.FC<AlertRulesEditorProps> = ({ customerId }) => {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [deliveries, setDeliveries] = useState<AlertDelivery[]>([]);
+  const [form, setForm] = useState<AlertRuleForm | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadRules = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const service = CustomerService.getInstance();
+        const [ruleList, deliveryLog] = await Promise.all([
+          service.getAlertRules(customerId),
+          service.getAlertDeliveries(customerId, 20)
+        ]);
+        if (!cancelled) {
+          setRules(ruleList);
+          setDeliveries(deliveryLog);
+        }
+      } catch (err: any) {
+        if (!cancelled) setError(err.response?.data?.message || err.message || 'Failed to load alert rules');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadRules();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [customerId]);
+
+  const updateForm = (updates: Partial<AlertRuleForm>) => {
+    setForm(prev => (prev ? { ...prev, ...updates } : prev));
+  };
+
+  const startEdit = (rule?: AlertRule) => {
+    setError(null);
+    setEditingId(rule?.id || null);
+    if (!rule) {
+      setForm({ ...EMPTY_FORM });
+      return;
+    }
+    const webhook = rule.channels.find(channel => channel.type === 'webhook');
+    const email = rule.channels.find(channel => channel.type === 'email');
+    setForm({
+      type: rule.type,
+      threshold: rule.threshold ?? RULE_TYPES[rule.type].defaultThreshold,
+      webhookUrl: webhook?.type === 'webhook' ? webhook.url : '',
+      webhookFormat: webhook?.type === 'webhook' ? webhook.format : 'teams',
+      emailRecipients: email?.type === 'email' ? email.recipients.join(', ') : '',
+      enabled: rule.enabled
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const service = CustomerService.getInstance();
+      if (editingId) {
+        const updated = await service.updateAlertRule(customerId, editingId, toInput(form));
+        setRules(rules.map(r => (r.id === editingId ? updated : r)));
+      } else {
+        const created = await service.createAlertRule(customerId, toInput(form));
+        setRules([...rules, created]);
+      }
+      setForm(null);
+      setEditingId(null);
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Failed to save the alert rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (ruleId: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await CustomerService.getInstance().deleteAlertRule(customerId, ruleId);
+      setRules(rules.filter(r => r.id !== ruleId));
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Failed to delete the alert rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="alert-rules-editor">Loading alert rules...</div>;
+  }
+
+  const thresholdUnit = form ? RULE_TYPES[form.type].unit : null;
+
+  return (
+    <div className="alert-rules-editor">
+      <h4>Alert Rules</h4>
+      <p className="alert-hint">
+        Rules are checked against the previous assessment whenever an assessment completes. Matching rules notify a Teams or Slack incoming webhook and/or email recipients.
+      </p>
+
+      {error && <div className="error-message">{error}</div>}
+
+      {rules.length === 0 && !form && <p className="alert-hint">No alert rules yet.</p>}
+
+      {rules.map(rule => (
+        <div key={rule.id} className={`alert-rule-row ${rule.enabled ? '' : 'alert-rule-disabled'}`}>
+          <div>
+            <div className="alert-rule-title">{describeRule(rule)}{!rule.enabled && ' (paused)'}</div>
+            <small>{rule.channels.map(describeChannel).join(' · ')}</small>
+          </div>
+          <div className="alert-rule-actions">
+            <button type="button" className="alert-link-button" onClick={() => startEdit(rule)} disabled={saving}>Edit</button>
+            <button type="button" className="alert-link-button alert-delete" onClick={() => handleDelete(rule.id)} disabled={saving}>Delete</button>
+          </div>
+        </div>
+      ))}
+
+      {form ? (
+        <div className="alert-rule-form">
+          <div className="alert-rule-grid">
+            <label>
+              Condition
+              <select
+                value={form.type}
+                onChange={e => {
+                  const type = e.target.value as AlertRuleType;
+                  updateForm({ type, threshold: RULE_TYPES[type].defaultThreshold });
+                }}
+              >
+                {Object.entries(RULE_TYPES).map(([type, definition]) => (
+                  <option key={type} value={type}>{definition.label}</option>
+                ))}
+              </select>
+            </label>
+
+            {thresholdUnit && (
+              <label>
+                Threshold ({thresholdUnit})
+                <input type="number" min={0} max={100} value={form.threshold} onChange={e => updateForm({ threshold: Number(e.target.value) })} />
+              </label>
+            )}
+
+            <label>
+              Webhook URL
+              <input
+                type="url"
+                value={form.webhookUrl}
+                placeholder="https://..."
+                onChange={e => updateForm({ webhookUrl: e.target.value })}
+              />
+            </label>
+
+            <label>
+              Webhook format
+              <select value={form.webhookFormat} onChange={e => updateForm({ webhookFormat: e.target.value as WebhookFormat })}>
+                <option value="teams">Microsoft Teams</option>
+                <option value="slack">Slack</option>
+              </select>
+            </label>
+
+            <label className="alert-rule-wide">
+              Email recipients (comma separated)
+              <input
+                type="text"
+                value={form.emailRecipients}
+                placeholder="secops@customer.com"
+                onChange={e => updateForm({ emailRecipients: e.target.value })}
+              />
+            </label>
+          </div>
+
+          <label className="alert-rule-enabled">
+            <input type="checkbox" checked={form.enabled} onChange={e => updateForm({ enabled: e.target.checked })} />
+            Enabled
+          </label>
+
+          <div className="alert-rule-form-actions">
+            <button
+              type="button"
+              className="alert-save-button"
+              onClick={handleSave}
+              disabled={saving || toInput(form).channels.length === 0}
+            >
+              {saving ? 'Saving...' : editingId ? 'Save Rule' : 'Add Rule'}
+            </button>
+            <button type="button" className="alert-cancel-button" onClick={() => { setForm(null); setEditingId(null); }} disabled={saving}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button type="button" className="alert-save-button" onClick={() => startEdit()}>
+          New Alert Rule
+        </button>
+      )}
+
+      {deliveries.length > 0 && (
+        <div className="alert-deliveries">
+          <h5>Recent Deliveries</h5>
+          <table>
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>Alert</th>
+                <th>Target</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {deliveries.map(delivery => (
+                <tr key={delivery.id}>
+                  <td>{new Date(delivery.createdAt).toLocaleString()}</td>
+                  <td>{delivery.title}</td>
+                  <td>{delivery.target}</td>
+                  <td className={delivery.status === 'delivered' ? 'alert-delivered' : 'alert-failed'} title={delivery.error}>
+                    {delivery.status === 'delivered' ? 'Delivered' : 'Failed'}
+                    {delivery.attempt > 1 && ` (attempt ${delivery.attempt})`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <style>{`
+        .alert-rules-editor {
+          margin: -0.25rem 0 0.75rem;
+          padding: 1rem;
+          border: 1px solid #e5e7eb;
+          border-radius: 0.5rem;
+          background: #f8fafc;
+        }
+
+        .alert-rules-editor h4 {
+          margin: 0 0 0.25rem;
+          color: #1e293b;
+        }
+
+        .alert-hint {
+          margin: 0 0 0.75rem;
+          font-size: 0.875rem;
+          color: #64748b;
+        }
+
+        .alert-rule-row {
+          display: flex;
+          justify-content: space-between;
+          align-items: flex-start;
+          gap: 1rem;
+          padding: 0.5rem 0;
+          border-bottom: 1px solid #e5e7eb;
+          font-size: 0.875rem;
+        }
+
+        .alert-rule-row small {
+          color: #64748b;
+        }
+
+        .alert-rule-title {
+          font-weight: 500;
+          color: #1e293b;
+        }
+
+        .alert-rule-disabled .alert-rule-title {
+          color: #94a3b8;
+        }
+
+        .alert-rule-actions {
+          display: flex;
+          gap: 0.5rem;
+        }
+
+        .alert-link-button {
+          background: none;
+          border: none;
+          color: #0078d4;
+          cursor: pointer;
+          font-size: 0.875rem;
+        }
+
+        .alert-link-button.alert-delete {
+          color: #dc2626;
+        }
+
+        .alert-rule-form {
+          margin-top: 0.75rem;
+        }
+
+        .alert-rule-grid {
+          display: grid;
+          grid-template-columns: 1fr 1fr;
+          gap: 0.75rem 1rem;
+        }
+
+        .alert-rule-grid label {
+          display: flex;
+          flex-direction: column;
+          gap: 0.25rem;
+          font-size: 0.875rem;
+          font-weight: 500;
+          color: #374151;
+        }
+
+        .alert-rule-grid .alert-rule-wide {
+          grid-column: 1 / -1;
+        }
+
+        .alert-rule-grid input,
+        .alert-rule-grid select {
+          padding: 0.5rem;
+          border: 1px solid #d1d5db;
+          border-radius: 6px;
+          font-size: 0.875rem;
+          font-family: inherit;
+        }
+
+        .alert-rule-enabled {
+          display: flex;
+          align-items: center;
+          gap: 0.375rem;
+          margin-top: 0.75rem;
+          font-size: 0.875rem;
+          color: #374151;
+        }
+
+        .alert-rule-form-actions {
+          display: flex;
+          gap: 0.5rem;
+          margin-top: 1rem;
+        }
+
+        .alert-save-button,
+        .alert-cancel-button {
+          margin-top: 0.5rem;
+          padding: 0.5rem 1rem;
+          border-radius: 6px;
+          font-size: 0.875rem;
+          font-weight: 500;
+          cursor: pointer;
+        }
+
+        .alert-save-button {
+          background: #0078d4;
+          border: 1px solid #0078d4;
+          color: white;
+        }
+
+        .alert-cancel-button {
+          background: white;
+          border: 1px solid #d1d5db;
+          color: #374151;
+        }
+
+        .alert-save-button:disabled,
+        .alert-cancel-button:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+
+        .alert-deliveries {
+          margin-top: 1.25rem;
+        }
+
+        .alert-deliveries h5 {
+          margin: 0 0 0.5rem;
+          color: #1e293b;
+        }
+
+        .alert-deliveries table {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 0.8125rem;
+        }
+
+        .alert-deliveries th,
+        .alert-deliveries td {
+          padding: 0.375rem 0.5rem;
+          border-bottom: 1px solid #e5e7eb;
+          text-align: left;
+        }
+
+        .alert-deliveries th {
+          color: #64748b;
+          font-weight: 500;
+        }
+
+        .alert-delivered {
+          color: #107c10;
+        }
+
+        .alert-failed {
+          color: #dc2626;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default AlertRulesEditor;
@@ -3,7 +3,7 @@ import { useAuth } from '../../hooks/useAuth';
 import { useAssessment } from '../../hooks/useAssessment';
 import { Assessment } from '../../models/Assessment';
 import { Tenant } from '../../models/Tenant';
-import { SECURITY_CATEGORIES } from '../../shared/constants';
+import { ASSESSMENT_DOCUMENT_VERSION, SECURITY_CATEGORIES } from '../../shared/constants';
 
 interface AssessmentFormProps {
   tenantId: string;
@@ -79,6 +79,8 @@ const AssessmentForm: React.FC<AssessmentFormProps> = ({
       lastModified: new Date(),
       recommendations: [],
       metrics: {
+        schemaVersion: ASSESSMENT_DOCUMENT_VERSION,
+        includedCategories: [],
         license: {
           totalLicenses: 0,
           assignedLicenses: 0,
@@ -98,7 +100,11 @@ const AssessmentForm: React.FC<AssessmentFormProps> = ({
           license: 0,
           secureScore: 0
         },
-        lastUpdated: new Date()
+        lastUpdated: new Date().toISOString(),
+        realData: {
+          dataSource: 'Not collected',
+          lastUpdated: new Date().toISOString()
+        }
       }
     };
 
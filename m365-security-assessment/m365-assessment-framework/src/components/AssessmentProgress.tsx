@@ -0,0 +1,76 @@
+import React, { useEffect, useRef } from 'react';
+import { useAssessmentProgress } from '../hooks/useAssessmentProgress';
+import { AssessmentCategoryStatus, AssessmentJobStatus } from '../models/Assessment';
+import { SECURITY_CATEGORIES } from '../shared/constants';
+import './AssessmentProgress.css';
+
+interface AssessmentProgressProps {
+  assessmentId: string;
+  title?: string;
+  onFinished?: (jobStatus: AssessmentJobStatus) => void;
+}
+
+const STATUS_ICONS: Record<AssessmentCategoryStatus, string> = {
+  pending: '⏳',
+  running: '🔄',
+  completed: '✅',
+  failed: '❌',
+  skipped: '⏭️'
+};
+
+const getCategoryLabel = (category: string): string =>
+  (SECURITY_CATEGORIES as Record<string, string>)[category] || category;
+
+const AssessmentProgress: React.FC<AssessmentProgressProps> = ({ assessmentId, title = 'Assessment in progress', onFinished }) => {
+  const { jobStatus, isRunning, timedOut, error } = useAssessmentProgress(assessmentId);
+  const notifiedRef = useRef(false);
+
+  useEffect(() => {
+    if (jobStatus && jobStatus.status !== 'in-progress' && !notifiedRef.current) {
+      notifiedRef.current = true;
+      onFinished?.(jobStatus);
+    }
+  }, [jobStatus, onFinished]);
+
+  const percentComplete = jobStatus?.percentComplete ?? 0;
+  const categories = Object.entries(jobStatus?.categories || {});
+
+  return (
+    <div className={`assessment-progress ${jobStatus?.status === 'failed' ? 'failed' : ''}`}>
+      <div className="assessment-progress-header">
+        <h3>
+          {isRunning ? title
+            : timedOut ? 'Assessment still running'
+            : jobStatus?.status === 'failed' ? 'Assessment failed' : 'Assessment completed'}
+        </h3>
+        <span className="assessment-progress-percent">{percentComplete}%</span>
+      </div>
+
+      <div className="assessment-progress-bar">
+        <div className="assessment-progress-fill" style={{ width: `${percentComplete}%` }} />
+      </div>
+
+      {categories.length > 0 && (
+        <ul className="assessment-progress-categories">
+          {categories.map(([category, progress]) => (
+            <li key={category} className={`assessment-progress-category ${progress.status}`}>
+              <span className="category-icon">{STATUS_ICONS[progress.status]}</span>
+              <span className="category-name">{getCategoryLabel(category)}</span>
+              <span className="category-status">{progress.status}</span>
+              {progress.error && <span className="category-error">{progress.error}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {jobStatus?.error && <div className="assessment-progress-error">{jobStatus.error}</div>}
+      {error && (
+        <div className="assessment-progress-warning">
+          {timedOut ? error : `Unable to refresh progress: ${error}`}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AssessmentProgress;
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { AssessmentService } from '../../services/assessmentService';
 import { LicenseReport } from '../LicenseReport';
+import { LicenseEntitlementAnalysis } from '../../models/LicenseEntitlements';
 import './AssessmentResults.css';
 
 interface AssessmentData {
@@ -16,6 +17,7 @@ interface AssessmentData {
       license: number;
       secureScore: number;
     };
+    licenseEntitlements?: LicenseEntitlementAnalysis;
     realData?: {
       licenseInfo?: any;
       secureScore?: any;
@@ -244,6 +246,8 @@ export const AssessmentResults: React.FC = () => {
               licenseInfo={assessment.metrics.realData.licenseInfo}
               tenantName={assessment.tenantName || assessment.tenantId}
               assessmentDate={assessment.assessmentDate}
+              customerId={assessment.customerId}
+              entitlements={assessment.metrics.licenseEntitlements}
             />
           </div>
         )}
@@ -0,0 +1,419 @@
+import React, { useEffect, useState } from 'react';
+import { CustomerService } from '../../services/customerService';
+import { AssessmentSchedule, AssessmentScheduleInput, ScheduleRunStatus } from '../../models/AssessmentSchedule';
+import { SECURITY_CATEGORIES } from '../../shared/constants';
+
+interface AssessmentScheduleEditorProps {
+  customerId: string;
+  onChanged?: (schedules: AssessmentSchedule[]) => void;
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const RUN_STATUS_LABELS: Record<ScheduleRunStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  succeeded: 'Succeeded',
+  failed: 'Failed',
+  retrying: 'Retrying'
+};
+
+// Mirrors DEFAULT_ASSESSMENT_CATEGORIES and DEFAULT_RETRY_POLICY in the API
+const EMPTY_SCHEDULE: AssessmentScheduleInput = {
+  frequency: 'weekly',
+  dayOfWeek: 1,
+  dayOfMonth: 1,
+  hour: 2,
+  minute: 0,
+  cronExpression: '0 2 * * 1',
+  includedCategories: ['license', 'secureScore', 'identity', 'compliance'],
+  retryPolicy: { maxRetries: 2, retryDelayMinutes: 60 },
+  enabled: true
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const describeSchedule = (schedule: AssessmentScheduleInput): string => {
+  const time = `${pad(schedule.hour)}:${pad(schedule.minute)} UTC`;
+  if (schedule.frequency === 'weekly') return `Every ${DAY_NAMES[schedule.dayOfWeek ?? 0]} at ${time}`;
+  if (schedule.frequency === 'monthly') return `Monthly on day ${schedule.dayOfMonth} at ${time}`;
+  return `Cron: ${schedule.cronExpression} (UTC)`;
+};
+
+const AssessmentScheduleEditor: React.FC<AssessmentScheduleEditorProps> = ({ customerId, onChanged }) => {
+  const [schedules, setSchedules] = useState<AssessmentSchedule[]>([]);
+  const [form, setForm] = useState<AssessmentScheduleInput | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSchedules = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const result = await CustomerService.getInstance().getAssessmentSchedules(customerId);
+        if (!cancelled) setSchedules(result);
+      } catch (err: any) {
+        if (!cancelled) setError(err.response?.data?.message || err.message || 'Failed to load schedules');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadSchedules();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [customerId]);
+
+  const applySchedules = (next: AssessmentSchedule[]) => {
+    setSchedules(next);
+    onChanged?.(next);
+  };
+
+  const updateForm = (updates: Partial<AssessmentScheduleInput>) => {
+    setForm(prev => (prev ? { ...prev, ...updates } : prev));
+  };
+
+  const toggleCategory = (category: string) => {
+    if (!form) return;
+    updateForm({
+      includedCategories: form.includedCategories.includes(category)
+        ? form.includedCategories.filter(c => c !== category)
+        : [...form.includedCategories, category]
+    });
+  };
+
+  const startEdit = (schedule?: AssessmentSchedule) => {
+    setError(null);
+    setEditingId(schedule?.id || null);
+    setForm(schedule ? {
+      frequency: schedule.frequency,
+      dayOfWeek: schedule.dayOfWeek ?? EMPTY_SCHEDULE.dayOfWeek,
+      dayOfMonth: schedule.dayOfMonth ?? EMPTY_SCHEDULE.dayOfMonth,
+      hour: schedule.hour,
+      minute: schedule.minute,
+      cronExpression: schedule.cronExpression ?? EMPTY_SCHEDULE.cronExpression,
+      includedCategories: schedule.includedCategories,
+      retryPolicy: schedule.retryPolicy,
+      enabled: schedule.enabled
+    } : { ...EMPTY_SCHEDULE });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const service = CustomerService.getInstance();
+      if (editingId) {
+        const updated = await service.updateAssessmentSchedule(customerId, editingId, form);
+        applySchedules(schedules.map(s => (s.id === editingId ? updated : s)));
+      } else {
+        const created = await service.createAssessmentSchedule(customerId, form);
+        applySchedules([...schedules, created]);
+      }
+      setForm(null);
+      setEditingId(null);
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Failed to save the schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (scheduleId: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await CustomerService.getInstance().deleteAssessmentSchedule(customerId, scheduleId);
+      applySchedules(schedules.filter(s => s.id !== scheduleId));
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Failed to delete the schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="assessment-schedule-editor">Loading schedules...</div>;
+  }
+
+  return (
+    <div className="assessment-schedule-editor">
+      <h4>Scheduled Assessments</h4>
+      <p className="schedule-hint">
+        Recurring assessments run automatically and appear in the customer's assessment history. Failed runs are retried per the retry policy.
+      </p>
+
+      {error && <div className="error-message">{error}</div>}
+
+      {schedules.length === 0 && !form && <p className="schedule-hint">No schedules yet.</p>}
+
+      {schedules.map(schedule => (
+        <div key={schedule.id} className={`schedule-row ${schedule.enabled ? '' : 'schedule-disabled'}`}>
+          <div>
+            <div className="schedule-title">{describeSchedule(schedule)}{!schedule.enabled && ' (paused)'}</div>
+            <small>
+              {schedule.enabled && <>Next run {new Date(schedule.nextRunAt).toLocaleString()} · </>}
+              {schedule.lastRunAt
+                ? <>Last run {new Date(schedule.lastRunAt).toLocaleString()}: {schedule.lastRunStatus ? RUN_STATUS_LABELS[schedule.lastRunStatus] : 'Running'}</>
+                : 'Not run yet'}
+              {schedule.lastRunError && <> – {schedule.lastRunError}</>}
+            </small>
+          </div>
+          <div className="schedule-actions">
+            <button type="button" className="schedule-link-button" onClick={() => startEdit(schedule)} disabled={saving}>Edit</button>
+            <button type="button" className="schedule-link-button schedule-delete" onClick={() => handleDelete(schedule.id)} disabled={saving}>Delete</button>
+          </div>
+        </div>
+      ))}
+
+      {form ? (
+        <div className="schedule-form">
+          <div className="schedule-grid">
+            <label>
+              Frequency
+              <select value={form.frequency} onChange={e => updateForm({ frequency: e.target.value as AssessmentScheduleInput['frequency'] })}>
+                <option value="weekly">Weekly</option>
+                <option value="monthly">Monthly</option>
+                <option value="cron">Cron expression</option>
+              </select>
+            </label>
+
+            {form.frequency === 'weekly' && (
+              <label>
+                Day
+                <select value={form.dayOfWeek ?? 1} onChange={e => updateForm({ dayOfWeek: Number(e.target.value) })}>
+                  {DAY_NAMES.map((day, index) => <option key={day} value={index}>{day}</option>)}
+                </select>
+              </label>
+            )}
+
+            {form.frequency === 'monthly' && (
+              <label>
+                Day of month
+                <input type="number" min={1} max={28} value={form.dayOfMonth ?? 1} onChange={e => updateForm({ dayOfMonth: Number(e.target.value) })} />
+              </label>
+            )}
+
+            {form.frequency === 'cron' ? (
+              <label>
+                Cron (minute hour day month weekday, UTC)
+                <input type="text" value={form.cronExpression || ''} placeholder="0 2 * * 1" onChange={e => updateForm({ cronExpression: e.target.value })} />
+              </label>
+            ) : (
+              <label>
+                Time (UTC)
+                <input
+                  type="time"
+                  value={`${pad(form.hour)}:${pad(form.minute)}`}
+                  onChange={e => {
+                    const [hour, minute] = e.target.value.split(':').map(Number);
+                    updateForm({ hour: hour || 0, minute: minute || 0 });
+                  }}
+                />
+              </label>
+            )}
+
+            <label>
+              Retries after a failed run
+              <input
+                type="number"
+                min={0}
+                max={5}
+                value={form.retryPolicy.maxRetries}
+                onChange={e => updateForm({ retryPolicy: { ...form.retryPolicy, maxRetries: Number(e.target.value) } })}
+              />
+            </label>
+
+            <label>
+              Retry delay (minutes)
+              <input
+                type="number"
+                min={5}
+                max={1440}
+                value={form.retryPolicy.retryDelayMinutes}
+                onChange={e => updateForm({ retryPolicy: { ...form.retryPolicy, retryDelayMinutes: Number(e.target.value) } })}
+              />
+            </label>
+          </div>
+
+          <div className="schedule-categories">
+            {Object.entries(SECURITY_CATEGORIES).map(([key, name]) => (
+              <label key={key}>
+                <input type="checkbox" checked={form.includedCategories.includes(key)} onChange={() => toggleCategory(key)} />
+                {name}
+              </label>
+            ))}
+          </div>
+
+          <label className="schedule-enabled">
+            <input type="checkbox" checked={form.enabled} onChange={e => updateForm({ enabled: e.target.checked })} />
+            Enabled
+          </label>
+
+          <div className="schedule-form-actions">
+            <button type="button" className="schedule-save-button" onClick={handleSave} disabled={saving || form.includedCategories.length === 0}>
+              {saving ? 'Saving...' : editingId ? 'Save Schedule' : 'Add Schedule'}
+            </button>
+            <button type="button" className="schedule-cancel-button" onClick={() => { setForm(null); setEditingId(null); }} disabled={saving}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button type="button" className="schedule-save-button" onClick={() => startEdit()}>
+          New Schedule
+        </button>
+      )}
+
+      <style>{`
+        .assessment-schedule-editor {
+          margin: -0.25rem 0 0.75rem;
+          padding: 1rem;
+          border: 1px solid #e5e7eb;
+          border-radius: 0.5rem;
+          background: #f8fafc;
+        }
+
+        .assessment-schedule-editor h4 {
+          margin: 0 0 0.25rem;
+          color: #1e293b;
+        }
+
+        .schedule-hint {
+          margin: 0 0 0.75rem;
+          font-size: 0.875rem;
+          color: #64748b;
+        }
+
+        .schedule-row {
+          display: flex;
+          justify-content: space-between;
+          align-items: flex-start;
+          gap: 1rem;
+          padding: 0.5rem 0;
+          border-bottom: 1px solid #e5e7eb;
+          font-size: 0.875rem;
+        }
+
+        .schedule-row small {
+          color: #64748b;
+        }
+
+        .schedule-title {
+          font-weight: 500;
+          color: #1e293b;
+        }
+
+        .schedule-disabled .schedule-title {
+          color: #94a3b8;
+        }
+
+        .schedule-actions {
+          display: flex;
+          gap: 0.5rem;
+        }
+
+        .schedule-link-button {
+          background: none;
+          border: none;
+          color: #0078d4;
+          cursor: pointer;
+          font-size: 0.875rem;
+        }
+
+        .schedule-link-button.schedule-delete {
+          color: #dc2626;
+        }
+
+        .schedule-form {
+          margin-top: 0.75rem;
+        }
+
+        .schedule-grid {
+          display: grid;
+          grid-template-columns: 1fr 1fr;
+          gap: 0.75rem 1rem;
+        }
+
+        .schedule-grid label {
+          display: flex;
+          flex-direction: column;
+          gap: 0.25rem;
+          font-size: 0.875rem;
+          font-weight: 500;
+          color: #374151;
+        }
+
+        .schedule-grid input,
+        .schedule-grid select {
+          padding: 0.5rem;
+          border: 1px solid #d1d5db;
+          border-radius: 6px;
+          font-size: 0.875rem;
+          font-family: inherit;
+        }
+
+        .schedule-categories {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.5rem 1rem;
+          margin: 0.75rem 0;
+          font-size: 0.875rem;
+        }
+
+        .schedule-categories label,
+        .schedule-enabled {
+          display: flex;
+          align-items: center;
+          gap: 0.375rem;
+          font-size: 0.875rem;
+          color: #374151;
+        }
+
+        .schedule-form-actions {
+          display: flex;
+          gap: 0.5rem;
+          margin-top: 1rem;
+        }
+
+        .schedule-save-button,
+        .schedule-cancel-button {
+          margin-top: 0.5rem;
+          padding: 0.5rem 1rem;
+          border-radius: 6px;
+          font-size: 0.875rem;
+          font-weight: 500;
+          cursor: pointer;
+        }
+
+        .schedule-save-button {
+          background: #0078d4;
+          border: 1px solid #0078d4;
+          color: white;
+        }
+
+        .schedule-cancel-button {
+          background: white;
+          border: 1px solid #d1d5db;
+          color: #374151;
+        }
+
+        .schedule-save-button:disabled,
+        .schedule-cancel-button:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default AssessmentScheduleEditor;
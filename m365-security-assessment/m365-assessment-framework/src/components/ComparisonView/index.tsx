@@ -1,6 +1,16 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Assessment } from '../../models/Assessment';
+import { AssessmentDiff, AssessmentDiffSection } from '../../models/AssessmentDiff';
 import { useComparison } from '../../hooks/useComparison';
+import { AssessmentService } from '../../services/assessmentService';
+
+const DIFF_SECTION_LABELS: Record<AssessmentDiffSection, string> = {
+  licenses: 'License SKUs',
+  secureScoreControls: 'Secure Score controls',
+  privilegedUsers: 'Privileged users',
+  mfaRegistration: 'MFA registration',
+  deviceCompliance: 'Device compliance'
+};
 
 interface ComparisonViewProps {
   assessment: Assessment;
@@ -20,6 +30,8 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
     compareWithBestPractices, 
     compareWithPrevious 
   } = useComparison();
+  const [diff, setDiff] = useState<AssessmentDiff | null>(null);
+  const [diffError, setDiffError] = useState<string | null>(null);
 
   useEffect(() => {
     const runComparison = async () => {
@@ -33,6 +45,29 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
     runComparison();
   }, [assessment, previousAssessmentId, compareToBestPractices]);
 
+  // Structural tenant changes are only available when comparing two assessments
+  useEffect(() => {
+    let cancelled = false;
+    setDiff(null);
+    setDiffError(null);
+
+    if (!previousAssessmentId) {
+      return;
+    }
+
+    AssessmentService.getInstance().getAssessmentDiff(previousAssessmentId, assessment.id)
+      .then(result => {
+        if (!cancelled) setDiff(result);
+      })
+      .catch((err: any) => {
+        if (!cancelled) setDiffError(err.response?.data?.message || err.message || 'Failed to load tenant changes');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [assessment.id, previousAssessmentId]);
+
   if (loading) {
     return <div>Loading comparison...</div>;
   }
@@ -41,10 +76,19 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
     return <div className="error-message">{error}</div>;
   }
 
-  if (!comparisonResults || comparisonResults.length === 0) {
+  const hasComparisonResults = !!comparisonResults && comparisonResults.length > 0;
+
+  if (!hasComparisonResults && !previousAssessmentId) {
     return <div>No comparison data available</div>;
   }
 
+  const renderChangeList = (title: string, items: React.ReactNode[]) => items.length > 0 && (
+    <div className="tenant-change-group">
+      <h5>{title} ({items.length})</h5>
+      <ul>{items}</ul>
+    </div>
+  );
+
   return (
     <div className="comparison-view">
       <h3>
@@ -54,8 +98,10 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
         }
       </h3>
 
+      {!hasComparisonResults && <div>No comparison data available</div>}
+
       <div className="comparison-grid">
-        {comparisonResults.map((result, index) => (
+        {(comparisonResults || []).map((result, index) => (
           <div key={index} className="comparison-item">
             <div className="category-header">
               <h4>{result.category}</h4>
@@ -93,6 +139,62 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
         ))}
       </div>
 
+      {previousAssessmentId && (
+        <div className="tenant-changes">
+          <h3>Tenant Changes</h3>
+          {diffError && <div className="error-message">{diffError}</div>}
+          {!diff && !diffError && <div>Loading tenant changes...</div>}
+          {diff && (
+            <>
+              <div className="tenant-change-summary">
+                {(Object.keys(DIFF_SECTION_LABELS) as AssessmentDiffSection[]).map(section => (
+                  <div key={section} className="tenant-change-count">
+                    <span className="value">
+                      {diff.unavailable.includes(section) ? 'n/a' : diff.summary[section]}
+                    </span>
+                    <span className="label">{DIFF_SECTION_LABELS[section]}</span>
+                  </div>
+                ))}
+              </div>
+
+              {renderChangeList('Licenses added', diff.licenses.added.map(sku => <li key={sku}>{sku}</li>))}
+              {renderChangeList('Licenses removed', diff.licenses.removed.map(sku => <li key={sku}>{sku}</li>))}
+              {renderChangeList('License quantities changed', diff.licenses.changed.map(change => (
+                <li key={change.skuPartNumber}>
+                  {change.skuPartNumber}: {change.fromConsumed}/{change.fromUnits} → {change.toConsumed}/{change.toUnits} assigned
+                </li>
+              )))}
+              {renderChangeList('Secure Score controls', diff.secureScoreControls.map(change => (
+                <li key={change.controlName} className={`change-${change.direction}`}>
+                  {change.title}: {change.fromStatus} → {change.toStatus}
+                </li>
+              )))}
+              {renderChangeList('Gained privileged roles', diff.privilegedUsers.gained.map(user => <li key={user} className="change-regressed">{user}</li>))}
+              {renderChangeList('Lost privileged roles', diff.privilegedUsers.lost.map(user => <li key={user} className="change-improved">{user}</li>))}
+              {renderChangeList('Privileged role changes', diff.privilegedUsers.roleChanges.map(change => (
+                <li key={change.userPrincipalName}>
+                  {change.userPrincipalName}
+                  {change.addedRoles.length > 0 && ` +${change.addedRoles.join(', +')}`}
+                  {change.removedRoles.length > 0 && ` -${change.removedRoles.join(', -')}`}
+                </li>
+              )))}
+              {renderChangeList('Registered for MFA', diff.mfaRegistration.registered.map(user => <li key={user} className="change-improved">{user}</li>))}
+              {renderChangeList('No longer registered for MFA', diff.mfaRegistration.unregistered.map(user => <li key={user} className="change-regressed">{user}</li>))}
+              {renderChangeList('Devices now compliant', diff.deviceCompliance.becameCompliant.map(change => (
+                <li key={change.deviceId} className="change-improved">{change.deviceName} ({change.fromState} → {change.toState})</li>
+              )))}
+              {renderChangeList('Devices no longer compliant', diff.deviceCompliance.becameNonCompliant.map(change => (
+                <li key={change.deviceId} className="change-regressed">{change.deviceName} ({change.fromState} → {change.toState})</li>
+              )))}
+
+              {Object.values(diff.summary).every(count => count === 0) && (
+                <p>No structural changes detected between the two assessments.</p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
       <style>{`
         .comparison-view {
           padding: 20px;
@@ -203,6 +305,43 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
           color: #333;
         }
 
+        .tenant-changes {
+          margin-top: 24px;
+        }
+
+        .tenant-change-summary {
+          display: grid;
+          grid-template-columns: repeat(5, 1fr);
+          gap: 12px;
+          margin-bottom: 16px;
+        }
+
+        .tenant-change-count {
+          background: #f8f8f8;
+          border-radius: 6px;
+          padding: 12px;
+          text-align: center;
+        }
+
+        .tenant-change-group h5 {
+          margin: 12px 0 4px;
+          color: #333;
+        }
+
+        .tenant-change-group ul {
+          margin: 0;
+          padding-left: 20px;
+          font-size: 14px;
+        }
+
+        .change-improved {
+          color: #107c10;
+        }
+
+        .change-regressed {
+          color: #d83b01;
+        }
+
         .error-message {
           color: #d83b01;
           padding: 10px;
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { BenchmarkResult, ComplianceControlResult } from '../../models/Compliance';
+
+interface ComplianceBenchmarkProps {
+  benchmark: BenchmarkResult;
+}
+
+const RESULT_LABELS: Record<ComplianceControlResult, string> = {
+  pass: 'Pass',
+  fail: 'Fail',
+  manual: 'Manual'
+};
+
+const ComplianceBenchmark: React.FC<ComplianceBenchmarkProps> = ({ benchmark }) => {
+  const [resultFilter, setResultFilter] = useState<ComplianceControlResult | 'all'>('all');
+
+  const controls = resultFilter === 'all'
+    ? benchmark.controls
+    : benchmark.controls.filter(control => control.result === resultFilter);
+
+  return (
+    <div className="compliance-benchmark">
+      <div className="benchmark-header">
+        <div>
+          <h4>{benchmark.name}</h4>
+          <span className="benchmark-version">v{benchmark.version} · evaluated {new Date(benchmark.evaluatedAt).toLocaleDateString()}</span>
+        </div>
+        <div className="benchmark-percentage">
+          {benchmark.percentage === null ? 'n/a' : `${benchmark.percentage}%`}
+        </div>
+      </div>
+
+      <div className="benchmark-summary">
+        {(['pass', 'fail', 'manual'] as ComplianceControlResult[]).map(result => (
+          <button
+            key={result}
+            className={`benchmark-count result-${result} ${resultFilter === result ? 'active' : ''}`}
+            onClick={() => setResultFilter(resultFilter === result ? 'all' : result)}
+          >
+            <span className="count">{result === 'pass' ? benchmark.passed : result === 'fail' ? benchmark.failed : benchmark.manual}</span>
+            <span className="label">{RESULT_LABELS[result]}</span>
+          </button>
+        ))}
+      </div>
+
+      <table className="benchmark-table">
+        <thead>
+          <tr>
+            <th>Control</th>
+            <th>Recommendation</th>
+            <th>Level</th>
+            <th>Result</th>
+            <th>Details</th>
+          </tr>
+        </thead>
+        <tbody>
+          {controls.map(control => (
+            <tr key={control.controlId}>
+              <td className="control-id">{control.controlId}</td>
+              <td>
+                <div>{control.title}</div>
+                <div className="control-section">{control.section}</div>
+              </td>
+              <td>L{control.level}</td>
+              <td>
+                <span className={`result-badge result-${control.result}`}>{RESULT_LABELS[control.result]}</span>
+              </td>
+              <td className="control-details">{control.details}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className="benchmark-note">
+        The percentage counts controls evaluated automatically. Manual controls need to be verified in the tenant.
+      </p>
+
+      <style>{`
+        .compliance-benchmark {
+          width: 100%;
+        }
+
+        .benchmark-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          margin-bottom: 16px;
+        }
+
+        .benchmark-header h4 {
+          margin: 0 0 4px 0;
+        }
+
+        .benchmark-version,
+        .control-section,
+        .benchmark-note {
+          font-size: 12px;
+          color: #666;
+        }
+
+        .benchmark-percentage {
+          font-size: 32px;
+          font-weight: bold;
+          color: #0078d4;
+        }
+
+        .benchmark-summary {
+          display: grid;
+          grid-template-columns: repeat(3, 1fr);
+          gap: 12px;
+          margin-bottom: 16px;
+        }
+
+        .benchmark-count {
+          background: #f8f8f8;
+          border: 2px solid transparent;
+          border-radius: 6px;
+          padding: 12px;
+          text-align: center;
+          cursor: pointer;
+        }
+
+        .benchmark-count.active {
+          border-color: #0078d4;
+        }
+
+        .benchmark-count .count {
+          display: block;
+          font-size: 24px;
+          font-weight: bold;
+        }
+
+        .benchmark-count .label {
+          font-size: 12px;
+          color: #666;
+        }
+
+        .benchmark-table {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 14px;
+        }
+
+        .benchmark-table th,
+        .benchmark-table td {
+          padding: 8px;
+          border-bottom: 1px solid #eee;
+          text-align: left;
+          vertical-align: top;
+        }
+
+        .control-id {
+          font-family: monospace;
+          white-space: nowrap;
+        }
+
+        .control-details {
+          color: #444;
+        }
+
+        .result-badge {
+          padding: 2px 8px;
+          border-radius: 4px;
+          font-size: 12px;
+          font-weight: 600;
+        }
+
+        .result-pass,
+        .benchmark-count.result-pass .count {
+          color: #107c10;
+        }
+
+        .result-fail,
+        .benchmark-count.result-fail .count {
+          color: #d83b01;
+        }
+
+        .result-manual,
+        .benchmark-count.result-manual .count {
+          color: #666666;
+        }
+
+        .result-badge.result-pass {
+          background: #dff6dd;
+        }
+
+        .result-badge.result-fail {
+          background: #fed9cc;
+        }
+
+        .result-badge.result-manual {
+          background: #f3f2f1;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default ComplianceBenchmark;
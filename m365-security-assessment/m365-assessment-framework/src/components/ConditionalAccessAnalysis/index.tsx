@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { ConditionalAccessAnalysis as Analysis, ConditionalAccessPolicySummary } from '../../models/ConditionalAccess';
+
+interface ConditionalAccessAnalysisProps {
+  analysis: Analysis;
+}
+
+const STATE_LABELS: Record<ConditionalAccessPolicySummary['state'], string> = {
+  enabled: 'On',
+  reportOnly: 'Report-only',
+  disabled: 'Off'
+};
+
+const describeUsers = (policy: ConditionalAccessPolicySummary): string => {
+  const { users } = policy;
+  const included = users.includesAllUsers
+    ? 'All users'
+    : [
+        users.includeUsers.length > 0 && `${users.includeUsers.length} users`,
+        users.includeGroups.length > 0 && `${users.includeGroups.length} groups`,
+        users.includeRoles.length > 0 && `${users.includeRoles.length} roles`
+      ].filter(Boolean).join(', ') || 'None';
+  const excluded = users.excludeUsers.length + users.excludeGroups.length + users.excludeRoles.length;
+
+  return excluded > 0 ? `${included} (${excluded} excluded)` : included;
+};
+
+const describeGrant = (policy: ConditionalAccessPolicySummary): string => {
+  const controls = [...policy.grant.controls];
+  if (policy.grant.authenticationStrength) {
+    controls.push(`strength: ${policy.grant.authenticationStrength}`);
+  }
+  const grant = controls.length > 0 ? controls.join(` ${policy.grant.operator} `) : 'No grant controls';
+
+  return policy.sessionControls.length > 0 ? `${grant}; session: ${policy.sessionControls.join(', ')}` : grant;
+};
+
+const ConditionalAccessAnalysis: React.FC<ConditionalAccessAnalysisProps> = ({ analysis }) => {
+  const [expandedPolicyId, setExpandedPolicyId] = useState<string | null>(null);
+
+  return (
+    <div className="ca-analysis">
+      <div className="ca-summary">
+        <div className="ca-count"><span className="count">{analysis.totalPolicies}</span><span className="label">Policies</span></div>
+        <div className="ca-count"><span className="count">{analysis.enabledPolicies}</span><span className="label">Enabled</span></div>
+        <div className="ca-count"><span className="count">{analysis.reportOnlyPolicies}</span><span className="label">Report-only</span></div>
+        <div className="ca-count"><span className="count">{analysis.gaps.length}</span><span className="label">Coverage gaps</span></div>
+      </div>
+
+      <h4>Coverage Gaps</h4>
+      {analysis.gaps.length === 0 ? (
+        <p className="ca-no-gaps">No coverage gaps detected.</p>
+      ) : (
+        <ul className="ca-gaps">
+          {analysis.gaps.map(gap => (
+            <li key={gap.type} className="ca-gap">
+              <span className={`ca-severity severity-${gap.severity}`}>{gap.severity}</span>
+              <div>
+                <strong>{gap.title}</strong>
+                <p>{gap.description}</p>
+                {gap.affected.length > 0 && <p className="ca-affected">{gap.affected.join(', ')}</p>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <h4>Policies</h4>
+      <table className="ca-policies">
+        <thead>
+          <tr>
+            <th>Policy</th>
+            <th>State</th>
+            <th>Users</th>
+            <th>Applications</th>
+            <th>Controls</th>
+          </tr>
+        </thead>
+        <tbody>
+          {analysis.policies.map(policy => (
+            <React.Fragment key={policy.id}>
+              <tr
+                className={`ca-policy ${policy.issues.length > 0 ? 'has-issues' : ''}`}
+                onClick={() => setExpandedPolicyId(expandedPolicyId === policy.id ? null : policy.id)}
+              >
+                <td>{policy.displayName}</td>
+                <td><span className={`ca-state state-${policy.state}`}>{STATE_LABELS[policy.state]}</span></td>
+                <td>{describeUsers(policy)}</td>
+                <td>{policy.applications.includesAllApplications ? 'All cloud apps' : `${policy.applications.includeApplications.length} apps`}</td>
+                <td>{describeGrant(policy)}</td>
+              </tr>
+              {expandedPolicyId === policy.id && (
+                <tr className="ca-policy-detail">
+                  <td colSpan={5}>
+                    <div>Client apps: {policy.clientAppTypes.join(', ') || 'all'}</div>
+                    {policy.userRiskLevels.length > 0 && <div>User risk: {policy.userRiskLevels.join(', ')}</div>}
+                    {policy.signInRiskLevels.length > 0 && <div>Sign-in risk: {policy.signInRiskLevels.join(', ')}</div>}
+                    {policy.issues.length > 0 && (
+                      <ul>
+                        {policy.issues.map(issue => <li key={issue}>{issue}</li>)}
+                      </ul>
+                    )}
+                  </td>
+                </tr>
+              )}
+            </React.Fragment>
+          ))}
+        </tbody>
+      </table>
+
+      <style>{`
+        .ca-analysis {
+          width: 100%;
+        }
+
+        .ca-summary {
+          display: grid;
+          grid-template-columns: repeat(4, 1fr);
+          gap: 12px;
+          margin-bottom: 16px;
+        }
+
+        .ca-count {
+          background: #f8f8f8;
+          border-radius: 6px;
+          padding: 12px;
+          text-align: center;
+        }
+
+        .ca-count .count {
+          display: block;
+          font-size: 24px;
+          font-weight: bold;
+        }
+
+        .ca-count .label,
+        .ca-affected {
+          font-size: 12px;
+          color: #666;
+        }
+
+        .ca-gaps {
+          list-style: none;
+          margin: 0 0 16px 0;
+          padding: 0;
+        }
+
+        .ca-gap {
+          display: flex;
+          gap: 12px;
+          align-items: flex-start;
+          padding: 8px 0;
+          border-bottom: 1px solid #eee;
+        }
+
+        .ca-gap p {
+          margin: 4px 0 0 0;
+          font-size: 14px;
+        }
+
+        .ca-severity {
+          padding: 2px 6px;
+          border-radius: 4px;
+          font-size: 12px;
+          text-transform: uppercase;
+        }
+
+        .severity-critical {
+          background: #fde7e9;
+          color: #a80000;
+        }
+
+        .severity-high {
+          background: #fed9cc;
+          color: #d83b01;
+        }
+
+        .severity-medium {
+          background: #fff4ce;
+          color: #9d5d00;
+        }
+
+        .severity-low {
+          background: #f3f2f1;
+          color: #666666;
+        }
+
+        .ca-policies {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 14px;
+        }
+
+        .ca-policies th,
+        .ca-policies td {
+          padding: 8px;
+          border-bottom: 1px solid #eee;
+          text-align: left;
+          vertical-align: top;
+        }
+
+        .ca-policy {
+          cursor: pointer;
+        }
+
+        .ca-policy.has-issues td:first-child {
+          border-left: 3px solid #ffb900;
+        }
+
+        .ca-policy-detail td {
+          background: #fafafa;
+          font-size: 13px;
+        }
+
+        .ca-state {
+          font-weight: 600;
+        }
+
+        .state-enabled {
+          color: #107c10;
+        }
+
+        .state-reportOnly {
+          color: #9d5d00;
+        }
+
+        .state-disabled {
+          color: #666666;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default ConditionalAccessAnalysis;
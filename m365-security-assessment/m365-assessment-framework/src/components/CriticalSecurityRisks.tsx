@@ -1,14 +1,54 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import './CriticalSecurityRisks.css';
 import { Assessment } from '../models/Assessment';
+import { SecurityFinding } from '../models/Finding';
+import { AssessmentService } from '../services/assessmentService';
 
 interface CriticalSecurityRisksProps {
   assessment: Assessment;
 }
 
 const CriticalSecurityRisks: React.FC<CriticalSecurityRisksProps> = ({ assessment }) => {
+  const [findings, setFindings] = useState<SecurityFinding[]>([]);
+
+  // Load the findings the rules engine stored for this assessment
+  useEffect(() => {
+    if (!assessment?.id) {
+      setFindings([]);
+      return;
+    }
+
+    let cancelled = false;
+    AssessmentService.getInstance().getAssessmentFindings(assessment.id)
+      .then(result => {
+        // Resolved entries only record what was fixed since the previous assessment
+        if (!cancelled) setFindings(result.filter(finding => finding.lifecycle !== 'resolved'));
+      })
+      .catch(() => {
+        // Older assessments have no stored findings - fall back to the metrics based risks
+        if (!cancelled) setFindings([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [assessment?.id]);
+
   // Extract real security risks from assessment data
   const getSecurityRisksFromAssessment = () => {
+    if (findings.length > 0) {
+      return findings.slice(0, 3).map(finding => ({
+        id: finding.id,
+        title: finding.title,
+        description: finding.description,
+        severity: finding.severity,
+        // Icons exist for identity, security, data and license risks
+        category: finding.category === 'secureScore' || finding.category === 'endpoint' ? 'security' : finding.category,
+        affectedResources: finding.affectedResources
+      }));
+    }
+
+
     const risks = [];
     
     // If no real data is available, show setup message
@@ -107,6 +147,8 @@ const CriticalSecurityRisks: React.FC<CriticalSecurityRisksProps> = ({ assessmen
   
   const renderSeverityBadge = (severity: string) => {
     switch(severity) {
+      case 'critical':
+        return <span className="severity-badge critical">Critical Risk</span>;
       case 'high':
         return <span className="severity-badge high">High Risk</span>;
       case 'medium':
@@ -161,6 +203,12 @@ const CriticalSecurityRisks: React.FC<CriticalSecurityRisksProps> = ({ assessmen
                 {renderSeverityBadge(risk.severity)}
               </div>
               <p className="risk-description">{risk.description}</p>
+              {risk.affectedResources && risk.affectedResources.length > 0 && (
+                <p className="risk-affected">
+                  Affected: {risk.affectedResources.slice(0, 3).join(', ')}
+                  {risk.affectedResources.length > 3 && ` and ${risk.affectedResources.length - 3} more`}
+                </p>
+              )}
               <div className="risk-actions">
                 <button className="details-button">View details</button>
               </div>
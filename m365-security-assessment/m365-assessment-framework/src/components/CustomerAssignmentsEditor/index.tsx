@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { CustomerService } from '../../services/customerService';
+import { CustomerAssignment } from '../../models/UserAccess';
+
+interface CustomerAssignmentsEditorProps {
+  customerId: string;
+}
+
+const CustomerAssignmentsEditor: React.FC<CustomerAssignmentsEditorProps> = ({ customerId }) => {
+  const [assignments, setAssignments] = useState<CustomerAssignment[]>([]);
+  const [userPrincipalName, setUserPrincipalName] = useState('');
+  const [objectId, setObjectId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadAssignments = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const list = await CustomerService.getInstance().getCustomerAssignments(customerId);
+        if (!cancelled) setAssignments(list);
+      } catch (err: any) {
+        if (!cancelled) setError(err.response?.data?.message || err.message || 'Failed to load assignments');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadAssignments();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [customerId]);
+
+  const handleAssign = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const assignment = await CustomerService.getInstance().assignCustomerUser(customerId, {
+        userId: objectId.trim() || undefined,
+        userPrincipalName: userPrincipalName.trim() || undefined
+      });
+      setAssignments(prev => [...prev.filter(a => a.userId !== assignment.userId), assignment]);
+      setUserPrincipalName('');
+      setObjectId('');
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Failed to assign the user');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (userId: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await CustomerService.getInstance().unassignCustomerUser(customerId, userId);
+      setAssignments(prev => prev.filter(a => a.userId !== userId));
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Failed to remove the assignment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="assignments-editor">Loading assignments...</div>;
+  }
+
+  return (
+    <div className="assignments-editor">
+      <h4>Assigned Users</h4>
+      <p className="assignments-hint">
+        Consultants and viewers only see customers they are assigned to. Admins always see every customer.
+      </p>
+
+      {error && <div className="error-message">{error}</div>}
+
+      {assignments.length === 0 && <p className="assignments-hint">No users assigned yet.</p>}
+
+      {assignments.map(assignment => (
+        <div key={assignment.userId} className="assignment-row">
+          <div>
+            <div className="assignment-name">{assignment.userPrincipalName || assignment.userId}</div>
+            <small>
+              {assignment.userPrincipalName && assignment.userPrincipalName !== assignment.userId && `${assignment.userId} · `}
+              Assigned {new Date(assignment.assignedAt).toLocaleDateString()}
+              {assignment.assignedBy && ` by ${assignment.assignedBy}`}
+            </small>
+          </div>
+          <button type="button" className="assignment-remove" onClick={() => handleRemove(assignment.userId)} disabled={saving}>
+            Remove
+          </button>
+        </div>
+      ))}
+
+      <div className="assignment-form">
+        <input
+          type="text"
+          value={userPrincipalName}
+          placeholder="consultant@yourcompany.com"
+          onChange={e => setUserPrincipalName(e.target.value)}
+        />
+        <input
+          type="text"
+          value={objectId}
+          placeholder="Entra object ID (optional)"
+          onChange={e => setObjectId(e.target.value)}
+        />
+        <button
+          type="button"
+          className="assignment-add"
+          onClick={handleAssign}
+          disabled={saving || (!userPrincipalName.trim() && !objectId.trim())}
+        >
+          {saving ? 'Saving...' : 'Assign'}
+        </button>
+      </div>
+
+      <style>{`
+        .assignments-editor {
+          margin: -0.25rem 0 0.75rem;
+          padding: 1rem;
+          border: 1px solid #e5e7eb;
+          border-radius: 0.5rem;
+          background: #f8fafc;
+        }
+
+        .assignments-editor h4 {
+          margin: 0 0 0.25rem;
+          color: #1e293b;
+        }
+
+        .assignments-hint {
+          margin: 0 0 0.75rem;
+          font-size: 0.875rem;
+          color: #64748b;
+        }
+
+        .assignment-row {
+          display: flex;
+          justify-content: space-between;
+          align-items: flex-start;
+          gap: 1rem;
+          padding: 0.5rem 0;
+          border-bottom: 1px solid #e5e7eb;
+          font-size: 0.875rem;
+        }
+
+        .assignment-row small {
+          color: #64748b;
+        }
+
+        .assignment-name {
+          font-weight: 500;
+          color: #1e293b;
+        }
+
+        .assignment-remove {
+          background: none;
+          border: none;
+          color: #dc2626;
+          cursor: pointer;
+          font-size: 0.875rem;
+        }
+
+        .assignment-form {
+          display: grid;
+          grid-template-columns: 1fr 1fr auto;
+          gap: 0.5rem;
+          margin-top: 0.75rem;
+        }
+
+        .assignment-form input {
+          padding: 0.5rem;
+          border: 1px solid #d1d5db;
+          border-radius: 6px;
+          font-size: 0.875rem;
+          font-family: inherit;
+        }
+
+        .assignment-add {
+          padding: 0.5rem 1rem;
+          background: #0078d4;
+          color: white;
+          border: none;
+          border-radius: 6px;
+          font-size: 0.875rem;
+          cursor: pointer;
+        }
+
+        .assignment-add:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default CustomerAssignmentsEditor;
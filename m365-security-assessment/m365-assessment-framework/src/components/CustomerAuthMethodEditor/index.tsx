@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { CustomerAuthSettings, CustomerService, TenantAuthMethod } from '../../services/customerService';
+
+interface CustomerAuthMethodEditorProps {
+  customerId: string;
+  onSaved?: (authMethod: TenantAuthMethod) => void;
+}
+
+const METHOD_LABELS: Record<TenantAuthMethod, string> = {
+  secret: 'Client secret',
+  certificate: 'Certificate (Key Vault)'
+};
+
+const CustomerAuthMethodEditor: React.FC<CustomerAuthMethodEditorProps> = ({ customerId, onSaved }) => {
+  const [settings, setSettings] = useState<CustomerAuthSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSettings = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const result = await CustomerService.getInstance().getCustomerAuthSettings(customerId);
+        if (!cancelled) setSettings(result);
+      } catch (err: any) {
+        if (!cancelled) setError(err.response?.data?.message || err.message || 'Failed to load authentication settings');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadSettings();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [customerId]);
+
+  const handleChange = async (authMethod: TenantAuthMethod) => {
+    if (!settings || authMethod === settings.authMethod) return;
+
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const saved = await CustomerService.getInstance().updateCustomerAuthMethod(customerId, authMethod);
+      setSettings({ ...settings, authMethod: saved });
+      setMessage(`Assessments now authenticate with ${METHOD_LABELS[saved].toLowerCase()}`);
+      onSaved?.(saved);
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Failed to update the authentication method');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="customer-auth-editor">Loading authentication settings...</div>;
+  }
+
+  if (!settings) {
+    return <div className="customer-auth-editor error-message">{error || 'Authentication settings are not available'}</div>;
+  }
+
+  return (
+    <div className="customer-auth-editor">
+      <h4>Tenant Authentication</h4>
+      <p className="auth-hint">
+        How the assessment app signs in to this customer's tenant.
+      </p>
+
+      {error && <div className="error-message">{error}</div>}
+      {message && <div className="auth-message">{message}</div>}
+
+      <div className="auth-options">
+        {settings.availableMethods.map(method => (
+          <label key={method} className="auth-option">
+            <input
+              type="radio"
+              name={`auth-method-${customerId}`}
+              value={method}
+              checked={settings.authMethod === method}
+              disabled={saving || (method === 'certificate' && !settings.certificateAvailable)}
+              onChange={() => handleChange(method)}
+            />
+            {METHOD_LABELS[method]}
+          </label>
+        ))}
+      </div>
+
+      {!settings.certificateAvailable && (
+        <p className="auth-hint">
+          Certificate authentication is unavailable: {settings.certificateError || 'no certificate configured'}
+        </p>
+      )}
+
+      <style>{`
+        .customer-auth-editor {
+          margin: -0.25rem 0 0.75rem;
+          padding: 1rem;
+          border: 1px solid #e5e7eb;
+          border-radius: 0.5rem;
+          background: #f8fafc;
+        }
+
+        .customer-auth-editor h4 {
+          margin: 0 0 0.25rem;
+          color: #1e293b;
+        }
+
+        .auth-hint {
+          margin: 0 0 0.75rem;
+          font-size: 0.875rem;
+          color: #64748b;
+        }
+
+        .auth-message {
+          margin-bottom: 0.75rem;
+          color: #107c10;
+          font-size: 0.875rem;
+        }
+
+        .auth-options {
+          display: flex;
+          gap: 1.5rem;
+          margin-bottom: 0.75rem;
+        }
+
+        .auth-option {
+          display: flex;
+          align-items: center;
+          gap: 0.375rem;
+          font-size: 0.875rem;
+          color: #374151;
+          cursor: pointer;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default CustomerAuthMethodEditor;
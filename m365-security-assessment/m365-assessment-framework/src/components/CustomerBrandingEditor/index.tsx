@@ -0,0 +1,338 @@
+import React, { useEffect, useState } from 'react';
+import { CustomerBranding, CustomerBrandingSettings, CustomerService, ReportLanguage } from '../../services/customerService';
+
+interface CustomerBrandingEditorProps {
+  customerId: string;
+  onSaved?: (branding: CustomerBranding | null) => void;
+}
+
+const LANGUAGE_NAMES: Record<ReportLanguage, string> = {
+  en: 'English',
+  de: 'Deutsch',
+  fr: 'Français',
+  es: 'Español',
+  nl: 'Nederlands'
+};
+
+// Must match MAX_LOGO_BYTES in api/shared/branding.ts
+const MAX_LOGO_BYTES = 256 * 1024;
+
+const CustomerBrandingEditor: React.FC<CustomerBrandingEditorProps> = ({ customerId, onSaved }) => {
+  const [settings, setSettings] = useState<CustomerBrandingSettings | null>(null);
+  const [branding, setBranding] = useState<CustomerBranding>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadBranding = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const result = await CustomerService.getInstance().getCustomerBranding(customerId);
+        if (!cancelled) {
+          setSettings(result);
+          setBranding(result.branding || {});
+        }
+      } catch (err: any) {
+        if (!cancelled) setError(err.response?.data?.message || err.message || 'Failed to load branding');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadBranding();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [customerId]);
+
+  const updateField = (field: keyof CustomerBranding, value: string) => {
+    setBranding(prev => ({ ...prev, [field]: value || undefined }));
+    setMessage(null);
+  };
+
+  const handleLogoChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (file.type !== 'image/png' && file.type !== 'image/jpeg') {
+      setError('The logo must be a PNG or JPEG image');
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      setError(`The logo must not be larger than ${MAX_LOGO_BYTES / 1024} KB`);
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      setError(null);
+      updateField('logo', reader.result as string);
+    };
+    reader.onerror = () => setError('Failed to read the logo file');
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const result = await CustomerService.getInstance().updateCustomerBranding(customerId, branding);
+      setSettings(result);
+      setBranding(result.branding || {});
+      setMessage('Branding saved');
+      onSaved?.(result.branding);
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Failed to save branding');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const result = await CustomerService.getInstance().resetCustomerBranding(customerId);
+      setSettings(result);
+      setBranding({});
+      setMessage('Branding reset to the default report layout');
+      onSaved?.(null);
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Failed to reset branding');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="customer-branding-editor">Loading branding...</div>;
+  }
+
+  if (!settings) {
+    return <div className="customer-branding-editor error-message">{error || 'Branding is not available'}</div>;
+  }
+
+  const { defaults } = settings;
+
+  return (
+    <div className="customer-branding-editor">
+      <h4>Report Branding</h4>
+      <p className="branding-hint">
+        Applied to the Reports page and to exported PDF reports of this customer. Empty fields use the defaults.
+      </p>
+
+      {error && <div className="error-message">{error}</div>}
+      {message && <div className="branding-message">{message}</div>}
+
+      <div className="branding-grid">
+        <label>
+          Company name
+          <input
+            type="text"
+            value={branding.companyName || ''}
+            placeholder={defaults.companyName}
+            maxLength={200}
+            onChange={e => updateField('companyName', e.target.value)}
+          />
+        </label>
+
+        <label>
+          Report language
+          <select
+            value={branding.language || defaults.language}
+            onChange={e => updateField('language', e.target.value)}
+          >
+            {settings.supportedLanguages.map(language => (
+              <option key={language} value={language}>{LANGUAGE_NAMES[language] || language}</option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Primary color
+          <input
+            type="color"
+            value={branding.primaryColor || defaults.primaryColor}
+            onChange={e => updateField('primaryColor', e.target.value)}
+          />
+        </label>
+
+        <label>
+          Accent color
+          <input
+            type="color"
+            value={branding.accentColor || defaults.accentColor}
+            onChange={e => updateField('accentColor', e.target.value)}
+          />
+        </label>
+
+        <div className="branding-logo">
+          <span>Logo (PNG or JPEG, max. {MAX_LOGO_BYTES / 1024} KB)</span>
+          <div className="branding-logo-row">
+            {branding.logo && <img src={branding.logo} alt="Logo preview" />}
+            <input type="file" accept="image/png,image/jpeg" onChange={handleLogoChange} />
+            {branding.logo && (
+              <button type="button" className="branding-link-button" onClick={() => updateField('logo', '')}>
+                Remove logo
+              </button>
+            )}
+          </div>
+        </div>
+
+        <label className="branding-disclaimer">
+          Disclaimer
+          <textarea
+            value={branding.disclaimer || ''}
+            placeholder={defaults.disclaimer}
+            maxLength={2000}
+            rows={3}
+            onChange={e => updateField('disclaimer', e.target.value)}
+          />
+        </label>
+      </div>
+
+      <div className="branding-actions">
+        <button type="button" className="branding-save-button" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save Branding'}
+        </button>
+        <button type="button" className="branding-reset-button" onClick={handleReset} disabled={saving || !settings.branding}>
+          Reset to Default
+        </button>
+      </div>
+
+      <style>{`
+        .customer-branding-editor {
+          margin: -0.25rem 0 0.75rem;
+          padding: 1rem;
+          border: 1px solid #e5e7eb;
+          border-radius: 0.5rem;
+          background: #f8fafc;
+        }
+
+        .customer-branding-editor h4 {
+          margin: 0 0 0.25rem;
+          color: #1e293b;
+        }
+
+        .branding-hint {
+          margin: 0 0 0.75rem;
+          font-size: 0.875rem;
+          color: #64748b;
+        }
+
+        .branding-message {
+          margin-bottom: 0.75rem;
+          color: #107c10;
+          font-size: 0.875rem;
+        }
+
+        .branding-grid {
+          display: grid;
+          grid-template-columns: 1fr 1fr;
+          gap: 0.75rem 1rem;
+        }
+
+        .branding-grid label,
+        .branding-logo {
+          display: flex;
+          flex-direction: column;
+          gap: 0.25rem;
+          font-size: 0.875rem;
+          font-weight: 500;
+          color: #374151;
+        }
+
+        .branding-grid input[type="text"],
+        .branding-grid select,
+        .branding-grid textarea {
+          padding: 0.5rem;
+          border: 1px solid #d1d5db;
+          border-radius: 6px;
+          font-size: 0.875rem;
+          font-family: inherit;
+        }
+
+        .branding-grid input[type="color"] {
+          width: 64px;
+          height: 32px;
+          padding: 0;
+          border: 1px solid #d1d5db;
+          border-radius: 6px;
+          cursor: pointer;
+        }
+
+        .branding-logo,
+        .branding-disclaimer {
+          grid-column: 1 / -1;
+        }
+
+        .branding-logo-row {
+          display: flex;
+          align-items: center;
+          gap: 0.75rem;
+        }
+
+        .branding-logo-row img {
+          max-height: 40px;
+          max-width: 160px;
+          object-fit: contain;
+          background: white;
+          border: 1px solid #e5e7eb;
+          padding: 2px;
+        }
+
+        .branding-link-button {
+          background: none;
+          border: none;
+          color: #dc2626;
+          cursor: pointer;
+          font-size: 0.875rem;
+        }
+
+        .branding-actions {
+          display: flex;
+          gap: 0.5rem;
+          margin-top: 1rem;
+        }
+
+        .branding-save-button,
+        .branding-reset-button {
+          padding: 0.5rem 1rem;
+          border-radius: 6px;
+          font-size: 0.875rem;
+          font-weight: 500;
+          cursor: pointer;
+        }
+
+        .branding-save-button {
+          background: #0078d4;
+          border: 1px solid #0078d4;
+          color: white;
+        }
+
+        .branding-reset-button {
+          background: white;
+          border: 1px solid #d1d5db;
+          color: #374151;
+        }
+
+        .branding-save-button:disabled,
+        .branding-reset-button:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default CustomerBrandingEditor;
@@ -0,0 +1,241 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { CustomerService, ExpiringCredentialsOverview } from '../../services/customerService';
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleDateString() : '—');
+
+const ExpiringCredentialsPanel: React.FC = () => {
+  const [overview, setOverview] = useState<ExpiringCredentialsOverview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [rotatingCustomerId, setRotatingCustomerId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadOverview = useCallback(async () => {
+    try {
+      setOverview(await CustomerService.getInstance().getExpiringCredentials());
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Failed to load expiring credentials');
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const initialLoad = async () => {
+      setLoading(true);
+      try {
+        const result = await CustomerService.getInstance().getExpiringCredentials();
+        if (!cancelled) setOverview(result);
+      } catch (err: any) {
+        if (!cancelled) setError(err.response?.data?.message || err.message || 'Failed to load expiring credentials');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    initialLoad();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleRotate = async (customerId: string, tenantName: string) => {
+    setRotatingCustomerId(customerId);
+    setError(null);
+    setMessage(null);
+    try {
+      const rotation = await CustomerService.getInstance().rotateCustomerSecret(customerId);
+      setMessage(`Client secret of ${tenantName} rotated, the new secret expires ${formatDate(rotation.newExpiry)}`);
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Failed to rotate the client secret');
+    } finally {
+      // Failed rotations are audited as well, so reload in both cases
+      await loadOverview();
+      setRotatingCustomerId(null);
+    }
+  };
+
+  if (loading) {
+    return <div className="expiring-credentials-panel">Loading credentials...</div>;
+  }
+
+  if (!overview) {
+    return <div className="expiring-credentials-panel error-message">{error || 'Credential status is not available'}</div>;
+  }
+
+  return (
+    <div className="expiring-credentials-panel">
+      <p className="credentials-hint">
+        Client secrets of customer app registrations that expire within {overview.windowDays} days.
+        They are rotated automatically every night; use Rotate Now to rotate one immediately.
+      </p>
+
+      {error && <div className="error-message">{error}</div>}
+      {message && <div className="credentials-message">{message}</div>}
+
+      {overview.credentials.length === 0 ? (
+        <p className="credentials-hint">No client secrets expire within {overview.windowDays} days.</p>
+      ) : (
+        <table className="credentials-table">
+          <thead>
+            <tr>
+              <th>Customer</th>
+              <th>Client ID</th>
+              <th>Expires</th>
+              <th>Last rotation</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {overview.credentials.map(credential => (
+              <tr key={credential.customerId}>
+                <td>
+                  <div>{credential.tenantName}</div>
+                  <small>{credential.tenantDomain}</small>
+                </td>
+                <td className="credentials-mono">{credential.clientId}</td>
+                <td>
+                  <span className={`credential-status credential-${credential.status}`}>
+                    {credential.status === 'expired'
+                      ? `Expired ${-credential.daysRemaining} days ago`
+                      : `In ${credential.daysRemaining} days`}
+                  </span>
+                  <div><small>{formatDate(credential.secretExpiryDate)}</small></div>
+                </td>
+                <td>{formatDate(credential.lastSecretRotation)}</td>
+                <td>
+                  <button
+                    type="button"
+                    className="credentials-rotate-button"
+                    onClick={() => handleRotate(credential.customerId, credential.tenantName)}
+                    disabled={rotatingCustomerId !== null}
+                  >
+                    {rotatingCustomerId === credential.customerId ? 'Rotating...' : 'Rotate Now'}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {overview.recentRotations.length > 0 && (
+        <>
+          <h4>Recent Rotations</h4>
+          <table className="credentials-table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Customer</th>
+                <th>Trigger</th>
+                <th>Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {overview.recentRotations.map(rotation => (
+                <tr key={rotation.id}>
+                  <td>{new Date(rotation.createdAt).toLocaleString()}</td>
+                  <td>{rotation.tenantName || rotation.clientId}</td>
+                  <td>{rotation.trigger === 'manual' ? `Manual${rotation.performedBy ? ` (${rotation.performedBy})` : ''}` : 'Scheduled'}</td>
+                  <td>
+                    <span className={`credential-status ${rotation.status === 'succeeded' ? 'credential-rotated' : 'credential-expired'}`}>
+                      {rotation.status === 'succeeded' ? 'Rotated' : 'Failed'}
+                    </span>
+                    {rotation.error && <div><small>{rotation.error}</small></div>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      <style>{`
+        .expiring-credentials-panel {
+          margin-top: 1rem;
+        }
+
+        .expiring-credentials-panel h4 {
+          margin: 1.25rem 0 0.5rem;
+          color: #1e293b;
+        }
+
+        .credentials-hint {
+          margin: 0 0 0.75rem;
+          font-size: 0.875rem;
+          color: #64748b;
+        }
+
+        .credentials-message {
+          margin-bottom: 0.75rem;
+          color: #107c10;
+          font-size: 0.875rem;
+        }
+
+        .credentials-table {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 0.875rem;
+        }
+
+        .credentials-table th,
+        .credentials-table td {
+          padding: 0.5rem;
+          border-bottom: 1px solid #e5e7eb;
+          text-align: left;
+          vertical-align: top;
+        }
+
+        .credentials-table small {
+          color: #64748b;
+        }
+
+        .credentials-mono {
+          font-family: monospace;
+          font-size: 0.75rem;
+        }
+
+        .credential-status {
+          padding: 2px 6px;
+          border-radius: 4px;
+          font-size: 0.75rem;
+          white-space: nowrap;
+        }
+
+        .credential-expired {
+          background: #fde7e9;
+          color: #a80000;
+        }
+
+        .credential-expiring {
+          background: #fff4ce;
+          color: #8a6d00;
+        }
+
+        .credential-rotated {
+          background: #dff6dd;
+          color: #107c10;
+        }
+
+        .credentials-rotate-button {
+          padding: 0.375rem 0.75rem;
+          background: #0078d4;
+          border: 1px solid #0078d4;
+          border-radius: 6px;
+          color: white;
+          font-size: 0.875rem;
+          cursor: pointer;
+          white-space: nowrap;
+        }
+
+        .credentials-rotate-button:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default ExpiringCredentialsPanel;
@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { FindingChurn, SecurityFinding } from '../../models/Finding';
+import { AssessmentService } from '../../services/assessmentService';
+
+interface FindingsChurnProps {
+  fromAssessmentId: string;
+  toAssessmentId: string;
+}
+
+const CHURN_GROUPS: Array<{ key: 'new' | 'regressed' | 'resolved' | 'persisting'; label: string }> = [
+  { key: 'new', label: 'New' },
+  { key: 'regressed', label: 'Regressed' },
+  { key: 'resolved', label: 'Resolved' },
+  { key: 'persisting', label: 'Persisting' }
+];
+
+const FindingsChurn: React.FC<FindingsChurnProps> = ({ fromAssessmentId, toAssessmentId }) => {
+  const [churn, setChurn] = useState<FindingChurn | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadChurn = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const result = await AssessmentService.getInstance().getFindingsChurn(fromAssessmentId, toAssessmentId);
+        if (!cancelled) setChurn(result);
+      } catch (err: any) {
+        if (!cancelled) setError(err.response?.data?.message || err.message || 'Failed to load finding changes');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadChurn();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fromAssessmentId, toAssessmentId]);
+
+  if (loading) {
+    return <div>Loading finding changes...</div>;
+  }
+
+  if (error) {
+    return <div className="error-message">{error}</div>;
+  }
+
+  if (!churn) {
+    return <div>No finding data available</div>;
+  }
+
+  const renderFinding = (finding: SecurityFinding) => (
+    <li key={finding.id} className="churn-finding">
+      <span className={`churn-severity severity-${finding.severity}`}>{finding.severity}</span>
+      <span className="churn-title">
+        {finding.title}
+        {finding.affectedResources.length === 1 && ` - ${finding.affectedResources[0]}`}
+      </span>
+      {finding.exception && (
+        <span className="churn-exception" title={finding.exception.justification}>
+          {finding.exception.type === 'risk-accepted' ? 'Risk accepted' : 'Acknowledged'} until{' '}
+          {new Date(finding.exception.expiresAt).toLocaleDateString()}
+        </span>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="findings-churn">
+      <h3>Finding Changes</h3>
+
+      <div className="churn-summary">
+        {CHURN_GROUPS.map(group => (
+          <div key={group.key} className={`churn-count churn-${group.key}`}>
+            <span className="count">{churn.summary[group.key]}</span>
+            <span className="label">{group.label}</span>
+          </div>
+        ))}
+      </div>
+
+      {CHURN_GROUPS.filter(group => group.key !== 'persisting' && churn[group.key].length > 0).map(group => (
+        <div key={group.key} className="churn-group">
+          <h4>{group.label}</h4>
+          <ul>{churn[group.key].map(renderFinding)}</ul>
+        </div>
+      ))}
+
+      <style>{`
+        .findings-churn {
+          margin-top: 24px;
+        }
+
+        .churn-summary {
+          display: grid;
+          grid-template-columns: repeat(4, 1fr);
+          gap: 12px;
+          margin: 16px 0;
+        }
+
+        .churn-count {
+          background: #f8f8f8;
+          border-radius: 6px;
+          padding: 12px;
+          text-align: center;
+        }
+
+        .churn-count .count {
+          display: block;
+          font-size: 24px;
+          font-weight: bold;
+        }
+
+        .churn-count .label {
+          font-size: 12px;
+          color: #666;
+        }
+
+        .churn-new .count,
+        .churn-regressed .count {
+          color: #d83b01;
+        }
+
+        .churn-resolved .count {
+          color: #107c10;
+        }
+
+        .churn-group ul {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+        }
+
+        .churn-finding {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 8px;
+          padding: 8px 0;
+          border-bottom: 1px solid #eee;
+          font-size: 14px;
+        }
+
+        .churn-severity {
+          padding: 2px 6px;
+          border-radius: 4px;
+          font-size: 12px;
+          text-transform: uppercase;
+        }
+
+        .severity-critical {
+          background: #fde7e9;
+          color: #a80000;
+        }
+
+        .severity-high {
+          background: #fed9cc;
+          color: #d83b01;
+        }
+
+        .severity-medium {
+          background: #fff4ce;
+          color: #9d5d00;
+        }
+
+        .severity-low {
+          background: #f3f2f1;
+          color: #666666;
+        }
+
+        .churn-exception {
+          font-size: 12px;
+          color: #666;
+          font-style: italic;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default FindingsChurn;
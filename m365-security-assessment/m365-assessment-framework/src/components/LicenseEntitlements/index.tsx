@@ -0,0 +1,109 @@
+import React from 'react';
+import { LicenseEntitlementAnalysis, SecurityFeatureStatus } from '../../models/LicenseEntitlements';
+
+interface LicenseEntitlementsProps {
+  analysis: LicenseEntitlementAnalysis;
+}
+
+const STATUS_LABELS: Record<SecurityFeatureStatus, string> = {
+  'configured': 'In use',
+  'not-configured': 'Not configured',
+  'unknown': 'Unknown',
+  'not-checked': 'Manual review'
+};
+
+// Features that are paid for but unused come first
+const STATUS_ORDER: SecurityFeatureStatus[] = ['not-configured', 'unknown', 'not-checked', 'configured'];
+
+const LicenseEntitlements: React.FC<LicenseEntitlementsProps> = ({ analysis }) => {
+  const features = [...analysis.features].sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status));
+
+  return (
+    <div className="license-entitlements">
+      <h3>🛡️ Included Security Features</h3>
+      {features.length === 0 ? (
+        <p className="entitlement-note">None of the subscribed licenses include the tracked security features.</p>
+      ) : (
+        <>
+          <p className="entitlement-note">
+            {analysis.unusedFeatures > 0
+              ? `${analysis.unusedFeatures} security features are included in your licenses but not configured.`
+              : 'No included security feature was found unused.'}
+          </p>
+          <table className="entitlement-table">
+            <thead>
+              <tr>
+                <th>Feature</th>
+                <th>Included in</th>
+                <th>Status</th>
+                <th>Evidence</th>
+              </tr>
+            </thead>
+            <tbody>
+              {features.map(feature => (
+                <tr key={feature.featureId}>
+                  <td>{feature.name}</td>
+                  <td>{feature.entitledBy.join(', ')}</td>
+                  <td><span className={`entitlement-status status-${feature.status}`}>{STATUS_LABELS[feature.status]}</span></td>
+                  <td className="entitlement-evidence">{feature.evidence}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      <style>{`
+        .license-entitlements {
+          width: 100%;
+          margin-bottom: 32px;
+        }
+
+        .entitlement-note,
+        .entitlement-evidence {
+          font-size: 14px;
+          color: #666;
+        }
+
+        .entitlement-table {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 14px;
+        }
+
+        .entitlement-table th,
+        .entitlement-table td {
+          padding: 8px;
+          border-bottom: 1px solid #eee;
+          text-align: left;
+          vertical-align: top;
+        }
+
+        .entitlement-status {
+          padding: 2px 6px;
+          border-radius: 4px;
+          font-size: 12px;
+          white-space: nowrap;
+        }
+
+        .status-configured {
+          background: #dff6dd;
+          color: #107c10;
+        }
+
+        .status-not-configured {
+          background: #fde7e9;
+          color: #a80000;
+        }
+
+        .status-unknown,
+        .status-not-checked {
+          background: #f3f2f1;
+          color: #666666;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default LicenseEntitlements;
@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { LicenseOptimizationAnalysis, LicenseReclaimCandidate, LicenseReclaimReason } from '../../models/LicenseOptimization';
+import { EffectiveLicensePrice } from '../../models/LicensePricing';
+import { formatCurrencyTotals } from '../../utils/licensePricing';
+
+interface LicenseReclaimListProps {
+  analysis: LicenseOptimizationAnalysis;
+  prices: Record<string, EffectiveLicensePrice>;
+}
+
+const REASON_LABELS: Record<LicenseReclaimReason, string> = {
+  'disabled': 'Disabled account',
+  'never-signed-in': 'Never signed in',
+  'inactive': 'Inactive',
+  'overlapping': 'Overlapping SKUs'
+};
+
+// Monthly saving of one user per currency, priced with the customer's effective rates
+const monthlySaving = (candidate: LicenseReclaimCandidate, prices: Record<string, EffectiveLicensePrice>): Record<string, number> =>
+  candidate.reclaimableSkus.reduce<Record<string, number>>((totals, sku) => {
+    const price = prices[sku];
+    if (price) {
+      totals[price.currency] = (totals[price.currency] || 0) + price.unitPrice;
+    }
+    return totals;
+  }, {});
+
+const addTotals = (target: Record<string, number>, amounts: Record<string, number>) => {
+  Object.entries(amounts).forEach(([currency, amount]) => {
+    target[currency] = (target[currency] || 0) + amount;
+  });
+};
+
+const LicenseReclaimList: React.FC<LicenseReclaimListProps> = ({ analysis, prices }) => {
+  const [reasonFilter, setReasonFilter] = useState<LicenseReclaimReason | 'all'>('all');
+
+  if (analysis.error) {
+    return (
+      <div className="license-reclaim">
+        <h3>License Reclaim List</h3>
+        <p className="reclaim-note">Per-user license data could not be collected: {analysis.error}</p>
+      </div>
+    );
+  }
+
+  const savings = analysis.candidates.map(candidate => ({ candidate, saving: monthlySaving(candidate, prices) }));
+  const totalSaving: Record<string, number> = {};
+  savings.forEach(({ saving }) => addTotals(totalSaving, saving));
+
+  const visible = reasonFilter === 'all' ? savings : savings.filter(({ candidate }) => candidate.reason === reasonFilter);
+  const skuName = (sku: string) => prices[sku]?.displayName || sku;
+
+  return (
+    <div className="license-reclaim">
+      <h3>License Reclaim List</h3>
+
+      <div className="reclaim-summary">
+        <div className="reclaim-count"><span className="count">{analysis.candidates.length}</span><span className="label">of {analysis.licensedUsers} licensed users</span></div>
+        {(Object.keys(REASON_LABELS) as LicenseReclaimReason[]).map(reason => (
+          <button
+            key={reason}
+            type="button"
+            className={`reclaim-count reclaim-filter ${reasonFilter === reason ? 'active' : ''}`}
+            onClick={() => setReasonFilter(reasonFilter === reason ? 'all' : reason)}
+          >
+            <span className="count">{analysis.byReason[reason] || 0}</span>
+            <span className="label">{REASON_LABELS[reason]}</span>
+          </button>
+        ))}
+        <div className="reclaim-count"><span className="count saving">{formatCurrencyTotals(totalSaving)}</span><span className="label">Estimated saving / month</span></div>
+      </div>
+
+      {!analysis.signInActivityAvailable && (
+        <p className="reclaim-note">
+          Sign-in activity was not available (requires Entra ID P1 and the AuditLog.Read.All permission), so inactive users are not detected.
+        </p>
+      )}
+
+      {visible.length === 0 ? (
+        <p className="reclaim-note">No reclaimable licenses found.</p>
+      ) : (
+        <table className="reclaim-table">
+          <thead>
+            <tr>
+              <th>User</th>
+              <th>Reason</th>
+              <th>Last sign-in</th>
+              <th>Reclaimable licenses</th>
+              <th>Saving / month</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map(({ candidate, saving }) => (
+              <tr key={candidate.userId}>
+                <td>
+                  <div>{candidate.displayName || candidate.userPrincipalName}</div>
+                  {candidate.displayName && <div className="reclaim-upn">{candidate.userPrincipalName}</div>}
+                </td>
+                <td>
+                  <span className={`reclaim-reason reason-${candidate.reason}`}>{REASON_LABELS[candidate.reason]}</span>
+                  <div className="reclaim-detail">{candidate.detail}</div>
+                </td>
+                <td>{candidate.lastSignInDateTime ? new Date(candidate.lastSignInDateTime).toLocaleDateString() : '-'}</td>
+                <td>{candidate.reclaimableSkus.map(skuName).join(', ')}</td>
+                <td>{formatCurrencyTotals(saving)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <style>{`
+        .license-reclaim {
+          width: 100%;
+          margin-top: 24px;
+        }
+
+        .reclaim-summary {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(130px, 1fr));
+          gap: 12px;
+          margin-bottom: 16px;
+        }
+
+        .reclaim-count {
+          background: #f8f8f8;
+          border: 1px solid transparent;
+          border-radius: 6px;
+          padding: 12px;
+          text-align: center;
+          font: inherit;
+        }
+
+        .reclaim-filter {
+          cursor: pointer;
+        }
+
+        .reclaim-filter.active {
+          border-color: #0078d4;
+          background: #eff6fc;
+        }
+
+        .reclaim-count .count {
+          display: block;
+          font-size: 24px;
+          font-weight: bold;
+        }
+
+        .reclaim-count .count.saving {
+          font-size: 18px;
+          color: #107c10;
+        }
+
+        .reclaim-count .label,
+        .reclaim-upn,
+        .reclaim-detail {
+          font-size: 12px;
+          color: #666;
+        }
+
+        .reclaim-note {
+          font-size: 14px;
+          color: #666;
+        }
+
+        .reclaim-table {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 14px;
+        }
+
+        .reclaim-table th,
+        .reclaim-table td {
+          padding: 8px;
+          border-bottom: 1px solid #eee;
+          text-align: left;
+          vertical-align: top;
+        }
+
+        .reclaim-reason {
+          padding: 2px 6px;
+          border-radius: 4px;
+          font-size: 12px;
+        }
+
+        .reason-disabled {
+          background: #fde7e9;
+          color: #a80000;
+        }
+
+        .reason-never-signed-in,
+        .reason-inactive {
+          background: #fff4ce;
+          color: #9d5d00;
+        }
+
+        .reason-overlapping {
+          background: #eff6fc;
+          color: #005a9e;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default LicenseReclaimList;
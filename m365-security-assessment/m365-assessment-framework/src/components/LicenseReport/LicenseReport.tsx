@@ -1,4 +1,9 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { EffectiveLicensePrice } from '../../models/LicensePricing';
+import { LicenseEntitlementAnalysis, ServicePlanInfo } from '../../models/LicenseEntitlements';
+import LicenseEntitlements from '../LicenseEntitlements';
+import { AssessmentService } from '../../services/assessmentService';
+import { formatCurrencyTotals, summarizeLicenseCosts } from '../../utils/licensePricing';
 import './LicenseReport.css';
 
 interface LicenseDetail {
@@ -9,6 +14,7 @@ interface LicenseDetail {
   assignedUnits: number;
   consumedUnits: number;
   capabilityStatus: string;
+  servicePlans?: ServicePlanInfo[];
 }
 
 interface LicenseInfo {
@@ -24,13 +30,46 @@ interface LicenseReportProps {
   licenseInfo: LicenseInfo;
   tenantName?: string;
   assessmentDate?: string;
+  customerId?: string;
+  entitlements?: LicenseEntitlementAnalysis;
 }
 
 export const LicenseReport: React.FC<LicenseReportProps> = ({
   licenseInfo,
   tenantName,
-  assessmentDate
+  assessmentDate,
+  customerId,
+  entitlements
 }) => {
+  const [expandedSkuId, setExpandedSkuId] = useState<string | null>(null);
+  const [licensePrices, setLicensePrices] = useState<Record<string, EffectiveLicensePrice> | null>(null);
+  const [hasNegotiatedPrices, setHasNegotiatedPrices] = useState(false);
+
+  const skuKey = licenseInfo.licenseDetails.map(license => license.skuPartNumber).join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadLicensePricing = async () => {
+      try {
+        const pricing = await AssessmentService.getInstance().getLicensePricing(customerId, skuKey.split(',').filter(Boolean));
+        if (!cancelled) {
+          setLicensePrices(pricing.prices);
+          setHasNegotiatedPrices(Object.values(pricing.prices).some(price => price.source === 'negotiated'));
+        }
+      } catch (error) {
+        console.error('Error loading license pricing:', error);
+        if (!cancelled) setLicensePrices(null);
+      }
+    };
+
+    loadLicensePricing();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [customerId, skuKey]);
+
   // Function to identify free licenses
   const isFreeLicense = (skuPartNumber: string): boolean => {
     const freeLicenses = [
@@ -120,28 +159,16 @@ export const LicenseReport: React.FC<LicenseReportProps> = ({
     return licenseNames[skuPartNumber] || skuPartNumber.replace(/_/g, ' ');
   };
 
-  const getTotalCost = (): string => {
-    // Approximate cost calculation (actual costs vary by agreement)
-    const costMap: { [key: string]: number } = {
-      'SPE_E5': 57, 'SPE_E3': 36, 'SPE_E1': 12,
-      'ENTERPRISEPACK': 23, 'ENTERPRISEPREMIUM': 35,
-      'STANDARDPACK': 8, 'DESKLESSPACK': 4,
-      'SPE_F1': 8, 'POWER_BI_PRO': 10
-    };
-
-    let totalMonthlyCost = 0;
-    licenseInfo.licenseDetails.forEach(license => {
-      // Free licenses have 0 cost
-      if (isFreeLicense(license.skuPartNumber)) {
-        return; // Skip free licenses
-      }
-      
-      const unitCost = costMap[license.skuPartNumber] || 15; // Default €15/month for paid licenses
-      totalMonthlyCost += license.assignedUnits * unitCost;
-    });
-
-    return totalMonthlyCost.toLocaleString('de-DE', { style: 'currency', currency: 'EUR' });
-  };
+  const costSummary = licensePrices
+    ? summarizeLicenseCosts(
+        paidLicenseDetails.map(license => ({
+          skuPartNumber: license.skuPartNumber,
+          assigned: license.assignedUnits,
+          total: license.totalUnits
+        })),
+        licensePrices
+      )
+    : null;
 
   const groupedLicenses = licenseInfo.licenseDetails.reduce((groups, license) => {
     const category = getLicenseCategory(license.skuPartNumber);
@@ -215,8 +242,17 @@ export const LicenseReport: React.FC<LicenseReportProps> = ({
         </div>
 
         <div className="cost-estimate">
-          <h4>💰 Estimated Monthly Cost (Paid Licenses): {getTotalCost()}</h4>
-          <small>*Based on approximate list prices for paid licenses only. Free licenses excluded. Actual costs may vary based on your Microsoft agreement.</small>
+          <h4>💰 Estimated Monthly Cost (Paid Licenses): {costSummary ? formatCurrencyTotals(costSummary.monthlyCost) : 'Pricing unavailable'}</h4>
+          {costSummary && (
+            <div className="cost-savings">
+              Unused licenses: {formatCurrencyTotals(costSummary.unusedMonthlyCost)} / month
+              {' · '}Potential annual savings: {formatCurrencyTotals(costSummary.potentialAnnualSavings)}
+            </div>
+          )}
+          <small>
+            *Based on {hasNegotiatedPrices ? 'the negotiated rates of this customer and ' : ''}list prices for paid licenses only.
+            Free licenses excluded. Negotiated rates can be maintained on the Reports page.
+          </small>
         </div>
       </div>
 
@@ -244,14 +280,27 @@ export const LicenseReport: React.FC<LicenseReportProps> = ({
                   : 0;
                 const isFree = isFreeLicense(license.skuPartNumber);
                 
+                const servicePlans = license.servicePlans || [];
+                const isExpanded = expandedSkuId === license.skuId;
+
                 return (
-                  <div key={`${license.skuId}-${index}`} className={`table-row ${isFree ? 'free-license' : ''}`}>
+                  <React.Fragment key={`${license.skuId}-${index}`}>
+                  <div className={`table-row ${isFree ? 'free-license' : ''}`}>
                     <div className="col-license">
                       <div className="license-name">
                         {formatLicenseName(license.skuPartNumber)}
                         {isFree && <span className="free-badge">FREE</span>}
                       </div>
                       <div className="license-sku">{license.skuPartNumber}</div>
+                      {servicePlans.length > 0 && (
+                        <button
+                          type="button"
+                          className="service-plan-toggle"
+                          onClick={() => setExpandedSkuId(isExpanded ? null : license.skuId)}
+                        >
+                          {isExpanded ? 'Hide' : 'Show'} {servicePlans.length} service plans
+                        </button>
+                      )}
                     </div>
                     <div className="col-total">{license.totalUnits.toLocaleString()}</div>
                     <div className="col-assigned">{license.assignedUnits.toLocaleString()}</div>
@@ -278,6 +327,20 @@ export const LicenseReport: React.FC<LicenseReportProps> = ({
                       </span>
                     </div>
                   </div>
+                  {isExpanded && (
+                    <div className="service-plans">
+                      {servicePlans.map(plan => (
+                        <span
+                          key={plan.servicePlanId}
+                          className={`service-plan ${plan.provisioningStatus === 'Disabled' ? 'disabled' : ''}`}
+                          title={plan.provisioningStatus}
+                        >
+                          {plan.servicePlanName}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  </React.Fragment>
                 );
               })}
             </div>
@@ -285,6 +348,8 @@ export const LicenseReport: React.FC<LicenseReportProps> = ({
         ))}
       </div>
 
+      {entitlements && <LicenseEntitlements analysis={entitlements} />}
+
       {/* Recommendations */}
       <div className="license-recommendations">
         <h3>💡 Recommendations</h3>
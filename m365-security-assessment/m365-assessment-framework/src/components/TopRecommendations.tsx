@@ -11,10 +11,12 @@ const TopRecommendations: React.FC<TopRecommendationsProps> = ({ assessment }) =
   const getRecommendationsFromAssessment = () => {
     const recommendations = [];
     
-    // Get recommendations from assessment metrics if available
-    if (assessment?.metrics?.recommendations && assessment.metrics.recommendations.length > 0) {
+    // The API stores the assessment's recommendations as plain text, most severe first
+    const storedRecommendations = ((assessment?.recommendations || []) as unknown[])
+      .filter((rec): rec is string => typeof rec === 'string');
+    if (storedRecommendations.length > 0) {
       // Use real recommendations from the assessment
-      return assessment.metrics.recommendations.slice(0, 3).map((rec, index) => ({
+      return storedRecommendations.slice(0, 3).map((rec, index) => ({
         id: `real-rec-${index}`,
         title: getRecommendationTitle(rec),
         description: rec,
@@ -25,7 +27,7 @@ const TopRecommendations: React.FC<TopRecommendationsProps> = ({ assessment }) =
     }
 
     // If no real recommendations, show message about needing real data
-    if (!assessment?.metrics?.realData) {
+    if (!assessment?.metrics?.realData?.licenseInfo && !assessment?.metrics?.realData?.secureScore) {
       return [{
         id: 'setup-rec',
         title: 'Complete Customer Setup',
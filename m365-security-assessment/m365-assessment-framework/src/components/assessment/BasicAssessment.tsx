@@ -439,6 +439,7 @@ export const BasicAssessment: React.FC<BasicAssessmentProps> = ({
                 licenseInfo={assessmentResult.licenseInfo}
                 tenantName={tenantDomain || tenantId}
                 assessmentDate={new Date().toISOString()}
+                customerId={customerId}
               />
             </div>
           )}
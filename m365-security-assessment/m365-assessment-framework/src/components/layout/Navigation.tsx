@@ -1,12 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { NavLink, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../hooks/useAuth';
+import { useCustomer } from '../../contexts/CustomerContext';
 import './Navigation.css';
 
 interface NavItem {
   path: string;
   label: string;
   icon: React.ReactNode;
+  adminOnly?: boolean;
 }
 
 interface NavigationProps {
@@ -16,6 +18,7 @@ interface NavigationProps {
 
 const Navigation: React.FC<NavigationProps> = ({ userName, onLogout }) => {
   const { logout } = useAuth();
+  const { userAccess } = useCustomer();
   const navigate = useNavigate();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const location = useLocation();
@@ -75,8 +78,20 @@ const Navigation: React.FC<NavigationProps> = ({ userName, onLogout }) => {
         </svg>
       ),
     },
+    {
+      path: '/audit',
+      label: 'Audit Log',
+      adminOnly: true,
+      icon: (
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+        </svg>
+      ),
+    },
   ];
 
+  const visibleNavItems = navItems.filter(item => !item.adminOnly || userAccess?.role === 'admin');
+
   const handleLogout = () => {
     logout();
     navigate('/login?noauto=true');
@@ -102,7 +117,7 @@ const Navigation: React.FC<NavigationProps> = ({ userName, onLogout }) => {
         
         <div className="nav-menu">
           <ul className="nav-list">
-            {navItems.map((item) => (
+            {visibleNavItems.map((item) => (
               <li key={item.path} className="nav-item">
                 <NavLink
                   to={item.path}
@@ -187,7 +202,7 @@ const Navigation: React.FC<NavigationProps> = ({ userName, onLogout }) => {
         
         <div className="mobile-nav-menu">
           <ul className="mobile-nav-list">
-            {navItems.map((item) => (
+            {visibleNavItems.map((item) => (
               <li key={item.path} className="mobile-nav-item">
                 <NavLink
                   to={item.path}
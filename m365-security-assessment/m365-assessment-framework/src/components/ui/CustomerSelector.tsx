@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef, forwardRef, useImperativeHandle } from 'react';
 import { Customer, CustomerService, CreateCustomerRequest } from '../../services/customerService';
+import { useCustomer } from '../../contexts/CustomerContext';
 import './CustomerSelector.css';
 
 interface CustomerSelectorProps {
@@ -41,6 +42,7 @@ const CustomerSelector = forwardRef<CustomerSelectorRef, CustomerSelectorProps>(
   const [refreshTrigger, setRefreshTrigger] = useState(0);
 
   const customerService = CustomerService.getInstance();
+  const { canAccessCustomer, refreshUserAccess } = useCustomer();
 
   // Start prefetching immediately when component mounts
   useEffect(() => {
@@ -131,9 +133,12 @@ const CustomerSelector = forwardRef<CustomerSelectorRef, CustomerSelectorProps>(
     }
   };
 
+  // The API already limits the list to assigned customers; this also covers cached lists
   const filteredCustomers = customers.filter(customer =>
-    (customer.tenantName || '').toLowerCase().includes(searchQuery.toLowerCase()) ||
-    (customer.tenantDomain || '').toLowerCase().includes(searchQuery.toLowerCase())
+    canAccessCustomer(customer.id) && (
+      (customer.tenantName || '').toLowerCase().includes(searchQuery.toLowerCase()) ||
+      (customer.tenantDomain || '').toLowerCase().includes(searchQuery.toLowerCase())
+    )
   );
 
   const handleCustomerSelect = (customer: Customer) => {
@@ -161,6 +166,8 @@ const CustomerSelector = forwardRef<CustomerSelectorRef, CustomerSelectorProps>(
       setError(null);
       
       const newCustomer = await customerService.createCustomer(createFormData);
+      // Creating a customer assigns it to its creator
+      await refreshUserAccess();
       
       // Add to customers list immediately to update UI
       setCustomers(prev => [...prev, newCustomer]);
@@ -1,11 +1,17 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
-import { Customer } from '../services/customerService';
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { Customer, CustomerService } from '../services/customerService';
+import { UserAccess } from '../models/UserAccess';
 
 interface CustomerContextType {
   selectedCustomer: Customer | null;
   setSelectedCustomer: (customer: Customer | null) => void;
   selectedCustomerAssessment: any | null;
   setSelectedCustomerAssessment: (assessment: any | null) => void;
+  /** Role and assigned customers of the signed-in user, null until loaded */
+  userAccess: UserAccess | null;
+  canAccessCustomer: (customerId: string) => boolean;
+  /** Reload the user's assignments, e.g. after creating a customer */
+  refreshUserAccess: () => Promise<void>;
 }
 
 const CustomerContext = createContext<CustomerContextType | undefined>(undefined);
@@ -23,16 +29,61 @@ interface CustomerProviderProps {
 }
 
 export const CustomerProvider: React.FC<CustomerProviderProps> = ({ children }) => {
-  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  const [selectedCustomer, setSelectedCustomerState] = useState<Customer | null>(null);
   const [selectedCustomerAssessment, setSelectedCustomerAssessment] = useState<any | null>(null);
+  const [userAccess, setUserAccess] = useState<UserAccess | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    CustomerService.getInstance().getCurrentUserAccess()
+      .then(access => {
+        if (!cancelled) setUserAccess(access);
+      })
+      .catch(err => {
+        // The API still filters customers by assignment, so the UI keeps working without this
+        console.warn('Failed to load user access:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const refreshUserAccess = useCallback(async () => {
+    try {
+      setUserAccess(await CustomerService.getInstance().getCurrentUserAccess());
+    } catch (err) {
+      console.warn('Failed to refresh user access:', err);
+    }
+  }, []);
+
+  const canAccessCustomer = useCallback((customerId: string) => (
+    !userAccess || userAccess.customerIds === null || userAccess.customerIds.includes(customerId)
+  ), [userAccess]);
+
+  const setSelectedCustomer = useCallback((customer: Customer | null) => {
+    setSelectedCustomerState(customer && canAccessCustomer(customer.id) ? customer : null);
+  }, [canAccessCustomer]);
+
+  // Drop a selection made before the user's assignments were known
+  useEffect(() => {
+    if (selectedCustomer && !canAccessCustomer(selectedCustomer.id)) {
+      setSelectedCustomerState(null);
+      setSelectedCustomerAssessment(null);
+    }
+  }, [selectedCustomer, canAccessCustomer]);
 
   return (
-    <CustomerContext.Provider 
+    <CustomerContext.Provider
       value={{
         selectedCustomer,
         setSelectedCustomer,
         selectedCustomerAssessment,
-        setSelectedCustomerAssessment
+        setSelectedCustomerAssessment,
+        userAccess,
+        canAccessCustomer,
+        refreshUserAccess
       }}
     >
       {children}
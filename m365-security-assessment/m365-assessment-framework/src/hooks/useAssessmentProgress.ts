@@ -0,0 +1,82 @@
+import { useState, useEffect } from 'react';
+import { AssessmentJobStatus } from '../models/Assessment';
+import { AssessmentService } from '../services/assessmentService';
+import { ASSESSMENT_PROGRESS_MAX_POLL_MS } from '../shared/constants';
+
+interface UseAssessmentProgressReturn {
+  jobStatus: AssessmentJobStatus | null;
+  isRunning: boolean;
+  /** Polling gave up after maxDurationMs while the job still reported in progress */
+  timedOut: boolean;
+  error: string | null;
+}
+
+/**
+ * Poll the status of an assessment job until it is no longer in progress,
+ * or until maxDurationMs has passed
+ */
+export const useAssessmentProgress = (
+  assessmentId: string | null,
+  pollIntervalMs: number = 3000,
+  maxDurationMs: number = ASSESSMENT_PROGRESS_MAX_POLL_MS
+): UseAssessmentProgressReturn => {
+  const [jobStatus, setJobStatus] = useState<AssessmentJobStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [timedOut, setTimedOut] = useState(false);
+
+  useEffect(() => {
+    setTimedOut(false);
+    if (!assessmentId) {
+      setJobStatus(null);
+      return;
+    }
+
+    const assessmentService = AssessmentService.getInstance();
+    const pollUntil = Date.now() + maxDurationMs;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const scheduleNext = (delayMs: number) => {
+      if (Date.now() + delayMs > pollUntil) {
+        setTimedOut(true);
+        setError('The assessment is taking longer than expected. Check the assessment history later for the result.');
+        return;
+      }
+      timer = setTimeout(poll, delayMs);
+    };
+
+    const poll = async () => {
+      try {
+        const status = await assessmentService.getAssessmentStatus(assessmentId);
+        if (cancelled) return;
+
+        setJobStatus(status);
+        setError(null);
+
+        if (status.status === 'in-progress') {
+          scheduleNext(pollIntervalMs);
+        }
+      } catch (err: any) {
+        if (cancelled) return;
+
+        // Keep polling through transient failures - the job itself keeps running
+        setError(err.message || 'Failed to load assessment progress');
+        scheduleNext(pollIntervalMs * 2);
+      }
+    };
+
+    poll();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [assessmentId, pollIntervalMs, maxDurationMs]);
+
+  return {
+    jobStatus,
+    isRunning: !!assessmentId && !timedOut && (!jobStatus || jobStatus.status === 'in-progress'),
+    timedOut,
+    error
+  };
+};
@@ -2,9 +2,12 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import './index.css';
 import App from './App';
+import { installSignInRedirect } from './services/apiAuthentication';
 
 console.log('M365 Assessment Framework v1.0.4 - Cache-busting deployment v2');
 
+installSignInRedirect();
+
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
 );
@@ -0,0 +1,42 @@
+export type AlertRuleType = 'score-drop' | 'mfa-coverage-below' | 'new-global-admin' | 'device-compliance-drop';
+
+export type WebhookFormat = 'teams' | 'slack';
+
+export type AlertChannel =
+  | { type: 'webhook'; url: string; format: WebhookFormat }
+  | { type: 'email'; recipients: string[] };
+
+/**
+ * A customer alert rule, evaluated by the API whenever one of the customer's assessments completes
+ */
+export interface AlertRule {
+  id: string;
+  customerId: string;
+  type: AlertRuleType;
+  /** Points for drop rules, percent for coverage rules; unused by new-global-admin */
+  threshold?: number;
+  channels: AlertChannel[];
+  enabled: boolean;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AlertRuleInput = Pick<AlertRule, 'type' | 'threshold' | 'channels' | 'enabled'>;
+
+/**
+ * One attempt to deliver a fired alert to one channel
+ */
+export interface AlertDelivery {
+  id: string;
+  customerId: string;
+  ruleId: string;
+  assessmentId: string;
+  channel: AlertChannel['type'];
+  target: string;
+  title: string;
+  status: 'delivered' | 'failed';
+  attempt: number;
+  error?: string;
+  createdAt: string;
+}
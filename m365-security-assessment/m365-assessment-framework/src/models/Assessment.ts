@@ -39,6 +39,31 @@ export interface Assessment {
       url: string;
     }>;
   }>;
-  status: 'draft' | 'completed' | 'archived';
+  status: 'draft' | 'in-progress' | 'completed' | 'failed' | 'archived';
   lastModified: Date;
-}
\ No newline at end of file
+}
+export type AssessmentCategoryStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+// Progress of an assessment job as reported by GET /assessments/{id}/status
+export interface AssessmentJobStatus {
+  assessmentId: string;
+  customerId: string;
+  tenantId: string;
+  status: 'in-progress' | 'completed' | 'failed' | string;
+  score: number;
+  categories: Record<string, {
+    status: AssessmentCategoryStatus;
+    startedAt?: string;
+    completedAt?: string;
+    error?: string;
+  }>;
+  completedCategories: string[];
+  runningCategories: string[];
+  pendingCategories: string[];
+  failedCategories: string[];
+  percentComplete: number;
+  startedAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  error?: string;
+}
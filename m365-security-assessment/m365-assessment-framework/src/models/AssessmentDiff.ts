@@ -0,0 +1,59 @@
+export type AssessmentDiffSection = 'licenses' | 'secureScoreControls' | 'privilegedUsers' | 'mfaRegistration' | 'deviceCompliance';
+
+export interface LicenseSkuChange {
+  skuPartNumber: string;
+  fromUnits: number;
+  toUnits: number;
+  fromConsumed: number;
+  toConsumed: number;
+}
+
+export interface SecureScoreControlChange {
+  controlName: string;
+  title: string;
+  fromStatus: string;
+  toStatus: string;
+  direction: 'improved' | 'regressed';
+}
+
+export interface PrivilegedRoleChange {
+  userPrincipalName: string;
+  addedRoles: string[];
+  removedRoles: string[];
+}
+
+export interface DeviceComplianceChange {
+  deviceId: string;
+  deviceName: string;
+  fromState: string;
+  toState: string;
+}
+
+// Structural tenant changes between two assessments as reported by GET /assessments/diff
+export interface AssessmentDiff {
+  fromAssessmentId: string;
+  toAssessmentId: string;
+  fromDate: string;
+  toDate: string;
+  licenses: {
+    added: string[];
+    removed: string[];
+    changed: LicenseSkuChange[];
+  };
+  secureScoreControls: SecureScoreControlChange[];
+  privilegedUsers: {
+    gained: string[];
+    lost: string[];
+    roleChanges: PrivilegedRoleChange[];
+  };
+  mfaRegistration: {
+    registered: string[];
+    unregistered: string[];
+  };
+  deviceCompliance: {
+    becameCompliant: DeviceComplianceChange[];
+    becameNonCompliant: DeviceComplianceChange[];
+  };
+  unavailable: AssessmentDiffSection[];
+  summary: Record<AssessmentDiffSection, number>;
+}
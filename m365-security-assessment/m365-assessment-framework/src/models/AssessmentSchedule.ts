@@ -0,0 +1,40 @@
+export type AssessmentScheduleFrequency = 'weekly' | 'monthly' | 'cron';
+
+export type ScheduleRunStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'retrying';
+
+export interface ScheduleRetryPolicy {
+  maxRetries: number;
+  retryDelayMinutes: number;
+}
+
+/**
+ * A recurring assessment of one customer, as stored by the schedules API. Times are UTC.
+ */
+export interface AssessmentSchedule {
+  id: string;
+  customerId: string;
+  frequency: AssessmentScheduleFrequency;
+  /** 0 = Sunday */
+  dayOfWeek?: number;
+  /** 1-28 */
+  dayOfMonth?: number;
+  hour: number;
+  minute: number;
+  /** minute hour day-of-month month day-of-week */
+  cronExpression?: string;
+  includedCategories: string[];
+  retryPolicy: ScheduleRetryPolicy;
+  enabled: boolean;
+  nextRunAt: string;
+  retryCount: number;
+  lastRunAt?: string;
+  lastRunStatus?: ScheduleRunStatus;
+  lastRunError?: string;
+  lastAssessmentId?: string;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AssessmentScheduleInput = Pick<AssessmentSchedule,
+  'frequency' | 'dayOfWeek' | 'dayOfMonth' | 'hour' | 'minute' | 'cronExpression' | 'includedCategories' | 'retryPolicy' | 'enabled'>;
@@ -0,0 +1,29 @@
+export type AuditTargetType = 'customer' | 'assessment' | 'app-registration' | 'consent' | 'finding' | 'schedule' | 'alert-rule';
+
+/**
+ * One operator action from the API's append-only audit log
+ */
+export interface AuditLogEntry {
+  id: string;
+  occurredAt: string;
+  actor: string;
+  actorRole?: 'admin' | 'consultant' | 'viewer';
+  action: string;
+  targetType: AuditTargetType;
+  targetId?: string;
+  customerId?: string;
+  before?: any;
+  after?: any;
+  sourceIp?: string;
+}
+
+export interface AuditLogQuery {
+  customerId?: string;
+  actor?: string;
+  action?: string;
+  targetType?: AuditTargetType;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
@@ -0,0 +1,25 @@
+export type ComplianceControlResult = 'pass' | 'fail' | 'manual';
+
+export interface ComplianceControlEvaluation {
+  controlId: string;
+  title: string;
+  section: string;
+  level: 1 | 2;
+  result: ComplianceControlResult;
+  details: string;
+  evidence?: Record<string, any>;
+}
+
+// Benchmark results stored with an assessment under metrics.compliance
+export interface BenchmarkResult {
+  benchmarkId: string;
+  name: string;
+  version: string;
+  // Share of automatically evaluated controls that pass; null when none could be evaluated
+  percentage: number | null;
+  passed: number;
+  failed: number;
+  manual: number;
+  controls: ComplianceControlEvaluation[];
+  evaluatedAt: string;
+}
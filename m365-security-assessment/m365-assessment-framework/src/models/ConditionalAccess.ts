@@ -0,0 +1,66 @@
+import { FindingSeverity } from './Finding';
+
+export type ConditionalAccessPolicyState = 'enabled' | 'reportOnly' | 'disabled';
+
+// A Conditional Access policy as summarized by the API analyzer
+export interface ConditionalAccessPolicySummary {
+  id: string;
+  displayName: string;
+  state: ConditionalAccessPolicyState;
+  users: {
+    includesAllUsers: boolean;
+    includeUsers: string[];
+    includeGroups: string[];
+    includeRoles: string[];
+    excludeUsers: string[];
+    excludeGroups: string[];
+    excludeRoles: string[];
+    excludesGuests: boolean;
+  };
+  applications: {
+    includesAllApplications: boolean;
+    includeApplications: string[];
+    excludeApplications: string[];
+  };
+  clientAppTypes: string[];
+  userRiskLevels: string[];
+  signInRiskLevels: string[];
+  grant: {
+    operator: string;
+    controls: string[];
+    authenticationStrength?: string;
+  };
+  sessionControls: string[];
+  persistentBrowserMode?: string;
+  requiresMfa: boolean;
+  blocksAccess: boolean;
+  blocksLegacyAuthentication: boolean;
+  issues: string[];
+}
+
+export type ConditionalAccessGapType =
+  | 'no-legacy-auth-block'
+  | 'admins-without-mfa'
+  | 'broad-exclusions'
+  | 'report-only-policies'
+  | 'no-sign-in-risk-policy';
+
+export interface ConditionalAccessGap {
+  type: ConditionalAccessGapType;
+  severity: FindingSeverity;
+  title: string;
+  description: string;
+  affected: string[];
+}
+
+// Stored with the assessment under metrics.conditionalAccess
+export interface ConditionalAccessAnalysis {
+  totalPolicies: number;
+  enabledPolicies: number;
+  reportOnlyPolicies: number;
+  disabledPolicies: number;
+  uncoveredAdminRoles: string[];
+  policies: ConditionalAccessPolicySummary[];
+  gaps: ConditionalAccessGap[];
+  analyzedAt: string;
+}
@@ -0,0 +1,55 @@
+export type FindingSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+export type FindingLifecycle = 'new' | 'persisting' | 'regressed' | 'resolved';
+
+export interface FindingException {
+  id: string;
+  customerId: string;
+  findingKey: string;
+  type: 'acknowledged' | 'risk-accepted';
+  justification: string;
+  expiresAt: string;
+  createdBy?: string;
+  createdAt: string;
+  revokedAt?: string;
+}
+
+// A finding produced by the API rules engine for an assessment
+export interface SecurityFinding {
+  id: string;
+  ruleId: string;
+  findingKey: string;
+  lifecycle: FindingLifecycle;
+  firstSeenAt: string;
+  assessmentId: string;
+  customerId: string;
+  tenantId: string;
+  category: string;
+  severity: FindingSeverity;
+  title: string;
+  description: string;
+  affectedResources: string[];
+  remediation: string;
+  evidence: Record<string, any>;
+  status: 'open' | 'resolved' | 'acknowledged';
+  createdAt: string;
+  exception?: FindingException;
+}
+
+// Finding changes between two assessments as reported by GET /findings/churn
+export interface FindingChurn {
+  fromAssessmentId: string;
+  toAssessmentId: string;
+  fromDate: string;
+  toDate: string;
+  new: SecurityFinding[];
+  regressed: SecurityFinding[];
+  persisting: SecurityFinding[];
+  resolved: SecurityFinding[];
+  summary: {
+    new: number;
+    regressed: number;
+    persisting: number;
+    resolved: number;
+  };
+}
@@ -0,0 +1,25 @@
+// A service plan included in a subscribed SKU, as returned by /subscribedSkus
+export interface ServicePlanInfo {
+  servicePlanId: string;
+  servicePlanName: string;
+  provisioningStatus: string;
+  appliesTo: string;
+}
+
+export type SecurityFeatureStatus = 'configured' | 'not-configured' | 'unknown' | 'not-checked';
+
+export interface SecurityFeatureEntitlement {
+  featureId: string;
+  name: string;
+  entitledBy: string[];
+  servicePlans: string[];
+  status: SecurityFeatureStatus;
+  evidence: string;
+}
+
+// Entitled security features and whether they are used, as stored under metrics.licenseEntitlements
+export interface LicenseEntitlementAnalysis {
+  features: SecurityFeatureEntitlement[];
+  unusedFeatures: number;
+  evaluatedAt: string;
+}
@@ -0,0 +1,27 @@
+export type LicenseReclaimReason = 'disabled' | 'never-signed-in' | 'inactive' | 'overlapping';
+
+// A licensed user whose paid licenses, or some of them, can be removed
+export interface LicenseReclaimCandidate {
+  userId: string;
+  userPrincipalName: string;
+  displayName?: string;
+  accountEnabled: boolean;
+  lastSignInDateTime: string | null;
+  reason: LicenseReclaimReason;
+  reclaimableSkus: string[];
+  supersededBy?: string[];
+  detail: string;
+}
+
+// Per-user license waste as stored under metrics.realData.licenseOptimization
+export interface LicenseOptimizationAnalysis {
+  licensedUsers: number;
+  inactiveThresholdDays: number;
+  signInActivityAvailable: boolean;
+  candidates: LicenseReclaimCandidate[];
+  reclaimableBySku: Record<string, number>;
+  byReason: Record<LicenseReclaimReason, number>;
+  analyzedAt: string;
+  skipped?: boolean;
+  error?: string;
+}
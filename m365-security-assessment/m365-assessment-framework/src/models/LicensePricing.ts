@@ -0,0 +1,29 @@
+export type LicenseBillingTerm = 'monthly' | 'annual';
+
+/**
+ * Price of a license SKU per user and month, as resolved by the license-pricing API
+ */
+export interface EffectiveLicensePrice {
+  skuPartNumber: string;
+  displayName: string;
+  unitPrice: number;
+  /** ISO 4217 code */
+  currency: string;
+  billingTerm: LicenseBillingTerm;
+  /** 'negotiated' for customer rates, 'estimate' for SKUs missing from the catalog */
+  source: 'negotiated' | 'catalog' | 'estimate';
+  listPrice: number;
+  listCurrency: string;
+}
+
+export interface LicensePricing {
+  customerId: string | null;
+  catalogCurrency: string;
+  prices: Record<string, EffectiveLicensePrice>;
+}
+
+export interface NegotiatedLicensePriceInput {
+  unitPrice: number;
+  currency: string;
+  billingTerm?: LicenseBillingTerm;
+}
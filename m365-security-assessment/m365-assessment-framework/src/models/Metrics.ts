@@ -1,4 +1,5 @@
 // filepath: /m365-assessment-framework/m365-assessment-framework/src/models/Metrics.ts
+import { AssessmentCategoryStatus } from './Assessment';
 
 export interface SecurityMetrics {
     tenantId: string;
@@ -11,8 +12,30 @@ export interface SecurityMetrics {
     healthStatus: 'Healthy' | 'Warning' | 'Critical';
 }
 
+/**
+ * Assessment document stored in assessments.metrics. The API upgrades older documents to the
+ * current schemaVersion before returning them, so collected Graph data is always under realData.
+ */
 export interface Metrics {
-  license: {
+  schemaVersion: number;
+  assessmentName?: string;
+  includedCategories: string[];
+  /** Present on assessments run as background jobs */
+  progress?: {
+    categories: Record<string, {
+      status: AssessmentCategoryStatus;
+      startedAt?: string;
+      completedAt?: string;
+      error?: string;
+    }>;
+    startedAt: string;
+    updatedAt: string;
+    completedAt?: string;
+    error?: string;
+  };
+  /** Why the assessment failed */
+  error?: string;
+  license?: {
     totalLicenses: number;
     assignedLicenses: number;
     utilizationRate: number;
@@ -24,7 +47,7 @@ export interface Metrics {
     }>;
     summary: string;
   };
-  secureScore: {
+  secureScore?: {
     percentage: number;
     currentScore: number;
     maxScore: number;
@@ -42,16 +65,56 @@ export interface Metrics {
     license: number;
     secureScore: number;
   };
-  lastUpdated: Date;
-  // Add missing properties for real assessment data
-  recommendations?: string[];
-  realData?: {
+  /** How the overall score was produced; absent on assessments scored before the scoring model was recorded */
+  scoring?: ScoreBreakdown;
+  findings?: {
+    total: number;
+    bySeverity: Record<string, number>;
+  };
+  /** Collection status per category */
+  collection?: Record<string, {
+    status: 'completed' | 'failed' | 'skipped';
+    permissions: string[];
+    durationMs: number;
+    graphRequests?: number;
+    error?: string;
+  }>;
+  /** ISO timestamp */
+  lastUpdated: string;
+  realData: {
+    dataSource: string;
+    lastUpdated: string;
+    tenantInfo?: {
+      tenantId: string;
+      displayName?: string;
+      domain?: string;
+    };
     licenseInfo?: any;
     secureScore?: any;
-    dataSource?: string;
-    lastUpdated?: string;
-    tenantInfo?: any;
+    identityMetrics?: any;
+    endpointMetrics?: any;
+    policyConfiguration?: any;
+    licenseOptimization?: any;
+    securityMetrics?: any;
+    error?: string;
+    authenticationRequired?: boolean;
   };
-  assessmentType?: string;
-  dataCollected?: boolean;
-}
\ No newline at end of file
+}
+
+export interface ScoreBreakdown {
+  modelVersion: string;
+  profile: string;
+  overall: number;
+  categoryScores: Record<string, number>;
+  appliedWeights: Record<string, number>;
+}
+
+export interface ScoringProfile {
+  customerId: string;
+  modelVersion: string;
+  defaultWeights: Record<string, number>;
+  customWeights: Record<string, number> | null;
+  weights: Record<string, number>;
+  updatedBy?: string;
+  updatedAt?: string;
+}
@@ -0,0 +1,21 @@
+export type AppRole = 'admin' | 'consultant' | 'viewer';
+
+/**
+ * The signed-in user's role and the customers they may access, as resolved by the API
+ */
+export interface UserAccess {
+  id: string;
+  name: string;
+  role: AppRole;
+  /** Assigned customer IDs, or null when the user may access every customer */
+  customerIds: string[] | null;
+}
+
+export interface CustomerAssignment {
+  customerId: string;
+  /** Entra object ID, or the user principal name when no object ID was given */
+  userId: string;
+  userPrincipalName?: string;
+  assignedBy?: string;
+  assignedAt: string;
+}
@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from 'react';
+import { useCustomer } from '../contexts/CustomerContext';
+import { Customer, CustomerService } from '../services/customerService';
+import { AuditLogEntry, AuditLogQuery, AuditTargetType } from '../models/AuditLog';
+import './Audit.css';
+
+const PAGE_SIZE = 50;
+
+const TARGET_TYPE_LABELS: Record<AuditTargetType, string> = {
+  'customer': 'Customer',
+  'assessment': 'Assessment',
+  'app-registration': 'App registration',
+  'consent': 'Consent',
+  'finding': 'Finding',
+  'schedule': 'Schedule',
+  'alert-rule': 'Alert rule'
+};
+
+interface AuditFilters {
+  actor: string;
+  action: string;
+  targetType: AuditTargetType | '';
+  customerId: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = { actor: '', action: '', targetType: '', customerId: '', from: '', to: '' };
+
+const toQuery = (filters: AuditFilters, offset: number): AuditLogQuery => ({
+  actor: filters.actor.trim() || undefined,
+  action: filters.action.trim() || undefined,
+  targetType: filters.targetType || undefined,
+  customerId: filters.customerId || undefined,
+  // Date inputs are local days; the "to" day is included in full
+  from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+  to: filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : undefined,
+  limit: PAGE_SIZE,
+  offset
+});
+
+const formatState = (state: any): string => (state === undefined ? '—' : JSON.stringify(state, null, 2));
+
+const Audit: React.FC = () => {
+  const { userAccess } = useCustomer();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [offset, setOffset] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = userAccess?.role === 'admin';
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    CustomerService.getInstance().getCustomers().then(setCustomers).catch(console.warn);
+  }, [isAdmin]);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    let cancelled = false;
+
+    const loadEntries = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const result = await CustomerService.getInstance().getAuditLog(toQuery(appliedFilters, offset));
+        if (!cancelled) {
+          setEntries(result.entries);
+          setTotal(result.total);
+        }
+      } catch (err: any) {
+        if (!cancelled) setError(err.response?.data?.message || err.message || 'Failed to load the audit log');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadEntries();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAdmin, appliedFilters, offset]);
+
+  const updateFilter = (updates: Partial<AuditFilters>) => {
+    setFilters(prev => ({ ...prev, ...updates }));
+  };
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setOffset(0);
+    setAppliedFilters(filters);
+  };
+
+  const resetFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setAppliedFilters(EMPTY_FILTERS);
+    setOffset(0);
+  };
+
+  const customerName = (customerId?: string) => {
+    if (!customerId) return '—';
+    return customers.find(c => c.id === customerId)?.tenantName || customerId;
+  };
+
+  if (!userAccess) {
+    return <div className="audit-page">Loading...</div>;
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="audit-page">
+        <div className="error-message">The audit log is only available to administrators.</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="audit-page">
+      <div className="audit-header">
+        <h1>Audit Log</h1>
+        <p>Who changed customers, started assessments and granted consent. Entries cannot be edited or deleted.</p>
+      </div>
+
+      <form className="audit-filters" onSubmit={applyFilters}>
+        <label>
+          Actor
+          <input type="text" value={filters.actor} placeholder="user@yourcompany.com" onChange={e => updateFilter({ actor: e.target.value })} />
+        </label>
+        <label>
+          Action
+          <input type="text" value={filters.action} placeholder="customer.update" onChange={e => updateFilter({ action: e.target.value })} />
+        </label>
+        <label>
+          Target
+          <select value={filters.targetType} onChange={e => updateFilter({ targetType: e.target.value as AuditTargetType | '' })}>
+            <option value="">All</option>
+            {Object.entries(TARGET_TYPE_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Customer
+          <select value={filters.customerId} onChange={e => updateFilter({ customerId: e.target.value })}>
+            <option value="">All</option>
+            {customers.map(customer => (
+              <option key={customer.id} value={customer.id}>{customer.tenantName}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          From
+          <input type="date" value={filters.from} onChange={e => updateFilter({ from: e.target.value })} />
+        </label>
+        <label>
+          To
+          <input type="date" value={filters.to} onChange={e => updateFilter({ to: e.target.value })} />
+        </label>
+        <div className="audit-filter-actions">
+          <button type="submit" className="audit-apply">Apply</button>
+          <button type="button" className="audit-reset" onClick={resetFilters}>Reset</button>
+        </div>
+      </form>
+
+      {error && <div className="error-message">{error}</div>}
+
+      {loading ? (
+        <div className="audit-empty">Loading audit log...</div>
+      ) : entries.length === 0 ? (
+        <div className="audit-empty">No audit entries match these filters.</div>
+      ) : (
+        <table className="audit-table">
+          <thead>
+            <tr>
+              <th>Time</th>
+              <th>Actor</th>
+              <th>Action</th>
+              <th>Target</th>
+              <th>Customer</th>
+              <th>Source IP</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => (
+              <React.Fragment key={entry.id}>
+                <tr
+                  className={`audit-row ${expandedId === entry.id ? 'expanded' : ''}`}
+                  onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                >
+                  <td>{new Date(entry.occurredAt).toLocaleString()}</td>
+                  <td>
+                    {entry.actor}
+                    {entry.actorRole && <small className="audit-role">{entry.actorRole}</small>}
+                  </td>
+                  <td><code>{entry.action}</code></td>
+                  <td>
+                    {TARGET_TYPE_LABELS[entry.targetType] || entry.targetType}
+                    {entry.targetId && <small className="audit-target-id">{entry.targetId}</small>}
+                  </td>
+                  <td>{customerName(entry.customerId)}</td>
+                  <td>{entry.sourceIp || '—'}</td>
+                </tr>
+                {expandedId === entry.id && (
+                  <tr className="audit-detail">
+                    <td colSpan={6}>
+                      <div className="audit-states">
+                        <div>
+                          <h4>Before</h4>
+                          <pre>{formatState(entry.before)}</pre>
+                        </div>
+                        <div>
+                          <h4>After</h4>
+                          <pre>{formatState(entry.after)}</pre>
+                        </div>
+                      </div>
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {total > PAGE_SIZE && (
+        <div className="audit-pagination">
+          <button type="button" onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))} disabled={offset === 0 || loading}>
+            Previous
+          </button>
+          <span>{offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}</span>
+          <button type="button" onClick={() => setOffset(offset + PAGE_SIZE)} disabled={offset + PAGE_SIZE >= total || loading}>
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Audit;
@@ -5,6 +5,7 @@ import { useAuth } from '../hooks/useAuth';
 import { AssessmentService } from '../services/assessmentService';
 import { Assessment } from '../models/Assessment';
 import ComparisonView from '../components/ComparisonView';
+import FindingsChurn from '../components/FindingsChurn';
 
 const History: React.FC = () => {
   const navigate = useNavigate();
@@ -45,6 +46,15 @@ const History: React.FC = () => {
     });
   };
 
+  // Comparisons always run from the older to the newer of the two selected assessments
+  const getAssessmentTime = (assessmentId: string) => {
+    const assessment: any = assessments.find(a => a.id === assessmentId);
+    return new Date(assessment?.date || assessment?.assessmentDate || 0).getTime();
+  };
+  const [olderAssessmentId, newerAssessmentId] = [...selectedAssessments].sort(
+    (a, b) => getAssessmentTime(a) - getAssessmentTime(b)
+  );
+
   if (!isAuthenticated) {
     return (
       <div className="authentication-prompt">
@@ -109,8 +119,12 @@ const History: React.FC = () => {
           <div className="comparison-view">
             <h2>Assessment Comparison</h2>
             <ComparisonView
-              assessment={assessments.find(a => a.id === selectedAssessments[0])!}
-              previousAssessmentId={selectedAssessments[1]}
+              assessment={assessments.find(a => a.id === newerAssessmentId)!}
+              previousAssessmentId={olderAssessmentId}
+            />
+            <FindingsChurn
+              fromAssessmentId={olderAssessmentId}
+              toAssessmentId={newerAssessmentId}
             />
           </div>
         )}
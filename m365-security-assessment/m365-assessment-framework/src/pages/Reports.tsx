@@ -3,6 +3,18 @@ import { useCustomer } from '../contexts/CustomerContext';
 import { Customer, CustomerService } from '../services/customerService';
 import { AssessmentService } from '../services/assessmentService';
 import { secureScoreControlService } from '../utils/secureScoreControlService';
+import AssessmentProgress from '../components/AssessmentProgress';
+import ComplianceBenchmark from '../components/ComplianceBenchmark';
+import ConditionalAccessAnalysis from '../components/ConditionalAccessAnalysis';
+import LicenseReclaimList from '../components/LicenseReclaimList';
+import LicenseEntitlements from '../components/LicenseEntitlements';
+import { ConditionalAccessAnalysis as ConditionalAccessResult } from '../models/ConditionalAccess';
+import { BenchmarkResult } from '../models/Compliance';
+import { AssessmentJobStatus } from '../models/Assessment';
+import { EffectiveLicensePrice } from '../models/LicensePricing';
+import { LicenseOptimizationAnalysis } from '../models/LicenseOptimization';
+import { LicenseEntitlementAnalysis } from '../models/LicenseEntitlements';
+import { formatCurrency, formatCurrencyTotals, PRICING_CURRENCIES, summarizeLicenseCosts } from '../utils/licensePricing';
 import { 
   getReadableControlName, 
   getStandardizedStatus, 
@@ -26,99 +38,12 @@ interface ReportData {
   insights: string[];
   recommendations: string[];
   controlScores?: any[]; // Optional field for secure score control data
+  benchmark?: BenchmarkResult; // CIS benchmark results for the compliance tab
+  conditionalAccess?: ConditionalAccessResult; // Policy analysis for the conditional access tab
+  licenseOptimization?: LicenseOptimizationAnalysis; // Per-user reclaim list for the license tab
+  licenseEntitlements?: LicenseEntitlementAnalysis; // Included security features for the license tab
 }
 
-// Function to estimate license cost based on license type (approximate pricing)
-const getEstimatedLicenseCost = (licenseName: string): number => {
-  const licenseNameLower = licenseName.toLowerCase();
-  
-  // Estimated monthly costs per user (in USD) based on typical Microsoft pricing
-  const pricingMap: { [key: string]: number } = {
-    // Microsoft 365 Plans
-    'microsoft 365 e5': 57,
-    'microsoft 365 e3': 36,
-    'microsoft 365 f3': 10,
-    'microsoft 365 f1': 4,
-    'microsoft 365 business premium': 22,
-    'microsoft 365 business standard': 15,
-    'microsoft 365 business basic': 6,
-    
-    // Office 365 Plans
-    'office 365 e5': 35,
-    'office 365 e3': 23,
-    'office 365 f3': 8,
-    'office 365 e1': 8,
-    
-    // Exchange Plans
-    'exchange online plan 2': 8,
-    'exchange online plan 1': 4,
-    'exchange online': 4,
-    
-    // Teams Plans
-    'microsoft teams': 0, // Often included in other plans
-    'teams exploratory': 0,
-    
-    // Power Platform
-    'power bi pro': 10,
-    'power bi premium': 20,
-    'power apps': 20,
-    'power automate': 15,
-    
-    // Azure AD Plans
-    'azure active directory premium': 6,
-    'azure active directory premium p2': 9,
-    'azure ad premium': 6,
-    
-    // Security Plans
-    'microsoft defender': 3,
-    'enterprise mobility + security': 8.25,
-    
-    // Project & Visio
-    'project online professional': 30,
-    'project online essentials': 7,
-    'visio online plan 1': 5,
-    'visio online plan 2': 15,
-    'visio pro for office 365': 15,
-    
-    // Developer Plans
-    'visual studio': 45,
-    'developer': 0,
-    
-    // SharePoint
-    'sharepoint online': 5,
-    
-    // OneDrive
-    'onedrive for business': 5
-  };
-  
-  // Check for exact matches first
-  if (pricingMap[licenseNameLower]) {
-    return pricingMap[licenseNameLower];
-  }
-  
-  // Check for partial matches
-  for (const [key, price] of Object.entries(pricingMap)) {
-    if (licenseNameLower.includes(key) || key.includes(licenseNameLower)) {
-      return price;
-    }
-  }
-  
-  // Try to categorize by common keywords
-  if (licenseNameLower.includes('e5')) return 50;
-  if (licenseNameLower.includes('e3')) return 30;
-  if (licenseNameLower.includes('f3')) return 8;
-  if (licenseNameLower.includes('f1')) return 4;
-  if (licenseNameLower.includes('premium')) return 20;
-  if (licenseNameLower.includes('pro')) return 15;
-  if (licenseNameLower.includes('standard')) return 12;
-  if (licenseNameLower.includes('basic')) return 6;
-  if (licenseNameLower.includes('essentials')) return 8;
-  if (licenseNameLower.includes('trial') || licenseNameLower.includes('developer')) return 0;
-  
-  // Default fallback for unknown licenses
-  return 10;
-};
-
 const Reports: React.FC = () => {
   const { selectedCustomer, setSelectedCustomer } = useCustomer();
   const [customers, setCustomers] = useState<Customer[]>([]);
@@ -131,7 +56,11 @@ const Reports: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [creatingAssessment, setCreatingAssessment] = useState(false);
   const [createAssessmentResult, setCreateAssessmentResult] = useState<string | null>(null);
-  const [customLicenseCosts, setCustomLicenseCosts] = useState<{ [licenseName: string]: number }>({});
+  const [runningAssessmentId, setRunningAssessmentId] = useState<string | null>(null);
+  const [licensePrices, setLicensePrices] = useState<Record<string, EffectiveLicensePrice>>({});
+  const [licensePriceDrafts, setLicensePriceDrafts] = useState<Record<string, string>>({});
+  const [licensePricingError, setLicensePricingError] = useState<string | null>(null);
+  const [downloadingReport, setDownloadingReport] = useState(false);
 
   // Sorting state for tables
   const [licenseSortConfig, setLicenseSortConfig] = useState<{
@@ -152,36 +81,55 @@ const Reports: React.FC = () => {
   const [identityShowPrivilegedOnly, setIdentityShowPrivilegedOnly] = useState(false);
   const [identityShowExternalUsers, setIdentityShowExternalUsers] = useState(true);
 
-  // Function to get effective license cost (custom or estimated)
-  const getEffectiveLicenseCost = (licenseName: string): number => {
-    const formattedName = formatLicenseName(licenseName);
-    
-    // Check if user has set a custom cost for this license
-    if (customLicenseCosts[formattedName] !== undefined) {
-      return customLicenseCosts[formattedName];
+  // Unit price of a SKU from the pricing API: the customer's negotiated rate or the catalog list price
+  const getEffectiveLicenseCost = (skuPartNumber: string): number => {
+    return licensePrices[skuPartNumber]?.unitPrice ?? 0;
+  };
+
+  // Store a negotiated rate for the customer so cost and savings figures survive reloads
+  const saveNegotiatedLicensePrice = async (skuPartNumber: string, unitPrice: number, currency: string) => {
+    if (!selectedCustomer) return;
+    const current = licensePrices[skuPartNumber];
+    if (current && current.unitPrice === unitPrice && current.currency === currency) return;
+
+    try {
+      const price = await AssessmentService.getInstance().saveNegotiatedLicensePrice(selectedCustomer.id, skuPartNumber, {
+        unitPrice,
+        currency,
+        billingTerm: current?.billingTerm
+      });
+      setLicensePrices(prev => ({ ...prev, [skuPartNumber]: price }));
+      setLicensePricingError(null);
+    } catch (error: any) {
+      setLicensePricingError(error.response?.data?.message || 'Failed to save the negotiated price');
     }
-    
-    // Fall back to estimated cost
-    return getEstimatedLicenseCost(licenseName);
   };
 
-  // Function to update custom license cost
-  const updateCustomLicenseCost = (licenseName: string, cost: number) => {
-    const formattedName = formatLicenseName(licenseName);
-    setCustomLicenseCosts(prev => ({
-      ...prev,
-      [formattedName]: cost
-    }));
+  // Drop the negotiated rate and go back to the list price
+  const resetNegotiatedLicensePrice = async (skuPartNumber: string) => {
+    if (!selectedCustomer) return;
+
+    try {
+      const price = await AssessmentService.getInstance().resetNegotiatedLicensePrice(selectedCustomer.id, skuPartNumber);
+      setLicensePrices(prev => ({ ...prev, [skuPartNumber]: price }));
+      setLicensePricingError(null);
+    } catch (error: any) {
+      setLicensePricingError(error.response?.data?.message || 'Failed to reset the negotiated price');
+    }
   };
 
-  // Function to reset custom license cost to estimated
-  const resetCustomLicenseCost = (licenseName: string) => {
-    const formattedName = formatLicenseName(licenseName);
-    setCustomLicenseCosts(prev => {
-      const newCosts = { ...prev };
-      delete newCosts[formattedName];
-      return newCosts;
+  const commitLicensePriceDraft = (skuPartNumber: string) => {
+    const draft = licensePriceDrafts[skuPartNumber];
+    if (draft === undefined) return;
+    setLicensePriceDrafts(prev => {
+      const drafts = { ...prev };
+      delete drafts[skuPartNumber];
+      return drafts;
     });
+    const unitPrice = parseFloat(draft);
+    if (!isNaN(unitPrice) && unitPrice >= 0) {
+      saveNegotiatedLicensePrice(skuPartNumber, unitPrice, licensePrices[skuPartNumber]?.currency || 'USD');
+    }
   };
 
   // Sorting functions
@@ -234,20 +182,20 @@ const Reports: React.FC = () => {
           bValue = b.total > 0 ? (b.assigned / b.total) * 100 : 0;
           break;
         case 'cost':
-          aValue = getEffectiveLicenseCost(a.name);
-          bValue = getEffectiveLicenseCost(b.name);
+          aValue = getEffectiveLicenseCost(a.skuPartNumber);
+          bValue = getEffectiveLicenseCost(b.skuPartNumber);
           break;
         case 'usedCost':
-          aValue = getEffectiveLicenseCost(a.name) * a.assigned;
-          bValue = getEffectiveLicenseCost(b.name) * b.assigned;
+          aValue = getEffectiveLicenseCost(a.skuPartNumber) * a.assigned;
+          bValue = getEffectiveLicenseCost(b.skuPartNumber) * b.assigned;
           break;
         case 'totalCost':
-          aValue = getEffectiveLicenseCost(a.name) * a.total;
-          bValue = getEffectiveLicenseCost(b.name) * b.total;
+          aValue = getEffectiveLicenseCost(a.skuPartNumber) * a.total;
+          bValue = getEffectiveLicenseCost(b.skuPartNumber) * b.total;
           break;
         case 'waste':
-          aValue = getEffectiveLicenseCost(a.name) * (a.total - a.assigned);
-          bValue = getEffectiveLicenseCost(b.name) * (b.total - b.assigned);
+          aValue = getEffectiveLicenseCost(a.skuPartNumber) * (a.total - a.assigned);
+          bValue = getEffectiveLicenseCost(b.skuPartNumber) * (b.total - b.assigned);
           break;
         default:
           return 0;
@@ -558,6 +506,30 @@ const Reports: React.FC = () => {
       .replace(/\bSharepoint\b/gi, 'SharePoint');
   };
   
+  // Download the server-rendered PDF report of the selected assessment
+  const handleDownloadReport = async () => {
+    if (!customerAssessment?.id) {
+      return;
+    }
+
+    setDownloadingReport(true);
+    try {
+      const { blob, fileName } = await AssessmentService.getInstance().downloadAssessmentReport(customerAssessment.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError('Error downloading report: ' + (err?.message || err?.toString()));
+    } finally {
+      setDownloadingReport(false);
+    }
+  };
+
   // Utility: Test assessment creation for debugging API/store
   const handleTestCreateAssessment = async () => {
     setCreatingAssessment(true);
@@ -578,9 +550,9 @@ const Reports: React.FC = () => {
         autoSchedule: false,
         scheduleFrequency: 'monthly',
       });
-      setCreateAssessmentResult(`Assessment created: ${assessment.id || JSON.stringify(assessment)}`);
-      // Optionally reload assessments
-      await loadCustomerAssessment();
+      setCreateAssessmentResult(`Assessment started: ${assessment.id || JSON.stringify(assessment)}`);
+      // Progress is polled until the job finishes, then the new assessment is shown
+      setRunningAssessmentId(assessment.id);
     } catch (err: any) {
       setCreateAssessmentResult('Error creating assessment: ' + (err?.message || err?.toString()));
       setError('Error creating assessment: ' + (err?.message || err?.toString()));
@@ -589,6 +561,28 @@ const Reports: React.FC = () => {
     }
   };
 
+  // Show a finished assessment job without reloading the (cached) assessments list
+  const handleRunningAssessmentFinished = async (jobStatus: AssessmentJobStatus) => {
+    setRunningAssessmentId(null);
+
+    if (jobStatus.status === 'failed') {
+      setError(`Assessment failed: ${jobStatus.error || 'Unknown error'}`);
+      return;
+    }
+
+    try {
+      const finishedAssessment = await AssessmentService.getInstance().getAssessmentById(jobStatus.assessmentId);
+      setAvailableAssessments(prev => [finishedAssessment, ...prev.filter(a => a.id !== finishedAssessment.id)]);
+      setError(null);
+      setCustomerAssessment(finishedAssessment);
+      setSelectedAssessmentId(finishedAssessment.id);
+      await generateReportsForAssessment(finishedAssessment);
+    } catch (err: any) {
+      console.error('Error loading finished assessment:', err);
+      setError('Assessment finished but could not be loaded: ' + (err?.message || err?.toString()));
+    }
+  };
+
   const securityCategories: SecurityCategory[] = [
     {
       id: 'error',
@@ -614,6 +608,12 @@ const Reports: React.FC = () => {
       icon: '👤',
       description: 'User management, MFA coverage, and access policies'
     },
+    {
+      id: 'conditionalAccess',
+      name: 'Conditional Access',
+      icon: '🔐',
+      description: 'Policy conditions, grant controls, exclusions and coverage gaps'
+    },
     {
       id: 'endpoint',
       name: 'Endpoint Protection',
@@ -630,7 +630,7 @@ const Reports: React.FC = () => {
       id: 'compliance',
       name: 'Compliance',
       icon: '📋',
-      description: 'Regulatory compliance status and audit readiness'
+      description: 'CIS Microsoft 365 Foundations benchmark results and audit readiness'
     }
   ];
 
@@ -651,6 +651,32 @@ const Reports: React.FC = () => {
     }
   }, [selectedCustomer]);
 
+  // Prices are per customer; SKUs of the shown assessment that are missing from the catalog get estimated
+  useEffect(() => {
+    if (!selectedCustomer) return;
+    let cancelled = false;
+
+    const licenseData = customerAssessment?.metrics?.realData?.licenseInfo;
+    const licenseDetails: any[] = (Array.isArray(licenseData) ? licenseData[0] : licenseData)?.licenseDetails || [];
+    const skuPartNumbers = licenseDetails
+      .map(license => license.skuPartNumber || license.skuDisplayName || license.servicePlanName)
+      .filter(Boolean);
+
+    AssessmentService.getInstance().getLicensePricing(selectedCustomer.id, skuPartNumbers)
+      .then(pricing => {
+        if (cancelled) return;
+        setLicensePrices(pricing.prices || {});
+        setLicensePricingError(null);
+      })
+      .catch(() => {
+        if (!cancelled) setLicensePricingError('Failed to load license prices');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedCustomer, customerAssessment]);
+
   const loadCustomers = async () => {
     try {
       const customersData = await CustomerService.getInstance().getCustomers();
@@ -683,8 +709,8 @@ const Reports: React.FC = () => {
     const reports: ReportData[] = [];
 
     // Process license data
-    if (assessment.metrics?.realData?.licenseInfo || assessment.metrics?.licenseInfo) {
-      const licenseData = assessment.metrics?.realData?.licenseInfo || assessment.metrics?.licenseInfo;
+    if (assessment.metrics?.realData?.licenseInfo) {
+      const licenseData = assessment.metrics.realData.licenseInfo;
       console.log('Processing license data:', licenseData);
       
       // Check if it's the old format (single object) or new format (array)
@@ -704,7 +730,7 @@ const Reports: React.FC = () => {
           console.log('Processing license details:', licenseDetails);
 
           // Group license details by SKU and sum up the values
-          const licenseTypeMap = new Map<string, { name: string; assigned: number; total: number; skuPartNumber: string; cost: number }>();
+          const licenseTypeMap = new Map<string, { name: string; assigned: number; total: number; skuPartNumber: string }>();
           
           licenseDetails.forEach((license: any) => {
             const skuName = license.skuPartNumber || license.skuDisplayName || license.servicePlanName || 'Unknown License';
@@ -734,8 +760,7 @@ const Reports: React.FC = () => {
                 name: skuName,
                 assigned: assignedUnits,
                 total: totalUnits,
-                skuPartNumber: skuName,
-                cost: getEffectiveLicenseCost(skuName)
+                skuPartNumber: skuName
               });
             }
           });
@@ -754,23 +779,6 @@ const Reports: React.FC = () => {
               assignedLicenses,
               unutilizedLicenses,
               utilizationRate,
-              costData: {
-                // Calculate estimated monthly cost based on license types and their typical pricing
-                totalMonthlyCost: processedLicenseTypes.reduce((sum: number, license: any) => {
-                  const effectiveCost = getEffectiveLicenseCost(license.name);
-                  return sum + (license.assigned * effectiveCost);
-                }, 0),
-                unutilizedCost: processedLicenseTypes.reduce((sum: number, license: any) => {
-                  const effectiveCost = getEffectiveLicenseCost(license.name);
-                  const unutilized = license.total - license.assigned;
-                  return sum + (unutilized * effectiveCost);
-                }, 0),
-                potentialSavings: processedLicenseTypes.reduce((sum: number, license: any) => {
-                  const effectiveCost = getEffectiveLicenseCost(license.name);
-                  const unutilized = license.total - license.assigned;
-                  return sum + (unutilized * effectiveCost * 0.8); // 80% of unutilized cost
-                }, 0)
-              },
               licenseTypes: processedLicenseTypes,
               summary: {
                 mostUsedLicense: processedLicenseTypes[0]?.name || 'N/A',
@@ -816,7 +824,6 @@ const Reports: React.FC = () => {
                 available: (license.totalUnits || 0) - (license.assignedUnits || license.consumedUnits || 0),
                 utilizationRate: license.totalUnits > 0 ? 
                   Math.round(((license.assignedUnits || license.consumedUnits || 0) / license.totalUnits) * 100) : 0,
-                cost: getEffectiveLicenseCost(license.skuPartNumber),
                 skuPartNumber: license.skuPartNumber
               };
             })
@@ -836,23 +843,6 @@ const Reports: React.FC = () => {
               assignedLicenses,
               unutilizedLicenses,
               utilizationRate,
-              costData: {
-                // Calculate estimated monthly cost based on license types and their typical pricing
-                totalMonthlyCost: processedLicenseTypes.reduce((sum: number, license: any) => {
-                  const effectiveCost = getEffectiveLicenseCost(license.name);
-                  return sum + (license.assigned * effectiveCost);
-                }, 0),
-                unutilizedCost: processedLicenseTypes.reduce((sum: number, license: any) => {
-                  const effectiveCost = getEffectiveLicenseCost(license.name);
-                  const unutilized = license.total - license.assigned;
-                  return sum + (unutilized * effectiveCost);
-                }, 0),
-                potentialSavings: processedLicenseTypes.reduce((sum: number, license: any) => {
-                  const effectiveCost = getEffectiveLicenseCost(license.name);
-                  const unutilized = license.total - license.assigned;
-                  return sum + (unutilized * effectiveCost * 0.8); // 80% of unutilized cost
-                }, 0)
-              },
               licenseTypes: processedLicenseTypes,
               summary: {
                 mostUsedLicense: processedLicenseTypes[0]?.name || 'N/A',
@@ -886,6 +876,26 @@ const Reports: React.FC = () => {
       }
     }
 
+    // Per-user reclaim list, only present when the licenseOptimization category was collected
+    const licenseOptimization: LicenseOptimizationAnalysis | undefined = assessment.metrics?.realData?.licenseOptimization;
+    const licenseReport = reports.find(report => report.category === 'license');
+    if (licenseReport && licenseOptimization && Array.isArray(licenseOptimization.candidates)) {
+      licenseReport.licenseOptimization = licenseOptimization;
+      if (licenseOptimization.candidates.length > 0) {
+        licenseReport.insights.push(`${licenseOptimization.candidates.length} users hold licenses that can be reclaimed`);
+        licenseReport.recommendations.unshift('Reclaim licenses from disabled, inactive and overlapping assignments');
+      }
+    }
+
+    // Security features included in the licenses and whether they are configured
+    const licenseEntitlements: LicenseEntitlementAnalysis | undefined = assessment.metrics?.licenseEntitlements;
+    if (licenseReport && licenseEntitlements && Array.isArray(licenseEntitlements.features)) {
+      licenseReport.licenseEntitlements = licenseEntitlements;
+      if (licenseEntitlements.unusedFeatures > 0) {
+        licenseReport.insights.push(`${licenseEntitlements.unusedFeatures} included security features are not configured`);
+      }
+    }
+
     // Process secure score data
     console.log('=== SECURE SCORE PROCESSING ===');
     const secureScoreData = assessment.metrics?.realData?.secureScore;
@@ -1023,143 +1033,16 @@ const Reports: React.FC = () => {
     }
 
     // Identity & Access Report
-    const identityMetrics = assessment.metrics?.realData?.identityMetrics || assessment.metrics?.identityMetrics || {};
-    
-    // Debug: Log ALL assessment data to find identity information
-    console.log('=== COMPLETE ASSESSMENT DEBUG ===');
-    console.log('Full assessment object:', JSON.stringify(assessment, null, 2));
-    console.log('Assessment.metrics keys:', Object.keys(assessment.metrics || {}));
-    console.log('Assessment.metrics.realData keys:', Object.keys(assessment.metrics?.realData || {}));
-    console.log('Assessment.metrics.realData full object:', JSON.stringify(assessment.metrics?.realData || {}, null, 2));
-    
-    // Look for identity data in various possible locations
-    const possibleIdentityFields = [
-      'identityMetrics',
-      'identityData', 
-      'authenticationMethods',
-      'userRegistration',
-      'identityAccessData',
-      'identity',
-      'users',
-      'mfaData',
-      'authMethods'
-    ];
-    
-    console.log('=== SEARCHING FOR IDENTITY DATA ===');
-    possibleIdentityFields.forEach(field => {
-      const realDataValue = assessment.metrics?.realData?.[field];
-      const metricsValue = assessment.metrics?.[field];
-      console.log(`Field "${field}":`, {
-        inRealData: realDataValue ? Object.keys(realDataValue) : 'not found',
-        inMetrics: metricsValue ? Object.keys(metricsValue) : 'not found',
-        realDataValue: realDataValue ? JSON.stringify(realDataValue).substring(0, 200) + '...' : 'none',
-        metricsValue: metricsValue ? JSON.stringify(metricsValue).substring(0, 200) + '...' : 'none'
-      });
-    });
-    
-    // Also check if there are any fields containing "user" in their name
-    console.log('=== CHECKING FOR USER-RELATED FIELDS ===');
-    const allRealDataKeys = Object.keys(assessment.metrics?.realData || {});
-    const allMetricsKeys = Object.keys(assessment.metrics || {});
-    
-    const userRelatedRealData = allRealDataKeys.filter(key => 
-      key.toLowerCase().includes('user') || 
-      key.toLowerCase().includes('auth') || 
-      key.toLowerCase().includes('identity') ||
-      key.toLowerCase().includes('mfa') ||
-      key.toLowerCase().includes('registration')
-    );
-    const userRelatedMetrics = allMetricsKeys.filter(key => 
-      key.toLowerCase().includes('user') || 
-      key.toLowerCase().includes('auth') || 
-      key.toLowerCase().includes('identity') ||
-      key.toLowerCase().includes('mfa') ||
-      key.toLowerCase().includes('registration')
-    );
-    
-    console.log('User-related fields in realData:', userRelatedRealData);
-    console.log('User-related fields in metrics:', userRelatedMetrics);
-    
-    userRelatedRealData.forEach(key => {
-      console.log(`realData.${key}:`, assessment.metrics?.realData?.[key]);
-    });
-    
-    userRelatedMetrics.forEach(key => {
-      console.log(`metrics.${key}:`, assessment.metrics?.[key]);
-    });
-    
-    // Enhanced identity data detection - check multiple levels
-    let foundIdentityData = null;
-    let identityDataSource = '';
-    
-    // Check all possible locations for identity data
-    for (const field of possibleIdentityFields) {
-      if (assessment.metrics?.realData?.[field]) {
-        foundIdentityData = assessment.metrics.realData[field];
-        identityDataSource = `realData.${field}`;
-        console.log(`✅ Found identity data in: ${identityDataSource}`);
-        break;
-      } else if (assessment.metrics?.[field]) {
-        foundIdentityData = assessment.metrics[field];
-        identityDataSource = `metrics.${field}`;
-        console.log(`✅ Found identity data in: ${identityDataSource}`);
-        break;
-      }
-    }
-    
-    // If not found, check user-related fields
-    if (!foundIdentityData) {
-      for (const key of userRelatedRealData) {
-        const data = assessment.metrics?.realData?.[key];
-        if (data && typeof data === 'object' && (data.totalUsers !== undefined || data.length > 0 || data.users !== undefined)) {
-          foundIdentityData = data;
-          identityDataSource = `realData.${key}`;
-          console.log(`✅ Found user data in: ${identityDataSource}`);
-          break;
-        }
-      }
-    }
-    
-    if (!foundIdentityData) {
-      for (const key of userRelatedMetrics) {
-        const data = assessment.metrics?.[key];
-        if (data && typeof data === 'object' && (data.totalUsers !== undefined || data.length > 0 || data.users !== undefined)) {
-          foundIdentityData = data;
-          identityDataSource = `metrics.${key}`;
-          console.log(`✅ Found user data in: ${identityDataSource}`);
-          break;
-        }
-      }
-    }
-    
-    console.log('=== IDENTITY METRICS FINAL DEBUG ===');
-    console.log('Identity metrics object:', identityMetrics);
-    console.log('Identity metrics keys:', Object.keys(identityMetrics));
-    console.log('Found identity data:', foundIdentityData);
-    console.log('Identity data source:', identityDataSource);
-    console.log('Identity skipped?', identityMetrics.skipped);
-    console.log('Identity error?', identityMetrics.error);
-    console.log('Identity totalUsers?', identityMetrics.totalUsers);
-    
-    // Use found identity data or fall back to original approach
-    const finalIdentityData = foundIdentityData || identityMetrics;
-    console.log('=== USING IDENTITY DATA ===');
-    console.log('Final identity data:', finalIdentityData);
-    console.log('Final identity data keys:', Object.keys(finalIdentityData || {}));
-    console.log('foundIdentityData (from search):', foundIdentityData);
-    console.log('identityMetrics (original location):', identityMetrics);
-    console.log('Raw assessment structure check:');
-    console.log('- assessment.metrics?.realData?.identityMetrics?.userDetails:', assessment.metrics?.realData?.identityMetrics?.userDetails);
-    console.log('- assessment.metrics?.identityMetrics?.userDetails:', assessment.metrics?.identityMetrics?.userDetails);
+    const identityMetrics = assessment.metrics?.realData?.identityMetrics || {};
     
     // Check if identity assessment was skipped or has errors
-    if (finalIdentityData?.skipped) {
+    if (identityMetrics?.skipped) {
       reports.push({
         category: 'identity',
         metrics: {
           hasError: false,
           skipped: true,
-          reason: finalIdentityData.reason || 'Identity assessment was not selected',
+          reason: identityMetrics.reason || 'Identity assessment was not selected',
           message: 'This assessment category was not included in the current scan.'
         },
         charts: [],
@@ -1174,12 +1057,12 @@ const Reports: React.FC = () => {
           'Implement Multi-Factor Authentication for all users'
         ]
       });
-    } else if (finalIdentityData?.error) {
+    } else if (identityMetrics?.error) {
       reports.push({
         category: 'identity',
         metrics: {
           hasError: true,
-          errorMessage: finalIdentityData.error,
+          errorMessage: identityMetrics.error,
           reason: 'Unable to collect identity data from Microsoft Graph API'
         },
         charts: [],
@@ -1195,32 +1078,32 @@ const Reports: React.FC = () => {
         ]
       });
     } else if (
-      finalIdentityData &&
-      (finalIdentityData.totalUsers !== undefined || 
-       finalIdentityData.mfaEnabledUsers !== undefined || 
-       finalIdentityData.adminUsers !== undefined ||
-       finalIdentityData.summary?.totalUsers !== undefined ||
-       finalIdentityData.users !== undefined ||
-       finalIdentityData.authenticationMethods !== undefined)
+      identityMetrics &&
+      (identityMetrics.totalUsers !== undefined || 
+       identityMetrics.mfaEnabledUsers !== undefined || 
+       identityMetrics.adminUsers !== undefined ||
+       identityMetrics.summary?.totalUsers !== undefined ||
+       identityMetrics.users !== undefined ||
+       identityMetrics.authenticationMethods !== undefined)
     ) {
       // Try to extract user data from various possible structures
-      let totalUsers = Number(finalIdentityData.totalUsers) || 
-                      Number(finalIdentityData.summary?.totalUsers) || 
-                      (finalIdentityData.users ? finalIdentityData.users.length : 0) || 0;
+      let totalUsers = Number(identityMetrics.totalUsers) || 
+                      Number(identityMetrics.summary?.totalUsers) || 
+                      (identityMetrics.users ? identityMetrics.users.length : 0) || 0;
       
-      const mfaEnabledUsers = Number(finalIdentityData.mfaEnabledUsers) || 
-                             Number(finalIdentityData.summary?.mfaCapableUsers) || 0;
-      const adminUsers = Number(finalIdentityData.adminUsers) || 
-                        Number(finalIdentityData.summary?.privilegedUsers) || 0;
-      const guestUsers = Number(finalIdentityData.guestUsers) || 0;
-      const regularUsers = Number(finalIdentityData.regularUsers) || Math.max(0, totalUsers - adminUsers - guestUsers);
+      const mfaEnabledUsers = Number(identityMetrics.mfaEnabledUsers) || 
+                             Number(identityMetrics.summary?.mfaCapableUsers) || 0;
+      const adminUsers = Number(identityMetrics.adminUsers) || 
+                        Number(identityMetrics.summary?.privilegedUsers) || 0;
+      const guestUsers = Number(identityMetrics.guestUsers) || 0;
+      const regularUsers = Number(identityMetrics.regularUsers) || Math.max(0, totalUsers - adminUsers - guestUsers);
       const mfaDisabledUsers = totalUsers - mfaEnabledUsers;
-      const mfaCoverage = finalIdentityData.mfaCoverage !== undefined ? 
-                         Number(finalIdentityData.mfaCoverage) : 
-                         (finalIdentityData.summary?.mfaCapablePercentage !== undefined ? 
-                          Number(finalIdentityData.summary.mfaCapablePercentage) :
+      const mfaCoverage = identityMetrics.mfaCoverage !== undefined ? 
+                         Number(identityMetrics.mfaCoverage) : 
+                         (identityMetrics.summary?.mfaCapablePercentage !== undefined ? 
+                          Number(identityMetrics.summary.mfaCapablePercentage) :
                           (totalUsers > 0 ? Math.round((mfaEnabledUsers / totalUsers) * 100) : 0));
-      const conditionalAccessPolicies = Number(finalIdentityData.conditionalAccessPolicies) || 0;
+      const conditionalAccessPolicies = Number(identityMetrics.conditionalAccessPolicies) || 0;
       
       console.log('=== PROCESSED IDENTITY METRICS ===');
       console.log('Processed values:', {
@@ -1228,7 +1111,7 @@ const Reports: React.FC = () => {
       });
       
       // Check data quality - no estimations needed with new backend
-      const dataSource = finalIdentityData.dataSource || {};
+      const dataSource = identityMetrics.dataSource || {};
       const isEstimated = dataSource.dataQuality !== 'complete';
       
       if (totalUsers === 0) {
@@ -1240,11 +1123,11 @@ const Reports: React.FC = () => {
       }
       
       console.log('Data source information:', dataSource);
-      console.log('Original finalIdentityData structure:');
-      console.log('- finalIdentityData.totalUsers:', finalIdentityData.totalUsers);
-      console.log('- finalIdentityData.adminUsers:', finalIdentityData.adminUsers);
-      console.log('- finalIdentityData.guestUsers:', finalIdentityData.guestUsers);
-      console.log('- finalIdentityData.regularUsers:', finalIdentityData.regularUsers);
+      console.log('Original identityMetrics structure:');
+      console.log('- identityMetrics.totalUsers:', identityMetrics.totalUsers);
+      console.log('- identityMetrics.adminUsers:', identityMetrics.adminUsers);
+      console.log('- identityMetrics.guestUsers:', identityMetrics.guestUsers);
+      console.log('- identityMetrics.regularUsers:', identityMetrics.regularUsers);
       
       // Calculate dynamic risk levels based on actual conditions
       const adminPercentage = totalUsers > 0 ? Math.round((adminUsers / totalUsers) * 100) : 0;
@@ -1285,26 +1168,26 @@ const Reports: React.FC = () => {
       
     // Check for enhanced user vulnerability data
     console.log('=== CHECKING FOR USER VULNERABILITY DATA ===');
-    console.log('Complete finalIdentityData object:', finalIdentityData);
-    console.log('finalIdentityData keys:', Object.keys(finalIdentityData || {}));
-    console.log('finalIdentityData.userDetails:', finalIdentityData.userDetails);
-    console.log('finalIdentityData.vulnerabilitySummary:', finalIdentityData.vulnerabilitySummary);
-    console.log('userDetails type:', typeof finalIdentityData.userDetails);
-    console.log('userDetails length:', Array.isArray(finalIdentityData.userDetails) ? finalIdentityData.userDetails.length : 'not array');
+    console.log('Complete identityMetrics object:', identityMetrics);
+    console.log('identityMetrics keys:', Object.keys(identityMetrics || {}));
+    console.log('identityMetrics.userDetails:', identityMetrics.userDetails);
+    console.log('identityMetrics.vulnerabilitySummary:', identityMetrics.vulnerabilitySummary);
+    console.log('userDetails type:', typeof identityMetrics.userDetails);
+    console.log('userDetails length:', Array.isArray(identityMetrics.userDetails) ? identityMetrics.userDetails.length : 'not array');
     
     // Deep inspection of the data structure for debugging
-    if (finalIdentityData) {
+    if (identityMetrics) {
       console.log('=== DEEP DATA INSPECTION ===');
-      const keys = Object.keys(finalIdentityData);
+      const keys = Object.keys(identityMetrics);
       keys.forEach(key => {
-        const value = finalIdentityData[key];
+        const value = identityMetrics[key];
         console.log(`Key "${key}":`, typeof value === 'object' && value !== null ? 
           (Array.isArray(value) ? `Array(${value.length})` : `Object with keys: ${Object.keys(value).join(', ')}`) : 
           value);
       });
-    }      if (finalIdentityData.userDetails && Array.isArray(finalIdentityData.userDetails) && finalIdentityData.userDetails.length > 0) {
-        console.log('✅ Found userDetails with', finalIdentityData.userDetails.length, 'users');
-        console.log('Sample user data:', finalIdentityData.userDetails[0]);
+    }      if (identityMetrics.userDetails && Array.isArray(identityMetrics.userDetails) && identityMetrics.userDetails.length > 0) {
+        console.log('✅ Found userDetails with', identityMetrics.userDetails.length, 'users');
+        console.log('Sample user data:', identityMetrics.userDetails[0]);
       } else {
         console.log('⚠️ No userDetails found or empty array');
       }
@@ -1324,8 +1207,8 @@ const Reports: React.FC = () => {
           mfaGap: mfaDisabledUsers,
           securityRisk: mfaCoverage < 50 ? 'High' : mfaCoverage < 80 ? 'Medium' : 'Low',
           // Include the detailed user vulnerability data from the backend
-          userDetails: finalIdentityData.userDetails || [],
-          vulnerabilitySummary: finalIdentityData.vulnerabilitySummary || {}
+          userDetails: identityMetrics.userDetails || [],
+          vulnerabilitySummary: identityMetrics.vulnerabilitySummary || {}
         },
         charts: [], // No charts needed - we use table view
         insights: [
@@ -1371,7 +1254,7 @@ const Reports: React.FC = () => {
     }
 
     // Endpoint / Device Compliance Report
-    const endpointMetrics = assessment.metrics?.realData?.endpointMetrics || assessment.metrics?.endpointMetrics;
+    const endpointMetrics = assessment.metrics?.realData?.endpointMetrics;
     if (endpointMetrics && (endpointMetrics.totalDevices !== undefined)) {
       const totalDevices = Number(endpointMetrics.totalDevices) || 0;
       const compliantDevices = Number(endpointMetrics.compliantDevices) || 0;
@@ -1404,6 +1287,59 @@ const Reports: React.FC = () => {
       });
     }
 
+    // Conditional Access policy analysis
+    const conditionalAccess: ConditionalAccessResult | undefined = assessment.metrics?.conditionalAccess;
+    if (conditionalAccess && Array.isArray(conditionalAccess.policies)) {
+      reports.push({
+        category: 'conditionalAccess',
+        metrics: {
+          totalPolicies: conditionalAccess.totalPolicies,
+          enabledPolicies: conditionalAccess.enabledPolicies,
+          reportOnlyPolicies: conditionalAccess.reportOnlyPolicies,
+          disabledPolicies: conditionalAccess.disabledPolicies
+        },
+        charts: [],
+        conditionalAccess,
+        insights: [
+          `${conditionalAccess.enabledPolicies} of ${conditionalAccess.totalPolicies} Conditional Access policies are enforced`,
+          conditionalAccess.uncoveredAdminRoles.length > 0
+            ? `${conditionalAccess.uncoveredAdminRoles.length} admin roles are not covered by an MFA policy`
+            : 'All admin roles are covered by an MFA policy',
+          `${conditionalAccess.gaps.length} coverage gaps detected`
+        ],
+        recommendations: conditionalAccess.gaps.length > 0
+          ? conditionalAccess.gaps.map(gap => gap.title)
+          : ['Review policy exclusions periodically with access reviews']
+      });
+    }
+
+    // CIS Microsoft 365 Foundations benchmark
+    const benchmark: BenchmarkResult | undefined = assessment.metrics?.compliance;
+    if (benchmark && Array.isArray(benchmark.controls)) {
+      const failedControls = benchmark.controls.filter(control => control.result === 'fail');
+
+      reports.push({
+        category: 'compliance',
+        metrics: {
+          benchmarkScore: benchmark.percentage === null ? 'n/a' : `${benchmark.percentage}%`,
+          passedControls: benchmark.passed,
+          failedControls: benchmark.failed,
+          manualControls: benchmark.manual
+        },
+        charts: [],
+        benchmark,
+        insights: [
+          benchmark.percentage === null
+            ? 'No controls could be evaluated automatically - include Secure Score and Compliance in the assessment'
+            : `${benchmark.passed} of ${benchmark.passed + benchmark.failed} automatically evaluated ${benchmark.name} controls pass`,
+          `${benchmark.manual} controls require manual verification`
+        ],
+        recommendations: failedControls.length > 0
+          ? failedControls.map(control => `${control.controlId} ${control.title}`)
+          : ['Maintain the current configuration and review manual controls periodically']
+      });
+    }
+
     console.log('=== FINAL REPORTS ARRAY ===');
     console.log('Reports generated:', reports.length);
     console.log('Report categories:', reports.map(r => r.category));
@@ -1423,7 +1359,7 @@ const Reports: React.FC = () => {
       
       // Filter for assessments belonging to this customer
       // TEMPORARILY ALLOW TEST ASSESSMENTS for debugging - in production, filter them out
-      const customerAssessments = assessments.filter((a: any) =>
+      const tenantAssessments = assessments.filter((a: any) =>
         a.tenantId === selectedCustomer.tenantId &&
         (a.date || a.assessmentDate || a.lastModified)
         // Temporarily commenting out test assessment filter to see the secure score data
@@ -1433,7 +1369,20 @@ const Reports: React.FC = () => {
         // && !a.assessmentName?.toLowerCase().includes('debug')
       );
 
+      // Assessments still being collected are shown as progress, not as report sources
+      const runningAssessments = tenantAssessments
+        .filter((a: any) => a.status === 'in-progress')
+        .sort((a: any, b: any) => new Date(b.date || 0).getTime() - new Date(a.date || 0).getTime());
+      setRunningAssessmentId(runningAssessments.length > 0 ? runningAssessments[0].id : null);
+
+      const customerAssessments = tenantAssessments.filter((a: any) => a.status !== 'in-progress');
+
       if (customerAssessments.length === 0) {
+        if (runningAssessments.length > 0) {
+          setCustomerAssessment(null);
+          setReportData([]);
+          return;
+        }
         setError('No assessments found for this customer.');
         setCustomerAssessment(null);
         setReportData([]);
@@ -1752,9 +1701,25 @@ const Reports: React.FC = () => {
 
     // Sort the license data based on current sort configuration
     const sortedLicenseTypes = sortLicenseData(licenseTypes);
+    const costSummary = summarizeLicenseCosts(licenseTypes, licensePrices);
 
     return (
       <div className="license-table-container">
+        <div className="license-cost-summary">
+          <div className="license-cost-item">
+            <span className="license-cost-label">Monthly Cost</span>
+            <span className="license-cost-value">{formatCurrencyTotals(costSummary.monthlyCost)}</span>
+          </div>
+          <div className="license-cost-item">
+            <span className="license-cost-label">Unused Licenses / Month</span>
+            <span className="license-cost-value waste-highlight">{formatCurrencyTotals(costSummary.unusedMonthlyCost)}</span>
+          </div>
+          <div className="license-cost-item">
+            <span className="license-cost-label">Potential Annual Savings</span>
+            <span className="license-cost-value">{formatCurrencyTotals(costSummary.potentialAnnualSavings)}</span>
+          </div>
+        </div>
+        {licensePricingError && <div className="error-message">{licensePricingError}</div>}
         <h4>License Details</h4>
         <div className="license-table-wrapper">
           <table className="license-table">
@@ -1831,11 +1796,13 @@ const Reports: React.FC = () => {
                 const free = license.total - license.assigned;
                 const utilization = license.total > 0 ? Math.round((license.assigned / license.total) * 100) : 0;
                 const formattedLicenseName = formatLicenseName(license.name);
-                const effectiveCost = getEffectiveLicenseCost(license.name);
+                const price = licensePrices[license.skuPartNumber];
+                const currency = price?.currency || 'USD';
+                const effectiveCost = getEffectiveLicenseCost(license.skuPartNumber);
                 const usedCost = effectiveCost * license.assigned;
                 const totalCost = effectiveCost * license.total;
                 const wasteCost = effectiveCost * free;
-                const isCustomCost = customLicenseCosts[formattedLicenseName] !== undefined;
+                const isCustomCost = price?.source === 'negotiated';
                 
                 return (
                   <tr key={index}>
@@ -1864,39 +1831,58 @@ const Reports: React.FC = () => {
                         <input
                           type="number"
                           className={`cost-input ${isCustomCost ? 'custom-cost' : ''}`}
-                          value={effectiveCost}
+                          value={licensePriceDrafts[license.skuPartNumber] ?? effectiveCost}
                           min="0"
                           step="0.01"
+                          disabled={!price}
                           onChange={(e) => {
-                            const newCost = parseFloat(e.target.value) || 0;
-                            updateCustomLicenseCost(license.name, newCost);
+                            const value = e.target.value;
+                            setLicensePriceDrafts(prev => ({ ...prev, [license.skuPartNumber]: value }));
+                          }}
+                          onBlur={() => commitLicensePriceDraft(license.skuPartNumber)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitLicensePriceDraft(license.skuPartNumber);
                           }}
-                          title={isCustomCost ? 'Custom cost (click reset to use estimated)' : 'Estimated cost (edit to customize)'}
+                          title={isCustomCost
+                            ? `Negotiated rate (list price ${price ? formatCurrency(price.listPrice, price.listCurrency) : ''}, click reset to use it)`
+                            : price?.source === 'estimate'
+                              ? 'Estimated price - not in the pricing catalog (edit to store a negotiated rate)'
+                              : 'List price (edit to store a negotiated rate)'}
                         />
-                        <span className="cost-currency">EUR</span>
+                        <select
+                          className="cost-currency"
+                          value={currency}
+                          disabled={!price}
+                          onChange={(e) => saveNegotiatedLicensePrice(license.skuPartNumber, effectiveCost, e.target.value)}
+                          title="Currency of the price"
+                        >
+                          {Array.from(new Set([currency, ...PRICING_CURRENCIES])).map(code => (
+                            <option key={code} value={code}>{code}</option>
+                          ))}
+                        </select>
                       </div>
                     </td>
                     <td className="used-cost-cell">
                       <span className={`cost-amount ${usedCost < 0 ? 'negative-cost' : ''}`}>
-                        €{usedCost.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        {formatCurrency(usedCost, currency)}
                       </span>
                     </td>
                     <td className="total-cost-cell">
                       <span className={`cost-amount ${totalCost < 0 ? 'negative-cost' : ''}`}>
-                        €{totalCost.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        {formatCurrency(totalCost, currency)}
                       </span>
                     </td>
                     <td className="waste-cost-cell">
                       <span className={`cost-amount ${wasteCost < 0 ? 'negative-cost' : wasteCost > 0 ? 'waste-highlight' : ''}`}>
-                        €{wasteCost.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        {formatCurrency(wasteCost, currency)}
                       </span>
                     </td>
                     <td className="actions-cell">
                       {isCustomCost && (
                         <button
                           className="reset-cost-btn"
-                          onClick={() => resetCustomLicenseCost(license.name)}
-                          title="Reset to estimated cost"
+                          onClick={() => resetNegotiatedLicensePrice(license.skuPartNumber)}
+                          title="Reset to list price"
                         >
                           ↺
                         </button>
@@ -2496,11 +2482,20 @@ const Reports: React.FC = () => {
 
   const currentTabData = getCurrentTabData();
 
+  // The customer list is refetched on load, so it carries branding saved after the customer was selected
+  const branding = (customers.find(c => c.id === selectedCustomer?.id) || selectedCustomer)?.branding;
+  const brandingStyle = branding ? {
+    '--brand-primary': branding.primaryColor || '#0078d4',
+    '--brand-accent': branding.accentColor || '#ffb900'
+  } as React.CSSProperties : undefined;
+
   return (
-    <div className="reports-page">
+    <div className={`reports-page${branding ? ' branded' : ''}`} style={brandingStyle} lang={branding?.language}>
       <div className="page-header">
+        {branding?.logo && <img className="report-branding-logo" src={branding.logo} alt={branding.companyName || 'Logo'} />}
         <h1>Security Reports</h1>
         <p>Comprehensive security analysis across all categories</p>
+        {branding?.companyName && <p className="report-branding-company">Prepared by {branding.companyName}</p>}
       </div>
 
       {/* Customer Selection */}
@@ -2553,6 +2548,14 @@ const Reports: React.FC = () => {
         </div>
       )}
 
+      {selectedCustomer && runningAssessmentId && (
+        <AssessmentProgress
+          assessmentId={runningAssessmentId}
+          title="New assessment in progress"
+          onFinished={handleRunningAssessmentFinished}
+        />
+      )}
+
       {/* App Registration/Consent Data Issue Warning */}
       {selectedCustomer && customerAssessment && customerAssessment.metrics && customerAssessment.metrics.dataIssue && (
         <div className="data-issue-warning" style={{
@@ -2650,6 +2653,13 @@ const Reports: React.FC = () => {
                   {customerAssessment.metrics?.realData?.secureScore && !customerAssessment.metrics?.realData?.secureScore?.unavailable && (
                     <span className="secure-score-indicator">🛡️ Secure Score Available</span>
                   )}
+                  <button
+                    className="download-report-button"
+                    onClick={handleDownloadReport}
+                    disabled={downloadingReport}
+                  >
+                    {downloadingReport ? 'Generating PDF...' : '📄 Download PDF Report'}
+                  </button>
                 </div>
               )}
             </div>
@@ -2731,7 +2741,6 @@ const Reports: React.FC = () => {
                             typeof value === 'object' && value !== null ? 
                             (Array.isArray(value) ? `${value.length} items` : 
                              // Better handling for specific object types
-                             key === 'costData' ? `€${((value as any).totalMonthlyCost || 0).toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} monthly` :
                              key === 'summary' ? ((value as any).status || 'Good') :
                              JSON.stringify(value).length > 50 ? 'View details below' : JSON.stringify(value)
                             ) :
@@ -2748,12 +2757,26 @@ const Reports: React.FC = () => {
                   // Always show license table for license tab
                   <div className="charts-grid">
                     {renderLicenseTable(currentTabData.metrics.licenseTypes || [])}
+                    {currentTabData.licenseEntitlements && (
+                      <LicenseEntitlements analysis={currentTabData.licenseEntitlements} />
+                    )}
+                    {currentTabData.licenseOptimization && (
+                      <LicenseReclaimList analysis={currentTabData.licenseOptimization} prices={licensePrices} />
+                    )}
                   </div>
                 ) : activeTab === 'secureScore' ? (
                   // Always show secure score table for secure score tab
                   <div className="charts-grid">
                     {renderSecureScoreTable(currentTabData.metrics, currentTabData.controlScores)}
                   </div>
+                ) : activeTab === 'conditionalAccess' && currentTabData.conditionalAccess ? (
+                  <div className="charts-grid">
+                    <ConditionalAccessAnalysis analysis={currentTabData.conditionalAccess} />
+                  </div>
+                ) : activeTab === 'compliance' && currentTabData.benchmark ? (
+                  <div className="charts-grid">
+                    <ComplianceBenchmark benchmark={currentTabData.benchmark} />
+                  </div>
                 ) : activeTab === 'identity' ? (
                   // Handle identity assessment status
                   currentTabData.metrics?.skipped ? (
@@ -2900,6 +2923,10 @@ const Reports: React.FC = () => {
           </div>
         </div>
       )}
+
+      {selectedCustomer && branding?.disclaimer && (
+        <div className="report-branding-disclaimer">{branding.disclaimer}</div>
+      )}
     </div>
   );
 };
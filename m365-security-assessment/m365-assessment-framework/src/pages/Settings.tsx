@@ -1,21 +1,32 @@
 // filepath: /m365-assessment-framework/m365-assessment-framework/src/pages/Settings.tsx
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
+import { useCustomer } from '../contexts/CustomerContext';
 import { AssessmentService } from '../services/assessmentService';
 import { Customer, CustomerService } from '../services/customerService';
 import CustomerSelector, { CustomerSelectorRef } from '../components/ui/CustomerSelector';
+import CustomerBrandingEditor from '../components/CustomerBrandingEditor';
+import CustomerAuthMethodEditor from '../components/CustomerAuthMethodEditor';
+import AssessmentScheduleEditor from '../components/AssessmentScheduleEditor';
+import AlertRulesEditor from '../components/AlertRulesEditor';
+import CustomerAssignmentsEditor from '../components/CustomerAssignmentsEditor';
+import ExpiringCredentialsPanel from '../components/ExpiringCredentialsPanel';
 import { ConsentUrlGeneratorEmbedded } from '../components/ConsentUrlGeneratorEmbedded';
+import AssessmentProgress from '../components/AssessmentProgress';
+import { AssessmentJobStatus } from '../models/Assessment';
 import { SECURITY_CATEGORIES } from '../shared/constants';
 import './Settings.css';
 
 const Settings = () => {
   const { isAuthenticated, user } = useAuth();
+  const { userAccess, refreshUserAccess } = useCustomer();
   const navigate = useNavigate();
 
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [runningAssessmentId, setRunningAssessmentId] = useState<string | null>(null);
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
   const [showNewCustomerForm, setShowNewCustomerForm] = useState(false);
   const [newCustomerData, setNewCustomerData] = useState({
@@ -35,6 +46,12 @@ const Settings = () => {
   const [customerToDelete, setCustomerToDelete] = useState<Customer | null>(null);
   const [deletingCustomer, setDeletingCustomer] = useState(false);
   const [customerError, setCustomerError] = useState<string | null>(null);
+  const [brandingCustomerId, setBrandingCustomerId] = useState<string | null>(null);
+  const [authCustomerId, setAuthCustomerId] = useState<string | null>(null);
+  const [scheduleCustomerId, setScheduleCustomerId] = useState<string | null>(null);
+  const [alertsCustomerId, setAlertsCustomerId] = useState<string | null>(null);
+  const [accessCustomerId, setAccessCustomerId] = useState<string | null>(null);
+  const [showExpiringCredentials, setShowExpiringCredentials] = useState(false);
   
   // App registration management state
   const [creatingAppRegistration, setCreatingAppRegistration] = useState<string | null>(null);
@@ -98,25 +115,43 @@ const Settings = () => {
         scheduleFrequency: formData.scheduleFrequency
       };
 
-      // Perform the assessment using the customer's existing Azure app registration
-      const assessmentResult = await assessmentService.createAssessmentForCustomer(assessmentData);
+      // Start the assessment using the customer's existing Azure app registration - it runs as a background job
+      const assessmentJob = await assessmentService.createAssessmentForCustomer(assessmentData);
       
       setSuccess(true);
-      setTimeout(() => {
-        navigate('/dashboard', { 
-          state: { 
-            assessment: assessmentResult,
-            customer: selectedCustomer
-          } 
-        });
-      }, 1500);
+      setRunningAssessmentId(assessmentJob.id);
     } catch (error: any) {
       setError(error.message || 'Failed to perform security assessment');
-    } finally {
       setLoading(false);
     }
   };
 
+  const handleAssessmentFinished = useCallback(async (jobStatus: AssessmentJobStatus) => {
+    setLoading(false);
+
+    if (jobStatus.status === 'failed') {
+      setSuccess(false);
+      setError(jobStatus.error || 'Security assessment failed');
+      return;
+    }
+
+    let assessmentResult: any = null;
+    try {
+      assessmentResult = await AssessmentService.getInstance().getAssessmentById(jobStatus.assessmentId);
+    } catch (error) {
+      console.warn('Failed to load completed assessment:', error);
+    }
+
+    setTimeout(() => {
+      navigate('/dashboard', { 
+        state: { 
+          assessment: assessmentResult,
+          customer: selectedCustomer
+        } 
+      });
+    }, 1500);
+  }, [navigate, selectedCustomer]);
+
   const handleCategoryToggle = (category: string) => {
     setFormData(prev => ({
       ...prev,
@@ -147,6 +182,8 @@ const Settings = () => {
         contactEmail: newCustomerData.contactEmail,
         notes: newCustomerData.notes
       });
+      // Creating a customer assigns it to its creator
+      await refreshUserAccess();
       
       setSelectedCustomer(newCustomer);
       
@@ -438,7 +475,14 @@ const Settings = () => {
 
       <form className="settings-form" onSubmit={handleAssessmentSubmit}>
         {error && <div className="error-message">{error}</div>}
-        {success && <div className="success-message">Assessment started successfully. Redirecting...</div>}
+        {success && <div className="success-message">Assessment started successfully. Redirecting when all categories are collected...</div>}
+        {runningAssessmentId && (
+          <AssessmentProgress
+            assessmentId={runningAssessmentId}
+            title="Collecting assessment data"
+            onFinished={handleAssessmentFinished}
+          />
+        )}
 
         {/* Customer Selection Section */}
         <div className="form-section">
@@ -825,59 +869,143 @@ const Settings = () => {
                         {customers.map((customer) => {
                           const appRegStatus = getAppRegistrationStatus(customer);
                           return (
-                            <div key={customer.id} className="customer-list-item">
-                              <div className="customer-info">
-                                <div className="customer-name">{customer.tenantName}</div>
-                                <div className="customer-email">{customer.contactEmail}</div>
-                              </div>
-                              <div className="customer-domain">{customer.tenantDomain}</div>
-                              <div className="customer-app-registration">
-                                <span 
-                                  className={`app-status app-status-${appRegStatus.color}`}
-                                  title={appRegStatus.status}
-                                >
-                                  {appRegStatus.status}
-                                </span>
-                                {appRegStatus.action && (
+                            <React.Fragment key={customer.id}>
+                              <div className="customer-list-item">
+                                <div className="customer-info">
+                                  <div className="customer-name">{customer.tenantName}</div>
+                                  <div className="customer-email">{customer.contactEmail}</div>
+                                </div>
+                                <div className="customer-domain">{customer.tenantDomain}</div>
+                                <div className="customer-app-registration">
+                                  <span 
+                                    className={`app-status app-status-${appRegStatus.color}`}
+                                    title={appRegStatus.status}
+                                  >
+                                    {appRegStatus.status}
+                                  </span>
+                                  {appRegStatus.action && (
+                                    <button
+                                      type="button"
+                                      className="app-registration-button"
+                                      onClick={() => handleCreateAppRegistration(customer)}
+                                      disabled={creatingAppRegistration === customer.id}
+                                      title={appRegStatus.action}
+                                    >
+                                      {creatingAppRegistration === customer.id ? (
+                                        <>
+                                          <div className="button-spinner"></div>
+                                          Creating...
+                                        </>
+                                      ) : (
+                                        <>
+                                          <svg width="16" height="16" viewBox="0 0 20 20" fill="currentColor">
+                                            <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
+                                          </svg>
+                                          {appRegStatus.action}
+                                        </>
+                                      )}
+                                    </button>
+                                  )}
+                                </div>
+                                <div className="customer-assessments">
+                                  {customer.totalAssessments || 0}
+                                  {customer.nextScheduledRun && (
+                                    <small className="customer-next-run" title="Next scheduled assessment">
+                                      Next: {new Date(customer.nextScheduledRun).toLocaleString()}
+                                    </small>
+                                  )}
+                                </div>
+                                <div className="customer-actions">
                                   <button
                                     type="button"
-                                    className="app-registration-button"
-                                    onClick={() => handleCreateAppRegistration(customer)}
-                                    disabled={creatingAppRegistration === customer.id}
-                                    title={appRegStatus.action}
+                                    className="branding-button"
+                                    onClick={() => setBrandingCustomerId(brandingCustomerId === customer.id ? null : customer.id)}
+                                    title="Report branding"
                                   >
-                                    {creatingAppRegistration === customer.id ? (
-                                      <>
-                                        <div className="button-spinner"></div>
-                                        Creating...
-                                      </>
-                                    ) : (
-                                      <>
-                                        <svg width="16" height="16" viewBox="0 0 20 20" fill="currentColor">
-                                          <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
-                                        </svg>
-                                        {appRegStatus.action}
-                                      </>
-                                    )}
+                                    {brandingCustomerId === customer.id ? 'Close' : 'Branding'}
                                   </button>
-                                )}
-                              </div>
-                              <div className="customer-assessments">{customer.totalAssessments || 0}</div>
-                              <div className="customer-actions">
-                                <button
-                                  type="button"
-                                  className="delete-button"
-                                  onClick={() => handleDeleteCustomer(customer)}
-                                  disabled={deletingCustomer}
-                                  title="Delete customer"
-                                >
-                                  <svg width="16" height="16" viewBox="0 0 20 20" fill="currentColor">
-                                    <path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v6a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
-                                  </svg>
-                                  {deletingCustomer ? 'Deleting...' : 'Delete'}
-                                </button>
+                                  <button
+                                    type="button"
+                                    className="schedule-button"
+                                    onClick={() => setScheduleCustomerId(scheduleCustomerId === customer.id ? null : customer.id)}
+                                    title="Recurring assessments"
+                                  >
+                                    {scheduleCustomerId === customer.id ? 'Close' : 'Schedule'}
+                                  </button>
+                                  <button
+                                    type="button"
+                                    className="alerts-button"
+                                    onClick={() => setAlertsCustomerId(alertsCustomerId === customer.id ? null : customer.id)}
+                                    title="Alert rules and notifications"
+                                  >
+                                    {alertsCustomerId === customer.id ? 'Close' : 'Alerts'}
+                                  </button>
+                                  {userAccess?.role === 'admin' && (
+                                    <button
+                                      type="button"
+                                      className="access-button"
+                                      onClick={() => setAccessCustomerId(accessCustomerId === customer.id ? null : customer.id)}
+                                      title="Users assigned to this customer"
+                                    >
+                                      {accessCustomerId === customer.id ? 'Close' : 'Access'}
+                                    </button>
+                                  )}
+                                  <button
+                                    type="button"
+                                    className="auth-button"
+                                    onClick={() => setAuthCustomerId(authCustomerId === customer.id ? null : customer.id)}
+                                    title="Tenant authentication (client secret or certificate)"
+                                  >
+                                    {authCustomerId === customer.id ? 'Close' : customer.authMethod === 'certificate' ? 'Auth: Certificate' : 'Auth: Secret'}
+                                  </button>
+                                  <button
+                                    type="button"
+                                    className="delete-button"
+                                    onClick={() => handleDeleteCustomer(customer)}
+                                    disabled={deletingCustomer}
+                                    title="Delete customer"
+                                  >
+                                    <svg width="16" height="16" viewBox="0 0 20 20" fill="currentColor">
+                                      <path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v6a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
+                                    </svg>
+                                    {deletingCustomer ? 'Deleting...' : 'Delete'}
+                                  </button>
+                                </div>
                               </div>
-                            </div>
+                              {brandingCustomerId === customer.id && (
+                                <CustomerBrandingEditor
+                                  customerId={customer.id}
+                                  onSaved={(branding) => setCustomers(prev => prev.map(c =>
+                                    c.id === customer.id ? { ...c, branding: branding || undefined } : c
+                                  ))}
+                                />
+                              )}
+                              {scheduleCustomerId === customer.id && (
+                                <AssessmentScheduleEditor
+                                  customerId={customer.id}
+                                  onChanged={(schedules) => {
+                                    const nextRuns = schedules.filter(s => s.enabled).map(s => s.nextRunAt).sort();
+                                    setCustomers(prev => prev.map(c =>
+                                      c.id === customer.id ? { ...c, nextScheduledRun: nextRuns[0] } : c
+                                    ));
+                                  }}
+                                />
+                              )}
+                              {alertsCustomerId === customer.id && (
+                                <AlertRulesEditor customerId={customer.id} />
+                              )}
+                              {accessCustomerId === customer.id && userAccess?.role === 'admin' && (
+                                <CustomerAssignmentsEditor customerId={customer.id} />
+                              )}
+                              {authCustomerId === customer.id && (
+                                <CustomerAuthMethodEditor
+                                  customerId={customer.id}
+                                  onSaved={(authMethod) => setCustomers(prev => prev.map(c =>
+                                    c.id === customer.id ? { ...c, authMethod } : c
+                                  ))}
+                                />
+                              )}
+                            </React.Fragment>
                           );
                         })}
                       </div>
@@ -889,6 +1017,22 @@ const Settings = () => {
           )}
         </div>
 
+        {/* Expiring Credentials Section */}
+        <div className="form-section">
+          <div className="section-header">
+            <h2>Credentials Expiring Soon</h2>
+            <button
+              type="button"
+              className="toggle-button"
+              onClick={() => setShowExpiringCredentials(!showExpiringCredentials)}
+            >
+              {showExpiringCredentials ? 'Hide' : 'Show'} Credentials
+            </button>
+          </div>
+
+          {showExpiringCredentials && <ExpiringCredentialsPanel />}
+        </div>
+
         {/* Consent URL Generator Section */}
         <div className="form-section">
           <div className="section-header">
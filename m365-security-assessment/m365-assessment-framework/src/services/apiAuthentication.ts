@@ -0,0 +1,37 @@
+import axios, { AxiosError } from 'axios';
+import { staticWebAppAuth } from '../config/auth';
+
+let redirecting = false;
+
+const hasSession = async (): Promise<boolean> => {
+  try {
+    const response = await fetch(staticWebAppAuth.meUrl);
+    return !response.ok || !!(await response.json()).clientPrincipal;
+  } catch {
+    // Offline or blocked - not a reason to sign in again
+    return true;
+  }
+};
+
+const redirectToSignIn = (): void => {
+  if (redirecting) {
+    return;
+  }
+  redirecting = true;
+  const returnTo = window.location.pathname + window.location.search;
+  window.location.href = `${staticWebAppAuth.loginUrl}?post_login_redirect_uri=${encodeURIComponent(returnTo)}`;
+};
+
+/**
+ * Send the user to sign in when an API call fails because the session has expired. The API
+ * answers 401 itself, while Static Web Apps redirects requests without a session to the
+ * login page, which the browser reports as a network error.
+ */
+export const installSignInRedirect = (): void => {
+  axios.interceptors.response.use(undefined, async (error: AxiosError) => {
+    if (error.response?.status === 401 || (!error.response && !(await hasSession()))) {
+      redirectToSignIn();
+    }
+    return Promise.reject(error);
+  });
+};
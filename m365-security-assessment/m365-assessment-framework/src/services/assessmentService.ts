@@ -1,6 +1,9 @@
 import axios from 'axios';
-import { Assessment } from '../models/Assessment';
-import { Metrics } from '../models/Metrics';
+import { Assessment, AssessmentJobStatus } from '../models/Assessment';
+import { AssessmentDiff } from '../models/AssessmentDiff';
+import { SecurityFinding, FindingChurn, FindingException } from '../models/Finding';
+import { Metrics, ScoringProfile } from '../models/Metrics';
+import { EffectiveLicensePrice, LicensePricing, NegotiatedLicensePriceInput } from '../models/LicensePricing';
 
 interface ICreateAppResponse {
   applicationId: string;
@@ -472,19 +475,10 @@ export class AssessmentService {
       const response = await axios.post(`${this.baseUrl}/assessments`, data);
       console.log('Create customer assessment response:', response.status, response.statusText);
       
-      // Extract the actual assessment object from the API response
+      // The API starts the assessment as a background job and returns the in-progress assessment.
+      // History is recorded by the API once the job completes.
       const assessment = response.data?.data || response.data;
 
-      // Store in assessment history for future comparisons
-      try {
-        const { AssessmentHistoryService } = await import('./assessmentHistoryService');
-        const historyService = AssessmentHistoryService.getInstance();
-        await historyService.storeAssessmentHistory(assessment);
-      } catch (historyError) {
-        console.warn('Failed to store assessment history:', historyError);
-        // Don't fail the assessment creation if history storage fails
-      }
-
       return assessment;
     } catch (error: any) {
       console.error('Error creating customer assessment:', error);
@@ -504,6 +498,193 @@ export class AssessmentService {
     }
   }
 
+  /**
+   * Get the progress of an assessment job started by createAssessmentForCustomer
+   */
+  public async getAssessmentStatus(assessmentId: string): Promise<AssessmentJobStatus> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/assessments/${assessmentId}/status`);
+      return response.data?.data || response.data;
+    } catch (error) {
+      console.error('Error fetching assessment status:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a stored assessment by its ID
+   */
+  public async getAssessmentById(assessmentId: string): Promise<any> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/assessment/${assessmentId}`);
+      return response.data?.data || response.data;
+    } catch (error) {
+      console.error('Error fetching assessment by ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the findings the rules engine produced for an assessment, most severe first
+   */
+  public async getAssessmentFindings(assessmentId: string): Promise<SecurityFinding[]> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/assessments/${assessmentId}/findings`);
+      return response.data?.data || [];
+    } catch (error) {
+      console.error('Error fetching assessment findings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Acknowledge a finding or accept its risk until the given date
+   */
+  public async createFindingException(findingId: string, data: {
+    type: FindingException['type'];
+    justification: string;
+    expiresAt: string;
+  }): Promise<FindingException> {
+    try {
+      const response = await axios.post(`${this.baseUrl}/findings/${findingId}/exception`, data);
+      return response.data?.data;
+    } catch (error) {
+      console.error('Error creating finding exception:', error);
+      throw error;
+    }
+  }
+
+  public async revokeFindingException(findingId: string): Promise<void> {
+    try {
+      await axios.delete(`${this.baseUrl}/findings/${findingId}/exception`);
+    } catch (error) {
+      console.error('Error revoking finding exception:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the findings that appeared, persisted or were resolved between two assessments
+   */
+  public async getFindingsChurn(fromAssessmentId: string, toAssessmentId: string): Promise<FindingChurn> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/findings/churn`, {
+        params: { from: fromAssessmentId, to: toAssessmentId }
+      });
+      return response.data?.data;
+    } catch (error) {
+      console.error('Error fetching findings churn:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Download the PDF report of an assessment, rendered by the API
+   */
+  public async downloadAssessmentReport(assessmentId: string): Promise<{ blob: Blob; fileName: string }> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/assessments/${assessmentId}/report`, {
+        responseType: 'blob'
+      });
+      const disposition: string = response.headers['content-disposition'] || '';
+      const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || `security-assessment-${assessmentId}.pdf`;
+      return { blob: response.data, fileName };
+    } catch (error) {
+      console.error('Error downloading assessment report:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the license, Secure Score, privileged role, MFA and device changes between two assessments
+   */
+  public async getAssessmentDiff(fromAssessmentId: string, toAssessmentId: string): Promise<AssessmentDiff> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/assessments/diff`, {
+        params: { from: fromAssessmentId, to: toAssessmentId }
+      });
+      return response.data?.data;
+    } catch (error) {
+      console.error('Error fetching assessment diff:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the scoring weights used for a customer's assessments
+   */
+  public async getScoringProfile(customerId: string): Promise<ScoringProfile> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/customers/${customerId}/scoring-profile`);
+      return response.data?.data;
+    } catch (error) {
+      console.error('Error fetching scoring profile:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store custom category weights for a customer; they apply to assessments run afterwards
+   */
+  public async saveScoringProfile(customerId: string, weights: Record<string, number>): Promise<ScoringProfile> {
+    try {
+      const response = await axios.put(`${this.baseUrl}/customers/${customerId}/scoring-profile`, { weights });
+      return response.data?.data;
+    } catch (error) {
+      console.error('Error saving scoring profile:', error);
+      throw error;
+    }
+  }
+
+  public async resetScoringProfile(customerId: string): Promise<ScoringProfile> {
+    try {
+      const response = await axios.delete(`${this.baseUrl}/customers/${customerId}/scoring-profile`);
+      return response.data?.data;
+    } catch (error) {
+      console.error('Error resetting scoring profile:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * License prices used for cost and savings figures: the customer's negotiated rates over the catalog.
+   * SKUs missing from the catalog are estimated when passed in `skuPartNumbers`.
+   */
+  public async getLicensePricing(customerId?: string, skuPartNumbers: string[] = []): Promise<LicensePricing> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/license-pricing`, {
+        params: {
+          customerId: customerId || undefined,
+          skus: skuPartNumbers.length > 0 ? skuPartNumbers.join(',') : undefined
+        }
+      });
+      return response.data?.data;
+    } catch (error) {
+      console.error('Error fetching license pricing:', error);
+      throw error;
+    }
+  }
+
+  public async saveNegotiatedLicensePrice(customerId: string, skuPartNumber: string, price: NegotiatedLicensePriceInput): Promise<EffectiveLicensePrice> {
+    try {
+      const response = await axios.put(`${this.baseUrl}/customers/${customerId}/license-pricing/${encodeURIComponent(skuPartNumber)}`, price);
+      return response.data?.data;
+    } catch (error) {
+      console.error('Error saving negotiated license price:', error);
+      throw error;
+    }
+  }
+
+  public async resetNegotiatedLicensePrice(customerId: string, skuPartNumber: string): Promise<EffectiveLicensePrice> {
+    try {
+      const response = await axios.delete(`${this.baseUrl}/customers/${customerId}/license-pricing/${encodeURIComponent(skuPartNumber)}`);
+      return response.data?.data;
+    } catch (error) {
+      console.error('Error resetting negotiated license price:', error);
+      throw error;
+    }
+  }
+
   private getAuthHeaders(): Record<string, string> {
     // Add authentication headers if available - using standard session-based auth
     return {};
@@ -1,5 +1,6 @@
 import { Customer, CreateCustomerRequest, CustomerAssessmentSummary } from './customerService';
 import { Assessment as BaseAssessment } from '../models/Assessment';
+import { ASSESSMENT_DOCUMENT_VERSION } from '../shared/constants';
 // Note: GraphApiService import will be added dynamically to avoid circular dependencies
 
 // Extended Assessment interface for local storage
@@ -300,6 +301,8 @@ export class LocalCustomerService {
         email: customer.contactEmail || 'unknown@example.com'
       },
       metrics: assessmentData.metrics || {
+        schemaVersion: ASSESSMENT_DOCUMENT_VERSION,
+        includedCategories: [],
         license: {
           totalLicenses: 0,
           assignedLicenses: 0,
@@ -319,7 +322,11 @@ export class LocalCustomerService {
           license: 0,
           secureScore: 0
         },
-        lastUpdated: new Date()
+        lastUpdated: new Date().toISOString(),
+        realData: {
+          dataSource: 'Local storage',
+          lastUpdated: new Date().toISOString()
+        }
       },
       recommendations: assessmentData.recommendations || [],
       lastModified: new Date(),
@@ -1,5 +1,9 @@
 import axios from 'axios';
 import { Assessment } from '../models/Assessment';
+import { AssessmentSchedule, AssessmentScheduleInput } from '../models/AssessmentSchedule';
+import { AlertDelivery, AlertRule, AlertRuleInput } from '../models/AlertRule';
+import { CustomerAssignment, UserAccess } from '../models/UserAccess';
+import { AuditLogEntry, AuditLogQuery } from '../models/AuditLog';
 
 export interface Customer {
   id: string;
@@ -16,6 +20,76 @@ export interface Customer {
   permissions: string[];
   contactEmail?: string;
   notes?: string;
+  branding?: CustomerBranding;
+  authMethod?: TenantAuthMethod;
+  /** Earliest upcoming run of the customer's enabled assessment schedules */
+  nextScheduledRun?: string;
+}
+
+export type TenantAuthMethod = 'secret' | 'certificate';
+
+export interface CustomerAuthSettings {
+  customerId: string;
+  authMethod: TenantAuthMethod;
+  availableMethods: TenantAuthMethod[];
+  certificateAvailable: boolean;
+  certificateError?: string;
+}
+
+export type ReportLanguage = 'en' | 'de' | 'fr' | 'es' | 'nl';
+
+/**
+ * White-label branding of the Reports page and exported reports
+ */
+export interface CustomerBranding {
+  companyName?: string;
+  logo?: string;  // PNG or JPEG data URL
+  primaryColor?: string;
+  accentColor?: string;
+  disclaimer?: string;
+  language?: ReportLanguage;
+}
+
+export interface CustomerBrandingSettings {
+  customerId: string;
+  branding: CustomerBranding | null;
+  defaults: Required<Omit<CustomerBranding, 'logo'>>;
+  supportedLanguages: ReportLanguage[];
+}
+
+/**
+ * A customer app registration whose client secret has expired or expires soon
+ */
+export interface ExpiringCredential {
+  customerId: string;
+  tenantName: string;
+  tenantDomain: string;
+  clientId: string;
+  secretExpiryDate: string;
+  daysRemaining: number;
+  status: 'expired' | 'expiring';
+  lastSecretRotation?: string;
+}
+
+export interface SecretRotationRecord {
+  id: string;
+  customerId: string;
+  clientId: string;
+  trigger: 'scheduled' | 'manual';
+  status: 'succeeded' | 'failed';
+  newKeyId?: string;
+  removedKeyIds: string[];
+  previousExpiry?: string;
+  newExpiry?: string;
+  error?: string;
+  performedBy?: string;
+  createdAt: string;
+}
+
+export interface ExpiringCredentialsOverview {
+  windowDays: number;
+  credentials: ExpiringCredential[];
+  recentRotations: (SecretRotationRecord & { tenantName?: string })[];
 }
 
 export interface CreateCustomerRequest {
@@ -557,6 +631,250 @@ export class CustomerService {
     }
   }
 
+  /**
+   * Get the report branding of a customer together with the defaults it overrides
+   */
+  public async getCustomerBranding(customerId: string): Promise<CustomerBrandingSettings> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/customers/${customerId}/branding`);
+      return response.data?.data;
+    } catch (error) {
+      console.error('❌ CustomerService: Error fetching customer branding:', error);
+      throw error;
+    }
+  }
+
+  public async updateCustomerBranding(customerId: string, branding: CustomerBranding): Promise<CustomerBrandingSettings> {
+    try {
+      const response = await axios.put(`${this.baseUrl}/customers/${customerId}/branding`, { branding });
+      // Cached customers carry the branding the Reports page renders with
+      this.clearCache();
+      return response.data?.data;
+    } catch (error) {
+      console.error('❌ CustomerService: Error saving customer branding:', error);
+      throw error;
+    }
+  }
+
+  public async resetCustomerBranding(customerId: string): Promise<CustomerBrandingSettings> {
+    try {
+      const response = await axios.delete(`${this.baseUrl}/customers/${customerId}/branding`);
+      this.clearCache();
+      return response.data?.data;
+    } catch (error) {
+      console.error('❌ CustomerService: Error resetting customer branding:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the recurring assessment schedules of a customer
+   */
+  public async getAssessmentSchedules(customerId: string): Promise<AssessmentSchedule[]> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/customers/${customerId}/schedules`);
+      return response.data?.data || [];
+    } catch (error) {
+      console.error('❌ CustomerService: Error fetching assessment schedules:', error);
+      throw error;
+    }
+  }
+
+  public async createAssessmentSchedule(customerId: string, schedule: AssessmentScheduleInput): Promise<AssessmentSchedule> {
+    try {
+      const response = await axios.post(`${this.baseUrl}/customers/${customerId}/schedules`, schedule);
+      // Cached customers carry the next scheduled run shown in the customer list
+      this.clearCache();
+      return response.data?.data;
+    } catch (error) {
+      console.error('❌ CustomerService: Error creating assessment schedule:', error);
+      throw error;
+    }
+  }
+
+  public async updateAssessmentSchedule(customerId: string, scheduleId: string, schedule: AssessmentScheduleInput): Promise<AssessmentSchedule> {
+    try {
+      const response = await axios.put(`${this.baseUrl}/customers/${customerId}/schedules/${scheduleId}`, schedule);
+      this.clearCache();
+      return response.data?.data;
+    } catch (error) {
+      console.error('❌ CustomerService: Error updating assessment schedule:', error);
+      throw error;
+    }
+  }
+
+  public async deleteAssessmentSchedule(customerId: string, scheduleId: string): Promise<void> {
+    try {
+      await axios.delete(`${this.baseUrl}/customers/${customerId}/schedules/${scheduleId}`);
+      this.clearCache();
+    } catch (error) {
+      console.error('❌ CustomerService: Error deleting assessment schedule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the signed-in user's role and the customers they are assigned to
+   */
+  public async getCurrentUserAccess(): Promise<UserAccess> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/me`);
+      return response.data?.data;
+    } catch (error) {
+      console.error('❌ CustomerService: Error fetching current user access:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the users assigned to a customer (admins only)
+   */
+  public async getCustomerAssignments(customerId: string): Promise<CustomerAssignment[]> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/customers/${customerId}/assignments`);
+      return response.data?.data || [];
+    } catch (error) {
+      console.error('❌ CustomerService: Error fetching customer assignments:', error);
+      throw error;
+    }
+  }
+
+  public async assignCustomerUser(customerId: string, user: { userId?: string; userPrincipalName?: string }): Promise<CustomerAssignment> {
+    try {
+      const response = await axios.post(`${this.baseUrl}/customers/${customerId}/assignments`, user);
+      return response.data?.data;
+    } catch (error) {
+      console.error('❌ CustomerService: Error assigning customer user:', error);
+      throw error;
+    }
+  }
+
+  public async unassignCustomerUser(customerId: string, userId: string): Promise<void> {
+    try {
+      await axios.delete(`${this.baseUrl}/customers/${customerId}/assignments/${encodeURIComponent(userId)}`);
+    } catch (error) {
+      console.error('❌ CustomerService: Error removing customer assignment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Query the audit log of operator actions (admins only), newest first
+   */
+  public async getAuditLog(query: AuditLogQuery = {}): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/audit-log`, { params: query });
+      return { entries: response.data?.data || [], total: response.data?.total || 0 };
+    } catch (error) {
+      console.error('❌ CustomerService: Error fetching audit log:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the alert rules evaluated when the customer's assessments complete
+   */
+  public async getAlertRules(customerId: string): Promise<AlertRule[]> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/customers/${customerId}/alert-rules`);
+      return response.data?.data || [];
+    } catch (error) {
+      console.error('❌ CustomerService: Error fetching alert rules:', error);
+      throw error;
+    }
+  }
+
+  public async createAlertRule(customerId: string, rule: AlertRuleInput): Promise<AlertRule> {
+    try {
+      const response = await axios.post(`${this.baseUrl}/customers/${customerId}/alert-rules`, rule);
+      return response.data?.data;
+    } catch (error) {
+      console.error('❌ CustomerService: Error creating alert rule:', error);
+      throw error;
+    }
+  }
+
+  public async updateAlertRule(customerId: string, ruleId: string, rule: AlertRuleInput): Promise<AlertRule> {
+    try {
+      const response = await axios.put(`${this.baseUrl}/customers/${customerId}/alert-rules/${ruleId}`, rule);
+      return response.data?.data;
+    } catch (error) {
+      console.error('❌ CustomerService: Error updating alert rule:', error);
+      throw error;
+    }
+  }
+
+  public async deleteAlertRule(customerId: string, ruleId: string): Promise<void> {
+    try {
+      await axios.delete(`${this.baseUrl}/customers/${customerId}/alert-rules/${ruleId}`);
+    } catch (error) {
+      console.error('❌ CustomerService: Error deleting alert rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the most recent alert delivery attempts of a customer, newest first
+   */
+  public async getAlertDeliveries(customerId: string, limit: number = 50): Promise<AlertDelivery[]> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/customers/${customerId}/alert-deliveries`, { params: { limit } });
+      return response.data?.data || [];
+    } catch (error) {
+      console.error('❌ CustomerService: Error fetching alert deliveries:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get how the API authenticates to the customer's tenant and whether a certificate is configured
+   */
+  public async getCustomerAuthSettings(customerId: string): Promise<CustomerAuthSettings> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/customers/${customerId}/auth-method`);
+      return response.data?.data;
+    } catch (error) {
+      console.error('❌ CustomerService: Error fetching customer auth method:', error);
+      throw error;
+    }
+  }
+
+  public async updateCustomerAuthMethod(customerId: string, authMethod: TenantAuthMethod): Promise<TenantAuthMethod> {
+    try {
+      const response = await axios.put(`${this.baseUrl}/customers/${customerId}/auth-method`, { authMethod });
+      this.clearCache();
+      return response.data?.data?.authMethod;
+    } catch (error) {
+      console.error('❌ CustomerService: Error updating customer auth method:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get client secrets expiring within `days` (the server's rotation window by default)
+   */
+  public async getExpiringCredentials(days?: number): Promise<ExpiringCredentialsOverview> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/credentials/expiring`, {
+        params: days !== undefined ? { days } : undefined
+      });
+      return response.data?.data;
+    } catch (error) {
+      console.error('❌ CustomerService: Error fetching expiring credentials:', error);
+      throw error;
+    }
+  }
+
+  public async rotateCustomerSecret(customerId: string): Promise<SecretRotationRecord> {
+    try {
+      const response = await axios.post(`${this.baseUrl}/customers/${customerId}/secret/rotate`);
+      return response.data?.data;
+    } catch (error) {
+      console.error('❌ CustomerService: Error rotating customer secret:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get customers with their recent assessment summaries
    */
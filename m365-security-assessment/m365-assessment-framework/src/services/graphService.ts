@@ -4,6 +4,7 @@ import { AuthCodeMSALBrowserAuthenticationProvider } from "@microsoft/microsoft-
 import { InteractionType, PublicClientApplication } from "@azure/msal-browser";
 import { msalConfig, loginRequest } from "../config/auth";
 import { Metrics } from '../models/Metrics';
+import { ASSESSMENT_DOCUMENT_VERSION } from '../shared/constants';
 import { AuthenticationProvider } from '@microsoft/microsoft-graph-client';
 import { AdminConsentService, M365_ASSESSMENT_CONFIG } from './adminConsentService';
 import {
@@ -313,6 +314,8 @@ export class GraphService {
     };
 
     return {
+      schemaVersion: ASSESSMENT_DOCUMENT_VERSION,
+      includedCategories: [],
       license: {
         totalLicenses: 0,
         assignedLicenses: 0,
@@ -332,7 +335,11 @@ export class GraphService {
         license: 0,
         secureScore: 0
       },
-      lastUpdated: new Date()
+      lastUpdated: new Date().toISOString(),
+      realData: {
+        dataSource: 'Microsoft Graph API',
+        lastUpdated: new Date().toISOString()
+      }
     };
   }
 
@@ -2,7 +2,9 @@ export const API_BASE_URL = '/api';
 
 export enum AssessmentStatus {
   Draft = 'draft',
+  InProgress = 'in-progress',
   Completed = 'completed',
+  Failed = 'failed',
   Archived = 'archived'
 }
 
@@ -29,12 +31,13 @@ export const SECURITY_CATEGORIES = {
   license: 'License Usage & Management',
   secureScore: 'Microsoft Secure Score',
   identity: 'Identity & Access Management',
-  endpoint: 'Endpoint Protection & Compliance' // Added endpoint category
+  endpoint: 'Endpoint Protection & Compliance', // Added endpoint category
+  compliance: 'Conditional Access & CIS Benchmark',
+  licenseOptimization: 'License Optimization (per-user reclaim)'
 } as const;
 
-export const METRIC_WEIGHTS = {
-  license: 0.3,
-  secureScore: 0.4,
-  identity: 0.2,
-  endpoint: 0.1 // Added endpoint weight
-} as const;
\ No newline at end of file
+// How long the frontend polls a running assessment. Longer than the API's job timeout
+// (DEFAULT_ASSESSMENT_JOB_TIMEOUT_MINUTES in api/shared/assessmentJob.ts), after which the job is failed.
+export const ASSESSMENT_PROGRESS_MAX_POLL_MS = 45 * 60 * 1000;
+// Assessment document version the API writes (ASSESSMENT_DOCUMENT_VERSION in api/shared/assessmentDocument.ts)
+export const ASSESSMENT_DOCUMENT_VERSION = 2;
@@ -0,0 +1,55 @@
+import { EffectiveLicensePrice } from '../models/LicensePricing';
+
+export const PRICING_CURRENCIES = ['USD', 'EUR', 'GBP', 'CHF', 'CAD', 'AUD', 'SEK', 'NOK', 'DKK'];
+
+export interface LicenseCostLine {
+  skuPartNumber: string;
+  assigned: number;
+  total: number;
+}
+
+/** Cost figures per currency; amounts in different currencies are never converted */
+export interface LicenseCostSummary {
+  monthlyCost: Record<string, number>;
+  unusedMonthlyCost: Record<string, number>;
+  potentialAnnualSavings: Record<string, number>;
+}
+
+const addAmount = (totals: Record<string, number>, currency: string, amount: number) => {
+  totals[currency] = (totals[currency] || 0) + amount;
+};
+
+/**
+ * Cost of the assigned licenses and of the unused ones. Same figures as the PDF report.
+ */
+export const summarizeLicenseCosts = (
+  lines: LicenseCostLine[],
+  prices: Record<string, EffectiveLicensePrice>
+): LicenseCostSummary => {
+  const summary: LicenseCostSummary = { monthlyCost: {}, unusedMonthlyCost: {}, potentialAnnualSavings: {} };
+
+  lines.forEach(line => {
+    const price = prices[line.skuPartNumber];
+    if (!price) return;
+    const unused = Math.max(0, line.total - line.assigned);
+    addAmount(summary.monthlyCost, price.currency, line.assigned * price.unitPrice);
+    addAmount(summary.unusedMonthlyCost, price.currency, unused * price.unitPrice);
+    addAmount(summary.potentialAnnualSavings, price.currency, unused * price.unitPrice * 12);
+  });
+
+  return summary;
+};
+
+export const formatCurrency = (value: number, currency: string, fractionDigits = 2): string =>
+  value.toLocaleString(undefined, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits
+  });
+
+export const formatCurrencyTotals = (totals: Record<string, number>, fractionDigits = 2): string => {
+  const entries = Object.entries(totals);
+  if (entries.length === 0) return '-';
+  return entries.map(([currency, value]) => formatCurrency(value, currency, fractionDigits)).join(' + ');
+};
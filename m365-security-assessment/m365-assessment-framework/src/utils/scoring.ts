@@ -1,16 +1,11 @@
 import { Metrics } from '../models/Metrics';
-import { METRIC_WEIGHTS } from '../shared/constants';
 
-export const calculateOverallScore = (metrics: Metrics): number => {
-  const scores = {
-    license: metrics.score.license,
-    secureScore: metrics.score.secureScore
-  };
-
-  return Object.entries(scores).reduce((total, [category, score]) => {
-    return total + score * METRIC_WEIGHTS[category as keyof typeof METRIC_WEIGHTS];
-  }, 0);
-};
+/**
+ * Overall score of an assessment, as scored by the API. The weights belong to the API
+ * scoring model; assessments stored without a score breakdown keep their stored score.
+ */
+export const calculateOverallScore = (metrics: Metrics): number =>
+  metrics.scoring?.overall ?? metrics.score.overall;
 
 export const calculateScoresFromMetrics = (metrics: Metrics): { overall: number; license: number; secureScore: number; } => {
   return {